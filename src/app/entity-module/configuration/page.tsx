@@ -2,7 +2,7 @@
  * File: /src/app/entity-module/configuration/page.tsx
  * 
  * Entity Configuration Management Page
- * Manages Years/Grade, Academic Year, and Departments
+ * Manages Years/Grade, Academic Year, Departments and Leaderboard privacy
  * 
  * Dependencies:
  *   - @/components/shared/Tabs
@@ -24,7 +24,8 @@ import {
   AlertTriangle, 
   Loader2,
   Info,
-  Shield
+  Shield,
+  Trophy
 } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../components/shared/Tabs';
 import { useAccessControl } from '../../../hooks/useAccessControl';
@@ -33,6 +34,7 @@ import { toast } from '../../../components/shared/Toast';
 import { GradeLevelsTab } from './tabs/GradeLevelsTab';
 import { AcademicYearsTab } from './tabs/AcademicYearsTab';
 import { DepartmentsTab } from './tabs/DepartmentsTab';
+import { LeaderboardPrivacyTab } from './tabs/LeaderboardPrivacyTab';
 
 export default function ConfigurationPage() {
   const { user } = useUser();
@@ -178,6 +180,10 @@ export default function ConfigurationPage() {
             <Building2 className="w-4 h-4 mr-2" />
             Departments
           </TabsTrigger>
+          <TabsTrigger value="leaderboards">
+            <Trophy className="w-4 h-4 mr-2" />
+            Leaderboards
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="grade-levels">
@@ -191,6 +197,10 @@ export default function ConfigurationPage() {
         <TabsContent value="departments">
           <DepartmentsTab companyId={userCompanyId} />
         </TabsContent>
+
+        <TabsContent value="leaderboards">
+          <LeaderboardPrivacyTab companyId={userCompanyId} />
+        </TabsContent>
       </Tabs>
 
       {/* Development Status */}
@@ -0,0 +1,504 @@
+/**
+ * File: /src/app/entity-module/configuration/tabs/AcademicCalendarForm.tsx
+ * Dependencies:
+ *   - @/lib/supabase
+ *   - @/services/calendarConflictService
+ *   - @/components/shared/* (SlideInForm, FormField, Button, Toast)
+ *   - External: react, @tanstack/react-query, lucide-react
+ *
+ * Calendar of one academic year, used by mock exam conflict detection:
+ *   - Dated terms; days in the year outside every term are term breaks
+ *   - Holidays (no teaching) and exam blackout periods (teaching, no exams),
+ *     for every school of the year or a single school
+ *   - Working week of each of the year's schools
+ *
+ * Database Tables:
+ *   - academic_terms, academic_calendar_periods
+ *   - schools (working_days)
+ *
+ * Connected Files:
+ *   - Used by: /src/app/entity-module/configuration/tabs/AcademicYearsTab.tsx
+ *   - Read by: CalendarConflictService.getSchoolCalendars()
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, BookOpen, CalendarOff, Loader2, Plus, School, Trash2 } from 'lucide-react';
+import { supabase } from '../../../../lib/supabase';
+import { SlideInForm } from '../../../../components/shared/SlideInForm';
+import { FormField, Input, Select } from '../../../../components/shared/FormField';
+import { Button } from '../../../../components/shared/Button';
+import { toast } from '../../../../components/shared/Toast';
+import {
+  DEFAULT_WORKING_DAYS,
+  type CalendarPeriodType,
+  type WeekdayLabel,
+} from '../../../../services/calendarConflictService';
+
+export interface AcademicCalendarYear {
+  id: string;
+  year_name: string;
+  start_date: string;
+  end_date: string;
+  total_terms: number | null;
+  school_ids?: string[];
+  school_id: string;
+}
+
+interface AcademicCalendarFormProps {
+  year: AcademicCalendarYear | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface TermDraft {
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+interface PeriodDraft {
+  period_type: CalendarPeriodType;
+  name: string;
+  start_date: string;
+  end_date: string;
+  school_id: string | null;
+}
+
+interface SchoolWorkingWeek {
+  id: string;
+  name: string;
+  working_days: WeekdayLabel[];
+}
+
+interface CalendarDraft {
+  terms: TermDraft[];
+  periods: PeriodDraft[];
+  workingDays: Record<string, WeekdayLabel[]>;
+}
+
+const WEEKDAYS: WeekdayLabel[] = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const PERIOD_TYPE_OPTIONS: Array<{ value: CalendarPeriodType; label: string }> = [
+  { value: 'holiday', label: 'Holiday' },
+  { value: 'exam_blackout', label: 'Exam blackout' },
+];
+
+const ALL_SCHOOLS = 'all';
+
+function validateCalendar(year: AcademicCalendarYear, draft: CalendarDraft): string | null {
+  const inYear = (date: string) => date >= year.start_date && date <= year.end_date;
+
+  for (const term of draft.terms) {
+    if (!term.name.trim() || !term.start_date || !term.end_date) {
+      return 'Every term needs a name, start date and end date';
+    }
+    if (term.end_date < term.start_date) return `${term.name} ends before it starts`;
+    if (!inYear(term.start_date) || !inYear(term.end_date)) return `${term.name} must fall within the academic year`;
+  }
+
+  const sorted = [...draft.terms].sort((a, b) => a.start_date.localeCompare(b.start_date));
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].start_date <= sorted[i - 1].end_date) {
+      return `${sorted[i - 1].name} and ${sorted[i].name} overlap`;
+    }
+  }
+
+  for (const period of draft.periods) {
+    if (!period.name.trim() || !period.start_date || !period.end_date) {
+      return 'Every holiday and blackout needs a name, start date and end date';
+    }
+    if (period.end_date < period.start_date) return `${period.name} ends before it starts`;
+  }
+
+  if (Object.values(draft.workingDays).some((days) => days.length === 0)) {
+    return 'Each school needs at least one working day';
+  }
+
+  return null;
+}
+
+export function AcademicCalendarForm({ year, isOpen, onClose }: AcademicCalendarFormProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CalendarDraft | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const schoolIds = year ? (year.school_ids?.length ? year.school_ids : [year.school_id]) : [];
+
+  const { data: calendar, isLoading } = useQuery(
+    ['academic-calendar', year?.id],
+    async () => {
+      if (!year) return null;
+
+      const [termsResult, periodsResult, schoolsResult] = await Promise.all([
+        supabase
+          .from('academic_terms')
+          .select('term_number, name, start_date, end_date')
+          .eq('academic_year_id', year.id)
+          .order('term_number'),
+        supabase
+          .from('academic_calendar_periods')
+          .select('period_type, name, start_date, end_date, school_id')
+          .eq('academic_year_id', year.id)
+          .order('start_date'),
+        supabase
+          .from('schools')
+          .select('id, name, working_days')
+          .in('id', schoolIds)
+          .order('name'),
+      ]);
+
+      const error = termsResult.error ?? periodsResult.error ?? schoolsResult.error;
+      if (error) throw error;
+
+      return {
+        terms: (termsResult.data || []) as TermDraft[],
+        periods: (periodsResult.data || []) as PeriodDraft[],
+        schools: (schoolsResult.data || []) as SchoolWorkingWeek[],
+      };
+    },
+    { enabled: isOpen && !!year }
+  );
+
+  useEffect(() => {
+    if (!calendar || !year) return;
+
+    setDraft({
+      terms: calendar.terms.length
+        ? calendar.terms.map(({ name, start_date, end_date }) => ({ name, start_date, end_date }))
+        : Array.from({ length: year.total_terms || 0 }, (_, index) => ({
+            name: `Term ${index + 1}`,
+            start_date: '',
+            end_date: '',
+          })),
+      periods: calendar.periods,
+      workingDays: Object.fromEntries(
+        calendar.schools.map((school) => [
+          school.id,
+          school.working_days?.length ? school.working_days : DEFAULT_WORKING_DAYS,
+        ])
+      ),
+    });
+    setFormError(null);
+  }, [calendar, year]);
+
+  const saveMutation = useMutation(
+    async (data: CalendarDraft) => {
+      if (!year) return;
+
+      const validationError = validateCalendar(year, data);
+      if (validationError) throw new Error(validationError);
+
+      const { data: { user } } = await supabase.auth.getUser();
+
+      // Terms and periods are replaced as a whole, like the year's school links
+      const { error: deleteTermsError } = await supabase
+        .from('academic_terms')
+        .delete()
+        .eq('academic_year_id', year.id);
+      if (deleteTermsError) throw deleteTermsError;
+
+      if (data.terms.length > 0) {
+        const { error } = await supabase.from('academic_terms').insert(
+          [...data.terms]
+            .sort((a, b) => a.start_date.localeCompare(b.start_date))
+            .map((term, index) => ({
+              academic_year_id: year.id,
+              term_number: index + 1,
+              name: term.name.trim(),
+              start_date: term.start_date,
+              end_date: term.end_date,
+            }))
+        );
+        if (error) throw error;
+      }
+
+      const { error: deletePeriodsError } = await supabase
+        .from('academic_calendar_periods')
+        .delete()
+        .eq('academic_year_id', year.id);
+      if (deletePeriodsError) throw deletePeriodsError;
+
+      if (data.periods.length > 0) {
+        const { error } = await supabase.from('academic_calendar_periods').insert(
+          data.periods.map((period) => ({
+            academic_year_id: year.id,
+            period_type: period.period_type,
+            name: period.name.trim(),
+            start_date: period.start_date,
+            end_date: period.end_date,
+            school_id: period.school_id,
+            created_by: user?.id ?? null,
+          }))
+        );
+        if (error) throw error;
+      }
+
+      const changedSchools = (calendar?.schools || []).filter(
+        (school) => (school.working_days || []).join(',') !== (data.workingDays[school.id] || []).join(',')
+      );
+      for (const school of changedSchools) {
+        const { error } = await supabase
+          .from('schools')
+          .update({ working_days: WEEKDAYS.filter((day) => data.workingDays[school.id].includes(day)) })
+          .eq('id', school.id);
+        if (error) throw error;
+      }
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['academic-calendar']);
+        toast.success('Academic calendar saved');
+        onClose();
+      },
+      onError: (error) => {
+        console.error('Error saving academic calendar:', error);
+        setFormError(error instanceof Error ? error.message : 'Failed to save academic calendar');
+      },
+    }
+  );
+
+  const updateTerm = (index: number, changes: Partial<TermDraft>) => {
+    setDraft((prev) => prev && {
+      ...prev,
+      terms: prev.terms.map((term, i) => (i === index ? { ...term, ...changes } : term)),
+    });
+  };
+
+  const updatePeriod = (index: number, changes: Partial<PeriodDraft>) => {
+    setDraft((prev) => prev && {
+      ...prev,
+      periods: prev.periods.map((period, i) => (i === index ? { ...period, ...changes } : period)),
+    });
+  };
+
+  const toggleWorkingDay = (schoolId: string, day: WeekdayLabel) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const days = prev.workingDays[schoolId] || [];
+      return {
+        ...prev,
+        workingDays: {
+          ...prev.workingDays,
+          [schoolId]: days.includes(day) ? days.filter((d) => d !== day) : [...days, day],
+        },
+      };
+    });
+  };
+
+  const schoolOptions = [
+    { value: ALL_SCHOOLS, label: 'All schools' },
+    ...(calendar?.schools || []).map((school) => ({ value: school.id, label: school.name })),
+  ];
+
+  return (
+    <SlideInForm
+      key={year?.id || 'calendar'}
+      title={year ? `Calendar: ${year.year_name}` : 'Academic Calendar'}
+      isOpen={isOpen}
+      onClose={() => {
+        setFormError(null);
+        onClose();
+      }}
+      onSave={() => draft && saveMutation.mutate(draft)}
+      loading={saveMutation.isLoading}
+      width="lg"
+    >
+      {isLoading || !draft || !year ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-[#8CC63F]" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {formError && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 rounded-md flex items-start gap-2">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{formError}</span>
+            </div>
+          )}
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+                <BookOpen className="h-4 w-4 text-[#8CC63F]" />
+                Terms
+              </h3>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setDraft((prev) => prev && {
+                  ...prev,
+                  terms: [...prev.terms, { name: `Term ${prev.terms.length + 1}`, start_date: '', end_date: '' }],
+                })}
+                leftIcon={<Plus className="h-4 w-4" />}
+              >
+                Add Term
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Days between terms are treated as term breaks when scheduling exams.
+            </p>
+            {draft.terms.map((term, index) => (
+              <div key={index} className="grid grid-cols-[1fr_9rem_9rem_auto] gap-2 items-end">
+                <FormField id={`term_name_${index}`} label="Name">
+                  <Input
+                    id={`term_name_${index}`}
+                    value={term.name}
+                    onChange={(e) => updateTerm(index, { name: e.target.value })}
+                  />
+                </FormField>
+                <FormField id={`term_start_${index}`} label="Start">
+                  <Input
+                    id={`term_start_${index}`}
+                    type="date"
+                    value={term.start_date}
+                    min={year.start_date}
+                    max={year.end_date}
+                    onChange={(e) => updateTerm(index, { start_date: e.target.value })}
+                  />
+                </FormField>
+                <FormField id={`term_end_${index}`} label="End">
+                  <Input
+                    id={`term_end_${index}`}
+                    type="date"
+                    value={term.end_date}
+                    min={term.start_date || year.start_date}
+                    max={year.end_date}
+                    onChange={(e) => updateTerm(index, { end_date: e.target.value })}
+                  />
+                </FormField>
+                <button
+                  type="button"
+                  onClick={() => setDraft((prev) => prev && { ...prev, terms: prev.terms.filter((_, i) => i !== index) })}
+                  className="p-2 mb-1 text-gray-500 hover:text-red-600 transition-colors"
+                  title="Remove term"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </section>
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+                <CalendarOff className="h-4 w-4 text-[#8CC63F]" />
+                Holidays and Exam Blackouts
+              </h3>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setDraft((prev) => prev && {
+                  ...prev,
+                  periods: [
+                    ...prev.periods,
+                    { period_type: 'holiday', name: '', start_date: '', end_date: '', school_id: null },
+                  ],
+                })}
+                leftIcon={<Plus className="h-4 w-4" />}
+              >
+                Add Period
+              </Button>
+            </div>
+            {draft.periods.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No holidays or blackout periods yet.</p>
+            )}
+            {draft.periods.map((period, index) => (
+              <div
+                key={index}
+                className="p-3 rounded-md border border-gray-200 dark:border-gray-700 grid grid-cols-2 gap-2 items-end"
+              >
+                <FormField id={`period_type_${index}`} label="Type">
+                  <Select
+                    id={`period_type_${index}`}
+                    options={PERIOD_TYPE_OPTIONS}
+                    value={period.period_type}
+                    onChange={(value) => updatePeriod(index, { period_type: String(value) as CalendarPeriodType })}
+                  />
+                </FormField>
+                <FormField id={`period_school_${index}`} label="Applies to">
+                  <Select
+                    id={`period_school_${index}`}
+                    options={schoolOptions}
+                    value={period.school_id ?? ALL_SCHOOLS}
+                    onChange={(value) => updatePeriod(index, {
+                      school_id: String(value) === ALL_SCHOOLS ? null : String(value),
+                    })}
+                  />
+                </FormField>
+                <FormField id={`period_name_${index}`} label="Name" className="col-span-2">
+                  <Input
+                    id={`period_name_${index}`}
+                    value={period.name}
+                    placeholder={period.period_type === 'holiday' ? 'e.g. Eid al-Fitr' : 'e.g. Final exams'}
+                    onChange={(e) => updatePeriod(index, { name: e.target.value })}
+                  />
+                </FormField>
+                <FormField id={`period_start_${index}`} label="Start">
+                  <Input
+                    id={`period_start_${index}`}
+                    type="date"
+                    value={period.start_date}
+                    onChange={(e) => updatePeriod(index, { start_date: e.target.value })}
+                  />
+                </FormField>
+                <div className="flex items-end gap-2">
+                  <FormField id={`period_end_${index}`} label="End" className="flex-1">
+                    <Input
+                      id={`period_end_${index}`}
+                      type="date"
+                      value={period.end_date}
+                      min={period.start_date}
+                      onChange={(e) => updatePeriod(index, { end_date: e.target.value })}
+                    />
+                  </FormField>
+                  <button
+                    type="button"
+                    onClick={() => setDraft((prev) => prev && {
+                      ...prev,
+                      periods: prev.periods.filter((_, i) => i !== index),
+                    })}
+                    className="p-2 mb-1 text-gray-500 hover:text-red-600 transition-colors"
+                    title="Remove period"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+              <School className="h-4 w-4 text-[#8CC63F]" />
+              Working Week
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Applies to the school across all academic years.
+            </p>
+            {(calendar?.schools || []).map((school) => (
+              <div key={school.id} className="space-y-2">
+                <div className="text-sm font-medium text-gray-700 dark:text-gray-300">{school.name}</div>
+                <div className="grid grid-cols-7 gap-2">
+                  {WEEKDAYS.map((day) => (
+                    <label key={day} className="flex items-center space-x-1">
+                      <input
+                        type="checkbox"
+                        checked={(draft.workingDays[school.id] || []).includes(day)}
+                        onChange={() => toggleWorkingDay(school.id, day)}
+                        className="rounded border-gray-300 text-[#8CC63F] focus:ring-[#8CC63F]"
+                      />
+                      <span className="text-sm text-gray-700 dark:text-gray-300">{day}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </section>
+        </div>
+      )}
+    </SlideInForm>
+  );
+}
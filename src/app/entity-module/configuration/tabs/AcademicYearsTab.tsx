@@ -27,6 +27,7 @@
  * Database Tables:
  *   - academic_years (id, school_id, year_name, start_date, end_date, total_terms, current_term, is_current, status)
  *   - academic_year_schools (junction table for multi-school support)
+ *   - academic_terms, academic_calendar_periods, schools.working_days (via AcademicCalendarForm)
  * 
  * Connected Files:
  *   - Used by: /src/app/entity-module/configuration/page.tsx
@@ -47,7 +48,8 @@ import {
   TrendingUp,
   AlertCircle,
   CheckCircle2,
-  Clock
+  Clock,
+  CalendarRange
 } from 'lucide-react';
 import { z } from 'zod';
 import { supabase } from '../../../../lib/supabase';
@@ -62,6 +64,7 @@ import { SearchableMultiSelect } from '../../../../components/shared/SearchableM
 import { ToggleSwitch } from '../../../../components/shared/ToggleSwitch';
 import { ConfirmationDialog } from '../../../../components/shared/ConfirmationDialog';
 import { toast } from '../../../../components/shared/Toast';
+import { AcademicCalendarForm } from './AcademicCalendarForm';
 
 // Schema validation
 const academicYearSchema = z.object({
@@ -158,6 +161,7 @@ export function AcademicYearsTab({ companyId }: AcademicYearsTabProps) {
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
   const [selectedTemplate, setSelectedTemplate] = useState<typeof YEAR_TEMPLATES[0] | null>(null);
   const [selectedRows, setSelectedRows] = useState<string[]>([]);
+  const [calendarYear, setCalendarYear] = useState<AcademicYear | null>(null);
   
   const [filters, setFilters] = useState<FilterState>({
     search: '',
@@ -781,6 +785,13 @@ export function AcademicYearsTab({ companyId }: AcademicYearsTabProps) {
           >
             <Copy className="h-4 w-4" />
           </button>
+          <button
+            onClick={() => setCalendarYear(row)}
+            className="p-1 text-gray-500 hover:text-[#8CC63F] dark:text-gray-400 dark:hover:text-[#8CC63F] transition-colors"
+            title="Terms, holidays and working week"
+          >
+            <CalendarRange className="h-4 w-4" />
+          </button>
         </div>
       ),
     },
@@ -925,6 +936,13 @@ export function AcademicYearsTab({ companyId }: AcademicYearsTabProps) {
         selectedRows={selectedRows}
       />
 
+      {/* Academic calendar: terms, holidays, blackouts and working weeks */}
+      <AcademicCalendarForm
+        year={calendarYear}
+        isOpen={!!calendarYear}
+        onClose={() => setCalendarYear(null)}
+      />
+
       {/* Enhanced Form Slide-In */}
       <SlideInForm
         key={editingYear?.id || 'new'}
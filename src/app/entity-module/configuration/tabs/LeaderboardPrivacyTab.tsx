@@ -0,0 +1,201 @@
+/**
+ * File: /src/app/entity-module/configuration/tabs/LeaderboardPrivacyTab.tsx
+ * Dependencies:
+ *   - @/lib/supabase
+ *   - @/hooks/useAccessControl
+ *   - @/components/shared/* (FormField, Button, Toast)
+ *   - External: react, @tanstack/react-query, lucide-react
+ *
+ * Per-school leaderboard policy for practice leaderboards:
+ *   - enabled: names and avatars on class, school and global boards
+ *   - anonymised: stable aliases instead of names, no avatars
+ *   - class_only: students appear on (and see) class boards only
+ *   - disabled: no leaderboards for the school
+ * Students younger than the minimum age are hidden unless they opt in.
+ *
+ * Database Tables:
+ *   - schools (leaderboard_policy, leaderboard_min_age)
+ *
+ * Connected Files:
+ *   - Used by: /src/app/entity-module/configuration/page.tsx
+ *   - Enforced by: get_leaderboard_snapshot() / leaderboard_rows() in the database
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { School, Trophy, Save, Loader2 } from 'lucide-react';
+import { supabase } from '../../../../lib/supabase';
+import { useAccessControl } from '../../../../hooks/useAccessControl';
+import { FormField, Input, Select } from '../../../../components/shared/FormField';
+import { Button } from '../../../../components/shared/Button';
+import { toast } from '../../../../components/shared/Toast';
+import type { LeaderboardPolicy } from '../../../../types/practice';
+
+interface LeaderboardPrivacyTabProps {
+  companyId: string | null;
+}
+
+interface SchoolLeaderboardSettings {
+  id: string;
+  name: string;
+  leaderboard_policy: LeaderboardPolicy;
+  leaderboard_min_age: number;
+}
+
+type SettingsDraft = Pick<SchoolLeaderboardSettings, 'leaderboard_policy' | 'leaderboard_min_age'>;
+
+const POLICY_OPTIONS: Array<{ value: LeaderboardPolicy; label: string }> = [
+  { value: 'enabled', label: 'Enabled - names shown' },
+  { value: 'anonymised', label: 'Anonymised - aliases only' },
+  { value: 'class_only', label: 'Class only' },
+  { value: 'disabled', label: 'Disabled' }
+];
+
+export function LeaderboardPrivacyTab({ companyId }: LeaderboardPrivacyTabProps) {
+  const queryClient = useQueryClient();
+  const { getScopeFilters, isEntityAdmin, isSubEntityAdmin } = useAccessControl();
+  const [drafts, setDrafts] = useState<Record<string, SettingsDraft>>({});
+
+  const scopeFilters = getScopeFilters('schools');
+  const canAccessAll = isEntityAdmin || isSubEntityAdmin;
+
+  const { data: schools = [], isLoading } = useQuery(
+    ['leaderboard-privacy-schools', companyId, scopeFilters],
+    async () => {
+      if (!companyId) return [];
+
+      let query = supabase
+        .from('schools')
+        .select('id, name, leaderboard_policy, leaderboard_min_age')
+        .eq('company_id', companyId)
+        .eq('status', 'active')
+        .order('name');
+
+      if (!canAccessAll && scopeFilters.school_ids && scopeFilters.school_ids.length > 0) {
+        query = query.in('id', scopeFilters.school_ids);
+      } else if (!canAccessAll) {
+        return [];
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as SchoolLeaderboardSettings[];
+    },
+    { enabled: !!companyId }
+  );
+
+  const saveMutation = useMutation(
+    async ({ schoolId, settings }: { schoolId: string; settings: SettingsDraft }) => {
+      if (!Number.isInteger(settings.leaderboard_min_age) || settings.leaderboard_min_age < 0 || settings.leaderboard_min_age > 25) {
+        throw new Error('Minimum age must be a whole number between 0 and 25');
+      }
+
+      const { error } = await supabase
+        .from('schools')
+        .update(settings)
+        .eq('id', schoolId);
+
+      if (error) throw error;
+      return schoolId;
+    },
+    {
+      onSuccess: (schoolId) => {
+        queryClient.invalidateQueries(['leaderboard-privacy-schools']);
+        setDrafts((prev) => {
+          const next = { ...prev };
+          delete next[schoolId];
+          return next;
+        });
+        toast.success('Leaderboard settings saved');
+      },
+      onError: (error) => {
+        console.error('Error saving leaderboard settings:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to save leaderboard settings');
+      }
+    }
+  );
+
+  const settingsFor = (school: SchoolLeaderboardSettings): SettingsDraft =>
+    drafts[school.id] ?? {
+      leaderboard_policy: school.leaderboard_policy,
+      leaderboard_min_age: school.leaderboard_min_age
+    };
+
+  const updateDraft = (school: SchoolLeaderboardSettings, changes: Partial<SettingsDraft>) => {
+    setDrafts((prev) => ({ ...prev, [school.id]: { ...settingsFor(school), ...changes } }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-[#8CC63F]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Trophy className="w-5 h-5 text-[#8CC63F]" />
+          Practice Leaderboards
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          Choose how each school's students appear on practice leaderboards. Students younger than the
+          minimum age are hidden unless they opt in, and any student can opt out from their practice page.
+        </p>
+      </div>
+
+      {schools.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No active schools to configure.</p>
+      ) : (
+        schools.map((school) => {
+          const settings = settingsFor(school);
+          const isDirty = !!drafts[school.id];
+          const isSaving = saveMutation.isLoading && saveMutation.variables?.schoolId === school.id;
+
+          return (
+            <div
+              key={school.id}
+              className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 grid grid-cols-1 md:grid-cols-[1fr_16rem_10rem_auto] gap-4 items-end"
+            >
+              <div className="flex items-center gap-2 pb-2">
+                <School className="w-4 h-4 text-gray-500" />
+                <span className="font-medium text-gray-900 dark:text-white">{school.name}</span>
+              </div>
+              <FormField id={`leaderboard_policy_${school.id}`} label="Policy">
+                <Select
+                  id={`leaderboard_policy_${school.id}`}
+                  options={POLICY_OPTIONS}
+                  value={settings.leaderboard_policy}
+                  onChange={(value) => updateDraft(school, { leaderboard_policy: String(value) as LeaderboardPolicy })}
+                />
+              </FormField>
+              <FormField id={`leaderboard_min_age_${school.id}`} label="Minimum age">
+                <Input
+                  id={`leaderboard_min_age_${school.id}`}
+                  type="number"
+                  min={0}
+                  max={25}
+                  value={settings.leaderboard_min_age}
+                  disabled={settings.leaderboard_policy === 'disabled'}
+                  onChange={(e) => updateDraft(school, { leaderboard_min_age: parseInt(e.target.value, 10) || 0 })}
+                />
+              </FormField>
+              <Button
+                size="sm"
+                onClick={() => saveMutation.mutate({ schoolId: school.id, settings })}
+                disabled={!isDirty || saveMutation.isLoading}
+                leftIcon={isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              >
+                Save
+              </Button>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import {
   ChevronUp,
   Lightbulb,
   Loader2,
+  Ban,
 } from 'lucide-react';
 import { Button } from '../../../../components/shared/Button';
 import type { Conflict, Warning } from '../../../../services/calendarConflictService';
@@ -69,6 +70,8 @@ export function ConflictDetectionPanel({
         return MapPin;
       case 'holiday':
         return Clock;
+      case 'exam_blackout':
+        return Ban;
       default:
         return AlertCircle;
     }
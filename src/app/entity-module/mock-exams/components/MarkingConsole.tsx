@@ -0,0 +1,578 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle2, ClipboardCheck, Loader2, Save, Shuffle, Sparkles, Users, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button, IconButton } from '../../../../components/shared/Button';
+import { FormField, Input, Select } from '../../../../components/shared/FormField';
+import { ToggleSwitch } from '../../../../components/shared/ToggleSwitch';
+import { ProgressBar } from '../../../../components/shared/ProgressBar';
+import {
+  useAutoMarkMockExam,
+  useMockExamMarking,
+  useSaveMarkerAllocations,
+  useSaveMockExamMarks,
+} from '../../../../hooks/useMockExams';
+import {
+  allocatedMarkerFor,
+  markKey,
+  summariseMarkerProgress,
+  validateMark,
+  type MarkerAllocation,
+  type MarkerAllocationType,
+  type MarkEntry,
+  type MarkingContext,
+  type MarkingItem,
+  type MarkingStudent,
+} from '../../../../services/mockExamMarkingService';
+import type { MockExamLifecycleStatus } from '../../../../services/mockExamService';
+import { ModerationPanel } from './ModerationPanel';
+
+interface MarkingConsoleProps {
+  examId: string;
+  examTitle: string;
+  examStatus: MockExamLifecycleStatus;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ConsoleTab = 'marking' | 'allocation' | 'progress' | 'moderation';
+type MarkingView = 'question' | 'script';
+
+interface DraftMark {
+  marks: string;
+  comment: string;
+}
+
+const TABS: Array<{ id: ConsoleTab; label: string }> = [
+  { id: 'marking', label: 'Marking' },
+  { id: 'allocation', label: 'Allocation' },
+  { id: 'progress', label: 'Progress' },
+  { id: 'moderation', label: 'Moderation' },
+];
+
+/** Questions of the paper; a question marked part by part appears once */
+function questionsOf(items: MarkingItem[]) {
+  const seen = new Map<string, { id: string; label: string }>();
+  items.forEach((item) => {
+    if (!seen.has(item.questionSelectionId)) {
+      seen.set(item.questionSelectionId, { id: item.questionSelectionId, label: `Q${item.questionNumber}` });
+    }
+  });
+  return Array.from(seen.values());
+}
+
+export function MarkingConsole({ examId, examTitle, examStatus, isOpen, onClose }: MarkingConsoleProps) {
+  const { data: context, isLoading, error } = useMockExamMarking(isOpen ? examId : undefined);
+  const saveMarks = useSaveMockExamMarks();
+  const autoMark = useAutoMarkMockExam();
+  const saveAllocations = useSaveMarkerAllocations();
+
+  const [activeTab, setActiveTab] = useState<ConsoleTab>('marking');
+  const [view, setView] = useState<MarkingView>('question');
+  const [selectedItemKey, setSelectedItemKey] = useState('');
+  const [selectedStudentId, setSelectedStudentId] = useState('');
+  const [onlyMine, setOnlyMine] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, DraftMark>>({});
+  const [allocationType, setAllocationType] = useState<MarkerAllocationType>('question');
+  const [allocationDraft, setAllocationDraft] = useState<MarkerAllocation[]>([]);
+
+  useEffect(() => {
+    if (!context) return;
+    setAllocationDraft(context.allocations);
+    if (context.allocations.length > 0) {
+      setAllocationType(context.allocations[0].allocationType);
+    }
+    const [firstItem] = context.items;
+    if (firstItem) {
+      setSelectedItemKey((previous) => previous || markKey('', firstItem.questionSelectionId, firstItem.subQuestionId));
+    }
+    const [firstStudent] = context.students;
+    if (firstStudent) {
+      setSelectedStudentId((previous) => previous || firstStudent.studentId);
+    }
+  }, [context]);
+
+  const hasOwnAllocation = useMemo(
+    () => !!context?.currentMarkerId && context.allocations.some((allocation) => allocation.markerId === context.currentMarkerId),
+    [context]
+  );
+
+  const progress = useMemo(() => (context ? summariseMarkerProgress(context) : []), [context]);
+
+  const dirtyEntries = useMemo(() => {
+    if (!context) return { entries: [] as MarkEntry[], errors: [] as string[] };
+    const entries: MarkEntry[] = [];
+    const errors: string[] = [];
+
+    Object.entries(drafts).forEach(([key, draft]) => {
+      const [studentId] = key.split(':');
+      const item = context.items.find((candidate) => markKey(studentId, candidate.questionSelectionId, candidate.subQuestionId) === key);
+      if (!item || draft.marks.trim() === '') return;
+
+      const marks = Number(draft.marks);
+      const validation = validateMark(item, marks);
+      if (validation) {
+        errors.push(validation);
+        return;
+      }
+
+      entries.push({
+        studentId,
+        questionSelectionId: item.questionSelectionId,
+        subQuestionId: item.subQuestionId,
+        marks,
+        comment: draft.comment.trim() || null,
+      });
+    });
+
+    return { entries, errors };
+  }, [context, drafts]);
+
+  if (!isOpen) return null;
+
+  // Marks are frozen once the exam leaves grading (moderation and release)
+  const marksLocked = examStatus !== 'grading';
+
+  const canMark = (studentId: string, item: MarkingItem) => {
+    if (!context || !hasOwnAllocation) return true;
+    return allocatedMarkerFor(context.allocations, studentId, item.questionSelectionId) === context.currentMarkerId;
+  };
+
+  const updateDraft = (key: string, patch: Partial<DraftMark>, current: DraftMark) => {
+    setDrafts((previous) => ({ ...previous, [key]: { ...current, ...previous[key], ...patch } }));
+  };
+
+  const handleSaveMarks = async () => {
+    if (dirtyEntries.errors.length > 0) {
+      toast.error(dirtyEntries.errors[0]);
+      return;
+    }
+    if (dirtyEntries.entries.length === 0) {
+      toast('No changes to save');
+      return;
+    }
+
+    try {
+      const saved = await saveMarks.mutateAsync({ examId, marks: dirtyEntries.entries });
+      setDrafts({});
+      toast.success(`Saved ${saved} mark${saved === 1 ? '' : 's'}`);
+    } catch (saveError) {
+      toast.error(saveError instanceof Error ? saveError.message : 'Unable to save marks');
+    }
+  };
+
+  const handleAutoMark = async () => {
+    try {
+      const students = await autoMark.mutateAsync(examId);
+      toast.success(
+        students > 0
+          ? `Auto-marked objective and labelled diagram questions for ${students} student${students === 1 ? '' : 's'}`
+          : 'No unmarked objective or labelled diagram answers found'
+      );
+    } catch (autoMarkError) {
+      toast.error(autoMarkError instanceof Error ? autoMarkError.message : 'Unable to auto-mark responses');
+    }
+  };
+
+  const handleSaveAllocations = async () => {
+    try {
+      await saveAllocations.mutateAsync({ examId, allocations: allocationDraft });
+      toast.success('Marker allocation saved');
+    } catch (allocationError) {
+      toast.error(allocationError instanceof Error ? allocationError.message : 'Unable to save marker allocation');
+    }
+  };
+
+  const renderMarkRow = (
+    ctx: MarkingContext,
+    student: MarkingStudent,
+    item: MarkingItem,
+    heading: string,
+    subheading?: string | null
+  ) => {
+    const key = markKey(student.studentId, item.questionSelectionId, item.subQuestionId);
+    const response = ctx.responses[key];
+    const current: DraftMark = {
+      marks: response?.markedAt ? String(response.marksAwarded) : '',
+      comment: response?.markerComments ?? '',
+    };
+    const draft = drafts[key] ?? current;
+    const validation = draft.marks.trim() === '' ? null : validateMark(item, Number(draft.marks));
+    const markerId = allocatedMarkerFor(ctx.allocations, student.studentId, item.questionSelectionId);
+    const markerName = ctx.markers.find((marker) => marker.entityUserId === markerId)?.name;
+    const editable = !marksLocked && canMark(student.studentId, item);
+
+    return (
+      <tr key={key} className="align-top">
+        <td className="px-4 py-3">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">{heading}</p>
+          {subheading && <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2">{subheading}</p>}
+          {markerName && <p className="text-xs text-gray-400 mt-1">Marker: {markerName}</p>}
+        </td>
+        <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300 max-w-xs">
+          {response?.studentAnswer ? (
+            <p className="whitespace-pre-wrap break-words">{response.studentAnswer}</p>
+          ) : (
+            <span className="text-xs text-gray-400">No online answer (paper script)</span>
+          )}
+          {item.correctAnswer && <p className="text-xs text-gray-400 mt-1">Key: {item.correctAnswer}</p>}
+        </td>
+        <td className="px-4 py-3 w-36">
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              min={0}
+              max={item.maxMarks}
+              step={0.5}
+              value={draft.marks}
+              disabled={!editable}
+              error={!!validation}
+              onChange={(event) => updateDraft(key, { marks: event.target.value }, current)}
+              className="w-20"
+            />
+            <span className="text-xs text-gray-500">/ {item.maxMarks}</span>
+          </div>
+          {validation && <p className="text-xs text-red-600 mt-1">{validation}</p>}
+        </td>
+        <td className="px-4 py-3">
+          <Input
+            value={draft.comment}
+            disabled={!editable}
+            placeholder="Comment"
+            onChange={(event) => updateDraft(key, { comment: event.target.value }, current)}
+          />
+        </td>
+        <td className="px-4 py-3 text-xs whitespace-nowrap">
+          {response?.markedAt ? (
+            <span className="inline-flex items-center gap-1 text-emerald-600">
+              <CheckCircle2 className="w-3.5 h-3.5" /> {response.autoMarked ? 'Auto-marked' : 'Marked'}
+            </span>
+          ) : (
+            <span className="text-gray-400">Unmarked</span>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  const renderMarkingTab = (ctx: MarkingContext) => {
+    const selectedItem = ctx.items.find(
+      (item) => markKey('', item.questionSelectionId, item.subQuestionId) === selectedItemKey
+    );
+    const selectedStudent = ctx.students.find((student) => student.studentId === selectedStudentId);
+
+    const rows =
+      view === 'question'
+        ? selectedItem
+          ? ctx.students
+              .filter((student) => !onlyMine || canMark(student.studentId, selectedItem))
+              .map((student) => renderMarkRow(ctx, student, selectedItem, student.name, student.email))
+          : []
+        : selectedStudent
+          ? ctx.items
+              .filter((item) => !onlyMine || canMark(selectedStudent.studentId, item))
+              .map((item) => renderMarkRow(ctx, selectedStudent, item, item.label, item.prompt))
+          : [];
+
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <FormField id="marking-view" label="Mark by" className="w-48">
+            <Select
+              id="marking-view"
+              value={view}
+              onChange={(value) => setView(String(value) as MarkingView)}
+              options={[
+                { value: 'question', label: 'Question' },
+                { value: 'script', label: 'Script' },
+              ]}
+              searchable={false}
+            />
+          </FormField>
+          {view === 'question' ? (
+            <FormField id="marking-item" label="Question" className="w-64">
+              <Select
+                id="marking-item"
+                value={selectedItemKey}
+                onChange={(value) => setSelectedItemKey(String(value))}
+                options={ctx.items.map((item) => ({
+                  value: markKey('', item.questionSelectionId, item.subQuestionId),
+                  label: `${item.label} (${item.maxMarks} marks)`,
+                }))}
+              />
+            </FormField>
+          ) : (
+            <FormField id="marking-student" label="Student" className="w-64">
+              <Select
+                id="marking-student"
+                value={selectedStudentId}
+                onChange={(value) => setSelectedStudentId(String(value))}
+                options={ctx.students.map((student) => ({ value: student.studentId, label: student.name }))}
+              />
+            </FormField>
+          )}
+          {hasOwnAllocation && (
+            <ToggleSwitch checked={onlyMine} onChange={setOnlyMine} label="Only my allocation" size="sm" />
+          )}
+          <div className="ml-auto flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAutoMark}
+              disabled={marksLocked || autoMark.isLoading}
+              leftIcon={autoMark.isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            >
+              Auto-mark questions
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSaveMarks}
+              disabled={marksLocked || saveMarks.isLoading || dirtyEntries.errors.length > 0}
+              leftIcon={saveMarks.isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            >
+              Save marks{dirtyEntries.entries.length > 0 ? ` (${dirtyEntries.entries.length})` : ''}
+            </Button>
+          </div>
+        </div>
+
+        {view === 'question' && selectedItem?.prompt && (
+          <p className="text-sm text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-900/40 rounded-lg p-3 whitespace-pre-wrap">
+            {selectedItem.prompt}
+          </p>
+        )}
+
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900/40">
+              <tr className="text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                <th className="px-4 py-2">{view === 'question' ? 'Student' : 'Question'}</th>
+                <th className="px-4 py-2">Answer</th>
+                <th className="px-4 py-2">Marks</th>
+                <th className="px-4 py-2">Comment</th>
+                <th className="px-4 py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {rows.length > 0 ? (
+                rows
+              ) : (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-sm text-gray-500">
+                    Nothing to mark here.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  const renderAllocationTab = (ctx: MarkingContext) => {
+    const targets =
+      allocationType === 'question'
+        ? questionsOf(ctx.items)
+        : ctx.students.map((student) => ({ id: student.studentId, label: student.name }));
+    const markerOptions = [
+      { value: '', label: 'Unallocated' },
+      ...ctx.markers.map((marker) => ({ value: marker.entityUserId, label: marker.name })),
+    ];
+
+    const assignedTo = (targetId: string) =>
+      allocationDraft.find((allocation) =>
+        allocation.allocationType === allocationType &&
+        (allocationType === 'question' ? allocation.questionSelectionId : allocation.studentId) === targetId
+      )?.markerId ?? '';
+
+    const assign = (targetId: string, markerId: string) => {
+      setAllocationDraft((previous) => {
+        const others = previous.filter((allocation) =>
+          allocation.allocationType !== allocationType ||
+          (allocationType === 'question' ? allocation.questionSelectionId : allocation.studentId) !== targetId
+        );
+        if (!markerId) return others;
+        return [
+          ...others,
+          {
+            markerId,
+            allocationType,
+            questionSelectionId: allocationType === 'question' ? targetId : null,
+            studentId: allocationType === 'script' ? targetId : null,
+          },
+        ];
+      });
+    };
+
+    const distributeEvenly = () => {
+      if (ctx.markers.length === 0) return;
+      setAllocationDraft((previous) => [
+        ...previous.filter((allocation) => allocation.allocationType !== allocationType),
+        ...targets.map((target, index) => ({
+          markerId: ctx.markers[index % ctx.markers.length].entityUserId,
+          allocationType,
+          questionSelectionId: allocationType === 'question' ? target.id : null,
+          studentId: allocationType === 'script' ? target.id : null,
+        })),
+      ]);
+    };
+
+    return (
+      <div className="space-y-4">
+        {ctx.markers.length === 0 ? (
+          <p className="text-sm text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 rounded-lg p-3">
+            No markers are assigned to this exam. Add teachers with the marker, examiner, moderator or lead teacher
+            role to allocate marking.
+          </p>
+        ) : null}
+        <div className="flex flex-wrap items-end gap-4">
+          <FormField id="allocation-type" label="Allocate by" className="w-48">
+            <Select
+              id="allocation-type"
+              value={allocationType}
+              onChange={(value) => setAllocationType(String(value) as MarkerAllocationType)}
+              options={[
+                { value: 'question', label: 'Question' },
+                { value: 'script', label: 'Script' },
+              ]}
+              searchable={false}
+            />
+          </FormField>
+          <div className="ml-auto flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={distributeEvenly}
+              disabled={ctx.markers.length === 0}
+              leftIcon={<Shuffle className="w-4 h-4" />}
+            >
+              Distribute evenly
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSaveAllocations}
+              disabled={saveAllocations.isLoading}
+              leftIcon={saveAllocations.isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            >
+              Save allocation
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Script allocations take precedence over question allocations. Markers with an allocation can only save marks
+          inside it.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {targets.map((target) => (
+            <div
+              key={target.id}
+              className="flex items-center justify-between gap-3 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2"
+            >
+              <span className="text-sm text-gray-900 dark:text-white truncate">{target.label}</span>
+              <Select
+                value={assignedTo(target.id)}
+                onChange={(value) => assign(target.id, String(value))}
+                options={markerOptions}
+                searchable={false}
+                className="w-48"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderProgressTab = () => (
+    <div className="space-y-3">
+      {progress.length === 0 ? (
+        <p className="text-sm text-gray-500">No markers or scripts yet.</p>
+      ) : (
+        progress.map((row) => (
+          <div key={row.markerId || 'unallocated'} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+            <div className="flex items-center justify-between text-sm mb-2">
+              <span className="font-medium text-gray-900 dark:text-white">{row.name}</span>
+              <span className="text-gray-500">
+                {row.marked} / {row.allocated} marked
+              </span>
+            </div>
+            <ProgressBar
+              value={row.marked}
+              max={Math.max(row.allocated, 1)}
+              color={row.allocated > 0 && row.marked === row.allocated ? 'green' : 'blue'}
+              size="sm"
+            />
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/50 transition-opacity" onClick={onClose} />
+
+        <div className="relative w-full max-w-6xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-3">
+              <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-[#8CC63F]/20 to-[#7AB635]/20 flex items-center justify-center">
+                <ClipboardCheck className="w-6 h-6 text-[#8CC63F]" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Marking console</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{examTitle}</p>
+              </div>
+            </div>
+            <IconButton variant="ghost" size="icon-sm" onClick={onClose} aria-label="Close">
+              <X className="w-5 h-5" />
+            </IconButton>
+          </div>
+
+          <div className="px-6 pt-4 flex items-center gap-2 border-b border-gray-200 dark:border-gray-700">
+            {TABS.map((tab) => (
+              <button
+                key={tab.id}
+                type="button"
+                onClick={() => setActiveTab(tab.id)}
+                className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                  activeTab === tab.id
+                    ? 'border-[#8CC63F] text-[#5d8a25] dark:text-[#8CC63F]'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+            {context && (
+              <span className="ml-auto inline-flex items-center gap-1 text-xs text-gray-500 pb-2">
+                <Users className="w-3.5 h-3.5" /> {context.students.length} scripts · {context.items.length} items
+              </span>
+            )}
+          </div>
+
+          <div className="p-6">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-16">
+                <Loader2 className="w-8 h-8 animate-spin text-[#8CC63F]" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-red-600">{(error as Error).message}</p>
+            ) : !context || context.items.length === 0 ? (
+              <p className="text-sm text-gray-500">This exam has no questions to mark yet.</p>
+            ) : activeTab === 'marking' ? (
+              renderMarkingTab(context)
+            ) : activeTab === 'allocation' ? (
+              renderAllocationTab(context)
+            ) : activeTab === 'progress' ? (
+              renderProgressTab()
+            ) : (
+              <ModerationPanel examId={examId} examStatus={examStatus} context={context} />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
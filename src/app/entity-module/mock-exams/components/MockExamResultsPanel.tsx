@@ -0,0 +1,282 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowLeft, BarChart3, CheckCircle2, Eye, Loader2, X } from 'lucide-react';
+import dayjs from 'dayjs';
+import { IconButton } from '../../../../components/shared/Button';
+import { MockExamReport } from '../../../../components/mock-exams/MockExamReport';
+import { useMockExamResultsAnalytics } from '../../../../hooks/useMockExams';
+import {
+  LOW_DISCRIMINATION_THRESHOLD,
+  summariseCohort,
+  type ItemDifficulty,
+} from '../../../../services/mockExamResultsService';
+import type { MockExamLifecycleStatus } from '../../../../services/mockExamService';
+
+interface MockExamResultsPanelProps {
+  examId: string;
+  examTitle: string;
+  examStatus: MockExamLifecycleStatus;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ResultsTab = 'cohort' | 'items' | 'students';
+
+const TABS: Array<{ id: ResultsTab; label: string }> = [
+  { id: 'cohort', label: 'Cohort' },
+  { id: 'items', label: 'Item analysis' },
+  { id: 'students', label: 'Students' },
+];
+
+const DIFFICULTY_STYLES: Record<ItemDifficulty, string> = {
+  easy: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+  medium: 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  hard: 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  very_hard: 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+export function MockExamResultsPanel({ examId, examTitle, examStatus, isOpen, onClose }: MockExamResultsPanelProps) {
+  const { data: analytics, isLoading, error } = useMockExamResultsAnalytics(isOpen ? examId : undefined);
+
+  const [activeTab, setActiveTab] = useState<ResultsTab>('cohort');
+  const [reportStudentId, setReportStudentId] = useState<string | null>(null);
+
+  const summary = useMemo(() => summariseCohort(analytics?.results ?? []), [analytics]);
+  const largestBand = Math.max(1, ...summary.scoreBands.map((band) => band.count));
+
+  if (!isOpen) return null;
+
+  const renderCohort = () => (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Students', value: summary.count },
+          { label: 'Mean', value: `${summary.mean}%` },
+          { label: 'Median', value: `${summary.median}%` },
+          { label: 'Std deviation', value: summary.standardDeviation },
+        ].map((stat) => (
+          <div key={stat.label} className="rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+            <p className="text-xs uppercase tracking-wide text-gray-500">{stat.label}</p>
+            <p className="text-xl font-semibold text-gray-900 dark:text-white">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Score distribution</h3>
+        <div className="flex items-end gap-2 h-40">
+          {summary.scoreBands.map((band) => (
+            <div key={band.label} className="flex-1 flex flex-col items-center justify-end gap-1 h-full">
+              <span className="text-xs text-gray-500">{band.count || ''}</span>
+              <div
+                className="w-full rounded-t bg-[#8CC63F]"
+                style={{ height: `${(band.count / largestBand) * 100}%` }}
+              />
+              <span className="text-[10px] text-gray-500 whitespace-nowrap">{band.label}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Grade distribution</h3>
+        {summary.gradeCounts.length === 0 ? (
+          <p className="text-sm text-gray-500">No results yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {summary.gradeCounts.map((entry) => (
+              <span
+                key={entry.grade}
+                className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-gray-100 dark:bg-gray-700 text-sm text-gray-700 dark:text-gray-200"
+              >
+                <span className="font-semibold">{entry.grade}</span> {entry.count}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderItems = () => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+        <thead>
+          <tr className="text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+            <th className="px-3 py-2">Item</th>
+            <th className="px-3 py-2">Attempts</th>
+            <th className="px-3 py-2">Average</th>
+            <th className="px-3 py-2">Facility</th>
+            <th className="px-3 py-2">Discrimination</th>
+            <th className="px-3 py-2">Difficulty</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+          {(analytics?.items ?? []).map((item) => {
+            const weak = item.discrimination !== null && item.discrimination < LOW_DISCRIMINATION_THRESHOLD;
+            return (
+              <tr key={`${item.questionSelectionId}:${item.subQuestionId ?? ''}`}>
+                <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">{item.label}</td>
+                <td className="px-3 py-2 text-gray-600 dark:text-gray-400">{item.attempts}</td>
+                <td className="px-3 py-2 text-gray-600 dark:text-gray-400">
+                  {item.averageMarks} / {item.maxMarks}
+                </td>
+                <td className="px-3 py-2 text-gray-600 dark:text-gray-400">{Math.round(item.facility * 100)}%</td>
+                <td className={`px-3 py-2 ${weak ? 'text-amber-600 font-medium' : 'text-gray-600 dark:text-gray-400'}`}>
+                  <span className="inline-flex items-center gap-1">
+                    {item.discrimination === null ? '—' : item.discrimination.toFixed(2)}
+                    {weak && <AlertTriangle className="w-3.5 h-3.5" aria-label="Low discrimination" />}
+                  </span>
+                </td>
+                <td className="px-3 py-2">
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${DIFFICULTY_STYLES[item.difficulty]}`}>
+                    {item.difficulty.replace('_', ' ')}
+                  </span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="mt-3 text-xs text-gray-500">
+        Discrimination compares the top and bottom 27% of the cohort. Items below {LOW_DISCRIMINATION_THRESHOLD} are
+        flagged for review.
+      </p>
+    </div>
+  );
+
+  const renderStudents = () => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+        <thead>
+          <tr className="text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+            <th className="px-3 py-2">Student</th>
+            <th className="px-3 py-2">Marks</th>
+            <th className="px-3 py-2">Score</th>
+            <th className="px-3 py-2">Grade</th>
+            <th className="px-3 py-2">Published</th>
+            <th className="px-3 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+          {(analytics?.results ?? []).map((result) => (
+            <tr key={result.studentId}>
+              <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">{result.name ?? 'Student'}</td>
+              <td className="px-3 py-2 text-gray-600 dark:text-gray-400">
+                {result.totalMarksScored} / {result.totalMarksPossible}
+              </td>
+              <td className="px-3 py-2 text-gray-600 dark:text-gray-400">{result.percentageScore ?? '—'}%</td>
+              <td className="px-3 py-2 text-gray-600 dark:text-gray-400">{result.predictedGrade ?? '—'}</td>
+              <td className="px-3 py-2 text-gray-600 dark:text-gray-400">
+                {result.publishedAt ? dayjs(result.publishedAt).format('D MMM YYYY') : 'Not released'}
+              </td>
+              <td className="px-3 py-2 text-right">
+                <IconButton
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setReportStudentId(result.studentId)}
+                  aria-label="View score report"
+                  tooltip="View score report"
+                >
+                  <Eye className="w-4 h-4" />
+                </IconButton>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/50 transition-opacity" onClick={onClose} />
+
+        <div className="relative w-full max-w-6xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-3">
+              <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-[#8CC63F]/20 to-[#7AB635]/20 flex items-center justify-center">
+                <BarChart3 className="w-6 h-6 text-[#8CC63F]" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Results</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{examTitle}</p>
+              </div>
+            </div>
+            <IconButton variant="ghost" size="icon-sm" onClick={onClose} aria-label="Close">
+              <X className="w-5 h-5" />
+            </IconButton>
+          </div>
+
+          <div className="px-6 pt-4">
+            {analytics?.releasedAt ? (
+              <p className="inline-flex items-center gap-2 text-sm text-emerald-700 dark:text-emerald-300">
+                <CheckCircle2 className="w-4 h-4" /> Released to students and parents on{' '}
+                {dayjs(analytics.releasedAt).format('D MMM YYYY, HH:mm')}
+              </p>
+            ) : (
+              <p className="inline-flex items-center gap-2 text-sm text-amber-700 dark:text-amber-300">
+                <AlertTriangle className="w-4 h-4" />
+                {examStatus === 'grading' || examStatus === 'moderation'
+                  ? 'Not released. Results are released when the exam moves to Analytics released, once every script is marked.'
+                  : 'Not released.'}
+              </p>
+            )}
+          </div>
+
+          {reportStudentId ? (
+            <div className="p-6 space-y-4">
+              <button
+                type="button"
+                onClick={() => setReportStudentId(null)}
+                className="inline-flex items-center gap-2 text-sm font-medium text-[#5d8a25] dark:text-[#8CC63F]"
+              >
+                <ArrowLeft className="w-4 h-4" /> Back to students
+              </button>
+              <MockExamReport examId={examId} studentId={reportStudentId} />
+            </div>
+          ) : (
+            <>
+              <div className="px-6 pt-4 flex items-center gap-2 border-b border-gray-200 dark:border-gray-700">
+                {TABS.map((tab) => (
+                  <button
+                    key={tab.id}
+                    type="button"
+                    onClick={() => setActiveTab(tab.id)}
+                    className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                      activeTab === tab.id
+                        ? 'border-[#8CC63F] text-[#5d8a25] dark:text-[#8CC63F]'
+                        : 'border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="p-6">
+                {isLoading ? (
+                  <div className="flex items-center justify-center py-16">
+                    <Loader2 className="w-8 h-8 animate-spin text-[#8CC63F]" />
+                  </div>
+                ) : error ? (
+                  <p className="text-sm text-red-600">{(error as Error).message}</p>
+                ) : !analytics || analytics.results.length === 0 ? (
+                  <p className="text-sm text-gray-500">No results have been recorded for this exam yet.</p>
+                ) : activeTab === 'cohort' ? (
+                  renderCohort()
+                ) : activeTab === 'items' ? (
+                  renderItems()
+                ) : (
+                  renderStudents()
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
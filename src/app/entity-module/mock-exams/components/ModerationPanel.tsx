@@ -0,0 +1,384 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle2, Loader2, Scale, Shuffle, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button, IconButton } from '../../../../components/shared/Button';
+import { FormField, Input, Textarea } from '../../../../components/shared/FormField';
+import {
+  useApplyMarkerScaling,
+  useDrawModerationSample,
+  useMockExamModeration,
+  useModerationScript,
+  useRemoveModerationSample,
+  useSaveModeration,
+} from '../../../../hooks/useMockExams';
+import type { MockExamLifecycleStatus } from '../../../../services/mockExamService';
+import type { MarkingContext } from '../../../../services/mockExamMarkingService';
+import { responseKey } from '../../../../services/mockExamDeliveryService';
+import {
+  DEFAULT_MODERATION_TOLERANCE_PERCENT,
+  summariseMarkerConsistency,
+  type MarkerTendency,
+} from '../../../../services/mockExamModerationService';
+import { DEFAULT_MODERATION_RATE } from '../../../../services/moderationSampling';
+
+interface ModerationPanelProps {
+  examId: string;
+  examStatus: MockExamLifecycleStatus;
+  context: MarkingContext;
+}
+
+const TENDENCY_STYLES: Record<MarkerTendency, { label: string; className: string }> = {
+  lenient: { label: 'Lenient', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  severe: { label: 'Severe', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  in_line: { label: 'In line', className: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300' },
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function ModerationPanel({ examId, examStatus, context }: ModerationPanelProps) {
+  const { data, isLoading } = useMockExamModeration(examId);
+  const drawSample = useDrawModerationSample();
+  const removeSample = useRemoveModerationSample();
+  const saveModeration = useSaveModeration();
+  const applyScaling = useApplyMarkerScaling();
+
+  const [ratePercent, setRatePercent] = useState(String(DEFAULT_MODERATION_RATE * 100));
+  const [activeSampleId, setActiveSampleId] = useState<string | undefined>();
+  const [marks, setMarks] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
+  const [factors, setFactors] = useState<Record<string, string>>({});
+
+  const { data: script, isLoading: isScriptLoading } = useModerationScript(activeSampleId);
+  const isModerationStage = examStatus === 'moderation';
+
+  useEffect(() => {
+    if (!script) return;
+    setMarks(
+      Object.fromEntries(
+        script.items.map((item) => [
+          responseKey(item.questionSelectionId, item.subQuestionId),
+          item.moderatedMarks === null ? '' : String(item.moderatedMarks),
+        ])
+      )
+    );
+    setNotes(script.notes ?? '');
+  }, [script]);
+
+  const samples = useMemo(() => data?.samples ?? [], [data]);
+  const consistency = useMemo(() => summariseMarkerConsistency(samples), [samples]);
+  const studentName = (studentId: string) =>
+    context.students.find((student) => student.studentId === studentId)?.name ?? 'Unknown student';
+  const markerName = (markerId: string) =>
+    context.markers.find((marker) => marker.entityUserId === markerId)?.name ?? 'Unknown marker';
+
+  const markErrors = (script?.items ?? [])
+    .map((item) => {
+      const value = marks[responseKey(item.questionSelectionId, item.subQuestionId)] ?? '';
+      const numeric = Number(value);
+      if (value.trim() === '' || !Number.isFinite(numeric)) return `${item.label}: enter a mark`;
+      if (numeric < 0 || numeric > item.maxMarks) return `${item.label}: marks must be between 0 and ${item.maxMarks}`;
+      return null;
+    })
+    .filter((message): message is string => !!message);
+
+  const handleDraw = async () => {
+    const rate = Number(ratePercent) / 100;
+    if (!Number.isFinite(rate) || rate <= 0 || rate > 1) {
+      toast.error('Sample rate must be between 1 and 100%');
+      return;
+    }
+    try {
+      const drawn = await drawSample.mutateAsync({ examId, rate });
+      toast.success(drawn > 0 ? `Added ${drawn} script${drawn === 1 ? '' : 's'} to the sample` : 'No unsampled marked scripts found');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to draw moderation sample');
+    }
+  };
+
+  const handleSaveModeration = async () => {
+    if (!script || markErrors.length > 0) {
+      toast.error(markErrors[0] ?? 'Select a script to moderate');
+      return;
+    }
+    try {
+      await saveModeration.mutateAsync({
+        examId,
+        sampleId: script.sampleId,
+        notes,
+        marks: script.items.map((item) => ({
+          questionSelectionId: item.questionSelectionId,
+          subQuestionId: item.subQuestionId,
+          marks: Number(marks[responseKey(item.questionSelectionId, item.subQuestionId)]),
+        })),
+      });
+      toast.success('Moderation saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save moderation');
+    }
+  };
+
+  const handleApplyScaling = async (markerId: string, factor: number) => {
+    if (!Number.isFinite(factor) || factor <= 0 || factor > 2) {
+      toast.error('Scaling factor must be greater than 0 and at most 2');
+      return;
+    }
+    try {
+      const changed = await applyScaling.mutateAsync({ examId, markerId, factor });
+      toast.success(
+        factor === 1
+          ? `Restored ${changed} original mark${changed === 1 ? '' : 's'}`
+          : `Scaled ${changed} mark${changed === 1 ? '' : 's'} by ${factor}`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to apply scaling');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-[#8CC63F]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {!isModerationStage && (
+        <p className="text-sm text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 rounded-lg p-3">
+          The sample can be drawn now. Re-marking and scaling open once the exam moves to moderation.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <FormField id="moderation-rate" label="Sample rate (%)" className="w-40">
+          <Input
+            id="moderation-rate"
+            type="number"
+            min={1}
+            max={100}
+            value={ratePercent}
+            onChange={(event) => setRatePercent(event.target.value)}
+          />
+        </FormField>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDraw}
+          disabled={drawSample.isLoading}
+          leftIcon={drawSample.isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Shuffle className="w-4 h-4" />}
+        >
+          Draw sample
+        </Button>
+        <p className="text-xs text-gray-500 dark:text-gray-400 max-w-md">
+          Scripts are drawn per marker and spread across each marker's mark range. Auto-marked items are not sampled.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-100 dark:divide-gray-800 max-h-96 overflow-y-auto">
+          {samples.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No scripts sampled yet.</p>
+          ) : (
+            samples.map((sample, index) => (
+              <div
+                key={sample.id}
+                className={`flex items-center justify-between gap-2 px-3 py-2 ${
+                  sample.id === activeSampleId ? 'bg-[#8CC63F]/10' : ''
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => setActiveSampleId(sample.id)}
+                  className="flex-1 text-left"
+                >
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    Script {index + 1} · {studentName(sample.studentId)}
+                  </p>
+                  <p className="text-xs text-gray-500 inline-flex items-center gap-1">
+                    {sample.status === 'moderated' ? (
+                      <>
+                        <CheckCircle2 className="w-3 h-3 text-emerald-600" /> Moderated
+                      </>
+                    ) : (
+                      'Awaiting moderation'
+                    )}
+                  </p>
+                </button>
+                {sample.status === 'pending' && (
+                  <IconButton
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => removeSample.mutate({ examId, sampleId: sample.id })}
+                    aria-label="Remove from sample"
+                    tooltip="Remove from sample"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </IconButton>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="lg:col-span-2 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+          {!activeSampleId ? (
+            <p className="text-sm text-gray-500">
+              Select a sampled script to re-mark it. The original marks are hidden until moderation is saved.
+            </p>
+          ) : isScriptLoading || !script ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader2 className="w-6 h-6 animate-spin text-[#8CC63F]" />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {script.items.map((item) => {
+                const key = responseKey(item.questionSelectionId, item.subQuestionId);
+                return (
+                  <div key={key} className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3 border-b border-gray-100 dark:border-gray-800 pb-3">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{item.label}</p>
+                      {item.prompt && <p className="text-xs text-gray-500 line-clamp-2">{item.prompt}</p>}
+                      <p className="text-sm text-gray-700 dark:text-gray-300 mt-1 whitespace-pre-wrap break-words">
+                        {item.studentAnswer || <span className="text-xs text-gray-400">No online answer (paper script)</span>}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={item.maxMarks}
+                        step={0.5}
+                        value={marks[key] ?? ''}
+                        disabled={!isModerationStage}
+                        onChange={(event) => setMarks((previous) => ({ ...previous, [key]: event.target.value }))}
+                        className="w-20"
+                      />
+                      <span className="text-xs text-gray-500">/ {item.maxMarks}</span>
+                    </div>
+                  </div>
+                );
+              })}
+              <FormField id="moderation-notes" label="Moderator notes">
+                <Textarea
+                  id="moderation-notes"
+                  rows={2}
+                  value={notes}
+                  disabled={!isModerationStage}
+                  onChange={(event) => setNotes(event.target.value)}
+                />
+              </FormField>
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={handleSaveModeration}
+                  disabled={!isModerationStage || saveModeration.isLoading}
+                  leftIcon={saveModeration.isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+                >
+                  Save moderation
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Marker consistency</h3>
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900/40">
+              <tr className="text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                <th className="px-3 py-2">Marker</th>
+                <th className="px-3 py-2">Moderated</th>
+                <th className="px-3 py-2">Mean difference</th>
+                <th className="px-3 py-2">Mean absolute</th>
+                <th className="px-3 py-2">Item agreement</th>
+                <th className="px-3 py-2">Scripts within {DEFAULT_MODERATION_TOLERANCE_PERCENT}%</th>
+                <th className="px-3 py-2">Tendency</th>
+                <th className="px-3 py-2">Scaling</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {consistency.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-3 py-6 text-center text-gray-500">
+                    Statistics appear once sampled scripts are moderated.
+                  </td>
+                </tr>
+              ) : (
+                consistency.map((row) => {
+                  const applied = data?.scaling.find((scaling) => scaling.markerId === row.markerId);
+                  const factorValue = factors[row.markerId] ?? String(applied?.factor ?? row.suggestedFactor ?? 1);
+                  return (
+                    <tr key={row.markerId}>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white">{markerName(row.markerId)}</td>
+                      <td className="px-3 py-2">
+                        {row.moderated} / {row.sampled}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.meanDifference > 0 ? '+' : ''}
+                        {row.meanDifference} ({row.meanDifferencePercent > 0 ? '+' : ''}
+                        {row.meanDifferencePercent}%)
+                      </td>
+                      <td className="px-3 py-2">{row.meanAbsoluteDifferencePercent}%</td>
+                      <td className="px-3 py-2">{percent(row.itemAgreementRate)}</td>
+                      <td className="px-3 py-2">{percent(row.scriptAgreementRate)}</td>
+                      <td className="px-3 py-2">
+                        {row.moderated > 0 ? (
+                          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${TENDENCY_STYLES[row.tendency].className}`}>
+                            {TENDENCY_STYLES[row.tendency].label}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-gray-400">—</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            min={0.5}
+                            max={2}
+                            step={0.01}
+                            value={factorValue}
+                            disabled={!isModerationStage}
+                            onChange={(event) =>
+                              setFactors((previous) => ({ ...previous, [row.markerId]: event.target.value }))
+                            }
+                            className="w-20"
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleApplyScaling(row.markerId, Number(factorValue))}
+                            disabled={!isModerationStage || applyScaling.isLoading}
+                            leftIcon={<Scale className="w-3.5 h-3.5" />}
+                          >
+                            Apply
+                          </Button>
+                          {applied && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleApplyScaling(row.markerId, 1)}
+                              disabled={!isModerationStage || applyScaling.isLoading}
+                            >
+                              Reset
+                            </Button>
+                          )}
+                        </div>
+                        {applied && <p className="text-xs text-gray-500 mt-1">Applied ×{applied.factor}</p>}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import React, { useMemo, useState, useEffect } from 'react';
 import dayjs from 'dayjs';
-import { AlertTriangle, BarChart3, BookOpen, CalendarDays, CheckCircle2, ClipboardList, Download, GraduationCap, Layers, LineChart, Plus, Search, Sparkles, Users, Loader2, CreditCard as Edit2, Clock, History, RefreshCw, Eye, ArrowUpDown, ArrowUp, ArrowDown, Copy, Save, Trash2, X } from 'lucide-react';
+import { AlertTriangle, BarChart3, BookOpen, CalendarDays, CheckCircle2, ClipboardList, Download, GraduationCap, Layers, LineChart, Plus, Search, Sparkles, Users, Loader2, CreditCard as Edit2, Clock, History, RefreshCw, Eye, ArrowUpDown, ArrowUp, ArrowDown, ClipboardCheck, Copy, Save, Trash2, X } from 'lucide-react';
 import { useUser } from '../../../contexts/UserContext';
 import { useAccessControl } from '../../../hooks/useAccessControl';
 import {
@@ -28,6 +28,8 @@ import { ToggleSwitch } from '../../../components/shared/ToggleSwitch';
 import { SearchableMultiSelect } from '../../../components/shared/SearchableMultiSelect';
 import { ProgressBar } from '../../../components/shared/ProgressBar';
 import { StatusTransitionWizard } from './components/StatusTransitionWizard';
+import { MarkingConsole } from './components/MarkingConsole';
+import { MockExamResultsPanel } from './components/MockExamResultsPanel';
 import { MockExamCreationWizard } from './components/MockExamCreationWizard';
 import { TemplateLibraryModal } from './components/TemplateLibraryModal';
 import { SaveTemplateModal } from './components/SaveTemplateModal';
@@ -222,6 +224,8 @@ export default function EntityMockExamsPage() {
   const [formErrors, setFormErrors] = useState<FormErrors>({});
   const [selectedDataStructure, setSelectedDataStructure] = useState<string>('');
   const [statusWizardExam, setStatusWizardExam] = useState<{ id: string; status: MockExamStatus } | null>(null);
+  const [markingExam, setMarkingExam] = useState<MockExam | null>(null);
+  const [resultsExam, setResultsExam] = useState<MockExam | null>(null);
   const [showStatusHistory, setShowStatusHistory] = useState(false);
   const [useNewWizard, setUseNewWizard] = useState(true);
   const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
@@ -1395,6 +1399,28 @@ Generated: ${dayjs().format('DD/MM/YYYY HH:mm')}
                               </IconButton>
                             )}
                           </ButtonGroup>
+                          {(exam.status === 'grading' || exam.status === 'moderation') && (
+                            <IconButton
+                              variant="outline"
+                              size="icon-sm"
+                              onClick={() => setMarkingExam(exam)}
+                              aria-label="Open marking console"
+                              tooltip="Mark scripts"
+                            >
+                              <ClipboardCheck className="w-4 h-4" />
+                            </IconButton>
+                          )}
+                          {['grading', 'moderation', 'analytics_released', 'completed'].includes(exam.status) && (
+                            <IconButton
+                              variant="outline"
+                              size="icon-sm"
+                              onClick={() => setResultsExam(exam)}
+                              aria-label="Open results"
+                              tooltip="Results and analysis"
+                            >
+                              <BarChart3 className="w-4 h-4" />
+                            </IconButton>
+                          )}
                           <IconButton
                             variant="outline"
                             size="icon-sm"
@@ -1950,6 +1976,26 @@ Generated: ${dayjs().format('DD/MM/YYYY HH:mm')}
         />
       )}
 
+      {markingExam && (
+        <MarkingConsole
+          examId={markingExam.id}
+          examTitle={markingExam.title}
+          examStatus={markingExam.status}
+          isOpen={true}
+          onClose={() => setMarkingExam(null)}
+        />
+      )}
+
+      {resultsExam && (
+        <MockExamResultsPanel
+          examId={resultsExam.id}
+          examTitle={resultsExam.title}
+          examStatus={resultsExam.status}
+          isOpen={true}
+          onClose={() => setResultsExam(null)}
+        />
+      )}
+
       <TemplateLibraryModal
         isOpen={isTemplateLibraryOpen}
         onClose={() => setIsTemplateLibraryOpen(false)}
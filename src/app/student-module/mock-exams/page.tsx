@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import dayjs from 'dayjs';
+import { ArrowLeft, Award, CalendarClock, CheckCircle2, ClipboardList, Clock, Loader2, PlayCircle } from 'lucide-react';
+import { MockExamDeliveryService, StudentMockExamSummary } from '@/services/mockExamDeliveryService';
+import { MockExamResultsService, ReleasedMockExamResult } from '@/services/mockExamResultsService';
+import { MockExamPlayer } from '@/components/mock-exams/MockExamPlayer';
+import { MockExamReport } from '@/components/mock-exams/MockExamReport';
+
+type ExamAvailability = 'upcoming' | 'open' | 'resume' | 'submitted' | 'closed';
+
+function availabilityOf(exam: StudentMockExamSummary, now = dayjs()): ExamAvailability {
+  const { attempt } = exam;
+  if (attempt.submissionStatus === 'submitted' || attempt.submissionStatus === 'graded') return 'submitted';
+  if (attempt.submissionStatus === 'in_progress') {
+    return attempt.deadlineAt && now.isBefore(dayjs(attempt.deadlineAt)) ? 'resume' : 'closed';
+  }
+  if (exam.status !== 'in_progress' || now.isBefore(dayjs(attempt.opensAt))) return 'upcoming';
+  return now.isBefore(dayjs(attempt.closesAt)) ? 'open' : 'closed';
+}
+
+const AVAILABILITY_LABELS: Record<ExamAvailability, string> = {
+  upcoming: 'Upcoming',
+  open: 'Open now',
+  resume: 'In progress',
+  submitted: 'Submitted',
+  closed: 'Closed'
+};
+
+export default function StudentMockExamsPage() {
+  const [activeExam, setActiveExam] = useState<StudentMockExamSummary | null>(null);
+  const [openReport, setOpenReport] = useState<ReleasedMockExamResult | null>(null);
+
+  const examsQuery = useQuery(['student-mock-exams'], () => MockExamDeliveryService.getStudentMockExams(), {
+    refetchInterval: 60 * 1000
+  });
+  const resultsQuery = useQuery(['student-mock-exam-results'], () => MockExamResultsService.getReleasedResults());
+
+  if (openReport) {
+    return (
+      <div className="p-6 space-y-4">
+        <button
+          type="button"
+          onClick={() => setOpenReport(null)}
+          className="inline-flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          <ArrowLeft className="w-4 h-4" /> Back to mock exams
+        </button>
+        <MockExamReport examId={openReport.examId} studentId={openReport.studentId} />
+      </div>
+    );
+  }
+
+  if (activeExam) {
+    return (
+      <div className="p-6">
+        <MockExamPlayer
+          examId={activeExam.id}
+          title={activeExam.title}
+          onExit={() => {
+            setActiveExam(null);
+            void examsQuery.refetch();
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <ClipboardList className="w-6 h-6 text-blue-500" /> Mock Exams
+        </h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          Online mock exams open at their scheduled time. Your answers save automatically, and the exam submits
+          itself when time runs out.
+        </p>
+      </div>
+
+      {examsQuery.isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+        </div>
+      ) : examsQuery.isError ? (
+        <p className="text-sm text-red-600">{(examsQuery.error as Error).message}</p>
+      ) : !examsQuery.data?.length ? (
+        <p className="text-sm text-gray-500">You have no online mock exams scheduled.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {examsQuery.data.map((exam) => {
+            const availability = availabilityOf(exam);
+            const canSit = availability === 'open' || availability === 'resume';
+            return (
+              <article
+                key={exam.id}
+                className="bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-2xl p-5 space-y-4"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h2 className="font-semibold text-gray-900 dark:text-white">{exam.title}</h2>
+                    <p className="text-xs text-gray-500">{exam.subject} · {exam.paperType}</p>
+                  </div>
+                  <span className="shrink-0 text-xs font-medium px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                    {AVAILABILITY_LABELS[availability]}
+                  </span>
+                </div>
+                <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                  <li className="flex items-center gap-2">
+                    <CalendarClock className="w-4 h-4" /> {dayjs(exam.attempt.opensAt).format('ddd D MMM YYYY, HH:mm')}
+                  </li>
+                  <li className="flex items-center gap-2">
+                    <Clock className="w-4 h-4" /> {exam.durationMinutes} min
+                    {exam.attempt.extraTimeMinutes > 0 && ` + ${exam.attempt.extraTimeMinutes} min extra time`}
+                  </li>
+                  {availability === 'submitted' && exam.attempt.submittedAt && (
+                    <li className="flex items-center gap-2 text-emerald-600">
+                      <CheckCircle2 className="w-4 h-4" /> Submitted {dayjs(exam.attempt.submittedAt).format('D MMM, HH:mm')}
+                    </li>
+                  )}
+                </ul>
+                {canSit && (
+                  <button
+                    type="button"
+                    onClick={() => setActiveExam(exam)}
+                    className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700"
+                  >
+                    <PlayCircle className="w-4 h-4" /> {availability === 'resume' ? 'Resume exam' : 'Start exam'}
+                  </button>
+                )}
+              </article>
+            );
+          })}
+        </div>
+      )}
+
+      {!!resultsQuery.data?.length && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <Award className="w-5 h-5 text-blue-500" /> Results
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {resultsQuery.data.map((result) => (
+              <button
+                key={result.examId}
+                type="button"
+                onClick={() => setOpenReport(result)}
+                className="text-left bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-2xl p-5 hover:border-blue-400"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h3 className="font-semibold text-gray-900 dark:text-white">{result.title}</h3>
+                    <p className="text-xs text-gray-500">Released {dayjs(result.releasedAt).format('D MMM YYYY')}</p>
+                  </div>
+                  {result.predictedGrade && (
+                    <span className="shrink-0 text-sm font-semibold px-2 py-1 rounded-full bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                      {result.predictedGrade}
+                    </span>
+                  )}
+                </div>
+                <p className="mt-3 text-2xl font-semibold text-gray-900 dark:text-white">{result.percentageScore ?? 0}%</p>
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import LearningPathPage from './pathways/page';
 import StudentProfileSettingsPage from './profile/page';
 import StudentLearningMaterialsPage from './pathways/materials/page';
 import PracticePage from './practice/page';
+import StudentMockExamsPage from './mock-exams/page';
 
 interface StudentModulePageProps {
   moduleKey?: string;
@@ -201,9 +202,12 @@ function DashboardPage() {
           <p className="text-gray-600 dark:text-gray-400 mb-4">
             Complete assignments, practice questions, and mock exams.
           </p>
-          <div className="text-sm text-gray-500 dark:text-gray-500 font-medium">
-            Coming Soon
-          </div>
+          <Link
+            to="/app/student-module/mock-exams"
+            className="inline-flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700"
+          >
+            Open Mock Exams
+          </Link>
         </div>
 
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
@@ -323,6 +327,7 @@ export default function StudentModulePage({ moduleKey }: StudentModulePageProps)
         <Route path="pathways/materials/:subjectId" element={<StudentLearningMaterialsPage />} />
         <Route path="profile" element={<StudentProfileSettingsPage />} />
         <Route path="practice" element={<PracticePage />} />
+        <Route path="mock-exams" element={<StudentMockExamsPage />} />
       </Routes>
     </AdminLayout>
   );
@@ -1,5 +1,6 @@
 import React, { useMemo, useState, useCallback, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { useUser } from '@/contexts/UserContext';
 import {
@@ -10,22 +11,31 @@ import {
   PracticeReportOverview,
   SessionSummary,
   AnswerSubmissionPayload,
-  GamificationProgress
+  GamificationProgress,
+  AdaptiveSessionRequest
 } from '@/types/practice';
 import {
   createSession,
+  createAdaptiveSession,
+  createReviewSession,
+  countDueReviews,
+  getCurrentStudentId,
   submitAnswer,
+  recordItemActivity,
   finishSession,
   getReport,
   fetchQuestionWithMarkScheme
 } from '@/services/practiceService';
-import { getLeaderboardSnapshot } from '@/services/leaderboardService';
+import { fetchLeaderboardPrivacy, getLeaderboardSnapshot, setLeaderboardOptOut } from '@/services/leaderboardService';
+import { flagAnswerForReview } from '@/services/markingReviewService';
 import { QuestionMasterAdmin } from '@/types/questions';
 import { cn } from '@/lib/utils';
 import { getDyslexiaPreference, setDyslexiaPreference } from '@/lib/accessibility';
-import { BookOpen, Clock, Target, Trophy, Zap, Flame, ChevronRight, ChevronLeft, Brain, Award, Filter, Sparkles, BarChart3, ShieldCheck, HelpCircle, Accessibility, Highlighter } from 'lucide-react';
+import { BookOpen, Clock, Target, Trophy, Zap, Flame, ChevronRight, ChevronLeft, Brain, Award, Filter, Sparkles, BarChart3, ShieldCheck, HelpCircle, Accessibility, Highlighter, RotateCcw, EyeOff } from 'lucide-react';
 import dayjs from 'dayjs';
 import { PracticeResultsAnalytics } from '@/components/practice/PracticeResultsAnalytics';
+import { StreakCalendar } from '@/components/practice/StreakCalendar';
+import { LearningTrendsDashboard } from '@/components/practice/LearningTrendsDashboard';
 
 interface PracticeSetWithMeta extends PracticeSet {
   subject_name?: string | null;
@@ -133,12 +143,25 @@ interface QuestionSessionState {
   answers: Record<string, PracticeAnswerResponse>;
   startedAt: string;
   practiceSet: PracticeSetWithMeta | null;
+  targetLength?: number;
 }
 
 const PracticePage: React.FC = () => {
   const queryClient = useQueryClient();
   const { user } = useUser();
   const studentId = user?.id ?? null;
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const adaptiveRequest = useMemo<AdaptiveSessionRequest | null>(() => {
+    if (searchParams.get('mode') !== 'adaptive') {
+      return null;
+    }
+    return {
+      subjectId: searchParams.get('subject') || null,
+      topicId: searchParams.get('topic') || null,
+      subtopicId: searchParams.get('subtopic') || null
+    };
+  }, [searchParams]);
 
   const [mode, setMode] = useState<'hub' | 'picker' | 'session' | 'results'>('hub');
   const [selectedSet, setSelectedSet] = useState<PracticeSetWithMeta | null>(null);
@@ -152,6 +175,8 @@ const PracticePage: React.FC = () => {
   const practiceSetsQuery = useQuery(['practice-sets'], loadPracticeSets);
   const practiceProgressQuery = useQuery(['practice-progress', studentId], () => loadPracticeProgress(studentId), { enabled: !!studentId });
   const gamificationQuery = useQuery(['practice-gamification', studentId], () => loadActiveGamification(studentId), { enabled: !!studentId });
+  const dueReviewsQuery = useQuery(['practice-due-reviews', studentId], countDueReviews, { enabled: !!studentId });
+  const studentRecordQuery = useQuery(['practice-student-record', studentId], getCurrentStudentId, { enabled: !!studentId });
 
   const createSessionMutation = useMutation<PracticeSessionCreationResponse, Error, PracticeSetWithMeta>({
     mutationFn: async (practiceSet) => {
@@ -180,6 +205,44 @@ const PracticePage: React.FC = () => {
     }
   });
 
+  const createAdaptiveSessionMutation = useMutation<PracticeSessionCreationResponse, Error, AdaptiveSessionRequest>({
+    mutationFn: (request) => createAdaptiveSession(request),
+    onSuccess: (data) => {
+      setSessionState({
+        sessionId: data.sessionId,
+        items: data.itemsSnapshot,
+        currentIndex: 0,
+        answers: {},
+        startedAt: dayjs().toISOString(),
+        practiceSet: null,
+        targetLength: data.adaptiveState?.targetLength
+      });
+      setSearchParams({});
+      setMode('session');
+    },
+    onError: (error) => {
+      alert(`Unable to start adaptive drill: ${error.message}`);
+    }
+  });
+
+  const createReviewSessionMutation = useMutation<PracticeSessionCreationResponse, Error, void>({
+    mutationFn: () => createReviewSession(),
+    onSuccess: (data) => {
+      setSessionState({
+        sessionId: data.sessionId,
+        items: data.itemsSnapshot,
+        currentIndex: 0,
+        answers: {},
+        startedAt: dayjs().toISOString(),
+        practiceSet: null
+      });
+      setMode('session');
+    },
+    onError: (error) => {
+      alert(`Unable to start review: ${error.message}`);
+    }
+  });
+
   const submitAnswerMutation = useMutation<PracticeAnswerResponse, Error, { payload: AnswerSubmissionPayload; item: PracticeSetItem }>(
     async ({ payload, item }) => submitAnswer({ sessionId: sessionState!.sessionId, itemId: item.id, rawAnswer: payload }),
     {
@@ -188,8 +251,10 @@ const PracticePage: React.FC = () => {
           if (!prev) {
             return prev;
           }
+          const appendNext = data.nextItem && !prev.items.some((entry) => entry.id === data.nextItem?.id);
           return {
             ...prev,
+            items: appendNext ? [...prev.items, data.nextItem as PracticeSetItem] : prev.items,
             answers: {
               ...prev.answers,
               [item.id]: data
@@ -213,17 +278,47 @@ const PracticePage: React.FC = () => {
         setReport(overview);
         await queryClient.invalidateQueries(['practice-progress', studentId]);
         await queryClient.invalidateQueries(['practice-gamification', studentId]);
+        await queryClient.invalidateQueries(['practice-due-reviews', studentId]);
+        await queryClient.invalidateQueries(['streak-overview']);
         setMode('results');
       }
     }
   );
 
+  const leaderboardPrivacyQuery = useQuery({
+    queryKey: ['practice-leaderboard-privacy', studentRecordQuery.data],
+    queryFn: () => fetchLeaderboardPrivacy(studentRecordQuery.data!),
+    enabled: !!studentRecordQuery.data
+  });
+
+  const leaderboardPrivacy = leaderboardPrivacyQuery.data ?? null;
+  // Class-only schools only show the student's class board
+  const leaderboardScope = leaderboardPrivacy?.policy === 'class_only'
+    ? { scope: 'class' as const, scopeKey: leaderboardPrivacy.classScopeKey ?? '', timeZone: leaderboardPrivacy.timeZone }
+    : { scope: 'global' as const, scopeKey: '', timeZone: null };
+
   const leaderboardQuery = useQuery({
-    queryKey: ['practice-leaderboard'],
-    queryFn: () => getLeaderboardSnapshot({ scope: 'global', period: 'weekly', subjectId: null }),
+    queryKey: ['practice-leaderboard', leaderboardScope.scope, leaderboardScope.scopeKey],
+    queryFn: () => getLeaderboardSnapshot({ ...leaderboardScope, period: 'weekly', subjectId: null }),
+    enabled: !!leaderboardPrivacy && leaderboardPrivacy.policy !== 'disabled',
     staleTime: 5 * 60 * 1000
   });
 
+  const leaderboardOptOutMutation = useMutation<void, Error, boolean>(
+    async (optOut) => setLeaderboardOptOut(studentRecordQuery.data!, optOut),
+    {
+      onSuccess: async () => {
+        await queryClient.invalidateQueries(['practice-leaderboard-privacy']);
+        await queryClient.invalidateQueries(['practice-leaderboard']);
+      },
+      onError: (error) => {
+        alert(`Unable to update leaderboard settings: ${error.message}`);
+      }
+    }
+  );
+
+  const leaderboardHidden = leaderboardPrivacy?.visibility === 'hidden';
+
   const activeItem = useMemo(() => {
     if (!sessionState) {
       return null;
@@ -231,6 +326,26 @@ const PracticePage: React.FC = () => {
     return sessionState.items[sessionState.currentIndex] ?? null;
   }, [sessionState]);
 
+  const activeSessionId = mode === 'session' ? sessionState?.sessionId ?? null : null;
+  const activeItemId = activeItem?.id ?? null;
+
+  // Timing events: answer time is the active time an item spent on screen
+  useEffect(() => {
+    if (!activeSessionId || !activeItemId) {
+      return;
+    }
+    const record = (eventType: 'item_viewed' | 'item_hidden' | 'item_visible') => {
+      recordItemActivity(activeSessionId, activeItemId, eventType).catch((error) => {
+        console.error('Failed to record item activity:', error);
+      });
+    };
+    record('item_viewed');
+
+    const handleVisibilityChange = () => record(document.visibilityState === 'hidden' ? 'item_hidden' : 'item_visible');
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [activeSessionId, activeItemId]);
+
   const questionDetailQuery = useQuery({
     queryKey: ['practice-question', activeItem?.question_id],
     queryFn: () => (activeItem ? fetchQuestionWithMarkScheme(activeItem.question_id) : Promise.resolve(null)),
@@ -361,6 +476,28 @@ const PracticePage: React.FC = () => {
         </div>
       </header>
 
+      {adaptiveRequest && (
+        <section className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-2xl p-5">
+          <div className="flex items-start gap-3">
+            <Brain className="w-6 h-6 text-indigo-500 mt-0.5" />
+            <div>
+              <h3 className="font-semibold text-gray-900 dark:text-white">Adaptive drill ready</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Questions start at a level matched to your mastery of this topic and get harder or easier as you answer.
+              </p>
+            </div>
+          </div>
+          <button
+            type="button"
+            className="inline-flex items-center justify-center gap-2 rounded-lg bg-indigo-600 text-white px-4 py-2 text-sm font-semibold shadow hover:bg-indigo-700 transition disabled:opacity-60"
+            onClick={() => createAdaptiveSessionMutation.mutate(adaptiveRequest)}
+            disabled={createAdaptiveSessionMutation.isLoading}
+          >
+            {createAdaptiveSessionMutation.isLoading ? 'Starting…' : 'Start adaptive drill'}
+          </button>
+        </section>
+      )}
+
       <section className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {practiceProgressQuery.data?.map((card) => (
           <article key={card.subjectId ?? 'general'} className="bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-2xl shadow-sm p-6">
@@ -407,16 +544,21 @@ const PracticePage: React.FC = () => {
             </button>
           </div>
           <div className="bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-2xl p-6">
-            {leaderboardQuery.data?.rows?.length ? (
+            {leaderboardPrivacy?.policy === 'disabled' ? (
+              <p className="text-sm text-gray-500">Leaderboards are turned off for your school.</p>
+            ) : leaderboardQuery.data?.rows?.length ? (
               <ul className="space-y-3">
                 {leaderboardQuery.data.rows.slice(0, 5).map((row) => (
-                  <li key={row.studentId} className="flex items-center justify-between">
+                  <li key={row.rank} className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
                       <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-indigo-500 text-white flex items-center justify-center font-semibold">
                         {row.studentName.slice(0, 2).toUpperCase()}
                       </div>
                       <div>
-                        <p className="font-semibold text-gray-900 dark:text-gray-100">{row.studentName}</p>
+                        <p className="font-semibold text-gray-900 dark:text-gray-100">
+                          {row.studentName}
+                          {row.isCurrentStudent && <span className="ml-1 text-xs font-medium text-blue-600">(you)</span>}
+                        </p>
                         <p className="text-xs text-gray-500">XP {row.xp} · {Math.round(row.accuracy * 100)}% accuracy</p>
                       </div>
                     </div>
@@ -424,12 +566,45 @@ const PracticePage: React.FC = () => {
                   </li>
                 ))}
               </ul>
+            ) : leaderboardHidden ? (
+              <p className="text-sm text-gray-500">You are not shown on the leaderboard.</p>
             ) : (
               <p className="text-sm text-gray-500">Start a session to join the leaderboard!</p>
             )}
+            {leaderboardPrivacy && leaderboardPrivacy.policy !== 'disabled' && (
+              <div className="mt-5 pt-4 border-t border-gray-100 dark:border-gray-800 flex items-center justify-between gap-4">
+                <div className="text-sm">
+                  <p className="font-medium text-gray-900 dark:text-gray-100 flex items-center gap-2">
+                    <EyeOff className="w-4 h-4 text-gray-500" /> Leaderboard privacy
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {leaderboardHidden
+                      ? leaderboardPrivacy.underMinAge
+                        ? `Hidden for students under ${leaderboardPrivacy.minAge}. A teacher or parent can add you.`
+                        : 'Your results are hidden from other students.'
+                      : leaderboardPrivacy.visibility === 'alias'
+                        ? 'Other students see an alias instead of your name.'
+                        : leaderboardPrivacy.policy === 'class_only'
+                          ? 'Your name is shown to your class only.'
+                          : 'Your name and avatar are shown to other students.'}
+                  </p>
+                </div>
+                {!(leaderboardHidden && leaderboardPrivacy.underMinAge) && (
+                  <button
+                    type="button"
+                    onClick={() => leaderboardOptOutMutation.mutate(!leaderboardHidden)}
+                    disabled={leaderboardOptOutMutation.isLoading}
+                    className="shrink-0 px-3 py-1.5 text-xs font-medium border border-gray-200 dark:border-gray-700 rounded-lg disabled:opacity-50"
+                  >
+                    {leaderboardHidden ? 'Join leaderboard' : 'Hide me'}
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </div>
         <aside className="space-y-4">
+          <StreakCalendar studentId={studentRecordQuery.data} allowPurchase />
           <div className="bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-2xl p-5">
             <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
               <ShieldCheck className="w-5 h-5 text-emerald-500" /> Accessibility
@@ -465,6 +640,10 @@ const PracticePage: React.FC = () => {
           </div>
         </aside>
       </section>
+
+      <section className="bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-2xl p-5">
+        <LearningTrendsDashboard studentId={studentRecordQuery.data} />
+      </section>
     </div>
   );
 
@@ -490,6 +669,30 @@ const PracticePage: React.FC = () => {
         </button>
       </div>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
+        <article className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-6 shadow-sm flex flex-col justify-between">
+          <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <RotateCcw className="w-5 h-5 text-amber-500" /> Review due today
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Questions you missed come back on a spaced schedule. Each correct re-attempt pushes the next review further out.
+            </p>
+            <dl className="grid grid-cols-2 gap-3 text-xs text-gray-500">
+              <div>
+                <dt className="uppercase tracking-wide">Due</dt>
+                <dd className="font-semibold text-gray-800 dark:text-gray-200">{dueReviewsQuery.data ?? 0}</dd>
+              </div>
+            </dl>
+          </div>
+          <button
+            type="button"
+            className="mt-4 inline-flex items-center justify-center gap-2 rounded-lg bg-amber-500 text-white px-4 py-2 text-sm font-semibold shadow hover:bg-amber-600 transition disabled:opacity-60"
+            onClick={() => createReviewSessionMutation.mutate()}
+            disabled={!dueReviewsQuery.data || createReviewSessionMutation.isLoading}
+          >
+            {createReviewSessionMutation.isLoading ? 'Starting…' : 'Start Review'}
+          </button>
+        </article>
         {filteredSets.map((practiceSet) => (
           <article key={practiceSet.id} className="bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-xl p-6 shadow-sm flex flex-col justify-between">
             <div className="space-y-3">
@@ -564,7 +767,7 @@ const PracticePage: React.FC = () => {
             <Clock className="w-6 h-6 text-emerald-500" /> Session in Progress
           </h2>
           <p className="text-sm text-gray-500">
-            Question {sessionState ? sessionState.currentIndex + 1 : 0} of {sessionState?.items.length ?? 0}
+            Question {sessionState ? sessionState.currentIndex + 1 : 0} of {sessionState?.targetLength ?? sessionState?.items.length ?? 0}
           </p>
         </div>
         <div className="flex items-center gap-3">
@@ -641,6 +844,11 @@ const PracticePage: React.FC = () => {
     return (
       <PracticeResultsAnalytics
         sessionId={sessionSummary.sessionId}
+        report={report}
+        onFlagAnswer={async (answerId, comment) => {
+          await flagAnswerForReview(answerId, comment);
+          setReport(await getReport(sessionSummary.sessionId));
+        }}
         onClose={() => {
           setMode('hub');
           setSessionState(null);
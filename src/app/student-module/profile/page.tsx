@@ -31,6 +31,7 @@ import { toast } from '../../../components/shared/Toast';
 import { getPublicUrl } from '../../../lib/storageHelpers';
 import { userCreationService } from '../../../services/userCreationService';
 import { SessionPreferencesCard } from '../../../components/shared/SessionPreferencesCard';
+import { AchievementGallery } from '../../../components/practice/AchievementGallery';
 
 // ---------------------------------------------------------------------------
 // Types & Constants
@@ -1212,6 +1213,8 @@ export default function StudentProfileSettingsPage() {
               </div>
             </div>
           </div>
+
+          <AchievementGallery studentId={profileData.student?.id} />
         </div>
 
         {/* Sidebar */}
@@ -0,0 +1,349 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Award, Edit2, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../../../../../lib/supabase';
+import {
+  AchievementDefinitionInput,
+  fetchAchievementCatalogue,
+  saveAchievementDefinition,
+  setAchievementActive
+} from '../../../../../services/achievementService';
+import { ACHIEVEMENT_METRICS, sortTiers, validateAchievementDefinition } from '../../../../../services/practice/achievementRules';
+import { AchievementDefinition, AchievementMetric, AchievementTier } from '../../../../../types/practice';
+import { ACHIEVEMENT_ICONS } from '../../../../../lib/constants/achievementIcons';
+import { Button } from '../../../../../components/shared/Button';
+import { FormField, Input, Textarea } from '../../../../../components/shared/FormField';
+import { Select } from '../../../../../components/shared/Select';
+import { SlideInForm } from '../../../../../components/shared/SlideInForm';
+import { StatusBadge } from '../../../../../components/shared/StatusBadge';
+import { ToggleSwitch } from '../../../../../components/shared/ToggleSwitch';
+import { toast } from '../../../../../components/shared/Toast';
+
+const EMPTY_DEFINITION: AchievementDefinitionInput = {
+  code: '',
+  name: '',
+  description: '',
+  icon: 'award',
+  criteria: { metric: 'sessions_completed' },
+  tiers: [{ tier: 1, label: 'Bronze', threshold: 1 }],
+  is_active: true,
+  sort_order: 0
+};
+
+const ICON_OPTIONS = Object.keys(ACHIEVEMENT_ICONS).map((icon) => ({ value: icon, label: icon }));
+const METRIC_OPTIONS = ACHIEVEMENT_METRICS.map((metric) => ({ value: metric.value, label: metric.label }));
+
+function describeCriteria(definition: AchievementDefinition, subjectNames: Map<string, string>): string {
+  const metric = ACHIEVEMENT_METRICS.find((entry) => entry.value === definition.criteria.metric);
+  const parts = [metric?.label ?? definition.criteria.metric];
+  if (definition.criteria.metric === 'sessions_at_accuracy') {
+    parts.push(`≥ ${Math.round((definition.criteria.minAccuracy ?? 0.95) * 100)}% accuracy`);
+  }
+  if (definition.criteria.subjectId) {
+    parts.push(subjectNames.get(definition.criteria.subjectId) ?? 'one subject');
+  }
+  return parts.join(' · ');
+}
+
+export default function AchievementsPage() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<AchievementDefinitionInput | null>(null);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+
+  const catalogueQuery = useQuery(['achievement-catalogue', 'all'], () => fetchAchievementCatalogue(true));
+
+  const subjectsQuery = useQuery(['achievement-subjects'], async () => {
+    const { data, error } = await supabase.from('edu_subjects').select('id, name').eq('status', 'active').order('name');
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data ?? []) as { id: string; name: string }[];
+  });
+
+  const subjects = subjectsQuery.data ?? [];
+  const subjectNames = new Map(subjects.map((subject) => [subject.id, subject.name]));
+
+  const saveMutation = useMutation<AchievementDefinition, Error, AchievementDefinitionInput>(saveAchievementDefinition, {
+    onSuccess: async (definition) => {
+      toast.success(`Saved "${definition.name}"`);
+      setEditing(null);
+      await queryClient.invalidateQueries(['achievement-catalogue']);
+    },
+    onError: (error) => toast.error(error.message)
+  });
+
+  const toggleMutation = useMutation<void, Error, { id: string; isActive: boolean }>(
+    ({ id, isActive }) => setAchievementActive(id, isActive),
+    {
+      onSuccess: () => queryClient.invalidateQueries(['achievement-catalogue']),
+      onError: (error) => toast.error(error.message)
+    }
+  );
+
+  const openEditor = (definition?: AchievementDefinition) => {
+    setFormErrors([]);
+    setEditing(
+      definition
+        ? {
+            id: definition.id,
+            code: definition.code,
+            name: definition.name,
+            description: definition.description,
+            icon: definition.icon,
+            criteria: { ...definition.criteria },
+            tiers: definition.tiers.map((tier) => ({ ...tier })),
+            is_active: definition.is_active,
+            sort_order: definition.sort_order
+          }
+        : { ...EMPTY_DEFINITION, tiers: EMPTY_DEFINITION.tiers.map((tier) => ({ ...tier })) }
+    );
+  };
+
+  const updateEditing = (patch: Partial<AchievementDefinitionInput>) => {
+    setEditing((current) => (current ? { ...current, ...patch } : current));
+  };
+
+  const updateTier = (index: number, patch: Partial<AchievementTier>) => {
+    if (!editing) {
+      return;
+    }
+    updateEditing({ tiers: editing.tiers.map((tier, position) => (position === index ? { ...tier, ...patch } : tier)) });
+  };
+
+  const handleSave = () => {
+    if (!editing) {
+      return;
+    }
+    const candidate = { ...editing, tiers: sortTiers(editing.tiers) };
+    const problems = validateAchievementDefinition(candidate);
+    setFormErrors(problems);
+    if (problems.length === 0) {
+      saveMutation.mutate(candidate);
+    }
+  };
+
+  const definitions = catalogueQuery.data ?? [];
+
+  return (
+    <div className="p-6">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Achievements</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Badges students unlock from practice. Each tier is awarded once, when the metric reaches its threshold.
+          </p>
+        </div>
+        <Button onClick={() => openEditor()} leftIcon={<Plus className="w-4 h-4" />}>
+          New achievement
+        </Button>
+      </div>
+
+      {catalogueQuery.isLoading && <p className="text-sm text-gray-500">Loading achievements…</p>}
+      {catalogueQuery.isError && (
+        <p className="text-sm text-red-600 dark:text-red-400">{(catalogueQuery.error as Error).message}</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {definitions.map((definition) => {
+          const Icon = ACHIEVEMENT_ICONS[definition.icon] ?? Award;
+          return (
+            <div
+              key={definition.id}
+              className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 space-y-3"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full bg-[#8CC63F]/15 text-[#8CC63F] flex items-center justify-center">
+                    <Icon className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <p className="font-semibold text-gray-900 dark:text-white">{definition.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{definition.code}</p>
+                  </div>
+                </div>
+                <StatusBadge status={definition.is_active ? 'active' : 'inactive'} size="xs" />
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{definition.description}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{describeCriteria(definition, subjectNames)}</p>
+              <div className="flex flex-wrap gap-1">
+                {sortTiers(definition.tiers).map((tier) => (
+                  <span
+                    key={tier.tier}
+                    className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                  >
+                    {tier.label}: {tier.threshold}
+                  </span>
+                ))}
+              </div>
+              <div className="flex items-center justify-between pt-2 border-t border-gray-100 dark:border-gray-700">
+                <ToggleSwitch
+                  checked={definition.is_active}
+                  onChange={(checked) => toggleMutation.mutate({ id: definition.id, isActive: checked })}
+                  size="sm"
+                  label="Active"
+                />
+                <Button variant="outline" size="sm" onClick={() => openEditor(definition)} leftIcon={<Edit2 className="w-4 h-4" />}>
+                  Edit
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <SlideInForm
+        key={editing?.id ?? 'new'}
+        title={editing?.id ? 'Edit Achievement' : 'Create Achievement'}
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        onSave={handleSave}
+        loading={saveMutation.isLoading}
+      >
+        {editing && (
+          <div className="space-y-4">
+            {formErrors.length > 0 && (
+              <ul className="rounded-lg bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300 list-disc list-inside">
+                {formErrors.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            )}
+
+            <FormField id="achievement-name" label="Name" required>
+              <Input id="achievement-name" value={editing.name} onChange={(event) => updateEditing({ name: event.target.value })} />
+            </FormField>
+
+            <FormField id="achievement-code" label="Code" required description="Stable identifier, e.g. accuracy-master">
+              <Input
+                id="achievement-code"
+                value={editing.code}
+                disabled={!!editing.id}
+                onChange={(event) => updateEditing({ code: event.target.value.trim().toLowerCase() })}
+              />
+            </FormField>
+
+            <FormField id="achievement-description" label="Description">
+              <Textarea
+                id="achievement-description"
+                rows={2}
+                value={editing.description}
+                onChange={(event) => updateEditing({ description: event.target.value })}
+              />
+            </FormField>
+
+            <FormField id="achievement-icon" label="Icon">
+              <Select
+                id="achievement-icon"
+                options={ICON_OPTIONS}
+                value={editing.icon}
+                onChange={(value) => updateEditing({ icon: value })}
+              />
+            </FormField>
+
+            <FormField id="achievement-metric" label="Metric" required>
+              <Select
+                id="achievement-metric"
+                options={METRIC_OPTIONS}
+                value={editing.criteria.metric}
+                onChange={(value) => updateEditing({ criteria: { ...editing.criteria, metric: value as AchievementMetric } })}
+              />
+            </FormField>
+
+            {editing.criteria.metric === 'sessions_at_accuracy' && (
+              <FormField id="achievement-accuracy" label="Minimum session accuracy (%)">
+                <Input
+                  id="achievement-accuracy"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={Math.round((editing.criteria.minAccuracy ?? 0.95) * 100)}
+                  onChange={(event) =>
+                    updateEditing({ criteria: { ...editing.criteria, minAccuracy: Number(event.target.value) / 100 } })
+                  }
+                />
+              </FormField>
+            )}
+
+            <FormField id="achievement-subject" label="Subject" description="Leave empty to count practice in every subject">
+              <Select
+                id="achievement-subject"
+                options={[{ value: '', label: 'All subjects' }, ...subjects.map((subject) => ({ value: subject.id, label: subject.name }))]}
+                value={editing.criteria.subjectId ?? ''}
+                onChange={(value) => updateEditing({ criteria: { ...editing.criteria, subjectId: value || null } })}
+              />
+            </FormField>
+
+            <FormField id="achievement-sort" label="Display order">
+              <Input
+                id="achievement-sort"
+                type="number"
+                value={editing.sort_order}
+                onChange={(event) => updateEditing({ sort_order: Number(event.target.value) })}
+              />
+            </FormField>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Tiers</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  leftIcon={<Plus className="w-4 h-4" />}
+                  onClick={() =>
+                    updateEditing({
+                      tiers: [
+                        ...editing.tiers,
+                        {
+                          tier: editing.tiers.reduce((max, tier) => Math.max(max, tier.tier), 0) + 1,
+                          label: '',
+                          threshold: 0
+                        }
+                      ]
+                    })
+                  }
+                >
+                  Add tier
+                </Button>
+              </div>
+              {editing.tiers.map((tier, index) => (
+                <div key={tier.tier} className="flex items-center gap-2">
+                  <span className="w-8 text-xs text-gray-500">#{tier.tier}</span>
+                  <Input
+                    placeholder="Label"
+                    value={tier.label}
+                    onChange={(event) => updateTier(index, { label: event.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    placeholder="Threshold"
+                    value={tier.threshold}
+                    onChange={(event) => updateTier(index, { threshold: Number(event.target.value) })}
+                  />
+                  <button
+                    type="button"
+                    className="p-2 text-gray-400 hover:text-red-500"
+                    disabled={editing.tiers.length === 1}
+                    onClick={() => updateEditing({ tiers: editing.tiers.filter((_, position) => position !== index) })}
+                    aria-label={`Remove tier ${tier.tier}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Changing a threshold does not revoke tiers students have already earned.
+              </p>
+            </div>
+
+            <ToggleSwitch
+              checked={editing.is_active}
+              onChange={(checked) => updateEditing({ is_active: checked })}
+              label="Active"
+              description="Inactive achievements are hidden from students and no longer awarded"
+            />
+          </div>
+        )}
+      </SlideInForm>
+    </div>
+  );
+}
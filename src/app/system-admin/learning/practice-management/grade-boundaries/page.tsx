@@ -0,0 +1,343 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Edit2, Plus } from 'lucide-react';
+import { supabase } from '../../../../../lib/supabase';
+import {
+  GradeBoundaryTableInput,
+  fetchGradeBoundaryTables,
+  saveGradeBoundaryTable,
+  setGradeBoundaryTableActive
+} from '../../../../../services/gradeBoundaryService';
+import {
+  EXAM_BOARD_LABELS,
+  EXAM_SERIES_LABELS,
+  GRADING_SCHEME_GRADES,
+  GRADING_SCHEME_LABELS,
+  describeBoundaryTable,
+  validateBoundaryTable
+} from '../../../../../services/practice/gradePrediction';
+import { ExamBoard, ExamSeries, GradeBoundaryTable, GradingScheme } from '../../../../../types/practice';
+import { Button } from '../../../../../components/shared/Button';
+import { FormField, Input, Textarea } from '../../../../../components/shared/FormField';
+import { Select } from '../../../../../components/shared/Select';
+import { SlideInForm } from '../../../../../components/shared/SlideInForm';
+import { StatusBadge } from '../../../../../components/shared/StatusBadge';
+import { ToggleSwitch } from '../../../../../components/shared/ToggleSwitch';
+import { toast } from '../../../../../components/shared/Toast';
+
+const EMPTY_TABLE: GradeBoundaryTableInput = {
+  board: 'cambridge',
+  grading_scheme: 'a_star_g',
+  syllabus_code: '',
+  component_code: null,
+  exam_series: 'may_june',
+  exam_year: new Date().getFullYear(),
+  max_mark: 80,
+  thresholds: [],
+  subject_id: null,
+  notes: null,
+  is_active: true
+};
+
+const BOARD_OPTIONS = Object.entries(EXAM_BOARD_LABELS).map(([value, label]) => ({ value, label }));
+const SCHEME_OPTIONS = Object.entries(GRADING_SCHEME_LABELS).map(([value, label]) => ({ value, label }));
+const SERIES_OPTIONS = Object.entries(EXAM_SERIES_LABELS).map(([value, label]) => ({ value, label }));
+
+export default function GradeBoundariesPage() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<GradeBoundaryTableInput | null>(null);
+  // Raw inputs per grade; blank grades are left out of the table
+  const [markInputs, setMarkInputs] = useState<Record<string, string>>({});
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+
+  const tablesQuery = useQuery(['grade-boundary-tables', 'all'], () => fetchGradeBoundaryTables(true));
+
+  const subjectsQuery = useQuery(['grade-boundary-subjects'], async () => {
+    const { data, error } = await supabase.from('edu_subjects').select('id, name').eq('status', 'active').order('name');
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data ?? []) as { id: string; name: string }[];
+  });
+
+  const subjects = subjectsQuery.data ?? [];
+  const subjectNames = new Map(subjects.map((subject) => [subject.id, subject.name]));
+
+  const saveMutation = useMutation<GradeBoundaryTable, Error, GradeBoundaryTableInput>(saveGradeBoundaryTable, {
+    onSuccess: async (table) => {
+      toast.success(`Saved boundaries for ${describeBoundaryTable(table)}`);
+      setEditing(null);
+      await queryClient.invalidateQueries(['grade-boundary-tables']);
+    },
+    onError: (error) => toast.error(error.message)
+  });
+
+  const toggleMutation = useMutation<void, Error, { id: string; isActive: boolean }>(
+    ({ id, isActive }) => setGradeBoundaryTableActive(id, isActive),
+    {
+      onSuccess: () => queryClient.invalidateQueries(['grade-boundary-tables']),
+      onError: (error) => toast.error(error.message)
+    }
+  );
+
+  const openEditor = (table?: GradeBoundaryTable) => {
+    setFormErrors([]);
+    setMarkInputs(
+      Object.fromEntries((table?.thresholds ?? []).map((threshold) => [threshold.grade, String(threshold.min_mark)]))
+    );
+    setEditing(
+      table
+        ? {
+            id: table.id,
+            board: table.board,
+            grading_scheme: table.grading_scheme,
+            syllabus_code: table.syllabus_code,
+            component_code: table.component_code,
+            exam_series: table.exam_series,
+            exam_year: table.exam_year,
+            max_mark: Number(table.max_mark),
+            thresholds: table.thresholds,
+            subject_id: table.subject_id,
+            notes: table.notes,
+            is_active: table.is_active
+          }
+        : { ...EMPTY_TABLE }
+    );
+  };
+
+  const updateEditing = (patch: Partial<GradeBoundaryTableInput>) => {
+    setEditing((current) => (current ? { ...current, ...patch } : current));
+  };
+
+  const handleSave = () => {
+    if (!editing) {
+      return;
+    }
+    const thresholds = GRADING_SCHEME_GRADES[editing.grading_scheme]
+      .filter((grade) => (markInputs[grade] ?? '').trim() !== '')
+      .map((grade) => ({ grade, min_mark: Number(markInputs[grade]) }));
+    const candidate = { ...editing, thresholds };
+    const problems = validateBoundaryTable(candidate);
+    setFormErrors(problems);
+    if (problems.length === 0) {
+      saveMutation.mutate(candidate);
+    }
+  };
+
+  const tables = tablesQuery.data ?? [];
+
+  return (
+    <div className="p-6">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Grade Boundaries</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Raw-mark thresholds per paper and exam series. Practice analytics and mock exam results use the most
+            specific active table for a paper, falling back to a syllabus-wide table.
+          </p>
+        </div>
+        <Button onClick={() => openEditor()} leftIcon={<Plus className="w-4 h-4" />}>
+          New boundary table
+        </Button>
+      </div>
+
+      {tablesQuery.isLoading && <p className="text-sm text-gray-500">Loading grade boundaries…</p>}
+      {tablesQuery.isError && (
+        <p className="text-sm text-red-600 dark:text-red-400">{(tablesQuery.error as Error).message}</p>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-900/40 text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+            <tr>
+              <th className="px-4 py-3">Paper</th>
+              <th className="px-4 py-3">Board</th>
+              <th className="px-4 py-3">Subject</th>
+              <th className="px-4 py-3">Thresholds</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {tables.map((table) => (
+              <tr key={table.id}>
+                <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">{describeBoundaryTable(table)}</td>
+                <td className="px-4 py-3 text-gray-600 dark:text-gray-400">
+                  {EXAM_BOARD_LABELS[table.board]} · {GRADING_SCHEME_LABELS[table.grading_scheme]}
+                </td>
+                <td className="px-4 py-3 text-gray-600 dark:text-gray-400">
+                  {table.subject_id ? subjectNames.get(table.subject_id) ?? '—' : '—'}
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex flex-wrap gap-1">
+                    {table.thresholds.map((threshold) => (
+                      <span
+                        key={threshold.grade}
+                        className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                      >
+                        {threshold.grade}: {threshold.min_mark}
+                      </span>
+                    ))}
+                    <span className="text-xs text-gray-400">/ {Number(table.max_mark)}</span>
+                  </div>
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex items-center gap-2">
+                    <StatusBadge status={table.is_active ? 'active' : 'inactive'} size="xs" />
+                    <ToggleSwitch
+                      checked={table.is_active}
+                      onChange={(checked) => toggleMutation.mutate({ id: table.id, isActive: checked })}
+                      size="sm"
+                    />
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <Button variant="outline" size="sm" onClick={() => openEditor(table)} leftIcon={<Edit2 className="w-4 h-4" />}>
+                    Edit
+                  </Button>
+                </td>
+              </tr>
+            ))}
+            {!tablesQuery.isLoading && tables.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">
+                  No boundary tables yet. Grades are estimated from fixed percentage bands until one is added.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <SlideInForm
+        key={editing?.id ?? 'new'}
+        title={editing?.id ? 'Edit Grade Boundaries' : 'Create Grade Boundaries'}
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        onSave={handleSave}
+        loading={saveMutation.isLoading}
+      >
+        {editing && (
+          <div className="space-y-4">
+            {formErrors.length > 0 && (
+              <ul className="rounded-lg bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300 list-disc list-inside">
+                {formErrors.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            )}
+
+            <FormField id="boundary-board" label="Exam board" required>
+              <Select
+                id="boundary-board"
+                options={BOARD_OPTIONS}
+                value={editing.board}
+                onChange={(value) => updateEditing({ board: value as ExamBoard })}
+              />
+            </FormField>
+
+            <FormField id="boundary-scheme" label="Grading scheme" required>
+              <Select
+                id="boundary-scheme"
+                options={SCHEME_OPTIONS}
+                value={editing.grading_scheme}
+                onChange={(value) => updateEditing({ grading_scheme: value as GradingScheme })}
+              />
+            </FormField>
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField id="boundary-syllabus" label="Syllabus code" required description="e.g. 0620 or 4CH1">
+                <Input
+                  id="boundary-syllabus"
+                  value={editing.syllabus_code}
+                  onChange={(event) => updateEditing({ syllabus_code: event.target.value })}
+                />
+              </FormField>
+              <FormField id="boundary-component" label="Paper / variant" description="e.g. 42; empty for all papers">
+                <Input
+                  id="boundary-component"
+                  value={editing.component_code ?? ''}
+                  onChange={(event) => updateEditing({ component_code: event.target.value || null })}
+                />
+              </FormField>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField id="boundary-series" label="Exam series" required>
+                <Select
+                  id="boundary-series"
+                  options={SERIES_OPTIONS}
+                  value={editing.exam_series}
+                  onChange={(value) => updateEditing({ exam_series: value as ExamSeries })}
+                />
+              </FormField>
+              <FormField id="boundary-year" label="Year" required>
+                <Input
+                  id="boundary-year"
+                  type="number"
+                  value={editing.exam_year}
+                  onChange={(event) => updateEditing({ exam_year: Number(event.target.value) })}
+                />
+              </FormField>
+            </div>
+
+            <FormField id="boundary-subject" label="Subject">
+              <Select
+                id="boundary-subject"
+                options={[{ value: '', label: 'Not linked' }, ...subjects.map((subject) => ({ value: subject.id, label: subject.name }))]}
+                value={editing.subject_id ?? ''}
+                onChange={(value) => updateEditing({ subject_id: value || null })}
+              />
+            </FormField>
+
+            <FormField id="boundary-max" label="Maximum raw mark" required>
+              <Input
+                id="boundary-max"
+                type="number"
+                min={1}
+                value={editing.max_mark}
+                onChange={(event) => updateEditing({ max_mark: Number(event.target.value) })}
+              />
+            </FormField>
+
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Minimum mark per grade</span>
+              <div className="grid grid-cols-3 gap-2">
+                {GRADING_SCHEME_GRADES[editing.grading_scheme].map((grade) => (
+                  <label key={grade} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <span className="w-6 font-semibold">{grade}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={markInputs[grade] ?? ''}
+                      onChange={(event) => setMarkInputs((current) => ({ ...current, [grade]: event.target.value }))}
+                    />
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Leave a grade empty if the board does not publish it for this paper.
+              </p>
+            </div>
+
+            <FormField id="boundary-notes" label="Notes">
+              <Textarea
+                id="boundary-notes"
+                rows={2}
+                value={editing.notes ?? ''}
+                onChange={(event) => updateEditing({ notes: event.target.value || null })}
+              />
+            </FormField>
+
+            <ToggleSwitch
+              checked={editing.is_active}
+              onChange={(checked) => updateEditing({ is_active: checked })}
+              label="Active"
+              description="Inactive tables are ignored when predicting grades"
+            />
+          </div>
+        )}
+      </SlideInForm>
+    </div>
+  );
+}
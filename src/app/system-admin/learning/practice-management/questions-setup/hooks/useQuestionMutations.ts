@@ -2,7 +2,7 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../../../../../../lib/supabase';
 import { toast } from '../../../../../../components/shared/Toast';
-import type { PaperStatus } from '../../../../../../types/questions';
+import type { PaperStatus, RequiredAnswerForm } from '../../../../../../types/questions';
 import { deriveAnswerRequirement } from '../../../../../../lib/extraction/answerRequirementDeriver';
 import { TableTemplateService, type TableTemplateDTO } from '../../../../../../services/TableTemplateService';
 
@@ -25,6 +25,7 @@ interface UpdateCorrectAnswersParams {
     answer: string;
     marks?: number;
     alternative_id?: number;
+    required_form?: RequiredAnswerForm | null;
     context?: {
       type: string;
       value: string;
@@ -174,6 +175,7 @@ export function useQuestionMutations() {
             answer: ca.answer,
             marks: ca.marks || 1,
             alternative_id: ca.alternative_id || 1,
+            required_form: ca.required_form || null,
             context_type: ca.context?.type || null,
             context_value: ca.context?.value || null,
             context_label: ca.context?.label || null
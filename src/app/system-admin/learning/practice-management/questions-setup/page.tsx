@@ -307,6 +307,7 @@ export default function QuestionsSetupPage() {
             accepts_equivalent_phrasing,
             accepts_reverse_argument,
             error_carried_forward,
+            required_form,
             acceptable_variations,
             marking_criteria,
             working,
@@ -373,6 +374,7 @@ export default function QuestionsSetupPage() {
               accepts_equivalent_phrasing,
               accepts_reverse_argument,
               error_carried_forward,
+              required_form,
               acceptable_variations,
               marking_criteria,
               working,
@@ -16,6 +16,8 @@ import DataStructurePage from './settings/data-structure/page';
 import MaterialManagementPage from './learning/materials/page';
 import PapersSetupPage from './learning/practice-management/papers-setup/page';
 import QuestionsSetupPage from './learning/practice-management/questions-setup/page';
+import AchievementsPage from './learning/practice-management/achievements/page';
+import GradeBoundariesPage from './learning/practice-management/grade-boundaries/page';
 import EducationCataloguePage from './learning/education-catalogue/page';
 import ProfilePage from './profile/page';
 
@@ -85,6 +87,8 @@ export default function SystemAdminPage({ moduleKey }: SystemAdminPageProps) {
         <Route path="learning/materials" element={<MaterialManagementPage />} />
         <Route path="learning/practice-management/papers-setup" element={<PapersSetupPage />} />
         <Route path="learning/practice-management/questions-setup" element={<QuestionsSetupPage />} />
+        <Route path="learning/practice-management/achievements" element={<AchievementsPage />} />
+        <Route path="learning/practice-management/grade-boundaries" element={<GradeBoundariesPage />} />
         <Route path="learning/education-catalogue/*" element={<EducationCataloguePage />} />
         <Route path="profile" element={<ProfilePage />} />
       </Routes>
@@ -0,0 +1,311 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Flag, CheckCircle2, XCircle, MessageSquare, ClipboardCheck } from 'lucide-react';
+import {
+  dismissAnswerFlag,
+  fetchMarkingReviewQueue,
+  resolveAnswerFlag
+} from '../../../services/markingReviewService';
+import { resolveEffectiveMarking } from '../../../services/practice/markingOverride';
+import {
+  MarkingOverrideRequest,
+  MarkingPointOverride,
+  PracticeAnswerFlag,
+  PracticeAnswerFlagStatus
+} from '../../../types/practice';
+import { Button } from '../../../components/shared/Button';
+import { FormField, Textarea } from '../../../components/shared/FormField';
+import { toast } from '../../../components/shared/Toast';
+import { cn } from '../../../lib/utils';
+
+interface PointDecision {
+  pointId: string;
+  description: string;
+  originalMarks: number;
+  awarded: boolean;
+  marks: number;
+}
+
+const STATUS_TABS: { id: PracticeAnswerFlagStatus; label: string }[] = [
+  { id: 'pending', label: 'Awaiting review' },
+  { id: 'resolved', label: 'Re-marked' },
+  { id: 'dismissed', label: 'Mark kept' }
+];
+
+function buildPointDecisions(flag: PracticeAnswerFlag): PointDecision[] {
+  const marking = flag.answer ? resolveEffectiveMarking(flag.answer) : null;
+  if (!marking) {
+    return [];
+  }
+
+  return [
+    ...marking.awarded.map((award) => ({
+      pointId: award.pointId,
+      description: award.notes ?? 'Awarded',
+      originalMarks: award.marks,
+      awarded: true,
+      marks: award.marks
+    })),
+    ...marking.denied.map((denial) => ({
+      pointId: denial.pointId,
+      description: [denial.reason, denial.expected ? `expected: ${denial.expected}` : null].filter(Boolean).join(' — '),
+      originalMarks: 0,
+      awarded: false,
+      marks: 1
+    }))
+  ];
+}
+
+function toOverrides(decisions: PointDecision[]): MarkingPointOverride[] {
+  return decisions
+    .filter((decision) => decision.awarded !== decision.originalMarks > 0 || (decision.awarded && decision.marks !== decision.originalMarks))
+    .map((decision) => ({
+      pointId: decision.pointId,
+      action: decision.awarded ? 'award' : 'remove',
+      marks: decision.awarded ? decision.marks : 0
+    }));
+}
+
+function formatStudentAnswer(flag: PracticeAnswerFlag): string {
+  const raw = flag.answer?.raw_answer_json as { value?: unknown; working?: string } | undefined;
+  if (!raw) {
+    return '—';
+  }
+  const value = typeof raw.value === 'string' ? raw.value : JSON.stringify(raw.value, null, 2);
+  return raw.working ? `${value}\n\nWorking:\n${raw.working}` : value;
+}
+
+export default function MarkingReviewsPage() {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<PracticeAnswerFlagStatus>('pending');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [decisions, setDecisions] = useState<PointDecision[]>([]);
+  const [comment, setComment] = useState('');
+
+  const queueQuery = useQuery(['marking-review-queue', status], () => fetchMarkingReviewQueue(status));
+  const flags = useMemo(() => queueQuery.data ?? [], [queueQuery.data]);
+  const selected = useMemo(() => flags.find((flag) => flag.id === selectedId) ?? null, [flags, selectedId]);
+
+  useEffect(() => {
+    setDecisions(selected ? buildPointDecisions(selected) : []);
+    setComment('');
+  }, [selected]);
+
+  const onReviewed = async () => {
+    setSelectedId(null);
+    await queryClient.invalidateQueries(['marking-review-queue']);
+  };
+
+  const resolveMutation = useMutation<PracticeAnswerFlag, Error, MarkingOverrideRequest>(resolveAnswerFlag, {
+    onSuccess: async (flag) => {
+      toast.success(`Answer re-marked: ${flag.marks_before ?? 0} → ${flag.marks_after ?? 0} marks`);
+      await onReviewed();
+    },
+    onError: (error) => toast.error(error.message)
+  });
+
+  const dismissMutation = useMutation<PracticeAnswerFlag, Error, { flagId: string; comment: string }>(
+    ({ flagId, comment: note }) => dismissAnswerFlag(flagId, note),
+    {
+      onSuccess: async () => {
+        toast.success('Original mark kept');
+        await onReviewed();
+      },
+      onError: (error) => toast.error(error.message)
+    }
+  );
+
+  const overrides = toOverrides(decisions);
+  const busy = resolveMutation.isLoading || dismissMutation.isLoading;
+
+  const updateDecision = (pointId: string, patch: Partial<PointDecision>) => {
+    setDecisions((current) => current.map((entry) => (entry.pointId === pointId ? { ...entry, ...patch } : entry)));
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Marking Reviews</h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Practice answers your students have flagged as mis-marked. Award or remove marking points with a comment;
+          session totals and XP are updated automatically.
+        </p>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.id}
+            type="button"
+            onClick={() => {
+              setStatus(tab.id);
+              setSelectedId(null);
+            }}
+            className={cn(
+              'px-4 py-2 rounded-lg text-sm font-medium transition',
+              status === tab.id
+                ? 'bg-[#8CC63F] text-white'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+            )}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          {queueQuery.isLoading && <p className="text-sm text-gray-500">Loading flagged answers…</p>}
+          {queueQuery.isError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{(queueQuery.error as Error).message}</p>
+          )}
+          {!queueQuery.isLoading && flags.length === 0 && (
+            <div className="rounded-lg border border-dashed border-gray-300 dark:border-gray-700 p-6 text-center text-sm text-gray-500">
+              No answers in this list.
+            </div>
+          )}
+          {flags.map((flag) => (
+            <button
+              key={flag.id}
+              type="button"
+              onClick={() => setSelectedId(flag.id)}
+              className={cn(
+                'w-full text-left rounded-lg border p-4 transition',
+                selectedId === flag.id
+                  ? 'border-[#8CC63F] bg-[#8CC63F]/10'
+                  : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-[#8CC63F]/60'
+              )}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {flag.student?.user?.name ?? flag.student?.user?.email ?? 'Student'}
+                </span>
+                <span className="text-xs text-gray-500">{new Date(flag.flagged_at).toLocaleDateString()}</span>
+              </div>
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
+                Q{flag.question?.question_number ?? '?'} · {flag.answer?.marks_earned ?? 0}/{flag.question?.marks ?? '?'} marks
+              </p>
+              {flag.student_comment && (
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 line-clamp-2">“{flag.student_comment}”</p>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <div className="lg:col-span-2">
+          {!selected ? (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-10 text-center">
+              <ClipboardCheck className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-600 dark:text-gray-400">Select a flagged answer to review it.</p>
+            </div>
+          ) : (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-6 space-y-5">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Question {selected.question?.question_number ?? ''}
+                </h2>
+                <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                  {selected.question?.question_description}
+                </p>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Student answer</h3>
+                <pre className="rounded-md bg-gray-50 dark:bg-gray-900/40 p-3 text-sm whitespace-pre-wrap font-sans text-gray-900 dark:text-white">
+                  {formatStudentAnswer(selected)}
+                </pre>
+              </div>
+
+              {selected.student_comment && (
+                <div className="flex gap-2 rounded-md bg-amber-50 dark:bg-amber-900/20 p-3 text-sm text-amber-900 dark:text-amber-200">
+                  <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>{selected.student_comment}</span>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Marking points</h3>
+                <div className="space-y-2">
+                  {decisions.map((decision) => (
+                    <div
+                      key={decision.pointId}
+                      className="flex flex-wrap items-center gap-3 rounded-md border border-gray-200 dark:border-gray-700 p-3"
+                    >
+                      <div className="flex-1 min-w-[200px]">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">{decision.pointId}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{decision.description}</p>
+                      </div>
+                      {decision.awarded && (
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={decision.marks}
+                          disabled={status !== 'pending'}
+                          onChange={(event) => updateDecision(decision.pointId, { marks: Number(event.target.value) })}
+                          className="w-16 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-sm"
+                          aria-label={`Marks for ${decision.pointId}`}
+                        />
+                      )}
+                      <button
+                        type="button"
+                        disabled={status !== 'pending'}
+                        onClick={() => updateDecision(decision.pointId, { awarded: !decision.awarded })}
+                        className={cn(
+                          'inline-flex items-center gap-1 rounded-md px-3 py-1 text-xs font-medium',
+                          decision.awarded
+                            ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                            : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                        )}
+                      >
+                        {decision.awarded ? <CheckCircle2 className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+                        {decision.awarded ? 'Awarded' : 'Not awarded'}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {status === 'pending' ? (
+                <>
+                  <FormField id="remark-comment" label="Comment to student" required>
+                    <Textarea
+                      id="remark-comment"
+                      rows={3}
+                      value={comment}
+                      onChange={(event) => setComment(event.target.value)}
+                      placeholder="Explain why the mark has changed or stays the same"
+                    />
+                  </FormField>
+                  <div className="flex justify-end gap-3">
+                    <Button
+                      variant="secondary"
+                      disabled={busy || !comment.trim()}
+                      onClick={() => dismissMutation.mutate({ flagId: selected.id, comment })}
+                    >
+                      Keep original mark
+                    </Button>
+                    <Button
+                      disabled={busy || !comment.trim() || overrides.length === 0}
+                      onClick={() => resolveMutation.mutate({ flagId: selected.id, overrides, comment })}
+                    >
+                      <Flag className="h-4 w-4 mr-2" />
+                      Apply re-mark
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                selected.teacher_comment && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Teacher comment: “{selected.teacher_comment}”
+                    {selected.status === 'resolved' && ` (${selected.marks_before ?? 0} → ${selected.marks_after ?? 0} marks)`}
+                  </p>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
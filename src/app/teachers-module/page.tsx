@@ -9,6 +9,8 @@ import StudentsPage from './students/page';
 import LearningManagementPage from './learning-management/page';
 import StudyCalendarPage from './study-calendar/page';
 import TeacherMaterialsPage from './learning-management/materials/page';
+import MarkingReviewsPage from './marking-reviews/page';
+import SpeakingAssessmentsPage from './speaking-assessments/page';
 
 interface TeachersModulePageProps {
   moduleKey?: string;
@@ -157,6 +159,8 @@ export default function TeachersModulePage({ moduleKey }: TeachersModulePageProp
         <Route path="learning-management" element={<LearningManagementPage />} />
         <Route path="learning-management/materials" element={<TeacherMaterialsPage />} />
         <Route path="study-calendar" element={<StudyCalendarPage />} />
+        <Route path="marking-reviews" element={<MarkingReviewsPage />} />
+        <Route path="speaking-assessments" element={<SpeakingAssessmentsPage />} />
         <Route path="profile" element={<ProfilePage />} />
       </Routes>
     </AdminLayout>
@@ -0,0 +1,417 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { v4 as uuidv4 } from 'uuid';
+import { Mic, MessageSquarePlus, Shuffle, ShieldCheck, Trash2 } from 'lucide-react';
+import {
+  SpeakingQueueView,
+  drawModerationSample,
+  fetchSpeakingAssessmentQueue,
+  markSpeakingAssessment,
+  moderateSpeakingAssessment,
+  rubricCriteriaFor
+} from '../../../services/speakingAssessmentService';
+import { bandForMarks, scoreRubric } from '../../../services/practice/speakingRubric';
+import {
+  SpeakingAssessment,
+  SpeakingCriterionScore,
+  SpeakingMarkRequest,
+  SpeakingModerationRequest,
+  SpeakingTimestampComment
+} from '../../../types/practice';
+import WaveformPlayer, { WaveformPlayerHandle } from '../../../components/answer-formats/AudioRecorder/WaveformPlayer';
+import { formatPlaybackTime } from '../../../components/answer-formats/utils/assetUpload';
+import { Button } from '../../../components/shared/Button';
+import { FormField, Textarea } from '../../../components/shared/FormField';
+import { toast } from '../../../components/shared/Toast';
+import { cn } from '../../../lib/utils';
+
+const VIEW_TABS: { id: SpeakingQueueView; label: string }[] = [
+  { id: 'pending', label: 'Awaiting marking' },
+  { id: 'marked', label: 'Marked' },
+  { id: 'moderation', label: 'Moderation sample' },
+  { id: 'moderated', label: 'Moderated' }
+];
+
+function initialScores(assessment: SpeakingAssessment): Record<string, number> {
+  return Object.fromEntries(
+    rubricCriteriaFor(assessment).map((criterion) => [
+      criterion.key,
+      assessment.criterion_scores.find((score) => score.criterion === criterion.key)?.marks ?? 0
+    ])
+  );
+}
+
+function toScoreList(scores: Record<string, number>): SpeakingCriterionScore[] {
+  return Object.entries(scores).map(([criterion, marks]) => ({ criterion, marks }));
+}
+
+function studentName(assessment: SpeakingAssessment): string {
+  return assessment.student?.user?.name ?? assessment.student?.user?.email ?? 'Student';
+}
+
+export default function SpeakingAssessmentsPage() {
+  const queryClient = useQueryClient();
+  const playerRef = useRef<WaveformPlayerHandle>(null);
+  const [view, setView] = useState<SpeakingQueueView>('pending');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [comments, setComments] = useState<SpeakingTimestampComment[]>([]);
+  const [draftComment, setDraftComment] = useState('');
+  const [overallComment, setOverallComment] = useState('');
+  const [moderationNotes, setModerationNotes] = useState('');
+
+  const queueQuery = useQuery(['speaking-assessment-queue', view], () => fetchSpeakingAssessmentQueue(view));
+  const assessments = useMemo(() => queueQuery.data ?? [], [queueQuery.data]);
+  const selected = useMemo(
+    () => assessments.find((assessment) => assessment.id === selectedId) ?? null,
+    [assessments, selectedId]
+  );
+  const criteria = useMemo(() => (selected ? rubricCriteriaFor(selected) : []), [selected]);
+
+  useEffect(() => {
+    setScores(selected ? initialScores(selected) : {});
+    setComments(selected?.comments ?? []);
+    setOverallComment(selected?.overall_comment ?? '');
+    setDraftComment('');
+    setModerationNotes('');
+  }, [selected]);
+
+  const onSaved = async () => {
+    setSelectedId(null);
+    await queryClient.invalidateQueries(['speaking-assessment-queue']);
+  };
+
+  const markMutation = useMutation<SpeakingAssessment, Error, SpeakingMarkRequest>(markSpeakingAssessment, {
+    onSuccess: async (assessment) => {
+      toast.success(`Recording marked: ${assessment.marks_awarded ?? 0}/${assessment.max_marks} marks`);
+      await onSaved();
+    },
+    onError: (error) => toast.error(error.message)
+  });
+
+  const moderateMutation = useMutation<SpeakingAssessment, Error, SpeakingModerationRequest>(moderateSpeakingAssessment, {
+    onSuccess: async (assessment) => {
+      toast.success(`Moderated: ${assessment.marks_awarded ?? 0} → ${assessment.moderation_marks ?? 0} marks`);
+      await onSaved();
+    },
+    onError: (error) => toast.error(error.message)
+  });
+
+  const sampleMutation = useMutation<number, Error, void>(() => drawModerationSample(), {
+    onSuccess: async (count) => {
+      toast.success(count ? `${count} recording${count === 1 ? '' : 's'} added to the moderation sample` : 'No newly marked recordings to sample');
+      await queryClient.invalidateQueries(['speaking-assessment-queue']);
+    },
+    onError: (error) => toast.error(error.message)
+  });
+
+  const isMarking = view === 'pending' || view === 'marked';
+  const isModerating = view === 'moderation';
+  const editable = isMarking || isModerating;
+  const busy = markMutation.isLoading || moderateMutation.isLoading;
+  const summary = selected ? scoreRubric(criteria, toScoreList(scores), Number(selected.max_marks)) : null;
+
+  const addComment = () => {
+    const text = draftComment.trim();
+    if (!text) return;
+    const atSeconds = Math.round((playerRef.current?.currentTime() ?? 0) * 10) / 10;
+    setComments((current) =>
+      [...current, { id: uuidv4(), atSeconds, text, authorId: '', createdAt: new Date().toISOString() }].sort(
+        (a, b) => a.atSeconds - b.atSeconds
+      )
+    );
+    setDraftComment('');
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Speaking Assessments</h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Recorded answers to oral questions from practice and mock exams. Listen, pin comments to moments in the
+          recording and score each rubric criterion; the mark is written back to the student's answer.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {VIEW_TABS.map((tab) => (
+          <button
+            key={tab.id}
+            type="button"
+            onClick={() => {
+              setView(tab.id);
+              setSelectedId(null);
+            }}
+            className={cn(
+              'px-4 py-2 rounded-lg text-sm font-medium transition',
+              view === tab.id
+                ? 'bg-[#8CC63F] text-white'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+            )}
+          >
+            {tab.label}
+          </button>
+        ))}
+        {view === 'marked' && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            disabled={sampleMutation.isLoading || assessments.length === 0}
+            onClick={() => sampleMutation.mutate()}
+          >
+            <Shuffle className="h-4 w-4 mr-2" />
+            Draw moderation sample
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          {queueQuery.isLoading && <p className="text-sm text-gray-500">Loading recordings…</p>}
+          {queueQuery.isError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{(queueQuery.error as Error).message}</p>
+          )}
+          {!queueQuery.isLoading && assessments.length === 0 && (
+            <div className="rounded-lg border border-dashed border-gray-300 dark:border-gray-700 p-6 text-center text-sm text-gray-500">
+              No recordings in this list.
+            </div>
+          )}
+          {assessments.map((assessment) => (
+            <button
+              key={assessment.id}
+              type="button"
+              onClick={() => setSelectedId(assessment.id)}
+              className={cn(
+                'w-full text-left rounded-lg border p-4 transition',
+                selectedId === assessment.id
+                  ? 'border-[#8CC63F] bg-[#8CC63F]/10'
+                  : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-[#8CC63F]/60'
+              )}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900 dark:text-white">{studentName(assessment)}</span>
+                <span className="text-xs text-gray-500">{new Date(assessment.created_at).toLocaleDateString()}</span>
+              </div>
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                {assessment.source === 'mock_exam' ? 'Mock exam' : `Q${assessment.question?.question_number ?? '?'}`}
+                {' · '}
+                {formatPlaybackTime(assessment.recording.duration)}
+                {assessment.marks_awarded !== null && ` · ${assessment.marks_awarded}/${assessment.max_marks} marks`}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        <div className="lg:col-span-2">
+          {!selected ? (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-10 text-center">
+              <Mic className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-600 dark:text-gray-400">Select a recording to mark it.</p>
+            </div>
+          ) : (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-6 space-y-5">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {studentName(selected)}
+                  {selected.question && ` — Question ${selected.question.question_number ?? ''}`}
+                </h2>
+                {selected.question?.question_description && (
+                  <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                    {selected.question.question_description}
+                  </p>
+                )}
+              </div>
+
+              <WaveformPlayer
+                ref={playerRef}
+                url={selected.recording.url}
+                duration={selected.recording.duration}
+                waveformData={selected.recording.waveformData}
+                markers={comments.map((comment) => ({ id: comment.id, atSeconds: comment.atSeconds, label: comment.text }))}
+              />
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Timestamped comments</h3>
+                <div className="space-y-2">
+                  {comments.length === 0 && <p className="text-xs text-gray-500">No comments yet.</p>}
+                  {comments.map((comment) => (
+                    <div key={comment.id} className="flex items-start gap-3 rounded-md bg-gray-50 dark:bg-gray-900/40 p-2 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => playerRef.current?.seek(comment.atSeconds)}
+                        className="font-mono text-xs text-[#5d8a28] dark:text-[#8CC63F] hover:underline"
+                      >
+                        {formatPlaybackTime(comment.atSeconds)}
+                      </button>
+                      <span className="flex-1 text-gray-800 dark:text-gray-200">{comment.text}</span>
+                      {isMarking && (
+                        <button
+                          type="button"
+                          onClick={() => setComments((current) => current.filter((entry) => entry.id !== comment.id))}
+                          className="text-gray-400 hover:text-red-500"
+                          aria-label="Remove comment"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {isMarking && (
+                  <div className="mt-2 flex gap-2">
+                    <input
+                      type="text"
+                      value={draftComment}
+                      onChange={(event) => setDraftComment(event.target.value)}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter') {
+                          event.preventDefault();
+                          addComment();
+                        }
+                      }}
+                      placeholder="Comment at the current playback position"
+                      className="flex-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-1.5 text-sm"
+                    />
+                    <Button variant="outline" size="sm" disabled={!draftComment.trim()} onClick={addComment}>
+                      <MessageSquarePlus className="h-4 w-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    {selected.rubric?.name ?? 'Speaking rubric'}
+                  </h3>
+                  {summary && (
+                    <span className="text-sm text-gray-600 dark:text-gray-400">
+                      Rubric {summary.rawTotal}/{summary.rawMax} → <strong>{summary.marks}/{selected.max_marks}</strong> marks
+                    </span>
+                  )}
+                </div>
+                <div className="space-y-3">
+                  {criteria.map((criterion) => {
+                    const marks = scores[criterion.key] ?? 0;
+                    const currentBand = bandForMarks(criterion, marks);
+                    return (
+                      <div key={criterion.key} className="rounded-md border border-gray-200 dark:border-gray-700 p-3">
+                        <div className="flex items-center justify-between gap-3">
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">{criterion.label}</p>
+                          <input
+                            type="number"
+                            min={0}
+                            max={criterion.maxMarks}
+                            step={1}
+                            value={marks}
+                            disabled={!editable}
+                            onChange={(event) =>
+                              setScores((current) => ({
+                                ...current,
+                                [criterion.key]: Math.min(criterion.maxMarks, Math.max(0, Number(event.target.value)))
+                              }))
+                            }
+                            className="w-16 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-sm"
+                            aria-label={`Marks for ${criterion.label}`}
+                          />
+                        </div>
+                        <div className="mt-2 grid gap-1">
+                          {criterion.bands.map((band) => (
+                            <button
+                              key={band.minMarks}
+                              type="button"
+                              disabled={!editable}
+                              onClick={() => setScores((current) => ({ ...current, [criterion.key]: band.maxMarks }))}
+                              className={cn(
+                                'flex gap-3 rounded px-2 py-1 text-left text-xs transition',
+                                currentBand === band
+                                  ? 'bg-[#8CC63F]/15 text-gray-900 dark:text-white'
+                                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                              )}
+                            >
+                              <span className="w-12 flex-shrink-0 font-mono">
+                                {band.minMarks === band.maxMarks ? band.minMarks : `${band.minMarks}–${band.maxMarks}`}
+                              </span>
+                              <span>{band.descriptor}</span>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {isMarking && (
+                <>
+                  <FormField id="speaking-comment" label="Overall comment to student">
+                    <Textarea
+                      id="speaking-comment"
+                      rows={3}
+                      value={overallComment}
+                      onChange={(event) => setOverallComment(event.target.value)}
+                      placeholder="Strengths and what to work on next"
+                    />
+                  </FormField>
+                  <div className="flex justify-end">
+                    <Button
+                      disabled={busy}
+                      onClick={() =>
+                        markMutation.mutate({
+                          assessmentId: selected.id,
+                          scores: toScoreList(scores),
+                          comments,
+                          overallComment
+                        })
+                      }
+                    >
+                      {view === 'marked' ? 'Update marks' : 'Save marks'}
+                    </Button>
+                  </div>
+                </>
+              )}
+
+              {isModerating && (
+                <>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Original mark: {selected.marks_awarded ?? 0}/{selected.max_marks}. Adjust the criteria if you disagree;
+                    a changed mark replaces the original.
+                  </p>
+                  <FormField id="moderation-notes" label="Moderation notes">
+                    <Textarea
+                      id="moderation-notes"
+                      rows={3}
+                      value={moderationNotes}
+                      onChange={(event) => setModerationNotes(event.target.value)}
+                      placeholder="Agreement with the original marking, or why it was adjusted"
+                    />
+                  </FormField>
+                  <div className="flex justify-end">
+                    <Button
+                      disabled={busy}
+                      onClick={() =>
+                        moderateMutation.mutate({ assessmentId: selected.id, scores: toScoreList(scores), notes: moderationNotes })
+                      }
+                    >
+                      <ShieldCheck className="h-4 w-4 mr-2" />
+                      Confirm moderation
+                    </Button>
+                  </div>
+                </>
+              )}
+
+              {view === 'moderated' && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Marked {selected.marks_awarded ?? 0}, moderated {selected.moderation_marks ?? 0}/{selected.max_marks}
+                  {selected.moderation_notes && ` — “${selected.moderation_notes}”`}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
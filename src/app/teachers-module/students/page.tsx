@@ -1,7 +1,17 @@
-import React from 'react';
-import { Users, UserPlus, Search, Filter } from 'lucide-react';
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import dayjs from 'dayjs';
+import { Users, UserPlus, Search, Filter, Flame } from 'lucide-react';
+import { fetchClassActivity } from '../../../services/gamificationService';
+import { StreakCalendar } from '../../../components/practice/StreakCalendar';
+import { LearningTrendsDashboard } from '../../../components/practice/LearningTrendsDashboard';
+import { cn } from '../../../lib/utils';
 
 export default function StudentsPage() {
+  const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
+  const activityQuery = useQuery(['class-practice-activity'], () => fetchClassActivity(14));
+  const activity = activityQuery.data ?? [];
+
   return (
     <div className="p-6">
       <div className="mb-8">
@@ -88,6 +98,68 @@ export default function StudentsPage() {
           </div>
         </div>
       </div>
+
+      <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex items-center mb-4">
+          <Flame className="h-6 w-6 text-orange-500 mr-3" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Practice Activity</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Days with practice over the last two weeks. Select a student to see their streak calendar and learning trends.
+            </p>
+          </div>
+        </div>
+
+        {activityQuery.isLoading && <p className="text-sm text-gray-500">Loading activity…</p>}
+        {activityQuery.isError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{(activityQuery.error as Error).message}</p>
+        )}
+        {!activityQuery.isLoading && activity.length === 0 && (
+          <p className="text-sm text-gray-500">No practice recorded by your students in the last two weeks.</p>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-2">
+            {activity.map((student) => (
+              <button
+                key={student.studentId}
+                type="button"
+                onClick={() => setSelectedStudentId(student.studentId)}
+                className={cn(
+                  'w-full flex items-center gap-4 rounded-lg border px-3 py-2 text-left transition',
+                  selectedStudentId === student.studentId
+                    ? 'border-[#8CC63F] bg-[#8CC63F]/10'
+                    : 'border-gray-200 dark:border-gray-700 hover:border-[#8CC63F]/60'
+                )}
+              >
+                <span className="w-40 truncate text-sm font-medium text-gray-900 dark:text-white">{student.studentName}</span>
+                <span className="flex gap-1">
+                  {student.days.map((day) => (
+                    <span
+                      key={day.date}
+                      title={`${dayjs(day.date).format('D MMM')}: ${day.status}`}
+                      className={cn(
+                        'w-4 h-4 rounded-sm',
+                        day.status === 'active' && 'bg-emerald-500',
+                        day.status === 'frozen' && 'bg-sky-400',
+                        day.status === 'missed' && 'bg-gray-200 dark:bg-gray-700'
+                      )}
+                    />
+                  ))}
+                </span>
+                <span className="ml-auto text-xs text-gray-500">{student.currentStreak}-day streak</span>
+              </button>
+            ))}
+          </div>
+          <div>{selectedStudentId && <StreakCalendar studentId={selectedStudentId} />}</div>
+        </div>
+      </div>
+
+      {selectedStudentId && (
+        <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+          <LearningTrendsDashboard studentId={selectedStudentId} />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,201 @@
+/**
+ * Waveform Player for Recorded Answers
+ *
+ * Plays back a recording over its waveform. Click the waveform to seek;
+ * markers show timestamped comments. Uses the recording's stored waveform
+ * data when present, otherwise decodes the audio to draw one.
+ */
+
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import Button from '@/components/shared/Button';
+import { cn } from '@/lib/utils';
+import { formatPlaybackTime } from '../utils/assetUpload';
+
+export interface WaveformMarker {
+  id: string;
+  atSeconds: number;
+  label: string;
+}
+
+export interface WaveformPlayerHandle {
+  seek: (seconds: number) => void;
+  currentTime: () => number;
+}
+
+interface WaveformPlayerProps {
+  url: string;
+  duration?: number;
+  waveformData?: number[];
+  markers?: WaveformMarker[];
+  onTimeUpdate?: (seconds: number) => void;
+  className?: string;
+}
+
+const BAR_COUNT = 160;
+const VIEW_HEIGHT = 80;
+
+function resample(values: number[], count: number): number[] {
+  if (!values.length) return [];
+  const peak = Math.max(...values.map(Math.abs)) || 1;
+  return Array.from({ length: count }, (_, index) => {
+    const start = Math.floor((index * values.length) / count);
+    const end = Math.max(start + 1, Math.floor(((index + 1) * values.length) / count));
+    let max = 0;
+    for (let i = start; i < end && i < values.length; i++) {
+      max = Math.max(max, Math.abs(values[i]));
+    }
+    return max / peak;
+  });
+}
+
+async function decodePeaks(url: string): Promise<number[]> {
+  const response = await fetch(url);
+  const buffer = await response.arrayBuffer();
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  const context = new AudioContextClass();
+  try {
+    const audio = await context.decodeAudioData(buffer);
+    return resample(Array.from(audio.getChannelData(0)), BAR_COUNT);
+  } finally {
+    void context.close();
+  }
+}
+
+const WaveformPlayer = forwardRef<WaveformPlayerHandle, WaveformPlayerProps>(
+  ({ url, duration: knownDuration, waveformData, markers = [], onTimeUpdate, className }, ref) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [peaks, setPeaks] = useState<number[]>(() => resample(waveformData ?? [], BAR_COUNT));
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(knownDuration ?? 0);
+
+    useEffect(() => {
+      setCurrentTime(0);
+      setIsPlaying(false);
+      setDuration(knownDuration ?? 0);
+      if (waveformData?.length) {
+        setPeaks(resample(waveformData, BAR_COUNT));
+        return;
+      }
+      let cancelled = false;
+      setPeaks([]);
+      decodePeaks(url)
+        .then((decoded) => {
+          if (!cancelled) setPeaks(decoded);
+        })
+        .catch(() => {
+          // Waveform is decorative; playback still works without it
+        });
+      return () => {
+        cancelled = true;
+      };
+    }, [url, knownDuration, waveformData]);
+
+    const seek = useCallback((seconds: number) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      audio.currentTime = Math.max(0, seconds);
+      setCurrentTime(audio.currentTime);
+      onTimeUpdate?.(audio.currentTime);
+    }, [onTimeUpdate]);
+
+    useImperativeHandle(ref, () => ({
+      seek,
+      currentTime: () => audioRef.current?.currentTime ?? 0
+    }), [seek]);
+
+    const togglePlayback = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      if (audio.paused) {
+        void audio.play();
+      } else {
+        audio.pause();
+      }
+    };
+
+    const handleWaveformClick = (event: React.MouseEvent<SVGSVGElement>) => {
+      if (!duration) return;
+      const rect = event.currentTarget.getBoundingClientRect();
+      seek(((event.clientX - rect.left) / rect.width) * duration);
+    };
+
+    const progress = duration ? currentTime / duration : 0;
+    const bars = peaks.length ? peaks : Array.from({ length: BAR_COUNT }, () => 0.05);
+    const barWidth = 100 / bars.length;
+
+    return (
+      <div className={cn('space-y-2', className)}>
+        <audio
+          ref={audioRef}
+          src={url}
+          preload="metadata"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onLoadedMetadata={(event) => {
+            const loaded = event.currentTarget.duration;
+            if (Number.isFinite(loaded) && loaded > 0) setDuration(loaded);
+          }}
+          onTimeUpdate={(event) => {
+            setCurrentTime(event.currentTarget.currentTime);
+            onTimeUpdate?.(event.currentTarget.currentTime);
+          }}
+        />
+
+        <svg
+          viewBox={`0 0 100 ${VIEW_HEIGHT}`}
+          preserveAspectRatio="none"
+          onClick={handleWaveformClick}
+          className="w-full h-20 cursor-pointer rounded-md bg-gray-50 dark:bg-gray-900/40"
+          role="slider"
+          aria-label="Recording position"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(currentTime)}
+        >
+          {bars.map((peak, index) => {
+            const height = Math.max(2, peak * (VIEW_HEIGHT - 8));
+            return (
+              <rect
+                key={index}
+                x={index * barWidth + barWidth * 0.15}
+                y={(VIEW_HEIGHT - height) / 2}
+                width={barWidth * 0.7}
+                height={height}
+                className={index / bars.length < progress ? 'fill-[#8CC63F]' : 'fill-gray-300 dark:fill-gray-600'}
+              />
+            );
+          })}
+          {duration > 0 && markers.map((marker) => (
+            <g key={marker.id}>
+              <title>{`${formatPlaybackTime(marker.atSeconds)} ${marker.label}`}</title>
+              <rect
+                x={(marker.atSeconds / duration) * 100 - 0.3}
+                y={0}
+                width={0.6}
+                height={VIEW_HEIGHT}
+                className="fill-amber-500"
+              />
+            </g>
+          ))}
+          <rect x={progress * 100 - 0.2} y={0} width={0.4} height={VIEW_HEIGHT} className="fill-gray-900 dark:fill-white" />
+        </svg>
+
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" onClick={togglePlayback} aria-label={isPlaying ? 'Pause' : 'Play'}>
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <span className="text-sm font-mono text-gray-600 dark:text-gray-400">
+            {formatPlaybackTime(currentTime)} / {formatPlaybackTime(duration)}
+          </span>
+        </div>
+      </div>
+    );
+  }
+);
+
+WaveformPlayer.displayName = 'WaveformPlayer';
+
+export default WaveformPlayer;
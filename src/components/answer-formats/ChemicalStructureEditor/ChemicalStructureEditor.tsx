@@ -1,21 +1,37 @@
 /**
  * Chemical Structure Editor Component
  *
- * Simplified chemistry structure editor using text-based input
- * with common molecular templates and validation.
+ * Chemistry structure editor with a drawable atom/bond model. The molecular
+ * formula and functional groups are worked out from the drawing, which is
+ * saved with its SMILES so it can be marked as a molecule. Text fields and
+ * common molecular templates remain for naming and written formulas.
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   Beaker,
   Plus,
   Save,
   Check,
   AlertCircle,
-  Copy
+  Copy,
+  Download
 } from 'lucide-react';
 import Button from '@/components/shared/Button';
 import { cn } from '@/lib/utils';
+import MoleculeCanvas from './MoleculeCanvas';
+import {
+  EMPTY_MOLECULE,
+  FUNCTIONAL_GROUP_LABELS,
+  FunctionalGroup,
+  MoleculeGraph,
+  detectFunctionalGroups,
+  findValenceProblems,
+  molecularFormula,
+  parseSmiles,
+  toMolfile,
+  toSmiles
+} from '@/services/practice/molecularStructure';
 
 export interface ChemicalStructureData {
   formula: string;
@@ -23,6 +39,10 @@ export interface ChemicalStructureData {
   name?: string;
   bondingInfo?: string[];
   functionalGroups?: string[];
+  /** Drawn structure; absent for answers entered as text only */
+  molecule?: MoleculeGraph;
+  smiles?: string;
+  detectedGroups?: FunctionalGroup[];
   timestamp: string;
 }
 
@@ -30,33 +50,34 @@ interface Template {
   name: string;
   formula: string;
   structure: string;
+  smiles: string;
   category: string;
 }
 
 const COMMON_TEMPLATES: Template[] = [
   // Alkanes
-  { name: 'Methane', formula: 'CH₄', structure: 'CH₄', category: 'alkane' },
-  { name: 'Ethane', formula: 'C₂H₆', structure: 'CH₃-CH₃', category: 'alkane' },
-  { name: 'Propane', formula: 'C₃H₈', structure: 'CH₃-CH₂-CH₃', category: 'alkane' },
-  { name: 'Butane', formula: 'C₄H₁₀', structure: 'CH₃-CH₂-CH₂-CH₃', category: 'alkane' },
+  { name: 'Methane', formula: 'CH₄', structure: 'CH₄', smiles: 'C', category: 'alkane' },
+  { name: 'Ethane', formula: 'C₂H₆', structure: 'CH₃-CH₃', smiles: 'CC', category: 'alkane' },
+  { name: 'Propane', formula: 'C₃H₈', structure: 'CH₃-CH₂-CH₃', smiles: 'CCC', category: 'alkane' },
+  { name: 'Butane', formula: 'C₄H₁₀', structure: 'CH₃-CH₂-CH₂-CH₃', smiles: 'CCCC', category: 'alkane' },
 
   // Alkenes
-  { name: 'Ethene', formula: 'C₂H₄', structure: 'CH₂=CH₂', category: 'alkene' },
-  { name: 'Propene', formula: 'C₃H₆', structure: 'CH₃-CH=CH₂', category: 'alkene' },
+  { name: 'Ethene', formula: 'C₂H₄', structure: 'CH₂=CH₂', smiles: 'C=C', category: 'alkene' },
+  { name: 'Propene', formula: 'C₃H₆', structure: 'CH₃-CH=CH₂', smiles: 'CC=C', category: 'alkene' },
 
   // Alcohols
-  { name: 'Methanol', formula: 'CH₃OH', structure: 'CH₃-OH', category: 'alcohol' },
-  { name: 'Ethanol', formula: 'C₂H₅OH', structure: 'CH₃-CH₂-OH', category: 'alcohol' },
+  { name: 'Methanol', formula: 'CH₃OH', structure: 'CH₃-OH', smiles: 'CO', category: 'alcohol' },
+  { name: 'Ethanol', formula: 'C₂H₅OH', structure: 'CH₃-CH₂-OH', smiles: 'CCO', category: 'alcohol' },
 
   // Carboxylic Acids
-  { name: 'Methanoic acid', formula: 'HCOOH', structure: 'H-COOH', category: 'acid' },
-  { name: 'Ethanoic acid', formula: 'CH₃COOH', structure: 'CH₃-COOH', category: 'acid' },
+  { name: 'Methanoic acid', formula: 'HCOOH', structure: 'H-COOH', smiles: 'C(=O)O', category: 'acid' },
+  { name: 'Ethanoic acid', formula: 'CH₃COOH', structure: 'CH₃-COOH', smiles: 'CC(=O)O', category: 'acid' },
 
   // Others
-  { name: 'Water', formula: 'H₂O', structure: 'H-O-H', category: 'inorganic' },
-  { name: 'Carbon dioxide', formula: 'CO₂', structure: 'O=C=O', category: 'inorganic' },
-  { name: 'Ammonia', formula: 'NH₃', structure: 'NH₃', category: 'inorganic' },
-  { name: 'Benzene', formula: 'C₆H₆', structure: '⬡', category: 'aromatic' }
+  { name: 'Water', formula: 'H₂O', structure: 'H-O-H', smiles: 'O', category: 'inorganic' },
+  { name: 'Carbon dioxide', formula: 'CO₂', structure: 'O=C=O', smiles: 'O=C=O', category: 'inorganic' },
+  { name: 'Ammonia', formula: 'NH₃', structure: 'NH₃', smiles: 'N', category: 'inorganic' },
+  { name: 'Benzene', formula: 'C₆H₆', structure: '⬡', smiles: 'c1ccccc1', category: 'aromatic' }
 ];
 
 const FUNCTIONAL_GROUPS = [
@@ -98,6 +119,22 @@ const ChemicalStructureEditor: React.FC<ChemicalStructureEditorProps> = ({
     errors: []
   });
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [molecule, setMolecule] = useState<MoleculeGraph>(() => {
+    if (value?.molecule) return value.molecule;
+    try {
+      return value?.smiles ? parseSmiles(value.smiles) : EMPTY_MOLECULE;
+    } catch {
+      return EMPTY_MOLECULE;
+    }
+  });
+  const [smilesInput, setSmilesInput] = useState('');
+  const [smilesError, setSmilesError] = useState<string | null>(null);
+
+  const hasDrawing = molecule.atoms.length > 0;
+  const drawnFormula = useMemo(() => molecularFormula(molecule), [molecule]);
+  const drawnSmiles = useMemo(() => toSmiles(molecule), [molecule]);
+  const detectedGroups = useMemo(() => detectFunctionalGroups(molecule), [molecule]);
+  const valenceProblems = useMemo(() => findValenceProblems(molecule), [molecule]);
 
   // Convert numbers to subscripts
   const formatChemicalFormula = useCallback((input: string): string => {
@@ -107,12 +144,41 @@ const ChemicalStructureEditor: React.FC<ChemicalStructureEditorProps> = ({
     });
   }, []);
 
+  // Drawing changes keep the formula in step with the structure
+  const handleMoleculeChange = useCallback((next: MoleculeGraph) => {
+    setMolecule(next);
+    if (next.atoms.length) {
+      setFormula(molecularFormula(next));
+    }
+  }, []);
+
+  // Load a structure typed as SMILES
+  const handleLoadSmiles = useCallback(() => {
+    try {
+      handleMoleculeChange(parseSmiles(smilesInput));
+      setSmilesError(null);
+    } catch (err) {
+      setSmilesError(err instanceof Error ? err.message : 'Invalid SMILES');
+    }
+  }, [handleMoleculeChange, smilesInput]);
+
+  const handleDownloadMolfile = useCallback(() => {
+    const blob = new Blob([toMolfile(molecule, name)], { type: 'chemical/x-mdl-molfile' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `structure_${questionId}.mol`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [molecule, name, questionId]);
+
   // Apply template
   const handleApplyTemplate = useCallback((template: Template) => {
     setFormula(template.formula);
     setStructuralFormula(template.structure);
     setName(template.name);
-  }, []);
+    handleMoleculeChange(parseSmiles(template.smiles));
+  }, [handleMoleculeChange]);
 
   // Add functional group
   const handleAddFunctionalGroup = useCallback((group: string) => {
@@ -139,6 +205,14 @@ const ChemicalStructureEditor: React.FC<ChemicalStructureEditorProps> = ({
   const validateStructure = useCallback((): { isValid: boolean; errors: string[] } => {
     const errors: string[] = [];
 
+    // A drawing carries its own formula and structure
+    if (hasDrawing) {
+      return {
+        isValid: valenceProblems.length === 0,
+        errors: valenceProblems.map((problem) => problem.message)
+      };
+    }
+
     if (!formula.trim()) {
       errors.push('Chemical formula is required');
     }
@@ -158,7 +232,7 @@ const ChemicalStructureEditor: React.FC<ChemicalStructureEditorProps> = ({
       isValid: errors.length === 0,
       errors
     };
-  }, [formula, structuralFormula]);
+  }, [formula, structuralFormula, hasDrawing, valenceProblems]);
 
   // Save structure
   const handleSave = useCallback(() => {
@@ -167,11 +241,14 @@ const ChemicalStructureEditor: React.FC<ChemicalStructureEditorProps> = ({
 
     if (result.isValid) {
       const data: ChemicalStructureData = {
-        formula: formatChemicalFormula(formula),
-        structuralFormula,
+        formula: formatChemicalFormula(hasDrawing ? drawnFormula : formula),
+        structuralFormula: structuralFormula || (hasDrawing ? drawnSmiles : ''),
         name,
         bondingInfo,
         functionalGroups,
+        molecule: hasDrawing ? molecule : undefined,
+        smiles: hasDrawing ? drawnSmiles : undefined,
+        detectedGroups: hasDrawing ? detectedGroups : undefined,
         timestamp: new Date().toISOString()
       };
 
@@ -179,7 +256,7 @@ const ChemicalStructureEditor: React.FC<ChemicalStructureEditorProps> = ({
       setSaved(true);
       setTimeout(() => setSaved(false), 2000);
     }
-  }, [formula, structuralFormula, name, bondingInfo, functionalGroups, formatChemicalFormula, validateStructure, onChange]);
+  }, [formula, structuralFormula, name, bondingInfo, functionalGroups, hasDrawing, drawnFormula, drawnSmiles, molecule, detectedGroups, formatChemicalFormula, validateStructure, onChange]);
 
   // Copy template structure
   const handleCopyStructure = useCallback((structure: string) => {
@@ -194,6 +271,78 @@ const ChemicalStructureEditor: React.FC<ChemicalStructureEditorProps> = ({
 
   return (
     <div className="space-y-4">
+      {/* Structure Drawing */}
+      <div className="p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-300 dark:border-gray-700 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Draw Structure
+          </h4>
+          {hasDrawing && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleDownloadMolfile}
+              title="Download molfile"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+
+        <MoleculeCanvas
+          molecule={molecule}
+          onChange={handleMoleculeChange}
+          problems={valenceProblems}
+          disabled={disabled}
+        />
+
+        {!disabled && (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={smilesInput}
+              onChange={(e) => setSmilesInput(e.target.value)}
+              placeholder="Or enter SMILES, e.g. CCO"
+              className="flex-1 px-3 py-2 border rounded-lg dark:bg-gray-800 dark:text-white font-mono text-sm"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleLoadSmiles}
+              disabled={!smilesInput.trim()}
+            >
+              Load
+            </Button>
+          </div>
+        )}
+        {smilesError && (
+          <p className="text-xs text-red-600 dark:text-red-400">{smilesError}</p>
+        )}
+
+        {hasDrawing && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+            <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded text-blue-700 dark:text-blue-300 font-mono">
+              Formula: {formatChemicalFormula(drawnFormula)}
+            </div>
+            <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded text-blue-700 dark:text-blue-300 font-mono break-all">
+              SMILES: {drawnSmiles}
+            </div>
+            {detectedGroups.length > 0 && (
+              <div className="md:col-span-2 flex flex-wrap gap-2">
+                {detectedGroups.map((group) => (
+                  <span
+                    key={group}
+                    className="px-2 py-1 bg-green-100 dark:bg-green-900/30 border border-green-500 text-green-700 dark:text-green-300 rounded text-xs"
+                  >
+                    {FUNCTIONAL_GROUP_LABELS[group]}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Input Fields */}
       <div className="grid grid-cols-1 gap-4 p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-300 dark:border-gray-700">
         {/* Compound Name */}
@@ -215,13 +364,13 @@ const ChemicalStructureEditor: React.FC<ChemicalStructureEditorProps> = ({
         {/* Molecular Formula */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Molecular Formula <span className="text-red-500">*</span>
+            Molecular Formula {!hasDrawing && <span className="text-red-500">*</span>}
           </label>
           <input
             type="text"
             value={formula}
             onChange={(e) => setFormula(e.target.value)}
-            disabled={disabled}
+            disabled={disabled || hasDrawing}
             placeholder="e.g., C2H5OH or C₂H₅OH"
             className="w-full px-3 py-2 border rounded-lg dark:bg-gray-800 dark:text-white font-mono"
           />
@@ -235,7 +384,7 @@ const ChemicalStructureEditor: React.FC<ChemicalStructureEditorProps> = ({
         {/* Structural Formula */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Structural Formula <span className="text-red-500">*</span>
+            Structural Formula {!hasDrawing && <span className="text-red-500">*</span>}
           </label>
           <textarea
             value={structuralFormula}
@@ -460,6 +609,7 @@ const ChemicalStructureEditor: React.FC<ChemicalStructureEditorProps> = ({
             {correctAnswerData.name && <p>Name: {correctAnswerData.name}</p>}
             <p>Formula: {correctAnswerData.formula}</p>
             <p>Structure: {correctAnswerData.structuralFormula}</p>
+            {correctAnswerData.smiles && <p>SMILES: {correctAnswerData.smiles}</p>}
             {correctAnswerData.functionalGroups && correctAnswerData.functionalGroups.length > 0 && (
               <p>Functional Groups: {correctAnswerData.functionalGroups.join(', ')}</p>
             )}
@@ -470,7 +620,7 @@ const ChemicalStructureEditor: React.FC<ChemicalStructureEditorProps> = ({
       {/* Help Text */}
       {!disabled && (
         <div className="text-sm text-gray-500 dark:text-gray-400 italic">
-          Enter the molecular and structural formulas. Use templates for common molecules or build your own.
+          Draw the structure, or enter the molecular and structural formulas. Use templates for common molecules or build your own.
           For subscripts in formula, use regular numbers (they'll be converted automatically).
         </div>
       )}
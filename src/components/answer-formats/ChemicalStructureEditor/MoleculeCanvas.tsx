@@ -0,0 +1,307 @@
+/**
+ * Molecule Drawing Canvas
+ *
+ * SVG canvas for drawing a molecule as atoms and bonds. Click empty space to
+ * place an atom (bonded to the selected atom, if any), click two atoms to
+ * bond them, click a bond to cycle single/double/triple.
+ */
+
+import React, { useCallback, useRef, useState } from 'react';
+import { Eraser, Minus, Plus, Trash2 } from 'lucide-react';
+import Button from '@/components/shared/Button';
+import { cn } from '@/lib/utils';
+import {
+  BondOrder,
+  MoleculeAtom,
+  MoleculeBond,
+  MoleculeGraph,
+  ValenceProblem,
+  implicitHydrogens,
+  nextElementId
+} from '@/services/practice/molecularStructure';
+
+type CanvasTool = 'atom' | 'charge_plus' | 'charge_minus' | 'erase';
+
+interface MoleculeCanvasProps {
+  molecule: MoleculeGraph;
+  onChange: (molecule: MoleculeGraph) => void;
+  problems?: ValenceProblem[];
+  disabled?: boolean;
+}
+
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 320;
+const ATOM_RADIUS = 13;
+const ELEMENTS = ['C', 'H', 'O', 'N', 'S', 'P', 'F', 'Cl', 'Br', 'I'];
+const SUBSCRIPTS = ['₀', '₁', '₂', '₃', '₄', '₅', '₆', '₇', '₈', '₉'];
+
+function atomLabel(molecule: MoleculeGraph, atom: MoleculeAtom): string {
+  const hydrogens = implicitHydrogens(molecule, atom);
+  const hydrogenText = hydrogens ? `H${hydrogens > 1 ? SUBSCRIPTS[hydrogens] ?? hydrogens : ''}` : '';
+  const charge = atom.charge ?? 0;
+  const chargeText = charge === 0 ? '' : `${Math.abs(charge) > 1 ? Math.abs(charge) : ''}${charge > 0 ? '+' : '−'}`;
+  return `${atom.element}${hydrogenText}${chargeText}`;
+}
+
+const MoleculeCanvas: React.FC<MoleculeCanvasProps> = ({ molecule, onChange, problems = [], disabled = false }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [tool, setTool] = useState<CanvasTool>('atom');
+  const [element, setElement] = useState('C');
+  const [bondOrder, setBondOrder] = useState<BondOrder>(1);
+  const [selectedAtomId, setSelectedAtomId] = useState<string | null>(null);
+
+  const atomById = useCallback((id: string) => molecule.atoms.find((atom) => atom.id === id), [molecule.atoms]);
+  const problemAtoms = new Set(problems.map((problem) => problem.atomId));
+
+  const toCanvasPoint = useCallback((event: React.MouseEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return {
+      x: Math.round(((event.clientX - rect.left) / rect.width) * CANVAS_WIDTH),
+      y: Math.round(((event.clientY - rect.top) / rect.height) * CANVAS_HEIGHT)
+    };
+  }, []);
+
+  const addBond = useCallback((graph: MoleculeGraph, from: string, to: string): MoleculeGraph => {
+    const existing = graph.bonds.find(
+      (bond) => (bond.from === from && bond.to === to) || (bond.from === to && bond.to === from)
+    );
+    if (existing) {
+      return {
+        ...graph,
+        bonds: graph.bonds.map((bond) => (bond === existing ? { ...bond, order: bondOrder } : bond))
+      };
+    }
+    const bond: MoleculeBond = { id: nextElementId('bond', graph.bonds), from, to, order: bondOrder };
+    return { ...graph, bonds: [...graph.bonds, bond] };
+  }, [bondOrder]);
+
+  const handleCanvasClick = useCallback((event: React.MouseEvent) => {
+    if (disabled || tool !== 'atom') return;
+    const point = toCanvasPoint(event);
+    const atom: MoleculeAtom = { id: nextElementId('atom', molecule.atoms), element, ...point };
+    let next: MoleculeGraph = { ...molecule, atoms: [...molecule.atoms, atom] };
+    if (selectedAtomId) {
+      next = addBond(next, selectedAtomId, atom.id);
+    }
+    onChange(next);
+    setSelectedAtomId(atom.id);
+  }, [addBond, disabled, element, molecule, onChange, selectedAtomId, toCanvasPoint, tool]);
+
+  const handleAtomClick = useCallback((event: React.MouseEvent, atom: MoleculeAtom) => {
+    event.stopPropagation();
+    if (disabled) return;
+
+    if (tool === 'erase') {
+      onChange({
+        atoms: molecule.atoms.filter((other) => other.id !== atom.id),
+        bonds: molecule.bonds.filter((bond) => bond.from !== atom.id && bond.to !== atom.id)
+      });
+      setSelectedAtomId(null);
+      return;
+    }
+    if (tool === 'charge_plus' || tool === 'charge_minus') {
+      const change = tool === 'charge_plus' ? 1 : -1;
+      onChange({
+        ...molecule,
+        atoms: molecule.atoms.map((other) => (other.id === atom.id ? { ...other, charge: (other.charge ?? 0) + change } : other))
+      });
+      return;
+    }
+
+    if (!selectedAtomId) {
+      setSelectedAtomId(atom.id);
+    } else if (selectedAtomId === atom.id) {
+      // Clicking the selected atom again changes its element
+      if (atom.element !== element) {
+        onChange({
+          ...molecule,
+          atoms: molecule.atoms.map((other) => (other.id === atom.id ? { ...other, element } : other))
+        });
+      }
+      setSelectedAtomId(null);
+    } else {
+      onChange(addBond(molecule, selectedAtomId, atom.id));
+      setSelectedAtomId(atom.id);
+    }
+  }, [addBond, disabled, element, molecule, onChange, selectedAtomId, tool]);
+
+  const handleBondClick = useCallback((event: React.MouseEvent, bond: MoleculeBond) => {
+    event.stopPropagation();
+    if (disabled) return;
+    if (tool === 'erase') {
+      onChange({ ...molecule, bonds: molecule.bonds.filter((other) => other.id !== bond.id) });
+      return;
+    }
+    const cycle: Record<number, BondOrder> = { 1: 2, 1.5: 2, 2: 3, 3: 1 };
+    onChange({
+      ...molecule,
+      bonds: molecule.bonds.map((other) => (other.id === bond.id ? { ...other, order: cycle[other.order] } : other))
+    });
+  }, [disabled, molecule, onChange, tool]);
+
+  const handleClear = useCallback(() => {
+    onChange({ atoms: [], bonds: [] });
+    setSelectedAtomId(null);
+  }, [onChange]);
+
+  const renderBond = (bond: MoleculeBond) => {
+    const from = atomById(bond.from);
+    const to = atomById(bond.to);
+    if (!from || !to) return null;
+    const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+    const nx = -(to.y - from.y) / length;
+    const ny = (to.x - from.x) / length;
+    const offsets = bond.order === 3 ? [-4, 0, 4] : bond.order === 2 || bond.order === 1.5 ? [-2.5, 2.5] : [0];
+
+    return (
+      <g key={bond.id} onClick={(event) => handleBondClick(event, bond)} className="cursor-pointer">
+        <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="transparent" strokeWidth={12} />
+        {offsets.map((offset, idx) => (
+          <line
+            key={offset}
+            x1={from.x + nx * offset}
+            y1={from.y + ny * offset}
+            x2={to.x + nx * offset}
+            y2={to.y + ny * offset}
+            className="stroke-gray-700 dark:stroke-gray-300"
+            strokeWidth={1.8}
+            strokeDasharray={bond.order === 1.5 && idx === 1 ? '4 3' : undefined}
+          />
+        ))}
+      </g>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex flex-wrap gap-1">
+          {ELEMENTS.map((symbol) => (
+            <button
+              key={symbol}
+              type="button"
+              onClick={() => {
+                setTool('atom');
+                setElement(symbol);
+              }}
+              disabled={disabled}
+              className={cn(
+                'w-8 h-8 text-sm font-mono rounded border transition-colors',
+                tool === 'atom' && element === symbol
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 hover:border-blue-500'
+              )}
+            >
+              {symbol}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {([1, 2, 3] as BondOrder[]).map((order) => (
+            <button
+              key={order}
+              type="button"
+              onClick={() => setBondOrder(order)}
+              disabled={disabled}
+              title={order === 1 ? 'Single bond' : order === 2 ? 'Double bond' : 'Triple bond'}
+              className={cn(
+                'w-8 h-8 text-sm font-mono rounded border transition-colors',
+                bondOrder === order
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 hover:border-blue-500'
+              )}
+            >
+              {order === 1 ? '—' : order === 2 ? '=' : '≡'}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <Button
+            variant={tool === 'charge_plus' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setTool('charge_plus')}
+            disabled={disabled}
+            title="Add positive charge"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+          <Button
+            variant={tool === 'charge_minus' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setTool('charge_minus')}
+            disabled={disabled}
+            title="Add negative charge"
+          >
+            <Minus className="w-4 h-4" />
+          </Button>
+          <Button
+            variant={tool === 'erase' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setTool('erase')}
+            disabled={disabled}
+            title="Erase atoms and bonds"
+          >
+            <Eraser className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleClear}
+            disabled={disabled || !molecule.atoms.length}
+            title="Clear drawing"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Canvas */}
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+        onClick={handleCanvasClick}
+        className={cn(
+          'w-full bg-white dark:bg-gray-900 rounded-lg border border-gray-300 dark:border-gray-700',
+          disabled ? 'opacity-60 pointer-events-none' : 'cursor-crosshair'
+        )}
+      >
+        {molecule.bonds.map(renderBond)}
+        {molecule.atoms.map((atom) => (
+          <g key={atom.id} onClick={(event) => handleAtomClick(event, atom)} className="cursor-pointer">
+            <circle
+              cx={atom.x}
+              cy={atom.y}
+              r={ATOM_RADIUS}
+              className={cn(
+                'fill-white dark:fill-gray-900',
+                selectedAtomId === atom.id ? 'stroke-blue-500' : problemAtoms.has(atom.id) ? 'stroke-red-500' : 'stroke-transparent'
+              )}
+              strokeWidth={2}
+            />
+            <text
+              x={atom.x}
+              y={atom.y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              className={cn(
+                'text-[13px] font-mono select-none',
+                problemAtoms.has(atom.id) ? 'fill-red-600' : 'fill-gray-900 dark:fill-gray-100'
+              )}
+            >
+              {atomLabel(molecule, atom)}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Click to place an atom; click two atoms to bond them; click a bond to change it. Hydrogens are added
+        automatically unless you draw them.
+      </p>
+    </div>
+  );
+};
+
+export default MoleculeCanvas;
@@ -7,14 +7,16 @@
 
 import React, { useState, useCallback, useEffect } from 'react';
 import Editor from '@monaco-editor/react';
-import { Code, Copy, Download, RotateCcw, Check, AlertCircle } from 'lucide-react';
+import { Code, Copy, Download, RotateCcw, Check, AlertCircle, Play, CheckCircle, XCircle } from 'lucide-react';
 import Button from '@/components/shared/Button';
 import { cn } from '@/lib/utils';
 import { validateCode, type ValidationResult } from '../utils/dataValidation';
+import { runCodeTests } from '@/services/practice/codeSandbox';
+import type { CodeLanguage, CodeTestCase, CodeTestOutcome } from '@/services/practice/codeTesting';
 
 interface CodeEditorProps {
   questionId: string;
-  language?: 'python' | 'javascript' | 'html' | 'css' | 'typescript' | 'java' | 'cpp' | 'plaintext';
+  language?: 'python' | 'javascript' | 'html' | 'css' | 'typescript' | 'java' | 'cpp' | 'plaintext' | 'pseudocode';
   value: string;
   onChange: (value: string) => void;
   disabled?: boolean;
@@ -28,8 +30,14 @@ interface CodeEditorProps {
   theme?: 'vs-light' | 'vs-dark';
   showLineNumbers?: boolean;
   showMinimap?: boolean;
+  /** Visible test cases the student can run before submitting */
+  testCases?: CodeTestCase[];
+  timeLimitMs?: number;
+  memoryLimitMb?: number;
 }
 
+const RUNNABLE_LANGUAGES: string[] = ['python', 'javascript', 'pseudocode'];
+
 const CodeEditor: React.FC<CodeEditorProps> = ({
   questionId,
   language = 'python',
@@ -45,12 +53,20 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   readOnly = false,
   theme = 'vs-dark',
   showLineNumbers = true,
-  showMinimap = false
+  showMinimap = false,
+  testCases,
+  timeLimitMs,
+  memoryLimitMb
 }) => {
   const [currentValue, setCurrentValue] = useState(value || initialTemplate || '');
   const [validation, setValidation] = useState<ValidationResult | null>(null);
   const [copied, setCopied] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(theme === 'vs-dark');
+  const [testOutcomes, setTestOutcomes] = useState<CodeTestOutcome[] | null>(null);
+  const [isRunningTests, setIsRunningTests] = useState(false);
+  const canRunTests = !!testCases?.length && RUNNABLE_LANGUAGES.includes(language);
+  // Monaco has no pseudocode grammar
+  const editorLanguage = language === 'pseudocode' ? 'plaintext' : language;
 
   useEffect(() => {
     if (value !== currentValue) {
@@ -99,6 +115,23 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     onChange(resetValue);
   }, [initialTemplate, onChange]);
 
+  const handleRunTests = useCallback(async () => {
+    if (!testCases?.length) return;
+    setIsRunningTests(true);
+    try {
+      const outcomes = await runCodeTests(
+        { language: language as CodeLanguage, timeLimitMs, memoryLimitMb },
+        testCases,
+        currentValue
+      );
+      setTestOutcomes(outcomes);
+    } catch (err) {
+      console.error('Failed to run tests:', err);
+    } finally {
+      setIsRunningTests(false);
+    }
+  }, [currentValue, language, memoryLimitMb, testCases, timeLimitMs]);
+
   const handleToggleTheme = useCallback(() => {
     setIsDarkMode(!isDarkMode);
   }, [isDarkMode]);
@@ -120,6 +153,21 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Run Tests */}
+          {canRunTests && !readOnly && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRunTests}
+              disabled={disabled || isRunningTests || !currentValue.trim()}
+              title="Run your code against the example tests"
+              className="h-8"
+            >
+              <Play className="w-4 h-4 mr-1" />
+              {isRunningTests ? 'Running...' : 'Run tests'}
+            </Button>
+          )}
+
           {/* Theme Toggle */}
           <Button
             variant="ghost"
@@ -184,7 +232,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
       )}>
         <Editor
           height={height}
-          language={language}
+          language={editorLanguage}
           value={currentValue}
           onChange={handleEditorChange}
           theme={isDarkMode ? 'vs-dark' : 'vs-light'}
@@ -251,6 +299,46 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
         </div>
       )}
 
+      {/* Test Results */}
+      {testOutcomes && (
+        <div className="p-3 bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-800 dark:text-gray-200 mb-2">
+            Tests passed: {testOutcomes.filter((outcome) => outcome.passed).length} / {testOutcomes.length}
+          </h4>
+          <ul className="space-y-2">
+            {testOutcomes.map((outcome, idx) => (
+              <li key={idx} className="text-sm">
+                <div className="flex items-center gap-2">
+                  {outcome.passed ? (
+                    <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
+                  ) : (
+                    <XCircle className="w-4 h-4 text-red-600 dark:text-red-400" />
+                  )}
+                  <span className="text-gray-700 dark:text-gray-300">{outcome.test.name}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{outcome.run.durationMs} ms</span>
+                </div>
+                {!outcome.passed && (
+                  <div className="mt-1 ml-6 grid grid-cols-1 md:grid-cols-2 gap-2 text-xs font-mono">
+                    <pre className="p-2 bg-white dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-700 whitespace-pre-wrap">
+                      Expected:{'\n'}{outcome.test.expectedOutput}
+                    </pre>
+                    <pre className="p-2 bg-white dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-700 whitespace-pre-wrap">
+                      {outcome.run.status === 'completed'
+                        ? `Your output:\n${outcome.run.stdout}`
+                        : outcome.run.status === 'timeout'
+                          ? 'Time limit exceeded'
+                          : outcome.run.status === 'memory_exceeded'
+                            ? 'Memory limit exceeded'
+                            : `Error: ${outcome.run.error ?? 'program crashed'}`}
+                    </pre>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Correct Answer Display */}
       {showCorrectAnswer && correctAnswer && (
         <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg">
@@ -260,7 +348,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
           <div className="border rounded-lg overflow-hidden border-green-300 dark:border-green-700">
             <Editor
               height="200px"
-              language={language}
+              language={editorLanguage}
               value={correctAnswer}
               theme={isDarkMode ? 'vs-dark' : 'vs-light'}
               options={{
@@ -298,7 +386,8 @@ function getLanguageLabel(language: string): string {
     css: 'CSS',
     java: 'Java',
     cpp: 'C++',
-    plaintext: 'Plain Text'
+    plaintext: 'Plain Text',
+    pseudocode: 'Pseudocode'
   };
   return labels[language] || language.toUpperCase();
 }
@@ -33,7 +33,14 @@ import {
 import Button from '@/components/shared/Button';
 import { cn } from '@/lib/utils';
 import { validateTableData } from '../utils/dataValidation';
-import { TableTemplateService, type TableTemplateDTO, type TableCellDTO } from '@/services/TableTemplateService';
+import {
+  TableTemplateService,
+  type TableTemplateDTO,
+  type TableCellDTO,
+  type TableCellAnswerType,
+  type TableGradingRule,
+  type TableGradingScoring
+} from '@/services/TableTemplateService';
 import { TableTemplateImportReviewService, type TableTemplateReviewDTO } from '@/services/TableTemplateImportReviewService';
 import { toast } from '@/components/shared/Toast';
 import { supabase } from '@/lib/supabase';
@@ -151,6 +158,15 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
   const [cellCaseSensitive, setCellCaseSensitive] = useState<Record<string, boolean>>({});
   const [cellEquivalentPhrasing, setCellEquivalentPhrasing] = useState<Record<string, boolean>>({});
   const [cellAlternatives, setCellAlternatives] = useState<Record<string, string[]>>({});
+  const [cellAnswerTypes, setCellAnswerTypes] = useState<Record<string, TableCellAnswerType>>({});
+  const [cellTolerances, setCellTolerances] = useState<Record<string, number>>({});
+  const [cellToleranceTypes, setCellToleranceTypes] = useState<Record<string, 'absolute' | 'percentage'>>({});
+  const [gradingRules, setGradingRules] = useState<TableGradingRule[]>([]);
+  const [ruleDraft, setRuleDraft] = useState<Omit<TableGradingRule, 'id' | 'indices'>>({
+    scope: 'rows',
+    scoring: 'per_group',
+    orderIndependent: false
+  });
 
   // ✅ NEW: Table metadata state
   const [tableTitle, setTableTitle] = useState<string>('');
@@ -570,6 +586,9 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
         const caseSensitive: Record<string, boolean> = {};
         const equivalentPhrasing: Record<string, boolean> = {};
         const alternatives: Record<string, string[]> = {};
+        const answerTypes: Record<string, TableCellAnswerType> = {};
+        const tolerances: Record<string, number> = {};
+        const toleranceTypes: Record<string, 'absolute' | 'percentage'> = {};
 
         console.log('[TableCompletion] 🔧 Processing', tmpl.cells.length, 'cells...');
 
@@ -588,6 +607,9 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
             caseSensitive[key] = cell.caseSensitive ?? false;
             equivalentPhrasing[key] = cell.acceptsEquivalentPhrasing ?? false;
             alternatives[key] = cell.alternativeAnswers ?? [];
+            answerTypes[key] = cell.answerType ?? 'text';
+            tolerances[key] = cell.numericTolerance ?? 0;
+            toleranceTypes[key] = cell.toleranceType ?? 'absolute';
           }
         });
 
@@ -622,6 +644,10 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
         setCellCaseSensitive(caseSensitive);
         setCellEquivalentPhrasing(equivalentPhrasing);
         setCellAlternatives(alternatives);
+        setCellAnswerTypes(answerTypes);
+        setCellTolerances(tolerances);
+        setCellToleranceTypes(toleranceTypes);
+        setGradingRules(tmpl.gradingRules ?? []);
 
         // Initialize table data
         const data: any[][] = Array(tmpl.rows).fill(null).map(() =>
@@ -1139,6 +1165,7 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
         const isCaseSensitive = cellCaseSensitive[cellKey] ?? false;
         const hasEquivPhrasing = cellEquivalentPhrasing[cellKey] ?? false;
         const altCount = (cellAlternatives[cellKey] || []).filter(a => a.trim()).length;
+        const isNumeric = cellAnswerTypes[cellKey] === 'numeric';
 
         // Show marks badge if not default (1)
         if (marks > 1) {
@@ -1208,6 +1235,27 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
           badgesContainer.appendChild(altBadge);
         }
 
+        // Show numeric tolerance badge
+        if (isNumeric) {
+          const tolerance = cellTolerances[cellKey] ?? 0;
+          const percentage = cellToleranceTypes[cellKey] === 'percentage';
+          const numericBadge = document.createElement('span');
+          numericBadge.className = 'numeric-badge';
+          numericBadge.innerHTML = tolerance > 0 ? `±${tolerance}${percentage ? '%' : ''}` : '#';
+          numericBadge.title = tolerance > 0
+            ? `Numeric answer, accepted within ±${tolerance}${percentage ? '%' : ''}`
+            : 'Numeric answer';
+          numericBadge.style.cssText = `
+            font-size: 9px;
+            font-weight: bold;
+            background: #0d9488;
+            color: white;
+            padding: 2px 4px;
+            border-radius: 3px;
+          `;
+          badgesContainer.appendChild(numericBadge);
+        }
+
         td.appendChild(badgesContainer);
       }
 
@@ -1284,6 +1332,9 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
     cellCaseSensitive,
     cellEquivalentPhrasing,
     cellAlternatives,
+    cellAnswerTypes,
+    cellTolerances,
+    cellToleranceTypes,
     handleCellClick,
     handleCellRightClick,
     paintModeEnabled,
@@ -1710,6 +1761,33 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
     setTempCellValue('');
   }, []);
 
+  // Add a grading rule covering the rows or columns of the selected cells
+  const handleAddGradingRule = useCallback(() => {
+    const indices = Array.from(new Set(
+      Array.from(selectedCells).map(key => Number(key.split('-')[ruleDraft.scope === 'rows' ? 0 : 1]))
+    )).sort((a, b) => a - b);
+
+    const rule: TableGradingRule = { ...ruleDraft, id: crypto.randomUUID(), indices };
+    const cells = Object.entries(cellTypes).map(([key, cellType]) => {
+      const [rowIndex, colIndex] = key.split('-').map(Number);
+      return { rowIndex, colIndex, cellType };
+    });
+    const errors = TableTemplateService.validateGradingRules([...gradingRules, rule], { rows, columns, cells });
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+
+    setGradingRules(prev => [...prev, rule]);
+    setAutoSaveStatus('unsaved');
+    toast.success(`Grading rule added for ${rule.scope} ${indices.map(i => i + 1).join(', ')}`);
+  }, [selectedCells, ruleDraft, cellTypes, gradingRules, rows, columns]);
+
+  const handleRemoveGradingRule = useCallback((ruleId: string) => {
+    setGradingRules(prev => prev.filter(rule => rule.id !== ruleId));
+    setAutoSaveStatus('unsaved');
+  }, []);
+
   // Handle inline edit apply
   const handleApplyInlineEdit = useCallback(() => {
     if (!inlineEditCell) return;
@@ -1924,7 +2002,10 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
               marks: cellMarks[key] ?? 1,
               caseSensitive: cellCaseSensitive[key] ?? false,
               acceptsEquivalentPhrasing: cellEquivalentPhrasing[key] ?? false,
-              alternativeAnswers: cellAlternatives[key] ?? []
+              alternativeAnswers: cellAlternatives[key] ?? [],
+              answerType: cellAnswerTypes[key] ?? 'text',
+              numericTolerance: cellTolerances[key],
+              toleranceType: cellToleranceTypes[key]
             });
           }
         }
@@ -1938,7 +2019,8 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
           headers,
           title: tableTitle || undefined,
           description: tableDescription || undefined,
-          cells
+          cells,
+          gradingRules
         };
 
         // Notify parent via callback (for in-memory storage)
@@ -2015,7 +2097,10 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
             marks: cellMarks[key] ?? 1,
             caseSensitive: cellCaseSensitive[key] ?? false,
             acceptsEquivalentPhrasing: cellEquivalentPhrasing[key] ?? false,
-            alternativeAnswers: cellAlternatives[key] ?? []
+            alternativeAnswers: cellAlternatives[key] ?? [],
+            answerType: cellAnswerTypes[key] ?? 'text',
+            numericTolerance: cellTolerances[key],
+            toleranceType: cellToleranceTypes[key]
           });
         }
       }
@@ -2030,7 +2115,8 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
           headers,
           title: tableTitle || undefined,
           description: tableDescription || undefined,
-          cells
+          cells,
+          gradingRules
         };
 
         const result = await TableTemplateImportReviewService.saveTemplateForReview(reviewTemplate);
@@ -2119,7 +2205,10 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
             marks: cellMarks[key] ?? 1,
             caseSensitive: cellCaseSensitive[key] ?? false,
             acceptsEquivalentPhrasing: cellEquivalentPhrasing[key] ?? false,
-            alternativeAnswers: cellAlternatives[key] ?? []
+            alternativeAnswers: cellAlternatives[key] ?? [],
+            answerType: cellAnswerTypes[key] ?? 'text',
+            numericTolerance: cellTolerances[key],
+            toleranceType: cellToleranceTypes[key]
           });
         }
       }
@@ -2133,7 +2222,8 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
         headers,
         title: tableTitle || undefined,
         description: tableDescription || undefined,
-        cells
+        cells,
+        gradingRules
       };
 
       const result = await TableTemplateService.saveTemplate(template);
@@ -2187,7 +2277,7 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
 
       return () => clearTimeout(timer);
     }
-  }, [autoSaveStatus, isEditingTemplate, cellTypes, cellValues, expectedAnswers, headers, rows, columns]);
+  }, [autoSaveStatus, isEditingTemplate, cellTypes, cellValues, expectedAnswers, headers, rows, columns, gradingRules]);
 
   // Cleanup: Clear debounced onChange timer on unmount
   useEffect(() => {
@@ -3191,6 +3281,71 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
                 </p>
               </div>
 
+              {/* Numeric Answers */}
+              {(() => {
+                const editableKeys = Array.from(selectedCells).filter(key => cellTypes[key] === 'editable');
+                const firstCell = editableKeys[0];
+                const answerType = firstCell ? (cellAnswerTypes[firstCell] ?? 'text') : 'text';
+                const applyToSelected = <T,>(current: Record<string, T>, value: T) => {
+                  const next = {...current};
+                  editableKeys.forEach(key => {
+                    next[key] = value;
+                  });
+                  return next;
+                };
+
+                return (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Answer Type
+                      </label>
+                      <select
+                        value={answerType}
+                        onChange={(e) => setCellAnswerTypes(applyToSelected(cellAnswerTypes, e.target.value as TableCellAnswerType))}
+                        className="w-full px-3 py-2 text-sm border rounded dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-amber-500"
+                      >
+                        <option value="text">Text</option>
+                        <option value="numeric">Numeric</option>
+                      </select>
+                    </div>
+                    {answerType === 'numeric' && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            Tolerance (±)
+                          </label>
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={cellTolerances[firstCell] ?? 0}
+                            onChange={(e) => setCellTolerances(applyToSelected(cellTolerances, Math.max(0, parseFloat(e.target.value) || 0)))}
+                            className="w-full px-3 py-2 text-sm border rounded dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-amber-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            Tolerance Type
+                          </label>
+                          <select
+                            value={cellToleranceTypes[firstCell] ?? 'absolute'}
+                            onChange={(e) => setCellToleranceTypes(applyToSelected(cellToleranceTypes, e.target.value as 'absolute' | 'percentage'))}
+                            className="w-full px-3 py-2 text-sm border rounded dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-amber-500"
+                          >
+                            <option value="absolute">Absolute (± value)</option>
+                            <option value="percentage">Percentage (± %)</option>
+                          </select>
+                        </div>
+                      </>
+                    )}
+                    <p className="text-xs text-gray-500 md:col-span-3">
+                      Numeric cells accept any number within the tolerance of the expected answer (e.g., 3.14 ± 0.01)
+                    </p>
+                  </div>
+                );
+              })()}
+
               {/* Summary */}
               <div className="p-3 bg-white dark:bg-gray-800 rounded border border-amber-300 dark:border-amber-700">
                 <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">
@@ -3207,6 +3362,8 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
                     const equivPhrasing = cellEquivalentPhrasing[firstCell] ?? false;
                     const alternatives = (cellAlternatives[firstCell] || []).filter(a => a.trim());
                     const totalMarks = marks * editableCells.length;
+                    const isNumeric = cellAnswerTypes[firstCell] === 'numeric';
+                    const tolerance = cellTolerances[firstCell] ?? 0;
 
                     return (
                       <>
@@ -3214,6 +3371,7 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
                         <li>✓ Case matching: {caseSensitive ? 'Exact case required' : 'Case-insensitive'}</li>
                         <li>✓ Equivalent phrasing: {equivPhrasing ? 'Enabled (synonyms accepted)' : 'Disabled (exact match)'}</li>
                         <li>✓ Alternative answers: {alternatives.length > 0 ? `${alternatives.length} alternative(s) configured` : 'None'}</li>
+                        <li>✓ Answer type: {isNumeric ? `Numeric (±${tolerance}${cellToleranceTypes[firstCell] === 'percentage' ? '%' : ''})` : 'Text'}</li>
                       </>
                     );
                   })()}
@@ -3234,6 +3392,146 @@ const TableCompletion: React.FC<TableCompletionProps> = ({
         </div>
       )}
 
+      {/* Grading Rules Panel - Hidden in test/simulation modes */}
+      {isEditingTemplate && !previewMode && !isAdminTestMode && !isStudentTestMode && (
+        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-300 dark:border-blue-700">
+          <div className="flex items-center gap-2 mb-3">
+            <Award className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            <h4 className="text-sm font-medium text-blue-900 dark:text-blue-100">
+              Grading Rules
+            </h4>
+            <span className="text-xs text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900/40 px-2 py-1 rounded-full">
+              {gradingRules.length} rule(s)
+            </span>
+          </div>
+          <p className="text-sm text-blue-800 dark:text-blue-200 mb-3">
+            Give partial credit across rows or columns. The first rule covering a cell decides how it is scored; cells without a rule earn their own marks.
+          </p>
+
+          {gradingRules.length > 0 && (
+            <ul className="space-y-2 mb-4">
+              {gradingRules.map((rule, index) => (
+                <li
+                  key={rule.id}
+                  className="flex items-center justify-between gap-2 p-2 bg-white dark:bg-gray-800 rounded border border-blue-200 dark:border-blue-800 text-sm"
+                >
+                  <span className="text-gray-700 dark:text-gray-300">
+                    <strong>{rule.label || `Rule ${index + 1}`}</strong>
+                    {' — '}
+                    {rule.scope === 'rows' ? 'Rows' : 'Columns'} {rule.indices.map(i => i + 1).join(', ')}
+                    {': '}
+                    {rule.scoring === 'per_cell' && 'marks per correct cell'}
+                    {rule.scoring === 'per_group' && `${rule.marksPerGroup ?? 'cell total'} mark(s) per fully correct ${rule.scope === 'rows' ? 'row' : 'column'}`}
+                    {rule.scoring === 'per_n_correct' && `1 mark per ${rule.correctPerMark} correct cells`}
+                    {rule.orderIndependent && ' (any order)'}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRemoveGradingRule(rule.id)}
+                    className="text-red-600 hover:bg-red-50"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Applies to
+              </label>
+              <select
+                value={ruleDraft.scope}
+                onChange={(e) => setRuleDraft({ ...ruleDraft, scope: e.target.value as TableGradingRule['scope'] })}
+                className="w-full px-3 py-2 text-sm border rounded dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="rows">Rows of selected cells</option>
+                <option value="columns">Columns of selected cells</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Scoring
+              </label>
+              <select
+                value={ruleDraft.scoring}
+                onChange={(e) => {
+                  const scoring = e.target.value as TableGradingScoring;
+                  setRuleDraft({ ...ruleDraft, scoring, correctPerMark: scoring === 'per_n_correct' ? (ruleDraft.correctPerMark ?? 2) : ruleDraft.correctPerMark });
+                }}
+                className="w-full px-3 py-2 text-sm border rounded dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="per_cell">Per correct cell</option>
+                <option value="per_group">Per fully correct {ruleDraft.scope === 'rows' ? 'row' : 'column'}</option>
+                <option value="per_n_correct">1 mark per N correct</option>
+              </select>
+            </div>
+            <div>
+              {ruleDraft.scoring === 'per_group' && (
+                <>
+                  <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Marks per {ruleDraft.scope === 'rows' ? 'row' : 'column'}
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={ruleDraft.marksPerGroup ?? ''}
+                    placeholder="Sum of cell marks"
+                    onChange={(e) => setRuleDraft({ ...ruleDraft, marksPerGroup: e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : undefined })}
+                    className="w-full px-3 py-2 text-sm border rounded dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-blue-500"
+                  />
+                </>
+              )}
+              {ruleDraft.scoring === 'per_n_correct' && (
+                <>
+                  <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Correct cells per mark (N)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={ruleDraft.correctPerMark ?? 2}
+                    onChange={(e) => setRuleDraft({ ...ruleDraft, correctPerMark: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="w-full px-3 py-2 text-sm border rounded dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-blue-500"
+                  />
+                </>
+              )}
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer pb-2">
+              <input
+                type="checkbox"
+                checked={ruleDraft.orderIndependent ?? false}
+                onChange={(e) => setRuleDraft({ ...ruleDraft, orderIndependent: e.target.checked })}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">
+                Accept in any order
+              </span>
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between gap-3 mt-3">
+            <p className="text-xs text-gray-500">
+              {selectedCells.size > 0
+                ? `Covers ${ruleDraft.scope} ${Array.from(new Set(Array.from(selectedCells).map(key => Number(key.split('-')[ruleDraft.scope === 'rows' ? 0 : 1]) + 1))).sort((a, b) => a - b).join(', ')}`
+                : 'Select cells in the rows or columns the rule should cover'}
+            </p>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleAddGradingRule()}
+              disabled={selectedCells.size === 0}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Persistent Quick Actions Toolbar - Hidden in test/simulation modes */}
       {isEditingTemplate && selectedCells.size > 0 && !isAdminTestMode && !isStudentTestMode && (
         <div className="sticky top-0 z-10 p-3 bg-[#8CC63F] text-white rounded-lg shadow-lg border-2 border-[#7AB62F]">
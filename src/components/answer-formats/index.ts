@@ -10,6 +10,7 @@
 export { default as CodeEditor } from './CodeEditor/CodeEditor';
 export { default as FileUploader } from './FileUploader/FileUploader';
 export { default as AudioRecorder } from './AudioRecorder/AudioRecorder';
+export { default as WaveformPlayer } from './AudioRecorder/WaveformPlayer';
 
 // Visual Components (Phase 2 - IN PROGRESS)
 export { default as TableCompletion } from './TableInput/TableCompletion';
@@ -27,6 +28,7 @@ export * from './utils/dataValidation';
 // ===== TYPE EXPORTS =====
 export type { UploadedFile } from './FileUploader/FileUploader';
 export type { AudioRecording } from './AudioRecorder/AudioRecorder';
+export type { WaveformMarker, WaveformPlayerHandle } from './AudioRecorder/WaveformPlayer';
 export type { TableTemplate, TableCompletionData } from './TableInput/TableCompletion';
 export type { DiagramData } from './DiagramCanvas/DiagramCanvas';
 export type { GraphData, DataPoint } from './GraphPlotter/GraphPlotter';
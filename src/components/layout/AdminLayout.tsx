@@ -34,7 +34,11 @@ import {
   Calendar,
   Circle,
   ClipboardList,
+  ClipboardCheck,
   UserCircle,
+  Award,
+  Scale,
+  Mic,
   type LucideIcon
 } from 'lucide-react';
 import { cn } from '../../lib/utils';
@@ -75,7 +79,11 @@ const iconMap: Record<string, LucideIcon> = {
   Route,
   Calendar,
   ClipboardList,
-  UserCircle
+  ClipboardCheck,
+  UserCircle,
+  Award,
+  Scale,
+  Mic
 };
 
 interface AdminLayoutProps {
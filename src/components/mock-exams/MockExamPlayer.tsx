@@ -0,0 +1,508 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import dayjs from 'dayjs';
+import { AlertTriangle, CheckCircle2, ChevronLeft, ChevronRight, Clock, Loader2, Save, Send } from 'lucide-react';
+import {
+  MockExamDeliveryService,
+  MockExamAttemptState,
+  MockExamPaperOption,
+  MockExamPaperQuestion,
+  MockExamResponseDraft,
+  remainingSeconds,
+  responseKey,
+  serverClockOffsetMs
+} from '@/services/mockExamDeliveryService';
+import { cn } from '@/lib/utils';
+
+// Autosave cadence while answers are changing; saves also happen on navigation
+const AUTOSAVE_INTERVAL_MS = 15000;
+const WARNING_THRESHOLD_SECONDS = 5 * 60;
+
+interface MockExamPlayerProps {
+  examId: string;
+  title: string;
+  onExit: () => void;
+}
+
+function formatCountdown(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+function AnswerInput({
+  id,
+  options,
+  questionType,
+  value,
+  disabled,
+  onChange
+}: {
+  id: string;
+  options: MockExamPaperOption[];
+  questionType: string | null;
+  value: string;
+  disabled: boolean;
+  onChange: (value: string) => void;
+}) {
+  if (options.length > 0) {
+    return (
+      <div className="space-y-2">
+        {options.map((option) => (
+          <label
+            key={option.label}
+            className={cn(
+              'flex items-start gap-3 px-3 py-2 border rounded-lg cursor-pointer',
+              value === option.label
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                : 'border-gray-200 dark:border-gray-700'
+            )}
+          >
+            <input
+              type="radio"
+              name={id}
+              value={option.label}
+              checked={value === option.label}
+              disabled={disabled}
+              onChange={() => onChange(option.label)}
+              className="mt-1"
+            />
+            <span className="text-sm text-gray-800 dark:text-gray-200">
+              <span className="font-semibold mr-2">{option.label}.</span>
+              {option.text}
+            </span>
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  if (questionType === 'true_false') {
+    return (
+      <div className="flex gap-3">
+        {['True', 'False'].map((choice) => (
+          <button
+            key={choice}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange(choice)}
+            className={cn(
+              'px-4 py-2 border rounded-lg text-sm font-medium',
+              value === choice
+                ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20'
+                : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300'
+            )}
+          >
+            {choice}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <textarea
+      id={id}
+      value={value}
+      disabled={disabled}
+      onChange={(event) => onChange(event.target.value)}
+      rows={questionType === 'long_answer' || questionType === 'descriptive' ? 8 : 4}
+      className="w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 p-3 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      placeholder="Type your answer"
+    />
+  );
+}
+
+export function MockExamPlayer({ examId, title, onExit }: MockExamPlayerProps) {
+  const queryClient = useQueryClient();
+  const [attempt, setAttempt] = useState<MockExamAttemptState | null>(null);
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [timeSpent, setTimeSpent] = useState<Record<string, number>>({});
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const dirtyKeys = useRef<Set<string>>(new Set());
+  const questionOpenedAt = useRef(Date.now());
+  const autoSubmitStarted = useRef(false);
+
+  const applyAttempt = useCallback((state: MockExamAttemptState) => {
+    setAttempt(state);
+    setClockOffsetMs(serverClockOffsetMs(state.serverNow));
+  }, []);
+
+  const startMutation = useMutation<MockExamAttemptState, Error, void>(
+    () => MockExamDeliveryService.startAttempt(examId),
+    { onSuccess: applyAttempt }
+  );
+
+  useEffect(() => {
+    startMutation.mutate();
+    // Start (or resume) once per exam
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [examId]);
+
+  const paperQuery = useQuery(
+    ['mock-exam-paper', examId],
+    () => MockExamDeliveryService.getPaper(examId),
+    {
+      enabled: attempt?.submissionStatus === 'in_progress',
+      refetchOnWindowFocus: false,
+      onSuccess: (paper) => {
+        applyAttempt(paper.attempt);
+        setAnswers((prev) => {
+          const restored: Record<string, string> = {};
+          paper.responses?.forEach((response) => {
+            restored[responseKey(response.questionSelectionId, response.subQuestionId)] = response.answer ?? '';
+          });
+          // Keep anything typed locally that has not been saved yet
+          return { ...restored, ...prev };
+        });
+        setTimeSpent((prev) => {
+          const restored: Record<string, number> = {};
+          paper.responses?.forEach((response) => {
+            restored[response.questionSelectionId] = Math.max(
+              restored[response.questionSelectionId] ?? 0,
+              response.timeSpentSeconds ?? 0
+            );
+          });
+          return { ...restored, ...prev };
+        });
+      }
+    }
+  );
+
+  const questions: MockExamPaperQuestion[] = paperQuery.data?.questions ?? [];
+  const currentQuestion = questions[currentIndex] ?? null;
+
+  const secondsLeft = remainingSeconds(attempt?.deadlineAt ?? null, clockOffsetMs, now);
+  const isOpen = attempt?.submissionStatus === 'in_progress' && secondsLeft > 0;
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Time on the current question is banked whenever the student moves on
+  const bankQuestionTime = useCallback(() => {
+    if (!currentQuestion) return;
+    const elapsed = Math.round((Date.now() - questionOpenedAt.current) / 1000);
+    questionOpenedAt.current = Date.now();
+    if (elapsed <= 0) return;
+    setTimeSpent((prev) => ({
+      ...prev,
+      [currentQuestion.selectionId]: (prev[currentQuestion.selectionId] ?? 0) + elapsed
+    }));
+  }, [currentQuestion]);
+
+  const buildDrafts = useCallback((): MockExamResponseDraft[] => {
+    return Array.from(dirtyKeys.current).map((key) => {
+      const [questionSelectionId, subQuestionId] = key.split(':');
+      return {
+        questionSelectionId,
+        subQuestionId: subQuestionId ?? null,
+        answer: answers[key] ?? '',
+        timeSpentSeconds: timeSpent[questionSelectionId] ?? 0
+      };
+    });
+  }, [answers, timeSpent]);
+
+  const saveMutation = useMutation<string, Error, MockExamResponseDraft[]>(
+    (drafts) => MockExamDeliveryService.saveResponses(examId, drafts),
+    {
+      onSuccess: (savedAt, drafts) => {
+        drafts.forEach((draft) => dirtyKeys.current.delete(responseKey(draft.questionSelectionId, draft.subQuestionId)));
+        setAttempt((prev) => (prev ? { ...prev, lastSavedAt: savedAt } : prev));
+        setSaveError(null);
+      },
+      onError: (error) => {
+        setSaveError(error.message);
+      }
+    }
+  );
+
+  const flushSave = useCallback(async () => {
+    const drafts = buildDrafts();
+    if (drafts.length === 0 || saveMutation.isLoading) return;
+    await saveMutation.mutateAsync(drafts).catch(() => undefined);
+  }, [buildDrafts, saveMutation]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = window.setInterval(() => {
+      void flushSave();
+    }, AUTOSAVE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isOpen, flushSave]);
+
+  const submitMutation = useMutation<MockExamAttemptState, Error, void>(
+    async () => {
+      bankQuestionTime();
+      await flushSave();
+      return MockExamDeliveryService.submitAttempt(examId);
+    },
+    {
+      onSuccess: (state) => {
+        applyAttempt(state);
+        queryClient.invalidateQueries(['student-mock-exams']);
+        queryClient.removeQueries(['mock-exam-paper', examId]);
+      },
+      onError: (error) => {
+        autoSubmitStarted.current = false;
+        alert(error.message);
+      }
+    }
+  );
+
+  // The server stops accepting answers at the deadline, so submit what we have
+  useEffect(() => {
+    if (attempt?.submissionStatus === 'in_progress' && attempt.deadlineAt && secondsLeft === 0 && !autoSubmitStarted.current) {
+      autoSubmitStarted.current = true;
+      submitMutation.mutate();
+    }
+  }, [attempt, secondsLeft, submitMutation]);
+
+  const updateAnswer = (key: string, value: string) => {
+    dirtyKeys.current.add(key);
+    setAnswers((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const goToQuestion = (index: number) => {
+    if (index === currentIndex || index < 0 || index >= questions.length) return;
+    bankQuestionTime();
+    setCurrentIndex(index);
+    void flushSave();
+  };
+
+  const isAnswered = (question: MockExamPaperQuestion) => {
+    if (question.parts.length === 0) {
+      return !!answers[responseKey(question.selectionId, null)]?.trim();
+    }
+    return question.parts.some((part) => !!answers[responseKey(question.selectionId, part.subQuestionId)]?.trim());
+  };
+
+  const answeredCount = useMemo(
+    () => questions.filter(isAnswered).length,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [questions, answers]
+  );
+
+  const handleSubmit = () => {
+    const unanswered = questions.length - answeredCount;
+    const message = unanswered > 0
+      ? `You have ${unanswered} unanswered question(s). Submit your exam now?`
+      : 'Submit your exam now? You will not be able to change your answers.';
+    if (window.confirm(message)) {
+      submitMutation.mutate();
+    }
+  };
+
+  if (startMutation.isLoading || (!attempt && !startMutation.isError)) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (startMutation.isError || !attempt) {
+    return (
+      <div className="max-w-xl mx-auto bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-2xl p-6 space-y-4">
+        <p className="flex items-center gap-2 font-semibold text-red-600">
+          <AlertTriangle className="w-5 h-5" /> {startMutation.error?.message ?? 'Unable to start this exam'}
+        </p>
+        <button type="button" onClick={onExit} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+          Back to mock exams
+        </button>
+      </div>
+    );
+  }
+
+  if (attempt.submissionStatus === 'submitted' || attempt.submissionStatus === 'graded' || (!isOpen && !submitMutation.isLoading)) {
+    return (
+      <div className="max-w-xl mx-auto bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-2xl p-6 space-y-4 text-center">
+        <CheckCircle2 className="w-12 h-12 text-emerald-500 mx-auto" />
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{title}</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {attempt.submittedAt
+            ? `Submitted ${dayjs(attempt.submittedAt).format('D MMM YYYY, HH:mm')}${attempt.autoSubmitted ? ' automatically when time ran out' : ''}.`
+            : 'Time is up for this exam.'}{' '}
+          Your responses have been sent for marking.
+        </p>
+        <button type="button" onClick={onExit} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+          Back to mock exams
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <header className="sticky top-0 z-10 bg-white/95 dark:bg-gray-900/95 border border-gray-200 dark:border-gray-700 rounded-2xl p-4 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h2>
+          <p className="text-xs text-gray-500">
+            {answeredCount}/{questions.length} answered
+            {attempt.extraTimeMinutes > 0 && ` · includes ${attempt.extraTimeMinutes} min extra time`}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-xs text-gray-500 flex items-center gap-1">
+            {saveMutation.isLoading ? (
+              <><Loader2 className="w-3 h-3 animate-spin" /> Saving…</>
+            ) : saveError ? (
+              <span className="text-red-600 flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> Not saved</span>
+            ) : attempt.lastSavedAt ? (
+              <><Save className="w-3 h-3" /> Saved {dayjs(attempt.lastSavedAt).format('HH:mm:ss')}</>
+            ) : null}
+          </span>
+          <span
+            className={cn(
+              'flex items-center gap-2 px-3 py-1.5 rounded-lg font-mono text-lg font-semibold',
+              secondsLeft <= WARNING_THRESHOLD_SECONDS
+                ? 'bg-red-50 text-red-600 dark:bg-red-900/20'
+                : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100'
+            )}
+          >
+            <Clock className="w-4 h-4" /> {formatCountdown(secondsLeft)}
+          </span>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={submitMutation.isLoading}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitMutation.isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            Submit
+          </button>
+        </div>
+      </header>
+
+      {paperQuery.isLoading ? (
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+        </div>
+      ) : paperQuery.isError ? (
+        <p className="text-sm text-red-600">{(paperQuery.error as Error).message}</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <aside className="bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-2xl p-4 space-y-4 h-fit">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Questions</h3>
+            <div className="grid grid-cols-5 gap-2">
+              {questions.map((question, index) => (
+                <button
+                  key={question.selectionId}
+                  type="button"
+                  onClick={() => goToQuestion(index)}
+                  className={cn(
+                    'h-9 rounded-lg text-sm font-semibold border',
+                    index === currentIndex
+                      ? 'border-blue-600 bg-blue-600 text-white'
+                      : isAnswered(question)
+                        ? 'border-emerald-300 bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20'
+                        : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300'
+                  )}
+                >
+                  {index + 1}
+                </button>
+              ))}
+            </div>
+            {(paperQuery.data?.instructions?.length ?? 0) > 0 && (
+              <div className="pt-4 border-t border-gray-100 dark:border-gray-800 space-y-2">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Instructions</h3>
+                {paperQuery.data?.instructions?.map((instruction, index) => (
+                  <p key={index} className="text-xs text-gray-600 dark:text-gray-400 whitespace-pre-line">{instruction}</p>
+                ))}
+              </div>
+            )}
+          </aside>
+
+          {currentQuestion && (
+            <section className="lg:col-span-3 bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-2xl p-6 space-y-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-xs uppercase tracking-wide text-gray-500">
+                    Question {currentIndex + 1}
+                    {currentQuestion.isOptional && ' · Optional'}
+                  </p>
+                  {currentQuestion.prompt && (
+                    <p className="mt-2 text-gray-900 dark:text-gray-100 whitespace-pre-line">{currentQuestion.prompt}</p>
+                  )}
+                </div>
+                {currentQuestion.marks !== null && (
+                  <span className="shrink-0 text-sm font-semibold text-gray-600 dark:text-gray-300">
+                    [{currentQuestion.marks} mark{Number(currentQuestion.marks) === 1 ? '' : 's'}]
+                  </span>
+                )}
+              </div>
+
+              {currentQuestion.parts.length === 0 ? (
+                <AnswerInput
+                  id={currentQuestion.selectionId}
+                  options={currentQuestion.options}
+                  questionType={currentQuestion.questionType}
+                  value={answers[responseKey(currentQuestion.selectionId, null)] ?? ''}
+                  disabled={!isOpen}
+                  onChange={(value) => updateAnswer(responseKey(currentQuestion.selectionId, null), value)}
+                />
+              ) : (
+                <div className="space-y-6">
+                  {currentQuestion.parts.map((part) => {
+                    const key = responseKey(currentQuestion.selectionId, part.subQuestionId);
+                    return (
+                      <div
+                        key={part.subQuestionId}
+                        className={cn('space-y-3', (part.level ?? 1) > 1 && 'ml-6')}
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <p className="text-sm text-gray-900 dark:text-gray-100 whitespace-pre-line">
+                            {part.label && <span className="font-semibold mr-2">({part.label})</span>}
+                            {part.prompt}
+                          </p>
+                          {part.marks !== null && (
+                            <span className="shrink-0 text-xs font-semibold text-gray-500">[{part.marks}]</span>
+                          )}
+                        </div>
+                        <AnswerInput
+                          id={key}
+                          options={part.options}
+                          questionType={part.questionType}
+                          value={answers[key] ?? ''}
+                          disabled={!isOpen}
+                          onChange={(value) => updateAnswer(key, value)}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between pt-4 border-t border-gray-100 dark:border-gray-800">
+                <button
+                  type="button"
+                  onClick={() => goToQuestion(currentIndex - 1)}
+                  disabled={currentIndex === 0}
+                  className="inline-flex items-center gap-1 text-sm font-medium text-gray-600 dark:text-gray-300 disabled:opacity-40"
+                >
+                  <ChevronLeft className="w-4 h-4" /> Previous
+                </button>
+                <button
+                  type="button"
+                  onClick={() => goToQuestion(currentIndex + 1)}
+                  disabled={currentIndex >= questions.length - 1}
+                  className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-40"
+                >
+                  Next <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MockExamPlayer;
@@ -0,0 +1,173 @@
+import { useMemo } from 'react';
+import dayjs from 'dayjs';
+import { Award, Loader2, TrendingDown, TrendingUp, Users } from 'lucide-react';
+import { useMockExamReport } from '@/hooks/useMockExams';
+import { summariseReportTopics } from '@/services/mockExamResultsService';
+import { cn } from '@/lib/utils';
+
+interface MockExamReportProps {
+  examId: string;
+  studentId: string;
+}
+
+const percentOf = (value: number, max: number) => (max > 0 ? Math.round((value / max) * 100) : 0);
+
+/**
+ * Score report for one student: overall result and grade, position in the
+ * cohort, topic strengths and weaknesses, and marks per question.
+ */
+export function MockExamReport({ examId, studentId }: MockExamReportProps) {
+  const reportQuery = useMockExamReport(examId, studentId);
+
+  const topics = useMemo(
+    () => (reportQuery.data ? summariseReportTopics(reportQuery.data.items) : { strongAreas: [], weakAreas: [] }),
+    [reportQuery.data]
+  );
+
+  if (reportQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (reportQuery.isError || !reportQuery.data) {
+    return <p className="text-sm text-red-600">{(reportQuery.error as Error | null)?.message ?? 'Report unavailable'}</p>;
+  }
+
+  const { exam, result, cohort, items } = reportQuery.data;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{exam.title}</h2>
+        <p className="text-sm text-gray-500">
+          {[exam.subject, exam.paperType, exam.scheduledDate && dayjs(exam.scheduledDate).format('D MMM YYYY')]
+            .filter(Boolean)
+            .join(' · ')}
+        </p>
+        {!result.publishedAt && (
+          <p className="mt-2 text-xs font-medium text-amber-700 dark:text-amber-300">
+            Preview — these results have not been released yet.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+          <p className="text-xs uppercase tracking-wide text-gray-500">Score</p>
+          <p className="text-2xl font-semibold text-gray-900 dark:text-white">
+            {result.totalMarksScored} / {result.totalMarksPossible}
+          </p>
+          <p className="text-sm text-gray-500">{result.percentageScore ?? 0}%</p>
+        </div>
+        <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+          <p className="text-xs uppercase tracking-wide text-gray-500 flex items-center gap-1">
+            <Award className="w-3.5 h-3.5" /> Grade
+          </p>
+          <p className="text-2xl font-semibold text-gray-900 dark:text-white">{result.predictedGrade ?? '—'}</p>
+          {result.marksToNextGrade !== null && result.marksToNextGrade > 0 && (
+            <p className="text-sm text-gray-500">{result.marksToNextGrade} marks to the next grade</p>
+          )}
+        </div>
+        <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+          <p className="text-xs uppercase tracking-wide text-gray-500 flex items-center gap-1">
+            <Users className="w-3.5 h-3.5" /> Cohort
+          </p>
+          <p className="text-2xl font-semibold text-gray-900 dark:text-white">
+            {cohort.rank} <span className="text-base font-normal text-gray-500">of {cohort.size}</span>
+          </p>
+          {cohort.averagePercentage !== null && (
+            <p className="text-sm text-gray-500">Cohort average {cohort.averagePercentage}%</p>
+          )}
+        </div>
+      </div>
+
+      {(topics.strongAreas.length > 0 || topics.weakAreas.length > 0) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="rounded-xl border border-emerald-200 dark:border-emerald-900/50 p-4">
+            <h3 className="text-sm font-semibold text-emerald-700 dark:text-emerald-300 flex items-center gap-1 mb-2">
+              <TrendingUp className="w-4 h-4" /> Strengths
+            </h3>
+            {topics.strongAreas.length ? (
+              <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                {topics.strongAreas.map((area) => (
+                  <li key={area.id ?? area.name} className="flex justify-between gap-2">
+                    <span>{area.name}</span>
+                    <span className="text-gray-500">{Math.round(area.accuracy * 100)}%</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No topic above 80% yet.</p>
+            )}
+          </div>
+          <div className="rounded-xl border border-amber-200 dark:border-amber-900/50 p-4">
+            <h3 className="text-sm font-semibold text-amber-700 dark:text-amber-300 flex items-center gap-1 mb-2">
+              <TrendingDown className="w-4 h-4" /> Areas to work on
+            </h3>
+            {topics.weakAreas.length ? (
+              <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                {topics.weakAreas.map((area) => (
+                  <li key={area.id ?? area.name} className="flex justify-between gap-2">
+                    <span>{area.name}</span>
+                    <span className="text-gray-500">
+                      {Math.round(area.accuracy * 100)}% · {area.improvementPotential} marks to gain
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No topic below 70%.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-xl border border-gray-200 dark:border-gray-700">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-900/40">
+            <tr className="text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+              <th className="px-4 py-2">Question</th>
+              <th className="px-4 py-2">Topic</th>
+              <th className="px-4 py-2">Marks</th>
+              <th className="px-4 py-2">Feedback</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+            {items.map((item) => {
+              const percent = item.marksAwarded === null ? null : percentOf(item.marksAwarded, item.maxMarks);
+              return (
+                <tr key={`${item.questionSelectionId}:${item.subQuestionId ?? ''}`}>
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{item.label}</td>
+                  <td className="px-4 py-2 text-gray-600 dark:text-gray-400">
+                    {item.topicName ?? '—'}
+                    {item.unitName && <span className="block text-xs text-gray-400">{item.unitName}</span>}
+                  </td>
+                  <td
+                    className={cn(
+                      'px-4 py-2 whitespace-nowrap',
+                      percent === null
+                        ? 'text-gray-400'
+                        : percent >= 80
+                          ? 'text-emerald-600'
+                          : percent < 50
+                            ? 'text-red-600'
+                            : 'text-amber-600'
+                    )}
+                  >
+                    {item.marksAwarded ?? '—'} / {item.maxMarks}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+                    {item.markerComments ?? ''}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Award, Lock, Trophy } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ACHIEVEMENT_ICONS } from '@/lib/constants/achievementIcons';
+import { fetchAchievementGallery } from '@/services/achievementService';
+import type { AchievementProgress } from '@/types/practice';
+
+interface AchievementGalleryProps {
+  studentId: string | null | undefined;
+}
+
+export const AchievementGallery: React.FC<AchievementGalleryProps> = ({ studentId }) => {
+  const galleryQuery = useQuery({
+    queryKey: ['achievement-gallery', studentId],
+    queryFn: () => fetchAchievementGallery(studentId as string),
+    enabled: !!studentId,
+    staleTime: 60 * 1000
+  });
+
+  const achievements = galleryQuery.data ?? [];
+  const earnedCount = achievements.filter((entry) => entry.earnedTiers.length > 0).length;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-3xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Achievements</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {achievements.length > 0
+              ? `${earnedCount} of ${achievements.length} unlocked`
+              : 'Complete practice sessions to start unlocking badges.'}
+          </p>
+        </div>
+        <Trophy className="w-5 h-5 text-amber-500" />
+      </div>
+
+      {galleryQuery.isLoading && studentId && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading achievements…</p>
+      )}
+      {galleryQuery.isError && (
+        <p className="text-sm text-rose-600 dark:text-rose-400">{(galleryQuery.error as Error).message}</p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {achievements.map((entry) => (
+          <AchievementCard key={entry.definition.id} achievement={entry} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const AchievementCard: React.FC<{ achievement: AchievementProgress }> = ({ achievement }) => {
+  const { definition, earnedTiers, nextTier, currentValue, progressToNext } = achievement;
+  const Icon = ACHIEVEMENT_ICONS[definition.icon] ?? Award;
+  const unlocked = earnedTiers.length > 0;
+  const latestTier = unlocked
+    ? definition.tiers.find((tier) => tier.tier === earnedTiers[earnedTiers.length - 1].tier) ?? null
+    : null;
+
+  return (
+    <div
+      className={cn(
+        'flex gap-3 p-4 rounded-2xl border',
+        unlocked
+          ? 'border-amber-200 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/20'
+          : 'border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/40'
+      )}
+    >
+      <div
+        className={cn(
+          'relative flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center',
+          unlocked ? 'bg-amber-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-400'
+        )}
+      >
+        <Icon className="w-5 h-5" />
+        {!unlocked && <Lock className="absolute -bottom-1 -right-1 w-4 h-4 text-gray-500" />}
+      </div>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center justify-between gap-2">
+          <p className="font-semibold text-gray-900 dark:text-gray-100 truncate">{definition.name}</p>
+          {latestTier && definition.tiers.length > 1 && (
+            <span className="text-xs font-medium text-amber-700 dark:text-amber-300">{latestTier.label}</span>
+          )}
+        </div>
+        <p className="text-xs text-gray-600 dark:text-gray-400">{definition.description}</p>
+        {nextTier ? (
+          <div className="mt-2">
+            <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+              <div className="h-full bg-amber-500" style={{ width: `${Math.round(progressToNext * 100)}%` }} />
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {Math.min(currentValue, nextTier.threshold)} / {nextTier.threshold} · next: {nextTier.label}
+            </p>
+          </div>
+        ) : (
+          <p className="mt-2 text-xs font-medium text-emerald-600 dark:text-emerald-400">All tiers unlocked</p>
+        )}
+      </div>
+    </div>
+  );
+};
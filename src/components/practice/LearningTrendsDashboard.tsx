@@ -0,0 +1,305 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import dayjs from 'dayjs';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Activity, Clock, Layers, TrendingDown, TrendingUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { fetchStudentLearningTrends } from '@/services/practice/resultsAnalyticsService';
+import type { MasteryLevel, MasteryStatus, SyllabusHeatmapNode } from '@/services/practice/learningTrends';
+
+interface LearningTrendsDashboardProps {
+  studentId: string | null | undefined;
+}
+
+const LEVEL_LABELS: Record<MasteryLevel, string> = {
+  unit: 'Units',
+  topic: 'Topics',
+  subtopic: 'Subtopics'
+};
+
+const STATUS_STYLES: Record<MasteryStatus, string> = {
+  mastered: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300',
+  progressing: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  needs_work: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+};
+
+function heatColor(mastery: number | null): string {
+  if (mastery === null) return 'bg-gray-100 dark:bg-gray-800 text-gray-400';
+  if (mastery >= 0.8) return 'bg-emerald-500 text-white';
+  if (mastery >= 0.6) return 'bg-lime-400 text-gray-900';
+  if (mastery >= 0.4) return 'bg-amber-400 text-gray-900';
+  return 'bg-red-500 text-white';
+}
+
+function formatMastery(mastery: number | null): string {
+  return mastery === null ? 'Not attempted' : `${Math.round(mastery * 100)}%`;
+}
+
+const HeatmapTile: React.FC<{ node: SyllabusHeatmapNode }> = ({ node }) => (
+  <div className="space-y-1">
+    <div
+      title={`${node.name}: ${formatMastery(node.mastery)}`}
+      className={cn('rounded px-2 py-1 text-xs font-medium truncate', heatColor(node.mastery))}
+    >
+      {node.name} · {formatMastery(node.mastery)}
+    </div>
+    {node.children.length > 0 && (
+      <div className="flex flex-wrap gap-1 pl-2">
+        {node.children.map((child) => (
+          <span
+            key={child.id}
+            title={`${child.name}: ${formatMastery(child.mastery)}`}
+            className={cn('w-4 h-4 rounded-sm', heatColor(child.mastery))}
+          />
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const LearningTrendsDashboard: React.FC<LearningTrendsDashboardProps> = ({ studentId }) => {
+  const [subjectId, setSubjectId] = useState<string | null>(null);
+  const [level, setLevel] = useState<MasteryLevel>('topic');
+
+  const trendsQuery = useQuery({
+    queryKey: ['learning-trends', studentId, subjectId],
+    queryFn: () => fetchStudentLearningTrends(studentId as string, subjectId),
+    enabled: !!studentId
+  });
+
+  if (!studentId) {
+    return null;
+  }
+
+  if (trendsQuery.isLoading) {
+    return <p className="text-sm text-gray-500">Loading learning analytics…</p>;
+  }
+
+  if (trendsQuery.isError) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{(trendsQuery.error as Error).message}</p>;
+  }
+
+  const { subjects, subjectId: activeSubjectId, trends } = trendsQuery.data!;
+  const trajectory = trends.gradeTrajectory;
+  const trajectoryData = trajectory.points.map((point) => ({
+    date: dayjs(point.date).format('D MMM'),
+    percentage: point.percentage,
+    grade: point.grade
+  }));
+  const difficultyData = trends.difficultyProgression.map((point) => ({
+    date: dayjs(point.date).format('D MMM'),
+    easy: point.easy === null ? null : Math.round(point.easy * 100),
+    medium: point.medium === null ? null : Math.round(point.medium * 100),
+    hard: point.hard === null ? null : Math.round(point.hard * 100)
+  }));
+  const timeData = trends.timeOnTask.map((week) => ({
+    week: dayjs(week.weekStart).format('D MMM'),
+    minutes: Math.round(week.totalTimeSeconds / 60),
+    sessions: week.sessions
+  }));
+  const totalMinutes = Math.round(trends.timeOnTask.reduce((sum, week) => sum + week.totalTimeSeconds, 0) / 60);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <Activity className="w-5 h-5 text-[#8CC63F]" /> Learning trends
+          </h3>
+          <p className="text-sm text-gray-500">
+            {trends.sessionCount} analysed session{trends.sessionCount === 1 ? '' : 's'}
+          </p>
+        </div>
+        {subjects.length > 0 && (
+          <select
+            value={activeSubjectId ?? ''}
+            onChange={(event) => setSubjectId(event.target.value || null)}
+            className="px-3 py-2 text-sm border rounded-lg dark:bg-gray-800 dark:text-white dark:border-gray-700"
+          >
+            {subjects.map((subject) => (
+              <option key={subject.id} value={subject.id}>
+                {subject.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {trends.sessionCount === 0 ? (
+        <p className="text-sm text-gray-500">No analysed practice sessions yet.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <p className="text-xs text-gray-500">Predicted grade</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{trajectory.latestGrade ?? '—'}</p>
+            </div>
+            <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <p className="text-xs text-gray-500">Trend per session</p>
+              <p
+                className={cn(
+                  'text-2xl font-bold flex items-center gap-1',
+                  trajectory.slopePerSession >= 0 ? 'text-emerald-600' : 'text-red-600'
+                )}
+              >
+                {trajectory.slopePerSession >= 0 ? <TrendingUp className="w-5 h-5" /> : <TrendingDown className="w-5 h-5" />}
+                {trajectory.slopePerSession >= 0 ? '+' : ''}
+                {trajectory.slopePerSession.toFixed(1)}%
+              </p>
+            </div>
+            <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <p className="text-xs text-gray-500">Projected score</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                {trajectory.projectedPercentage === null ? '—' : `${trajectory.projectedPercentage}%`}
+              </p>
+            </div>
+            <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <p className="text-xs text-gray-500 flex items-center gap-1">
+                <Clock className="w-3 h-3" /> Time on task
+              </p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{totalMinutes} min</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Score and predicted grade</h4>
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={trajectoryData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" fontSize={11} />
+                  <YAxis domain={[0, 100]} fontSize={11} unit="%" />
+                  <Tooltip formatter={(value: number, _name, item) => [`${value}% (grade ${item.payload.grade ?? '—'})`, 'Score']} />
+                  <Line type="monotone" dataKey="percentage" stroke="#8CC63F" strokeWidth={2} dot />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Accuracy by difficulty</h4>
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={difficultyData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" fontSize={11} />
+                  <YAxis domain={[0, 100]} fontSize={11} unit="%" />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="easy" name="Easy" stroke="#10b981" connectNulls />
+                  <Line type="monotone" dataKey="medium" name="Medium" stroke="#f59e0b" connectNulls />
+                  <Line type="monotone" dataKey="hard" name="Hard" stroke="#ef4444" connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Weekly time on task</h4>
+              <ResponsiveContainer width="100%" height={220}>
+                <BarChart data={timeData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="week" fontSize={11} />
+                  <YAxis fontSize={11} unit=" min" />
+                  <Tooltip />
+                  <Bar dataKey="minutes" name="Minutes" fill="#8CC63F" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Mastery over time</h4>
+                <div className="flex gap-1">
+                  {(Object.keys(LEVEL_LABELS) as MasteryLevel[]).map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setLevel(option)}
+                      className={cn(
+                        'px-2 py-1 text-xs rounded',
+                        level === option
+                          ? 'bg-[#8CC63F] text-white'
+                          : 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300'
+                      )}
+                    >
+                      {LEVEL_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <ul className="space-y-2 max-h-56 overflow-y-auto">
+                {trends.masteryTrends[level].map((trend) => (
+                  <li key={trend.id ?? 'unassigned'} className="flex items-center gap-3 text-sm">
+                    <span className="flex-1 truncate text-gray-800 dark:text-gray-200" title={trend.name}>
+                      {trend.name}
+                    </span>
+                    <span className="flex items-end gap-0.5 h-5" title="Accuracy per session">
+                      {trend.points.slice(-8).map((point) => (
+                        <span
+                          key={point.sessionId}
+                          className="w-1.5 bg-[#8CC63F]/70 rounded-sm"
+                          style={{ height: `${Math.max(10, point.accuracy * 100)}%` }}
+                        />
+                      ))}
+                    </span>
+                    <span
+                      className={cn(
+                        'w-12 text-right text-xs',
+                        trend.change > 0 ? 'text-emerald-600' : trend.change < 0 ? 'text-red-600' : 'text-gray-500'
+                      )}
+                    >
+                      {trend.change > 0 ? '+' : ''}
+                      {Math.round(trend.change * 100)}%
+                    </span>
+                    <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', STATUS_STYLES[trend.status])}>
+                      {Math.round(trend.mastery * 100)}%
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+              <Layers className="w-4 h-4" /> Syllabus heatmap
+            </h4>
+            <p className="text-xs text-gray-500 mb-4">
+              Topics with their subtopics as small squares. Grey areas have not been practised yet.
+            </p>
+            {trends.heatmap.length === 0 ? (
+              <p className="text-sm text-gray-500">No syllabus found for this subject.</p>
+            ) : (
+              <div className="space-y-4">
+                {trends.heatmap.map((unit) => (
+                  <div key={unit.id}>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium text-gray-800 dark:text-gray-200">{unit.name}</span>
+                      <span className={cn('px-2 py-0.5 rounded text-xs', heatColor(unit.mastery))}>
+                        {formatMastery(unit.mastery)}
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
+                      {unit.children.map((topic) => (
+                        <HeatmapTile key={topic.id} node={topic} />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -25,14 +25,19 @@ import { cn } from '@/lib/utils';
 import type { ComprehensiveAnalytics } from '@/services/practice/resultsAnalyticsService';
 import { computeComprehensiveAnalytics, getStoredAnalytics } from '@/services/practice/resultsAnalyticsService';
 import { QuestionsReviewTab, InsightsRecommendationsTab } from './ResultsDetailedComponents';
+import type { PracticeReportOverview } from '@/types/practice';
 
 interface PracticeResultsAnalyticsProps {
   sessionId: string;
+  report?: PracticeReportOverview | null;
+  onFlagAnswer?: (answerId: string, comment: string) => Promise<void>;
   onClose: () => void;
 }
 
 export const PracticeResultsAnalytics: React.FC<PracticeResultsAnalyticsProps> = ({
   sessionId,
+  report,
+  onFlagAnswer,
   onClose
 }) => {
   const [analytics, setAnalytics] = useState<ComprehensiveAnalytics | null>(null);
@@ -160,7 +165,9 @@ export const PracticeResultsAnalytics: React.FC<PracticeResultsAnalyticsProps> =
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {activeTab === 'overview' && <OverviewTab analytics={analytics} />}
         {activeTab === 'breakdown' && <BreakdownTab analytics={analytics} />}
-        {activeTab === 'questions' && <QuestionsTab analytics={analytics} />}
+        {activeTab === 'questions' && (
+          <QuestionsReviewTab analytics={analytics} answerReviews={report?.answers} onFlagAnswer={onFlagAnswer} />
+        )}
         {activeTab === 'insights' && <InsightsTab analytics={analytics} />}
       </div>
     </div>
@@ -176,12 +183,29 @@ const OverviewTab: React.FC<TabProps> = ({ analytics }) => {
   const { summary, previousAttempt } = analytics;
 
   const getGradeColor = (grade: string) => {
+    if (/^[1-9]$/.test(grade)) {
+      const numeric = Number(grade);
+      if (numeric >= 7) return 'text-green-600 dark:text-green-400';
+      if (numeric >= 5) return 'text-blue-600 dark:text-blue-400';
+      if (numeric >= 3) return 'text-orange-600 dark:text-orange-400';
+      return 'text-red-600 dark:text-red-400';
+    }
     if (['A*', 'A'].includes(grade)) return 'text-green-600 dark:text-green-400';
     if (['B', 'C'].includes(grade)) return 'text-blue-600 dark:text-blue-400';
     if (['D', 'E'].includes(grade)) return 'text-orange-600 dark:text-orange-400';
     return 'text-red-600 dark:text-red-400';
   };
 
+  const gradeDetails = summary.gradeDetails;
+  const gradeSubtitle = [
+    gradeDetails?.tableLabel ?? 'Estimated from percentage',
+    gradeDetails?.nextGrade && gradeDetails.marksToNextGrade !== null
+      ? `${gradeDetails.marksToNextGrade} more mark${gradeDetails.marksToNextGrade === 1 ? '' : 's'} for ${gradeDetails.nextGrade}`
+      : null
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
   return (
     <div className="space-y-6">
       {/* Hero Stats */}
@@ -211,7 +235,7 @@ const OverviewTab: React.FC<TabProps> = ({ analytics }) => {
           icon={<Trophy className="h-6 w-6" />}
           label="Grade Prediction"
           value={summary.gradePrediction}
-          subtitle="IGCSE Grade Boundary"
+          subtitle={gradeSubtitle}
           color="amber"
           valueClassName={getGradeColor(summary.gradePrediction)}
         />
@@ -462,11 +486,6 @@ const BreakdownTab: React.FC<TabProps> = ({ analytics }) => {
   );
 };
 
-// Questions Tab Component
-const QuestionsTab: React.FC<TabProps> = ({ analytics }) => {
-  return <QuestionsReviewTab analytics={analytics} />;
-};
-
 // Insights Tab Component
 const InsightsTab: React.FC<TabProps> = ({ analytics }) => {
   return <InsightsRecommendationsTab analytics={analytics} />;
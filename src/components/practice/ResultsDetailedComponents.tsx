@@ -12,17 +12,21 @@ import {
   PlayCircle,
   FileText,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Flag
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { ComprehensiveAnalytics, QuestionDetailedReview, StudyRecommendation } from '@/services/practice/resultsAnalyticsService';
+import type { PracticeAnswerReview } from '@/types/practice';
 
 // Questions Tab Component
 interface QuestionsTabProps {
   analytics: ComprehensiveAnalytics;
+  answerReviews?: PracticeAnswerReview[];
+  onFlagAnswer?: (answerId: string, comment: string) => Promise<void>;
 }
 
-export const QuestionsReviewTab: React.FC<QuestionsTabProps> = ({ analytics }) => {
+export const QuestionsReviewTab: React.FC<QuestionsTabProps> = ({ analytics, answerReviews, onFlagAnswer }) => {
   const [filter, setFilter] = useState<'all' | 'correct' | 'incorrect' | 'partial'>('all');
   const [expandedQuestion, setExpandedQuestion] = useState<string | null>(null);
 
@@ -70,6 +74,8 @@ export const QuestionsReviewTab: React.FC<QuestionsTabProps> = ({ analytics }) =
           <QuestionReviewCard
             key={question.questionId}
             question={question}
+            review={answerReviews?.find((entry) => entry.answer.question_id === question.questionId)}
+            onFlagAnswer={onFlagAnswer}
             expanded={expandedQuestion === question.questionId}
             onToggle={() =>
               setExpandedQuestion(
@@ -228,12 +234,16 @@ export const InsightsRecommendationsTab: React.FC<InsightsTabProps> = ({ analyti
 // Question Review Card Component
 interface QuestionReviewCardProps {
   question: QuestionDetailedReview;
+  review?: PracticeAnswerReview;
+  onFlagAnswer?: (answerId: string, comment: string) => Promise<void>;
   expanded: boolean;
   onToggle: () => void;
 }
 
 const QuestionReviewCard: React.FC<QuestionReviewCardProps> = ({
   question,
+  review,
+  onFlagAnswer,
   expanded,
   onToggle
 }) => {
@@ -339,6 +349,8 @@ const QuestionReviewCard: React.FC<QuestionReviewCardProps> = ({
             </div>
           )}
 
+          {review && onFlagAnswer && <FlagForReviewPanel review={review} onFlagAnswer={onFlagAnswer} />}
+
           {/* Curriculum Links */}
           <div className="flex flex-wrap gap-2 pt-2 border-t border-gray-200 dark:border-gray-700">
             <span className="text-xs px-2 py-1 rounded bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300">
@@ -359,6 +371,102 @@ const QuestionReviewCard: React.FC<QuestionReviewCardProps> = ({
   );
 };
 
+// Flag For Review Panel Component
+interface FlagForReviewPanelProps {
+  review: PracticeAnswerReview;
+  onFlagAnswer: (answerId: string, comment: string) => Promise<void>;
+}
+
+const FlagForReviewPanel: React.FC<FlagForReviewPanelProps> = ({ review, onFlagAnswer }) => {
+  const [open, setOpen] = useState(false);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const flag = review.flag;
+
+  if (flag?.status === 'pending') {
+    return (
+      <div className="flex items-center gap-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 p-3 text-sm text-amber-800 dark:text-amber-200">
+        <Flag className="h-4 w-4" />
+        Flagged for teacher review on {new Date(flag.flagged_at).toLocaleDateString()}
+      </div>
+    );
+  }
+
+  if (flag) {
+    return (
+      <div className="rounded-lg bg-gray-50 dark:bg-gray-900/40 p-3 text-sm text-gray-700 dark:text-gray-300 space-y-1">
+        <p className="font-medium flex items-center gap-2">
+          <Flag className="h-4 w-4" />
+          {flag.status === 'resolved'
+            ? `Re-marked by your teacher: ${flag.marks_before ?? 0} → ${flag.marks_after ?? 0} marks`
+            : 'Your teacher reviewed this answer and kept the original mark'}
+        </p>
+        {flag.teacher_comment && <p className="text-gray-600 dark:text-gray-400">“{flag.teacher_comment}”</p>}
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="inline-flex items-center gap-2 text-sm font-medium text-amber-700 dark:text-amber-300 hover:underline"
+      >
+        <Flag className="h-4 w-4" />
+        Think this was marked wrongly? Ask your teacher to review it
+      </button>
+    );
+  }
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onFlagAnswer(review.answer.id, comment);
+      setOpen(false);
+      setComment('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to flag this answer');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-amber-200 dark:border-amber-800 p-3 space-y-2">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Why do you think this answer deserves more marks?
+      </label>
+      <textarea
+        value={comment}
+        onChange={(event) => setComment(event.target.value)}
+        rows={3}
+        className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 p-2 text-sm"
+      />
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={submitting}
+          className="px-3 py-1.5 text-sm rounded-md bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+        >
+          {submitting ? 'Sending…' : 'Send for review'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
 // Recommendation Card Component
 interface RecommendationCardProps {
   recommendation: StudyRecommendation;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import dayjs from 'dayjs';
+import { Flame, Snowflake } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { fetchStreakOverview, purchaseStreakFreeze } from '@/services/gamificationService';
+import { MAX_STREAK_FREEZES, STREAK_FREEZE_COST_XP } from '@/services/practice/streakCalendar';
+import type { GamificationProgress, StreakCalendarDay } from '@/types/practice';
+
+interface StreakCalendarProps {
+  studentId: string | null | undefined;
+  /** Students can buy freezes for themselves; teachers only view */
+  allowPurchase?: boolean;
+}
+
+const DAY_STYLES: Record<StreakCalendarDay['status'], string> = {
+  active: 'bg-emerald-500 text-white',
+  frozen: 'bg-sky-400 text-white',
+  missed: 'bg-gray-100 dark:bg-gray-800 text-gray-400'
+};
+
+export const StreakCalendar: React.FC<StreakCalendarProps> = ({ studentId, allowPurchase = false }) => {
+  const queryClient = useQueryClient();
+  const overviewQuery = useQuery({
+    queryKey: ['streak-overview', studentId],
+    queryFn: () => fetchStreakOverview(studentId as string),
+    enabled: !!studentId
+  });
+
+  const purchaseMutation = useMutation<GamificationProgress, Error, void>(() => purchaseStreakFreeze(studentId as string), {
+    onSuccess: async () => {
+      await queryClient.invalidateQueries(['streak-overview', studentId]);
+      await queryClient.invalidateQueries(['practice-gamification', studentId]);
+    }
+  });
+
+  const overview = overviewQuery.data;
+  if (!studentId || !overview) {
+    return null;
+  }
+
+  // Pad the first week so columns line up with weekdays
+  const leadingBlanks = overview.days.length ? dayjs(overview.days[0].date).day() : 0;
+  const canBuy =
+    overview.freezesAvailable < MAX_STREAK_FREEZES && overview.spendableXp >= STREAK_FREEZE_COST_XP;
+
+  return (
+    <div className="bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-gray-700 rounded-2xl p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Flame className="w-5 h-5 text-orange-500" /> {overview.currentStreak}-day streak
+        </h3>
+        <span className="text-xs text-gray-500">Best: {overview.longestStreak}</span>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-[10px] text-center">
+        {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((label, index) => (
+          <span key={`${label}-${index}`} className="text-gray-400">
+            {label}
+          </span>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, index) => (
+          <span key={`blank-${index}`} />
+        ))}
+        {overview.days.map((day) => (
+          <span
+            key={day.date}
+            title={`${dayjs(day.date).format('D MMM')}: ${
+              day.status === 'active'
+                ? `${day.sessionsCompleted} session${day.sessionsCompleted === 1 ? '' : 's'}, ${day.xpEarned} XP`
+                : day.status === 'frozen'
+                  ? 'streak freeze used'
+                  : 'no practice'
+            }`}
+            className={cn(
+              'aspect-square rounded flex items-center justify-center',
+              DAY_STYLES[day.status],
+              day.date === overview.today && 'ring-2 ring-offset-1 ring-orange-400 dark:ring-offset-gray-900'
+            )}
+          >
+            {dayjs(day.date).date()}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-1 text-sky-600 dark:text-sky-400">
+          <Snowflake className="w-4 h-4" /> {overview.freezesAvailable}/{MAX_STREAK_FREEZES} freezes
+        </span>
+        {allowPurchase && (
+          <button
+            type="button"
+            onClick={() => purchaseMutation.mutate()}
+            disabled={!canBuy || purchaseMutation.isLoading}
+            className="px-3 py-1 rounded-lg border border-sky-500/40 text-sky-600 dark:text-sky-300 text-xs font-medium disabled:opacity-50"
+          >
+            Buy for {STREAK_FREEZE_COST_XP} XP
+          </button>
+        )}
+      </div>
+      {purchaseMutation.isError && (
+        <p className="text-xs text-rose-600 dark:text-rose-400">{purchaseMutation.error.message}</p>
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Any finished session keeps your streak. Freezes cover missed days automatically. Days follow your school's
+        timezone ({overview.timezone}).
+      </p>
+    </div>
+  );
+};
@@ -61,6 +61,8 @@ import {
   type TableTemplate
 } from '@/components/answer-formats';
 import { type TableTemplateDTO, type TableCellDTO } from '@/services/TableTemplateService';
+import { type RequiredAnswerForm } from '@/types/questions';
+import { parseCodeMarkingScheme } from '@/services/practice/codeTesting';
 
 // Type definitions
 interface CorrectAnswer {
@@ -78,6 +80,7 @@ interface CorrectAnswer {
   measurement_details?: Record<string, unknown> | null;
   accepts_equivalent_phrasing?: boolean;
   error_carried_forward?: boolean;
+  required_form?: RequiredAnswerForm | null;
   accepts_reverse_argument?: boolean;
   answer_requirement?: string;
   total_alternatives?: number;
@@ -299,6 +302,14 @@ const DynamicAnswerField: React.FC<AnswerFieldProps> = ({
   const [tableCreatorData, setTableCreatorData] = useState<TableCreatorData | null>(null);
   const [chemicalStructureData, setChemicalStructureData] = useState<ChemicalStructureData | null>(null);
 
+  // Test cases for code questions live in the correct answer as JSON
+  const codeScheme = useMemo(
+    () => question.correct_answers?.map((answer) => parseCodeMarkingScheme(answer.answer)).find(Boolean) ?? null,
+    [question.correct_answers]
+  );
+  const codeLanguage = codeScheme?.language ?? (question.subject?.toLowerCase().includes('python') ? 'python' : 'javascript');
+  const visibleTestCases = useMemo(() => codeScheme?.tests.filter((test) => !test.hidden), [codeScheme]);
+
   // Admin mode states
   const [adminCorrectAnswers, setAdminCorrectAnswers] = useState<CorrectAnswer[]>(() => question.correct_answers || []);
   const [editingAnswerIndex, setEditingAnswerIndex] = useState<number | null>(null);
@@ -396,6 +407,14 @@ const DynamicAnswerField: React.FC<AnswerFieldProps> = ({
       );
     }
 
+    if (answer.required_form) {
+      badges.push(
+        <span key="form" className="px-2 py-0.5 bg-indigo-100 dark:bg-indigo-900/60 text-indigo-700 dark:text-indigo-300 rounded-full text-xs font-medium">
+          {answer.required_form === 'simplest_surd' ? 'Simplest surd' : answer.required_form === 'factorised' ? 'Factorised' : 'Expanded'}
+        </span>
+      );
+    }
+
     if (answer.marking_flags?.accepts_mathematical_notation) {
       badges.push(
         <span key="math" className="px-2 py-0.5 bg-indigo-100 dark:bg-indigo-900/60 text-indigo-700 dark:text-indigo-300 rounded-full text-xs font-medium">
@@ -710,6 +729,27 @@ const DynamicAnswerField: React.FC<AnswerFieldProps> = ({
                       </div>
                     )}
                     
+                    {/* Required algebraic form for mathematics answers */}
+                    {(question.subject?.toLowerCase().includes('math') ||
+                      question.answer_format === 'equation' ||
+                      question.answer_format === 'calculation') && (
+                      <div className="flex items-center gap-2">
+                        <label className="text-xs text-gray-600 dark:text-gray-400">
+                          Form:
+                        </label>
+                        <select
+                          value={answer.required_form || ''}
+                          onChange={(e) => handleUpdateCorrectAnswer(index, 'required_form', (e.target.value || null) as RequiredAnswerForm | null)}
+                          className="px-2 py-1 text-sm border rounded dark:bg-gray-800"
+                        >
+                          <option value="">Any equivalent</option>
+                          <option value="factorised">Factorised</option>
+                          <option value="expanded">Expanded</option>
+                          <option value="simplest_surd">Simplest surd</option>
+                        </select>
+                      </div>
+                    )}
+
                     {/* Context for special cases */}
                     {(question.subject?.toLowerCase().includes('physics') || 
                       question.subject?.toLowerCase().includes('chemistry')) && (
@@ -888,7 +928,7 @@ const DynamicAnswerField: React.FC<AnswerFieldProps> = ({
       return (
         <CodeEditor
           questionId={question.id}
-          language={question.subject?.toLowerCase().includes('python') ? 'python' : 'javascript'}
+          language={codeLanguage}
           value={value || ''}
           onChange={(code) => onChange(code)}
           disabled={disabled && !isEditing}
@@ -2168,7 +2208,7 @@ const DynamicAnswerField: React.FC<AnswerFieldProps> = ({
         <div>
           <CodeEditor
             questionId={question.id}
-            language={question.subject?.toLowerCase().includes('python') ? 'python' : 'javascript'}
+            language={codeLanguage}
             value={codeValue || textAnswers.main || ''}
             onChange={(code) => {
               setCodeValue(code);
@@ -2179,8 +2219,11 @@ const DynamicAnswerField: React.FC<AnswerFieldProps> = ({
               performValidation(code);
             }}
             disabled={disabled}
-            showCorrectAnswer={showCorrectAnswer}
+            showCorrectAnswer={showCorrectAnswer && !codeScheme}
             correctAnswer={question.correct_answer}
+            testCases={mode === 'exam' ? undefined : visibleTestCases}
+            timeLimitMs={codeScheme?.timeLimitMs}
+            memoryLimitMb={codeScheme?.memoryLimitMb}
           />
           {renderCorrectAnswers()}
         </div>
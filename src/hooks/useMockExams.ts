@@ -1,5 +1,10 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { MockExamService } from '../services/mockExamService';
+import { MockExamMarkingService } from '../services/mockExamMarkingService';
+import type { MarkEntry, MarkerAllocation } from '../services/mockExamMarkingService';
+import { MockExamModerationService } from '../services/mockExamModerationService';
+import type { ModerationMarkEntry } from '../services/mockExamModerationService';
+import { MockExamResultsService } from '../services/mockExamResultsService';
 import { supabase } from '../lib/supabase';
 import type {
   MockExam,
@@ -204,6 +209,179 @@ export function useMockExamStatusTransition() {
   });
 }
 
+export function useAssignGradeBoundaryTable() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ examId, tableId }: { examId: string; tableId: string | null }) => {
+      return MockExamService.setGradeBoundaryTable(examId, tableId);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['mockExam', variables.examId] });
+      queryClient.invalidateQueries({ queryKey: ['mockExamResults', variables.examId] });
+    },
+  });
+}
+
+export function useMockExamMarking(examId?: string) {
+  return useQuery({
+    queryKey: ['mockExamMarking', examId],
+    queryFn: async () => {
+      if (!examId) return null;
+      return MockExamMarkingService.getMarkingContext(examId);
+    },
+    enabled: !!examId,
+    staleTime: 30000,
+  });
+}
+
+export function useSaveMockExamMarks() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ examId, marks }: { examId: string; marks: MarkEntry[] }) => {
+      return MockExamMarkingService.saveMarks(examId, marks);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['mockExamMarking', variables.examId] });
+      queryClient.invalidateQueries({ queryKey: ['mockExamResults', variables.examId] });
+    },
+  });
+}
+
+export function useAutoMarkMockExam() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (examId: string) => {
+      return MockExamMarkingService.autoMark(examId);
+    },
+    onSuccess: (_data, examId) => {
+      queryClient.invalidateQueries({ queryKey: ['mockExamMarking', examId] });
+      queryClient.invalidateQueries({ queryKey: ['mockExamResults', examId] });
+    },
+  });
+}
+
+export function useSaveMarkerAllocations() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ examId, allocations }: { examId: string; allocations: MarkerAllocation[] }) => {
+      return MockExamMarkingService.saveAllocations(examId, allocations);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['mockExamMarking', variables.examId] });
+    },
+  });
+}
+
+export function useMockExamModeration(examId?: string) {
+  return useQuery({
+    queryKey: ['mockExamModeration', examId],
+    queryFn: async () => {
+      if (!examId) return null;
+      const [samples, scaling] = await Promise.all([
+        MockExamModerationService.getSamples(examId),
+        MockExamModerationService.getScaling(examId),
+      ]);
+      return { samples, scaling };
+    },
+    enabled: !!examId,
+    staleTime: 30000,
+  });
+}
+
+export function useModerationScript(sampleId?: string) {
+  return useQuery({
+    queryKey: ['mockExamModerationScript', sampleId],
+    queryFn: async () => {
+      if (!sampleId) return null;
+      return MockExamModerationService.getScript(sampleId);
+    },
+    enabled: !!sampleId,
+  });
+}
+
+export function useDrawModerationSample() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ examId, rate }: { examId: string; rate: number }) => {
+      return MockExamModerationService.drawSample(examId, rate);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['mockExamModeration', variables.examId] });
+    },
+  });
+}
+
+export function useRemoveModerationSample() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sampleId }: { examId: string; sampleId: string }) => {
+      return MockExamModerationService.removeSample(sampleId);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['mockExamModeration', variables.examId] });
+    },
+  });
+}
+
+export function useSaveModeration() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sampleId, marks, notes }: { examId: string; sampleId: string; marks: ModerationMarkEntry[]; notes: string }) => {
+      return MockExamModerationService.saveModeration(sampleId, marks, notes);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['mockExamModeration', variables.examId] });
+      queryClient.invalidateQueries({ queryKey: ['mockExamModerationScript', variables.sampleId] });
+    },
+  });
+}
+
+export function useApplyMarkerScaling() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ examId, markerId, factor }: { examId: string; markerId: string; factor: number }) => {
+      return MockExamModerationService.applyScaling(examId, markerId, factor);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['mockExamModeration', variables.examId] });
+      queryClient.invalidateQueries({ queryKey: ['mockExamMarking', variables.examId] });
+      queryClient.invalidateQueries({ queryKey: ['mockExamResults', variables.examId] });
+    },
+  });
+}
+
+export function useMockExamResultsAnalytics(examId?: string) {
+  return useQuery({
+    queryKey: ['mockExamResults', examId],
+    queryFn: async () => {
+      if (!examId) return null;
+      return MockExamResultsService.getAnalytics(examId);
+    },
+    enabled: !!examId,
+    staleTime: 30000,
+  });
+}
+
+export function useMockExamReport(examId?: string, studentId?: string) {
+  return useQuery({
+    queryKey: ['mockExamReport', examId, studentId],
+    queryFn: async () => {
+      if (!examId || !studentId) return null;
+      return MockExamResultsService.getReport(examId, studentId);
+    },
+    enabled: !!examId && !!studentId,
+    staleTime: 30000,
+  });
+}
+
 export function useStatusHistory(examId?: string) {
   return useQuery({
     queryKey: ['mockExamStatusHistory', examId],
@@ -0,0 +1,14 @@
+import { Award, BookOpen, Compass, Flame, Layers, RotateCcw, Target, Trophy, Zap, type LucideIcon } from 'lucide-react';
+
+// Icon keys stored in achievement_definitions.icon
+export const ACHIEVEMENT_ICONS: Record<string, LucideIcon> = {
+  award: Award,
+  'book-open': BookOpen,
+  compass: Compass,
+  flame: Flame,
+  layers: Layers,
+  refresh: RotateCcw,
+  target: Target,
+  trophy: Trophy,
+  zap: Zap
+};
@@ -85,6 +85,20 @@ export const MODULE_SUBMENUS: SubMenuItem[] = [
             path: '/app/system-admin/learning/practice-management/questions-setup',
             icon: 'ClipboardList',
             moduleKey: 'system-admin'
+          },
+          {
+            id: 'achievements',
+            label: 'Achievements',
+            path: '/app/system-admin/learning/practice-management/achievements',
+            icon: 'Award',
+            moduleKey: 'system-admin'
+          },
+          {
+            id: 'grade-boundaries',
+            label: 'Grade Boundaries',
+            path: '/app/system-admin/learning/practice-management/grade-boundaries',
+            icon: 'Scale',
+            moduleKey: 'system-admin'
           }
         ]
       }
@@ -233,6 +247,20 @@ export const MODULE_SUBMENUS: SubMenuItem[] = [
     icon: 'Calendar',
     moduleKey: 'teachers-module'
   },
+  {
+    id: 'marking-reviews',
+    label: 'Marking Reviews',
+    path: '/app/teachers-module/marking-reviews',
+    icon: 'ClipboardCheck',
+    moduleKey: 'teachers-module'
+  },
+  {
+    id: 'speaking-assessments',
+    label: 'Speaking Assessments',
+    path: '/app/teachers-module/speaking-assessments',
+    icon: 'Mic',
+    moduleKey: 'teachers-module'
+  },
   {
     id: 'teacher-performance',
     label: 'Performance Analytics',
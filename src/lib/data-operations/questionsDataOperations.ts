@@ -1716,6 +1716,7 @@ export const insertSubQuestion = async (
         accepts_equivalent_phrasing: ca.accepts_equivalent_phrasing || false,
         accepts_reverse_argument: ca.accepts_reverse_argument || false,
         error_carried_forward: ca.error_carried_forward || false,
+        required_form: ca.required_form || null,
         acceptable_variations: Array.isArray(ca.acceptable_variations) ? ca.acceptable_variations : [],
         unit: ca.unit || null,
         context_type: ca.context?.type || null,
@@ -2615,6 +2616,7 @@ export const importQuestions = async (params: {
             accepts_equivalent_phrasing: ca.accepts_equivalent_phrasing || false,
             accepts_reverse_argument: ca.accepts_reverse_argument || false,
             error_carried_forward: ca.error_carried_forward || false,
+            required_form: ca.required_form || null,
             acceptable_variations: Array.isArray(ca.acceptable_variations) ? ca.acceptable_variations : [],
             unit: ca.unit || null,
             context_type: ca.context?.type || null,
@@ -3663,6 +3665,7 @@ export const fixIncompleteQuestions = async (
               accepts_equivalent_phrasing: ca.accepts_equivalent_phrasing || false,
               accepts_reverse_argument: ca.accepts_reverse_argument || false,
               error_carried_forward: ca.error_carried_forward || false,
+              required_form: ca.required_form || null,
               acceptable_variations: Array.isArray(ca.acceptable_variations) ? ca.acceptable_variations : [],
               unit: ca.unit || null,
               context_type: ca.context?.type || null,
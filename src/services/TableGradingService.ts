@@ -5,7 +5,13 @@
  * Validates student responses against expected answers
  */
 
-import { TableTemplateService, type TableTemplateDTO } from './TableTemplateService';
+import {
+  TableTemplateService,
+  type TableCellDTO,
+  type TableCellMatchType,
+  type TableGradingRule,
+  type TableTemplateDTO
+} from './TableTemplateService';
 
 export interface GradingResult {
   success: boolean;
@@ -23,8 +29,33 @@ export interface CellFeedback {
   marks: number;
   achievedMarks: number;
   feedback?: string;
+  /** How the answer matched, e.g. within a numeric tolerance */
+  matchType?: TableCellMatchType;
+  /** Grading rule that scored this cell, when not marked cell-by-cell */
+  ruleId?: string;
 }
 
+interface CellOutcome {
+  cell: TableCellDTO;
+  key: string;
+  studentAnswer: string | number;
+  isCorrect: boolean;
+  matchType: TableCellMatchType;
+  /** Expected cell this answer was matched against (differs when order is free) */
+  matchedCell: TableCellDTO;
+  /** Expected values still unclaimed in the column, for order-free columns */
+  remainingExpected?: string[];
+}
+
+interface RuleScore {
+  total: number;
+  achieved: number;
+  feedback: Record<string, CellFeedback>;
+}
+
+const cellKeyOf = (cell: TableCellDTO) => `${cell.rowIndex}-${cell.colIndex}`;
+const roundMarks = (value: number) => Math.round(value * 100) / 100;
+
 export class TableGradingService {
   /**
    * Grade student's table completion answers
@@ -53,51 +84,10 @@ export class TableGradingService {
 
       const template = templateResult.template;
 
-      // 2. Validate answers
-      const validation = TableTemplateService.validateAnswers(studentAnswers, template);
-
-      // 3. Calculate marks
-      let achievedMarks = 0;
-      const totalMarks = template.cells
-        .filter(c => c.cellType === 'editable')
-        .reduce((sum, cell) => sum + (cell.marks || 1), 0);
-
-      const feedback: Record<string, CellFeedback> = {};
-
-      template.cells.forEach(cell => {
-        if (cell.cellType === 'editable') {
-          const cellKey = `${cell.rowIndex}-${cell.colIndex}`;
-          const cellResult = validation.cellResults[cellKey];
-          const cellMarks = cell.marks || 1;
-          const isCorrect = cellResult?.isCorrect || false;
-
-          if (isCorrect) {
-            achievedMarks += cellMarks;
-          }
-
-          feedback[cellKey] = {
-            isCorrect,
-            expectedAnswer: cell.expectedAnswer || '',
-            studentAnswer: cellResult?.studentAnswer || '',
-            marks: cellMarks,
-            achievedMarks: isCorrect ? cellMarks : 0,
-            feedback: isCorrect
-              ? 'Correct!'
-              : cellResult?.studentAnswer
-              ? `Incorrect. Expected: ${cell.expectedAnswer}`
-              : 'No answer provided'
-          };
-        }
-      });
-
-      const percentage = totalMarks > 0 ? (achievedMarks / totalMarks) * 100 : 0;
-
+      // 2. Grade cells, applying the template's grading rules
       return {
         success: true,
-        totalMarks,
-        achievedMarks,
-        percentage: Math.round(percentage * 10) / 10, // Round to 1 decimal place
-        feedback
+        ...this.gradeTemplate(studentAnswers, template)
       };
     } catch (error) {
       console.error('Error grading table completion:', error);
@@ -133,144 +123,287 @@ export class TableGradingService {
   }
 
   /**
-   * Get detailed cell-by-cell feedback
-   */
-  /**
-   * Calculate Levenshtein distance between two strings
-   * (Duplicated from TableTemplateService for encapsulation)
+   * Grade answers against a loaded template. Cells covered by a grading rule
+   * are scored by the first rule that covers them; the rest earn their own
+   * marks cell by cell.
    */
-  private static levenshteinDistance(str1: string, str2: string): number {
-    const len1 = str1.length;
-    const len2 = str2.length;
-    const matrix: number[][] = Array(len1 + 1).fill(null).map(() => Array(len2 + 1).fill(0));
-
-    for (let i = 0; i <= len1; i++) matrix[i][0] = i;
-    for (let j = 0; j <= len2; j++) matrix[0][j] = j;
-
-    for (let i = 1; i <= len1; i++) {
-      for (let j = 1; j <= len2; j++) {
-        const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j - 1] + cost
-        );
-      }
-    }
+  static gradeTemplate(
+    studentAnswers: Record<string, string | number>,
+    template: TableTemplateDTO
+  ): Required<Pick<GradingResult, 'totalMarks' | 'achievedMarks' | 'percentage' | 'feedback'>> {
+    const editableCells = template.cells.filter(c => c.cellType === 'editable');
+    const covered = new Set<string>();
+    const feedback: Record<string, CellFeedback> = {};
+    let totalMarks = 0;
+    let achievedMarks = 0;
+
+    (template.gradingRules || []).forEach(rule => {
+      const cells = editableCells.filter(cell =>
+        !covered.has(cellKeyOf(cell)) &&
+        rule.indices.includes(rule.scope === 'rows' ? cell.rowIndex : cell.colIndex)
+      );
+      if (cells.length === 0) return;
+
+      cells.forEach(cell => covered.add(cellKeyOf(cell)));
+      const score = this.scoreRule(rule, this.matchRuleCells(rule, cells, studentAnswers));
+      totalMarks += score.total;
+      achievedMarks += score.achieved;
+      Object.assign(feedback, score.feedback);
+    });
+
+    editableCells
+      .filter(cell => !covered.has(cellKeyOf(cell)))
+      .forEach(cell => {
+        const key = cellKeyOf(cell);
+        const cellFeedback = this.feedbackForCell(cell, studentAnswers[key] ?? '');
+        totalMarks += cellFeedback.marks;
+        achievedMarks += cellFeedback.achievedMarks;
+        feedback[key] = cellFeedback;
+      });
+
+    const percentage = totalMarks > 0 ? (achievedMarks / totalMarks) * 100 : 0;
 
-    return matrix[len1][len2];
+    return {
+      totalMarks: roundMarks(totalMarks),
+      achievedMarks: roundMarks(achievedMarks),
+      percentage: Math.round(percentage * 10) / 10, // Round to 1 decimal place
+      feedback
+    };
   }
 
   /**
-   * Calculate similarity percentage between two strings
+   * Match each answer in a rule's cells. With `orderIndependent`, answers in
+   * a column may match any expected value in that column, and whole rows may
+   * match any expected row the rule covers.
    */
-  private static calculateSimilarity(str1: string, str2: string): number {
-    if (str1 === str2) return 100;
-    if (!str1 || !str2) return 0;
-
-    const maxLen = Math.max(str1.length, str2.length);
-    if (maxLen === 0) return 100;
+  private static matchRuleCells(
+    rule: TableGradingRule,
+    cells: TableCellDTO[],
+    studentAnswers: Record<string, string | number>
+  ): CellOutcome[] {
+    const answerFor = (cell: TableCellDTO) => studentAnswers[cellKeyOf(cell)] ?? '';
+    const direct = (cell: TableCellDTO, expected: TableCellDTO = cell): CellOutcome => {
+      const { isCorrect, matchType } = TableTemplateService.matchCellAnswer(expected, answerFor(cell));
+      return { cell, key: cellKeyOf(cell), studentAnswer: answerFor(cell), isCorrect, matchType, matchedCell: expected };
+    };
 
-    const distance = this.levenshteinDistance(str1, str2);
-    return ((maxLen - distance) / maxLen) * 100;
-  }
+    if (!rule.orderIndependent) {
+      return cells.map(cell => direct(cell));
+    }
 
-  static getCellFeedback(
-    cellKey: string,
-    studentAnswer: string | number,
-    template: TableTemplateDTO
-  ): CellFeedback | null {
-    const [row, col] = cellKey.split('-').map(Number);
-    const cell = template.cells.find(
-      c => c.rowIndex === row && c.colIndex === col && c.cellType === 'editable'
-    );
+    const groupBy = (pick: (cell: TableCellDTO) => number) => {
+      const groups = new Map<number, TableCellDTO[]>();
+      [...cells]
+        .sort((a, b) => a.rowIndex - b.rowIndex || a.colIndex - b.colIndex)
+        .forEach(cell => groups.set(pick(cell), [...(groups.get(pick(cell)) || []), cell]));
+      return groups;
+    };
 
-    if (!cell) return null;
+    if (rule.scope === 'columns') {
+      const outcomes: CellOutcome[] = [];
+      groupBy(cell => cell.colIndex).forEach(columnCells => {
+        const unused = new Set(columnCells);
+        const results = columnCells.map(cell => {
+          // Prefer the cell's own expected answer, then any other unclaimed one
+          const candidates = [cell, ...columnCells.filter(other => other !== cell)].filter(other => unused.has(other));
+          for (const expected of candidates) {
+            const outcome = direct(cell, expected);
+            if (outcome.isCorrect) {
+              unused.delete(expected);
+              return outcome;
+            }
+          }
+          return null;
+        });
+        results.forEach((result, index) => {
+          outcomes.push(result ?? {
+            ...direct(columnCells[index]),
+            remainingExpected: Array.from(unused).map(expected => expected.expectedAnswer || '')
+          });
+        });
+      });
+      return outcomes;
+    }
 
-    const studentStr = String(studentAnswer).trim();
-    const expectedStr = String(cell.expectedAnswer || '').trim();
+    // Rows in any order: pair each answered row with the unclaimed expected
+    // row it matches best (its own row wins ties)
+    const rows = groupBy(cell => cell.rowIndex);
+    const unusedRows = new Set(rows.keys());
+    const outcomes: CellOutcome[] = [];
 
-    let isCorrect = false;
-    let matchType = '';
+    rows.forEach((rowCells, rowIndex) => {
+      const compare = (expectedRow: number) => rowCells.map(cell => {
+        const expected = rows.get(expectedRow)?.find(other => other.colIndex === cell.colIndex);
+        return expected ? direct(cell, expected) : { ...direct(cell), isCorrect: false, matchType: 'none' as const };
+      });
+      const score = (results: CellOutcome[]) => results.filter(result => result.isCorrect).length;
+
+      let bestRow = unusedRows.has(rowIndex) ? rowIndex : Array.from(unusedRows)[0];
+      let best = bestRow === undefined ? rowCells.map(cell => direct(cell)) : compare(bestRow);
+      unusedRows.forEach(candidate => {
+        const results = compare(candidate);
+        if (score(results) > score(best)) {
+          bestRow = candidate;
+          best = results;
+        }
+      });
 
-    // First try exact match (respecting case sensitivity)
-    if (cell.caseSensitive) {
-      isCorrect = studentStr === expectedStr;
-    } else {
-      isCorrect = studentStr.toLowerCase() === expectedStr.toLowerCase();
-    }
+      if (bestRow !== undefined) unusedRows.delete(bestRow);
+      outcomes.push(...best);
+    });
 
-    if (isCorrect) {
-      matchType = 'exact';
-    }
+    return outcomes;
+  }
 
-    // Check alternative answers if not correct yet
-    if (!isCorrect && cell.alternativeAnswers && cell.alternativeAnswers.length > 0) {
-      isCorrect = cell.alternativeAnswers.some(alt =>
-        cell.caseSensitive
-          ? studentStr === alt.trim()
-          : studentStr.toLowerCase() === alt.trim().toLowerCase()
+  private static scoreRule(rule: TableGradingRule, outcomes: CellOutcome[]): RuleScore {
+    const feedback: Record<string, CellFeedback> = {};
+    const place = rule.scope === 'rows' ? 'row' : 'column';
+    const describe = (outcome: CellOutcome) => {
+      const base = this.describeMatch(
+        outcome.matchedCell,
+        outcome.studentAnswer,
+        outcome.isCorrect,
+        outcome.matchType,
+        outcome.remainingExpected
       );
+      const moved = outcome.isCorrect && outcome.matchedCell !== outcome.cell;
+      return moved ? `${base} (any order accepted within this ${place})` : base;
+    };
+    const record = (outcome: CellOutcome, marks: number, achieved: number, note: string) => {
+      feedback[outcome.key] = {
+        isCorrect: outcome.isCorrect,
+        expectedAnswer: outcome.matchedCell.expectedAnswer || '',
+        studentAnswer: outcome.studentAnswer,
+        marks: roundMarks(marks),
+        achievedMarks: roundMarks(achieved),
+        feedback: note,
+        matchType: outcome.matchType,
+        ruleId: rule.id
+      };
+    };
 
-      if (isCorrect) {
-        matchType = 'alternative';
-      }
-    }
+    if (rule.scoring === 'per_group') {
+      const groups = new Map<number, CellOutcome[]>();
+      outcomes.forEach(outcome => {
+        const index = rule.scope === 'rows' ? outcome.cell.rowIndex : outcome.cell.colIndex;
+        groups.set(index, [...(groups.get(index) || []), outcome]);
+      });
 
-    // If still not correct, try fuzzy matching if enabled
-    if (!isCorrect && cell.acceptsEquivalentPhrasing) {
-      const compareStudent = cell.caseSensitive ? studentStr : studentStr.toLowerCase();
-      const compareExpected = cell.caseSensitive ? expectedStr : expectedStr.toLowerCase();
-
-      // Check similarity with expected answer
-      const similarity = this.calculateSimilarity(compareStudent, compareExpected);
-
-      if (similarity >= 85) {
-        isCorrect = true;
-        matchType = 'fuzzy';
-      } else if (cell.alternativeAnswers && cell.alternativeAnswers.length > 0) {
-        // Also check similarity with alternative answers
-        const fuzzyMatch = cell.alternativeAnswers.some(alt => {
-          const compareAlt = cell.caseSensitive ? alt.trim() : alt.trim().toLowerCase();
-          return this.calculateSimilarity(compareStudent, compareAlt) >= 85;
+      let total = 0;
+      let achieved = 0;
+      groups.forEach((group, index) => {
+        const groupMarks = rule.marksPerGroup ?? group.reduce((sum, outcome) => sum + (outcome.cell.marks || 1), 0);
+        const complete = group.every(outcome => outcome.isCorrect);
+        const label = `${place} ${index + 1}`;
+        total += groupMarks;
+        if (complete) achieved += groupMarks;
+
+        group.forEach(outcome => {
+          const note = complete
+            ? `${describe(outcome)} — ${label} complete (${groupMarks} mark${groupMarks === 1 ? '' : 's'})`
+            : `${describe(outcome)} — ${label} earns marks only when every cell is correct`;
+          record(outcome, groupMarks / group.length, complete ? groupMarks / group.length : 0, note);
         });
+      });
+      return { total, achieved, feedback };
+    }
 
-        if (fuzzyMatch) {
-          isCorrect = true;
-          matchType = 'fuzzy-alternative';
-        }
-      }
+    if (rule.scoring === 'per_n_correct') {
+      const perMark = Math.max(1, rule.correctPerMark || 1);
+      const correct = outcomes.filter(outcome => outcome.isCorrect).length;
+      const total = Math.max(1, Math.floor(outcomes.length / perMark));
+      const achieved = Math.min(total, Math.floor(correct / perMark));
+      const summary = `${correct} of ${outcomes.length} correct: 1 mark per ${perMark} correct cells (${achieved}/${total})`;
+
+      outcomes.forEach(outcome => {
+        record(
+          outcome,
+          total / outcomes.length,
+          outcome.isCorrect && correct > 0 ? achieved / correct : 0,
+          `${describe(outcome)} — ${summary}`
+        );
+      });
+      return { total, achieved, feedback };
     }
 
-    const cellMarks = cell.marks || 1;
+    let total = 0;
+    let achieved = 0;
+    outcomes.forEach(outcome => {
+      const marks = outcome.cell.marks || 1;
+      total += marks;
+      if (outcome.isCorrect) achieved += marks;
+      record(outcome, marks, outcome.isCorrect ? marks : 0, describe(outcome));
+    });
+    return { total, achieved, feedback };
+  }
+
+  private static describeMatch(
+    cell: TableCellDTO,
+    studentAnswer: string | number,
+    isCorrect: boolean,
+    matchType: TableCellMatchType,
+    remainingExpected?: string[]
+  ): string {
+    const tolerance = cell.answerType === 'numeric' && cell.numericTolerance
+      ? `±${cell.numericTolerance}${cell.toleranceType === 'percentage' ? '%' : ''}`
+      : null;
 
-    // Generate feedback based on match type
-    let feedback = '';
     if (isCorrect) {
-      if (matchType === 'exact') {
-        feedback = 'Correct!';
-      } else if (matchType === 'alternative') {
-        feedback = 'Correct! (Alternative answer accepted)';
-      } else if (matchType === 'fuzzy' || matchType === 'fuzzy-alternative') {
-        feedback = 'Correct! (Equivalent phrasing accepted)';
-      }
-    } else {
-      feedback = `Incorrect. Expected: ${cell.expectedAnswer}`;
-      if (cell.alternativeAnswers && cell.alternativeAnswers.length > 0) {
-        feedback += ` (or alternatives: ${cell.alternativeAnswers.join(', ')})`;
-      }
+      if (matchType === 'alternative') return 'Correct! (Alternative answer accepted)';
+      if (matchType === 'fuzzy') return 'Correct! (Equivalent phrasing accepted)';
+      if (matchType === 'numeric') return `Correct! (Within ${tolerance} of ${cell.expectedAnswer})`;
+      return 'Correct!';
     }
 
+    if (String(studentAnswer ?? '').trim() === '') {
+      return 'No answer provided';
+    }
+
+    let feedback = remainingExpected && remainingExpected.length > 0
+      ? `Incorrect. Expected one of: ${remainingExpected.join(', ')}`
+      : `Incorrect. Expected: ${cell.expectedAnswer}`;
+    if (!remainingExpected && cell.alternativeAnswers && cell.alternativeAnswers.length > 0) {
+      feedback += ` (or alternatives: ${cell.alternativeAnswers.join(', ')})`;
+    }
+    if (tolerance) {
+      feedback += ` (${tolerance} accepted)`;
+    }
+    return feedback;
+  }
+
+  private static feedbackForCell(cell: TableCellDTO, studentAnswer: string | number): CellFeedback {
+    const { isCorrect, matchType } = TableTemplateService.matchCellAnswer(cell, studentAnswer);
+    const cellMarks = cell.marks || 1;
+
     return {
       isCorrect,
       expectedAnswer: cell.expectedAnswer || '',
       studentAnswer,
       marks: cellMarks,
       achievedMarks: isCorrect ? cellMarks : 0,
-      feedback
+      feedback: this.describeMatch(cell, studentAnswer, isCorrect, matchType),
+      matchType
     };
   }
 
+  /**
+   * Get detailed cell-by-cell feedback
+   */
+  static getCellFeedback(
+    cellKey: string,
+    studentAnswer: string | number,
+    template: TableTemplateDTO
+  ): CellFeedback | null {
+    const [row, col] = cellKey.split('-').map(Number);
+    const cell = template.cells.find(
+      c => c.rowIndex === row && c.colIndex === col && c.cellType === 'editable'
+    );
+
+    if (!cell) return null;
+
+    return this.feedbackForCell(cell, studentAnswer);
+  }
+
   /**
    * Calculate overall statistics for a template
    */
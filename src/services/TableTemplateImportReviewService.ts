@@ -8,6 +8,7 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import type { TableCellAnswerType, TableGradingRule } from './TableTemplateService';
 
 export interface TableTemplateReviewDTO {
   id?: string;
@@ -21,6 +22,7 @@ export interface TableTemplateReviewDTO {
   title?: string;
   description?: string;
   cells: TableCellReviewDTO[];
+  gradingRules?: TableGradingRule[];
 }
 
 export interface TableCellReviewDTO {
@@ -33,6 +35,9 @@ export interface TableCellReviewDTO {
   acceptsEquivalentPhrasing?: boolean;
   caseSensitive?: boolean;
   alternativeAnswers?: string[];
+  answerType?: TableCellAnswerType;
+  numericTolerance?: number;
+  toleranceType?: 'absolute' | 'percentage';
 }
 
 export class TableTemplateImportReviewService {
@@ -77,6 +82,7 @@ export class TableTemplateImportReviewService {
         headers: template.headers,
         title: template.title,
         description: template.description,
+        grading_rules: template.gradingRules || [],
         updated_at: new Date().toISOString()
       };
 
@@ -121,7 +127,10 @@ export class TableTemplateImportReviewService {
           marks: cell.marks || 1,
           accepts_equivalent_phrasing: cell.acceptsEquivalentPhrasing || false,
           case_sensitive: cell.caseSensitive || false,
-          alternative_answers: cell.alternativeAnswers || []
+          alternative_answers: cell.alternativeAnswers || [],
+          answer_type: cell.answerType || 'text',
+          numeric_tolerance: cell.answerType === 'numeric' ? (cell.numericTolerance ?? 0) : null,
+          tolerance_type: cell.answerType === 'numeric' ? (cell.toleranceType || 'absolute') : null
         }));
 
         const { error: cellsError } = await supabase
@@ -289,6 +298,7 @@ export class TableTemplateImportReviewService {
         headers: templateData.headers || [],
         title: templateData.title,
         description: templateData.description,
+        gradingRules: templateData.grading_rules || [],
         cells: (cellsData || []).map(cell => ({
           rowIndex: cell.row_index,
           colIndex: cell.col_index,
@@ -298,7 +308,10 @@ export class TableTemplateImportReviewService {
           marks: cell.marks,
           acceptsEquivalentPhrasing: cell.accepts_equivalent_phrasing,
           caseSensitive: cell.case_sensitive,
-          alternativeAnswers: cell.alternative_answers || []
+          alternativeAnswers: cell.alternative_answers || [],
+          answerType: cell.answer_type || 'text',
+          numericTolerance: cell.numeric_tolerance ?? undefined,
+          toleranceType: cell.tolerance_type ?? undefined
         }))
       };
 
@@ -410,6 +423,7 @@ export class TableTemplateImportReviewService {
         headers: t.headers || [],
         title: t.title,
         description: t.description,
+        gradingRules: t.grading_rules || [],
         cells: (t.cells || []).map((cell: any) => ({
           rowIndex: cell.row_index,
           colIndex: cell.col_index,
@@ -419,7 +433,10 @@ export class TableTemplateImportReviewService {
           marks: cell.marks,
           acceptsEquivalentPhrasing: cell.accepts_equivalent_phrasing,
           caseSensitive: cell.case_sensitive,
-          alternativeAnswers: cell.alternative_answers || []
+          alternativeAnswers: cell.alternative_answers || [],
+          answerType: cell.answer_type || 'text',
+          numericTolerance: cell.numeric_tolerance ?? undefined,
+          toleranceType: cell.tolerance_type ?? undefined
         }))
       }));
 
@@ -17,6 +17,7 @@ export interface TableTemplateDTO {
   title?: string;
   description?: string;
   cells: TableCellDTO[];
+  gradingRules?: TableGradingRule[];
 }
 
 export interface TableCellDTO {
@@ -29,8 +30,36 @@ export interface TableCellDTO {
   acceptsEquivalentPhrasing?: boolean;
   caseSensitive?: boolean;
   alternativeAnswers?: string[];
+  answerType?: TableCellAnswerType;
+  numericTolerance?: number;
+  toleranceType?: 'absolute' | 'percentage';
 }
 
+export type TableCellAnswerType = 'text' | 'numeric';
+
+/**
+ * How a group of editable cells is scored:
+ * - per_cell: each correct cell earns its own marks
+ * - per_group: each fully correct row/column earns `marksPerGroup`
+ * - per_n_correct: 1 mark for every `correctPerMark` correct cells
+ */
+export type TableGradingScoring = 'per_cell' | 'per_group' | 'per_n_correct';
+
+export interface TableGradingRule {
+  id: string;
+  label?: string;
+  scope: 'rows' | 'columns';
+  /** Row or column indices the rule covers, depending on `scope` */
+  indices: number[];
+  scoring: TableGradingScoring;
+  marksPerGroup?: number;
+  correctPerMark?: number;
+  /** Rows may be given in any order (rows scope); values within a column may be in any order (columns scope) */
+  orderIndependent?: boolean;
+}
+
+export type TableCellMatchType = 'exact' | 'alternative' | 'fuzzy' | 'numeric' | 'none';
+
 export interface ValidationResult {
   isComplete: boolean;
   correctCount: number;
@@ -84,6 +113,101 @@ export class TableTemplateService {
     return ((maxLen - distance) / maxLen) * 100;
   }
 
+  private static parseNumber(value: string): number | null {
+    const cleaned = value.replace(/[,\s]/g, '').replace(/^\u2212/, '-');
+    const match = cleaned.match(/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i);
+    return match ? Number(match[0]) : null;
+  }
+
+  private static withinTolerance(student: number, expected: number, cell: TableCellDTO): boolean {
+    const tolerance = Math.abs(cell.numericTolerance ?? 0);
+    const allowed = cell.toleranceType === 'percentage' ? Math.abs(expected) * tolerance / 100 : tolerance;
+    // Small epsilon so 0.1 ± 0.1 style boundaries survive floating point
+    return Math.abs(student - expected) <= allowed + 1e-9;
+  }
+
+  /**
+   * Compare one answer with an editable cell's expected answer, alternatives,
+   * numeric tolerance and fuzzy phrasing settings
+   */
+  static matchCellAnswer(
+    cell: TableCellDTO,
+    studentAnswer: string | number | undefined | null
+  ): { isCorrect: boolean; matchType: TableCellMatchType } {
+    if (studentAnswer === undefined || studentAnswer === null || String(studentAnswer).trim() === '') {
+      return { isCorrect: false, matchType: 'none' };
+    }
+
+    const studentStr = String(studentAnswer).trim();
+    const expectedStr = String(cell.expectedAnswer || '').trim();
+    const alternatives = (cell.alternativeAnswers || []).map(alt => alt.trim()).filter(Boolean);
+    const normalise = (value: string) => (cell.caseSensitive ? value : value.toLowerCase());
+
+    if (normalise(studentStr) === normalise(expectedStr)) {
+      return { isCorrect: true, matchType: 'exact' };
+    }
+    if (alternatives.some(alt => normalise(alt) === normalise(studentStr))) {
+      return { isCorrect: true, matchType: 'alternative' };
+    }
+
+    if (cell.answerType === 'numeric') {
+      const studentNumber = this.parseNumber(studentStr);
+      const accepted = [expectedStr, ...alternatives]
+        .map(value => this.parseNumber(value))
+        .filter((value): value is number => value !== null);
+      if (studentNumber !== null && accepted.some(expected => this.withinTolerance(studentNumber, expected, cell))) {
+        return { isCorrect: true, matchType: studentNumber === accepted[0] ? 'exact' : 'numeric' };
+      }
+      return { isCorrect: false, matchType: 'none' };
+    }
+
+    // Fuzzy matching (85% similarity) when equivalent phrasing is accepted
+    if (cell.acceptsEquivalentPhrasing) {
+      const isSimilar = [expectedStr, ...alternatives].some(
+        value => this.calculateSimilarity(normalise(studentStr), normalise(value)) >= 85
+      );
+      if (isSimilar) {
+        return { isCorrect: true, matchType: 'fuzzy' };
+      }
+    }
+
+    return { isCorrect: false, matchType: 'none' };
+  }
+
+  /**
+   * Check grading rules against the template; returns problems to fix
+   */
+  static validateGradingRules(rules: TableGradingRule[], template: Pick<TableTemplateDTO, 'rows' | 'columns' | 'cells'>): string[] {
+    const errors: string[] = [];
+
+    rules.forEach((rule, index) => {
+      const name = rule.label || `Rule ${index + 1}`;
+      const limit = rule.scope === 'rows' ? template.rows : template.columns;
+
+      if (!rule.indices.length) {
+        errors.push(`${name}: select at least one ${rule.scope === 'rows' ? 'row' : 'column'}`);
+      }
+      if (rule.indices.some(i => i < 0 || i >= limit)) {
+        errors.push(`${name}: covers a ${rule.scope === 'rows' ? 'row' : 'column'} outside the table`);
+      }
+      if (rule.scoring === 'per_n_correct' && !(rule.correctPerMark && rule.correctPerMark >= 1)) {
+        errors.push(`${name}: set how many correct cells earn one mark`);
+      }
+      if (rule.scoring === 'per_group' && rule.marksPerGroup !== undefined && rule.marksPerGroup <= 0) {
+        errors.push(`${name}: marks per ${rule.scope === 'rows' ? 'row' : 'column'} must be positive`);
+      }
+
+      const covered = template.cells.filter(cell =>
+        cell.cellType === 'editable' && rule.indices.includes(rule.scope === 'rows' ? cell.rowIndex : cell.colIndex)
+      );
+      if (rule.indices.length && !covered.length) {
+        errors.push(`${name}: covers no editable cells`);
+      }
+    });
+
+    return errors;
+  }
+
   /**
    * Save or update table template
    */
@@ -117,6 +241,11 @@ export class TableTemplateService {
         throw new Error('Columns must be between 2 and 20');
       }
 
+      const ruleErrors = this.validateGradingRules(template.gradingRules || [], template);
+      if (ruleErrors.length > 0) {
+        throw new Error(ruleErrors[0]);
+      }
+
       // 1. Upsert template
       const templatePayload: any = {
         question_id: template.questionId || null,
@@ -126,6 +255,7 @@ export class TableTemplateService {
         headers: template.headers,
         title: template.title,
         description: template.description,
+        grading_rules: template.gradingRules || [],
         updated_at: new Date().toISOString()
       };
 
@@ -163,7 +293,10 @@ export class TableTemplateService {
           marks: cell.marks || 1,
           accepts_equivalent_phrasing: cell.acceptsEquivalentPhrasing || false,
           case_sensitive: cell.caseSensitive || false,
-          alternative_answers: cell.alternativeAnswers || []
+          alternative_answers: cell.alternativeAnswers || [],
+          answer_type: cell.answerType || 'text',
+          numeric_tolerance: cell.answerType === 'numeric' ? (cell.numericTolerance ?? 0) : null,
+          tolerance_type: cell.answerType === 'numeric' ? (cell.toleranceType || 'absolute') : null
         }));
 
         const { error: cellsError } = await supabase
@@ -271,8 +404,12 @@ export class TableTemplateService {
           marks: cell.marks,
           acceptsEquivalentPhrasing: cell.accepts_equivalent_phrasing,
           caseSensitive: cell.case_sensitive,
-          alternativeAnswers: cell.alternative_answers || []
-        }))
+          alternativeAnswers: cell.alternative_answers || [],
+          answerType: (cell.answer_type as TableCellAnswerType | null) || 'text',
+          numericTolerance: cell.numeric_tolerance ?? undefined,
+          toleranceType: cell.tolerance_type ?? undefined
+        })),
+        gradingRules: templateData.grading_rules || []
       };
 
       return { success: true, template };
@@ -330,48 +467,7 @@ export class TableTemplateService {
       const studentAnswer = studentAnswers[cellKey];
       const expectedAnswer = cell.expectedAnswer || '';
 
-      let isCorrect = false;
-
-      if (studentAnswer !== undefined && studentAnswer !== null) {
-        const studentStr = String(studentAnswer).trim();
-        const expectedStr = String(expectedAnswer).trim();
-
-        // First try exact match (respecting case sensitivity)
-        if (cell.caseSensitive) {
-          isCorrect = studentStr === expectedStr;
-        } else {
-          isCorrect = studentStr.toLowerCase() === expectedStr.toLowerCase();
-        }
-
-        // Check alternative answers if not correct yet
-        if (!isCorrect && cell.alternativeAnswers && cell.alternativeAnswers.length > 0) {
-          isCorrect = cell.alternativeAnswers.some(alt =>
-            cell.caseSensitive
-              ? studentStr === alt.trim()
-              : studentStr.toLowerCase() === alt.trim().toLowerCase()
-          );
-        }
-
-        // If still not correct, try fuzzy matching if enabled
-        if (!isCorrect && cell.acceptsEquivalentPhrasing) {
-          const compareStudent = cell.caseSensitive ? studentStr : studentStr.toLowerCase();
-          const compareExpected = cell.caseSensitive ? expectedStr : expectedStr.toLowerCase();
-
-          // Check similarity with expected answer
-          const similarity = this.calculateSimilarity(compareStudent, compareExpected);
-
-          // Accept if similarity is 85% or higher
-          if (similarity >= 85) {
-            isCorrect = true;
-          } else if (cell.alternativeAnswers && cell.alternativeAnswers.length > 0) {
-            // Also check similarity with alternative answers
-            isCorrect = cell.alternativeAnswers.some(alt => {
-              const compareAlt = cell.caseSensitive ? alt.trim() : alt.trim().toLowerCase();
-              return this.calculateSimilarity(compareStudent, compareAlt) >= 85;
-            });
-          }
-        }
-      }
+      const { isCorrect } = this.matchCellAnswer(cell, studentAnswer);
 
       cellResults[cellKey] = {
         isCorrect,
@@ -480,7 +576,8 @@ export class TableTemplateService {
         headers: templateConfig.headers || [],
         title: templateConfig.title,
         description: templateConfig.description,
-        cells: templateConfig.cells || []
+        cells: templateConfig.cells || [],
+        gradingRules: templateConfig.gradingRules || []
       };
 
       console.log('[TableTemplateService] Extracting template from preview_data:', {
@@ -0,0 +1,169 @@
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import {
+  AchievementDefinition,
+  AchievementProgress,
+  GamificationBadge,
+  GamificationProgress,
+  StudentAchievement
+} from '@/types/practice';
+import {
+  AchievementSessionRecord,
+  AchievementStats,
+  buildAchievementProgress,
+  evaluateAchievementMetric,
+  toGamificationBadge,
+  validateAchievementDefinition
+} from './practice/achievementRules';
+
+export type AchievementDefinitionInput = Pick<
+  AchievementDefinition,
+  'code' | 'name' | 'description' | 'icon' | 'criteria' | 'tiers' | 'is_active' | 'sort_order'
+> & { id?: string };
+
+export async function fetchAchievementCatalogue(includeInactive = false): Promise<AchievementDefinition[]> {
+  let query = supabase
+    .from('achievement_definitions')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Unable to load achievements: ${error.message}`);
+  }
+
+  return (data ?? []) as AchievementDefinition[];
+}
+
+export async function saveAchievementDefinition(input: AchievementDefinitionInput): Promise<AchievementDefinition> {
+  const problems = validateAchievementDefinition(input);
+  if (problems.length) {
+    throw new Error(problems.join('. '));
+  }
+
+  const { id, ...fields } = input;
+  const payload = { ...fields, updated_at: dayjs().toISOString() };
+
+  const { data, error } = id
+    ? await supabase.from('achievement_definitions').update(payload).eq('id', id).select('*').single()
+    : await supabase.from('achievement_definitions').insert(payload).select('*').single();
+
+  if (error) {
+    throw new Error(
+      error.code === '23505' ? `An achievement with code "${input.code}" already exists` : `Failed to save achievement: ${error.message}`
+    );
+  }
+
+  return data as AchievementDefinition;
+}
+
+export async function setAchievementActive(id: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('achievement_definitions')
+    .update({ is_active: isActive, updated_at: dayjs().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to update achievement: ${error.message}`);
+  }
+}
+
+/**
+ * Asks the database to evaluate the active catalogue for a student and store
+ * any tiers they now qualify for. Call once the completed session and the
+ * student's progress are saved. Returns only the newly earned tiers as badges.
+ */
+export async function awardAchievements(studentId: string): Promise<GamificationBadge[]> {
+  const { data, error } = await supabase.rpc('award_student_achievements', { p_student_id: studentId });
+
+  if (error) {
+    throw new Error(`Failed to award achievements: ${error.message}`);
+  }
+
+  const awarded = (data ?? []) as StudentAchievement[];
+  if (!awarded.length) {
+    return [];
+  }
+
+  const definitions = new Map((await fetchAchievementCatalogue()).map((definition) => [definition.id, definition]));
+  return awarded.flatMap((award) => {
+    const definition = definitions.get(award.achievement_id);
+    const tier = definition?.tiers.find((entry) => entry.tier === award.tier);
+    return definition && tier ? [toGamificationBadge(definition, tier, award.earned_at)] : [];
+  });
+}
+
+/**
+ * Earned and locked achievements with progress, for the student profile.
+ */
+export async function fetchAchievementGallery(studentId: string): Promise<AchievementProgress[]> {
+  const { data: progress } = await supabase
+    .from('student_gamification')
+    .select('*')
+    .eq('student_id', studentId)
+    .maybeSingle();
+
+  const [definitions, earned, stats] = await Promise.all([
+    fetchAchievementCatalogue(),
+    fetchStudentAchievements(studentId),
+    loadAchievementStats(studentId, (progress as GamificationProgress | null) ?? null)
+  ]);
+
+  return definitions.map((definition) =>
+    buildAchievementProgress(definition, evaluateAchievementMetric(definition.criteria, stats), earned)
+  );
+}
+
+async function fetchStudentAchievements(studentId: string): Promise<StudentAchievement[]> {
+  const { data, error } = await supabase
+    .from('student_achievements')
+    .select('*')
+    .eq('student_id', studentId);
+
+  if (error) {
+    throw new Error(`Unable to load earned achievements: ${error.message}`);
+  }
+
+  return (data ?? []) as StudentAchievement[];
+}
+
+async function loadAchievementStats(
+  studentId: string,
+  progress: GamificationProgress | null
+): Promise<AchievementStats> {
+  const { data, error } = await supabase
+    .from('practice_sessions')
+    .select('id, total_marks_earned, total_marks_available, xp_earned, practice_set:practice_sets(subject_id, topic_id)')
+    .eq('student_id', studentId)
+    .eq('status', 'completed');
+
+  if (error) {
+    throw new Error(`Unable to load sessions for achievements: ${error.message}`);
+  }
+
+  const sessions: AchievementSessionRecord[] = (data ?? []).map((session) => {
+    const practiceSet = session.practice_set as unknown as { subject_id: string | null; topic_id: string | null } | null;
+    const available = Number(session.total_marks_available ?? 0);
+    return {
+      sessionId: session.id,
+      accuracy: available > 0 ? Number(session.total_marks_earned ?? 0) / available : 0,
+      xpEarned: session.xp_earned ?? 0,
+      subjectId: practiceSet?.subject_id ?? null,
+      topicId: practiceSet?.topic_id ?? null
+    };
+  });
+
+  return {
+    progress: {
+      xp_total: progress?.xp_total ?? 0,
+      current_streak_days: progress?.current_streak_days ?? 0,
+      longest_streak_days: progress?.longest_streak_days ?? 0
+    },
+    sessions
+  };
+}
@@ -5,7 +5,8 @@
  * - Overlapping exams for same cohorts
  * - Teacher double-booking
  * - Venue conflicts
- * - Holiday/term break scheduling
+ * - Holiday/term break scheduling and exam blackout periods
+ * - Days outside each school's working week
  */
 
 import { supabase } from '@/lib/supabase';
@@ -21,7 +22,7 @@ export interface ConflictCheck {
 }
 
 export interface Conflict {
-  type: 'exam_overlap' | 'teacher_busy' | 'venue_busy' | 'holiday';
+  type: 'exam_overlap' | 'teacher_busy' | 'venue_busy' | 'holiday' | 'exam_blackout';
   severity: 'critical' | 'high' | 'medium';
   message: string;
   details: any;
@@ -46,11 +47,125 @@ export interface ConflictCheckParams {
   excludeExamId?: string; // When editing existing exam
 }
 
+export type WeekdayLabel = 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat' | 'Sun';
+
+/** Used for schools without a working week of their own */
+export const DEFAULT_WORKING_DAYS: WeekdayLabel[] = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+
+const WEEKDAY_LABELS: WeekdayLabel[] = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export type CalendarPeriodType = 'holiday' | 'exam_blackout';
+
+export interface CalendarPeriod {
+  type: CalendarPeriodType;
+  name: string;
+  startDate: string;
+  endDate: string;
+  /** Null when the period applies to every school of the academic year */
+  schoolId: string | null;
+}
+
+export interface AcademicTerm {
+  termNumber: number;
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface SchoolCalendar {
+  schoolId: string;
+  schoolName: string;
+  workingDays: WeekdayLabel[];
+  academicYears: Array<{
+    id: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+    terms: AcademicTerm[];
+    periods: CalendarPeriod[];
+  }>;
+}
+
+export type CalendarDayReason =
+  | { kind: 'non_working_day'; name: string }
+  | { kind: 'outside_academic_year' }
+  | { kind: 'term_break'; name: string }
+  | { kind: 'holiday' | 'exam_blackout'; name: string; startDate: string; endDate: string };
+
+interface AcademicTermRow {
+  term_number: number;
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+interface CalendarPeriodRow {
+  period_type: CalendarPeriodType;
+  name: string;
+  start_date: string;
+  end_date: string;
+  school_id: string | null;
+}
+
+const within = (date: string, startDate: string, endDate: string) => date >= startDate && date <= endDate;
+
+/**
+ * Why a date is not available for exams at a school: outside its working
+ * week, outside every academic year (only once the school has academic years
+ * configured), between terms, or within a holiday or exam blackout period.
+ * Dates are ISO YYYY-MM-DD strings.
+ */
+export function calendarDayReasons(calendar: SchoolCalendar, date: string): CalendarDayReason[] {
+  const reasons: CalendarDayReason[] = [];
+  const weekday = dayjs(date);
+
+  if (!calendar.workingDays.includes(WEEKDAY_LABELS[weekday.day()])) {
+    reasons.push({ kind: 'non_working_day', name: weekday.format('dddd') });
+  }
+
+  const years = calendar.academicYears.filter((year) => within(date, year.startDate, year.endDate));
+  if (calendar.academicYears.length > 0 && years.length === 0) {
+    reasons.push({ kind: 'outside_academic_year' });
+  }
+
+  years.forEach((year) => {
+    if (year.terms.length > 0 && !year.terms.some((term) => within(date, term.startDate, term.endDate))) {
+      const terms = [...year.terms].sort((a, b) => a.startDate.localeCompare(b.startDate));
+      const previous = [...terms].reverse().find((term) => term.endDate < date);
+      const next = terms.find((term) => term.startDate > date);
+      reasons.push({
+        kind: 'term_break',
+        name: previous && next
+          ? `between ${previous.name} and ${next.name}`
+          : previous
+            ? `after ${previous.name}`
+            : `before ${next?.name ?? 'the first term'}`,
+      });
+    }
+
+    year.periods
+      .filter((period) => (!period.schoolId || period.schoolId === calendar.schoolId) && within(date, period.startDate, period.endDate))
+      .forEach((period) => {
+        reasons.push({ kind: period.type, name: period.name, startDate: period.startDate, endDate: period.endDate });
+      });
+  });
+
+  return reasons;
+}
+
+/** True when exams can be scheduled on the date at every school */
+export function isExamDay(calendars: SchoolCalendar[], date: string): boolean {
+  return calendars.every((calendar) => calendarDayReasons(calendar, date).length === 0);
+}
+
 export class CalendarConflictService {
   /**
    * Check for all types of conflicts
    */
-  static async checkConflicts(params: ConflictCheckParams): Promise<ConflictCheck> {
+  static async checkConflicts(
+    params: ConflictCheckParams,
+    calendars?: SchoolCalendar[]
+  ): Promise<ConflictCheck> {
     const conflicts: Conflict[] = [];
     const warnings: Warning[] = [];
 
@@ -60,17 +175,21 @@ export class CalendarConflictService {
       teacherConflicts,
       venueConflicts,
       scheduleWarnings,
+      calendarCheck,
     ] = await Promise.all([
       this.checkCohortOverlaps(params),
       this.checkTeacherAvailability(params),
       this.checkVenueAvailability(params),
       this.checkScheduleWarnings(params),
+      this.checkAcademicCalendar(params, calendars),
     ]);
 
     conflicts.push(...cohortConflicts);
     conflicts.push(...teacherConflicts);
     conflicts.push(...venueConflicts);
+    conflicts.push(...calendarCheck.conflicts);
     warnings.push(...scheduleWarnings);
+    warnings.push(...calendarCheck.warnings);
 
     return {
       hasConflicts: conflicts.length > 0,
@@ -326,6 +445,152 @@ export class CalendarConflictService {
     return conflicts;
   }
 
+  /**
+   * Load working weeks, academic years, terms, holidays and exam blackout
+   * periods for the given schools
+   */
+  static async getSchoolCalendars(schoolIds: string[]): Promise<SchoolCalendar[]> {
+    if (schoolIds.length === 0) return [];
+
+    const [{ data: schools, error: schoolsError }, { data: yearLinks, error: linksError }] = await Promise.all([
+      supabase.from('schools').select('id, name, working_days').in('id', schoolIds),
+      supabase.from('academic_year_schools').select('academic_year_id, school_id').in('school_id', schoolIds),
+    ]);
+
+    if (schoolsError || linksError) {
+      console.error('Error loading school calendars:', schoolsError ?? linksError);
+      return [];
+    }
+
+    const linkedYearIds = Array.from(new Set((yearLinks ?? []).map((link) => link.academic_year_id)));
+    const yearFilter = [`school_id.in.(${schoolIds.join(',')})`];
+    if (linkedYearIds.length > 0) yearFilter.push(`id.in.(${linkedYearIds.join(',')})`);
+
+    const { data: years, error: yearsError } = await supabase
+      .from('academic_years')
+      .select(`
+        id,
+        school_id,
+        year_name,
+        start_date,
+        end_date,
+        terms:academic_terms(term_number, name, start_date, end_date),
+        periods:academic_calendar_periods(period_type, name, start_date, end_date, school_id)
+      `)
+      .or(yearFilter.join(','));
+
+    if (yearsError) {
+      console.error('Error loading academic calendar:', yearsError);
+      return [];
+    }
+
+    return (schools ?? []).map((school) => {
+      const schoolYears = (years ?? []).filter(
+        (year) =>
+          year.school_id === school.id ||
+          (yearLinks ?? []).some((link) => link.academic_year_id === year.id && link.school_id === school.id)
+      );
+
+      return {
+        schoolId: school.id,
+        schoolName: school.name,
+        workingDays: (school.working_days as WeekdayLabel[] | null)?.length
+          ? (school.working_days as WeekdayLabel[])
+          : DEFAULT_WORKING_DAYS,
+        academicYears: schoolYears.map((year) => ({
+          id: year.id,
+          name: year.year_name,
+          startDate: year.start_date,
+          endDate: year.end_date,
+          terms: ((year.terms ?? []) as AcademicTermRow[]).map((term) => ({
+            termNumber: term.term_number,
+            name: term.name,
+            startDate: term.start_date,
+            endDate: term.end_date,
+          })),
+          periods: ((year.periods ?? []) as CalendarPeriodRow[]).map((period) => ({
+            type: period.period_type,
+            name: period.name,
+            startDate: period.start_date,
+            endDate: period.end_date,
+            schoolId: period.school_id,
+          })),
+        })),
+      };
+    });
+  }
+
+  /**
+   * Check the date against each school's working week and academic calendar
+   */
+  private static async checkAcademicCalendar(
+    params: ConflictCheckParams,
+    preloaded?: SchoolCalendar[]
+  ): Promise<{ conflicts: Conflict[]; warnings: Warning[] }> {
+    const conflicts: Conflict[] = [];
+    const warnings: Warning[] = [];
+
+    if (!params.scheduledDate) return { conflicts, warnings };
+
+    const calendars = preloaded ?? (await this.getSchoolCalendars(params.schoolIds));
+
+    // Schools sharing a holiday or break are reported together
+    const grouped = new Map<string, { reason: CalendarDayReason; schoolNames: string[] }>();
+    calendars.forEach((calendar) => {
+      calendarDayReasons(calendar, params.scheduledDate).forEach((reason) => {
+        const key = `${reason.kind}:${'name' in reason ? reason.name : ''}`;
+        const entry = grouped.get(key) ?? { reason, schoolNames: [] };
+        entry.schoolNames.push(calendar.schoolName);
+        grouped.set(key, entry);
+      });
+    });
+
+    grouped.forEach(({ reason, schoolNames }) => {
+      const schools = schoolNames.join(', ');
+      switch (reason.kind) {
+        case 'non_working_day':
+          warnings.push({
+            type: 'weekend',
+            message: `${reason.name} is not a working day at ${schools}`,
+            suggestion: 'Consider rescheduling to a working day for better student attendance',
+          });
+          break;
+        case 'outside_academic_year':
+          conflicts.push({
+            type: 'holiday',
+            severity: 'medium',
+            message: `Date is outside the academic year at ${schools}`,
+            details: { schools },
+          });
+          break;
+        case 'term_break':
+          conflicts.push({
+            type: 'holiday',
+            severity: 'high',
+            message: `Term break ${reason.name} at ${schools}`,
+            details: { schools, termBreak: reason.name },
+          });
+          break;
+        case 'holiday':
+        case 'exam_blackout':
+          conflicts.push({
+            type: reason.kind,
+            severity: reason.kind === 'holiday' ? 'critical' : 'high',
+            message: `${reason.kind === 'holiday' ? 'Holiday' : 'Exam blackout'} "${reason.name}" at ${schools}`,
+            details: {
+              schools,
+              periodName: reason.name,
+              periodStart: dayjs(reason.startDate).format('D MMM YYYY'),
+              periodEnd: dayjs(reason.endDate).format('D MMM YYYY'),
+            },
+          });
+          break;
+      }
+    });
+
+    return { conflicts, warnings };
+  }
+
   /**
    * Check for schedule warnings (non-blocking)
    */
@@ -339,16 +604,6 @@ export class CalendarConflictService {
     const examDate = dayjs(`${params.scheduledDate}T${params.scheduledTime || '00:00:00'}`);
     const now = dayjs();
 
-    // Check if exam is on weekend
-    const dayOfWeek = examDate.day();
-    if (dayOfWeek === 0 || dayOfWeek === 6) {
-      warnings.push({
-        type: 'weekend',
-        message: 'Exam is scheduled on a weekend',
-        suggestion: 'Consider rescheduling to a weekday for better student attendance',
-      });
-    }
-
     // Check for unusual times
     const hour = examDate.hour();
     if (hour < 7 || hour > 18) {
@@ -426,31 +681,38 @@ export class CalendarConflictService {
   }
 
   /**
-   * Suggest alternative time slots
+   * Suggest alternative time slots on the next teaching days, skipping
+   * non-working days, holidays, term breaks and exam blackouts
    */
   static async suggestAlternatives(
     params: ConflictCheckParams
   ): Promise<{ date: string; time: string; reason: string }[]> {
     const suggestions: { date: string; time: string; reason: string }[] = [];
     const baseDate = dayjs(params.scheduledDate);
+    const calendars = await this.getSchoolCalendars(params.schoolIds);
 
-    // Check next 7 days for available slots
-    for (let i = 1; i <= 7; i++) {
+    // Check the next 7 teaching days for available slots, looking up to 60 days ahead
+    let teachingDaysChecked = 0;
+    for (let i = 1; i <= 60 && teachingDaysChecked < 7; i++) {
       const checkDate = baseDate.add(i, 'day');
+      const date = checkDate.format('YYYY-MM-DD');
 
-      // Skip weekends
-      if (checkDate.day() === 0 || checkDate.day() === 6) continue;
+      const isTeachingDay = calendars.length > 0
+        ? isExamDay(calendars, date)
+        : DEFAULT_WORKING_DAYS.includes(WEEKDAY_LABELS[checkDate.day()]);
+      if (!isTeachingDay) continue;
+      teachingDaysChecked++;
 
       const checkParams = {
         ...params,
-        scheduledDate: checkDate.format('YYYY-MM-DD'),
+        scheduledDate: date,
       };
 
-      const conflicts = await this.checkConflicts(checkParams);
+      const conflicts = await this.checkConflicts(checkParams, calendars);
 
       if (!conflicts.hasConflicts) {
         suggestions.push({
-          date: checkDate.format('YYYY-MM-DD'),
+          date,
           time: params.scheduledTime || '09:00:00',
           reason: 'No conflicts detected',
         });
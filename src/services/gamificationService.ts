@@ -1,6 +1,24 @@
 import dayjs from 'dayjs';
 import { supabase } from '@/lib/supabase';
-import { GamificationProgress, GamificationBadge, LeaderboardSnapshot } from '@/types/practice';
+import {
+  GamificationProgress,
+  GamificationBadge,
+  LeaderboardSnapshot,
+  StreakCalendarDay,
+  StreakOverview,
+  StudentActivityDay
+} from '@/types/practice';
+import { awardAchievements } from './achievementService';
+import {
+  addCalendarDays,
+  applyStreakActivity,
+  buildStreakCalendar,
+  DEFAULT_STREAK_TIMEZONE,
+  resolveCalendarDay,
+  resolveDisplayedStreak,
+  StreakState,
+  StreakUpdate
+} from './practice/streakCalendar';
 
 interface GamificationRequest {
   sessionId: string;
@@ -9,22 +27,22 @@ interface GamificationRequest {
   marksEarned: number;
   marksAvailable: number;
   accuracy: number;
+  /** Sum of the session's per-answer speed bonuses */
+  speedBonusXp?: number;
 }
 
 interface GamificationResult {
   xpAwarded: number;
   streakDelta: number;
   progress: GamificationProgress;
-  newBadges: GamificationBadge[];
   leaderboardSnapshot?: LeaderboardSnapshot | null;
 }
 
 const BASE_XP_PER_MARK = 10;
 const ACCURACY_BONUS_THRESHOLD = 0.8;
-const STREAK_BREAK_THRESHOLD = 0.5;
 
 export async function applyGamificationRewards(request: GamificationRequest): Promise<GamificationResult> {
-  const { studentId, marksEarned, accuracy } = request;
+  const { studentId, marksEarned, accuracy, speedBonusXp = 0 } = request;
   const { data: existing } = await supabase
     .from('student_gamification')
     .select('*')
@@ -38,39 +56,35 @@ export async function applyGamificationRewards(request: GamificationRequest): Pr
     longest_streak_days: 0,
     current_streak_days: 0,
     badges: [],
-    last_active_at: null
+    last_active_at: null,
+    last_streak_day: null,
+    streak_freezes_available: 0,
+    xp_spent: 0
   };
 
-  const baseXp = Math.round(marksEarned * BASE_XP_PER_MARK);
-  const accuracyBonus = accuracy >= ACCURACY_BONUS_THRESHOLD ? Math.round(baseXp * 0.25) : 0;
-  const perfectionBonus = accuracy >= 0.99 ? Math.round(baseXp * 0.5) : 0;
+  const xpAwarded = calculateSessionXp(marksEarned, accuracy) + speedBonusXp;
 
-  const totalBonus = accuracyBonus + perfectionBonus;
-  const xpAwarded = baseXp + totalBonus;
-
-  const streakDelta = calculateStreakDelta(current, accuracy);
-  const updatedStreak = Math.max(0, current.current_streak_days + streakDelta);
-  const longestStreak = Math.max(current.longest_streak_days, updatedStreak);
+  const lastActiveAt = dayjs().toISOString();
+  const timezone = await fetchStudentTimezone(studentId);
+  const today = resolveCalendarDay(lastActiveAt, timezone);
+  const streak = applyStreakActivity(toStreakState(current), today);
 
   const updatedXpTotal = current.xp_total + xpAwarded;
   const updatedLevel = calculateLevel(updatedXpTotal);
-  const lastActiveAt = dayjs().toISOString();
 
   const newProgress: GamificationProgress = {
     student_id: studentId,
     xp_total: updatedXpTotal,
     level: updatedLevel,
-    longest_streak_days: longestStreak,
-    current_streak_days: updatedStreak,
+    longest_streak_days: streak.longestStreak,
+    current_streak_days: streak.currentStreak,
     badges: Array.isArray(current.badges) ? current.badges : [],
-    last_active_at: lastActiveAt
+    last_active_at: lastActiveAt,
+    last_streak_day: streak.lastStreakDay,
+    streak_freezes_available: streak.freezesAvailable,
+    xp_spent: current.xp_spent ?? 0
   };
 
-  const newBadges = determineBadges(newProgress, accuracy, marksEarned, xpAwarded);
-  if (newBadges.length) {
-    newProgress.badges = [...newProgress.badges, ...newBadges];
-  }
-
   await supabase
     .from('student_gamification')
     .upsert({
@@ -80,95 +94,243 @@ export async function applyGamificationRewards(request: GamificationRequest): Pr
       longest_streak_days: newProgress.longest_streak_days,
       current_streak_days: newProgress.current_streak_days,
       badges: newProgress.badges,
-      last_active_at: newProgress.last_active_at
+      last_active_at: newProgress.last_active_at,
+      last_streak_day: newProgress.last_streak_day,
+      streak_freezes_available: newProgress.streak_freezes_available
     });
 
+  await recordActivityDay(studentId, today, xpAwarded, streak);
+
   return {
     xpAwarded,
-    streakDelta,
+    streakDelta: streak.streakDelta,
     progress: newProgress,
-    newBadges,
     leaderboardSnapshot: null
   };
 }
 
-function calculateStreakDelta(progress: GamificationProgress, accuracy: number): number {
-  if (!progress.last_active_at) {
-    return accuracy >= STREAK_BREAK_THRESHOLD ? 1 : 0;
-  }
-
-  const lastActive = dayjs(progress.last_active_at);
-  const today = dayjs();
+/**
+ * Awards the achievement tiers a completed session unlocked. The database
+ * re-checks every rule, so call this after the session is stored as completed
+ * and the student's progress has been saved.
+ */
+export async function awardSessionAchievements(
+  progress: GamificationProgress
+): Promise<{ progress: GamificationProgress; newBadges: GamificationBadge[] }> {
+  let newBadges: GamificationBadge[];
 
-  if (today.diff(lastActive, 'day') > 1) {
-    return accuracy >= STREAK_BREAK_THRESHOLD ? 1 - progress.current_streak_days : -progress.current_streak_days;
+  // Achievements are a bonus on top of the session; never fail completion over them
+  try {
+    newBadges = await awardAchievements(progress.student_id);
+  } catch (error) {
+    console.error('Failed to award achievements:', error);
+    return { progress, newBadges: [] };
   }
 
-  if (accuracy >= STREAK_BREAK_THRESHOLD) {
-    return 1;
+  if (!newBadges.length) {
+    return { progress, newBadges };
   }
 
-  return -progress.current_streak_days;
+  const held = new Set(progress.badges.map((badge) => badge.id));
+  const badges = [...progress.badges, ...newBadges.filter((badge) => !held.has(badge.id))];
+
+  await supabase
+    .from('student_gamification')
+    .update({ badges })
+    .eq('student_id', progress.student_id);
+
+  return { progress: { ...progress, badges }, newBadges };
 }
 
-function calculateLevel(xpTotal: number): number {
-  const levelThresholds = [0, 200, 500, 900, 1400, 2000, 2700, 3500, 4400, 5400];
-  for (let level = levelThresholds.length - 1; level >= 0; level -= 1) {
-    if (xpTotal >= levelThresholds[level]) {
-      return level + 1;
-    }
+export function calculateSessionXp(marksEarned: number, accuracy: number): number {
+  const baseXp = Math.round(marksEarned * BASE_XP_PER_MARK);
+  const accuracyBonus = accuracy >= ACCURACY_BONUS_THRESHOLD ? Math.round(baseXp * 0.25) : 0;
+  const perfectionBonus = accuracy >= 0.99 ? Math.round(baseXp * 0.5) : 0;
+  return baseXp + accuracyBonus + perfectionBonus;
+}
+
+/**
+ * Spends XP on a streak-freeze token. Cost, cap and balance are checked in
+ * the database so concurrent purchases cannot overspend.
+ */
+export async function purchaseStreakFreeze(studentId: string): Promise<GamificationProgress> {
+  const { data, error } = await supabase.rpc('purchase_streak_freeze', { p_student_id: studentId });
+
+  if (error) {
+    throw new Error(
+      error.message.includes('Not enough XP') ? 'Not enough XP, or you already hold the maximum number of freezes' : `Failed to buy streak freeze: ${error.message}`
+    );
   }
-  return 1;
+
+  return data as GamificationProgress;
 }
 
-function determineBadges(
-  progress: GamificationProgress,
-  accuracy: number,
-  marksEarned: number,
-  xpAwarded: number
-): GamificationBadge[] {
-  const badges: GamificationBadge[] = [];
-  const timestamp = dayjs().toISOString();
-
-  if (accuracy >= 0.95) {
-    badges.push({
-      id: `accuracy-master-${timestamp}`,
-      name: 'Accuracy Master',
-      description: 'Achieved over 95% accuracy in a session.',
-      earned_at: timestamp,
-      icon: 'target'
-    });
+export async function fetchStreakOverview(studentId: string, days = 35): Promise<StreakOverview> {
+  const [{ data: progress }, timezone] = await Promise.all([
+    supabase.from('student_gamification').select('*').eq('student_id', studentId).maybeSingle(),
+    fetchStudentTimezone(studentId)
+  ]);
+
+  const today = resolveCalendarDay(new Date(), timezone);
+  const from = addCalendarDays(today, -(days - 1));
+
+  const { data: activity, error } = await supabase
+    .from('student_activity_days')
+    .select('*')
+    .eq('student_id', studentId)
+    .gte('activity_date', from)
+    .lte('activity_date', today);
+
+  if (error) {
+    throw new Error(`Unable to load streak history: ${error.message}`);
   }
 
-  if (progress.current_streak_days !== undefined && progress.current_streak_days % 5 === 0 && progress.current_streak_days > 0) {
-    badges.push({
-      id: `streak-${progress.current_streak_days}-${timestamp}`,
-      name: `${progress.current_streak_days}-Day Streak`,
-      description: `Maintained a ${progress.current_streak_days}-day streak.`,
-      earned_at: timestamp,
-      icon: 'flame'
-    });
+  const current = (progress as GamificationProgress | null) ?? null;
+  const state = toStreakState(current);
+
+  return {
+    timezone,
+    today,
+    currentStreak: resolveDisplayedStreak(state, today),
+    longestStreak: state.longestStreak,
+    freezesAvailable: state.freezesAvailable,
+    spendableXp: Math.max(0, (current?.xp_total ?? 0) - (current?.xp_spent ?? 0)),
+    days: buildStreakCalendar((activity ?? []) as StudentActivityDay[], from, today)
+  };
+}
+
+export interface StudentActivitySummary {
+  studentId: string;
+  studentName: string;
+  currentStreak: number;
+  days: StreakCalendarDay[];
+}
+
+/**
+ * Daily activity for every student the current user may see (row level
+ * security limits teachers to their class sections). Each student's window
+ * ends on today in their school's timezone. Students without any activity in
+ * the window are not listed.
+ */
+export async function fetchClassActivity(days = 14): Promise<StudentActivitySummary[]> {
+  const now = new Date();
+  // Widened by a day either side so every timezone's window is covered
+  const utcToday = resolveCalendarDay(now, DEFAULT_STREAK_TIMEZONE);
+
+  const { data, error } = await supabase
+    .from('student_activity_days')
+    .select(
+      '*, student:students(id, user:users(name, email), school:schools(timezone), game:student_gamification(current_streak_days))'
+    )
+    .gte('activity_date', addCalendarDays(utcToday, -days))
+    .lte('activity_date', addCalendarDays(utcToday, 1));
+
+  if (error) {
+    throw new Error(`Unable to load class activity: ${error.message}`);
   }
 
-  if (xpAwarded >= 1000) {
-    badges.push({
-      id: `xp-surge-${timestamp}`,
-      name: 'XP Surge',
-      description: 'Earned over 1000 XP in one session.',
-      earned_at: timestamp,
-      icon: 'zap'
-    });
+  const byStudent = new Map<string, { name: string; streak: number; today: string; activity: StudentActivityDay[] }>();
+  (data ?? []).forEach((row) => {
+    const student = row.student as {
+      id: string;
+      user: { name: string | null; email: string | null } | null;
+      school: { timezone: string | null } | null;
+      game: { current_streak_days: number } | null;
+    } | null;
+    const entry = byStudent.get(row.student_id) ?? {
+      name: student?.user?.name ?? student?.user?.email ?? 'Student',
+      streak: student?.game?.current_streak_days ?? 0,
+      today: resolveCalendarDay(now, student?.school?.timezone),
+      activity: []
+    };
+    entry.activity.push(row as StudentActivityDay);
+    byStudent.set(row.student_id, entry);
+  });
+
+  return Array.from(byStudent.entries())
+    .map(([studentId, entry]) => ({
+      studentId,
+      studentName: entry.name,
+      currentStreak: entry.streak,
+      days: buildStreakCalendar(entry.activity, addCalendarDays(entry.today, -(days - 1)), entry.today)
+    }))
+    .filter((summary) => summary.days.some((day) => day.status !== 'missed'))
+    .sort((a, b) => a.studentName.localeCompare(b.studentName));
+}
+
+async function fetchStudentTimezone(studentId: string): Promise<string> {
+  const { data } = await supabase
+    .from('students')
+    .select('school:schools(timezone)')
+    .eq('id', studentId)
+    .maybeSingle();
+
+  const school = data?.school as unknown as { timezone: string | null } | null;
+  return school?.timezone || DEFAULT_STREAK_TIMEZONE;
+}
+
+function toStreakState(progress: GamificationProgress | null): StreakState {
+  return {
+    currentStreak: progress?.current_streak_days ?? 0,
+    longestStreak: progress?.longest_streak_days ?? 0,
+    lastStreakDay: progress?.last_streak_day ?? null,
+    freezesAvailable: progress?.streak_freezes_available ?? 0
+  };
+}
+
+async function recordActivityDay(studentId: string, day: string, xpEarned: number, streak: StreakUpdate): Promise<void> {
+  const updatedAt = dayjs().toISOString();
+
+  if (streak.frozenDays.length) {
+    const { error: freezeError } = await supabase
+      .from('student_activity_days')
+      .upsert(
+        streak.frozenDays.map((frozenDay) => ({
+          student_id: studentId,
+          activity_date: frozenDay,
+          freeze_used: true,
+          updated_at: updatedAt
+        })),
+        { onConflict: 'student_id,activity_date', ignoreDuplicates: true }
+      );
+
+    if (freezeError) {
+      console.error('Failed to record frozen streak days:', freezeError);
+    }
   }
 
-  if (marksEarned === 0) {
-    badges.push({
-      id: `bounceback-${timestamp}`,
-      name: 'Bounce Back',
-      description: 'Opportunity to learn from a challenging session.',
-      earned_at: timestamp,
-      icon: 'refresh'
-    });
+  const { data: existing } = await supabase
+    .from('student_activity_days')
+    .select('sessions_completed, xp_earned')
+    .eq('student_id', studentId)
+    .eq('activity_date', day)
+    .maybeSingle();
+
+  const { error } = await supabase
+    .from('student_activity_days')
+    .upsert(
+      {
+        student_id: studentId,
+        activity_date: day,
+        sessions_completed: (existing?.sessions_completed ?? 0) + 1,
+        xp_earned: (existing?.xp_earned ?? 0) + xpEarned,
+        updated_at: updatedAt
+      },
+      { onConflict: 'student_id,activity_date' }
+    );
+
+  if (error) {
+    console.error('Failed to record activity day:', error);
   }
+}
 
-  return badges;
+function calculateLevel(xpTotal: number): number {
+  const levelThresholds = [0, 200, 500, 900, 1400, 2000, 2700, 3500, 4400, 5400];
+  for (let level = levelThresholds.length - 1; level >= 0; level -= 1) {
+    if (xpTotal >= levelThresholds[level]) {
+      return level + 1;
+    }
+  }
+  return 1;
 }
+
@@ -0,0 +1,121 @@
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import { GradeBoundaryTable, GradePrediction } from '@/types/practice';
+import { parsePaperCode, predictGrade, selectBoundaryTable, validateBoundaryTable } from './practice/gradePrediction';
+
+export type GradeBoundaryTableInput = Pick<
+  GradeBoundaryTable,
+  | 'board'
+  | 'grading_scheme'
+  | 'syllabus_code'
+  | 'component_code'
+  | 'exam_series'
+  | 'exam_year'
+  | 'max_mark'
+  | 'thresholds'
+  | 'subject_id'
+  | 'notes'
+  | 'is_active'
+> & { id?: string };
+
+export async function fetchGradeBoundaryTables(includeInactive = false): Promise<GradeBoundaryTable[]> {
+  let query = supabase
+    .from('grade_boundary_tables')
+    .select('*')
+    .order('syllabus_code', { ascending: true })
+    .order('exam_year', { ascending: false });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Unable to load grade boundaries: ${error.message}`);
+  }
+
+  return (data ?? []) as GradeBoundaryTable[];
+}
+
+export async function saveGradeBoundaryTable(input: GradeBoundaryTableInput): Promise<GradeBoundaryTable> {
+  const problems = validateBoundaryTable(input);
+  if (problems.length) {
+    throw new Error(problems.join('. '));
+  }
+
+  const { id, ...fields } = input;
+  const payload = {
+    ...fields,
+    syllabus_code: fields.syllabus_code.trim().toUpperCase(),
+    component_code: fields.component_code?.trim().toUpperCase() || null,
+    updated_at: dayjs().toISOString()
+  };
+
+  const { data, error } = id
+    ? await supabase.from('grade_boundary_tables').update(payload).eq('id', id).select('*').single()
+    : await supabase.from('grade_boundary_tables').insert(payload).select('*').single();
+
+  if (error) {
+    throw new Error(
+      error.code === '23505'
+        ? 'A boundary table for this paper and exam series already exists'
+        : `Failed to save grade boundaries: ${error.message}`
+    );
+  }
+
+  return data as GradeBoundaryTable;
+}
+
+export async function setGradeBoundaryTableActive(id: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('grade_boundary_tables')
+    .update({ is_active: isActive, updated_at: dayjs().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to update grade boundaries: ${error.message}`);
+  }
+}
+
+export async function fetchGradeBoundaryTableById(id: string): Promise<GradeBoundaryTable | null> {
+  const { data, error } = await supabase.from('grade_boundary_tables').select('*').eq('id', id).maybeSingle();
+
+  if (error) {
+    throw new Error(`Unable to load grade boundaries: ${error.message}`);
+  }
+
+  return (data as GradeBoundaryTable | null) ?? null;
+}
+
+/**
+ * Most specific active table for a paper code such as 0620/42, or null when
+ * the syllabus has no boundaries configured.
+ */
+export async function findBoundaryTableForPaper(paperCode: string | null | undefined): Promise<GradeBoundaryTable | null> {
+  const { syllabusCode } = parsePaperCode(paperCode);
+  if (!syllabusCode) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('grade_boundary_tables')
+    .select('*')
+    .eq('is_active', true)
+    .ilike('syllabus_code', syllabusCode);
+
+  if (error) {
+    console.warn('Unable to load grade boundaries for paper', error);
+    return null;
+  }
+
+  return selectBoundaryTable((data ?? []) as GradeBoundaryTable[], paperCode);
+}
+
+export async function predictGradeForPaper(
+  paperCode: string | null | undefined,
+  marksEarned: number,
+  marksAvailable: number
+): Promise<GradePrediction> {
+  const table = await findBoundaryTableForPaper(paperCode);
+  return predictGrade(table, marksEarned, marksAvailable);
+}
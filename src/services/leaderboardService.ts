@@ -1,14 +1,10 @@
 import dayjs from 'dayjs';
 import { supabase } from '@/lib/supabase';
-import { LeaderboardPeriod, LeaderboardScope, LeaderboardSnapshot, LeaderboardRow } from '@/types/practice';
+import { LeaderboardPeriod, LeaderboardPrivacy, LeaderboardScope, LeaderboardSnapshot } from '@/types/practice';
+import { DEFAULT_STREAK_TIMEZONE, resolveCalendarDay } from './practice/streakCalendar';
 
 interface LeaderboardUpdateRequest {
   studentId: string;
-  sessionId: string;
-  marksEarned: number;
-  marksAvailable: number;
-  accuracy: number;
-  xpAwarded: number;
   subjectId: string | null;
 }
 
@@ -16,120 +12,104 @@ interface LeaderboardQueryParams {
   scope: LeaderboardScope;
   period: LeaderboardPeriod;
   subjectId?: string | null;
+  /** Branch id for school boards, `<branch id>:<grade>-<section>` for class boards */
+  scopeKey?: string;
+  /** School timezone for school and class boards; global boards use UTC */
+  timeZone?: string | null;
 }
 
+/**
+ * Refreshes the student's rows after a session completes. Leaderboards are
+ * secondary to finishing the session, so failures are logged, not thrown.
+ */
 export async function updateLeaderboards(request: LeaderboardUpdateRequest): Promise<void> {
-  const studentProfile = await fetchStudentProfile(request.studentId);
-  const studentName = studentProfile?.name ?? 'Student';
-  const avatarUrl = studentProfile?.avatarUrl ?? null;
-  const streak = studentProfile?.currentStreak ?? 0;
-
-  const scopes: LeaderboardScope[] = ['global'];
-  if (studentProfile?.branchId) {
-    scopes.push('school');
-  }
-  if (studentProfile?.classKey) {
-    scopes.push('class');
+  try {
+    await recordStudentLeaderboards(request.studentId, request.subjectId, new Date().toISOString());
+  } catch (error) {
+    console.error('Unable to update leaderboards:', error);
   }
+}
 
-  const periods: LeaderboardPeriod[] = ['daily', 'weekly', 'monthly'];
-
-  await Promise.all(
-    scopes.flatMap((scope) =>
-      periods.map(async (period) => {
-        const { start, end } = resolvePeriodRange(period);
-        let query = supabase
-          .from('leaderboards_periodic')
-          .select('id, rows')
-          .eq('scope', scope)
-          .eq('period', period)
-          .eq('period_start', start)
-          .limit(1);
-
-        query = request.subjectId ? query.eq('subject_id', request.subjectId) : query.is('subject_id', null);
-
-        const { data } = await query.maybeSingle();
-
-        const existingRows: LeaderboardRow[] = (data?.rows as LeaderboardRow[]) ?? [];
-        const updatedRows = upsertLeaderboardRow(existingRows, {
-          studentId: request.studentId,
-          studentName,
-          avatarUrl,
-          xp: request.xpAwarded,
-          accuracy: request.accuracy,
-          streak,
-          medianTimeSec: estimateMedianTime(request.marksEarned, request.marksAvailable)
-        });
+/**
+ * The student's row on every board they belong to is recomputed in the
+ * database from completed sessions (XP summed, accuracy weighted by marks),
+ * with each board row locked so concurrent completions cannot overwrite each
+ * other. The database turns the instant into each board's period in that
+ * board's timezone. A scheduled rebuild_leaderboards() run recomputes whole
+ * boards.
+ */
+async function recordStudentLeaderboards(studentId: string, subjectId: string | null, referenceAt: string): Promise<void> {
+  const { error } = await supabase.rpc('record_leaderboard_student', {
+    p_student_id: studentId,
+    p_subject_id: subjectId,
+    p_reference_at: referenceAt
+  });
 
-        if (data?.id) {
-          await supabase
-            .from('leaderboards_periodic')
-            .update({ rows: updatedRows })
-            .eq('id', data.id);
-        } else {
-          await supabase
-            .from('leaderboards_periodic')
-            .insert({
-              scope,
-              period,
-              period_start: start,
-              period_end: end,
-              subject_id: request.subjectId,
-              rows: updatedRows
-            });
-        }
-      })
-    )
-  );
+  if (error) {
+    throw new Error(`Unable to update leaderboards: ${error.message}`);
+  }
 }
 
+/**
+ * Boards are read through get_leaderboard_snapshot(), which applies each
+ * student's current school policy and opt-out to the stored rows. Returns null
+ * when there is no board or the viewer's school does not show this scope.
+ */
 export async function getLeaderboardSnapshot(params: LeaderboardQueryParams): Promise<LeaderboardSnapshot | null> {
-  const { scope, period, subjectId } = params;
-  const { start } = resolvePeriodRange(period);
-
-  let query = supabase
-    .from('leaderboards_periodic')
-    .select('*')
-    .eq('scope', scope)
-    .eq('period', period)
-    .eq('period_start', start)
-    .limit(1);
-
-  query = subjectId ? query.eq('subject_id', subjectId) : query.is('subject_id', null);
-
-  const { data, error } = await query.maybeSingle();
+  const { scope, period, subjectId, scopeKey = '', timeZone } = params;
+  const { start } = resolvePeriodRange(period, new Date(), scope === 'global' ? DEFAULT_STREAK_TIMEZONE : timeZone);
+
+  const { data, error } = await supabase.rpc('get_leaderboard_snapshot', {
+    p_scope: scope,
+    p_scope_key: scopeKey,
+    p_period: period,
+    p_period_start: start,
+    p_subject_id: subjectId ?? null
+  });
 
   if (error) {
     throw new Error(`Unable to load leaderboard snapshot: ${error.message}`);
   }
 
-  return data as LeaderboardSnapshot | null;
+  return (data as LeaderboardSnapshot | null) ?? null;
 }
 
-async function fetchStudentProfile(studentId: string) {
-  const { data } = await supabase
-    .from('students')
-    .select('id, branch_id, grade_level, section, user:users(name, avatar_url, raw_user_meta_data), game:student_gamification(current_streak_days)')
-    .eq('id', studentId)
-    .maybeSingle();
+export async function fetchLeaderboardPrivacy(studentId: string): Promise<LeaderboardPrivacy | null> {
+  const { data, error } = await supabase.rpc('get_leaderboard_privacy', { p_student_id: studentId });
 
-  if (!data) {
-    return null;
+  if (error) {
+    throw new Error(`Unable to load leaderboard settings: ${error.message}`);
   }
 
-  const userMeta = (data.user?.raw_user_meta_data as { name?: string; avatar_url?: string | null } | null) ?? {};
+  return (data as LeaderboardPrivacy | null) ?? null;
+}
+
+/**
+ * Records an explicit leaderboard choice, overriding the age-based default.
+ * Opting out also removes the student's rows from stored boards. Students
+ * under the school's minimum age can only be opted in by staff or a parent.
+ */
+export async function setLeaderboardOptOut(studentId: string, optOut: boolean): Promise<void> {
+  const { error } = await supabase.rpc('set_leaderboard_opt_out', {
+    p_student_id: studentId,
+    p_opt_out: optOut
+  });
 
-  return {
-    name: data.user?.name ?? userMeta.name ?? 'Student',
-    avatarUrl: data.user?.avatar_url ?? userMeta.avatar_url ?? null,
-    branchId: data.branch_id as string | null,
-    classKey: data.grade_level && data.section ? `${data.grade_level}-${data.section}` : null,
-    currentStreak: data.game?.current_streak_days ?? 0
-  };
+  if (error) {
+    throw new Error(`Unable to update leaderboard settings: ${error.message}`);
+  }
 }
 
-function resolvePeriodRange(period: LeaderboardPeriod): { start: string; end: string } {
-  const now = dayjs();
+/**
+ * Start and end dates of the period containing `at`, counted in the board's
+ * timezone like leaderboard_rows() in the database. Weeks start on Sunday.
+ */
+export function resolvePeriodRange(
+  period: LeaderboardPeriod,
+  at: string | Date = new Date(),
+  timeZone?: string | null
+): { start: string; end: string } {
+  const now = dayjs(resolveCalendarDay(at, timeZone));
   switch (period) {
     case 'daily':
       return { start: now.startOf('day').format('YYYY-MM-DD'), end: now.endOf('day').format('YYYY-MM-DD') };
@@ -138,37 +118,10 @@ function resolvePeriodRange(period: LeaderboardPeriod): { start: string; end: st
     case 'monthly':
       return { start: now.startOf('month').format('YYYY-MM-DD'), end: now.endOf('month').format('YYYY-MM-DD') };
     case 'seasonal':
-    default:
-      return { start: now.startOf('quarter').format('YYYY-MM-DD'), end: now.endOf('quarter').format('YYYY-MM-DD') };
-  }
-}
-
-function upsertLeaderboardRow(existing: LeaderboardRow[], row: Omit<LeaderboardRow, 'rank'>): LeaderboardRow[] {
-  const rows = existing.map((entry) => ({ ...entry }));
-  const index = rows.findIndex((entry) => entry.studentId === row.studentId);
-  if (index >= 0) {
-    rows[index].xp += row.xp;
-    rows[index].accuracy = (rows[index].accuracy + row.accuracy) / 2;
-    rows[index].medianTimeSec = (rows[index].medianTimeSec + row.medianTimeSec) / 2;
-    rows[index].streak = row.streak;
-  } else {
-    rows.push({ ...row, rank: rows.length + 1 });
-  }
-
-  rows.sort((a, b) => {
-    if (b.xp === a.xp) {
-      return b.accuracy - a.accuracy;
+    default: {
+      // Calendar quarters, matching leaderboard_period_range() in the database
+      const quarterStart = now.month(Math.floor(now.month() / 3) * 3).startOf('month');
+      return { start: quarterStart.format('YYYY-MM-DD'), end: quarterStart.add(2, 'month').endOf('month').format('YYYY-MM-DD') };
     }
-    return b.xp - a.xp;
-  });
-
-  return rows.map((entry, position) => ({ ...entry, rank: position + 1 }));
-}
-
-function estimateMedianTime(marksEarned: number, marksAvailable: number): number {
-  if (marksAvailable <= 0) {
-    return 0;
   }
-  const ratio = marksEarned / marksAvailable;
-  return Math.max(10, Math.round(120 - ratio * 60));
 }
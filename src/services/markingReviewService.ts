@@ -0,0 +1,182 @@
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import {
+  ManualMarkResult,
+  MarkingOverrideRequest,
+  PracticeAnswer,
+  PracticeAnswerFlag,
+  PracticeAnswerFlagStatus
+} from '@/types/practice';
+import { applyMarkingOverrides, resolveEffectiveMarking } from './practice/markingOverride';
+
+interface ManualMarkingOutcome {
+  marksBefore: number;
+  marksAfter: number;
+  flag: PracticeAnswerFlag | null;
+}
+
+const FLAG_QUEUE_SELECT =
+  '*, answer:practice_answers(*), question:questions_master_admin(id, question_number, question_description, marks, type, subject:edu_subjects(name)), student:students(id, user:users(name, email))';
+
+async function getCurrentUserId(): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) {
+    throw new Error('Unable to resolve authenticated user');
+  }
+  return user.id;
+}
+
+/**
+ * Student action from the practice report: asks a teacher to re-mark an answer.
+ */
+export async function flagAnswerForReview(answerId: string, comment: string): Promise<PracticeAnswerFlag> {
+  const { data: answer, error } = await supabase
+    .from('practice_answers')
+    .select('id, session_id, question_id, session:practice_sessions(student_id)')
+    .eq('id', answerId)
+    .maybeSingle();
+
+  if (error || !answer) {
+    throw new Error('Practice answer not found');
+  }
+
+  const { data: pending } = await supabase
+    .from('practice_answer_flags')
+    .select('id')
+    .eq('answer_id', answerId)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  const session = answer.session as unknown as { student_id: string } | null;
+  if (!session) {
+    throw new Error('Practice session not found for answer');
+  }
+  if (pending) {
+    throw new Error('This answer is already waiting for teacher review');
+  }
+
+  const { data, error: insertError } = await supabase
+    .from('practice_answer_flags')
+    .insert({
+      answer_id: answerId,
+      session_id: answer.session_id,
+      student_id: session.student_id,
+      question_id: answer.question_id,
+      student_comment: comment.trim() || null
+    })
+    .select('*')
+    .single();
+
+  if (insertError) {
+    throw new Error(`Failed to flag answer: ${insertError.message}`);
+  }
+
+  return data as PracticeAnswerFlag;
+}
+
+/**
+ * Teacher queue. Row level security limits the result to students in the
+ * teacher's class sections (or everything for system admins).
+ */
+export async function fetchMarkingReviewQueue(
+  status: PracticeAnswerFlagStatus = 'pending'
+): Promise<PracticeAnswerFlag[]> {
+  const { data, error } = await supabase
+    .from('practice_answer_flags')
+    .select(FLAG_QUEUE_SELECT)
+    .eq('status', status)
+    .order('flagged_at', { ascending: status === 'pending' });
+
+  if (error) {
+    throw new Error(`Unable to load marking review queue: ${error.message}`);
+  }
+
+  return (data ?? []) as PracticeAnswerFlag[];
+}
+
+export async function dismissAnswerFlag(flagId: string, comment: string): Promise<PracticeAnswerFlag> {
+  const reviewerId = await getCurrentUserId();
+
+  const { data, error } = await supabase
+    .from('practice_answer_flags')
+    .update({
+      status: 'dismissed',
+      reviewed_by: reviewerId,
+      reviewed_at: dayjs().toISOString(),
+      teacher_comment: comment.trim() || null
+    })
+    .eq('id', flagId)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error(`Failed to dismiss flag: ${error?.message ?? 'flag is no longer pending'}`);
+  }
+
+  return data as PracticeAnswerFlag;
+}
+
+/**
+ * Applies a teacher's re-mark. The answer, session total, XP (session and
+ * student), the monthly reports cache and the flag itself are updated
+ * together by apply_practice_answer_marking().
+ */
+export async function resolveAnswerFlag(request: MarkingOverrideRequest): Promise<PracticeAnswerFlag> {
+  const reviewerId = await getCurrentUserId();
+
+  const { data: flag, error } = await supabase
+    .from('practice_answer_flags')
+    .select('*, answer:practice_answers(*)')
+    .eq('id', request.flagId)
+    .maybeSingle();
+
+  if (error || !flag) {
+    throw new Error('Marking review flag not found');
+  }
+  if (flag.status !== 'pending') {
+    throw new Error('This flag has already been reviewed');
+  }
+
+  const answer = flag.answer as PracticeAnswer;
+  const baseMarking = resolveEffectiveMarking(answer);
+  if (!baseMarking) {
+    throw new Error('Answer has no marking to override');
+  }
+
+  const manualMarking = applyMarkingOverrides(baseMarking, request.overrides, {
+    comment: request.comment,
+    reviewerId,
+    reviewedAt: dayjs().toISOString()
+  });
+  const result = await applyManualMarking(answer.id, manualMarking, flag.id);
+
+  if (!result.flag) {
+    throw new Error('Failed to resolve flag');
+  }
+
+  return result.flag;
+}
+
+async function applyManualMarking(
+  answerId: string,
+  marking: ManualMarkResult,
+  flagId: string | null
+): Promise<ManualMarkingOutcome> {
+  const { data, error } = await supabase.rpc('apply_practice_answer_marking', {
+    p_answer_id: answerId,
+    p_marking: marking,
+    p_flag_id: flagId
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to save override: ${error?.message ?? 'no result returned'}`);
+  }
+
+  const outcome = data as { marksBefore: number; marksAfter: number; flag: PracticeAnswerFlag | null };
+  return {
+    marksBefore: Number(outcome.marksBefore ?? 0),
+    marksAfter: Number(outcome.marksAfter ?? 0),
+    flag: outcome.flag ?? null
+  };
+}
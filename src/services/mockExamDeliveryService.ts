@@ -0,0 +1,189 @@
+/**
+ * Mock Exam Delivery Service
+ *
+ * Student-facing online delivery of mock exams: listing a student's online
+ * exams, starting or resuming an attempt, loading the paper, autosaving
+ * responses and submitting. Start/end windows and extra time are enforced by
+ * the database functions; the client only mirrors them for the timer.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { MockExam, MockExamLifecycleStatus } from './mockExamService';
+
+export type MockExamSubmissionStatus = 'not_started' | 'in_progress' | 'submitted' | 'graded';
+
+export interface MockExamAttemptState {
+  mockExamId: string;
+  studentId: string;
+  submissionStatus: MockExamSubmissionStatus;
+  opensAt: string;
+  closesAt: string;
+  startedAt: string | null;
+  deadlineAt: string | null;
+  submittedAt: string | null;
+  autoSubmitted: boolean;
+  extraTimeMinutes: number;
+  lastSavedAt: string | null;
+  serverNow: string;
+}
+
+export interface StudentMockExamSummary {
+  id: string;
+  title: string;
+  subject: string;
+  paperType: string;
+  status: MockExamLifecycleStatus;
+  deliveryMode: MockExam['delivery_mode'];
+  durationMinutes: number;
+  totalMarks: number | null;
+  attempt: MockExamAttemptState;
+}
+
+export interface MockExamPaperOption {
+  label: string;
+  text: string;
+}
+
+export interface MockExamPaperPart {
+  subQuestionId: string;
+  label: string | null;
+  prompt: string | null;
+  marks: number | null;
+  questionType: string | null;
+  level: number | null;
+  options: MockExamPaperOption[];
+}
+
+export interface MockExamPaperQuestion {
+  selectionId: string;
+  sequence: number;
+  sourceType: 'bank' | 'custom';
+  isOptional: boolean;
+  marks: number | null;
+  questionType: string | null;
+  prompt: string | null;
+  options: MockExamPaperOption[];
+  parts: MockExamPaperPart[];
+}
+
+export interface MockExamSavedResponse {
+  questionSelectionId: string;
+  subQuestionId: string | null;
+  answer: string | null;
+  timeSpentSeconds: number | null;
+  updatedAt: string;
+}
+
+export interface MockExamPaper {
+  attempt: MockExamAttemptState;
+  /** Omitted once the attempt is submitted or the deadline has passed */
+  questions?: MockExamPaperQuestion[];
+  instructions?: string[];
+  responses?: MockExamSavedResponse[];
+}
+
+export interface MockExamResponseDraft {
+  questionSelectionId: string;
+  subQuestionId: string | null;
+  answer: string;
+  timeSpentSeconds: number;
+}
+
+/** Key for a response to a question, or to one part of it */
+export function responseKey(questionSelectionId: string, subQuestionId: string | null): string {
+  return subQuestionId ? `${questionSelectionId}:${subQuestionId}` : questionSelectionId;
+}
+
+/**
+ * Offset between the server clock and this device, so the countdown follows
+ * the database deadline even when the device clock is wrong.
+ */
+export function serverClockOffsetMs(serverNow: string, receivedAt = Date.now()): number {
+  return new Date(serverNow).getTime() - receivedAt;
+}
+
+export function remainingSeconds(deadlineAt: string | null, offsetMs: number, now = Date.now()): number {
+  if (!deadlineAt) return 0;
+  return Math.max(0, Math.floor((new Date(deadlineAt).getTime() - (now + offsetMs)) / 1000));
+}
+
+export class MockExamDeliveryService {
+  /**
+   * Online (digital or remote) mock exams the signed-in student is registered for
+   */
+  static async getStudentMockExams(): Promise<StudentMockExamSummary[]> {
+    const { data, error } = await supabase.rpc('get_student_mock_exams');
+
+    if (error) {
+      console.error('Error fetching student mock exams:', error);
+      throw new Error(`Unable to load mock exams: ${error.message}`);
+    }
+
+    return (data as StudentMockExamSummary[] | null) ?? [];
+  }
+
+  /**
+   * Start the attempt, or return the existing one when resuming
+   */
+  static async startAttempt(examId: string): Promise<MockExamAttemptState> {
+    const { data, error } = await supabase.rpc('start_mock_exam_attempt', { p_mock_exam_id: examId });
+
+    if (error) {
+      throw new Error(`Unable to start exam: ${error.message}`);
+    }
+
+    return data as MockExamAttemptState;
+  }
+
+  static async getPaper(examId: string): Promise<MockExamPaper> {
+    const { data, error } = await supabase.rpc('get_mock_exam_paper', { p_mock_exam_id: examId });
+
+    if (error) {
+      throw new Error(`Unable to load exam paper: ${error.message}`);
+    }
+
+    return data as MockExamPaper;
+  }
+
+  /**
+   * Autosave changed responses. Returns the server time of the save.
+   */
+  static async saveResponses(examId: string, responses: MockExamResponseDraft[]): Promise<string> {
+    const { data, error } = await supabase.rpc('save_mock_exam_responses', {
+      p_mock_exam_id: examId,
+      p_responses: responses
+    });
+
+    if (error) {
+      throw new Error(`Unable to save responses: ${error.message}`);
+    }
+
+    return data as string;
+  }
+
+  static async submitAttempt(examId: string): Promise<MockExamAttemptState> {
+    const { data, error } = await supabase.rpc('submit_mock_exam_attempt', { p_mock_exam_id: examId });
+
+    if (error) {
+      throw new Error(`Unable to submit exam: ${error.message}`);
+    }
+
+    return data as MockExamAttemptState;
+  }
+
+  /**
+   * Submit every attempt still open so they are included in grading.
+   * Returns the number of attempts closed.
+   */
+  static async closeOpenAttempts(examId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('close_mock_exam_attempts', { p_mock_exam_id: examId });
+
+    if (error) {
+      throw new Error(`Unable to close open attempts: ${error.message}`);
+    }
+
+    return (data as number | null) ?? 0;
+  }
+}
+
+export default MockExamDeliveryService;
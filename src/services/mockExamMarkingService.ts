@@ -0,0 +1,472 @@
+/**
+ * Mock Exam Marking Service
+ *
+ * Script marking for the grading stage: the markable items of an exam, the
+ * registered students and their saved responses, marker allocations (by
+ * question or by script), saving marks and auto-marking objective and
+ * labelled-diagram items. Maximum marks and allocations are enforced by
+ * save_mock_exam_marks, which also recalculates each student's
+ * mock_exam_results row.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { MockExamService } from './mockExamService';
+import { responseKey } from './mockExamDeliveryService';
+import type { MockExamSubmissionStatus } from './mockExamDeliveryService';
+import {
+  resolveLabelledDiagramScheme,
+  type RawAnswerComponentRow,
+  type RawCorrectAnswerRow
+} from './practice/autoMarkingEngine';
+import { markLabelledDiagramAnswer } from './practice/labelledDiagramMarking';
+
+export type MarkerAllocationType = 'question' | 'script';
+
+export interface MarkingItem {
+  questionSelectionId: string;
+  subQuestionId: string | null;
+  questionNumber: number;
+  label: string;
+  prompt: string | null;
+  maxMarks: number;
+  /** Answer key for objective items, which are auto-marked */
+  correctAnswer: string | null;
+}
+
+export interface MarkingStudent {
+  studentId: string;
+  name: string;
+  email: string;
+  submissionStatus: MockExamSubmissionStatus;
+  attendanceStatus: string | null;
+}
+
+export interface MarkingMarker {
+  entityUserId: string;
+  name: string;
+  role: string;
+}
+
+export interface MarkerAllocation {
+  id?: string;
+  markerId: string;
+  allocationType: MarkerAllocationType;
+  questionSelectionId: string | null;
+  studentId: string | null;
+}
+
+export interface MarkingResponse {
+  studentId: string;
+  questionSelectionId: string;
+  subQuestionId: string | null;
+  studentAnswer: string | null;
+  marksAwarded: number;
+  markedAt: string | null;
+  markerId: string | null;
+  markerComments: string | null;
+  autoMarked: boolean;
+}
+
+export interface MarkingContext {
+  items: MarkingItem[];
+  students: MarkingStudent[];
+  markers: MarkingMarker[];
+  allocations: MarkerAllocation[];
+  /** Responses keyed by markKey() */
+  responses: Record<string, MarkingResponse>;
+  /** Entity user id of the signed-in marker, when they belong to the exam's company */
+  currentMarkerId: string | null;
+}
+
+export interface MarkEntry {
+  studentId: string;
+  questionSelectionId: string;
+  subQuestionId: string | null;
+  marks: number;
+  comment?: string | null;
+}
+
+export interface MarkerProgress {
+  markerId: string;
+  name: string;
+  allocated: number;
+  marked: number;
+}
+
+const MARKING_ROLES = ['lead_teacher', 'examiner', 'marker', 'moderator'];
+
+/** Key for one student's mark on one item */
+export function markKey(studentId: string, questionSelectionId: string, subQuestionId: string | null): string {
+  return `${studentId}:${responseKey(questionSelectionId, subQuestionId)}`;
+}
+
+/**
+ * The marker allocated to one item of one script. Script allocations take
+ * precedence over question allocations.
+ */
+export function allocatedMarkerFor(
+  allocations: MarkerAllocation[],
+  studentId: string,
+  questionSelectionId: string
+): string | null {
+  const script = allocations.find(
+    (allocation) => allocation.allocationType === 'script' && allocation.studentId === studentId
+  );
+  if (script) return script.markerId;
+
+  const question = allocations.find(
+    (allocation) => allocation.allocationType === 'question' && allocation.questionSelectionId === questionSelectionId
+  );
+  return question?.markerId ?? null;
+}
+
+/**
+ * Items allocated to and marked by each marker. Items without an allocation
+ * are reported under an "Unallocated" row when any exist.
+ */
+export function summariseMarkerProgress(context: MarkingContext): MarkerProgress[] {
+  const progress = new Map<string, MarkerProgress>(
+    context.markers.map((marker) => [
+      marker.entityUserId,
+      { markerId: marker.entityUserId, name: marker.name, allocated: 0, marked: 0 }
+    ])
+  );
+  const unallocated: MarkerProgress = { markerId: '', name: 'Unallocated', allocated: 0, marked: 0 };
+
+  for (const student of context.students) {
+    for (const item of context.items) {
+      const markerId = allocatedMarkerFor(context.allocations, student.studentId, item.questionSelectionId);
+      const row = (markerId && progress.get(markerId)) || unallocated;
+      row.allocated += 1;
+      if (context.responses[markKey(student.studentId, item.questionSelectionId, item.subQuestionId)]?.markedAt) {
+        row.marked += 1;
+      }
+    }
+  }
+
+  const rows = Array.from(progress.values());
+  return unallocated.allocated > 0 ? [...rows, unallocated] : rows;
+}
+
+/**
+ * Returns an error message when a mark is outside 0..maxMarks, otherwise null
+ */
+export function validateMark(item: MarkingItem, marks: number): string | null {
+  if (!Number.isFinite(marks)) return `${item.label}: enter a number`;
+  if (marks < 0 || marks > item.maxMarks) return `${item.label}: marks must be between 0 and ${item.maxMarks}`;
+  return null;
+}
+
+/**
+ * Marks every labelled-diagram answer of an exam that no marker has marked
+ * yet against the question's label scheme. The entries are stored by
+ * auto_mark_mock_exam together with the objective marks.
+ */
+async function markLabelledDiagrams(examId: string): Promise<MarkEntry[]> {
+  const { data: selections, error } = await supabase
+    .from('mock_exam_questions')
+    .select('id, question_id, question:questions_master_admin(answer_format, sub_questions(id, answer_format))')
+    .eq('mock_exam_id', examId)
+    .not('question_id', 'is', null);
+
+  if (error) {
+    throw new Error(`Unable to load exam questions: ${error.message}`);
+  }
+
+  // Question (or part) of each labelled-diagram item, keyed by responseKey()
+  const diagramQuestions = new Map<string, string>();
+  for (const selection of (selections ?? []) as unknown as Array<{
+    id: string;
+    question_id: string;
+    question: { answer_format: string | null; sub_questions: Array<{ id: string; answer_format: string | null }> | null } | null;
+  }>) {
+    if (selection.question?.answer_format === 'structural_diagram') {
+      diagramQuestions.set(responseKey(selection.id, null), selection.question_id);
+    }
+    for (const part of selection.question?.sub_questions ?? []) {
+      if (part.answer_format === 'structural_diagram') {
+        diagramQuestions.set(responseKey(selection.id, part.id), selection.question_id);
+      }
+    }
+  }
+
+  if (diagramQuestions.size === 0) return [];
+
+  const questionIds = Array.from(new Set(diagramQuestions.values()));
+  const [itemsResult, answersResult, componentsResult, responsesResult] = await Promise.all([
+    supabase.rpc('get_mock_exam_marking_items', { p_mock_exam_id: examId }),
+    supabase.from('question_correct_answers').select('*').in('question_id', questionIds),
+    supabase.from('answer_components').select('*').in('question_id', questionIds),
+    supabase
+      .from('mock_exam_responses')
+      .select('student_id, question_selection_id, sub_question_id, student_answer, marked_at, auto_marked')
+      .eq('mock_exam_id', examId)
+      .not('question_selection_id', 'is', null)
+  ]);
+
+  const failed = [itemsResult, answersResult, componentsResult, responsesResult].find((result) => result.error);
+  if (failed?.error) {
+    throw new Error(`Unable to load labelled diagram answers: ${failed.error.message}`);
+  }
+
+  const correctAnswers = (answersResult.data ?? []) as RawCorrectAnswerRow[];
+  const answerComponents = (componentsResult.data ?? []) as RawAnswerComponentRow[];
+  const responses = (responsesResult.data ?? []) as Array<{
+    student_id: string;
+    question_selection_id: string;
+    sub_question_id: string | null;
+    student_answer: string | null;
+    marked_at: string | null;
+    auto_marked: boolean | null;
+  }>;
+
+  const entries: MarkEntry[] = [];
+  for (const item of (itemsResult.data as MarkingItem[] | null) ?? []) {
+    const key = responseKey(item.questionSelectionId, item.subQuestionId);
+    const questionId = diagramQuestions.get(key);
+    if (!questionId) continue;
+
+    const forItem = (row: { question_id: string | null; sub_question_id: string | null }) =>
+      row.question_id === questionId && (row.sub_question_id ?? null) === item.subQuestionId;
+    const scheme = resolveLabelledDiagramScheme(correctAnswers.filter(forItem), answerComponents.filter(forItem));
+    if (!scheme) continue;
+
+    for (const response of responses) {
+      if (responseKey(response.question_selection_id, response.sub_question_id) !== key) continue;
+      // Never overwrite a mark entered by a marker
+      if (!response.student_answer?.trim() || (response.marked_at && !response.auto_marked)) continue;
+
+      const result = markLabelledDiagramAnswer(response.student_answer, scheme);
+      entries.push({
+        studentId: response.student_id,
+        questionSelectionId: item.questionSelectionId,
+        subQuestionId: item.subQuestionId,
+        marks: Math.min(result.totalAwarded, Number(item.maxMarks)),
+        comment: [...result.denied.map((denial) => denial.reason), ...result.notes].join('\n') || null
+      });
+    }
+  }
+
+  return entries;
+}
+
+export class MockExamMarkingService {
+  static async getMarkingContext(examId: string): Promise<MarkingContext> {
+    const [itemsResult, studentsResult, teachersResult, allocationsResult, responsesResult, userResult] =
+      await Promise.all([
+        supabase.rpc('get_mock_exam_marking_items', { p_mock_exam_id: examId }),
+        supabase
+          .from('mock_exam_students')
+          .select('student_id, submission_status, attendance_status, student:students(id, user:users(name, email))')
+          .eq('mock_exam_id', examId),
+        supabase
+          .from('mock_exam_teachers')
+          .select(`
+            role,
+            entity_users!mock_exam_teachers_entity_user_id_fkey (
+              id,
+              users!entity_users_user_id_fkey (email, raw_user_meta_data)
+            )
+          `)
+          .eq('mock_exam_id', examId),
+        supabase
+          .from('mock_exam_marker_allocations')
+          .select('id, marker_id, allocation_type, question_selection_id, student_id')
+          .eq('mock_exam_id', examId),
+        supabase
+          .from('mock_exam_responses')
+          .select('student_id, question_selection_id, sub_question_id, student_answer, marks_awarded, marked_at, marker_id, marker_comments, auto_marked')
+          .eq('mock_exam_id', examId)
+          .not('question_selection_id', 'is', null),
+        supabase.auth.getUser()
+      ]);
+
+    const failed = [itemsResult, studentsResult, teachersResult, allocationsResult, responsesResult].find(
+      (result) => result.error
+    );
+    if (failed?.error) {
+      console.error('Error loading marking context:', failed.error);
+      throw new Error(`Unable to load marking: ${failed.error.message}`);
+    }
+
+    const students = ((studentsResult.data ?? []) as unknown as Array<{
+      student_id: string;
+      submission_status: MockExamSubmissionStatus;
+      attendance_status: string | null;
+      student: { id: string; user: { name: string | null; email: string | null } | null } | null;
+    }>)
+      .map((row) => ({
+        studentId: row.student_id,
+        name: row.student?.user?.name || row.student?.user?.email?.split('@')[0] || 'Unknown student',
+        email: row.student?.user?.email ?? '',
+        submissionStatus: row.submission_status,
+        attendanceStatus: row.attendance_status
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const markers = ((teachersResult.data ?? []) as unknown as Array<{
+      role: string | null;
+      entity_users: {
+        id: string;
+        users: { email: string | null; raw_user_meta_data: { name?: string } | null } | null;
+      } | null;
+    }>)
+      .filter((row) => row.entity_users?.id && MARKING_ROLES.includes(row.role ?? ''))
+      .map((row) => ({
+        entityUserId: row.entity_users!.id,
+        name:
+          row.entity_users?.users?.raw_user_meta_data?.name ||
+          row.entity_users?.users?.email?.split('@')[0] ||
+          'Unknown Teacher',
+        role: row.role ?? 'marker'
+      }))
+      // A teacher can hold several roles on one exam
+      .filter((marker, index, all) => all.findIndex((other) => other.entityUserId === marker.entityUserId) === index);
+
+    const allocations = ((allocationsResult.data ?? []) as Array<{
+      id: string;
+      marker_id: string;
+      allocation_type: MarkerAllocationType;
+      question_selection_id: string | null;
+      student_id: string | null;
+    }>).map((row) => ({
+      id: row.id,
+      markerId: row.marker_id,
+      allocationType: row.allocation_type,
+      questionSelectionId: row.question_selection_id,
+      studentId: row.student_id
+    }));
+
+    const responses: Record<string, MarkingResponse> = {};
+    for (const row of (responsesResult.data ?? []) as Array<{
+      student_id: string;
+      question_selection_id: string;
+      sub_question_id: string | null;
+      student_answer: string | null;
+      marks_awarded: number | null;
+      marked_at: string | null;
+      marker_id: string | null;
+      marker_comments: string | null;
+      auto_marked: boolean | null;
+    }>) {
+      responses[markKey(row.student_id, row.question_selection_id, row.sub_question_id)] = {
+        studentId: row.student_id,
+        questionSelectionId: row.question_selection_id,
+        subQuestionId: row.sub_question_id,
+        studentAnswer: row.student_answer,
+        marksAwarded: Number(row.marks_awarded ?? 0),
+        markedAt: row.marked_at,
+        markerId: row.marker_id,
+        markerComments: row.marker_comments,
+        autoMarked: Boolean(row.auto_marked)
+      };
+    }
+
+    // Mock exam markers are recorded as entity users rather than auth users
+    let currentMarkerId: string | null = null;
+    const userId = userResult.data.user?.id;
+    if (userId) {
+      const { data: exam } = await supabase.from('mock_exams').select('company_id').eq('id', examId).maybeSingle();
+      if (exam?.company_id) {
+        const { data: entityUser } = await supabase
+          .from('entity_users')
+          .select('id')
+          .eq('user_id', userId)
+          .eq('company_id', exam.company_id)
+          .maybeSingle();
+        currentMarkerId = entityUser?.id ?? null;
+      }
+    }
+
+    return {
+      items: ((itemsResult.data as MarkingItem[] | null) ?? []).map((item) => ({
+        ...item,
+        maxMarks: Number(item.maxMarks)
+      })),
+      students,
+      markers,
+      allocations,
+      responses,
+      currentMarkerId
+    };
+  }
+
+  /**
+   * Save a batch of marks, then refresh predicted grades from the exam's
+   * boundary table. Returns the number of marks saved.
+   */
+  static async saveMarks(examId: string, marks: MarkEntry[]): Promise<number> {
+    if (marks.length === 0) return 0;
+
+    const { data, error } = await supabase.rpc('save_mock_exam_marks', {
+      p_mock_exam_id: examId,
+      p_marks: marks
+    });
+
+    if (error) {
+      throw new Error(`Unable to save marks: ${error.message}`);
+    }
+
+    await MockExamService.applyGradeBoundaries(examId);
+    return (data as number | null) ?? 0;
+  }
+
+  /**
+   * Mark objective and labelled-diagram items that no marker has marked yet.
+   * Returns the number of students whose scripts changed.
+   */
+  static async autoMark(examId: string): Promise<number> {
+    const labelMarks = await markLabelledDiagrams(examId);
+    const { data, error } = await supabase.rpc('auto_mark_mock_exam', {
+      p_mock_exam_id: examId,
+      p_label_marks: labelMarks
+    });
+
+    if (error) {
+      throw new Error(`Unable to auto-mark responses: ${error.message}`);
+    }
+
+    const count = (data as number | null) ?? 0;
+    if (count > 0) {
+      await MockExamService.applyGradeBoundaries(examId);
+    }
+    return count;
+  }
+
+  /**
+   * Replace every marker allocation of an exam
+   */
+  static async saveAllocations(examId: string, allocations: MarkerAllocation[]): Promise<void> {
+    const {
+      data: { user }
+    } = await supabase.auth.getUser();
+
+    const { error: deleteError } = await supabase
+      .from('mock_exam_marker_allocations')
+      .delete()
+      .eq('mock_exam_id', examId);
+
+    if (deleteError) {
+      throw new Error(`Unable to save marker allocations: ${deleteError.message}`);
+    }
+
+    if (allocations.length === 0) return;
+
+    const { error } = await supabase.from('mock_exam_marker_allocations').insert(
+      allocations.map((allocation) => ({
+        mock_exam_id: examId,
+        marker_id: allocation.markerId,
+        allocation_type: allocation.allocationType,
+        question_selection_id: allocation.allocationType === 'question' ? allocation.questionSelectionId : null,
+        student_id: allocation.allocationType === 'script' ? allocation.studentId : null,
+        created_by: user?.id ?? null
+      }))
+    );
+
+    if (error) {
+      throw new Error(`Unable to save marker allocations: ${error.message}`);
+    }
+  }
+}
+
+export default MockExamMarkingService;
@@ -0,0 +1,326 @@
+/**
+ * Mock Exam Moderation Service
+ *
+ * Moderation stage of a mock exam: drawing a sample of marked scripts per
+ * marker, blind re-marking by a moderator, marker severity/leniency and
+ * agreement statistics, and scaling a marker's marks before results are
+ * released. A sample is one student's items marked by one marker, so exams
+ * allocated by question are moderated per marker as well.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { MockExamService } from './mockExamService';
+import { DEFAULT_MODERATION_RATE, selectModerationSample } from './moderationSampling';
+
+export type ModerationSampleStatus = 'pending' | 'moderated';
+
+export interface ModeratedItemMark {
+  questionSelectionId: string;
+  subQuestionId: string | null;
+  maxMarks: number;
+  originalMarks: number;
+  moderatedMarks: number;
+}
+
+export interface ModerationSample {
+  id: string;
+  studentId: string;
+  markerId: string;
+  status: ModerationSampleStatus;
+  originalMarks: number | null;
+  moderatedMarks: number | null;
+  maxMarks: number | null;
+  itemMarks: ModeratedItemMark[];
+  moderatorId: string | null;
+  moderatedAt: string | null;
+  notes: string | null;
+}
+
+export interface ModerationScriptItem {
+  questionSelectionId: string;
+  subQuestionId: string | null;
+  label: string;
+  prompt: string | null;
+  maxMarks: number;
+  correctAnswer: string | null;
+  studentAnswer: string | null;
+  moderatedMarks: number | null;
+}
+
+/** A sampled script without the original marks, for blind re-marking */
+export interface ModerationScript {
+  sampleId: string;
+  status: ModerationSampleStatus;
+  notes: string | null;
+  items: ModerationScriptItem[];
+}
+
+export interface ModerationMarkEntry {
+  questionSelectionId: string;
+  subQuestionId: string | null;
+  marks: number;
+}
+
+export interface MarkerScaling {
+  markerId: string;
+  factor: number;
+  appliedAt: string;
+}
+
+export type MarkerTendency = 'lenient' | 'severe' | 'in_line';
+
+export interface MarkerConsistency {
+  markerId: string;
+  sampled: number;
+  moderated: number;
+  /** Mean of original minus moderated marks per script; positive is lenient */
+  meanDifference: number;
+  /** meanDifference as a percentage of the script's maximum */
+  meanDifferencePercent: number;
+  meanAbsoluteDifferencePercent: number;
+  /** Share of items where the moderator gave exactly the original mark */
+  itemAgreementRate: number;
+  /** Share of scripts within the tolerance */
+  scriptAgreementRate: number;
+  tendency: MarkerTendency;
+  /** Factor that would bring the marker's sample totals to the moderator's */
+  suggestedFactor: number | null;
+}
+
+/** Difference, as a percentage of a script's maximum, treated as agreement */
+export const DEFAULT_MODERATION_TOLERANCE_PERCENT = 5;
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Severity/leniency and agreement statistics for each marker from the
+ * moderated samples. Markers whose samples are still pending are included with
+ * zeroed statistics.
+ */
+export function summariseMarkerConsistency(
+  samples: ModerationSample[],
+  tolerancePercent = DEFAULT_MODERATION_TOLERANCE_PERCENT
+): MarkerConsistency[] {
+  const byMarker = new Map<string, ModerationSample[]>();
+  samples.forEach((sample) => {
+    byMarker.set(sample.markerId, [...(byMarker.get(sample.markerId) ?? []), sample]);
+  });
+
+  return Array.from(byMarker.entries()).map(([markerId, markerSamples]) => {
+    const moderated = markerSamples.filter(
+      (sample) => sample.status === 'moderated' && sample.maxMarks && sample.originalMarks !== null && sample.moderatedMarks !== null
+    );
+    const differences = moderated.map((sample) => (sample.originalMarks ?? 0) - (sample.moderatedMarks ?? 0));
+    const percentDifferences = moderated.map((sample, index) => (differences[index] / (sample.maxMarks ?? 1)) * 100);
+    const items = moderated.flatMap((sample) => sample.itemMarks);
+    const originalTotal = moderated.reduce((sum, sample) => sum + (sample.originalMarks ?? 0), 0);
+    const moderatedTotal = moderated.reduce((sum, sample) => sum + (sample.moderatedMarks ?? 0), 0);
+
+    const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+    const meanDifferencePercent = mean(percentDifferences);
+
+    return {
+      markerId,
+      sampled: markerSamples.length,
+      moderated: moderated.length,
+      meanDifference: round(mean(differences)),
+      meanDifferencePercent: round(meanDifferencePercent),
+      meanAbsoluteDifferencePercent: round(mean(percentDifferences.map(Math.abs))),
+      itemAgreementRate: items.length
+        ? round(items.filter((item) => Number(item.originalMarks) === Number(item.moderatedMarks)).length / items.length, 4)
+        : 0,
+      scriptAgreementRate: moderated.length
+        ? round(percentDifferences.filter((difference) => Math.abs(difference) <= tolerancePercent).length / moderated.length, 4)
+        : 0,
+      tendency:
+        meanDifferencePercent > tolerancePercent ? 'lenient' : meanDifferencePercent < -tolerancePercent ? 'severe' : 'in_line',
+      suggestedFactor: moderated.length && originalTotal > 0 ? round(moderatedTotal / originalTotal) : null
+    };
+  });
+}
+
+interface ModerationSampleRow {
+  id: string;
+  student_id: string;
+  marker_id: string;
+  status: ModerationSampleStatus;
+  original_marks: number | null;
+  moderated_marks: number | null;
+  max_marks: number | null;
+  item_marks: ModeratedItemMark[] | null;
+  moderator_id: string | null;
+  moderated_at: string | null;
+  notes: string | null;
+}
+
+function toSample(row: ModerationSampleRow): ModerationSample {
+  return {
+    id: row.id,
+    studentId: row.student_id,
+    markerId: row.marker_id,
+    status: row.status,
+    originalMarks: row.original_marks === null ? null : Number(row.original_marks),
+    moderatedMarks: row.moderated_marks === null ? null : Number(row.moderated_marks),
+    maxMarks: row.max_marks === null ? null : Number(row.max_marks),
+    itemMarks: (row.item_marks ?? []).map((item) => ({
+      ...item,
+      maxMarks: Number(item.maxMarks),
+      originalMarks: Number(item.originalMarks),
+      moderatedMarks: Number(item.moderatedMarks)
+    })),
+    moderatorId: row.moderator_id,
+    moderatedAt: row.moderated_at,
+    notes: row.notes
+  };
+}
+
+export class MockExamModerationService {
+  static async getSamples(examId: string): Promise<ModerationSample[]> {
+    const { data, error } = await supabase
+      .from('mock_exam_moderation_samples')
+      .select('*')
+      .eq('mock_exam_id', examId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Unable to load moderation sample: ${error.message}`);
+    }
+
+    return ((data ?? []) as ModerationSampleRow[]).map(toSample);
+  }
+
+  /**
+   * Draws the moderation sample from marked scripts not yet sampled: a share
+   * of each marker's scripts spread across their mark range. Auto-marked items
+   * are left out. Returns the number of scripts selected.
+   */
+  static async drawSample(examId: string, rate = DEFAULT_MODERATION_RATE): Promise<number> {
+    const [{ data: responses, error }, { data: existing, error: existingError }, { data: { user } }] = await Promise.all([
+      supabase
+        .from('mock_exam_responses')
+        .select('student_id, marker_id, marks_awarded, max_marks, unscaled_marks')
+        .eq('mock_exam_id', examId)
+        .eq('auto_marked', false)
+        .not('marked_at', 'is', null)
+        .not('marker_id', 'is', null),
+      supabase.from('mock_exam_moderation_samples').select('student_id, marker_id').eq('mock_exam_id', examId),
+      supabase.auth.getUser()
+    ]);
+
+    if (error || existingError) {
+      throw new Error(`Unable to load marked scripts: ${(error ?? existingError)!.message}`);
+    }
+
+    const alreadySampled = new Set((existing ?? []).map((row) => `${row.student_id}:${row.marker_id}`));
+    const scripts = new Map<string, { studentId: string; markerId: string; marks: number; max: number }>();
+    (responses ?? []).forEach((row) => {
+      const id = `${row.student_id}:${row.marker_id}`;
+      if (alreadySampled.has(id)) return;
+      const script = scripts.get(id) ?? { studentId: row.student_id, markerId: row.marker_id, marks: 0, max: 0 };
+      script.marks += Number(row.unscaled_marks ?? row.marks_awarded ?? 0);
+      script.max += Number(row.max_marks ?? 0);
+      scripts.set(id, script);
+    });
+
+    // Scripts are ranked by percentage so partial scripts compare fairly
+    const selected = selectModerationSample(
+      Array.from(scripts.entries()).map(([id, script]) => ({
+        id,
+        markedBy: script.markerId,
+        marks: script.max > 0 ? script.marks / script.max : 0
+      })),
+      rate
+    );
+    if (!selected.length) {
+      return 0;
+    }
+
+    const { error: insertError } = await supabase.from('mock_exam_moderation_samples').insert(
+      selected.map((id) => ({
+        mock_exam_id: examId,
+        student_id: scripts.get(id)!.studentId,
+        marker_id: scripts.get(id)!.markerId,
+        created_by: user?.id ?? null
+      }))
+    );
+
+    if (insertError) {
+      throw new Error(`Failed to draw moderation sample: ${insertError.message}`);
+    }
+
+    return selected.length;
+  }
+
+  static async removeSample(sampleId: string): Promise<void> {
+    const { error } = await supabase.from('mock_exam_moderation_samples').delete().eq('id', sampleId);
+
+    if (error) {
+      throw new Error(`Failed to remove script from the sample: ${error.message}`);
+    }
+  }
+
+  static async getScript(sampleId: string): Promise<ModerationScript> {
+    const { data, error } = await supabase.rpc('get_mock_exam_moderation_script', { p_sample_id: sampleId });
+
+    if (error) {
+      throw new Error(`Unable to load script: ${error.message}`);
+    }
+
+    const script = data as ModerationScript;
+    return {
+      ...script,
+      items: (script.items ?? []).map((item) => ({
+        ...item,
+        maxMarks: Number(item.maxMarks),
+        moderatedMarks: item.moderatedMarks === null ? null : Number(item.moderatedMarks)
+      }))
+    };
+  }
+
+  static async saveModeration(sampleId: string, marks: ModerationMarkEntry[], notes: string): Promise<void> {
+    const { error } = await supabase.rpc('save_mock_exam_moderation', {
+      p_sample_id: sampleId,
+      p_marks: marks,
+      p_notes: notes
+    });
+
+    if (error) {
+      throw new Error(`Unable to save moderation: ${error.message}`);
+    }
+  }
+
+  static async getScaling(examId: string): Promise<MarkerScaling[]> {
+    const { data, error } = await supabase
+      .from('mock_exam_marker_scaling')
+      .select('marker_id, factor, applied_at')
+      .eq('mock_exam_id', examId);
+
+    if (error) {
+      throw new Error(`Unable to load marker scaling: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => ({ markerId: row.marker_id, factor: Number(row.factor), appliedAt: row.applied_at }));
+  }
+
+  /**
+   * Scale every item a marker marked by `factor`, or restore their own marks
+   * with a factor of 1, then refresh predicted grades. Returns the number of
+   * marks changed.
+   */
+  static async applyScaling(examId: string, markerId: string, factor: number): Promise<number> {
+    const { data, error } = await supabase.rpc('apply_mock_exam_marker_scaling', {
+      p_mock_exam_id: examId,
+      p_marker_id: markerId,
+      p_factor: factor
+    });
+
+    if (error) {
+      throw new Error(`Unable to apply scaling: ${error.message}`);
+    }
+
+    await MockExamService.applyGradeBoundaries(examId);
+    return (data as number | null) ?? 0;
+  }
+}
+
+export default MockExamModerationService;
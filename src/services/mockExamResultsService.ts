@@ -0,0 +1,267 @@
+/**
+ * Mock Exam Results Service
+ *
+ * Publishing mock exam results: releasing them when the exam moves to
+ * analytics_released, per-student score reports with a question-level and
+ * topic breakdown, and cohort distribution plus item analysis for staff.
+ * Who may see a report, and when, is decided by the database functions.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { MockExamService } from './mockExamService';
+import { median } from './practice/itemTiming';
+import type { StrengthWeaknessArea } from './practice/resultsAnalyticsService';
+
+export interface MockExamReportItem {
+  questionSelectionId: string;
+  subQuestionId: string | null;
+  label: string;
+  maxMarks: number;
+  /** Null while the item is unmarked */
+  marksAwarded: number | null;
+  markerComments: string | null;
+  topicId: string | null;
+  topicName: string | null;
+  unitName: string | null;
+}
+
+export interface MockExamReport {
+  exam: {
+    id: string;
+    title: string;
+    subject: string | null;
+    paperType: string | null;
+    scheduledDate: string | null;
+    releasedAt: string | null;
+  };
+  result: {
+    studentId: string;
+    totalMarksScored: number;
+    totalMarksPossible: number;
+    percentageScore: number | null;
+    predictedGrade: string | null;
+    marksToNextGrade: number | null;
+    completionStatus: string | null;
+    publishedAt: string | null;
+  };
+  cohort: {
+    size: number;
+    averagePercentage: number | null;
+    rank: number;
+  };
+  items: MockExamReportItem[];
+}
+
+export interface ReleasedMockExamResult {
+  examId: string;
+  studentId: string;
+  title: string;
+  releasedAt: string;
+  percentageScore: number | null;
+  predictedGrade: string | null;
+}
+
+export interface CohortResultRow {
+  studentId: string;
+  name: string | null;
+  totalMarksScored: number;
+  totalMarksPossible: number;
+  percentageScore: number | null;
+  predictedGrade: string | null;
+  completionStatus: string | null;
+  publishedAt: string | null;
+}
+
+export type ItemDifficulty = 'easy' | 'medium' | 'hard' | 'very_hard';
+
+export interface ItemAnalysisRow {
+  questionSelectionId: string;
+  subQuestionId: string | null;
+  label: string;
+  maxMarks: number;
+  attempts: number;
+  averageMarks: number;
+  /** Mean share of the marks gained, 0-1 */
+  facility: number;
+  /** Facility of the top 27% of the cohort minus the bottom 27%, -1 to 1 */
+  discrimination: number | null;
+  difficulty: ItemDifficulty;
+}
+
+export interface MockExamResultsAnalytics {
+  releasedAt: string | null;
+  results: CohortResultRow[];
+  items: ItemAnalysisRow[];
+}
+
+export interface CohortSummary {
+  count: number;
+  mean: number;
+  median: number;
+  standardDeviation: number;
+  /** Students per 10% score band, lowest band first */
+  scoreBands: Array<{ label: string; count: number }>;
+  /** Students per predicted grade, in the order the grades first appear from the top score down */
+  gradeCounts: Array<{ grade: string; count: number }>;
+}
+
+/** Items discriminating less than this between strong and weak students are worth reviewing */
+export const LOW_DISCRIMINATION_THRESHOLD = 0.2;
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Topic strengths and weaknesses from a report's marked items, using the same
+ * thresholds as practice analytics (80% and above strong, below 70% weak).
+ */
+export function summariseReportTopics(items: MockExamReportItem[]): {
+  strongAreas: StrengthWeaknessArea[];
+  weakAreas: StrengthWeaknessArea[];
+} {
+  const topics = new Map<string, { id: string | null; name: string; earned: number; available: number; total: number }>();
+  items.forEach((item) => {
+    if (item.marksAwarded === null || !item.topicName) return;
+    const key = item.topicId ?? item.topicName;
+    const topic = topics.get(key) ?? { id: item.topicId, name: item.topicName, earned: 0, available: 0, total: 0 };
+    topic.earned += Number(item.marksAwarded);
+    topic.available += Number(item.maxMarks);
+    topic.total += 1;
+    topics.set(key, topic);
+  });
+
+  const strongAreas: StrengthWeaknessArea[] = [];
+  const weakAreas: StrengthWeaknessArea[] = [];
+  topics.forEach((topic) => {
+    if (topic.available <= 0) return;
+    const accuracy = topic.earned / topic.available;
+    const area: StrengthWeaknessArea = {
+      type: 'topic',
+      id: topic.id,
+      name: topic.name,
+      accuracy,
+      questionsTotal: topic.total,
+      improvementPotential: Math.round(topic.available - topic.earned)
+    };
+    if (accuracy >= 0.8) strongAreas.push(area);
+    else if (accuracy < 0.7) weakAreas.push(area);
+  });
+
+  weakAreas.sort((a, b) => b.improvementPotential - a.improvementPotential);
+  strongAreas.sort((a, b) => b.accuracy - a.accuracy);
+  return { strongAreas: strongAreas.slice(0, 5), weakAreas: weakAreas.slice(0, 5) };
+}
+
+export function summariseCohort(results: CohortResultRow[]): CohortSummary {
+  const scores = results
+    .map((result) => result.percentageScore)
+    .filter((score): score is number => score !== null)
+    .map(Number);
+  const mean = scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+  const variance = scores.length ? scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length : 0;
+
+  const scoreBands = Array.from({ length: 10 }, (_, index) => ({
+    label: index === 9 ? '90–100%' : `${index * 10}–${index * 10 + 9}%`,
+    count: scores.filter((score) => Math.min(9, Math.floor(score / 10)) === index).length
+  }));
+
+  const gradeCounts: CohortSummary['gradeCounts'] = [];
+  [...results]
+    .sort((a, b) => Number(b.percentageScore ?? -1) - Number(a.percentageScore ?? -1))
+    .forEach((result) => {
+      const grade = result.predictedGrade ?? 'Ungraded';
+      const existing = gradeCounts.find((entry) => entry.grade === grade);
+      if (existing) existing.count += 1;
+      else gradeCounts.push({ grade, count: 1 });
+    });
+
+  return {
+    count: scores.length,
+    mean: round(mean),
+    median: round(median(scores)),
+    standardDeviation: round(Math.sqrt(variance)),
+    scoreBands,
+    gradeCounts
+  };
+}
+
+export class MockExamResultsService {
+  /**
+   * Refresh predicted grades, then publish every result of the exam. Fails
+   * while attempts are open or scripts are not fully marked. Returns the
+   * number of results published.
+   */
+  static async releaseResults(examId: string): Promise<number> {
+    await MockExamService.applyGradeBoundaries(examId);
+
+    const { data, error } = await supabase.rpc('release_mock_exam_results', { p_mock_exam_id: examId });
+
+    if (error) {
+      throw new Error(`Unable to release results: ${error.message}`);
+    }
+
+    return (data as number | null) ?? 0;
+  }
+
+  static async getReport(examId: string, studentId: string): Promise<MockExamReport> {
+    const { data, error } = await supabase.rpc('get_mock_exam_report', {
+      p_mock_exam_id: examId,
+      p_student_id: studentId
+    });
+
+    if (error) {
+      throw new Error(`Unable to load score report: ${error.message}`);
+    }
+
+    const report = data as MockExamReport;
+    return {
+      ...report,
+      items: report.items.map((item) => ({
+        ...item,
+        maxMarks: Number(item.maxMarks),
+        marksAwarded: item.marksAwarded === null ? null : Number(item.marksAwarded)
+      }))
+    };
+  }
+
+  /**
+   * Released results of the signed-in student, newest first
+   */
+  static async getReleasedResults(): Promise<ReleasedMockExamResult[]> {
+    const { data, error } = await supabase.rpc('get_student_released_mock_exams');
+
+    if (error) {
+      console.error('Error fetching released mock exam results:', error);
+      throw new Error(`Unable to load results: ${error.message}`);
+    }
+
+    return (data as ReleasedMockExamResult[] | null) ?? [];
+  }
+
+  static async getAnalytics(examId: string): Promise<MockExamResultsAnalytics> {
+    const { data, error } = await supabase.rpc('get_mock_exam_results_analytics', { p_mock_exam_id: examId });
+
+    if (error) {
+      throw new Error(`Unable to load results analytics: ${error.message}`);
+    }
+
+    const analytics = data as MockExamResultsAnalytics;
+    return {
+      releasedAt: analytics.releasedAt,
+      results: analytics.results.map((result) => ({
+        ...result,
+        totalMarksScored: Number(result.totalMarksScored ?? 0),
+        totalMarksPossible: Number(result.totalMarksPossible ?? 0),
+        percentageScore: result.percentageScore === null ? null : Number(result.percentageScore)
+      })),
+      items: analytics.items.map((item) => ({
+        ...item,
+        maxMarks: Number(item.maxMarks),
+        averageMarks: Number(item.averageMarks ?? 0),
+        facility: Number(item.facility ?? 0),
+        discrimination: item.discrimination === null ? null : Number(item.discrimination)
+      }))
+    };
+  }
+}
+
+export default MockExamResultsService;
@@ -6,6 +6,11 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { fetchGradeBoundaryTableById } from './gradeBoundaryService';
+import { predictGrade } from './practice/gradePrediction';
+import { MockExamDeliveryService } from './mockExamDeliveryService';
+import { MockExamMarkingService } from './mockExamMarkingService';
+import { MockExamResultsService } from './mockExamResultsService';
 
 export type MockExamLifecycleStatus =
   | 'draft'
@@ -40,6 +45,7 @@ export interface MockExam {
   release_analytics: boolean;
   allow_retakes: boolean;
   notes: string | null;
+  grade_boundary_table_id?: string | null;
   schools: Array<{ id: string; name: string }>;
   branches: Array<{ id: string; name: string }>;
   grade_levels: Array<{ id: string; name: string }>;
@@ -1436,6 +1442,16 @@ export class MockExamService {
         }
       }
 
+      // Online attempts still open are submitted so grading sees every script
+      if (targetStatus === 'grading') {
+        await MockExamDeliveryService.closeOpenAttempts(examId);
+      }
+
+      // Nothing reaches students or parents until results pass the release checks
+      if (targetStatus === 'analytics_released') {
+        await MockExamResultsService.releaseResults(examId);
+      }
+
       const { error: updateStatusError } = await supabase
         .from('mock_exams')
         .update({
@@ -1446,6 +1462,17 @@ export class MockExamService {
 
       if (updateStatusError) throw updateStatusError;
 
+      // Objective items are pre-filled before markers start; marks are only
+      // accepted once the exam is in grading. Markers can re-run auto-marking
+      // from the console, so a failure here does not undo the transition.
+      if (targetStatus === 'grading') {
+        try {
+          await MockExamMarkingService.autoMark(examId);
+        } catch (autoMarkError) {
+          console.error('Failed to auto-mark objective items:', autoMarkError);
+        }
+      }
+
       if (reason) {
         const { data: latestHistory, error: historyFetchError } = await supabase
           .from('mock_exam_status_history')
@@ -1759,6 +1786,74 @@ export class MockExamService {
     }
   }
 
+  /**
+   * Assign the grade boundary table used for this exam's results, and
+   * re-grade any results already recorded against it
+   */
+  static async setGradeBoundaryTable(examId: string, tableId: string | null): Promise<number> {
+    const { error } = await supabase
+      .from('mock_exams')
+      .update({ grade_boundary_table_id: tableId, updated_at: new Date().toISOString() })
+      .eq('id', examId);
+
+    if (error) {
+      console.error('[MockExamService] Error assigning grade boundaries:', error);
+      throw new Error(error.message || 'Failed to assign grade boundaries');
+    }
+
+    return MockExamService.applyGradeBoundaries(examId);
+  }
+
+  /**
+   * Recompute predicted grades and marks to the next grade for every result
+   * of an exam from its boundary table. Returns the number of results updated.
+   */
+  static async applyGradeBoundaries(examId: string): Promise<number> {
+    const { data: exam, error: examError } = await supabase
+      .from('mock_exams')
+      .select('id, grade_boundary_table_id')
+      .eq('id', examId)
+      .maybeSingle();
+
+    if (examError || !exam) {
+      throw new Error('Mock exam not found');
+    }
+
+    const table = exam.grade_boundary_table_id
+      ? await fetchGradeBoundaryTableById(exam.grade_boundary_table_id)
+      : null;
+
+    const { data: results, error: resultsError } = await supabase
+      .from('mock_exam_results')
+      .select('id, total_marks_scored, total_marks_possible')
+      .eq('mock_exam_id', examId);
+
+    if (resultsError) {
+      console.error('[MockExamService] Error loading results for grading:', resultsError);
+      throw new Error('Failed to load exam results');
+    }
+
+    for (const result of results ?? []) {
+      const prediction = predictGrade(table, Number(result.total_marks_scored), Number(result.total_marks_possible));
+      const { error } = await supabase
+        .from('mock_exam_results')
+        .update({
+          predicted_grade: prediction.grade,
+          marks_to_next_grade: prediction.marksToNextGrade,
+          grade_boundary_table_id: prediction.tableId,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', result.id);
+
+      if (error) {
+        console.error('[MockExamService] Error updating result grade:', error);
+        throw new Error('Failed to update exam result grades');
+      }
+    }
+
+    return results?.length ?? 0;
+  }
+
   /**
    * Delete a mock exam and all related records
    * Only allows deletion of exams with 'draft' status
@@ -0,0 +1,43 @@
+/**
+ * Moderation sampling shared by speaking assessments and mock exam
+ * moderation.
+ */
+
+export interface ModerationCandidate {
+  id: string;
+  markedBy: string | null;
+  marks: number;
+}
+
+/** Share of each marker's scripts drawn for moderation */
+export const DEFAULT_MODERATION_RATE = 0.1;
+
+/**
+ * Picks scripts for moderation: `rate` of each marker's scripts (at least
+ * `minimumPerMarker`), spread evenly across that marker's mark range so the
+ * sample covers weak, middling and strong performances. Deterministic for a
+ * given set of candidates.
+ */
+export function selectModerationSample(
+  candidates: ModerationCandidate[],
+  rate = DEFAULT_MODERATION_RATE,
+  minimumPerMarker = 1
+): string[] {
+  const byMarker = new Map<string, ModerationCandidate[]>();
+  candidates.forEach((candidate) => {
+    const key = candidate.markedBy ?? 'unknown';
+    byMarker.set(key, [...(byMarker.get(key) ?? []), candidate]);
+  });
+
+  const selected: string[] = [];
+  byMarker.forEach((scripts) => {
+    const sorted = [...scripts].sort((a, b) => a.marks - b.marks || a.id.localeCompare(b.id));
+    const count = Math.min(sorted.length, Math.max(minimumPerMarker, Math.ceil(sorted.length * rate)));
+    const picked = new Set<number>();
+    for (let index = 0; index < count; index++) {
+      picked.add(Math.min(sorted.length - 1, Math.floor(((index + 0.5) * sorted.length) / count)));
+    }
+    picked.forEach((position) => selected.push(sorted[position].id));
+  });
+  return selected;
+}
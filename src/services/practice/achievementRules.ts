@@ -0,0 +1,174 @@
+import {
+  AchievementCriteria,
+  AchievementDefinition,
+  AchievementMetric,
+  AchievementProgress,
+  AchievementTier,
+  GamificationBadge,
+  GamificationProgress,
+  StudentAchievement
+} from '@/types/practice';
+
+export interface AchievementSessionRecord {
+  sessionId: string;
+  accuracy: number;
+  xpEarned: number;
+  subjectId: string | null;
+  topicId: string | null;
+}
+
+export interface AchievementStats {
+  progress: Pick<GamificationProgress, 'xp_total' | 'current_streak_days' | 'longest_streak_days'>;
+  sessions: AchievementSessionRecord[];
+}
+
+export const ACHIEVEMENT_METRICS: { value: AchievementMetric; label: string; sessionBased: boolean }[] = [
+  { value: 'xp_total', label: 'Total XP', sessionBased: false },
+  { value: 'best_session_xp', label: 'XP in a single session', sessionBased: true },
+  { value: 'current_streak_days', label: 'Current streak (days)', sessionBased: false },
+  { value: 'longest_streak_days', label: 'Longest streak (days)', sessionBased: false },
+  { value: 'sessions_completed', label: 'Sessions completed', sessionBased: true },
+  { value: 'sessions_at_accuracy', label: 'Sessions at or above an accuracy', sessionBased: true },
+  { value: 'subjects_practised', label: 'Different subjects practised', sessionBased: true },
+  { value: 'topics_covered', label: 'Different topics covered', sessionBased: true }
+];
+
+const DEFAULT_MIN_ACCURACY = 0.95;
+
+/**
+ * Current value of an achievement's metric. A subject filter narrows the
+ * session-based metrics (and total XP, which becomes XP earned in that
+ * subject); streaks are always counted across all practice.
+ */
+export function evaluateAchievementMetric(criteria: AchievementCriteria, stats: AchievementStats): number {
+  const sessions = criteria.subjectId
+    ? stats.sessions.filter((session) => session.subjectId === criteria.subjectId)
+    : stats.sessions;
+
+  switch (criteria.metric) {
+    case 'xp_total':
+      return criteria.subjectId
+        ? sessions.reduce((sum, session) => sum + session.xpEarned, 0)
+        : stats.progress.xp_total;
+    case 'best_session_xp':
+      return sessions.reduce((best, session) => Math.max(best, session.xpEarned), 0);
+    case 'current_streak_days':
+      return stats.progress.current_streak_days;
+    case 'longest_streak_days':
+      return stats.progress.longest_streak_days;
+    case 'sessions_completed':
+      return sessions.length;
+    case 'sessions_at_accuracy': {
+      const minAccuracy = criteria.minAccuracy ?? DEFAULT_MIN_ACCURACY;
+      return sessions.filter((session) => session.accuracy >= minAccuracy).length;
+    }
+    case 'subjects_practised':
+      return new Set(sessions.map((session) => session.subjectId).filter(Boolean)).size;
+    case 'topics_covered':
+      return new Set(sessions.map((session) => session.topicId).filter(Boolean)).size;
+    default:
+      return 0;
+  }
+}
+
+export function sortTiers(tiers: AchievementTier[]): AchievementTier[] {
+  return tiers.slice().sort((a, b) => a.threshold - b.threshold);
+}
+
+/**
+ * Tiers the value qualifies for that the student does not already hold.
+ * Awarding is keyed on (achievement, tier), so re-running this is harmless.
+ */
+export function resolveNewTiers(
+  definition: AchievementDefinition,
+  value: number,
+  earnedTiers: Set<number>
+): AchievementTier[] {
+  return sortTiers(definition.tiers).filter((tier) => value >= tier.threshold && !earnedTiers.has(tier.tier));
+}
+
+export function buildAchievementProgress(
+  definition: AchievementDefinition,
+  currentValue: number,
+  earned: StudentAchievement[]
+): AchievementProgress {
+  const earnedTiers = earned
+    .filter((entry) => entry.achievement_id === definition.id)
+    .sort((a, b) => a.tier - b.tier);
+  const earnedSet = new Set(earnedTiers.map((entry) => entry.tier));
+  const tiers = sortTiers(definition.tiers);
+  const nextTier = tiers.find((tier) => !earnedSet.has(tier.tier)) ?? null;
+
+  if (!nextTier) {
+    return { definition, currentValue, earnedTiers, nextTier: null, progressToNext: 1 };
+  }
+
+  const previousThreshold = tiers
+    .filter((tier) => tier.threshold < nextTier.threshold)
+    .reduce((max, tier) => Math.max(max, tier.threshold), 0);
+  const span = nextTier.threshold - previousThreshold;
+  const progressToNext = span > 0 ? Math.min(1, Math.max(0, (currentValue - previousThreshold) / span)) : 0;
+
+  return { definition, currentValue, earnedTiers, nextTier, progressToNext };
+}
+
+export function toGamificationBadge(
+  definition: AchievementDefinition,
+  tier: AchievementTier,
+  earnedAt: string
+): GamificationBadge {
+  const multiTier = definition.tiers.length > 1;
+  return {
+    id: `${definition.code}-${tier.tier}`,
+    name: multiTier ? `${definition.name} (${tier.label})` : definition.name,
+    description: definition.description,
+    earned_at: earnedAt,
+    icon: definition.icon
+  };
+}
+
+/**
+ * Validation for the admin editor; returns human-readable problems.
+ */
+export function validateAchievementDefinition(
+  definition: Pick<AchievementDefinition, 'code' | 'name' | 'criteria' | 'tiers'>
+): string[] {
+  const problems: string[] = [];
+
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(definition.code)) {
+    problems.push('Code must be lowercase letters, numbers and hyphens');
+  }
+  if (!definition.name.trim()) {
+    problems.push('Name is required');
+  }
+  if (!ACHIEVEMENT_METRICS.some((metric) => metric.value === definition.criteria.metric)) {
+    problems.push('Choose a metric');
+  }
+  const { minAccuracy } = definition.criteria;
+  if (minAccuracy !== null && minAccuracy !== undefined && (minAccuracy <= 0 || minAccuracy > 1)) {
+    problems.push('Minimum accuracy must be between 0 and 100%');
+  }
+  if (definition.tiers.length === 0) {
+    problems.push('At least one tier is required');
+  }
+
+  const tierNumbers = new Set<number>();
+  const sorted = sortTiers(definition.tiers);
+  sorted.forEach((tier, index) => {
+    if (!tier.label.trim()) {
+      problems.push(`Tier ${tier.tier} needs a label`);
+    }
+    if (!(tier.threshold > 0)) {
+      problems.push(`Tier ${tier.tier} needs a threshold above zero`);
+    }
+    if (tierNumbers.has(tier.tier)) {
+      problems.push(`Tier ${tier.tier} is defined more than once`);
+    }
+    tierNumbers.add(tier.tier);
+    if (index > 0 && sorted[index - 1].threshold === tier.threshold) {
+      problems.push('Tier thresholds must be different');
+    }
+  });
+
+  return problems;
+}
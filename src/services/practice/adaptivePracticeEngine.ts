@@ -0,0 +1,114 @@
+import { DifficultyLevel } from '@/types/questions';
+import { AdaptiveSessionRequest, AdaptiveSessionState, AutoMarkResult } from '@/types/practice';
+
+export const DIFFICULTY_LADDER: DifficultyLevel[] = ['Easy', 'Medium', 'Hard'];
+
+const DEFAULT_TARGET_LENGTH = 10;
+const MAX_TARGET_LENGTH = 30;
+const PROMOTE_AFTER_CORRECT = 2;
+const DEMOTE_AFTER_INCORRECT = 1;
+const FULL_CREDIT_THRESHOLD = 0.99;
+const FAIL_THRESHOLD = 0.5;
+
+export interface MasteryAggregate {
+  marksEarned: number;
+  marksAvailable: number;
+}
+
+export function calculateMastery(aggregates: MasteryAggregate[]): number | null {
+  const totals = aggregates.reduce(
+    (acc, entry) => ({
+      earned: acc.earned + (entry.marksEarned ?? 0),
+      available: acc.available + (entry.marksAvailable ?? 0)
+    }),
+    { earned: 0, available: 0 }
+  );
+  if (totals.available <= 0) {
+    return null;
+  }
+  return totals.earned / totals.available;
+}
+
+export function resolveStartingDifficulty(mastery: number | null): DifficultyLevel {
+  if (mastery === null) {
+    return 'Medium';
+  }
+  if (mastery < 0.5) {
+    return 'Easy';
+  }
+  if (mastery < 0.8) {
+    return 'Medium';
+  }
+  return 'Hard';
+}
+
+export function createAdaptiveState(request: AdaptiveSessionRequest, mastery: number | null): AdaptiveSessionState {
+  const targetLength = Math.min(MAX_TARGET_LENGTH, Math.max(1, request.targetLength ?? DEFAULT_TARGET_LENGTH));
+  return {
+    subjectId: request.subjectId,
+    topicId: request.topicId,
+    subtopicId: request.subtopicId,
+    targetLength,
+    startingMastery: mastery,
+    currentDifficulty: resolveStartingDifficulty(mastery),
+    correctStreak: 0,
+    incorrectStreak: 0,
+    servedQuestionIds: [],
+    history: []
+  };
+}
+
+function shiftDifficulty(current: DifficultyLevel, step: number): DifficultyLevel {
+  const index = DIFFICULTY_LADDER.indexOf(current);
+  const next = Math.min(DIFFICULTY_LADDER.length - 1, Math.max(0, (index < 0 ? 1 : index) + step));
+  return DIFFICULTY_LADDER[next];
+}
+
+/**
+ * Staircase update: two full-credit answers in a row move the student up a
+ * level, a failed answer moves them down. Partial credit holds the level.
+ */
+export function applyAdaptiveOutcome(
+  state: AdaptiveSessionState,
+  questionId: string,
+  result: Pick<AutoMarkResult, 'totalAwarded' | 'totalAvailable'>
+): AdaptiveSessionState {
+  const score = result.totalAvailable > 0 ? result.totalAwarded / result.totalAvailable : 0;
+  let correctStreak = score >= FULL_CREDIT_THRESHOLD ? state.correctStreak + 1 : 0;
+  let incorrectStreak = score < FAIL_THRESHOLD ? state.incorrectStreak + 1 : 0;
+  let currentDifficulty = state.currentDifficulty;
+
+  if (correctStreak >= PROMOTE_AFTER_CORRECT) {
+    currentDifficulty = shiftDifficulty(currentDifficulty, 1);
+    correctStreak = 0;
+  } else if (incorrectStreak >= DEMOTE_AFTER_INCORRECT) {
+    currentDifficulty = shiftDifficulty(currentDifficulty, -1);
+    incorrectStreak = 0;
+  }
+
+  return {
+    ...state,
+    currentDifficulty,
+    correctStreak,
+    incorrectStreak,
+    history: [
+      ...state.history,
+      { questionId, difficulty: state.currentDifficulty, score }
+    ]
+  };
+}
+
+export function isAdaptiveSessionComplete(state: AdaptiveSessionState): boolean {
+  return state.servedQuestionIds.length >= state.targetLength;
+}
+
+/**
+ * Order in which difficulty levels are tried when the target level has no
+ * unseen questions left: the target first, then the nearest levels outward.
+ */
+export function difficultyFallbackOrder(target: DifficultyLevel): DifficultyLevel[] {
+  const index = DIFFICULTY_LADDER.indexOf(target);
+  return [...DIFFICULTY_LADDER].sort(
+    (a, b) => Math.abs(DIFFICULTY_LADDER.indexOf(a) - index) - Math.abs(DIFFICULTY_LADDER.indexOf(b) - index)
+  );
+}
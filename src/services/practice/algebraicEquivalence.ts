@@ -0,0 +1,772 @@
+/**
+ * Algebraic expression parsing and equivalence checking for mathematics marking.
+ *
+ * Two expressions are compared by canonical polynomial form when both expand
+ * to polynomials, and otherwise by evaluating them at a fixed set of
+ * pseudo-random points. Equations are equivalent when (lhs - rhs) of one is a
+ * non-zero multiple of the other. Mark schemes can also require the answer in
+ * a particular form (factorised, expanded or simplest surd).
+ */
+
+import { RequiredAnswerForm } from '@/types/questions';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'negate'; operand: ExpressionNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; argument: ExpressionNode };
+
+export type AlgebraicComparisonStatus = 'equivalent' | 'wrong_form' | 'not_equivalent' | 'unparseable';
+
+export interface AlgebraicComparison {
+  status: AlgebraicComparisonStatus;
+  note?: string;
+}
+
+const FUNCTIONS = ['sqrt', 'sin', 'cos', 'tan', 'ln', 'log', 'exp', 'abs'];
+const CONSTANTS: Record<string, number> = { π: Math.PI };
+const SAMPLE_COUNT = 16;
+const POSITIVE_SAMPLE_COUNT = 8;
+const MIN_VALID_SAMPLES = 4;
+const RELATIVE_TOLERANCE = 1e-7;
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+  '⁰': '0',
+  '¹': '1',
+  '²': '2',
+  '³': '3',
+  '⁴': '4',
+  '⁵': '5',
+  '⁶': '6',
+  '⁷': '7',
+  '⁸': '8',
+  '⁹': '9'
+};
+
+export function detectRequiredForm(answers: string[]): RequiredAnswerForm | null {
+  for (const answer of answers) {
+    const lower = answer.toLowerCase();
+    if (/factori[sz]ed?/.test(lower)) {
+      return 'factorised';
+    }
+    if (/expanded|fully expand/.test(lower)) {
+      return 'expanded';
+    }
+    if (/simplest surd|surd form/.test(lower)) {
+      return 'simplest_surd';
+    }
+  }
+  return null;
+}
+
+export function describeRequiredForm(form: RequiredAnswerForm): string {
+  switch (form) {
+    case 'factorised':
+      return 'fully factorised form';
+    case 'expanded':
+      return 'expanded and simplified form';
+    case 'simplest_surd':
+      return 'simplest surd form';
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function tokenize(source: string): string[] | null {
+  const text = source
+    .split('')
+    .map((char) => (SUPERSCRIPT_DIGITS[char] ? `^${SUPERSCRIPT_DIGITS[char]}` : char))
+    .join('')
+    .replace(/\^\^/g, '^')
+    .replace(/×|·/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/[−–]/g, '-')
+    .replace(/√/g, 'sqrt')
+    .replace(/\*\*/g, '^')
+    .toLowerCase();
+
+  // Words are prose, not products of single-letter variables
+  const withoutFunctions = FUNCTIONS.reduce((acc, name) => acc.split(name).join(' '), text);
+  if (/[a-z]{3,}/.test(withoutFunctions)) {
+    return null;
+  }
+
+  const tokens: string[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    const number = text.slice(index).match(/^(\d+(?:\.\d+)?|\.\d+)/);
+    if (number) {
+      tokens.push(number[1]);
+      index += number[1].length;
+      continue;
+    }
+    const fn = FUNCTIONS.find((name) => text.startsWith(name, index));
+    if (fn) {
+      tokens.push(fn);
+      index += fn.length;
+      continue;
+    }
+    if (/[a-zπ]/.test(char)) {
+      // Single-letter variables so that "xy" reads as x·y
+      tokens.push(char);
+      index += 1;
+      continue;
+    }
+    if ('+-*/^()'.includes(char)) {
+      tokens.push(char);
+      index += 1;
+      continue;
+    }
+    return null;
+  }
+
+  return tokens;
+}
+
+export function parseExpression(source: string): ExpressionNode | null {
+  const tokens = tokenize(source);
+  if (!tokens || tokens.length === 0) {
+    return null;
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  const startsOperand = (token: string | undefined) =>
+    token !== undefined && (token === '(' || /^[\d.]/.test(token) || /^[a-zπ]/.test(token));
+
+  const parseAtom = (): ExpressionNode | null => {
+    const token = next();
+    if (token === undefined) {
+      return null;
+    }
+    if (token === '(') {
+      const inner = parseSum();
+      return next() === ')' ? inner : null;
+    }
+    if (/^[\d.]/.test(token)) {
+      return { type: 'number', value: parseFloat(token) };
+    }
+    if (FUNCTIONS.includes(token)) {
+      const argument = peek() === '(' ? parseAtom() : parsePower();
+      return argument ? { type: 'call', name: token, argument } : null;
+    }
+    if (token in CONSTANTS) {
+      return { type: 'number', value: CONSTANTS[token] };
+    }
+    if (/^[a-z]$/.test(token)) {
+      return { type: 'variable', name: token };
+    }
+    return null;
+  };
+
+  const parsePower = (): ExpressionNode | null => {
+    const base = parseAtom();
+    if (!base) {
+      return null;
+    }
+    if (peek() === '^') {
+      next();
+      const exponent = parseUnary();
+      return exponent ? { type: 'binary', operator: '^', left: base, right: exponent } : null;
+    }
+    return base;
+  };
+
+  const parseUnary = (): ExpressionNode | null => {
+    if (peek() === '-') {
+      next();
+      const operand = parseUnary();
+      return operand ? { type: 'negate', operand } : null;
+    }
+    if (peek() === '+') {
+      next();
+    }
+    return parsePower();
+  };
+
+  const parseProduct = (): ExpressionNode | null => {
+    let left = parseUnary();
+    while (left) {
+      const token = peek();
+      if (token === '*' || token === '/') {
+        next();
+        const right = parseUnary();
+        if (!right) {
+          return null;
+        }
+        left = { type: 'binary', operator: token, left, right };
+      } else if (startsOperand(token)) {
+        // Implicit multiplication: 2x, 2(x+3), (x-1)(x+1)
+        const right = parsePower();
+        if (!right) {
+          return null;
+        }
+        left = { type: 'binary', operator: '*', left, right };
+      } else {
+        break;
+      }
+    }
+    return left;
+  };
+
+  function parseSum(): ExpressionNode | null {
+    let left = parseProduct();
+    while (left && (peek() === '+' || peek() === '-')) {
+      const operator = next() as '+' | '-';
+      const right = parseProduct();
+      if (!right) {
+        return null;
+      }
+      left = { type: 'binary', operator, left, right };
+    }
+    return left;
+  }
+
+  const result = parseSum();
+  return result && position === tokens.length ? result : null;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+export function evaluateExpression(node: ExpressionNode, variables: Record<string, number>): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return variables[node.name] ?? NaN;
+    case 'negate':
+      return -evaluateExpression(node.operand, variables);
+    case 'call': {
+      const argument = evaluateExpression(node.argument, variables);
+      switch (node.name) {
+        case 'sqrt':
+          return Math.sqrt(argument);
+        case 'sin':
+          return Math.sin(argument);
+        case 'cos':
+          return Math.cos(argument);
+        case 'tan':
+          return Math.tan(argument);
+        case 'ln':
+          return Math.log(argument);
+        case 'log':
+          return Math.log10(argument);
+        case 'exp':
+          return Math.exp(argument);
+        case 'abs':
+          return Math.abs(argument);
+        default:
+          return NaN;
+      }
+    }
+    case 'binary': {
+      const left = evaluateExpression(node.left, variables);
+      const right = evaluateExpression(node.right, variables);
+      switch (node.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return left / right;
+        case '^':
+          return Math.pow(left, right);
+      }
+    }
+  }
+  return NaN;
+}
+
+function collectVariables(node: ExpressionNode, into: Set<string> = new Set()): Set<string> {
+  switch (node.type) {
+    case 'variable':
+      into.add(node.name);
+      break;
+    case 'negate':
+      collectVariables(node.operand, into);
+      break;
+    case 'call':
+      collectVariables(node.argument, into);
+      break;
+    case 'binary':
+      collectVariables(node.left, into);
+      collectVariables(node.right, into);
+      break;
+    default:
+      break;
+  }
+  return into;
+}
+
+/**
+ * Deterministic sample points so that marking is reproducible. The first
+ * half are positive; the rest alternate in sign and include values close to
+ * zero, so abs(x) or sqrt(x^2) is not taken for x. Points outside either
+ * expression's domain evaluate to NaN and are skipped by the callers.
+ */
+function samplePoints(variables: string[]): Record<string, number>[] {
+  let seed = 20240607;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  return Array.from({ length: SAMPLE_COUNT }, (_, index) =>
+    variables.reduce<Record<string, number>>((acc, name, position) => {
+      if (index < POSITIVE_SAMPLE_COUNT) {
+        acc[name] = 0.37 + random() * 3.9;
+        return acc;
+      }
+      const magnitude = index % 4 < 2 ? 0.37 + random() * 3.9 : 0.01 + random() * 0.09;
+      acc[name] = (index + position) % 2 === 0 ? -magnitude : magnitude;
+      return acc;
+    }, {})
+  );
+}
+
+function nearlyEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b), 1) * RELATIVE_TOLERANCE;
+}
+
+// ============================================================================
+// Canonical polynomial form
+// ============================================================================
+
+type Polynomial = Map<string, number>;
+
+function monomialKey(powers: Record<string, number>): string {
+  return Object.keys(powers)
+    .filter((name) => powers[name] !== 0)
+    .sort()
+    .map((name) => `${name}^${powers[name]}`)
+    .join('*');
+}
+
+function parseMonomialKey(key: string): Record<string, number> {
+  if (!key) {
+    return {};
+  }
+  return key.split('*').reduce<Record<string, number>>((acc, part) => {
+    const [name, power] = part.split('^');
+    acc[name] = Number(power);
+    return acc;
+  }, {});
+}
+
+function addTerm(polynomial: Polynomial, key: string, coefficient: number): void {
+  const value = (polynomial.get(key) ?? 0) + coefficient;
+  if (Math.abs(value) < 1e-12) {
+    polynomial.delete(key);
+  } else {
+    polynomial.set(key, value);
+  }
+}
+
+function multiplyPolynomials(a: Polynomial, b: Polynomial): Polynomial {
+  const result: Polynomial = new Map();
+  a.forEach((coefficientA, keyA) => {
+    b.forEach((coefficientB, keyB) => {
+      const powers = parseMonomialKey(keyA);
+      Object.entries(parseMonomialKey(keyB)).forEach(([name, power]) => {
+        powers[name] = (powers[name] ?? 0) + power;
+      });
+      addTerm(result, monomialKey(powers), coefficientA * coefficientB);
+    });
+  });
+  return result;
+}
+
+/** Expands to a polynomial, or returns null for non-polynomial expressions. */
+export function toPolynomial(node: ExpressionNode): Polynomial | null {
+  switch (node.type) {
+    case 'number':
+      return new Map(node.value === 0 ? [] : [['', node.value]]);
+    case 'variable':
+      return new Map([[`${node.name}^1`, 1]]);
+    case 'negate': {
+      const operand = toPolynomial(node.operand);
+      return operand ? new Map([...operand].map(([key, value]) => [key, -value])) : null;
+    }
+    case 'call':
+      return null;
+    case 'binary': {
+      const left = toPolynomial(node.left);
+      const right = toPolynomial(node.right);
+      if (!left || !right) {
+        return null;
+      }
+      if (node.operator === '+' || node.operator === '-') {
+        const result = new Map(left);
+        right.forEach((value, key) => addTerm(result, key, node.operator === '+' ? value : -value));
+        return result;
+      }
+      if (node.operator === '*') {
+        return multiplyPolynomials(left, right);
+      }
+      if (node.operator === '/') {
+        const divisor = right.size === 1 ? right.get('') : undefined;
+        if (!divisor) {
+          return null;
+        }
+        return new Map([...left].map(([key, value]) => [key, value / divisor]));
+      }
+      const exponent = right.size === 0 ? 0 : right.size === 1 ? right.get('') : undefined;
+      if (exponent === undefined || !Number.isInteger(exponent) || exponent < 0 || exponent > 12) {
+        return null;
+      }
+      let result: Polynomial = new Map([['', 1]]);
+      for (let count = 0; count < exponent; count += 1) {
+        result = multiplyPolynomials(result, left);
+      }
+      return result;
+    }
+  }
+}
+
+function polynomialsEqual(a: Polynomial, b: Polynomial): boolean {
+  if (a.size !== b.size) {
+    return false;
+  }
+  for (const [key, value] of a) {
+    const other = b.get(key);
+    if (other === undefined || !nearlyEqual(value, other)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// ============================================================================
+// Equivalence
+// ============================================================================
+
+function expressionsEquivalent(a: ExpressionNode, b: ExpressionNode): boolean {
+  const polynomialA = toPolynomial(a);
+  const polynomialB = toPolynomial(b);
+  if (polynomialA && polynomialB) {
+    return polynomialsEqual(polynomialA, polynomialB);
+  }
+
+  const variables = Array.from(new Set([...collectVariables(a), ...collectVariables(b)]));
+  let valid = 0;
+  for (const point of samplePoints(variables)) {
+    const valueA = evaluateExpression(a, point);
+    const valueB = evaluateExpression(b, point);
+    if (!Number.isFinite(valueA) || !Number.isFinite(valueB)) {
+      continue;
+    }
+    if (!nearlyEqual(valueA, valueB)) {
+      return false;
+    }
+    valid += 1;
+  }
+  return valid >= MIN_VALID_SAMPLES;
+}
+
+/** Equations match when lhs - rhs of one is a constant non-zero multiple of the other. */
+function equationsEquivalent(a: ExpressionNode, b: ExpressionNode): boolean {
+  const variables = Array.from(new Set([...collectVariables(a), ...collectVariables(b)]));
+  let ratio: number | null = null;
+  let valid = 0;
+
+  for (const point of samplePoints(variables)) {
+    const valueA = evaluateExpression(a, point);
+    const valueB = evaluateExpression(b, point);
+    if (!Number.isFinite(valueA) || !Number.isFinite(valueB)) {
+      continue;
+    }
+    if (Math.abs(valueA) < 1e-12 || Math.abs(valueB) < 1e-12) {
+      if (Math.abs(valueA) < 1e-12 && Math.abs(valueB) < 1e-12) {
+        valid += 1;
+        continue;
+      }
+      return false;
+    }
+    const current = valueA / valueB;
+    if (ratio === null) {
+      ratio = current;
+    } else if (!nearlyEqual(ratio, current)) {
+      return false;
+    }
+    valid += 1;
+  }
+  return valid >= MIN_VALID_SAMPLES;
+}
+
+function parseSide(source: string): { expression: ExpressionNode; isEquation: boolean } | null {
+  const sides = source.split('=');
+  if (sides.length > 2) {
+    return null;
+  }
+  if (sides.length === 2) {
+    const left = parseExpression(sides[0]);
+    const right = parseExpression(sides[1]);
+    if (!left || !right) {
+      return null;
+    }
+    return { expression: { type: 'binary', operator: '-', left, right }, isEquation: true };
+  }
+  const expression = parseExpression(source);
+  return expression ? { expression, isEquation: false } : null;
+}
+
+/** A surd such as "√3" or "2√3" */
+function isSurdTerm(node: ExpressionNode): boolean {
+  if (node.type === 'call') {
+    return node.name === 'sqrt' && node.argument.type === 'number';
+  }
+  return node.type === 'binary' && node.operator === '*' && node.left.type === 'number' && isSurdTerm(node.right);
+}
+
+/** π or a multiple of it such as "2π" */
+function isPiTerm(node: ExpressionNode): boolean {
+  if (node.type === 'number') {
+    return node.value === CONSTANTS.π;
+  }
+  return node.type === 'binary' && node.operator === '*' && node.left.type === 'number' && isPiTerm(node.right);
+}
+
+/** An exact power such as "10^3" or "2^-1", or standard form such as "3×10^8" */
+function isPowerTerm(node: ExpressionNode): boolean {
+  if (node.type !== 'binary') {
+    return false;
+  }
+  if (node.operator === '*') {
+    return node.left.type === 'number' && isPowerTerm(node.right);
+  }
+  const exponent = node.right.type === 'negate' ? node.right.operand : node.right;
+  return (
+    node.operator === '^' &&
+    node.left.type === 'number' &&
+    exponent.type === 'number' &&
+    Number.isInteger(exponent.value)
+  );
+}
+
+function isIrrational(node: ExpressionNode): boolean {
+  return containsSurd(node) || containsPi(node);
+}
+
+/**
+ * A number, optionally negative, a surd, a multiple of π, an exact power, a
+ * number plus surds or π ("1 + √5"), or one of these over a number such as
+ * "7/8", "(1 + √5)/2" or "3π/4"
+ */
+function isPlainLiteral(node: ExpressionNode): boolean {
+  if (node.type === 'negate') {
+    return isPlainLiteral(node.operand);
+  }
+  if (node.type === 'binary' && node.operator === '/') {
+    return (
+      isPlainLiteral(node.left) &&
+      (node.left.type !== 'binary' || isIrrational(node.left)) &&
+      node.right.type === 'number'
+    );
+  }
+  if (node.type === 'binary' && (node.operator === '+' || node.operator === '-')) {
+    // "3/4 + 1/8" is still working; only surd and π expressions are left as sums
+    return isIrrational(node) && isPlainLiteral(node.left) && isPlainLiteral(node.right);
+  }
+  return node.type === 'number' || isSurdTerm(node) || isPiTerm(node) || isPowerTerm(node);
+}
+
+export function compareAlgebraic(
+  candidate: string,
+  response: string,
+  requiredForm: RequiredAnswerForm | null = null
+): AlgebraicComparison {
+  const expected = parseSide(candidate);
+  const answer = parseSide(response);
+  if (!expected || !answer) {
+    return { status: 'unparseable' };
+  }
+  if (expected.isEquation !== answer.isEquation) {
+    return { status: 'not_equivalent' };
+  }
+  // "3/4+1/8" or "3*4" is working, not an answer; constants must be written out
+  if (!answer.isEquation && collectVariables(answer.expression).size === 0 && !isPlainLiteral(answer.expression)) {
+    return { status: 'wrong_form', note: 'numerical expression not simplified' };
+  }
+
+  const equivalent = expected.isEquation
+    ? equationsEquivalent(expected.expression, answer.expression)
+    : expressionsEquivalent(expected.expression, answer.expression);
+
+  if (!equivalent) {
+    return { status: 'not_equivalent' };
+  }
+
+  if (requiredForm) {
+    const rawAnswer = answer.isEquation ? parseExpression(response.split('=')[1]) : answer.expression;
+    if (!rawAnswer || !satisfiesForm(rawAnswer, requiredForm)) {
+      return { status: 'wrong_form', note: `equivalent expression but not in ${describeRequiredForm(requiredForm)}` };
+    }
+  }
+
+  return { status: 'equivalent', note: 'accepted algebraically equivalent expression' };
+}
+
+// ============================================================================
+// Form requirements
+// ============================================================================
+
+function isSum(node: ExpressionNode): boolean {
+  return node.type === 'binary' && (node.operator === '+' || node.operator === '-');
+}
+
+function collectFactors(node: ExpressionNode, into: ExpressionNode[] = []): ExpressionNode[] {
+  if (node.type === 'negate') {
+    return collectFactors(node.operand, into);
+  }
+  if (node.type === 'binary' && node.operator === '*') {
+    collectFactors(node.left, into);
+    collectFactors(node.right, into);
+    return into;
+  }
+  into.push(node);
+  return into;
+}
+
+function countSummands(node: ExpressionNode): number {
+  if (isSum(node) && node.type === 'binary') {
+    return countSummands(node.left) + countSummands(node.right);
+  }
+  return 1;
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? Math.abs(a) : greatestCommonDivisor(b, a % b);
+}
+
+function isFactorised(node: ExpressionNode): boolean {
+  if (isSum(node)) {
+    return false;
+  }
+  // Each bracketed sum must have no remaining integer common factor
+  return collectFactors(node).every((factor) => {
+    const base = factor.type === 'binary' && factor.operator === '^' ? factor.left : factor;
+    if (!isSum(base)) {
+      return true;
+    }
+    const polynomial = toPolynomial(base);
+    if (!polynomial) {
+      return true;
+    }
+    const coefficients = [...polynomial.values()];
+    if (!coefficients.every(Number.isInteger)) {
+      return true;
+    }
+    return coefficients.reduce((acc, value) => greatestCommonDivisor(acc, value), 0) === 1;
+  });
+}
+
+function containsProductOfSum(node: ExpressionNode): boolean {
+  switch (node.type) {
+    case 'negate':
+      return isSum(node.operand) || containsProductOfSum(node.operand);
+    case 'call':
+      return containsProductOfSum(node.argument);
+    case 'binary':
+      if (node.operator === '*' && (isSum(node.left) || isSum(node.right))) {
+        return true;
+      }
+      if (node.operator === '^' && isSum(node.left)) {
+        return true;
+      }
+      return containsProductOfSum(node.left) || containsProductOfSum(node.right);
+    default:
+      return false;
+  }
+}
+
+function isExpanded(node: ExpressionNode): boolean {
+  if (containsProductOfSum(node)) {
+    return false;
+  }
+  // Like terms must also be collected
+  const polynomial = toPolynomial(node);
+  return !polynomial || polynomial.size === countSummands(node);
+}
+
+function hasSquareFactor(value: number): boolean {
+  for (let factor = 2; factor * factor <= value; factor += 1) {
+    if (value % (factor * factor) === 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function containsSurd(node: ExpressionNode): boolean {
+  switch (node.type) {
+    case 'call':
+      return node.name === 'sqrt' || containsSurd(node.argument);
+    case 'negate':
+      return containsSurd(node.operand);
+    case 'binary':
+      return containsSurd(node.left) || containsSurd(node.right);
+    default:
+      return false;
+  }
+}
+
+function containsPi(node: ExpressionNode): boolean {
+  switch (node.type) {
+    case 'number':
+      return node.value === CONSTANTS.π;
+    case 'call':
+      return containsPi(node.argument);
+    case 'negate':
+      return containsPi(node.operand);
+    case 'binary':
+      return containsPi(node.left) || containsPi(node.right);
+    default:
+      return false;
+  }
+}
+
+function isSimplestSurd(node: ExpressionNode): boolean {
+  switch (node.type) {
+    case 'call':
+      if (node.name === 'sqrt' && node.argument.type === 'number') {
+        const radicand = node.argument.value;
+        return Number.isInteger(radicand) && radicand > 1 && !hasSquareFactor(radicand);
+      }
+      return isSimplestSurd(node.argument);
+    case 'negate':
+      return isSimplestSurd(node.operand);
+    case 'binary':
+      // Denominators must be rationalised
+      if (node.operator === '/' && containsSurd(node.right)) {
+        return false;
+      }
+      return isSimplestSurd(node.left) && isSimplestSurd(node.right);
+    default:
+      return true;
+  }
+}
+
+function satisfiesForm(node: ExpressionNode, form: RequiredAnswerForm): boolean {
+  switch (form) {
+    case 'factorised':
+      return isFactorised(node);
+    case 'expanded':
+      return isExpanded(node);
+    case 'simplest_surd':
+      return isSimplestSurd(node);
+  }
+}
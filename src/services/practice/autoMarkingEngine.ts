@@ -1,11 +1,41 @@
-import dayjs from 'dayjs';
-import { QuestionMasterAdmin } from '@/types/questions';
+import { QuestionMasterAdmin, RequiredAnswerForm } from '@/types/questions';
 import {
   AnswerSubmissionPayload,
   AutoMarkPointAward,
   AutoMarkPointDenied,
   AutoMarkResult
 } from '@/types/practice';
+import {
+  EcfDependencyValue,
+  extractEcfFormula,
+  parseNumericValue,
+  resolveEcfExpectedValue,
+  stripEcfAnnotation
+} from './errorCarriedForward';
+import {
+  describePrecisionRule,
+  evaluateNumericResponse,
+  extractPrecisionRule,
+  PrecisionRule
+} from './numericPrecision';
+import { compareAlgebraic, describeRequiredForm, detectRequiredForm } from './algebraicEquivalence';
+import {
+  compareChemicalEquations,
+  EquationEvaluation,
+  extractEquationAlternatives,
+  hasStateSymbols,
+  parseChemicalEquation
+} from './chemicalEquations';
+import { markGraphAnswer, parseGraphMarkingScheme } from './graphMarking';
+import {
+  buildSchemeFromRows,
+  LabelledDiagramScheme,
+  markLabelledDiagram,
+  parseLabelledDiagramScheme
+} from './labelledDiagramMarking';
+import { parseCodeMarkingScheme } from './codeTesting';
+import { markChemicalStructure, parseChemicalStructureScheme, parseStructureResponse } from './chemicalStructureMarking';
+import { markCodeAnswer } from './codeSandbox';
 
 export interface RawCorrectAnswerRow {
   id: string;
@@ -22,6 +52,7 @@ export interface RawCorrectAnswerRow {
   acceptable_variations?: string[] | null;
   accepts_equivalent_phrasing?: boolean | null;
   error_carried_forward?: boolean | null;
+  required_form?: RequiredAnswerForm | null;
 }
 
 export interface RawAnswerComponentRow {
@@ -50,12 +81,18 @@ export interface RawQuestionOptionRow {
 
 interface MarkingPoint {
   id: string;
+  label: string | null;
+  subQuestionId: string | null;
   marks: number;
   requirement: 'one_required' | 'all_required' | 'any_from';
   quantityRequired?: number;
   alternatives: string[];
   annotations: MarkingAnnotations;
   dependencies: string[];
+  ecfFormula?: string | null;
+  precision?: PrecisionRule | null;
+  requiredForm?: RequiredAnswerForm | null;
+  equations?: string[];
   context: {
     type: string | null;
     value: string | null;
@@ -74,6 +111,8 @@ interface MarkingAnnotations {
   diagram?: boolean;
   workingBox?: boolean;
   qwc?: boolean;
+  stateSymbols?: boolean;
+  multiples?: boolean;
 }
 
 interface AutoMarkContext {
@@ -130,6 +169,11 @@ const COMMAND_WORDS = [
 ];
 
 export function autoMarkQuestion(context: AutoMarkContext): AutoMarkResult {
+  const formatResult = autoMarkGraph(context) ?? autoMarkLabelledDiagram(context) ?? autoMarkChemicalStructure(context);
+  if (formatResult) {
+    return formatResult;
+  }
+
   const normalized = buildMarkingPoints(context);
   const responseTokens = normalizeStudentResponse(context.rawAnswer, context.subjectArea);
   const evalResult = evaluateMarkingPoints(normalized, responseTokens, context);
@@ -158,6 +202,101 @@ export function autoMarkQuestion(context: AutoMarkContext): AutoMarkResult {
   };
 }
 
+/**
+ * Code questions with a test-case scheme, and trace tables in any format,
+ * are marked by running the program in the sandbox. Returns null when the
+ * question has no such scheme so callers fall back to autoMarkQuestion.
+ */
+export async function autoMarkCodeQuestion(context: AutoMarkContext): Promise<AutoMarkResult | null> {
+  const records = [...(context.answerComponents ?? []), ...(context.correctAnswers ?? [])];
+  const scheme = records.map((row) => parseCodeMarkingScheme(getAnswerText(row))).find(Boolean);
+  if (!scheme || (context.question.answer_format !== 'code' && !scheme.traceTable)) {
+    return null;
+  }
+  return {
+    ...(await markCodeAnswer(context.rawAnswer.value, scheme)),
+    explanationId: deriveExplanationId(context.question)
+  };
+}
+
+/**
+ * Graph answers are marked per criterion from a JSON scheme stored in the
+ * correct answer; questions without one fall through to text matching.
+ */
+function autoMarkGraph(context: AutoMarkContext): AutoMarkResult | null {
+  if (context.question.answer_format !== 'graph') {
+    return null;
+  }
+  const records = [...(context.answerComponents ?? []), ...(context.correctAnswers ?? [])];
+  const scheme = records.map((row) => parseGraphMarkingScheme(getAnswerText(row))).find(Boolean);
+  if (!scheme) {
+    return null;
+  }
+  return {
+    ...markGraphAnswer(context.rawAnswer.value, scheme),
+    explanationId: deriveExplanationId(context.question)
+  };
+}
+
+/**
+ * Drawn chemical structures are compared as molecules against the SMILES
+ * scheme in the correct answer. Answers typed as text only, and questions
+ * without a scheme, fall through to text matching.
+ */
+function autoMarkChemicalStructure(context: AutoMarkContext): AutoMarkResult | null {
+  if (context.question.answer_format !== 'chemical_structure' || !parseStructureResponse(context.rawAnswer.value)) {
+    return null;
+  }
+  const records = [...(context.answerComponents ?? []), ...(context.correctAnswers ?? [])];
+  const scheme = records.map((row) => parseChemicalStructureScheme(getAnswerText(row))).find(Boolean);
+  if (!scheme) {
+    return null;
+  }
+  return {
+    ...markChemicalStructure(context.rawAnswer.value, scheme),
+    explanationId: deriveExplanationId(context.question)
+  };
+}
+
+/**
+ * Labelled diagrams use a JSON label scheme when the correct answer holds
+ * one, otherwise each correct-answer row is a label matched on text alone.
+ */
+function autoMarkLabelledDiagram(context: AutoMarkContext): AutoMarkResult | null {
+  if (context.question.answer_format !== 'structural_diagram') {
+    return null;
+  }
+  const scheme = resolveLabelledDiagramScheme(context.correctAnswers ?? [], context.answerComponents ?? []);
+  if (!scheme) {
+    return null;
+  }
+  return {
+    ...markLabelledDiagram(context.rawAnswer.value, scheme),
+    explanationId: deriveExplanationId(context.question)
+  };
+}
+
+/**
+ * The label scheme for a structural diagram question, from its answer
+ * components when it has any, otherwise from its correct answers.
+ */
+export function resolveLabelledDiagramScheme(
+  correctAnswers: RawCorrectAnswerRow[],
+  answerComponents: RawAnswerComponentRow[] = []
+): LabelledDiagramScheme | null {
+  const records = answerComponents.length ? answerComponents : correctAnswers;
+  return (
+    records.map((row) => parseLabelledDiagramScheme(getAnswerText(row))).find(Boolean) ??
+    buildSchemeFromRows(
+      records.map((row) => ({
+        text: getAnswerText(row),
+        marks: row.marks ?? null,
+        acceptableVariations: 'acceptable_variations' in row ? row.acceptable_variations : null
+      }))
+    )
+  );
+}
+
 function buildMarkingPoints(context: AutoMarkContext): MarkingPoint[] {
   const points: MarkingPoint[] = [];
   const seen = new Set<string>();
@@ -199,8 +338,10 @@ function buildMarkingPoints(context: AutoMarkContext): MarkingPoint[] {
       return candidate === row;
     });
 
+    const answerTexts = related.map(getAnswerText);
+
     // Determine requirement type from database field or fallback to text parsing
-    const requirement = determineRequirement(related.map((entry) => entry.answer), related);
+    const requirement = determineRequirement(answerTexts, related);
 
     // CRITICAL FIX: For one_required alternatives, don't sum marks - take first alternative's marks
     // For all_required, sum all marks as before
@@ -208,9 +349,16 @@ function buildMarkingPoints(context: AutoMarkContext): MarkingPoint[] {
       ? (related[0]?.marks ?? 0)
       : related.reduce((sum, entry) => sum + (entry.marks ?? 0), 0);
 
-    const annotations = deriveAnnotations(related.map((entry) => entry.answer));
-    const alternatives = related.flatMap((entry) => parseAlternatives(entry.answer));
-    const dependencies = collectDependencies(related.map((entry) => entry.answer));
+    const annotations = deriveAnnotations(answerTexts);
+    if (related.some((entry) => 'error_carried_forward' in entry && entry.error_carried_forward)) {
+      annotations.ecf = true;
+    }
+    const algebraic = isAlgebraicContext(context);
+    const equations = isEquationContext(context) ? extractEquationAlternatives(answerTexts) : [];
+    const alternatives = equations.length > 0
+      ? equations
+      : answerTexts.flatMap((answer) => parseAlternatives(answer, algebraic));
+    const dependencies = collectDependencies(answerTexts);
 
     // Build acceptable variations map (answer -> variations)
     const acceptableVariations: Record<string, string[]> = {};
@@ -218,18 +366,24 @@ function buildMarkingPoints(context: AutoMarkContext): MarkingPoint[] {
       if ('acceptable_variations' in entry && entry.acceptable_variations && Array.isArray(entry.acceptable_variations)) {
         const variations = entry.acceptable_variations.filter((v): v is string => typeof v === 'string' && v.trim() !== '');
         if (variations.length > 0) {
-          acceptableVariations[entry.answer] = variations;
+          acceptableVariations[getAnswerText(entry)] = variations;
         }
       }
     });
 
     points.push({
       id,
+      label: row.context_label ?? null,
+      subQuestionId: row.sub_question_id ?? null,
       marks: baseMarks || context.question.marks || 1,
       requirement,
       alternatives,
       annotations,
       dependencies,
+      ecfFormula: annotations.ecf ? extractEcfFormula(answerTexts) : null,
+      precision: extractPrecisionRule(answerTexts),
+      requiredForm: resolveRequiredForm(related, answerTexts),
+      equations: equations.length > 0 ? equations : undefined,
       context: {
         type: 'context_type' in row ? row.context_type ?? null : null,
         value: 'context_value' in row ? row.context_value ?? null : null
@@ -241,6 +395,22 @@ function buildMarkingPoints(context: AutoMarkContext): MarkingPoint[] {
   return points;
 }
 
+function resolveRequiredForm(
+  rows: (RawCorrectAnswerRow | RawAnswerComponentRow)[],
+  answerTexts: string[]
+): RequiredAnswerForm | null {
+  for (const row of rows) {
+    if ('required_form' in row && row.required_form) {
+      return row.required_form;
+    }
+  }
+  return detectRequiredForm(answerTexts);
+}
+
+function getAnswerText(row: RawCorrectAnswerRow | RawAnswerComponentRow): string {
+  return ('answer_text' in row ? row.answer_text : row.answer) ?? '';
+}
+
 function deriveAnnotations(answers: string[]): MarkingAnnotations {
   const annotations: MarkingAnnotations = {};
   answers.forEach((raw) => {
@@ -275,6 +445,14 @@ function deriveAnnotations(answers: string[]): MarkingAnnotations {
     if (lower.includes('unit')) {
       annotations.unitsRequired = true;
     }
+    if (/ignore\s+state\s+symbols?|no\s+state\s+symbols?|state\s+symbols?\s+(?:are\s+)?not\s+(?:required|needed)/.test(lower)) {
+      annotations.stateSymbols = false;
+    } else if (/state\s+symbols?/.test(lower)) {
+      annotations.stateSymbols = true;
+    }
+    if (lower.includes('multiples') && !/(?:not|no|n't)\s+(?:allow|accept)?\s*multiples/.test(lower)) {
+      annotations.multiples = true;
+    }
   });
   return annotations;
 }
@@ -315,8 +493,28 @@ function collectDependencies(answers: string[]): string[] {
   return dependencies;
 }
 
-function parseAlternatives(answer: string): string[] {
-  const cleaned = replaceUnicodeFractions(answer)
+function isAlgebraicContext(context: AutoMarkContext): boolean {
+  const format = context.question.answer_format;
+  return context.subjectArea === 'mathematics' || format === 'equation' || format === 'calculation';
+}
+
+function isEquationContext(context: AutoMarkContext): boolean {
+  return context.subjectArea === 'chemistry' || context.question.answer_requirement === 'complete_equation';
+}
+
+function parseAlternatives(answer: string, algebraic = false): string[] {
+  const source = stripEcfAnnotation(answer);
+  if (algebraic) {
+    // Keep brackets that belong to the expression; only drop annotation brackets such as "(factorised)" or "(2)"
+    return replaceUnicodeFractions(source)
+      .replace(/\((?=[^()]*(?:[a-z]{2,}|[a-z]\.))[^()]*\)|\(\s*\d+\s*m?\s*\)/gi, '')
+      .replace(/\b(owtte|ora|ecf)\b/gi, '')
+      .split(/\s+\/\s+|\bor\b/i)
+      .map((segment) => segment.trim())
+      .filter(Boolean);
+  }
+
+  const cleaned = replaceUnicodeFractions(source)
     .replace(/\(.*?\)/g, '')
     .replace(/\b(owtte|ora|ecf)\b/gi, '')
     .replace(/\b\d+\s*m?\b(?=\))/gi, '');
@@ -350,6 +548,14 @@ function replaceUnicodeFractions(value: string): string {
 }
 
 function normalizeStudentResponse(raw: AnswerSubmissionPayload, subject?: AutoMarkContext['subjectArea']): string[] {
+  return collectResponseValues(raw).map((entry) => normalizeText(entry, subject));
+}
+
+/**
+ * Flattens the submission into trimmed response strings without normalising
+ * case or symbols, which chemical formulae depend on.
+ */
+function collectResponseValues(raw: AnswerSubmissionPayload): string[] {
   const values: string[] = [];
 
   const addValue = (value: unknown) => {
@@ -381,7 +587,7 @@ function normalizeStudentResponse(raw: AnswerSubmissionPayload, subject?: AutoMa
     values.push(raw.units);
   }
 
-  return values.map((entry) => normalizeText(entry, subject));
+  return values;
 }
 
 function normalizeText(value: string, subject?: AutoMarkContext['subjectArea']): string {
@@ -438,9 +644,25 @@ function evaluateMarkingPoints(
   let totalAwarded = 0;
   let totalAvailable = 0;
 
+  const partResponses = extractPartResponses(context.rawAnswer, context.subjectArea);
+  const rawPartResponses = extractPartResponses(context.rawAnswer, context.subjectArea, false);
+  const rawResponses = collectResponseValues(context.rawAnswer);
+  const evaluatedPoints: MarkingPoint[] = [];
+
   points.forEach((point) => {
     totalAvailable += point.marks;
-    const evaluation = evaluatePoint(point, responses, context);
+    const ownResponses = findPartResponses(point, partResponses) ?? responses;
+    let evaluation = point.equations
+      ? evaluateEquationPoint(point, findPartResponses(point, rawPartResponses) ?? rawResponses)
+      : evaluatePoint(point, ownResponses, context);
+
+    if (!evaluation.matched && point.annotations.ecf && point.dependencies.length > 0) {
+      const followThrough = evaluateErrorCarriedForward(point, ownResponses, evaluatedPoints, partResponses);
+      if (followThrough) {
+        evaluation = followThrough;
+      }
+    }
+    evaluatedPoints.push(point);
 
     if (evaluation.matched) {
       totalAwarded += point.marks;
@@ -449,6 +671,25 @@ function evaluateMarkingPoints(
         marks: point.marks,
         notes: evaluation.notes.length ? evaluation.notes.join('; ') : undefined
       });
+    } else if (evaluation.partialCredit && point.marks > 1) {
+      // "1 mark for value, lose 1 for sig figs / form": award all but the final mark
+      totalAwarded += point.marks - 1;
+      awarded.push({
+        pointId: point.id,
+        marks: point.marks - 1,
+        notes: `${evaluation.reason}; 1 mark withheld`
+      });
+      denied.push({
+        pointId: point.id,
+        reason: evaluation.reason ?? 'answer not in required form',
+        expected: describeRequirement(point)
+      });
+    } else if (evaluation.partialCredit) {
+      denied.push({
+        pointId: point.id,
+        reason: evaluation.reason ?? 'answer not in required form',
+        expected: describeRequirement(point)
+      });
     } else {
       denied.push({
         pointId: point.id,
@@ -484,17 +725,116 @@ interface PointEvaluation {
   reason?: string;
   notes: string[];
   ecfApplied: boolean;
+  partialCredit?: boolean;
+}
+
+function describeRequirement(point: MarkingPoint): string {
+  const requirements = [
+    point.precision ? describePrecisionRule(point.precision) : null,
+    point.requiredForm ? describeRequiredForm(point.requiredForm) : null
+  ].filter(Boolean);
+  return [point.alternatives.join(' / '), ...requirements].join(' — ');
+}
+
+function extractPartResponses(
+  raw: AnswerSubmissionPayload,
+  subject?: AutoMarkContext['subjectArea'],
+  normalise = true
+): Map<string, string[]> {
+  const parts = new Map<string, string[]>();
+  if (!raw.value || typeof raw.value !== 'object' || Array.isArray(raw.value)) {
+    return parts;
+  }
+  Object.entries(raw.value as Record<string, unknown>).forEach(([key, value]) => {
+    const payload = { value: value as AnswerSubmissionPayload['value'] };
+    const tokens = normalise ? normalizeStudentResponse(payload, subject) : collectResponseValues(payload);
+    if (tokens.length > 0) {
+      parts.set(key.toLowerCase(), tokens);
+    }
+  });
+  return parts;
+}
+
+function findPartResponses(point: MarkingPoint, parts: Map<string, string[]>): string[] | null {
+  const keys = [point.subQuestionId, point.label, point.id].filter((key): key is string => Boolean(key));
+  for (const key of keys) {
+    const match = parts.get(key.toLowerCase());
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
+
+/**
+ * Re-evaluates a failed point using the student's own (wrong) values for the
+ * parts it depends on. Awards the follow-through marks when the student's
+ * answer matches the value recomputed from those earlier responses.
+ */
+function evaluateErrorCarriedForward(
+  point: MarkingPoint,
+  responses: string[],
+  evaluatedPoints: MarkingPoint[],
+  parts: Map<string, string[]>
+): PointEvaluation | null {
+  const dependencyValues: EcfDependencyValue[] = [];
+
+  for (const dependencyLabel of point.dependencies) {
+    const dependency = evaluatedPoints.find(
+      (candidate) =>
+        candidate.label?.toUpperCase() === dependencyLabel.toUpperCase() ||
+        candidate.id.toUpperCase() === dependencyLabel.toUpperCase()
+    );
+    if (!dependency) {
+      return null;
+    }
+    const studentValue = parseNumericValue(findPartResponses(dependency, parts)?.[0]);
+    if (studentValue === null) {
+      return null;
+    }
+    dependencyValues.push({
+      label: dependencyLabel,
+      studentValue,
+      correctValue: parseNumericValue(dependency.alternatives[0])
+    });
+  }
+
+  const carriesError = dependencyValues.some(
+    (dependency) =>
+      dependency.correctValue === null ||
+      !areEquivalentNumbers(String(dependency.correctValue), String(dependency.studentValue))
+  );
+  if (!carriesError) {
+    return null;
+  }
+
+  const resolution = resolveEcfExpectedValue(dependencyValues, point.ecfFormula);
+  if (!resolution) {
+    return null;
+  }
+
+  const expected = String(Number(resolution.expectedValue.toPrecision(10)));
+  if (!responses.some((response) => areEquivalentNumbers(expected, response))) {
+    return null;
+  }
+
+  const chain = dependencyValues.map((dependency) => `${dependency.label}=${dependency.studentValue}`).join(', ');
+  return {
+    matched: true,
+    notes: [`ecf applied: ${point.label ?? point.id} follows through from ${chain} (expected ${expected}, ${resolution.method})`],
+    ecfApplied: true
+  };
 }
 
 function evaluatePoint(point: MarkingPoint, responses: string[], context: AutoMarkContext): PointEvaluation {
   const notes: string[] = [];
-  let ecfApplied = false;
+  const penaltyReasons: string[] = [];
 
   const requirement = point.requirement;
   const alternatives = point.alternatives.map((entry) => normalizeText(entry, context.subjectArea));
 
   const matchesAlternative = (candidate: string): boolean => {
-    return responses.some((response) => responseMatches(response, candidate, point, context, notes));
+    return responses.some((response) => responseMatches(response, candidate, point, context, notes, penaltyReasons));
   };
 
   let matched = false;
@@ -502,7 +842,7 @@ function evaluatePoint(point: MarkingPoint, responses: string[], context: AutoMa
   if (requirement === 'all_required') {
     matched = alternatives.every(matchesAlternative);
     if (!matched) {
-      return { matched, reason: 'missing required component', notes, ecfApplied };
+      return { matched, reason: 'missing required component', notes, ecfApplied: false };
     }
   } else if (requirement === 'any_from') {
     const quantity = point.quantityRequired ?? 1;
@@ -513,21 +853,19 @@ function evaluatePoint(point: MarkingPoint, responses: string[], context: AutoMa
         matched,
         reason: `requires ${quantity} of ${alternatives.length} responses`,
         notes,
-        ecfApplied
+        ecfApplied: false
       };
     }
   } else {
     matched = alternatives.some(matchesAlternative);
+    if (!matched && penaltyReasons.length > 0) {
+      return { matched, reason: penaltyReasons[0], notes, ecfApplied: false, partialCredit: true };
+    }
     if (!matched) {
-      return { matched, reason: 'no alternative matched', notes, ecfApplied };
+      return { matched, reason: 'no alternative matched', notes, ecfApplied: false };
     }
   }
 
-  if (point.annotations.ecf) {
-    ecfApplied = true;
-    notes.push('ecf applied');
-  }
-
   if (point.annotations.method) {
     notes.push('method mark awarded');
   }
@@ -541,7 +879,52 @@ function evaluatePoint(point: MarkingPoint, responses: string[], context: AutoMa
     notes.push('ora accepted');
   }
 
-  return { matched, notes, ecfApplied };
+  return { matched, notes, ecfApplied: false };
+}
+
+/**
+ * Marks a `complete_equation` point by parsing the student's equation and
+ * checking species, element and charge balance, coefficients and, when the
+ * mark scheme demands them, state symbols.
+ */
+function evaluateEquationPoint(point: MarkingPoint, responses: string[]): PointEvaluation {
+  const submitted = responses
+    .map(parseChemicalEquation)
+    .filter((equation): equation is NonNullable<typeof equation> => equation !== null);
+
+  if (submitted.length === 0) {
+    return { matched: false, reason: 'no chemical equation given', notes: [], ecfApplied: false };
+  }
+
+  let best: EquationEvaluation | null = null;
+  for (const text of point.equations ?? []) {
+    const expected = parseChemicalEquation(text);
+    if (!expected) {
+      continue;
+    }
+    const options = {
+      requireStateSymbols: point.annotations.stateSymbols ?? hasStateSymbols(expected),
+      allowMultiples: Boolean(point.annotations.multiples)
+    };
+    for (const equation of submitted) {
+      const result = compareChemicalEquations(expected, equation, options);
+      if (result.status === 'correct') {
+        return { matched: true, notes: [result.note ?? 'balanced equation accepted'], ecfApplied: false };
+      }
+      if (
+        !best ||
+        (result.status === 'partially_correct' && best.status === 'incorrect') ||
+        (result.status === best.status && result.reasons.length < best.reasons.length)
+      ) {
+        best = result;
+      }
+    }
+  }
+
+  const reason = best?.reasons.join('; ') || 'equation not matched';
+  return best?.status === 'partially_correct'
+    ? { matched: false, reason, notes: [], ecfApplied: false, partialCredit: true }
+    : { matched: false, reason, notes: [], ecfApplied: false };
 }
 
 function responseMatches(
@@ -549,7 +932,8 @@ function responseMatches(
   candidate: string,
   point: MarkingPoint,
   context: AutoMarkContext,
-  notes: string[]
+  notes: string[],
+  penaltyReasons: string[] = []
 ): boolean {
   if (!candidate) {
     return false;
@@ -578,10 +962,30 @@ function responseMatches(
     }
   }
 
-  if (areEquivalentNumbers(candidate, response)) {
-    notes.push('accepted numerical equivalent');
+  const numeric = evaluateNumericResponse(candidate, response, point.precision ?? null);
+  if (numeric.status === 'correct') {
+    notes.push(numeric.note ?? 'accepted numerical equivalent');
     return true;
   }
+  if (numeric.status === 'wrong_precision') {
+    penaltyReasons.push(numeric.note ?? 'incorrect precision');
+    return false;
+  }
+  if (numeric.status === 'incorrect') {
+    return false;
+  }
+
+  if (isAlgebraicContext(context)) {
+    const algebra = compareAlgebraic(candidate, response, point.requiredForm ?? null);
+    if (algebra.status === 'equivalent') {
+      notes.push(algebra.note ?? 'accepted algebraic equivalent');
+      return true;
+    }
+    if (algebra.status === 'wrong_form') {
+      penaltyReasons.push(algebra.note ?? 'answer not in required form');
+      return false;
+    }
+  }
 
   if (point.annotations.unitsRequired) {
     if (matchWithUnits(candidate, response)) {
@@ -626,6 +1030,10 @@ function responseMatches(
 }
 
 function areEquivalentNumbers(candidate: string, response: string): boolean {
+  const numeric = evaluateNumericResponse(candidate, response);
+  if (numeric.status !== 'not_numeric') {
+    return numeric.status === 'correct';
+  }
   const candidateValue = parseFloat(candidate.replace(/[^0-9.-]/g, ''));
   const responseValue = parseFloat(response.replace(/[^0-9.-]/g, ''));
   if (Number.isFinite(candidateValue) && Number.isFinite(responseValue)) {
@@ -753,13 +1161,16 @@ export function detectSubjectArea(subjectName?: string | null): AutoMarkContext[
   return 'general';
 }
 
-export function calculateSpeedBonus(startedAt: string, submittedAt: string, baselineSeconds = 90): number {
-  const duration = dayjs(submittedAt).diff(dayjs(startedAt), 'second');
-  if (duration <= 0) {
+/**
+ * `activeSeconds` is the time the item itself was on screen (see itemTiming);
+ * unknown timings earn no bonus.
+ */
+export function calculateSpeedBonus(activeSeconds: number | null, baselineSeconds = 90): number {
+  if (activeSeconds === null || activeSeconds <= 0) {
     return 0;
   }
-  if (duration < baselineSeconds) {
-    return Math.ceil((baselineSeconds - duration) / 10);
+  if (activeSeconds < baselineSeconds) {
+    return Math.ceil((baselineSeconds - activeSeconds) / 10);
   }
   return 0;
 }
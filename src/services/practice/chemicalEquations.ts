@@ -0,0 +1,461 @@
+/**
+ * Chemical equation parsing and comparison for `complete_equation` marking.
+ *
+ * Equations are parsed into species with coefficients, element counts, ionic
+ * charge and optional state symbols, so a response can be checked for element
+ * and charge balance independently of how it was typed ("SO4^2-", "SO₄²⁻",
+ * "2H2 + O2 → 2H2O", "Cu2+(aq) + 2e- -> Cu(s)").
+ */
+
+export type StateSymbol = 's' | 'l' | 'g' | 'aq';
+
+export interface ChemicalSpecies {
+  formula: string;
+  coefficient: number;
+  elements: Record<string, number>;
+  charge: number;
+  state: StateSymbol | null;
+}
+
+export interface ChemicalEquation {
+  reactants: ChemicalSpecies[];
+  products: ChemicalSpecies[];
+  reversible: boolean;
+}
+
+export interface EquationBalance {
+  unbalancedElements: string[];
+  chargeBalanced: boolean;
+}
+
+export interface EquationMarkingOptions {
+  requireStateSymbols: boolean;
+  allowMultiples: boolean;
+}
+
+export type EquationEvaluationStatus = 'correct' | 'partially_correct' | 'incorrect';
+
+export interface EquationEvaluation {
+  status: EquationEvaluationStatus;
+  reasons: string[];
+  note?: string;
+}
+
+const ELEMENT_NAMES: Record<string, string> = Object.fromEntries(
+  (
+    'H:hydrogen,He:helium,Li:lithium,Be:beryllium,B:boron,C:carbon,N:nitrogen,O:oxygen,F:fluorine,Ne:neon,' +
+    'Na:sodium,Mg:magnesium,Al:aluminium,Si:silicon,P:phosphorus,S:sulfur,Cl:chlorine,Ar:argon,K:potassium,' +
+    'Ca:calcium,Sc:scandium,Ti:titanium,V:vanadium,Cr:chromium,Mn:manganese,Fe:iron,Co:cobalt,Ni:nickel,' +
+    'Cu:copper,Zn:zinc,Ga:gallium,Ge:germanium,As:arsenic,Se:selenium,Br:bromine,Kr:krypton,Rb:rubidium,' +
+    'Sr:strontium,Y:yttrium,Zr:zirconium,Nb:niobium,Mo:molybdenum,Tc:technetium,Ru:ruthenium,Rh:rhodium,' +
+    'Pd:palladium,Ag:silver,Cd:cadmium,In:indium,Sn:tin,Sb:antimony,Te:tellurium,I:iodine,Xe:xenon,' +
+    'Cs:caesium,Ba:barium,La:lanthanum,Ce:cerium,Pr:praseodymium,Nd:neodymium,Pm:promethium,Sm:samarium,' +
+    'Eu:europium,Gd:gadolinium,Tb:terbium,Dy:dysprosium,Ho:holmium,Er:erbium,Tm:thulium,Yb:ytterbium,' +
+    'Lu:lutetium,Hf:hafnium,Ta:tantalum,W:tungsten,Re:rhenium,Os:osmium,Ir:iridium,Pt:platinum,Au:gold,' +
+    'Hg:mercury,Tl:thallium,Pb:lead,Bi:bismuth,Po:polonium,At:astatine,Rn:radon,Fr:francium,Ra:radium,' +
+    'Ac:actinium,Th:thorium,Pa:protactinium,U:uranium,Np:neptunium,Pu:plutonium,Am:americium,Cm:curium,' +
+    'Bk:berkelium,Cf:californium,Es:einsteinium,Fm:fermium,Md:mendelevium,No:nobelium,Lr:lawrencium,' +
+    'Rf:rutherfordium,Db:dubnium,Sg:seaborgium,Bh:bohrium,Hs:hassium,Mt:meitnerium,Ds:darmstadtium,' +
+    'Rg:roentgenium,Cn:copernicium,Nh:nihonium,Fl:flerovium,Mc:moscovium,Lv:livermorium,Ts:tennessine,Og:oganesson'
+  )
+    .split(',')
+    .map((entry) => entry.split(':') as [string, string])
+);
+
+const SUBSCRIPTS: Record<string, string> = {
+  '₀': '0',
+  '₁': '1',
+  '₂': '2',
+  '₃': '3',
+  '₄': '4',
+  '₅': '5',
+  '₆': '6',
+  '₇': '7',
+  '₈': '8',
+  '₉': '9'
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0',
+  '¹': '1',
+  '²': '2',
+  '³': '3',
+  '⁴': '4',
+  '⁵': '5',
+  '⁶': '6',
+  '⁷': '7',
+  '⁸': '8',
+  '⁹': '9',
+  '⁺': '+',
+  '⁻': '-'
+};
+
+const ARROW_PATTERN = /⇌|⇋|<=+>|<-+>|⟶|→|-+>|=/g;
+const REVERSIBLE_ARROWS = new Set(['⇌', '⇋']);
+const STATE_PATTERN = /\(\s*(s|l|g|aq)\s*\)\s*$/i;
+const EPSILON = 1e-9;
+
+function normaliseEquationText(text: string): string {
+  return text
+    .replace(/[₀-₉]/g, (char) => SUBSCRIPTS[char] ?? char)
+    .replace(/[⁰¹²³⁴-⁹⁺⁻]+/g, (run) => `^${run.split('').map((char) => SUPERSCRIPTS[char] ?? char).join('')}`)
+    .replace(/[−–]/g, '-')
+    .replace(/½/g, '1/2')
+    .replace(/[↑↓]/g, '')
+    .trim();
+}
+
+/**
+ * Splits one side of an equation into species. Spaced "+" separators are
+ * preferred; without them a "+" only separates species when it is followed by
+ * the start of another species, so ionic charges ("Na++Cl-") survive.
+ */
+function splitSpecies(side: string): string[] {
+  const parts = /\s\+\s/.test(side)
+    ? side.split(/\s+\+\s+/)
+    : side.split(/\+(?!\s*\((?:s|l|g|aq)\))(?=\s*(?:\d|[A-Z([]|e\b))/);
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+function parseCoefficient(text: string): number {
+  if (text.includes('/')) {
+    const [numerator, denominator] = text.split('/').map((part) => Number(part.trim()));
+    return numerator / denominator;
+  }
+  return Number(text);
+}
+
+function addCounts(target: Record<string, number>, source: Record<string, number>, multiplier: number) {
+  Object.entries(source).forEach(([element, count]) => {
+    target[element] = (target[element] ?? 0) + count * multiplier;
+  });
+}
+
+function parseFormulaBody(text: string): Record<string, number> | null {
+  const stack: Record<string, number>[] = [{}];
+  const openers: string[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (char === '(' || char === '[') {
+      stack.push({});
+      openers.push(char);
+      index += 1;
+      continue;
+    }
+    if (char === ')' || char === ']') {
+      const opener = openers.pop();
+      if (!opener || (opener === '(') !== (char === ')')) {
+        return null;
+      }
+      const group = stack.pop() as Record<string, number>;
+      index += 1;
+      const multiplier = text.slice(index).match(/^\d+/);
+      index += multiplier ? multiplier[0].length : 0;
+      addCounts(stack[stack.length - 1], group, multiplier ? Number(multiplier[0]) : 1);
+      continue;
+    }
+    const element = text.slice(index).match(/^([A-Z][a-z]?)(\d*)/);
+    if (!element || !ELEMENT_NAMES[element[1]]) {
+      return null;
+    }
+    addCounts(stack[stack.length - 1], { [element[1]]: element[2] ? Number(element[2]) : 1 }, 1);
+    index += element[0].length;
+  }
+
+  if (openers.length > 0 || Object.keys(stack[0]).length === 0) {
+    return null;
+  }
+  return stack[0];
+}
+
+/**
+ * Parses a formula including hydrate dots ("CuSO4·5H2O").
+ */
+function parseFormula(text: string): Record<string, number> | null {
+  const elements: Record<string, number> = {};
+  const segments = text.split(/[·•*]|\.(?=\d|[A-Z])/);
+  for (const segment of segments) {
+    const multiplier = segment.match(/^\d+/);
+    const counts = parseFormulaBody(multiplier ? segment.slice(multiplier[0].length) : segment);
+    if (!counts) {
+      return null;
+    }
+    addCounts(elements, counts, multiplier ? Number(multiplier[0]) : 1);
+  }
+  return elements;
+}
+
+/**
+ * Separates the ionic charge from a formula. Explicit charges ("SO4^2-",
+ * "SO4 2-") are unambiguous; for bare ones a leading digit is a charge on a
+ * monatomic ion ("Fe3+") and a subscript otherwise ("NH4+"), except that a
+ * trailing pair of digits splits into subscript and charge ("SO42-").
+ */
+function splitCharge(text: string): { body: string; charge: number } {
+  const explicit = text.match(/(?:\s*\^\s*|\s+)(\d*)\s*([+-])$/);
+  if (explicit) {
+    const magnitude = explicit[1] ? Number(explicit[1]) : 1;
+    return { body: text.slice(0, explicit.index).trim(), charge: explicit[2] === '+' ? magnitude : -magnitude };
+  }
+
+  const bare = text.match(/(\d*)([+-])$/);
+  if (!bare) {
+    return { body: text, charge: 0 };
+  }
+
+  const sign = bare[2] === '+' ? 1 : -1;
+  const digits = bare[1];
+  let body = text.slice(0, bare.index);
+  let magnitude = 1;
+
+  if (digits && /^[A-Z][a-z]?$/.test(body)) {
+    magnitude = Number(digits);
+  } else if (digits.length > 1) {
+    body += digits.slice(0, -1);
+    magnitude = Number(digits.slice(-1));
+  } else {
+    body += digits;
+  }
+
+  return { body, charge: sign * magnitude };
+}
+
+function parseSpecies(text: string): ChemicalSpecies | null {
+  let working = text.trim();
+  let state: StateSymbol | null = null;
+
+  const stateMatch = working.match(STATE_PATTERN);
+  if (stateMatch) {
+    state = stateMatch[1].toLowerCase() as StateSymbol;
+    working = working.slice(0, stateMatch.index).trim();
+  }
+
+  let coefficient = 1;
+  const coefficientMatch = working.match(/^(\d+\s*\/\s*\d+|\d*\.\d+|\d+)\s*(?=[A-Z([e])/);
+  if (coefficientMatch) {
+    coefficient = parseCoefficient(coefficientMatch[1]);
+    working = working.slice(coefficientMatch[0].length);
+  }
+  if (!Number.isFinite(coefficient) || coefficient <= 0) {
+    return null;
+  }
+
+  if (/^e\s*\^?\s*-?$/.test(working)) {
+    return { formula: 'e-', coefficient, elements: {}, charge: -1, state };
+  }
+
+  const { body, charge } = splitCharge(working);
+  const formula = body.replace(/\s+/g, '');
+  const elements = parseFormula(formula);
+  if (!elements) {
+    return null;
+  }
+
+  return { formula: formatFormula(formula, charge), coefficient, elements, charge, state };
+}
+
+function formatFormula(body: string, charge: number): string {
+  if (charge === 0) {
+    return body;
+  }
+  const magnitude = Math.abs(charge) === 1 ? '' : String(Math.abs(charge));
+  return `${body}${magnitude}${charge > 0 ? '+' : '-'}`;
+}
+
+export function parseChemicalEquation(text: string): ChemicalEquation | null {
+  const normalised = normaliseEquationText(text);
+  const arrows = normalised.match(ARROW_PATTERN);
+  if (!arrows || arrows.length !== 1) {
+    return null;
+  }
+
+  const [left, right] = normalised.split(ARROW_PATTERN);
+  const reactants = splitSpecies(left).map(parseSpecies);
+  const products = splitSpecies(right).map(parseSpecies);
+  if (
+    reactants.length === 0 ||
+    products.length === 0 ||
+    reactants.some((species) => !species) ||
+    products.some((species) => !species)
+  ) {
+    return null;
+  }
+
+  return {
+    reactants: reactants as ChemicalSpecies[],
+    products: products as ChemicalSpecies[],
+    reversible: REVERSIBLE_ARROWS.has(arrows[0]) || /^<=+>$|^<-+>$/.test(arrows[0])
+  };
+}
+
+/**
+ * Pulls the equations out of mark-scheme text, dropping annotations such as
+ * "(allow multiples)" while keeping state symbols and bracketed groups.
+ */
+export function extractEquationAlternatives(answers: string[]): string[] {
+  return answers
+    .flatMap((answer) =>
+      answer
+        .replace(/\([^()]*[a-z]{3,}[^()]*\)|\[[^\]]*[a-z]{3,}[^\]]*\]/g, '')
+        .replace(/\b(owtte|ora|ecf)\b/gi, '')
+        .split(/\s+\/\s+|\s+or\s+|;/i)
+    )
+    .map((segment) => segment.trim())
+    .filter((segment) => segment && parseChemicalEquation(segment));
+}
+
+export function hasStateSymbols(equation: ChemicalEquation): boolean {
+  return [...equation.reactants, ...equation.products].every((species) => species.state !== null);
+}
+
+function tally(species: ChemicalSpecies[]): { elements: Record<string, number>; charge: number } {
+  const elements: Record<string, number> = {};
+  let charge = 0;
+  species.forEach((entry) => {
+    addCounts(elements, entry.elements, entry.coefficient);
+    charge += entry.charge * entry.coefficient;
+  });
+  return { elements, charge };
+}
+
+export function checkEquationBalance(equation: ChemicalEquation): EquationBalance {
+  const left = tally(equation.reactants);
+  const right = tally(equation.products);
+  const elements = new Set([...Object.keys(left.elements), ...Object.keys(right.elements)]);
+
+  return {
+    unbalancedElements: [...elements].filter(
+      (element) => Math.abs((left.elements[element] ?? 0) - (right.elements[element] ?? 0)) > EPSILON
+    ),
+    chargeBalanced: Math.abs(left.charge - right.charge) <= EPSILON
+  };
+}
+
+function speciesKey(species: ChemicalSpecies): string {
+  const composition = Object.entries(species.elements)
+    .filter(([, count]) => count > 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([element, count]) => `${element}${count}`)
+    .join('');
+  return `${composition}|${species.charge}`;
+}
+
+function indexSpecies(species: ChemicalSpecies[]): Map<string, ChemicalSpecies> {
+  const index = new Map<string, ChemicalSpecies>();
+  species.forEach((entry) => {
+    const key = speciesKey(entry);
+    const existing = index.get(key);
+    index.set(key, existing ? { ...existing, coefficient: existing.coefficient + entry.coefficient } : entry);
+  });
+  return index;
+}
+
+function sameKeys(a: Map<string, ChemicalSpecies>, b: Map<string, ChemicalSpecies>): boolean {
+  return a.size === b.size && [...a.keys()].every((key) => b.has(key));
+}
+
+function describeSpeciesDifferences(
+  expected: Map<string, ChemicalSpecies>,
+  response: Map<string, ChemicalSpecies>
+): string[] {
+  const missing = [...expected.entries()].filter(([key]) => !response.has(key)).map(([, species]) => species.formula);
+  const unexpected = [...response.entries()].filter(([key]) => !expected.has(key)).map(([, species]) => species.formula);
+  return [
+    missing.length ? `missing ${missing.join(', ')}` : null,
+    unexpected.length ? `incorrect species ${unexpected.join(', ')}` : null
+  ].filter((reason): reason is string => Boolean(reason));
+}
+
+export function describeUnbalancedElement(symbol: string): string {
+  return ELEMENT_NAMES[symbol] ?? symbol;
+}
+
+/**
+ * Compares a student's equation against a mark-scheme equation. Responses
+ * with the right species but balancing, coefficient or state-symbol problems
+ * are reported as partially correct so the caller can award the formulae mark.
+ */
+export function compareChemicalEquations(
+  expected: ChemicalEquation,
+  response: ChemicalEquation,
+  options: EquationMarkingOptions
+): EquationEvaluation {
+  const expectedSides = [indexSpecies(expected.reactants), indexSpecies(expected.products)];
+  let responseSides = [indexSpecies(response.reactants), indexSpecies(response.products)];
+
+  const aligned = sameKeys(expectedSides[0], responseSides[0]) && sameKeys(expectedSides[1], responseSides[1]);
+  const reversedAligned =
+    (expected.reversible || response.reversible) &&
+    sameKeys(expectedSides[0], responseSides[1]) &&
+    sameKeys(expectedSides[1], responseSides[0]);
+
+  if (!aligned && !reversedAligned) {
+    const expectedAll = indexSpecies([...expected.reactants, ...expected.products]);
+    const responseAll = indexSpecies([...response.reactants, ...response.products]);
+    const differences = describeSpeciesDifferences(expectedAll, responseAll);
+    return {
+      status: 'incorrect',
+      reasons: differences.length ? differences : ['reactants and products on the wrong side']
+    };
+  }
+  if (!aligned) {
+    responseSides = [responseSides[1], responseSides[0]];
+  }
+
+  const reasons: string[] = [];
+  let note: string | undefined;
+
+  const balance = checkEquationBalance(response);
+  if (balance.unbalancedElements.length > 0) {
+    reasons.push(`unbalanced ${balance.unbalancedElements.map(describeUnbalancedElement).join(', ')}`);
+  }
+  if (!balance.chargeBalanced) {
+    reasons.push('unbalanced charge');
+  }
+
+  if (reasons.length === 0) {
+    const ratios = expectedSides.flatMap((side, index) =>
+      [...side.entries()].map(([key, species]) => (responseSides[index].get(key)?.coefficient ?? 0) / species.coefficient)
+    );
+    const ratio = ratios[0];
+    if (ratios.some((value) => Math.abs(value - ratio) > EPSILON)) {
+      reasons.push('coefficients do not match the expected equation');
+    } else if (Math.abs(ratio - 1) > EPSILON) {
+      if (options.allowMultiples) {
+        note = 'accepted multiple of the balanced equation';
+      } else {
+        reasons.push('coefficients are not in the lowest whole-number ratio');
+      }
+    }
+  }
+
+  if (options.requireStateSymbols) {
+    const responseSpecies = [...response.reactants, ...response.products];
+    const unstated = responseSpecies.filter((species) => species.state === null);
+    if (unstated.length === responseSpecies.length) {
+      reasons.push('missing state symbols');
+    } else if (unstated.length > 0) {
+      reasons.push(`missing state symbols for ${unstated.map((species) => species.formula).join(', ')}`);
+    }
+
+    const expectedStates = new Map(
+      [...expected.reactants, ...expected.products].map((species) => [speciesKey(species), species.state])
+    );
+    const wrongStates = responseSpecies.filter((species) => {
+      const expectedState = expectedStates.get(speciesKey(species));
+      return species.state !== null && expectedState && expectedState !== species.state;
+    });
+    wrongStates.forEach((species) => {
+      reasons.push(
+        `incorrect state symbol for ${species.formula} (expected (${expectedStates.get(speciesKey(species))}))`
+      );
+    });
+  }
+
+  if (reasons.length > 0) {
+    return { status: 'partially_correct', reasons };
+  }
+  return { status: 'correct', reasons, note: note ?? 'balanced equation accepted' };
+}
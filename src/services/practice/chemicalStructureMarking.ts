@@ -0,0 +1,176 @@
+/**
+ * Marking for `chemical_structure` answers drawn in the structure editor.
+ *
+ * The scheme lists the accepted molecules as SMILES. The structure mark is
+ * awarded when the drawing is the same molecule as one of them, however it
+ * was laid out; a structural isomer is named as such in the feedback.
+ * Optional points cover the molecular formula and required functional
+ * groups.
+ */
+
+import { AutoMarkPointAward, AutoMarkPointDenied, AutoMarkResult } from '@/types/practice';
+import {
+  FUNCTIONAL_GROUP_LABELS,
+  FunctionalGroup,
+  MoleculeGraph,
+  detectFunctionalGroups,
+  findValenceProblems,
+  isSameMolecule,
+  molecularFormula,
+  parseSmiles
+} from './molecularStructure';
+
+export interface ChemicalStructureScheme {
+  /** Accepted molecules; any one earns the structure mark */
+  smiles: string[];
+  /** Drawn model answers, accepted alongside `smiles` */
+  molecules?: MoleculeGraph[];
+  marks?: number;
+  /** Separate mark for the molecular formula, so isomers can still earn it */
+  formulaMarks?: number;
+  functionalGroups?: FunctionalGroup[];
+  groupMarks?: number;
+}
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function asStrings(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((entry): entry is string => typeof entry === 'string' && entry.trim() !== '');
+  }
+  return typeof value === 'string' && value.trim() ? [value] : [];
+}
+
+function isMoleculeGraph(value: unknown): value is MoleculeGraph {
+  const graph = value as MoleculeGraph | null;
+  return !!graph && Array.isArray(graph.atoms) && Array.isArray(graph.bonds);
+}
+
+/**
+ * Reads a scheme from a correct-answer text: `{ smiles: ... }` with optional
+ * formula and group marks, or a model editor answer carrying a drawing.
+ */
+export function parseChemicalStructureScheme(text: string | null | undefined): ChemicalStructureScheme | null {
+  const data = parseJson(text) as (Partial<ChemicalStructureScheme> & { smiles?: unknown; molecule?: unknown }) | null;
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  const smiles = asStrings(data.smiles);
+  const molecules = isMoleculeGraph(data.molecule) && data.molecule.atoms.length ? [data.molecule] : [];
+  if (!smiles.length && !molecules.length) {
+    return null;
+  }
+  return {
+    smiles,
+    molecules,
+    marks: data.marks ?? 1,
+    formulaMarks: data.formulaMarks,
+    functionalGroups: Array.isArray(data.functionalGroups) ? data.functionalGroups : undefined,
+    groupMarks: data.groupMarks
+  };
+}
+
+/** The drawing in an editor answer, or null for answers typed as text only */
+export function parseStructureResponse(raw: unknown): MoleculeGraph | null {
+  const data = parseJson(raw) as { molecule?: unknown; smiles?: unknown } | null;
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  if (isMoleculeGraph(data.molecule) && data.molecule.atoms.length) {
+    return data.molecule;
+  }
+  if (typeof data.smiles === 'string' && data.smiles.trim()) {
+    try {
+      return parseSmiles(data.smiles);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function acceptedMolecules(scheme: ChemicalStructureScheme): MoleculeGraph[] {
+  const parsed = scheme.smiles.flatMap((smiles) => {
+    try {
+      return [parseSmiles(smiles)];
+    } catch {
+      return [];
+    }
+  });
+  return [...(scheme.molecules ?? []), ...parsed];
+}
+
+export function markChemicalStructure(raw: unknown, scheme: ChemicalStructureScheme): AutoMarkResult {
+  const molecule = parseStructureResponse(raw) ?? { atoms: [], bonds: [] };
+  const accepted = acceptedMolecules(scheme);
+  const formula = molecularFormula(molecule);
+  const expectedFormulas = [...new Set(accepted.map(molecularFormula))];
+  const awarded: AutoMarkPointAward[] = [];
+  const denied: AutoMarkPointDenied[] = [];
+  let totalAvailable = 0;
+
+  const structureMarks = scheme.marks ?? 1;
+  totalAvailable += structureMarks;
+  const problems = findValenceProblems(molecule);
+  if (!molecule.atoms.length) {
+    denied.push({ pointId: 'structure', reason: 'no structure drawn', expected: expectedFormulas.join(' / ') });
+  } else if (problems.length) {
+    denied.push({ pointId: 'structure', reason: problems.map((problem) => problem.message).join('; ') });
+  } else if (accepted.some((model) => isSameMolecule(molecule, model))) {
+    awarded.push({ pointId: 'structure', marks: structureMarks });
+  } else if (expectedFormulas.includes(formula)) {
+    denied.push({
+      pointId: 'structure',
+      reason: `structural isomer: same formula ${formula} but the atoms are connected differently`,
+      expected: scheme.smiles.join(' / ') || formula
+    });
+  } else {
+    denied.push({
+      pointId: 'structure',
+      reason: `different molecule (${formula || 'empty'})`,
+      expected: expectedFormulas.join(' / ')
+    });
+  }
+
+  if (scheme.formulaMarks) {
+    totalAvailable += scheme.formulaMarks;
+    if (formula && expectedFormulas.includes(formula)) {
+      awarded.push({ pointId: 'formula', marks: scheme.formulaMarks });
+    } else {
+      denied.push({ pointId: 'formula', reason: `formula ${formula || 'missing'}`, expected: expectedFormulas.join(' / ') });
+    }
+  }
+
+  if (scheme.functionalGroups?.length && scheme.groupMarks) {
+    totalAvailable += scheme.groupMarks;
+    const detected = detectFunctionalGroups(molecule);
+    const missing = scheme.functionalGroups.filter((group) => !detected.includes(group));
+    if (!missing.length) {
+      awarded.push({ pointId: 'functional_groups', marks: scheme.groupMarks });
+    } else {
+      denied.push({
+        pointId: 'functional_groups',
+        reason: `missing ${missing.map((group) => FUNCTIONAL_GROUP_LABELS[group] ?? group).join(', ')}`,
+        expected: scheme.functionalGroups.map((group) => FUNCTIONAL_GROUP_LABELS[group] ?? group).join(', ')
+      });
+    }
+  }
+
+  return {
+    awarded,
+    denied,
+    ecf: false,
+    notes: formula ? [`drawn formula ${formula}`] : [],
+    totalAwarded: awarded.reduce((sum, award) => sum + award.marks, 0),
+    totalAvailable
+  };
+}
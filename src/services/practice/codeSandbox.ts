@@ -0,0 +1,302 @@
+/**
+ * In-browser sandbox for `code` answers.
+ *
+ * Student programs never run on the page: JavaScript (and transpiled
+ * pseudocode) runs in a Web Worker with network access removed, Python runs
+ * in a Pyodide (WebAssembly CPython) worker. A run that passes the time
+ * limit has its worker terminated. Memory is checked where the browser
+ * reports heap use; a worker that dies from running out of memory is
+ * reported as `memory_exceeded` either way.
+ */
+
+import { AutoMarkResult } from '@/types/practice';
+import {
+  CodeLanguage,
+  CodeMarkingScheme,
+  CodeRunResult,
+  CodeTestCase,
+  CodeTestOutcome,
+  DEFAULT_MEMORY_LIMIT_MB,
+  DEFAULT_TIME_LIMIT_MS,
+  MAX_OUTPUT_CHARS,
+  gradeTestOutcomes,
+  markTraceTable,
+  outputsMatch,
+  parseTraceTableResponse
+} from './codeTesting';
+import { PSEUDOCODE_RUNTIME, PseudocodeError, generateTraceTable, transpilePseudocode } from './pseudocode';
+
+const PYODIDE_URL = 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/pyodide.js';
+// Loading the interpreter is not counted against the program's time limit
+const PYTHON_LOAD_TIMEOUT_MS = 60000;
+
+type WorkerKind = 'javascript' | 'python';
+
+interface RunLimits {
+  timeLimitMs: number;
+  memoryLimitMb: number;
+}
+
+interface WorkerReply {
+  type: 'started' | 'done';
+  status?: CodeRunResult['status'];
+  stdout?: string;
+  error?: string;
+}
+
+// Shared by both workers: removes network access and builds the output buffer
+const WORKER_PRELUDE = `
+for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches']) {
+  try { self[name] = undefined; } catch (e) {}
+}
+const createOutput = (maxOutput) => {
+  let text = '';
+  let truncated = false;
+  return {
+    write(chunk) {
+      if (truncated) return;
+      text += chunk;
+      if (text.length > maxOutput) {
+        text = text.slice(0, maxOutput);
+        truncated = true;
+      }
+    },
+    get text() { return text; },
+    get truncated() { return truncated; }
+  };
+};
+const heapExceeded = (limitMb) => {
+  const memory = self.performance && self.performance.memory;
+  return !!memory && memory.usedJSHeapSize > limitMb * 1024 * 1024;
+};
+const isMemoryError = (error) =>
+  !!error && (error.name === 'MemoryLimit' || (error.name === 'RangeError' && /invalid (array|string) length|allocation|memory/i.test(error.message)));
+`;
+
+const JAVASCRIPT_WORKER = `
+${WORKER_PRELUDE}
+self.onmessage = (event) => {
+  const { code, input, maxOutput, memoryLimitMb, pseudocode } = event.data;
+  const lines = [...input];
+  const output = createOutput(maxOutput);
+  const checkMemory = () => {
+    if (heapExceeded(memoryLimitMb)) {
+      const error = new Error('Memory limit exceeded');
+      error.name = 'MemoryLimit';
+      throw error;
+    }
+  };
+  const print = (...values) => {
+    checkMemory();
+    output.write(values.map((value) => typeof value === 'string' ? value : JSON.stringify(value)).join(' ') + '\\n');
+  };
+  const readLine = () => {
+    checkMemory();
+    return lines.length ? lines.shift() : null;
+  };
+  const sandboxConsole = { log: print, info: print, warn: print, error: print };
+  self.postMessage({ type: 'started' });
+  try {
+    if (pseudocode) {
+      const hooks = { input: readLine, output: (text) => print(text), trace: () => undefined };
+      new Function('__hooks', '__limits', code)(hooks, { maxSteps: 1e7 });
+    } else {
+      new Function('console', 'prompt', 'input', 'self', 'globalThis', code)(sandboxConsole, readLine, readLine, undefined, undefined);
+    }
+    checkMemory();
+    self.postMessage({
+      type: 'done',
+      status: output.truncated ? 'error' : 'completed',
+      stdout: output.text,
+      error: output.truncated ? 'Output limit exceeded' : undefined
+    });
+  } catch (error) {
+    self.postMessage({
+      type: 'done',
+      status: isMemoryError(error) ? 'memory_exceeded' : 'error',
+      stdout: output.text,
+      error: String((error && error.message) || error)
+    });
+  }
+};
+`;
+
+// importScripts is captured before the prelude removes it
+const PYTHON_WORKER = `
+const loadScript = self.importScripts.bind(self);
+loadScript('${PYODIDE_URL}');
+const ready = loadPyodide();
+${WORKER_PRELUDE}
+self.onmessage = async (event) => {
+  const { code, input, maxOutput } = event.data;
+  const pyodide = await ready;
+  const lines = [...input];
+  const output = createOutput(maxOutput);
+  pyodide.setStdin({ stdin: () => (lines.length ? lines.shift() : undefined) });
+  pyodide.setStdout({ batched: (text) => output.write(text + '\\n') });
+  pyodide.setStderr({ batched: () => undefined });
+  self.postMessage({ type: 'started' });
+  try {
+    await pyodide.runPythonAsync(code, { globals: pyodide.toPy({}) });
+    self.postMessage({
+      type: 'done',
+      status: output.truncated ? 'error' : 'completed',
+      stdout: output.text,
+      error: output.truncated ? 'Output limit exceeded' : undefined
+    });
+  } catch (error) {
+    const message = String((error && error.message) || error).trim().split('\\n').pop();
+    self.postMessage({
+      type: 'done',
+      status: /^MemoryError/.test(message) ? 'memory_exceeded' : 'error',
+      stdout: output.text,
+      error: message
+    });
+  }
+};
+`;
+
+const workers = new Map<WorkerKind, Worker>();
+
+function getWorker(kind: WorkerKind): Worker {
+  const existing = workers.get(kind);
+  if (existing) {
+    return existing;
+  }
+  const source = kind === 'python' ? PYTHON_WORKER : JAVASCRIPT_WORKER;
+  const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  URL.revokeObjectURL(url);
+  workers.set(kind, worker);
+  return worker;
+}
+
+function discardWorker(kind: WorkerKind): void {
+  workers.get(kind)?.terminate();
+  workers.delete(kind);
+}
+
+/** Stops any sandbox workers, e.g. when leaving a practice session */
+export function disposeCodeSandbox(): void {
+  (['javascript', 'python'] as WorkerKind[]).forEach(discardWorker);
+}
+
+function runInWorker(kind: WorkerKind, message: Record<string, unknown>, limits: RunLimits): Promise<CodeRunResult> {
+  return new Promise((resolve) => {
+    const worker = getWorker(kind);
+    let startedAt = performance.now();
+    let timer: ReturnType<typeof setTimeout>;
+
+    const finish = (result: Omit<CodeRunResult, 'durationMs'>, discard = false) => {
+      clearTimeout(timer);
+      worker.onmessage = null;
+      worker.onerror = null;
+      if (discard) {
+        discardWorker(kind);
+      }
+      resolve({ ...result, durationMs: Math.round(performance.now() - startedAt) });
+    };
+    const arm = (ms: number, onExpire: () => void) => {
+      clearTimeout(timer);
+      timer = setTimeout(onExpire, ms);
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+      if (event.data.type === 'started') {
+        startedAt = performance.now();
+        arm(limits.timeLimitMs, () => finish({ status: 'timeout', stdout: '' }, true));
+        return;
+      }
+      finish({ status: event.data.status ?? 'error', stdout: event.data.stdout ?? '', error: event.data.error });
+    };
+    // A worker that crashes outright has almost always run out of memory
+    worker.onerror = (event) => {
+      event.preventDefault();
+      const outOfMemory = !event.message || /memory/i.test(event.message);
+      finish({ status: outOfMemory ? 'memory_exceeded' : 'error', stdout: '', error: event.message || 'Program crashed' }, true);
+    };
+
+    arm(kind === 'python' ? PYTHON_LOAD_TIMEOUT_MS : limits.timeLimitMs, () =>
+      finish({ status: 'error', stdout: '', error: 'The code runner could not be started' }, true)
+    );
+    worker.postMessage({ ...message, maxOutput: MAX_OUTPUT_CHARS, memoryLimitMb: limits.memoryLimitMb });
+  });
+}
+
+/**
+ * Runs a program once with the given input lines.
+ */
+export async function runCode(
+  language: CodeLanguage,
+  code: string,
+  input: string[],
+  limits: Partial<RunLimits> = {}
+): Promise<CodeRunResult> {
+  const runLimits: RunLimits = {
+    timeLimitMs: limits.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS,
+    memoryLimitMb: limits.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB
+  };
+
+  if (language === 'pseudocode') {
+    let program: string;
+    try {
+      program = `${PSEUDOCODE_RUNTIME}\n${transpilePseudocode(code)}`;
+    } catch (error) {
+      const message = error instanceof PseudocodeError ? error.message : 'Could not read the pseudocode';
+      return { status: 'error', stdout: '', error: message, durationMs: 0 };
+    }
+    return runInWorker('javascript', { code: program, input, pseudocode: true }, runLimits);
+  }
+
+  return runInWorker(language === 'python' ? 'python' : 'javascript', { code, input }, runLimits);
+}
+
+/**
+ * Runs every test in order. Tests share a worker, so the first Python test
+ * also pays for loading the interpreter (outside its time limit).
+ */
+export async function runCodeTests(
+  scheme: Pick<CodeMarkingScheme, 'language' | 'timeLimitMs' | 'memoryLimitMb'>,
+  tests: CodeTestCase[],
+  code: string
+): Promise<CodeTestOutcome[]> {
+  const outcomes: CodeTestOutcome[] = [];
+  for (const test of tests) {
+    const run = await runCode(scheme.language, code, test.input, {
+      timeLimitMs: scheme.timeLimitMs,
+      memoryLimitMb: scheme.memoryLimitMb
+    });
+    outcomes.push({
+      test,
+      run,
+      passed: run.status === 'completed' && outputsMatch(run.stdout, test.expectedOutput, test.comparison)
+    });
+  }
+  return outcomes;
+}
+
+/**
+ * Marks a `code` answer: trace-table schemes compare the student's table
+ * with the expected one, program schemes run every test case.
+ */
+export async function markCodeAnswer(rawAnswer: unknown, scheme: CodeMarkingScheme): Promise<AutoMarkResult> {
+  const traceTable = scheme.traceTable;
+  if (traceTable) {
+    const expectedRows =
+      traceTable.rows ??
+      (traceTable.algorithm ? generateTraceTable(traceTable.algorithm, traceTable.input ?? [], traceTable.columns) : []);
+    return markTraceTable(parseTraceTableResponse(rawAnswer, traceTable.columns.length), traceTable, expectedRows);
+  }
+
+  const code = typeof rawAnswer === 'string' ? rawAnswer : '';
+  if (!code.trim()) {
+    return gradeTestOutcomes(
+      scheme.tests.map((test) => ({
+        test,
+        passed: false,
+        run: { status: 'error', stdout: '', error: 'no code submitted', durationMs: 0 }
+      }))
+    );
+  }
+  return gradeTestOutcomes(await runCodeTests(scheme, scheme.tests, code));
+}
@@ -0,0 +1,270 @@
+/**
+ * Test-case marking for `code` answers.
+ *
+ * The mark scheme is JSON in the question's correct answer. Programs are run
+ * once per test with the test's input lines on stdin, and the printed output
+ * is compared with the expected output. Trace-table questions carry the
+ * expected table (or the algorithm to generate it) instead of tests.
+ */
+
+import { AutoMarkPointAward, AutoMarkPointDenied, AutoMarkResult } from '@/types/practice';
+
+export type CodeLanguage = 'python' | 'javascript' | 'pseudocode';
+export type OutputComparison = 'exact' | 'trimmed' | 'case_insensitive' | 'numeric';
+
+export interface CodeTestCase {
+  name: string;
+  /** Lines returned by input() / INPUT in order */
+  input: string[];
+  expectedOutput: string;
+  marks?: number;
+  /** Hidden tests are marked but never shown to students */
+  hidden?: boolean;
+  comparison?: OutputComparison;
+}
+
+export interface TraceTableScheme {
+  columns: string[];
+  /** Expected rows; generated from `algorithm` when omitted */
+  rows?: string[][];
+  /** 0478-style pseudocode whose run produces the expected table */
+  algorithm?: string;
+  input?: string[];
+  /** Marks per fully correct column; defaults to 1 */
+  marksPerColumn?: number;
+}
+
+export interface CodeMarkingScheme {
+  language: CodeLanguage;
+  tests: CodeTestCase[];
+  timeLimitMs?: number;
+  memoryLimitMb?: number;
+  traceTable?: TraceTableScheme;
+}
+
+export type CodeRunStatus = 'completed' | 'error' | 'timeout' | 'memory_exceeded';
+
+export interface CodeRunResult {
+  status: CodeRunStatus;
+  stdout: string;
+  error?: string;
+  durationMs: number;
+}
+
+export interface CodeTestOutcome {
+  test: CodeTestCase;
+  passed: boolean;
+  run: CodeRunResult;
+}
+
+export const DEFAULT_TIME_LIMIT_MS = 3000;
+export const DEFAULT_MEMORY_LIMIT_MB = 64;
+export const MAX_OUTPUT_CHARS = 20000;
+
+const LANGUAGES: CodeLanguage[] = ['python', 'javascript', 'pseudocode'];
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function asLines(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((line) => String(line));
+  }
+  return typeof value === 'string' && value !== '' ? value.split('\n') : [];
+}
+
+export function parseCodeMarkingScheme(text: string | null | undefined): CodeMarkingScheme | null {
+  const data = parseJson(text) as Partial<CodeMarkingScheme> | null;
+  if (!data || typeof data !== 'object' || (!Array.isArray(data.tests) && !data.traceTable)) {
+    return null;
+  }
+
+  const tests = (Array.isArray(data.tests) ? data.tests : []).flatMap((entry, index): CodeTestCase[] => {
+    const test = entry as Partial<CodeTestCase> | null;
+    if (!test || typeof test.expectedOutput !== 'string') {
+      return [];
+    }
+    return [
+      {
+        name: test.name || `Test ${index + 1}`,
+        input: asLines(test.input),
+        expectedOutput: test.expectedOutput,
+        marks: test.marks ?? 1,
+        hidden: !!test.hidden,
+        comparison: test.comparison ?? 'trimmed'
+      }
+    ];
+  });
+
+  const traceTable = data.traceTable && Array.isArray(data.traceTable.columns) ? data.traceTable : undefined;
+  if (!tests.length && !traceTable) {
+    return null;
+  }
+
+  return {
+    language: LANGUAGES.includes(data.language as CodeLanguage) ? (data.language as CodeLanguage) : 'python',
+    tests,
+    timeLimitMs: data.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS,
+    memoryLimitMb: data.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB,
+    traceTable: traceTable ? { ...traceTable, input: asLines(traceTable.input) } : undefined
+  };
+}
+
+function outputLines(output: string): string[] {
+  const lines = output.replace(/\r\n/g, '\n').split('\n').map((line) => line.replace(/\s+$/, ''));
+  while (lines.length && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+export function outputsMatch(actual: string, expected: string, comparison: OutputComparison = 'trimmed'): boolean {
+  if (comparison === 'exact') {
+    return actual === expected;
+  }
+  const actualLines = outputLines(actual);
+  const expectedLines = outputLines(expected);
+  if (actualLines.length !== expectedLines.length) {
+    return false;
+  }
+  return expectedLines.every((line, index) => {
+    const other = actualLines[index];
+    if (comparison === 'case_insensitive') {
+      return line.trim().toLowerCase() === other.trim().toLowerCase();
+    }
+    if (comparison === 'numeric') {
+      const a = Number(line.trim());
+      const b = Number(other.trim());
+      if (Number.isFinite(a) && Number.isFinite(b)) {
+        return Math.abs(a - b) <= 1e-6 * Math.max(1, Math.abs(a));
+      }
+    }
+    return line.trim() === other.trim();
+  });
+}
+
+function describeRun(run: CodeRunResult): string {
+  switch (run.status) {
+    case 'timeout':
+      return `stopped after ${run.durationMs} ms (time limit)`;
+    case 'memory_exceeded':
+      return 'stopped for using too much memory';
+    case 'error':
+      return `error: ${run.error ?? 'program crashed'}`;
+    default:
+      return 'output did not match';
+  }
+}
+
+export function gradeTestOutcomes(outcomes: CodeTestOutcome[]): AutoMarkResult {
+  const awarded: AutoMarkPointAward[] = [];
+  const denied: AutoMarkPointDenied[] = [];
+  let totalAwarded = 0;
+  let totalAvailable = 0;
+
+  outcomes.forEach(({ test, passed, run }, index) => {
+    const pointId = `test_${index + 1}`;
+    const marks = test.marks ?? 1;
+    totalAvailable += marks;
+    if (passed) {
+      totalAwarded += marks;
+      awarded.push({ pointId, marks, notes: test.name });
+      return;
+    }
+    denied.push({
+      pointId,
+      reason: `${test.name}: ${describeRun(run)}`,
+      // Hidden tests never reveal their data
+      expected: test.hidden ? undefined : test.expectedOutput
+    });
+  });
+
+  return {
+    awarded,
+    denied,
+    ecf: false,
+    notes: outcomes.filter((outcome) => outcome.passed).map((outcome) => `${outcome.test.name} passed`),
+    totalAwarded,
+    totalAvailable
+  };
+}
+
+/**
+ * Reads a trace table answer: rows of cells, or the TableCompletion
+ * `studentAnswers` map keyed "row-col".
+ */
+export function parseTraceTableResponse(raw: unknown, columnCount: number): string[][] {
+  const data = parseJson(raw);
+  if (Array.isArray(data)) {
+    return data.map((row) => (Array.isArray(row) ? row.map((cell) => String(cell ?? '')) : []));
+  }
+  const answers = (data as { studentAnswers?: Record<string, unknown> } | null)?.studentAnswers;
+  if (!answers || typeof answers !== 'object') {
+    return [];
+  }
+  const rows: string[][] = [];
+  Object.entries(answers).forEach(([key, value]) => {
+    const [row, col] = key.split('-').map(Number);
+    if (Number.isInteger(row) && Number.isInteger(col) && col < columnCount) {
+      rows[row] = rows[row] ?? Array.from({ length: columnCount }, () => '');
+      rows[row][col] = String(value ?? '');
+    }
+  });
+  return rows.map((row) => row ?? Array.from({ length: columnCount }, () => ''));
+}
+
+function normaliseCell(value: string | undefined): string {
+  const text = (value ?? '').trim().replace(/^"(.*)"$/, '$1').toLowerCase();
+  const number = Number(text);
+  return text !== '' && Number.isFinite(number) ? String(number) : text;
+}
+
+/**
+ * Marks a trace table column by column, as 0478 schemes do: a column earns
+ * its mark only when every row's value in it is correct. Blank trailing
+ * student rows are ignored.
+ */
+export function markTraceTable(studentRows: string[][], scheme: TraceTableScheme, expectedRows: string[][]): AutoMarkResult {
+  const marksPerColumn = scheme.marksPerColumn ?? 1;
+  const rows = [...studentRows];
+  while (rows.length && rows[rows.length - 1].every((cell) => !cell?.trim())) {
+    rows.pop();
+  }
+
+  const awarded: AutoMarkPointAward[] = [];
+  const denied: AutoMarkPointDenied[] = [];
+  scheme.columns.forEach((column, col) => {
+    const pointId = `trace_${column}`;
+    const expected = expectedRows.map((row) => normaliseCell(row[col]));
+    const actual = Array.from({ length: Math.max(rows.length, expectedRows.length) }, (_, row) =>
+      normaliseCell(rows[row]?.[col])
+    );
+    const firstWrong = actual.findIndex((value, row) => value !== (expected[row] ?? ''));
+    if (firstWrong === -1) {
+      awarded.push({ pointId, marks: marksPerColumn });
+    } else {
+      denied.push({
+        pointId,
+        reason: `${column}: row ${firstWrong + 1} should be "${expectedRows[firstWrong]?.[col] ?? ''}"`,
+        expected: expectedRows.map((row) => row[col] ?? '').join(', ')
+      });
+    }
+  });
+
+  return {
+    awarded,
+    denied,
+    ecf: false,
+    notes: [],
+    totalAwarded: awarded.length * marksPerColumn,
+    totalAvailable: scheme.columns.length * marksPerColumn
+  };
+}
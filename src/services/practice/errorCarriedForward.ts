@@ -0,0 +1,213 @@
+/**
+ * Error-carried-forward (ECF) support for the auto-marking engine.
+ *
+ * When a later part depends on an earlier one, the expected answer for the
+ * later part is recomputed from the value the student actually gave earlier.
+ * Mark schemes state the relationship explicitly, e.g. "24 (ecf: 2 × B1)";
+ * without a formula no follow-through credit is given, since the scheme has
+ * not said how the later value depends on the earlier one.
+ */
+
+export interface EcfDependencyValue {
+  label: string;
+  studentValue: number;
+  correctValue: number | null;
+}
+
+export interface EcfResolution {
+  expectedValue: number;
+  method: 'formula';
+}
+
+const ECF_FORMULA_START = /\becf\s*[:=]\s*/i;
+
+interface EcfAnnotation {
+  formula: string;
+  /** Span of the annotation, including an enclosing bracket when there is one */
+  start: number;
+  end: number;
+}
+
+/**
+ * Find "ecf: <formula>" in a mark-scheme answer. The formula runs to the end
+ * of the line, a ";" or the bracket that closes the annotation, so bracketed
+ * formulas such as "(ecf: 2*(a+b))" are kept whole.
+ */
+function findEcfAnnotation(answer: string): EcfAnnotation | null {
+  const match = ECF_FORMULA_START.exec(answer);
+  if (!match) {
+    return null;
+  }
+
+  const formulaStart = match.index + match[0].length;
+  let depth = 0;
+  let end = formulaStart;
+  while (end < answer.length) {
+    const char = answer[end];
+    if (char === '\n' || char === ';') break;
+    if (char === '(') depth += 1;
+    if (char === ')') {
+      if (depth === 0) break;
+      depth -= 1;
+    }
+    end += 1;
+  }
+
+  const formula = answer.slice(formulaStart, end).trim();
+  if (!formula || depth !== 0) {
+    return null;
+  }
+
+  const opening = answer.lastIndexOf('(', match.index);
+  const enclosed = answer[end] === ')' && opening !== -1 && !answer.slice(opening + 1, match.index).trim();
+  return enclosed
+    ? { formula, start: opening, end: end + 1 }
+    : { formula, start: match.index, end };
+}
+
+export function extractEcfFormula(answers: string[]): string | null {
+  for (const answer of answers) {
+    const annotation = findEcfAnnotation(answer);
+    if (annotation) {
+      return annotation.formula;
+    }
+  }
+  return null;
+}
+
+/** The answer with its "(ecf: ...)" annotation removed */
+export function stripEcfAnnotation(answer: string): string {
+  const annotation = findEcfAnnotation(answer);
+  return annotation ? `${answer.slice(0, annotation.start)}${answer.slice(annotation.end)}`.trim() : answer;
+}
+
+export function parseNumericValue(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const match = value.replace(/,(?=\d{3}\b)/g, '').replace(/−/g, '-').match(/-?\d*\.?\d+(?:e[+-]?\d+)?/i);
+  if (!match) {
+    return null;
+  }
+  const parsed = parseFloat(match[0]);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function resolveEcfExpectedValue(
+  dependencies: EcfDependencyValue[],
+  formula?: string | null
+): EcfResolution | null {
+  if (!formula) {
+    return null;
+  }
+
+  const variables = dependencies.reduce<Record<string, number>>((acc, dependency) => {
+    acc[dependency.label.toUpperCase()] = dependency.studentValue;
+    return acc;
+  }, {});
+  const expectedValue = evaluateArithmetic(formula, variables);
+  return expectedValue === null ? null : { expectedValue, method: 'formula' };
+}
+
+/**
+ * Minimal recursive-descent evaluator for mark-scheme arithmetic:
+ * numbers, + - * / ^, × and ÷, parentheses and upper-case point labels.
+ */
+export function evaluateArithmetic(expression: string, variables: Record<string, number>): number | null {
+  const tokens = tokenize(expression);
+  if (!tokens) {
+    return null;
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  const parsePrimary = (): number | null => {
+    const token = next();
+    if (token === undefined) {
+      return null;
+    }
+    if (token === '(') {
+      const value = parseExpression();
+      return next() === ')' ? value : null;
+    }
+    if (token === '-') {
+      const value = parsePrimary();
+      return value === null ? null : -value;
+    }
+    if (/^\d*\.?\d+$/.test(token)) {
+      return parseFloat(token);
+    }
+    const variable = variables[token.toUpperCase()];
+    return variable === undefined ? null : variable;
+  };
+
+  const parsePower = (): number | null => {
+    const base = parsePrimary();
+    if (base === null) {
+      return null;
+    }
+    if (peek() === '^') {
+      next();
+      const exponent = parsePower();
+      return exponent === null ? null : Math.pow(base, exponent);
+    }
+    return base;
+  };
+
+  const parseTerm = (): number | null => {
+    let value = parsePower();
+    while (value !== null && (peek() === '*' || peek() === '/')) {
+      const operator = next();
+      const right = parsePower();
+      if (right === null) {
+        return null;
+      }
+      value = operator === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+
+  const parseExpression = (): number | null => {
+    let value = parseTerm();
+    while (value !== null && (peek() === '+' || peek() === '-')) {
+      const operator = next();
+      const right = parseTerm();
+      if (right === null) {
+        return null;
+      }
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const result = parseExpression();
+  if (result === null || position !== tokens.length || !Number.isFinite(result)) {
+    return null;
+  }
+  return result;
+}
+
+function tokenize(expression: string): string[] | null {
+  const source = expression.replace(/×/g, '*').replace(/÷/g, '/').replace(/−/g, '-');
+  const tokens: string[] = [];
+  const pattern = /\s*(\d*\.?\d+|[A-Za-z]+\d*|[+\-*/^()])/y;
+  let index = 0;
+
+  while (index < source.length) {
+    if (/\s/.test(source[index])) {
+      index += 1;
+      continue;
+    }
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match) {
+      return null;
+    }
+    tokens.push(match[1]);
+    index = pattern.lastIndex;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,194 @@
+import {
+  ExamBoard,
+  ExamSeries,
+  GradeBoundaryTable,
+  GradePrediction,
+  GradeThreshold,
+  GradingScheme
+} from '@/types/practice';
+
+/** Grades from highest to lowest; anything below the last boundary is a U */
+export const GRADING_SCHEME_GRADES: Record<GradingScheme, string[]> = {
+  a_star_g: ['A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G'],
+  a_star_e: ['A*', 'A', 'B', 'C', 'D', 'E'],
+  nine_to_one: ['9', '8', '7', '6', '5', '4', '3', '2', '1']
+};
+
+export const UNGRADED = 'U';
+
+export const EXAM_BOARD_LABELS: Record<ExamBoard, string> = {
+  cambridge: 'Cambridge',
+  edexcel: 'Pearson Edexcel',
+  aqa: 'AQA',
+  ocr: 'OCR',
+  other: 'Other'
+};
+
+export const GRADING_SCHEME_LABELS: Record<GradingScheme, string> = {
+  a_star_g: 'A* – G (IGCSE / O Level)',
+  a_star_e: 'A* – E (A Level)',
+  nine_to_one: '9 – 1'
+};
+
+export const EXAM_SERIES_LABELS: Record<ExamSeries, string> = {
+  january: 'January',
+  feb_march: 'February/March',
+  may_june: 'May/June',
+  june: 'June',
+  oct_nov: 'October/November',
+  november: 'November'
+};
+
+// Position of each series within a calendar year, for picking the latest table
+const SERIES_ORDER: Record<ExamSeries, number> = {
+  january: 0,
+  feb_march: 1,
+  may_june: 2,
+  june: 2,
+  oct_nov: 3,
+  november: 3
+};
+
+// Used when no boundary table matches; the historical fixed percentage bands
+const FALLBACK_THRESHOLDS: GradeThreshold[] = [
+  { grade: 'A*', min_mark: 90 },
+  { grade: 'A', min_mark: 80 },
+  { grade: 'B', min_mark: 70 },
+  { grade: 'C', min_mark: 60 },
+  { grade: 'D', min_mark: 50 },
+  { grade: 'E', min_mark: 40 },
+  { grade: 'F', min_mark: 30 },
+  { grade: 'G', min_mark: 0 }
+];
+
+/**
+ * Splits a paper code such as 0620/42 or 4CH1/1C into the syllabus and
+ * component parts used to look up boundary tables.
+ */
+export function parsePaperCode(paperCode: string | null | undefined): {
+  syllabusCode: string | null;
+  componentCode: string | null;
+} {
+  const code = paperCode?.trim().toUpperCase();
+  if (!code) {
+    return { syllabusCode: null, componentCode: null };
+  }
+  const [syllabus, component] = code.split('/').map((part) => part.trim());
+  return { syllabusCode: syllabus || null, componentCode: component || null };
+}
+
+export function describeBoundaryTable(
+  table: Pick<GradeBoundaryTable, 'syllabus_code' | 'component_code' | 'exam_series' | 'exam_year'>
+): string {
+  const code = table.component_code ? `${table.syllabus_code}/${table.component_code}` : table.syllabus_code;
+  return `${code} · ${EXAM_SERIES_LABELS[table.exam_series] ?? table.exam_series} ${table.exam_year}`;
+}
+
+/**
+ * Picks the boundary table for a paper: an exact component match beats a
+ * syllabus-wide table, and within each the most recent series wins.
+ */
+export function selectBoundaryTable(
+  tables: GradeBoundaryTable[],
+  paperCode: string | null | undefined
+): GradeBoundaryTable | null {
+  const { syllabusCode, componentCode } = parsePaperCode(paperCode);
+  if (!syllabusCode) {
+    return null;
+  }
+
+  const candidates = tables.filter((table) => {
+    if (!table.is_active || table.syllabus_code.toUpperCase() !== syllabusCode) {
+      return false;
+    }
+    return !table.component_code || table.component_code.toUpperCase() === componentCode;
+  });
+
+  candidates.sort((a, b) => {
+    const specificity = Number(!!b.component_code) - Number(!!a.component_code);
+    if (specificity !== 0) {
+      return specificity;
+    }
+    if (a.exam_year !== b.exam_year) {
+      return b.exam_year - a.exam_year;
+    }
+    return (SERIES_ORDER[b.exam_series] ?? 0) - (SERIES_ORDER[a.exam_series] ?? 0);
+  });
+
+  return candidates[0] ?? null;
+}
+
+/**
+ * Predicts a grade for marks earned out of marks available. The score is
+ * scaled onto the table's raw mark range, so a short practice set is judged
+ * against the same proportions as the full paper. Marks to the next grade are
+ * expressed in this attempt's marks.
+ */
+export function predictGrade(
+  table: GradeBoundaryTable | null,
+  marksEarned: number,
+  marksAvailable: number
+): GradePrediction {
+  const maxMark = table ? table.max_mark : 100;
+  const thresholds = [...(table ? table.thresholds : FALLBACK_THRESHOLDS)].sort((a, b) => b.min_mark - a.min_mark);
+  const scaled = marksAvailable > 0 ? (marksEarned / marksAvailable) * maxMark : 0;
+
+  const achievedIndex = thresholds.findIndex((threshold) => scaled >= threshold.min_mark);
+  const next =
+    achievedIndex === 0 ? null : thresholds[achievedIndex === -1 ? thresholds.length - 1 : achievedIndex - 1] ?? null;
+
+  let marksToNextGrade: number | null = null;
+  if (next && marksAvailable > 0) {
+    // Small tolerance so float noise never asks for an extra mark
+    const required = (next.min_mark / maxMark) * marksAvailable - marksEarned;
+    marksToNextGrade = Math.max(1, Math.ceil(required - 1e-9));
+  }
+
+  return {
+    grade: achievedIndex === -1 ? UNGRADED : thresholds[achievedIndex].grade,
+    nextGrade: next?.grade ?? null,
+    marksToNextGrade,
+    tableId: table?.id ?? null,
+    tableLabel: table ? describeBoundaryTable(table) : null
+  };
+}
+
+export function validateBoundaryTable(
+  table: Pick<GradeBoundaryTable, 'grading_scheme' | 'syllabus_code' | 'exam_year' | 'max_mark' | 'thresholds'>
+): string[] {
+  const problems: string[] = [];
+  const grades = GRADING_SCHEME_GRADES[table.grading_scheme];
+
+  if (!table.syllabus_code.trim()) {
+    problems.push('Syllabus code is required');
+  }
+  if (!Number.isInteger(table.exam_year) || table.exam_year < 2000) {
+    problems.push('Exam year must be a valid year');
+  }
+  if (!(table.max_mark > 0)) {
+    problems.push('Maximum mark must be greater than zero');
+  }
+  if (!table.thresholds.length) {
+    problems.push('Add at least one grade threshold');
+  }
+
+  let previous: GradeThreshold | null = null;
+  let previousRank = -1;
+  table.thresholds.forEach((threshold) => {
+    const rank = grades?.indexOf(threshold.grade) ?? -1;
+    if (rank === -1) {
+      problems.push(`Grade ${threshold.grade} is not part of this grading scheme`);
+      return;
+    }
+    if (threshold.min_mark < 0 || threshold.min_mark > table.max_mark) {
+      problems.push(`Grade ${threshold.grade} threshold must be between 0 and ${table.max_mark}`);
+    }
+    if (previous && (rank <= previousRank || threshold.min_mark >= previous.min_mark)) {
+      problems.push(`Grade ${threshold.grade} must follow ${previous.grade} with a lower threshold`);
+    }
+    previous = threshold;
+    previousRank = rank;
+  });
+
+  return problems;
+}
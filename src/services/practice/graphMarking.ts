@@ -0,0 +1,319 @@
+/**
+ * Marking for `graph` answers drawn with the GraphPlotter.
+ *
+ * The mark scheme is stored as JSON in the question's correct answer: either
+ * a full `GraphMarkingScheme` or a model graph (`dataPoints`, `xAxis`,
+ * `yAxis`), from which the plotted points and axis labels are derived.
+ * Each criterion (plotted points, axis labels, scales) is a separate marking
+ * point so students see which part lost the mark. The plotter saves points
+ * only, not a drawn line, so lines of best fit are left to the teacher.
+ */
+
+import { AutoMarkPointAward, AutoMarkPointDenied, AutoMarkResult } from '@/types/practice';
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+  label?: string;
+}
+
+export interface GraphAxis {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+/** Shape of the GraphPlotter's saved answer */
+export interface GraphResponse {
+  dataPoints: GraphPoint[];
+  xAxis: GraphAxis;
+  yAxis: GraphAxis;
+  graphType: 'scatter' | 'line' | 'curve';
+  title?: string;
+}
+
+export interface GraphMarkingScheme {
+  expectedPoints: GraphPoint[];
+  /** Allowed distance from each expected point; defaults to half a grid square of the student's axes */
+  tolerance?: { x: number; y: number };
+  /** Marks for plotting, one deducted per point missed or misplotted (Cambridge "2 marks, -1 each error") */
+  pointMarks?: number;
+  /** Terms each axis label must contain; alternatives separated by "|", e.g. ["time|t", "s"] */
+  axisLabels?: { x: string[]; y: string[]; marks?: number };
+  /** Points must cover at least this fraction of each axis, using 1-2-5 step sizes */
+  scale?: { minCoverage?: number; marks?: number };
+}
+
+interface CriterionResult {
+  pointId: string;
+  marks: number;
+  available: number;
+  notes: string[];
+  reason?: string;
+  expected?: string;
+}
+
+const DEFAULT_MIN_COVERAGE = 0.5;
+const SENSIBLE_STEP_MANTISSAS = [1, 2, 5];
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function parsePoints(value: unknown): GraphPoint[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((entry) => {
+    const x = toNumber((entry as GraphPoint | null)?.x);
+    const y = toNumber((entry as GraphPoint | null)?.y);
+    return x === null || y === null ? [] : [{ x, y, label: (entry as GraphPoint).label }];
+  });
+}
+
+function parseAxis(value: unknown): GraphAxis | null {
+  const axis = value as Partial<GraphAxis> | null;
+  const min = toNumber(axis?.min);
+  const max = toNumber(axis?.max);
+  const step = toNumber(axis?.step);
+  if (min === null || max === null || step === null || max <= min || step <= 0) {
+    return null;
+  }
+  return { label: typeof axis?.label === 'string' ? axis.label : '', min, max, step };
+}
+
+/**
+ * Reads a GraphPlotter answer from the submission payload, which may be the
+ * object itself or its JSON string.
+ */
+export function parseGraphResponse(raw: unknown): GraphResponse | null {
+  const data = parseJson(raw) as Partial<GraphResponse> | null;
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  const xAxis = parseAxis(data.xAxis);
+  const yAxis = parseAxis(data.yAxis);
+  if (!xAxis || !yAxis) {
+    return null;
+  }
+  return {
+    dataPoints: parsePoints(data.dataPoints),
+    xAxis,
+    yAxis,
+    graphType: data.graphType === 'line' || data.graphType === 'curve' ? data.graphType : 'scatter',
+    title: data.title
+  };
+}
+
+function labelTerms(label: string): string[] {
+  // "time / s" or "time (s)" -> ["time", "s"]
+  return label
+    .split(/[/()]/)
+    .map((term) => term.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Builds a marking scheme from a correct-answer text: a scheme object, or a
+ * model graph whose points and axis labels become the expected answer.
+ */
+export function parseGraphMarkingScheme(text: string | null | undefined): GraphMarkingScheme | null {
+  const data = parseJson(text) as Record<string, unknown> | null;
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+
+  if (Array.isArray(data.expectedPoints)) {
+    const expectedPoints = parsePoints(data.expectedPoints);
+    return expectedPoints.length ? { ...(data as unknown as GraphMarkingScheme), expectedPoints } : null;
+  }
+
+  const model = parseGraphResponse(data);
+  if (!model || !model.dataPoints.length) {
+    return null;
+  }
+  const xTerms = labelTerms(model.xAxis.label);
+  const yTerms = labelTerms(model.yAxis.label);
+  return {
+    expectedPoints: model.dataPoints,
+    axisLabels: xTerms.length && yTerms.length ? { x: xTerms, y: yTerms } : undefined,
+    scale: {}
+  };
+}
+
+function pointMarksFor(scheme: GraphMarkingScheme): number {
+  return scheme.pointMarks ?? (scheme.expectedPoints.length > 3 ? 2 : 1);
+}
+
+function markPoints(scheme: GraphMarkingScheme, response: GraphResponse): CriterionResult {
+  const available = pointMarksFor(scheme);
+  const tolerance = scheme.tolerance ?? { x: response.xAxis.step / 2, y: response.yAxis.step / 2 };
+  const unused = [...response.dataPoints];
+  const missed: GraphPoint[] = [];
+
+  scheme.expectedPoints.forEach((expected) => {
+    const index = unused.findIndex(
+      (plotted) =>
+        Math.abs(plotted.x - expected.x) <= tolerance.x + 1e-9 && Math.abs(plotted.y - expected.y) <= tolerance.y + 1e-9
+    );
+    if (index === -1) {
+      missed.push(expected);
+    } else {
+      unused.splice(index, 1);
+    }
+  });
+
+  // A misplotted point is both missed and extra but counts as one error;
+  // any remaining missed or extra points are an error each
+  const errors = Math.max(missed.length, unused.length);
+  const marks = Math.max(0, available - errors);
+  const describe = (points: GraphPoint[]) => points.map((point) => `(${point.x}, ${point.y})`).join(', ');
+  const problems = [
+    missed.length ? `points not plotted within tolerance: ${describe(missed)}` : null,
+    unused.length ? `points plotted that are not in the data: ${describe(unused)}` : null
+  ].filter((problem): problem is string => !!problem);
+  return {
+    pointId: 'graph_points',
+    marks,
+    available,
+    notes: marks > 0 && errors ? [`${errors} plotting error${errors === 1 ? '' : 's'}`] : [],
+    reason: problems.length ? problems.join('; ') : undefined,
+    expected: `points within ±${tolerance.x} on x and ±${tolerance.y} on y`
+  };
+}
+
+function markAxisLabels(axisLabels: NonNullable<GraphMarkingScheme['axisLabels']>, response: GraphResponse): CriterionResult {
+  const available = axisLabels.marks ?? 1;
+  // Match whole words so a unit such as "s" is not found inside "distance"
+  const missing = (label: string, terms: string[]) => {
+    const normalised = ` ${label.toLowerCase().replace(/[^a-z0-9%°µ]+/g, ' ')} `;
+    return terms.filter(
+      (term) =>
+        !term.split('|').some((option) => {
+          const words = option.toLowerCase().replace(/[^a-z0-9%°µ]+/g, ' ').trim();
+          return words !== '' && normalised.includes(` ${words} `);
+        })
+    );
+  };
+  const problems = [
+    ...missing(response.xAxis.label, axisLabels.x).map((term) => `x-axis label missing "${term}"`),
+    ...missing(response.yAxis.label, axisLabels.y).map((term) => `y-axis label missing "${term}"`)
+  ];
+
+  return {
+    pointId: 'graph_axes',
+    marks: problems.length ? 0 : available,
+    available,
+    notes: [],
+    reason: problems.length ? problems.join('; ') : undefined,
+    expected: `x: ${axisLabels.x.join(' / ')}; y: ${axisLabels.y.join(' / ')}`
+  };
+}
+
+function isSensibleStep(step: number): boolean {
+  const exponent = Math.floor(Math.log10(step));
+  const mantissa = step / 10 ** exponent;
+  return SENSIBLE_STEP_MANTISSAS.some((candidate) => Math.abs(mantissa - candidate) < 1e-6);
+}
+
+function markScale(scale: NonNullable<GraphMarkingScheme['scale']>, response: GraphResponse): CriterionResult {
+  const available = scale.marks ?? 1;
+  const minCoverage = scale.minCoverage ?? DEFAULT_MIN_COVERAGE;
+  const problems: string[] = [];
+
+  (['x', 'y'] as const).forEach((dimension) => {
+    const axis = dimension === 'x' ? response.xAxis : response.yAxis;
+    const values = response.dataPoints.map((point) => point[dimension]);
+    if (!isSensibleStep(axis.step)) {
+      problems.push(`${dimension}-axis scale of ${axis.step} per square is awkward to read`);
+    }
+    if (values.length < 2) {
+      return;
+    }
+    if (values.some((value) => value < axis.min || value > axis.max)) {
+      problems.push(`${dimension}-axis does not include every point`);
+      return;
+    }
+    const coverage = (Math.max(...values) - Math.min(...values)) / (axis.max - axis.min);
+    if (coverage < minCoverage) {
+      problems.push(`points use less than ${Math.round(minCoverage * 100)}% of the ${dimension}-axis`);
+    }
+  });
+
+  return {
+    pointId: 'graph_scale',
+    marks: problems.length ? 0 : available,
+    available,
+    notes: [],
+    reason: problems.length ? problems.join('; ') : undefined,
+    expected: `linear 1, 2 or 5 scales using at least ${Math.round(minCoverage * 100)}% of each axis`
+  };
+}
+
+/**
+ * Marks a graph answer against a scheme, one marking point per criterion.
+ */
+export function markGraphAnswer(raw: unknown, scheme: GraphMarkingScheme): AutoMarkResult {
+  const response = parseGraphResponse(raw);
+  const criteria: CriterionResult[] = [];
+
+  if (!response) {
+    const totalAvailable =
+      pointMarksFor(scheme) +
+      (scheme.axisLabels ? scheme.axisLabels.marks ?? 1 : 0) +
+      (scheme.scale ? scheme.scale.marks ?? 1 : 0);
+    return {
+      awarded: [],
+      denied: [{ pointId: 'graph_points', reason: 'no graph submitted' }],
+      ecf: false,
+      notes: [],
+      totalAwarded: 0,
+      totalAvailable
+    };
+  }
+
+  criteria.push(markPoints(scheme, response));
+  if (scheme.axisLabels) {
+    criteria.push(markAxisLabels(scheme.axisLabels, response));
+  }
+  if (scheme.scale) {
+    criteria.push(markScale(scheme.scale, response));
+  }
+
+  const awarded: AutoMarkPointAward[] = [];
+  const denied: AutoMarkPointDenied[] = [];
+  criteria.forEach((criterion) => {
+    if (criterion.marks > 0) {
+      awarded.push({
+        pointId: criterion.pointId,
+        marks: criterion.marks,
+        notes: criterion.notes.length ? criterion.notes.join('; ') : undefined
+      });
+    }
+    if (criterion.marks < criterion.available) {
+      denied.push({ pointId: criterion.pointId, reason: criterion.reason ?? 'criterion not met', expected: criterion.expected });
+    }
+  });
+
+  return {
+    awarded,
+    denied,
+    ecf: false,
+    notes: criteria.flatMap((criterion) => criterion.notes),
+    totalAwarded: criteria.reduce((sum, criterion) => sum + criterion.marks, 0),
+    totalAvailable: criteria.reduce((sum, criterion) => sum + criterion.available, 0)
+  };
+}
@@ -0,0 +1,82 @@
+import dayjs from 'dayjs';
+import { PracticeSessionEvent } from '@/types/practice';
+
+export type ItemTimingEventType = 'item_viewed' | 'item_hidden' | 'item_visible' | 'answer_submitted';
+
+export const ITEM_TIMING_EVENTS: ItemTimingEventType[] = ['item_viewed', 'item_hidden', 'item_visible', 'answer_submitted'];
+
+// A single visible stretch longer than this is treated as the student walking
+// away with the tab still open rather than working on the question.
+const MAX_SEGMENT_SECONDS = 20 * 60;
+
+type TimingEvent = Pick<PracticeSessionEvent, 'item_id' | 'event_type' | 'created_at'>;
+
+/**
+ * Replays a session's timing events and returns the active seconds spent on
+ * each item. Time only accrues while an item is on screen and the tab is
+ * visible: viewing another item, hiding the tab or submitting closes the
+ * current segment. `until` closes a segment that is still open (e.g. the
+ * submission being processed right now).
+ */
+export function accumulateActiveTime(events: TimingEvent[], until?: string): Map<string, number> {
+  const totals = new Map<string, number>();
+  const ordered = events
+    .filter((event) => ITEM_TIMING_EVENTS.includes(event.event_type as ItemTimingEventType))
+    .slice()
+    .sort((a, b) => dayjs(a.created_at).valueOf() - dayjs(b.created_at).valueOf());
+
+  let focusedItem: string | null = null;
+  let segmentStart: dayjs.Dayjs | null = null;
+
+  const closeSegment = (at: string) => {
+    if (focusedItem && segmentStart) {
+      const seconds = Math.min(Math.max(0, dayjs(at).diff(segmentStart, 'millisecond') / 1000), MAX_SEGMENT_SECONDS);
+      totals.set(focusedItem, (totals.get(focusedItem) ?? 0) + seconds);
+    }
+    segmentStart = null;
+  };
+
+  ordered.forEach((event) => {
+    switch (event.event_type as ItemTimingEventType) {
+      case 'item_viewed':
+        closeSegment(event.created_at);
+        focusedItem = event.item_id;
+        segmentStart = dayjs(event.created_at);
+        break;
+      case 'item_hidden':
+        closeSegment(event.created_at);
+        break;
+      case 'item_visible':
+        if (focusedItem && !segmentStart) {
+          segmentStart = dayjs(event.created_at);
+        }
+        break;
+      case 'answer_submitted':
+        if (event.item_id === focusedItem) {
+          closeSegment(event.created_at);
+          focusedItem = null;
+        }
+        break;
+    }
+  });
+
+  if (until) {
+    closeSegment(until);
+  }
+
+  totals.forEach((seconds, itemId) => totals.set(itemId, Math.round(seconds)));
+  return totals;
+}
+
+export function hasViewEvents(events: TimingEvent[], itemId: string): boolean {
+  return events.some((event) => event.event_type === 'item_viewed' && event.item_id === itemId);
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -0,0 +1,278 @@
+/**
+ * Marking for `structural_diagram` answers: labels typed onto a diagram.
+ *
+ * Each required label is a marking point. A label earns its marks when the
+ * text matches the target or one of its synonyms / acceptable variations and,
+ * when the target has a region, it is placed inside that region. Positions
+ * are percentages of the diagram, as the StructuralDiagram stores them.
+ */
+
+import { AutoMarkPointAward, AutoMarkPointDenied, AutoMarkResult } from '@/types/practice';
+
+export interface DiagramRegion {
+  x: number;
+  y: number;
+  /** Radius in percent of the diagram; defaults to DEFAULT_REGION_RADIUS */
+  radius?: number;
+}
+
+export interface DiagramLabelTarget {
+  text: string;
+  marks?: number;
+  acceptableAlternatives?: string[];
+  region?: DiagramRegion | null;
+}
+
+export interface LabelledDiagramScheme {
+  labels: DiagramLabelTarget[];
+}
+
+/** Shape of a StructuralDiagram label in the student's answer */
+export interface PlacedLabel {
+  id?: string;
+  text: string;
+  x: number;
+  y: number;
+}
+
+/** Correct-answer row fields used when the scheme is written as plain rows */
+export interface LabelAnswerRow {
+  text: string;
+  marks: number | null;
+  acceptableVariations?: string[] | null;
+}
+
+export const DEFAULT_REGION_RADIUS = 10;
+// Single-letter slips are tolerated on longer terms ("mitochondira") unless they hit another target
+const SPELLING_TOLERANCE_MIN_LENGTH = 6;
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+export function normaliseLabel(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .replace(/^\s*(the|a|an)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Edit distance counting an adjacent transposition ("ei" / "ie") as one slip */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i += 1) {
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+function acceptedTexts(target: DiagramLabelTarget): string[] {
+  return [target.text, ...(target.acceptableAlternatives ?? [])].map(normaliseLabel).filter(Boolean);
+}
+
+/**
+ * Reads the StructuralDiagram answer (object or JSON string) into its labels.
+ */
+export function parsePlacedLabels(raw: unknown): PlacedLabel[] | null {
+  const data = parseJson(raw) as { labels?: unknown } | null;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.labels)) {
+    return null;
+  }
+  return data.labels.flatMap((entry) => {
+    const label = entry as Partial<PlacedLabel> | null;
+    const x = Number(label?.x);
+    const y = Number(label?.y);
+    if (typeof label?.text !== 'string' || !label.text.trim() || !Number.isFinite(x) || !Number.isFinite(y)) {
+      return [];
+    }
+    return [{ id: label.id, text: label.text, x, y }];
+  });
+}
+
+/**
+ * Builds a scheme from a correct-answer text: `{ labels: [...] }` with
+ * targets, or a model StructuralDiagram answer whose labels become targets
+ * centred where the examiner placed them.
+ */
+export function parseLabelledDiagramScheme(text: string | null | undefined): LabelledDiagramScheme | null {
+  const data = parseJson(text) as { labels?: unknown } | null;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.labels)) {
+    return null;
+  }
+
+  const labels = data.labels.flatMap((entry): DiagramLabelTarget[] => {
+    const label = entry as Partial<DiagramLabelTarget & PlacedLabel & { points: number }> | null;
+    if (typeof label?.text !== 'string' || !label.text.trim()) {
+      return [];
+    }
+    const placed = Number.isFinite(Number(label.x)) && Number.isFinite(Number(label.y));
+    return [
+      {
+        text: label.text,
+        marks: label.marks ?? label.points ?? 1,
+        acceptableAlternatives: label.acceptableAlternatives ?? [],
+        region: label.region ?? (placed ? { x: Number(label.x), y: Number(label.y) } : null)
+      }
+    ];
+  });
+
+  return labels.length ? { labels } : null;
+}
+
+/**
+ * Text-only scheme from ordinary correct-answer rows, one label per row;
+ * "/" separates alternatives as elsewhere in mark schemes.
+ */
+export function buildSchemeFromRows(rows: LabelAnswerRow[]): LabelledDiagramScheme | null {
+  const labels = rows
+    .filter((row) => row.text.trim())
+    .map((row) => {
+      const [text, ...alternatives] = row.text.split(/\s+\/\s+|\bor\b/i).map((part) => part.trim()).filter(Boolean);
+      return {
+        text,
+        marks: row.marks ?? 1,
+        acceptableAlternatives: [...alternatives, ...(row.acceptableVariations ?? [])],
+        region: null
+      };
+    });
+  return labels.length ? { labels } : null;
+}
+
+function isInRegion(label: PlacedLabel, region: DiagramRegion): boolean {
+  const radius = region.radius ?? DEFAULT_REGION_RADIUS;
+  return Math.hypot(label.x - region.x, label.y - region.y) <= radius + 1e-9;
+}
+
+function matchesTarget(label: PlacedLabel, target: DiagramLabelTarget, otherTargets: Set<string>): 'exact' | 'spelling' | null {
+  const text = normaliseLabel(label.text);
+  const accepted = acceptedTexts(target);
+  if (accepted.includes(text)) {
+    return 'exact';
+  }
+  if (otherTargets.has(text)) {
+    return null;
+  }
+  return accepted.some((candidate) => candidate.length >= SPELLING_TOLERANCE_MIN_LENGTH && editDistance(candidate, text) <= 1)
+    ? 'spelling'
+    : null;
+}
+
+/**
+ * Marks placed labels against the scheme. Each student label can satisfy at
+ * most one target; a target whose region also holds a wrong label is treated
+ * as a contradiction and not awarded.
+ */
+export function markLabelledDiagram(raw: unknown, scheme: LabelledDiagramScheme): AutoMarkResult {
+  const placed = parsePlacedLabels(raw) ?? [];
+  const awarded: AutoMarkPointAward[] = [];
+  const denied: AutoMarkPointDenied[] = [];
+  const notes: string[] = [];
+  const used = new Set<PlacedLabel>();
+  let totalAwarded = 0;
+  let totalAvailable = 0;
+
+  scheme.labels.forEach((target, index) => {
+    const pointId = `label_${index + 1}`;
+    const marks = target.marks ?? 1;
+    totalAvailable += marks;
+
+    const accepted = new Set(acceptedTexts(target));
+    const otherTargets = new Set(
+      scheme.labels.filter((other) => other !== target).flatMap(acceptedTexts).filter((text) => !accepted.has(text))
+    );
+    const candidates = placed
+      .filter((label) => !used.has(label))
+      .map((label) => ({ label, match: matchesTarget(label, target, otherTargets) }))
+      .filter((candidate) => candidate.match !== null);
+
+    if (!candidates.length) {
+      denied.push({ pointId, reason: `no label for ${target.text}`, expected: [...accepted].join(' / ') });
+      return;
+    }
+
+    const region = target.region;
+    const chosen = region ? candidates.find((candidate) => isInRegion(candidate.label, region)) : candidates[0];
+    if (!chosen) {
+      used.add(candidates[0].label);
+      denied.push({
+        pointId,
+        reason: `"${candidates[0].label.text}" is not placed on the correct part of the diagram`,
+        expected: `${target.text} at (${region?.x}%, ${region?.y}%)`
+      });
+      return;
+    }
+    used.add(chosen.label);
+
+    // Labels that sit in an overlapping region of another target are not contradictions
+    const belongsElsewhere = (label: PlacedLabel) =>
+      scheme.labels.some((other) => other !== target && !!other.region && isInRegion(label, other.region));
+    const contradiction = region
+      ? placed.find(
+          (label) =>
+            label !== chosen.label &&
+            isInRegion(label, region) &&
+            !matchesTarget(label, target, otherTargets) &&
+            !belongsElsewhere(label)
+        )
+      : undefined;
+    if (contradiction) {
+      denied.push({
+        pointId,
+        reason: `contradicted by "${contradiction.text}" on the same part`,
+        expected: target.text
+      });
+      return;
+    }
+
+    const pointNotes = chosen.match === 'spelling' ? [`accepted spelling "${chosen.label.text}" for ${target.text}`] : [];
+    totalAwarded += marks;
+    awarded.push({ pointId, marks, notes: pointNotes.length ? pointNotes.join('; ') : undefined });
+    notes.push(...pointNotes);
+  });
+
+  return {
+    awarded,
+    denied,
+    ecf: false,
+    notes,
+    totalAwarded,
+    totalAvailable
+  };
+}
+
+/**
+ * Marks an answer that may have been typed instead of placed on the diagram,
+ * as in the mock exam player, which has no diagram canvas. Typed labels (one
+ * per line, or separated by commas or semicolons) carry no position, so they
+ * are marked on text alone.
+ */
+export function markLabelledDiagramAnswer(raw: unknown, scheme: LabelledDiagramScheme): AutoMarkResult {
+  if (parsePlacedLabels(raw)) {
+    return markLabelledDiagram(raw, scheme);
+  }
+
+  const labels = (typeof raw === 'string' ? raw : '')
+    .split(/[\n;,]+/)
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .map((text) => ({ text, x: 0, y: 0 }));
+  return markLabelledDiagram({ labels }, { labels: scheme.labels.map((target) => ({ ...target, region: null })) });
+}
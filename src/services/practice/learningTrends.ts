@@ -0,0 +1,337 @@
+import dayjs from 'dayjs';
+
+// Older sessions count for less when rolling mastery up across sessions
+export const MASTERY_DECAY = 0.8;
+export const MASTERED_THRESHOLD = 0.8;
+export const PROGRESSING_THRESHOLD = 0.6;
+// Sessions ahead the grade trajectory is projected
+export const PROJECTION_SESSIONS = 3;
+
+export type MasteryLevel = 'unit' | 'topic' | 'subtopic';
+export type MasteryStatus = 'mastered' | 'progressing' | 'needs_work';
+export type DifficultyBand = 'easy' | 'medium' | 'hard';
+
+interface StoredAreaPerformance {
+  unitId?: string | null;
+  unitName?: string;
+  topicId?: string | null;
+  topicName?: string;
+  subtopicId?: string | null;
+  subtopicName?: string;
+  questionsTotal?: number;
+  marksEarned?: number;
+  marksAvailable?: number;
+}
+
+interface StoredDifficultyBand {
+  total?: number;
+  marksEarned?: number;
+  marksAvailable?: number;
+}
+
+/** One `practice_results_analytics` row with its session's date and subject */
+export interface SessionAnalyticsRow {
+  sessionId: string;
+  subjectId: string | null;
+  completedAt: string;
+  percentage: number;
+  gradePrediction: string | null;
+  totalTimeSeconds: number;
+  averageTimePerQuestion: number;
+  questionsAnswered: number;
+  unitPerformance: StoredAreaPerformance[];
+  topicPerformance: StoredAreaPerformance[];
+  subtopicPerformance: StoredAreaPerformance[];
+  difficultyBreakdown: Partial<Record<DifficultyBand, StoredDifficultyBand>>;
+}
+
+export interface SyllabusCatalogue {
+  units: { id: string; name: string }[];
+  topics: { id: string; name: string; unit_id: string }[];
+  subtopics: { id: string; name: string; topic_id: string }[];
+}
+
+export interface MasteryPoint {
+  sessionId: string;
+  date: string;
+  accuracy: number;
+  marksEarned: number;
+  marksAvailable: number;
+}
+
+export interface MasteryTrend {
+  level: MasteryLevel;
+  id: string | null;
+  name: string;
+  points: MasteryPoint[];
+  /** Recency-weighted accuracy across all sessions (0-1) */
+  mastery: number;
+  firstAccuracy: number;
+  latestAccuracy: number;
+  change: number;
+  status: MasteryStatus;
+}
+
+export interface DifficultyProgressionPoint {
+  sessionId: string;
+  date: string;
+  /** Accuracy per band (0-1); null when the session had no questions of that band */
+  easy: number | null;
+  medium: number | null;
+  hard: number | null;
+}
+
+export interface TimeOnTaskWeek {
+  weekStart: string;
+  sessions: number;
+  totalTimeSeconds: number;
+  questionsAnswered: number;
+  averageTimePerQuestion: number;
+}
+
+export interface GradeTrajectoryPoint {
+  sessionId: string;
+  date: string;
+  percentage: number;
+  grade: string | null;
+}
+
+export interface GradeTrajectory {
+  points: GradeTrajectoryPoint[];
+  /** Least-squares change in percentage per session */
+  slopePerSession: number;
+  projectedPercentage: number | null;
+  latestGrade: string | null;
+}
+
+export interface SyllabusHeatmapNode {
+  id: string;
+  name: string;
+  /** Null when the student has not attempted anything in this area */
+  mastery: number | null;
+  attempts: number;
+  children: SyllabusHeatmapNode[];
+}
+
+export interface LearningTrends {
+  sessionCount: number;
+  masteryTrends: Record<MasteryLevel, MasteryTrend[]>;
+  difficultyProgression: DifficultyProgressionPoint[];
+  timeOnTask: TimeOnTaskWeek[];
+  gradeTrajectory: GradeTrajectory;
+  heatmap: SyllabusHeatmapNode[];
+}
+
+export function masteryStatus(accuracy: number): MasteryStatus {
+  if (accuracy >= MASTERED_THRESHOLD) return 'mastered';
+  if (accuracy >= PROGRESSING_THRESHOLD) return 'progressing';
+  return 'needs_work';
+}
+
+function areaKey(level: MasteryLevel, area: StoredAreaPerformance): { id: string | null; name: string } {
+  if (level === 'unit') return { id: area.unitId ?? null, name: area.unitName ?? 'Unassigned' };
+  if (level === 'topic') return { id: area.topicId ?? null, name: area.topicName ?? 'Unassigned' };
+  return { id: area.subtopicId ?? null, name: area.subtopicName ?? 'Unassigned' };
+}
+
+/**
+ * Marks-weighted accuracy with older points discounted by MASTERY_DECAY per
+ * session, so recent work moves mastery more than early attempts.
+ */
+export function weightedMastery(points: MasteryPoint[]): number {
+  let earned = 0;
+  let available = 0;
+  points.forEach((point, index) => {
+    const weight = Math.pow(MASTERY_DECAY, points.length - 1 - index);
+    earned += weight * point.marksEarned;
+    available += weight * point.marksAvailable;
+  });
+  return available > 0 ? earned / available : 0;
+}
+
+function buildMasteryTrends(rows: SessionAnalyticsRow[], level: MasteryLevel): MasteryTrend[] {
+  const trends = new Map<string, { id: string | null; name: string; points: MasteryPoint[] }>();
+  const source = (row: SessionAnalyticsRow) =>
+    level === 'unit' ? row.unitPerformance : level === 'topic' ? row.topicPerformance : row.subtopicPerformance;
+
+  rows.forEach((row) => {
+    source(row).forEach((area) => {
+      const marksAvailable = area.marksAvailable ?? 0;
+      if (marksAvailable <= 0) return;
+
+      const { id, name } = areaKey(level, area);
+      const key = id ?? 'unassigned';
+      if (!trends.has(key)) {
+        trends.set(key, { id, name, points: [] });
+      }
+      const marksEarned = area.marksEarned ?? 0;
+      trends.get(key)!.points.push({
+        sessionId: row.sessionId,
+        date: row.completedAt,
+        accuracy: marksEarned / marksAvailable,
+        marksEarned,
+        marksAvailable
+      });
+    });
+  });
+
+  return Array.from(trends.values())
+    .map(({ id, name, points }) => {
+      const mastery = weightedMastery(points);
+      const firstAccuracy = points[0].accuracy;
+      const latestAccuracy = points[points.length - 1].accuracy;
+      return {
+        level,
+        id,
+        name,
+        points,
+        mastery,
+        firstAccuracy,
+        latestAccuracy,
+        change: latestAccuracy - firstAccuracy,
+        status: masteryStatus(mastery)
+      };
+    })
+    .sort((a, b) => a.mastery - b.mastery);
+}
+
+function bandAccuracy(band: StoredDifficultyBand | undefined): number | null {
+  if (!band || !band.total || !band.marksAvailable) return null;
+  return (band.marksEarned ?? 0) / band.marksAvailable;
+}
+
+function buildTimeOnTask(rows: SessionAnalyticsRow[]): TimeOnTaskWeek[] {
+  const weeks = new Map<string, TimeOnTaskWeek>();
+
+  rows.forEach((row) => {
+    const weekStart = dayjs(row.completedAt).startOf('week').format('YYYY-MM-DD');
+    const week = weeks.get(weekStart) ?? {
+      weekStart,
+      sessions: 0,
+      totalTimeSeconds: 0,
+      questionsAnswered: 0,
+      averageTimePerQuestion: 0
+    };
+    week.sessions++;
+    week.totalTimeSeconds += row.totalTimeSeconds;
+    week.questionsAnswered += row.questionsAnswered;
+    week.averageTimePerQuestion = week.questionsAnswered > 0 ? week.totalTimeSeconds / week.questionsAnswered : 0;
+    weeks.set(weekStart, week);
+  });
+
+  return Array.from(weeks.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+}
+
+export function buildGradeTrajectory(rows: SessionAnalyticsRow[]): GradeTrajectory {
+  const points = rows.map((row) => ({
+    sessionId: row.sessionId,
+    date: row.completedAt,
+    percentage: row.percentage,
+    grade: row.gradePrediction
+  }));
+
+  if (points.length < 2) {
+    return {
+      points,
+      slopePerSession: 0,
+      projectedPercentage: null,
+      latestGrade: points[0]?.grade ?? null
+    };
+  }
+
+  const n = points.length;
+  const meanX = (n - 1) / 2;
+  const meanY = points.reduce((sum, point) => sum + point.percentage, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  points.forEach((point, index) => {
+    covariance += (index - meanX) * (point.percentage - meanY);
+    variance += (index - meanX) ** 2;
+  });
+  const slope = variance > 0 ? covariance / variance : 0;
+  const projected = meanY + slope * (n - 1 + PROJECTION_SESSIONS - meanX);
+
+  return {
+    points,
+    slopePerSession: slope,
+    projectedPercentage: Math.round(Math.min(100, Math.max(0, projected))),
+    latestGrade: points[n - 1].grade
+  };
+}
+
+/**
+ * Overlay mastery on the subject's unit → topic → subtopic tree. Topics and
+ * units without direct results take the attempt-weighted mastery of their
+ * children.
+ */
+export function buildSyllabusHeatmap(
+  catalogue: SyllabusCatalogue,
+  trends: Record<MasteryLevel, MasteryTrend[]>
+): SyllabusHeatmapNode[] {
+  const lookup = (level: MasteryLevel) =>
+    new Map(trends[level].filter((trend) => trend.id).map((trend) => [trend.id as string, trend]));
+  const units = lookup('unit');
+  const topics = lookup('topic');
+  const subtopics = lookup('subtopic');
+
+  const node = (id: string, name: string, trend: MasteryTrend | undefined, children: SyllabusHeatmapNode[]) => {
+    if (trend) {
+      return { id, name, mastery: trend.mastery, attempts: trend.points.length, children };
+    }
+    const attempted = children.filter((child) => child.mastery !== null);
+    const attempts = attempted.reduce((sum, child) => sum + child.attempts, 0);
+    return {
+      id,
+      name,
+      mastery: attempts > 0
+        ? attempted.reduce((sum, child) => sum + (child.mastery as number) * child.attempts, 0) / attempts
+        : null,
+      attempts,
+      children
+    };
+  };
+
+  return catalogue.units.map((unit) =>
+    node(
+      unit.id,
+      unit.name,
+      units.get(unit.id),
+      catalogue.topics
+        .filter((topic) => topic.unit_id === unit.id)
+        .map((topic) =>
+          node(
+            topic.id,
+            topic.name,
+            topics.get(topic.id),
+            catalogue.subtopics
+              .filter((subtopic) => subtopic.topic_id === topic.id)
+              .map((subtopic) => node(subtopic.id, subtopic.name, subtopics.get(subtopic.id), []))
+          )
+        )
+    )
+  );
+}
+
+export function buildLearningTrends(rows: SessionAnalyticsRow[], catalogue: SyllabusCatalogue): LearningTrends {
+  const ordered = [...rows].sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+  const masteryTrends: Record<MasteryLevel, MasteryTrend[]> = {
+    unit: buildMasteryTrends(ordered, 'unit'),
+    topic: buildMasteryTrends(ordered, 'topic'),
+    subtopic: buildMasteryTrends(ordered, 'subtopic')
+  };
+
+  return {
+    sessionCount: ordered.length,
+    masteryTrends,
+    difficultyProgression: ordered.map((row) => ({
+      sessionId: row.sessionId,
+      date: row.completedAt,
+      easy: bandAccuracy(row.difficultyBreakdown.easy),
+      medium: bandAccuracy(row.difficultyBreakdown.medium),
+      hard: bandAccuracy(row.difficultyBreakdown.hard)
+    })),
+    timeOnTask: buildTimeOnTask(ordered),
+    gradeTrajectory: buildGradeTrajectory(ordered),
+    heatmap: buildSyllabusHeatmap(catalogue, masteryTrends)
+  };
+}
@@ -0,0 +1,65 @@
+import dayjs from 'dayjs';
+import { AutoMarkPointAward, AutoMarkPointDenied, AutoMarkResult, ManualMarkResult, MarkingPointOverride } from '@/types/practice';
+
+interface OverrideContext {
+  comment: string;
+  reviewerId: string;
+  reviewedAt?: string;
+}
+
+/**
+ * Applies a teacher's point-level decisions on top of an existing marking
+ * result. Awarded points move out of `denied` (and vice versa) so the result
+ * still reads like an AutoMarkResult; the total is capped at the marks available.
+ */
+export function applyMarkingOverrides(
+  base: AutoMarkResult,
+  overrides: MarkingPointOverride[],
+  context: OverrideContext
+): ManualMarkResult {
+  const awarded = new Map<string, AutoMarkPointAward>(base.awarded.map((entry) => [entry.pointId, { ...entry }]));
+  const denied = new Map<string, AutoMarkPointDenied>(base.denied.map((entry) => [entry.pointId, { ...entry }]));
+  const note = context.comment.trim() ? `teacher override: ${context.comment.trim()}` : 'teacher override';
+
+  overrides.forEach((override) => {
+    if (override.action === 'award') {
+      awarded.set(override.pointId, {
+        pointId: override.pointId,
+        marks: Math.max(0, override.marks),
+        notes: note
+      });
+      denied.delete(override.pointId);
+      return;
+    }
+
+    const previous = awarded.get(override.pointId);
+    awarded.delete(override.pointId);
+    denied.set(override.pointId, {
+      pointId: override.pointId,
+      reason: `removed by teacher${context.comment.trim() ? `: ${context.comment.trim()}` : ''}`,
+      expected: previous?.notes ?? denied.get(override.pointId)?.expected
+    });
+  });
+
+  const awardedList = Array.from(awarded.values());
+  const awardedTotal = awardedList.reduce((sum, entry) => sum + entry.marks, 0);
+
+  return {
+    ...base,
+    awarded: awardedList,
+    denied: Array.from(denied.values()),
+    notes: [...base.notes, note],
+    totalAwarded: base.totalAvailable > 0 ? Math.min(awardedTotal, base.totalAvailable) : awardedTotal,
+    comment: context.comment.trim(),
+    overrides,
+    overriddenBy: context.reviewerId,
+    overriddenAt: context.reviewedAt ?? dayjs().toISOString()
+  };
+}
+
+export function resolveEffectiveMarking(answer: {
+  auto_mark_json: AutoMarkResult | null;
+  manual_mark_json?: ManualMarkResult | null;
+}): AutoMarkResult | null {
+  return answer.manual_mark_json ?? answer.auto_mark_json;
+}
@@ -0,0 +1,802 @@
+/**
+ * Atom/bond graph model behind the chemical structure editor.
+ *
+ * A drawing is a graph of atoms (with canvas positions) and bonds. From it we
+ * derive hydrogen counts, the molecular formula (Hill order), functional
+ * groups and a canonical SMILES string, and can read/write SMILES and V2000
+ * molfiles. Two drawings are the same molecule when their heavy-atom graphs
+ * are isomorphic, so layout and atom order never matter while structural
+ * isomers (same formula, different connectivity) stay distinct.
+ *
+ * Drawings with no explicit H atoms are read as skeletal: every atom is
+ * filled up to its usual valence with hydrogens. Once any H is drawn the
+ * structure is read as a displayed formula and missing hydrogens are not
+ * added.
+ */
+
+export type BondOrder = 1 | 1.5 | 2 | 3;
+
+export interface MoleculeAtom {
+  id: string;
+  element: string;
+  x: number;
+  y: number;
+  charge?: number;
+  aromatic?: boolean;
+  /** Hydrogen count fixed by a SMILES bracket atom such as [NH4+] */
+  hydrogens?: number;
+}
+
+export interface MoleculeBond {
+  id: string;
+  from: string;
+  to: string;
+  order: BondOrder;
+}
+
+export interface MoleculeGraph {
+  atoms: MoleculeAtom[];
+  bonds: MoleculeBond[];
+}
+
+export type FunctionalGroup =
+  | 'alkene'
+  | 'alkyne'
+  | 'arene'
+  | 'alcohol'
+  | 'phenol'
+  | 'ether'
+  | 'aldehyde'
+  | 'ketone'
+  | 'carboxylic_acid'
+  | 'ester'
+  | 'amide'
+  | 'amine'
+  | 'nitrile'
+  | 'halogenoalkane';
+
+export const FUNCTIONAL_GROUP_LABELS: Record<FunctionalGroup, string> = {
+  alkene: 'Alkene (C=C)',
+  alkyne: 'Alkyne (C≡C)',
+  arene: 'Benzene ring',
+  alcohol: 'Alcohol (-OH)',
+  phenol: 'Phenol',
+  ether: 'Ether (C-O-C)',
+  aldehyde: 'Aldehyde (-CHO)',
+  ketone: 'Ketone (C=O)',
+  carboxylic_acid: 'Carboxylic acid (-COOH)',
+  ester: 'Ester (-COO-)',
+  amide: 'Amide (-CONH-)',
+  amine: 'Amine (-NH₂)',
+  nitrile: 'Nitrile (-C≡N)',
+  halogenoalkane: 'Halogenoalkane (C-X)'
+};
+
+export interface ValenceProblem {
+  atomId: string;
+  message: string;
+}
+
+export const EMPTY_MOLECULE: MoleculeGraph = { atoms: [], bonds: [] };
+
+const VALENCES: Record<string, number[]> = {
+  H: [1],
+  B: [3],
+  C: [4],
+  N: [3, 5],
+  O: [2],
+  F: [1],
+  Si: [4],
+  P: [3, 5],
+  S: [2, 4, 6],
+  Cl: [1],
+  Br: [1],
+  I: [1]
+};
+
+const HALOGENS = new Set(['F', 'Cl', 'Br', 'I']);
+// Canvas pixels per ångström when writing molfiles
+const MOLFILE_SCALE = 40;
+const LAYOUT_BOND_LENGTH = 50;
+
+export function nextElementId(prefix: string, items: { id: string }[]): string {
+  const used = items
+    .map((item) => Number(item.id.replace(`${prefix}_`, '')))
+    .filter((value) => Number.isInteger(value));
+  return `${prefix}_${(used.length ? Math.max(...used) : 0) + 1}`;
+}
+
+function bondSum(graph: MoleculeGraph, atomId: string): number {
+  return graph.bonds.reduce((sum, bond) => (bond.from === atomId || bond.to === atomId ? sum + bond.order : sum), 0);
+}
+
+function targetValences(atom: MoleculeAtom): number[] {
+  const charge = atom.charge ?? 0;
+  const base = VALENCES[atom.element] ?? [];
+  // N+ and O+ gain a bond (NH4+, H3O+); C and B lose one per unit of charge
+  return ['C', 'B', 'Si'].includes(atom.element)
+    ? base.map((valence) => valence - Math.abs(charge))
+    : base.map((valence) => valence + charge);
+}
+
+function isDisplayedFormula(graph: MoleculeGraph): boolean {
+  return graph.atoms.some((atom) => atom.element === 'H');
+}
+
+/**
+ * Implicit hydrogens on an atom: none in displayed formulas, otherwise enough
+ * to reach the smallest normal valence the atom's bonds fit in.
+ */
+export function implicitHydrogens(graph: MoleculeGraph, atom: MoleculeAtom): number {
+  if (atom.hydrogens !== undefined) {
+    return atom.hydrogens;
+  }
+  if (atom.element === 'H' || isDisplayedFormula(graph)) {
+    return 0;
+  }
+  const used = bondSum(graph, atom.id);
+  const valence = targetValences(atom).find((value) => value >= used);
+  return valence === undefined ? 0 : Math.max(0, Math.floor(valence - used + 1e-9));
+}
+
+/** Atoms with too many bonds, and (for displayed formulas) too few */
+export function findValenceProblems(graph: MoleculeGraph): ValenceProblem[] {
+  const displayed = isDisplayedFormula(graph);
+  return graph.atoms.flatMap((atom): ValenceProblem[] => {
+    const valences = targetValences(atom);
+    if (!valences.length) {
+      return [];
+    }
+    const used = bondSum(graph, atom.id) + (atom.hydrogens ?? 0);
+    const max = Math.max(...valences);
+    if (used > max + 1e-9) {
+      return [{ atomId: atom.id, message: `${atom.element} has ${used} bonds (maximum ${max})` }];
+    }
+    if (displayed && atom.hydrogens === undefined && !valences.some((valence) => Math.abs(valence - used) < 1e-9)) {
+      return [{ atomId: atom.id, message: `${atom.element} has ${used} bonds; a displayed formula shows every bond` }];
+    }
+    return [];
+  });
+}
+
+interface HeavyAtom {
+  element: string;
+  charge: number;
+  hydrogens: number;
+  aromatic: boolean;
+  neighbours: { index: number; order: BondOrder }[];
+}
+
+interface NormalisedMolecule {
+  atoms: HeavyAtom[];
+}
+
+/**
+ * Folds hydrogens into their heavy atoms and marks alternating six-membered
+ * rings aromatic, so Kekulé and aromatic drawings of benzene compare equal.
+ */
+function normalise(graph: MoleculeGraph): NormalisedMolecule {
+  const hydrogenNeighbours = new Map<string, number>();
+  const isFoldedHydrogen = (atom: MoleculeAtom) => {
+    if (atom.element !== 'H' || (atom.charge ?? 0) !== 0) {
+      return false;
+    }
+    const bonds = graph.bonds.filter((bond) => bond.from === atom.id || bond.to === atom.id);
+    if (bonds.length !== 1 || bonds[0].order !== 1) {
+      return false;
+    }
+    const otherId = bonds[0].from === atom.id ? bonds[0].to : bonds[0].from;
+    return graph.atoms.find((other) => other.id === otherId)?.element !== 'H';
+  };
+
+  const folded = new Set(graph.atoms.filter(isFoldedHydrogen).map((atom) => atom.id));
+  graph.bonds.forEach((bond) => {
+    if (folded.has(bond.from)) hydrogenNeighbours.set(bond.to, (hydrogenNeighbours.get(bond.to) ?? 0) + 1);
+    if (folded.has(bond.to)) hydrogenNeighbours.set(bond.from, (hydrogenNeighbours.get(bond.from) ?? 0) + 1);
+  });
+
+  const kept = graph.atoms.filter((atom) => !folded.has(atom.id));
+  const indexOf = new Map(kept.map((atom, index) => [atom.id, index]));
+  const atoms: HeavyAtom[] = kept.map((atom) => ({
+    element: atom.element,
+    charge: atom.charge ?? 0,
+    hydrogens: implicitHydrogens(graph, atom) + (hydrogenNeighbours.get(atom.id) ?? 0),
+    aromatic: !!atom.aromatic,
+    neighbours: []
+  }));
+  graph.bonds.forEach((bond) => {
+    const from = indexOf.get(bond.from);
+    const to = indexOf.get(bond.to);
+    if (from === undefined || to === undefined || from === to) {
+      return;
+    }
+    atoms[from].neighbours.push({ index: to, order: bond.order });
+    atoms[to].neighbours.push({ index: from, order: bond.order });
+  });
+
+  aromatiseRings(atoms);
+  return { atoms };
+}
+
+function setOrder(atoms: HeavyAtom[], a: number, b: number, order: BondOrder): void {
+  atoms[a].neighbours.forEach((link) => {
+    if (link.index === b) link.order = order;
+  });
+  atoms[b].neighbours.forEach((link) => {
+    if (link.index === a) link.order = order;
+  });
+}
+
+function aromatiseRings(atoms: HeavyAtom[]): void {
+  const orderBetween = (a: number, b: number) => atoms[a].neighbours.find((link) => link.index === b)?.order;
+  const rings: number[][] = [];
+  const extend = (path: number[]) => {
+    const last = path[path.length - 1];
+    if (path.length === 6) {
+      if (orderBetween(last, path[0]) !== undefined && path[0] === Math.min(...path)) {
+        rings.push([...path]);
+      }
+      return;
+    }
+    atoms[last].neighbours.forEach(({ index }) => {
+      if (!path.includes(index) && index > path[0] && ['C', 'N'].includes(atoms[index].element)) {
+        extend([...path, index]);
+      }
+    });
+  };
+  atoms.forEach((atom, index) => {
+    if (['C', 'N'].includes(atom.element)) {
+      extend([index]);
+    }
+  });
+
+  rings.forEach((ring) => {
+    const orders = ring.map((atom, position) => orderBetween(atom, ring[(position + 1) % 6]));
+    const alternating = [0, 1].some((offset) =>
+      orders.every((order, position) => order === ((position + offset) % 2 === 0 ? 2 : 1) || order === 1.5)
+    );
+    if (!alternating) {
+      return;
+    }
+    ring.forEach((atom, position) => {
+      atoms[atom].aromatic = true;
+      setOrder(atoms, atom, ring[(position + 1) % 6], 1.5);
+    });
+  });
+}
+
+function elementCounts(molecule: NormalisedMolecule): Record<string, number> {
+  const counts: Record<string, number> = {};
+  molecule.atoms.forEach((atom) => {
+    counts[atom.element] = (counts[atom.element] ?? 0) + 1;
+    if (atom.hydrogens) {
+      counts.H = (counts.H ?? 0) + atom.hydrogens;
+    }
+  });
+  return counts;
+}
+
+/** Molecular formula in Hill order: C, H, then the rest alphabetically */
+export function molecularFormula(graph: MoleculeGraph): string {
+  if (!graph.atoms.length) {
+    return '';
+  }
+  const molecule = normalise(graph);
+  const counts = elementCounts(molecule);
+  const elements = Object.keys(counts).sort();
+  const ordered = counts.C ? ['C', ...(counts.H ? ['H'] : []), ...elements.filter((el) => el !== 'C' && el !== 'H')] : elements;
+  const charge = molecule.atoms.reduce((sum, atom) => sum + atom.charge, 0);
+  const chargeText = charge === 0 ? '' : `${Math.abs(charge) > 1 ? Math.abs(charge) : ''}${charge > 0 ? '+' : '-'}`;
+  return ordered.map((el) => `${el}${counts[el] > 1 ? counts[el] : ''}`).join('') + chargeText;
+}
+
+/**
+ * Functional groups found in the drawing, in a fixed order.
+ */
+export function detectFunctionalGroups(graph: MoleculeGraph): FunctionalGroup[] {
+  const { atoms } = normalise(graph);
+  const found = new Set<FunctionalGroup>();
+  const linked = (index: number, element: string, order: BondOrder) =>
+    atoms[index].neighbours.filter((link) => link.order === order && atoms[link.index].element === element);
+  const isCarbonyl = (index: number) => atoms[index].element === 'C' && linked(index, 'O', 2).length > 0;
+
+  atoms.forEach((atom, index) => {
+    if (atom.aromatic && atom.element === 'C') {
+      found.add('arene');
+    }
+    if (atom.element === 'C') {
+      if (linked(index, 'C', 2).length) found.add('alkene');
+      if (linked(index, 'C', 3).length) found.add('alkyne');
+      if (linked(index, 'N', 3).length) found.add('nitrile');
+      if (!atom.aromatic && atom.neighbours.some((link) => HALOGENS.has(atoms[link.index].element))) {
+        found.add('halogenoalkane');
+      }
+      if (isCarbonyl(index)) {
+        const singleOxygens = linked(index, 'O', 1);
+        const carbonNeighbours = linked(index, 'C', 1).length + linked(index, 'C', 1.5).length;
+        if (singleOxygens.some((link) => atoms[link.index].hydrogens > 0)) {
+          found.add('carboxylic_acid');
+        } else if (singleOxygens.some((link) => linked(link.index, 'C', 1).length > 1)) {
+          found.add('ester');
+        } else if (linked(index, 'N', 1).length) {
+          found.add('amide');
+        } else if (atom.hydrogens > 0) {
+          found.add('aldehyde');
+        } else if (carbonNeighbours >= 2) {
+          found.add('ketone');
+        }
+      }
+    }
+    if (atom.element === 'O' && atom.neighbours.every((link) => link.order === 1)) {
+      const carbons = atom.neighbours.filter((link) => atoms[link.index].element === 'C').map((link) => link.index);
+      if (atom.hydrogens > 0 && carbons.length === 1 && !isCarbonyl(carbons[0])) {
+        found.add(atoms[carbons[0]].aromatic ? 'phenol' : 'alcohol');
+      }
+      if (carbons.length === 2 && !carbons.some(isCarbonyl)) {
+        found.add('ether');
+      }
+    }
+    if (
+      atom.element === 'N' &&
+      !atom.aromatic &&
+      atom.charge === 0 &&
+      atom.neighbours.every((link) => link.order === 1) &&
+      atom.neighbours.some((link) => atoms[link.index].element === 'C') &&
+      !atom.neighbours.some((link) => isCarbonyl(link.index))
+    ) {
+      found.add('amine');
+    }
+  });
+
+  return (Object.keys(FUNCTIONAL_GROUP_LABELS) as FunctionalGroup[]).filter((group) => found.has(group));
+}
+
+function atomsMatch(a: HeavyAtom, b: HeavyAtom): boolean {
+  return (
+    a.element === b.element &&
+    a.charge === b.charge &&
+    a.hydrogens === b.hydrogens &&
+    a.aromatic === b.aromatic &&
+    a.neighbours.length === b.neighbours.length
+  );
+}
+
+/**
+ * True when both drawings are the same molecule: their heavy-atom graphs
+ * (with hydrogen counts, charges and bond orders) are isomorphic.
+ */
+export function isSameMolecule(first: MoleculeGraph, second: MoleculeGraph): boolean {
+  const a = normalise(first).atoms;
+  const b = normalise(second).atoms;
+  if (a.length !== b.length || a.length === 0) {
+    return a.length === b.length;
+  }
+
+  // Visit A in BFS order so each atom after the first has a mapped neighbour
+  const order: number[] = [];
+  const seen = new Set<number>();
+  a.forEach((_, start) => {
+    if (seen.has(start)) return;
+    seen.add(start);
+    order.push(start);
+    for (let cursor = order.length - 1; cursor < order.length; cursor += 1) {
+      a[order[cursor]].neighbours.forEach(({ index }) => {
+        if (!seen.has(index)) {
+          seen.add(index);
+          order.push(index);
+        }
+      });
+    }
+  });
+
+  const mapping = new Map<number, number>();
+  const used = new Set<number>();
+  const consistent = (from: number, to: number) =>
+    a[from].neighbours.every((link) => {
+      const mapped = mapping.get(link.index);
+      return mapped === undefined || b[to].neighbours.some((other) => other.index === mapped && other.order === link.order);
+    });
+
+  const search = (position: number): boolean => {
+    if (position === order.length) {
+      return true;
+    }
+    const from = order[position];
+    for (let to = 0; to < b.length; to += 1) {
+      if (used.has(to) || !atomsMatch(a[from], b[to]) || !consistent(from, to)) {
+        continue;
+      }
+      mapping.set(from, to);
+      used.add(to);
+      if (search(position + 1)) {
+        return true;
+      }
+      mapping.delete(from);
+      used.delete(to);
+    }
+    return false;
+  };
+
+  return search(0);
+}
+
+// ---------------------------------------------------------------------------
+// SMILES
+
+const ORGANIC_SUBSET = new Set(['B', 'C', 'N', 'O', 'P', 'S', 'F', 'Cl', 'Br', 'I']);
+
+function canonicalRanks(atoms: HeavyAtom[]): number[] {
+  const rankBy = (keys: string[]) => {
+    const sorted = [...new Set(keys)].sort();
+    return keys.map((key) => sorted.indexOf(key));
+  };
+  let ranks = rankBy(
+    atoms.map((atom) =>
+      [
+        atom.element,
+        atom.neighbours.length,
+        atom.hydrogens,
+        atom.charge,
+        atom.aromatic ? 1 : 0,
+        atom.neighbours.map((link) => link.order).sort().join(',')
+      ].join('|')
+    )
+  );
+
+  const refine = (current: number[]) => {
+    let result = current;
+    for (;;) {
+      const next = rankBy(
+        atoms.map(
+          (atom, index) =>
+            `${String(result[index]).padStart(4, '0')}|${atom.neighbours
+              .map((link) => `${String(result[link.index]).padStart(4, '0')}${link.order}`)
+              .sort()
+              .join(',')}`
+        )
+      );
+      if (new Set(next).size === new Set(result).size) {
+        return next;
+      }
+      result = next;
+    }
+  };
+
+  ranks = refine(ranks);
+  // Break remaining ties (symmetry-equivalent atoms) one at a time
+  while (new Set(ranks).size < ranks.length) {
+    const tied = ranks.findIndex((rank, index) => ranks.indexOf(rank) !== index);
+    const doubled = ranks.map((rank) => rank * 2 + 1);
+    doubled[tied] -= 1;
+    ranks = refine(doubled);
+  }
+  return ranks;
+}
+
+function defaultHydrogens(atom: HeavyAtom): number | null {
+  if (!ORGANIC_SUBSET.has(atom.element) || atom.charge !== 0) {
+    return null;
+  }
+  const used = atom.neighbours.reduce((sum, link) => sum + link.order, 0);
+  const valence = (VALENCES[atom.element] ?? []).find((value) => value >= used);
+  return valence === undefined ? 0 : Math.max(0, Math.floor(valence - used + 1e-9));
+}
+
+function atomSmiles(atom: HeavyAtom): string {
+  const symbol = atom.aromatic ? atom.element.toLowerCase() : atom.element;
+  if (defaultHydrogens(atom) === atom.hydrogens) {
+    return symbol;
+  }
+  const hydrogens = atom.hydrogens ? `H${atom.hydrogens > 1 ? atom.hydrogens : ''}` : '';
+  const sign = atom.charge > 0 ? '+' : '-';
+  const charge = atom.charge === 0 ? '' : `${sign}${Math.abs(atom.charge) > 1 ? Math.abs(atom.charge) : ''}`;
+  return `[${symbol}${hydrogens}${charge}]`;
+}
+
+function bondSymbol(order: BondOrder, a: HeavyAtom, b: HeavyAtom): string {
+  if (order === 2) return '=';
+  if (order === 3) return '#';
+  // Single bonds between aromatic atoms (biphenyl) must be explicit
+  return order === 1 && a.aromatic && b.aromatic ? '-' : '';
+}
+
+/** Canonical SMILES: the same molecule always gives the same string */
+export function toSmiles(graph: MoleculeGraph): string {
+  const { atoms } = normalise(graph);
+  if (!atoms.length) {
+    return '';
+  }
+  const ranks = canonicalRanks(atoms);
+  const byRank = (x: number, y: number) => ranks[x] - ranks[y];
+  const visited = new Set<number>();
+  const parts: string[] = [];
+
+  atoms
+    .map((_, index) => index)
+    .sort(byRank)
+    .forEach((start) => {
+      if (visited.has(start)) return;
+
+      // First pass: DFS tree and ring-closure bonds
+      const children = new Map<number, number[]>();
+      const closures = new Map<number, { partner: number; order: BondOrder }[]>();
+      const treeVisited = new Set<number>();
+      const walk = (atom: number, parent: number) => {
+        treeVisited.add(atom);
+        visited.add(atom);
+        children.set(atom, []);
+        [...atoms[atom].neighbours]
+          .sort((x, y) => byRank(x.index, y.index))
+          .forEach((link) => {
+            if (link.index === parent) return;
+            if (treeVisited.has(link.index)) {
+              const existing = closures.get(link.index) ?? [];
+              if (!existing.some((entry) => entry.partner === atom)) {
+                closures.set(atom, [...(closures.get(atom) ?? []), { partner: link.index, order: link.order }]);
+              }
+              return;
+            }
+            children.get(atom)?.push(link.index);
+            walk(link.index, atom);
+          });
+      };
+      walk(start, -1);
+
+      // Ring closures open at the earlier atom
+      const openings = new Map<number, { partner: number; order: BondOrder }[]>();
+      closures.forEach((entries, atom) =>
+        entries.forEach(({ partner, order }) => openings.set(partner, [...(openings.get(partner) ?? []), { partner: atom, order }]))
+      );
+
+      const digits = new Map<string, number>();
+      const free: number[] = [];
+      let nextDigit = 1;
+      const ringLabel = (digit: number) => (digit < 10 ? String(digit) : `%${digit}`);
+
+      const write = (atom: number, incoming: string): string => {
+        let text = incoming + atomSmiles(atoms[atom]);
+        (openings.get(atom) ?? []).forEach(({ partner, order }) => {
+          const digit = free.length ? free.sort((x, y) => x - y).shift()! : nextDigit++;
+          digits.set(`${atom}-${partner}`, digit);
+          text += bondSymbol(order, atoms[atom], atoms[partner]) + ringLabel(digit);
+        });
+        (closures.get(atom) ?? []).forEach(({ partner }) => {
+          const digit = digits.get(`${partner}-${atom}`)!;
+          free.push(digit);
+          text += ringLabel(digit);
+        });
+        const branches = children.get(atom) ?? [];
+        branches.forEach((child, position) => {
+          const order = atoms[atom].neighbours.find((link) => link.index === child)?.order ?? 1;
+          const branch = write(child, bondSymbol(order, atoms[atom], atoms[child]));
+          text += position < branches.length - 1 ? `(${branch})` : branch;
+        });
+        return text;
+      };
+      parts.push(write(start, ''));
+    });
+
+  return parts.sort().join('.');
+}
+
+export class SmilesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SmilesError';
+  }
+}
+
+const SMILES_TOKEN = /^(\[[^\]]+\]|Cl|Br|[BCNOPSFI]|[bcnops]|[-=#:$/\\]|[()]|%\d{2}|\d|\.)/;
+
+function parseBracketAtom(text: string): Pick<MoleculeAtom, 'element' | 'charge' | 'aromatic' | 'hydrogens'> {
+  const match = text.match(/^\[(\d+)?([A-Z][a-z]?|[bcnops])(@*)(H(\d*))?([+-]+|[+-]\d+)?\]$/);
+  if (!match) {
+    throw new SmilesError(`Cannot read atom ${text}`);
+  }
+  const [, , symbol, , hydrogenPart, hydrogenCount, chargePart] = match;
+  let charge = 0;
+  if (chargePart) {
+    const sign = chargePart[0] === '+' ? 1 : -1;
+    charge = /\d/.test(chargePart) ? sign * Number(chargePart.slice(1)) : sign * chargePart.length;
+  }
+  const aromatic = symbol === symbol.toLowerCase();
+  return {
+    element: aromatic ? symbol.toUpperCase() : symbol,
+    aromatic,
+    charge,
+    hydrogens: hydrogenPart ? Number(hydrogenCount || 1) : 0
+  };
+}
+
+/**
+ * Reads SMILES (organic subset, bracket atoms, branches, ring closures and
+ * dot-separated parts). Stereo marks are accepted and ignored.
+ */
+export function parseSmiles(smiles: string): MoleculeGraph {
+  const atoms: MoleculeAtom[] = [];
+  const bonds: MoleculeBond[] = [];
+  const branchStack: (number | null)[] = [];
+  const rings = new Map<string, { atom: number; order: BondOrder | null }>();
+  let previous: number | null = null;
+  let pendingOrder: BondOrder | null = null;
+  let rest = smiles.trim();
+
+  const addBond = (from: number, to: number, order: BondOrder | null) => {
+    const aromaticPair = atoms[from].aromatic && atoms[to].aromatic;
+    bonds.push({
+      id: `bond_${bonds.length + 1}`,
+      from: atoms[from].id,
+      to: atoms[to].id,
+      order: order ?? (aromaticPair ? 1.5 : 1)
+    });
+  };
+
+  while (rest.length) {
+    const match = rest.match(SMILES_TOKEN);
+    if (!match) {
+      throw new SmilesError(`Unexpected "${rest[0]}" in SMILES`);
+    }
+    const token = match[0];
+    rest = rest.slice(token.length);
+
+    if (token === '(') {
+      branchStack.push(previous);
+    } else if (token === ')') {
+      if (!branchStack.length) throw new SmilesError('Unmatched ")" in SMILES');
+      previous = branchStack.pop() ?? null;
+    } else if (token === '.') {
+      previous = null;
+    } else if (token === '-' || token === '/' || token === '\\') {
+      pendingOrder = 1;
+    } else if (token === '=') {
+      pendingOrder = 2;
+    } else if (token === '#') {
+      pendingOrder = 3;
+    } else if (token === ':') {
+      pendingOrder = 1.5;
+    } else if (token === '$') {
+      throw new SmilesError('Quadruple bonds are not supported');
+    } else if (/^(%\d{2}|\d)$/.test(token)) {
+      if (previous === null) throw new SmilesError('Ring number before any atom');
+      const open = rings.get(token);
+      if (open) {
+        addBond(open.atom, previous, pendingOrder ?? open.order);
+        rings.delete(token);
+      } else {
+        rings.set(token, { atom: previous, order: pendingOrder });
+      }
+      pendingOrder = null;
+    } else {
+      const parsed = token.startsWith('[')
+        ? parseBracketAtom(token)
+        : { element: token.length === 1 && token === token.toLowerCase() ? token.toUpperCase() : token, aromatic: token === token.toLowerCase() };
+      atoms.push({ id: `atom_${atoms.length + 1}`, x: 0, y: 0, ...parsed });
+      const current = atoms.length - 1;
+      if (previous !== null) {
+        addBond(previous, current, pendingOrder);
+      }
+      pendingOrder = null;
+      previous = current;
+    }
+  }
+
+  if (rings.size) {
+    throw new SmilesError('Ring bond is never closed');
+  }
+  if (branchStack.length) {
+    throw new SmilesError('Unmatched "(" in SMILES');
+  }
+  return layoutMolecule({ atoms, bonds });
+}
+
+/**
+ * Places atoms that have no drawing positions: each connected part is laid
+ * out breadth-first, one column per bond away from its first atom.
+ */
+export function layoutMolecule(graph: MoleculeGraph): MoleculeGraph {
+  const positions = new Map<string, { x: number; y: number }>();
+  const neighbours = (id: string) =>
+    graph.bonds.flatMap((bond) => (bond.from === id ? [bond.to] : bond.to === id ? [bond.from] : []));
+  let offsetY = 0;
+
+  graph.atoms.forEach((atom) => {
+    if (positions.has(atom.id)) return;
+    const columns: string[][] = [[atom.id]];
+    positions.set(atom.id, { x: 0, y: 0 });
+    for (let depth = 0; columns[depth]?.length; depth += 1) {
+      columns[depth].forEach((id) =>
+        neighbours(id).forEach((next) => {
+          if (!positions.has(next)) {
+            positions.set(next, { x: 0, y: 0 });
+            (columns[depth + 1] = columns[depth + 1] ?? []).push(next);
+          }
+        })
+      );
+    }
+    const tallest = Math.max(...columns.map((column) => column.length));
+    columns.forEach((column, depth) =>
+      column.forEach((id, row) => {
+        const zigzag = column.length === 1 && depth % 2 === 1 ? LAYOUT_BOND_LENGTH / 2 : 0;
+        positions.set(id, {
+          x: 40 + depth * LAYOUT_BOND_LENGTH,
+          y: 40 + offsetY + (row + (tallest - column.length) / 2) * LAYOUT_BOND_LENGTH + zigzag
+        });
+      })
+    );
+    offsetY += tallest * LAYOUT_BOND_LENGTH + LAYOUT_BOND_LENGTH;
+  });
+
+  return {
+    ...graph,
+    atoms: graph.atoms.map((atom) => ({ ...atom, ...positions.get(atom.id) }))
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Molfile (V2000)
+
+const MOLFILE_CHARGES: Record<number, number> = { 3: 1, 2: 2, 1: 3, 5: -1, 6: -2, 7: -3 };
+
+function molfileChargeCode(charge: number): number {
+  const entry = Object.entries(MOLFILE_CHARGES).find(([, value]) => value === charge);
+  return entry ? Number(entry[0]) : 0;
+}
+
+export function toMolfile(graph: MoleculeGraph, title = ''): string {
+  const indexOf = new Map(graph.atoms.map((atom, index) => [atom.id, index + 1]));
+  const pad = (value: number | string, width: number) => String(value).padStart(width, ' ');
+  const atomLines = graph.atoms.map(
+    (atom) =>
+      `${pad((atom.x / MOLFILE_SCALE).toFixed(4), 10)}${pad((-atom.y / MOLFILE_SCALE).toFixed(4), 10)}${pad('0.0000', 10)} ` +
+      `${atom.element.padEnd(3, ' ')} 0${pad(molfileChargeCode(atom.charge ?? 0), 3)}  0  0  0  0  0  0  0  0  0  0`
+  );
+  const bondLines = graph.bonds.map(
+    (bond) => `${pad(indexOf.get(bond.from) ?? 0, 3)}${pad(indexOf.get(bond.to) ?? 0, 3)}${pad(bond.order === 1.5 ? 4 : bond.order, 3)}  0  0  0  0`
+  );
+  return [
+    title,
+    '  EduPlatform',
+    '',
+    `${pad(graph.atoms.length, 3)}${pad(graph.bonds.length, 3)}  0  0  0  0  0  0  0  0999 V2000`,
+    ...atomLines,
+    ...bondLines,
+    'M  END'
+  ].join('\n');
+}
+
+export function parseMolfile(text: string): MoleculeGraph {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const counts = lines[3] ?? '';
+  if (!/V2000/.test(counts)) {
+    throw new SmilesError('Only V2000 molfiles are supported');
+  }
+  const atomCount = Number(counts.slice(0, 3));
+  const bondCount = Number(counts.slice(3, 6));
+  const atoms: MoleculeAtom[] = lines.slice(4, 4 + atomCount).map((line, index) => ({
+    id: `atom_${index + 1}`,
+    x: Number(line.slice(0, 10)) * MOLFILE_SCALE,
+    y: -Number(line.slice(10, 20)) * MOLFILE_SCALE,
+    element: line.slice(31, 34).trim(),
+    charge: MOLFILE_CHARGES[Number(line.slice(36, 39))] ?? 0
+  }));
+  const bonds: MoleculeBond[] = lines.slice(4 + atomCount, 4 + atomCount + bondCount).map((line, index) => {
+    const type = Number(line.slice(6, 9));
+    return {
+      id: `bond_${index + 1}`,
+      from: `atom_${Number(line.slice(0, 3))}`,
+      to: `atom_${Number(line.slice(3, 6))}`,
+      order: type === 4 ? 1.5 : ([1, 2, 3].includes(type) ? type : 1) as BondOrder
+    };
+  });
+  atoms.forEach((atom) => {
+    atom.aromatic = bonds.some((bond) => bond.order === 1.5 && (bond.from === atom.id || bond.to === atom.id));
+  });
+
+  // Shift into positive canvas space
+  const minX = Math.min(...atoms.map((atom) => atom.x), 0);
+  const minY = Math.min(...atoms.map((atom) => atom.y), 0);
+  return {
+    atoms: atoms.map((atom) => ({ ...atom, x: atom.x - minX + 40, y: atom.y - minY + 40 })),
+    bonds
+  };
+}
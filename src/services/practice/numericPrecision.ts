@@ -0,0 +1,223 @@
+/**
+ * Numeric answer comparison with mark-scheme precision rules.
+ *
+ * Handles significant figures ("3 s.f."), decimal places ("2 d.p."),
+ * accepted ranges ("3.4–3.6"), Edexcel "awrt" (answers which round to) and
+ * standard form ("3.4 × 10^3", "3.4e3") on either side.
+ */
+
+export type PrecisionRule =
+  | { kind: 'significant_figures'; value: number }
+  | { kind: 'decimal_places'; value: number };
+
+export interface ParsedNumber {
+  value: number;
+  significantFigures: { min: number; max: number };
+  decimalPlaces: number;
+  standardForm: boolean;
+}
+
+export interface NumericRange {
+  min: number;
+  max: number;
+}
+
+export type NumericEvaluationStatus = 'correct' | 'wrong_precision' | 'incorrect' | 'not_numeric';
+
+export interface NumericEvaluation {
+  status: NumericEvaluationStatus;
+  note?: string;
+}
+
+const DEFAULT_RELATIVE_TOLERANCE = 0.01;
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0',
+  '¹': '1',
+  '²': '2',
+  '³': '3',
+  '⁴': '4',
+  '⁵': '5',
+  '⁶': '6',
+  '⁷': '7',
+  '⁸': '8',
+  '⁹': '9',
+  '⁻': '-',
+  '⁺': '+'
+};
+
+const NUMBER = String.raw`[-+]?(?:\d+(?:\.\d*)?|\.\d+)`;
+const STANDARD_FORM = String.raw`(?:\s*(?:×|x|\*)\s*10\s*\^?\s*\(?([-+]?\d+)\)?|e([-+]?\d+))`;
+const UNIT = String.raw`[a-zμ°Ω%]+(?:\^?-?[123])?(?:\s*[/·\s]\s*[a-zμ°Ω%]+(?:\^?-?[123])?)*`;
+const LITERAL_PATTERN = new RegExp(String.raw`^(?:[a-z]\s*=\s*)?(${NUMBER})${STANDARD_FORM}?\s*(?:${UNIT})?$`, 'i');
+const RANGE_PATTERN = new RegExp(
+  String.raw`^(?:[a-z]\s*=\s*)?(${NUMBER})\s*(?:–|—|\s-\s|-|to|≤\s*[a-z]\s*≤|<=\s*[a-z]\s*<=)\s*(${NUMBER})\s*(?:${UNIT})?$`,
+  'i'
+);
+
+export function extractPrecisionRule(answers: string[]): PrecisionRule | null {
+  for (const answer of answers) {
+    const significant = answer.match(/(\d+)\s*(?:s\.?\s?f\.?|sig(?:nificant)?\.?\s*fig(?:ure)?s?)(?![a-z])/i);
+    if (significant) {
+      return { kind: 'significant_figures', value: Number(significant[1]) };
+    }
+    const decimal = answer.match(/(\d+)\s*(?:d\.?\s?p\.?|decimal\s+places?)(?![a-z])/i);
+    if (decimal) {
+      return { kind: 'decimal_places', value: Number(decimal[1]) };
+    }
+  }
+  return null;
+}
+
+export function describePrecisionRule(rule: PrecisionRule): string {
+  return rule.kind === 'significant_figures' ? `${rule.value} s.f.` : `${rule.value} d.p.`;
+}
+
+function normaliseLiteral(text: string): string {
+  return text
+    .split('')
+    .map((char) => SUPERSCRIPTS[char] ?? char)
+    .join('')
+    .replace(/−/g, '-')
+    .replace(/,(?=\d{3}\b)/g, '')
+    .trim();
+}
+
+export function parseNumberLiteral(text: string): ParsedNumber | null {
+  const match = normaliseLiteral(text).match(LITERAL_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const mantissa = match[1].replace(/^[-+]/, '');
+  const exponentText = match[2] ?? match[3];
+  const exponent = exponentText ? Number(exponentText) : 0;
+  const value = parseFloat(match[1]) * Math.pow(10, exponent);
+  if (!Number.isFinite(value)) {
+    return null;
+  }
+
+  const [integerPart, fractionPart = ''] = mantissa.split('.');
+  const hasPoint = mantissa.includes('.');
+  const digits = (integerPart + fractionPart).replace(/^0+/, '');
+
+  let significantFigures: ParsedNumber['significantFigures'];
+  if (digits.length === 0) {
+    significantFigures = { min: 1, max: Math.max(1, fractionPart.length) };
+  } else if (hasPoint || exponentText) {
+    significantFigures = { min: digits.length, max: digits.length };
+  } else {
+    // Trailing zeros of an integer ("1200") may or may not be significant
+    const trimmed = digits.replace(/0+$/, '');
+    significantFigures = { min: Math.max(1, trimmed.length), max: digits.length };
+  }
+
+  return {
+    value,
+    significantFigures,
+    decimalPlaces: Math.max(0, fractionPart.length - exponent),
+    standardForm: Boolean(exponentText)
+  };
+}
+
+export function parseNumericRange(text: string): NumericRange | null {
+  const match = normaliseLiteral(text).match(RANGE_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const min = parseFloat(match[1]);
+  const max = parseFloat(match[2]);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+    return null;
+  }
+  return { min, max };
+}
+
+export function roundToPrecision(value: number, rule: PrecisionRule): number {
+  if (value === 0) {
+    return 0;
+  }
+  if (rule.kind === 'decimal_places') {
+    const factor = Math.pow(10, rule.value);
+    return Math.round(value * factor) / factor;
+  }
+  return Number(value.toPrecision(Math.max(1, rule.value)));
+}
+
+function nearlyEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b), 1) * 1e-9;
+}
+
+function satisfiesPrecision(parsed: ParsedNumber, rule: PrecisionRule): boolean {
+  if (rule.kind === 'decimal_places') {
+    return parsed.decimalPlaces === rule.value;
+  }
+  return parsed.significantFigures.min <= rule.value && rule.value <= parsed.significantFigures.max;
+}
+
+function precisionOf(parsed: ParsedNumber): PrecisionRule {
+  return parsed.decimalPlaces > 0
+    ? { kind: 'decimal_places', value: parsed.decimalPlaces }
+    : { kind: 'significant_figures', value: parsed.significantFigures.max };
+}
+
+export function evaluateNumericResponse(
+  candidate: string,
+  response: string,
+  rule: PrecisionRule | null = null
+): NumericEvaluation {
+  const answer = parseNumberLiteral(response);
+  const range = parseNumericRange(candidate);
+
+  if (range) {
+    if (!answer) {
+      return { status: 'not_numeric' };
+    }
+    if (answer.value < range.min || answer.value > range.max) {
+      return { status: 'incorrect' };
+    }
+    if (rule && !satisfiesPrecision(answer, rule)) {
+      return { status: 'wrong_precision', note: `value in range but not given to ${describePrecisionRule(rule)}` };
+    }
+    return { status: 'correct', note: `accepted within range ${range.min}–${range.max}` };
+  }
+
+  const awrt = /^awrt\s+/i.test(candidate.trim());
+  const expected = parseNumberLiteral(candidate.trim().replace(/^awrt\s+/i, ''));
+  if (!expected || !answer) {
+    return { status: 'not_numeric' };
+  }
+
+  if (awrt) {
+    const implied = precisionOf(expected);
+    const matches = nearlyEqual(roundToPrecision(answer.value, implied), expected.value);
+    return matches
+      ? { status: 'correct', note: `accepted as awrt ${candidate.trim().replace(/^awrt\s+/i, '')}` }
+      : { status: 'incorrect' };
+  }
+
+  if (rule) {
+    const roundsToExpected = nearlyEqual(roundToPrecision(answer.value, rule), roundToPrecision(expected.value, rule));
+    // A less precise answer is still the right value if the expected value rounds to it
+    const truncationOfExpected = nearlyEqual(roundToPrecision(expected.value, precisionOf(answer)), answer.value);
+    if (!roundsToExpected && !truncationOfExpected) {
+      return { status: 'incorrect' };
+    }
+    if (!satisfiesPrecision(answer, rule)) {
+      return { status: 'wrong_precision', note: `correct value but not given to ${describePrecisionRule(rule)}` };
+    }
+    return {
+      status: 'correct',
+      note: answer.standardForm !== expected.standardForm ? 'accepted standard form equivalent' : `precision ${describePrecisionRule(rule)} satisfied`
+    };
+  }
+
+  const tolerance = Math.max(Math.abs(expected.value), 1) * DEFAULT_RELATIVE_TOLERANCE;
+  if (Math.abs(expected.value - answer.value) > tolerance) {
+    return { status: 'incorrect' };
+  }
+  return {
+    status: 'correct',
+    note: answer.standardForm !== expected.standardForm ? 'accepted standard form equivalent' : undefined
+  };
+}
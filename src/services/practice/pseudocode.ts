@@ -0,0 +1,660 @@
+/**
+ * Cambridge IGCSE 0478 pseudocode support: a transpiler to JavaScript so
+ * pseudocode answers can run in the code sandbox, and trace-table
+ * generation from an examiner's algorithm.
+ *
+ * Supported: DECLARE / CONSTANT, ← (or <-) assignment, 1D and 2D arrays,
+ * INPUT / OUTPUT, IF / ELSE / ENDIF, CASE OF / OTHERWISE / ENDCASE,
+ * FOR / TO / STEP / NEXT, WHILE / ENDWHILE, REPEAT / UNTIL, PROCEDURE,
+ * FUNCTION / RETURNS / RETURN, CALL, the DIV / MOD / AND / OR / NOT
+ * operators, & concatenation and the syllabus library routines. Parameters
+ * are passed by value.
+ */
+
+export class PseudocodeError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'PseudocodeError';
+  }
+}
+
+export interface PseudocodeHooks {
+  input: () => string | null;
+  output: (text: string) => void;
+  trace: (name: string, value: unknown) => void;
+}
+
+export const DEFAULT_MAX_STEPS = 100000;
+
+/**
+ * Runtime the transpiled program runs against. Kept as source text so the
+ * sandbox worker can evaluate it without sharing modules with the page.
+ */
+export const PSEUDOCODE_RUNTIME = `
+const __v = {};
+const __rt = (() => {
+  let steps = 0;
+  const format = (value) => value === true ? 'TRUE' : value === false ? 'FALSE' : value === undefined ? '' : String(value);
+  const coerce = (line, type) => {
+    if (type === 'STRING' || type === 'CHAR') return line;
+    if (type === 'BOOLEAN') return line.trim().toUpperCase() === 'TRUE';
+    const number = Number(line.trim());
+    if (type === 'INTEGER' || type === 'REAL') {
+      if (line.trim() === '' || !Number.isFinite(number)) throw new Error('INPUT expected a number but got "' + line + '"');
+      return type === 'INTEGER' ? Math.trunc(number) : number;
+    }
+    return line.trim() !== '' && Number.isFinite(number) ? number : line;
+  };
+  return {
+    tick() {
+      if (++steps > __limits.maxSteps) throw new Error('Too many steps: check for a loop that never ends');
+    },
+    set(name, value) {
+      __hooks.trace(name, value);
+      return value;
+    },
+    input(type) {
+      const line = __hooks.input();
+      if (line === null || line === undefined) throw new Error('INPUT has no more data');
+      return coerce(String(line), type);
+    },
+    output(values) {
+      const text = values.map(format).join('');
+      __hooks.output(text);
+      __hooks.trace('OUTPUT', text);
+    },
+    key(...indexes) {
+      return indexes.join(',');
+    },
+    concat: (a, b) => format(a) + format(b),
+    DIV: (a, b) => Math.trunc(a / b),
+    MOD: (a, b) => a % b,
+    LENGTH: (s) => String(s).length,
+    UCASE: (s) => String(s).toUpperCase(),
+    LCASE: (s) => String(s).toLowerCase(),
+    SUBSTRING: (s, start, length) => String(s).substr(start - 1, length),
+    ROUND: (x, places) => Number(Number(x).toFixed(places)),
+    RANDOM: () => Math.random(),
+    INT: (x) => Math.trunc(x),
+    NUM_TO_STR: (x) => String(x),
+    STR_TO_NUM: (s) => Number(s)
+  };
+})();
+`;
+
+const BUILTINS = new Set([
+  'DIV',
+  'MOD',
+  'LENGTH',
+  'UCASE',
+  'LCASE',
+  'SUBSTRING',
+  'ROUND',
+  'RANDOM',
+  'INT',
+  'NUM_TO_STR',
+  'STR_TO_NUM'
+]);
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator';
+
+interface Token {
+  type: TokenType;
+  value: string;
+}
+
+const OPERATOR_PATTERN = /^(←|<-|<=|>=|<>|[=<>+\-*/^&()[\],:])/;
+
+function tokenize(source: string, line: number): Token[] {
+  const tokens: Token[] = [];
+  let rest = source;
+  while (rest.length) {
+    const space = rest.match(/^\s+/);
+    if (space) {
+      rest = rest.slice(space[0].length);
+      continue;
+    }
+    if (rest.startsWith('//')) {
+      break;
+    }
+    const number = rest.match(/^\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0] });
+      rest = rest.slice(number[0].length);
+      continue;
+    }
+    const string = rest.match(/^"([^"]*)"|^'([^']*)'|^“([^”]*)”/);
+    if (string) {
+      tokens.push({ type: 'string', value: string[1] ?? string[2] ?? string[3] ?? '' });
+      rest = rest.slice(string[0].length);
+      continue;
+    }
+    const identifier = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0] });
+      rest = rest.slice(identifier[0].length);
+      continue;
+    }
+    const operator = rest.match(OPERATOR_PATTERN);
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator[0] === '<-' ? '←' : operator[0] });
+      rest = rest.slice(operator[0].length);
+      continue;
+    }
+    throw new PseudocodeError(`unexpected character "${rest[0]}"`, line);
+  }
+  return tokens;
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  OR: 1,
+  AND: 2,
+  '=': 4,
+  '<>': 4,
+  '<': 4,
+  '>': 4,
+  '<=': 4,
+  '>=': 4,
+  '&': 5,
+  '+': 6,
+  '-': 6,
+  '*': 7,
+  '/': 7,
+  DIV: 7,
+  MOD: 7,
+  '^': 9
+};
+
+interface Scope {
+  locals: Set<string>;
+  types: Map<string, string>;
+}
+
+class ExpressionParser {
+  position = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly scope: Scope,
+    private readonly line: number
+  ) {}
+
+  get done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  next(): Token {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw new PseudocodeError('expression ends unexpectedly', this.line);
+    }
+    this.position += 1;
+    return token;
+  }
+
+  expect(value: string): void {
+    const token = this.next();
+    if (token.value.toUpperCase() !== value) {
+      throw new PseudocodeError(`expected "${value}" but found "${token.value}"`, this.line);
+    }
+  }
+
+  private operatorOf(token: Token | undefined): string | null {
+    if (!token) {
+      return null;
+    }
+    const value = token.type === 'identifier' ? token.value.toUpperCase() : token.value;
+    return token.type !== 'string' && token.type !== 'number' && value in BINARY_PRECEDENCE ? value : null;
+  }
+
+  parse(minPrecedence = 0): string {
+    let left = this.parseUnary();
+    for (;;) {
+      const operator = this.operatorOf(this.peek());
+      if (!operator || BINARY_PRECEDENCE[operator] <= minPrecedence) {
+        return left;
+      }
+      this.next();
+      // ^ is right-associative
+      const right = this.parse(operator === '^' ? BINARY_PRECEDENCE[operator] - 1 : BINARY_PRECEDENCE[operator]);
+      left = this.combine(operator, left, right);
+    }
+  }
+
+  private combine(operator: string, left: string, right: string): string {
+    switch (operator) {
+      case 'OR':
+        return `(${left} || ${right})`;
+      case 'AND':
+        return `(${left} && ${right})`;
+      case '=':
+        return `(${left} === ${right})`;
+      case '<>':
+        return `(${left} !== ${right})`;
+      case '&':
+        return `__rt.concat(${left}, ${right})`;
+      case 'DIV':
+        return `__rt.DIV(${left}, ${right})`;
+      case 'MOD':
+        return `__rt.MOD(${left}, ${right})`;
+      case '^':
+        return `(${left} ** ${right})`;
+      default:
+        return `(${left} ${operator} ${right})`;
+    }
+  }
+
+  private parseUnary(): string {
+    const token = this.peek();
+    if (token?.type === 'identifier' && token.value.toUpperCase() === 'NOT') {
+      this.next();
+      return `!(${this.parse(3)})`;
+    }
+    if (token?.type === 'operator' && token.value === '-') {
+      this.next();
+      return `(-${this.parse(8)})`;
+    }
+    return this.parsePrimary();
+  }
+
+  /** Comma-separated expressions running to the end of the tokens */
+  parseList(): string[] {
+    const values = [this.parse()];
+    while (this.peek()?.value === ',') {
+      this.next();
+      values.push(this.parse());
+    }
+    if (!this.done) {
+      throw new PseudocodeError(`unexpected "${this.peek()?.value}"`, this.line);
+    }
+    return values;
+  }
+
+  parseArguments(close: string): string[] {
+    const args: string[] = [];
+    if (this.peek()?.value === close) {
+      this.next();
+      return args;
+    }
+    for (;;) {
+      args.push(this.parse());
+      const token = this.next();
+      if (token.value === close) {
+        return args;
+      }
+      if (token.value !== ',') {
+        throw new PseudocodeError(`expected "," or "${close}"`, this.line);
+      }
+    }
+  }
+
+  /** Reference to a variable or array element, with its trace name expression */
+  parseReference(): { target: string; traceName: string; name: string } {
+    const token = this.next();
+    if (token.type !== 'identifier') {
+      throw new PseudocodeError(`expected a variable name but found "${token.value}"`, this.line);
+    }
+    const base = resolveVariable(token.value, this.scope);
+    if (this.peek()?.value === '[') {
+      this.next();
+      const indexes = this.parseArguments(']');
+      const key = `__rt.key(${indexes.join(', ')})`;
+      return { target: `${base}[${key}]`, traceName: `${JSON.stringify(`${token.value}[`)} + ${key} + "]"`, name: token.value };
+    }
+    return { target: base, traceName: JSON.stringify(token.value), name: token.value };
+  }
+
+  private parsePrimary(): string {
+    const token = this.peek();
+    if (!token) {
+      throw new PseudocodeError('expression ends unexpectedly', this.line);
+    }
+    if (token.type === 'number') {
+      this.next();
+      return token.value;
+    }
+    if (token.type === 'string') {
+      this.next();
+      return JSON.stringify(token.value);
+    }
+    if (token.value === '(') {
+      this.next();
+      const inner = this.parse();
+      this.expect(')');
+      return `(${inner})`;
+    }
+    if (token.type !== 'identifier') {
+      throw new PseudocodeError(`unexpected "${token.value}"`, this.line);
+    }
+
+    const upper = token.value.toUpperCase();
+    if (upper === 'TRUE' || upper === 'FALSE') {
+      this.next();
+      return upper.toLowerCase();
+    }
+    if (this.tokens[this.position + 1]?.value === '(') {
+      this.next();
+      this.next();
+      const args = this.parseArguments(')');
+      return BUILTINS.has(upper) ? `__rt.${upper}(${args.join(', ')})` : `f_${token.value}(${args.join(', ')})`;
+    }
+    return this.parseReference().target;
+  }
+}
+
+function resolveVariable(name: string, scope: Scope): string {
+  return scope.locals.has(name) ? `p_${name}` : `__v[${JSON.stringify(name)}]`;
+}
+
+function defaultValue(type: string): string {
+  switch (type) {
+    case 'INTEGER':
+    case 'REAL':
+      return '0';
+    case 'BOOLEAN':
+      return 'false';
+    case 'STRING':
+    case 'CHAR':
+      return '""';
+    default:
+      return 'undefined';
+  }
+}
+
+type BlockKind = 'IF' | 'CASE' | 'FOR' | 'WHILE' | 'REPEAT' | 'PROCEDURE' | 'FUNCTION';
+
+const BLOCK_ENDINGS: Record<string, BlockKind> = {
+  ENDIF: 'IF',
+  ENDCASE: 'CASE',
+  NEXT: 'FOR',
+  ENDWHILE: 'WHILE',
+  UNTIL: 'REPEAT',
+  ENDPROCEDURE: 'PROCEDURE',
+  ENDFUNCTION: 'FUNCTION'
+};
+
+/**
+ * Translates a pseudocode program into JavaScript that runs against
+ * PSEUDOCODE_RUNTIME. Throws PseudocodeError with the offending line.
+ */
+export function transpilePseudocode(source: string): string {
+  const output: string[] = [];
+  const blocks: { kind: BlockKind; line: number }[] = [];
+  const globalScope: Scope = { locals: new Set(), types: new Map() };
+  let scope = globalScope;
+  let loopCounter = 0;
+
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const text = rawLine
+      .trim()
+      .replace(/^END\s+(IF|CASE|WHILE|PROCEDURE|FUNCTION)\b/i, 'END$1');
+    const tokens = tokenize(text, lineNumber);
+    if (!tokens.length) {
+      return;
+    }
+
+    const keyword = tokens[0].type === 'identifier' ? tokens[0].value.toUpperCase() : '';
+    const parser = new ExpressionParser(tokens, scope, lineNumber);
+    const expressionAfter = (count: number, stopAt?: string[]) => {
+      const end = stopAt
+        ? tokens.findIndex((token, position) => position >= count && stopAt.includes(token.value.toUpperCase()))
+        : -1;
+      const slice = tokens.slice(count, end === -1 ? tokens.length : end);
+      const sub = new ExpressionParser(slice, scope, lineNumber);
+      const expression = sub.parse();
+      if (!sub.done) {
+        throw new PseudocodeError(`unexpected "${sub.peek()?.value}"`, lineNumber);
+      }
+      return { expression, end: end === -1 ? tokens.length : end };
+    };
+    const closeBlock = (kind: BlockKind) => {
+      const open = blocks.pop();
+      if (!open || open.kind !== kind) {
+        throw new PseudocodeError(`${keyword} without a matching ${kind}`, lineNumber);
+      }
+    };
+
+    // Inside CASE OF, "value : statement" and "OTHERWISE : statement" start a branch
+    const caseBlock = blocks[blocks.length - 1]?.kind === 'CASE';
+    const colon = tokens.findIndex((token) => token.value === ':');
+    if (caseBlock && colon > 0 && keyword !== 'DECLARE' && keyword !== 'ENDCASE') {
+      if (keyword === 'OTHERWISE') {
+        output.push('} else {');
+      } else {
+        const toIndex = tokens.findIndex((token, position) => position < colon && token.value.toUpperCase() === 'TO');
+        if (toIndex > 0) {
+          const low = new ExpressionParser(tokens.slice(0, toIndex), scope, lineNumber).parse();
+          const high = new ExpressionParser(tokens.slice(toIndex + 1, colon), scope, lineNumber).parse();
+          output.push(`} else if (__case >= ${low} && __case <= ${high}) {`);
+        } else {
+          output.push(`} else if (__case === ${new ExpressionParser(tokens.slice(0, colon), scope, lineNumber).parse()}) {`);
+        }
+      }
+      const rest = rawLine.trim().slice(rawLine.trim().indexOf(':') + 1).trim();
+      if (rest) {
+        output.push(transpilePseudocode(rest));
+      }
+      return;
+    }
+
+    switch (keyword) {
+      case 'DECLARE': {
+        if (colon === -1) {
+          throw new PseudocodeError('DECLARE needs a type, e.g. DECLARE Count : INTEGER', lineNumber);
+        }
+        const names = tokens.slice(1, colon).filter((token) => token.type === 'identifier').map((token) => token.value);
+        const typeTokens = tokens.slice(colon + 1);
+        const isArray = typeTokens[0]?.value.toUpperCase() === 'ARRAY';
+        const type = (typeTokens[typeTokens.length - 1]?.value ?? '').toUpperCase();
+        names.forEach((name) => {
+          scope.types.set(name, isArray ? 'ARRAY' : type);
+          const initial = isArray ? '{}' : defaultValue(type);
+          if (scope !== globalScope) {
+            scope.locals.add(name);
+            output.push(`let p_${name} = ${initial};`);
+          } else {
+            output.push(`__v[${JSON.stringify(name)}] = ${initial};`);
+          }
+        });
+        return;
+      }
+      case 'CONSTANT': {
+        const name = tokens[1]?.value;
+        if (!name || (tokens[2]?.value !== '←' && tokens[2]?.value !== '=')) {
+          throw new PseudocodeError('CONSTANT needs a name and a value', lineNumber);
+        }
+        output.push(`${resolveVariable(name, scope)} = ${expressionAfter(3).expression};`);
+        return;
+      }
+      case 'INPUT': {
+        parser.next();
+        const reference = parser.parseReference();
+        const type = scope.types.get(reference.name) ?? '';
+        output.push(`${reference.target} = __rt.set(${reference.traceName}, __rt.input(${JSON.stringify(type)}));`);
+        return;
+      }
+      case 'OUTPUT':
+      case 'PRINT': {
+        parser.next();
+        output.push(`__rt.output([${parser.parseList().join(', ')}]);`);
+        return;
+      }
+      case 'IF': {
+        const { expression } = expressionAfter(1, ['THEN']);
+        blocks.push({ kind: 'IF', line: lineNumber });
+        output.push(`if (${expression}) {`);
+        return;
+      }
+      case 'THEN':
+        return;
+      case 'ELSE':
+        output.push('} else {');
+        return;
+      case 'CASE': {
+        if (tokens[1]?.value.toUpperCase() !== 'OF') {
+          throw new PseudocodeError('expected CASE OF', lineNumber);
+        }
+        blocks.push({ kind: 'CASE', line: lineNumber });
+        output.push(`{ const __case = ${expressionAfter(2).expression}; if (false) {`);
+        return;
+      }
+      case 'ENDCASE':
+        closeBlock('CASE');
+        output.push('} }');
+        return;
+      case 'FOR': {
+        parser.next();
+        const reference = parser.parseReference();
+        parser.expect('←');
+        const toIndex = tokens.findIndex((token) => token.value.toUpperCase() === 'TO');
+        const stepIndex = tokens.findIndex((token) => token.value.toUpperCase() === 'STEP');
+        if (toIndex === -1) {
+          throw new PseudocodeError('FOR needs TO', lineNumber);
+        }
+        const start = new ExpressionParser(tokens.slice(parser.position, toIndex), scope, lineNumber).parse();
+        const end = new ExpressionParser(tokens.slice(toIndex + 1, stepIndex === -1 ? tokens.length : stepIndex), scope, lineNumber).parse();
+        const step = stepIndex === -1 ? '1' : new ExpressionParser(tokens.slice(stepIndex + 1), scope, lineNumber).parse();
+        loopCounter += 1;
+        const limit = `__to${loopCounter}`;
+        const stride = `__step${loopCounter}`;
+        blocks.push({ kind: 'FOR', line: lineNumber });
+        // The counter is traced inside the body so the final step past the
+        // limit never appears in a trace table
+        output.push(
+          `{ const ${limit} = ${end}, ${stride} = ${step}; ` +
+            `for (${reference.target} = ${start}; ` +
+            `${stride} >= 0 ? ${reference.target} <= ${limit} : ${reference.target} >= ${limit}; ` +
+            `${reference.target} = ${reference.target} + ${stride}) { ` +
+            `__rt.set(${reference.traceName}, ${reference.target}); __rt.tick();`
+        );
+        return;
+      }
+      case 'NEXT':
+        closeBlock('FOR');
+        output.push('} }');
+        return;
+      case 'WHILE': {
+        const { expression } = expressionAfter(1, ['DO']);
+        blocks.push({ kind: 'WHILE', line: lineNumber });
+        output.push(`while (${expression}) { __rt.tick();`);
+        return;
+      }
+      case 'ENDWHILE':
+        closeBlock('WHILE');
+        output.push('}');
+        return;
+      case 'REPEAT':
+        blocks.push({ kind: 'REPEAT', line: lineNumber });
+        output.push('do { __rt.tick();');
+        return;
+      case 'UNTIL':
+        closeBlock('REPEAT');
+        output.push(`} while (!(${expressionAfter(1).expression}));`);
+        return;
+      case 'PROCEDURE':
+      case 'FUNCTION': {
+        if (scope !== globalScope) {
+          throw new PseudocodeError(`${keyword} cannot be nested`, lineNumber);
+        }
+        const name = tokens[1]?.value;
+        const open = tokens.findIndex((token) => token.value === '(');
+        const close = tokens.findIndex((token) => token.value === ')');
+        const params: string[] = [];
+        const types = new Map(globalScope.types);
+        if (open !== -1 && close > open) {
+          // "BYREF a : INTEGER, b : STRING" -> names before each colon
+          tokens.slice(open + 1, close).forEach((token, position, list) => {
+            if (list[position + 1]?.value === ':' && token.type === 'identifier') {
+              params.push(token.value);
+              types.set(token.value, (list[position + 2]?.value ?? '').toUpperCase());
+            }
+          });
+        }
+        scope = { locals: new Set(params), types };
+        blocks.push({ kind: keyword, line: lineNumber });
+        output.push(`function f_${name}(${params.map((param) => `p_${param}`).join(', ')}) {`);
+        return;
+      }
+      case 'ENDPROCEDURE':
+      case 'ENDFUNCTION':
+        closeBlock(BLOCK_ENDINGS[keyword]);
+        scope = globalScope;
+        output.push('}');
+        return;
+      case 'RETURN':
+        output.push(tokens.length > 1 ? `return ${expressionAfter(1).expression};` : 'return;');
+        return;
+      case 'CALL': {
+        const name = tokens[1]?.value;
+        const open = tokens.findIndex((token) => token.value === '(');
+        const args = open === -1 ? [] : new ExpressionParser(tokens.slice(open + 1), scope, lineNumber).parseArguments(')');
+        output.push(`f_${name}(${args.join(', ')});`);
+        return;
+      }
+      case 'ENDIF':
+        closeBlock('IF');
+        output.push('}');
+        return;
+      default: {
+        const reference = parser.parseReference();
+        if (parser.next().value !== '←') {
+          throw new PseudocodeError(`cannot understand "${text}"`, lineNumber);
+        }
+        const value = new ExpressionParser(tokens.slice(parser.position), scope, lineNumber).parse();
+        output.push(`${reference.target} = __rt.set(${reference.traceName}, ${value});`);
+      }
+    }
+  });
+
+  const unclosed = blocks.pop();
+  if (unclosed) {
+    throw new PseudocodeError(`${unclosed.kind} is never closed`, unclosed.line);
+  }
+  return output.join('\n');
+}
+
+/**
+ * Runs transpiled pseudocode in the current thread. Only used for trusted
+ * examiner algorithms; student programs go through the sandbox worker.
+ */
+export function runPseudocode(source: string, hooks: PseudocodeHooks, maxSteps = DEFAULT_MAX_STEPS): void {
+  const program = `${PSEUDOCODE_RUNTIME}\n${transpilePseudocode(source)}`;
+  new Function('__hooks', '__limits', program)(hooks, { maxSteps });
+}
+
+/**
+ * Expected trace table for an algorithm. Values are written left to right
+ * along a row; a value for the same or an earlier column starts a new row,
+ * which is how 0478 mark schemes lay trace tables out.
+ */
+export function generateTraceTable(algorithm: string, input: string[], columns: string[]): string[][] {
+  const queue = [...input];
+  const rows: string[][] = [];
+  let lastColumn = -1;
+  const columnIndex = new Map(columns.map((column, index) => [column.toUpperCase(), index]));
+  const format = (value: unknown) => (value === true ? 'TRUE' : value === false ? 'FALSE' : String(value ?? ''));
+
+  runPseudocode(algorithm, {
+    input: () => queue.shift() ?? null,
+    output: () => undefined,
+    trace: (name, value) => {
+      const col = columnIndex.get(name.toUpperCase());
+      if (col === undefined) {
+        return;
+      }
+      if (!rows.length || col <= lastColumn) {
+        rows.push(columns.map(() => ''));
+      }
+      rows[rows.length - 1][col] = format(value);
+      lastColumn = col;
+    }
+  });
+
+  return rows;
+}
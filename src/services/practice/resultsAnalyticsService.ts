@@ -1,5 +1,12 @@
 import { supabase } from '@/lib/supabase';
-import { PracticeSession, PracticeAnswer, PracticeSetItem } from '@/types/practice';
+import { PracticeSession, PracticeAnswer, PracticeSetItem, GradePrediction } from '@/types/practice';
+import { predictGradeForPaper } from '@/services/gradeBoundaryService';
+import {
+  buildLearningTrends,
+  type LearningTrends,
+  type SessionAnalyticsRow,
+  type SyllabusCatalogue
+} from './learningTrends';
 import dayjs from 'dayjs';
 
 export interface UnitPerformance {
@@ -152,6 +159,7 @@ export interface ComprehensiveAnalytics {
     accuracy: number;
     percentage: number;
     gradePrediction: string;
+    gradeDetails?: GradePrediction;
     totalTimeSeconds: number;
     averageTimePerQuestion: number;
     timeEfficiency: number;
@@ -209,6 +217,7 @@ export async function computeComprehensiveAnalytics(
         *,
         question:questions_master_admin(
           *,
+          paper:papers_setup(paper_code),
           unit:edu_units(id, name),
           topic:edu_topics(id, name),
           subtopic:edu_subtopics(id, name)
@@ -230,8 +239,7 @@ export async function computeComprehensiveAnalytics(
     const item = items.find((i) => i.id === answer.item_id);
     const question = item?.question;
 
-    // Calculate time spent (simplified - in real implementation, use session events)
-    const timeSpent = 90; // Default 90 seconds per question
+    const timeSpent = answer.active_time_sec ?? 0;
 
     return {
       ...answer,
@@ -257,12 +265,13 @@ export async function computeComprehensiveAnalytics(
   const accuracy = marksAvailable > 0 ? marksEarned / marksAvailable : 0;
   const percentage = Math.round(accuracy * 100);
 
-  const gradePrediction = calculateGradePrediction(percentage);
+  const gradeDetails = await predictGradeForPaper(resolveSessionPaperCode(items), marksEarned, marksAvailable);
+  const gradePrediction = gradeDetails.grade;
 
   const totalTimeSeconds = questionsWithMeta.reduce((sum, q) => sum + q.timeSpent, 0);
   const averageTimePerQuestion = totalQuestions > 0 ? totalTimeSeconds / totalQuestions : 0;
   const expectedTotalTime = totalQuestions * 90; // 90 seconds per question
-  const timeEfficiency = expectedTotalTime > 0 ? (expectedTotalTime / totalTimeSeconds) * 100 : 100;
+  const timeEfficiency = expectedTotalTime > 0 && totalTimeSeconds > 0 ? (expectedTotalTime / totalTimeSeconds) * 100 : 100;
 
   // Compute unit performance
   const unitPerformance = computeUnitPerformance(questionsWithMeta);
@@ -309,6 +318,7 @@ export async function computeComprehensiveAnalytics(
       accuracy,
       percentage,
       gradePrediction,
+      gradeDetails,
       totalTimeSeconds,
       averageTimePerQuestion,
       timeEfficiency
@@ -758,15 +768,26 @@ function buildQuestionReviews(questions: QuestionWithMetadata[]): QuestionDetail
   }));
 }
 
-function calculateGradePrediction(percentage: number): string {
-  if (percentage >= 90) return 'A*';
-  if (percentage >= 80) return 'A';
-  if (percentage >= 70) return 'B';
-  if (percentage >= 60) return 'C';
-  if (percentage >= 50) return 'D';
-  if (percentage >= 40) return 'E';
-  if (percentage >= 30) return 'F';
-  return 'G';
+/**
+ * The paper most of the session's questions came from, used to pick the
+ * grade boundary table.
+ */
+function resolveSessionPaperCode(items: PracticeSetItem[]): string | null {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const code = (item.question as { paper?: { paper_code?: string | null } | null } | undefined)?.paper?.paper_code;
+    if (code) {
+      counts.set(code, (counts.get(code) ?? 0) + 1);
+    }
+  });
+
+  let best: string | null = null;
+  counts.forEach((count, code) => {
+    if (!best || count > (counts.get(best) ?? 0)) {
+      best = code;
+    }
+  });
+  return best;
 }
 
 async function getPreviousAttemptComparison(
@@ -820,6 +841,9 @@ async function storeAnalytics(analytics: ComprehensiveAnalytics): Promise<void>
       overall_accuracy: analytics.summary.accuracy * 100,
       overall_percentage: analytics.summary.percentage,
       grade_prediction: analytics.summary.gradePrediction,
+      next_grade: analytics.summary.gradeDetails?.nextGrade ?? null,
+      marks_to_next_grade: analytics.summary.gradeDetails?.marksToNextGrade ?? null,
+      grade_boundary_table_id: analytics.summary.gradeDetails?.tableId ?? null,
       total_time_seconds: analytics.summary.totalTimeSeconds,
       average_time_per_question: analytics.summary.averageTimePerQuestion,
       time_efficiency_score: analytics.summary.timeEfficiency,
@@ -868,6 +892,18 @@ export async function getStoredAnalytics(sessionId: string): Promise<Comprehensi
       accuracy: (data.overall_accuracy ?? 0) / 100,
       percentage: data.overall_percentage ?? 0,
       gradePrediction: data.grade_prediction ?? 'N/A',
+      gradeDetails: data.grade_prediction
+        ? {
+            grade: data.grade_prediction,
+            nextGrade: data.next_grade ?? null,
+            marksToNextGrade:
+              data.marks_to_next_grade !== null && data.marks_to_next_grade !== undefined
+                ? Number(data.marks_to_next_grade)
+                : null,
+            tableId: data.grade_boundary_table_id ?? null,
+            tableLabel: null
+          }
+        : undefined,
       totalTimeSeconds: data.total_time_seconds ?? 0,
       averageTimePerQuestion: data.average_time_per_question ?? 0,
       timeEfficiency: data.time_efficiency_score ?? 100
@@ -885,3 +921,113 @@ export async function getStoredAnalytics(sessionId: string): Promise<Comprehensi
     computedAt: data.computed_at
   };
 }
+
+export interface StudentLearningTrends {
+  subjects: { id: string; name: string }[];
+  subjectId: string | null;
+  trends: LearningTrends;
+}
+
+/**
+ * Aggregate a student's stored per-session analytics over time for one
+ * subject. Defaults to the subject the student has practised most.
+ */
+export async function fetchStudentLearningTrends(
+  studentId: string,
+  subjectId?: string | null
+): Promise<StudentLearningTrends> {
+  const { data, error } = await supabase
+    .from('practice_results_analytics')
+    .select(`
+      *,
+      session:practice_sessions(id, created_at, ended_at, practice_set:practice_sets(subject_id))
+    `)
+    .eq('student_id', studentId)
+    .order('computed_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Unable to load learning analytics: ${error.message}`);
+  }
+
+  const rows: SessionAnalyticsRow[] = (data ?? []).map((row) => {
+    const session = row.session as unknown as {
+      created_at: string;
+      ended_at: string | null;
+      practice_set: { subject_id: string | null } | null;
+    } | null;
+
+    return {
+      sessionId: row.session_id,
+      subjectId: session?.practice_set?.subject_id ?? null,
+      completedAt: session?.ended_at ?? session?.created_at ?? row.computed_at,
+      percentage: Number(row.overall_percentage ?? 0),
+      gradePrediction: row.grade_prediction ?? null,
+      totalTimeSeconds: row.total_time_seconds ?? 0,
+      averageTimePerQuestion: Number(row.average_time_per_question ?? 0),
+      questionsAnswered: row.questions_answered ?? 0,
+      unitPerformance: row.unit_performance ?? [],
+      topicPerformance: row.topic_performance ?? [],
+      subtopicPerformance: row.subtopic_performance ?? [],
+      difficultyBreakdown: row.difficulty_breakdown ?? {}
+    };
+  });
+
+  const sessionsPerSubject = new Map<string, number>();
+  rows.forEach((row) => {
+    if (row.subjectId) {
+      sessionsPerSubject.set(row.subjectId, (sessionsPerSubject.get(row.subjectId) ?? 0) + 1);
+    }
+  });
+
+  const subjectIds = Array.from(sessionsPerSubject.keys());
+  const { data: subjectRows } = subjectIds.length
+    ? await supabase.from('edu_subjects').select('id, name').in('id', subjectIds).order('name')
+    : { data: [] as { id: string; name: string }[] };
+
+  const selectedSubjectId =
+    subjectId ??
+    Array.from(sessionsPerSubject.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ??
+    null;
+
+  const catalogue = selectedSubjectId
+    ? await loadSyllabusCatalogue(selectedSubjectId)
+    : { units: [], topics: [], subtopics: [] };
+
+  return {
+    subjects: subjectRows ?? [],
+    subjectId: selectedSubjectId,
+    trends: buildLearningTrends(
+      selectedSubjectId ? rows.filter((row) => row.subjectId === selectedSubjectId) : rows,
+      catalogue
+    )
+  };
+}
+
+async function loadSyllabusCatalogue(subjectId: string): Promise<SyllabusCatalogue> {
+  const { data: units, error: unitsError } = await supabase
+    .from('edu_units')
+    .select('id, name')
+    .eq('subject_id', subjectId)
+    .eq('status', 'active')
+    .order('name');
+
+  if (unitsError) {
+    throw new Error(`Unable to load syllabus: ${unitsError.message}`);
+  }
+
+  const unitIds = (units ?? []).map((unit) => unit.id);
+  const { data: topics } = unitIds.length
+    ? await supabase.from('edu_topics').select('id, name, unit_id').in('unit_id', unitIds).eq('status', 'active').order('name')
+    : { data: [] as SyllabusCatalogue['topics'] };
+
+  const topicIds = (topics ?? []).map((topic) => topic.id);
+  const { data: subtopics } = topicIds.length
+    ? await supabase.from('edu_subtopics').select('id, name, topic_id').in('topic_id', topicIds).eq('status', 'active').order('name')
+    : { data: [] as SyllabusCatalogue['subtopics'] };
+
+  return {
+    units: units ?? [],
+    topics: topics ?? [],
+    subtopics: subtopics ?? []
+  };
+}
@@ -0,0 +1,85 @@
+import dayjs from 'dayjs';
+import { AutoMarkResult, ReviewQueueEntry } from '@/types/practice';
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const PASSING_QUALITY = 3;
+
+export type ReviewSchedule = Pick<
+  ReviewQueueEntry,
+  'ease_factor' | 'interval_days' | 'repetitions' | 'lapses' | 'due_date' | 'last_quality' | 'last_reviewed_at'
+>;
+
+/**
+ * Maps the proportion of marks earned onto the SM-2 0-5 quality scale.
+ */
+export function scoreToQuality(result: Pick<AutoMarkResult, 'totalAwarded' | 'totalAvailable'>): number {
+  const ratio = result.totalAvailable > 0 ? result.totalAwarded / result.totalAvailable : 0;
+  if (ratio >= 0.99) {
+    return 5;
+  }
+  if (ratio >= 0.75) {
+    return 4;
+  }
+  if (ratio >= 0.5) {
+    return 3;
+  }
+  if (ratio >= 0.25) {
+    return 2;
+  }
+  return ratio > 0 ? 1 : 0;
+}
+
+export function shouldEnqueueForReview(result: Pick<AutoMarkResult, 'totalAwarded' | 'totalAvailable'>): boolean {
+  return scoreToQuality(result) < 5;
+}
+
+/**
+ * SM-2: failed recalls reset the repetition count and come back tomorrow;
+ * successful ones grow the interval by the ease factor, which itself drifts
+ * with answer quality.
+ */
+export function scheduleReview(
+  previous: Pick<ReviewQueueEntry, 'ease_factor' | 'interval_days' | 'repetitions' | 'lapses'> | null,
+  quality: number,
+  reviewedAt: string = dayjs().toISOString()
+): ReviewSchedule {
+  const easeFactor = previous?.ease_factor ?? DEFAULT_EASE_FACTOR;
+  const repetitions = previous?.repetitions ?? 0;
+  const intervalDays = previous?.interval_days ?? 1;
+  const lapses = previous?.lapses ?? 0;
+
+  const nextEase = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let nextRepetitions: number;
+  let nextInterval: number;
+  let nextLapses = lapses;
+
+  if (quality < PASSING_QUALITY) {
+    nextRepetitions = 0;
+    nextInterval = 1;
+    nextLapses = previous ? lapses + 1 : lapses;
+  } else {
+    nextRepetitions = repetitions + 1;
+    if (nextRepetitions === 1) {
+      nextInterval = 1;
+    } else if (nextRepetitions === 2) {
+      nextInterval = 6;
+    } else {
+      nextInterval = Math.round(intervalDays * nextEase);
+    }
+  }
+
+  return {
+    ease_factor: Number(nextEase.toFixed(2)),
+    interval_days: Math.max(1, nextInterval),
+    repetitions: nextRepetitions,
+    lapses: nextLapses,
+    due_date: dayjs(reviewedAt).add(Math.max(1, nextInterval), 'day').format('YYYY-MM-DD'),
+    last_quality: quality,
+    last_reviewed_at: reviewedAt
+  };
+}
@@ -0,0 +1,189 @@
+import dayjs from 'dayjs';
+import {
+  AutoMarkPointAward,
+  AutoMarkPointDenied,
+  ManualMarkResult,
+  SpeakingCriterionScore,
+  SpeakingRubricBand,
+  SpeakingRubricCriterion
+} from '@/types/practice';
+
+interface RubricMarkingContext {
+  comment: string;
+  reviewerId: string;
+  reviewedAt?: string;
+}
+
+export interface RubricScoreSummary {
+  rawTotal: number;
+  rawMax: number;
+  /** Rubric total scaled to the question's marks, in whole marks */
+  marks: number;
+}
+
+function bands(descriptors: string[], bandWidth: number): SpeakingRubricBand[] {
+  return [
+    { minMarks: 0, maxMarks: 0, descriptor: 'No rewardable response' },
+    ...descriptors.map((descriptor, index) => ({
+      minMarks: index * bandWidth + 1,
+      maxMarks: (index + 1) * bandWidth,
+      descriptor
+    }))
+  ];
+}
+
+/**
+ * Used when a question has no rubric of its own. Band descriptors follow the
+ * wording of the IGCSE/GCSE oral assessment grids.
+ */
+export const DEFAULT_SPEAKING_CRITERIA: SpeakingRubricCriterion[] = [
+  {
+    key: 'pronunciation',
+    label: 'Pronunciation and intonation',
+    maxMarks: 10,
+    bands: bands(
+      [
+        'Frequent errors impede comprehension',
+        'Generally intelligible with some errors that occasionally hinder meaning',
+        'Mostly accurate; errors rarely affect meaning',
+        'Consistently accurate with natural intonation',
+        'Near-native accuracy and intonation throughout'
+      ],
+      2
+    )
+  },
+  {
+    key: 'fluency',
+    label: 'Fluency and interaction',
+    maxMarks: 10,
+    bands: bands(
+      [
+        'Hesitant; relies heavily on prompting',
+        'Some sustained speech with frequent pauses',
+        'Generally fluent; responds readily to questions',
+        'Fluent and spontaneous; develops conversation',
+        'Sustained, natural and confident interaction'
+      ],
+      2
+    )
+  },
+  {
+    key: 'content',
+    label: 'Content and range of language',
+    maxMarks: 10,
+    bands: bands(
+      [
+        'Minimal, mostly irrelevant content',
+        'Basic relevant content with simple language',
+        'Relevant content with some development and variety',
+        'Well-developed ideas using a good range of structures',
+        'Detailed, justified opinions with a wide range of language'
+      ],
+      2
+    )
+  }
+];
+
+export function rubricMaxMarks(criteria: SpeakingRubricCriterion[]): number {
+  return criteria.reduce((sum, criterion) => sum + criterion.maxMarks, 0);
+}
+
+export function bandForMarks(criterion: SpeakingRubricCriterion, marks: number): SpeakingRubricBand | null {
+  return criterion.bands.find((band) => marks >= band.minMarks && marks <= band.maxMarks) ?? null;
+}
+
+/** Problems that stop a rubric being saved; empty when it is usable */
+export function validateRubricCriteria(criteria: SpeakingRubricCriterion[]): string[] {
+  const errors: string[] = [];
+  if (!criteria.length) {
+    errors.push('A rubric needs at least one criterion');
+  }
+  const keys = new Set<string>();
+  criteria.forEach((criterion) => {
+    const name = criterion.label || criterion.key;
+    if (!criterion.key.trim()) {
+      errors.push('Every criterion needs a key');
+    } else if (keys.has(criterion.key)) {
+      errors.push(`Duplicate criterion key "${criterion.key}"`);
+    }
+    keys.add(criterion.key);
+    if (!(criterion.maxMarks > 0)) {
+      errors.push(`${name}: maximum marks must be above zero`);
+    }
+    const sorted = [...criterion.bands].sort((a, b) => a.minMarks - b.minMarks);
+    sorted.forEach((band, index) => {
+      if (band.minMarks > band.maxMarks) {
+        errors.push(`${name}: band ${band.minMarks}-${band.maxMarks} is reversed`);
+      }
+      const next = sorted[index + 1];
+      if (next && next.minMarks !== band.maxMarks + 1) {
+        errors.push(`${name}: bands must cover every mark without gaps or overlaps`);
+      }
+    });
+    if (sorted.length && sorted[sorted.length - 1].maxMarks !== criterion.maxMarks) {
+      errors.push(`${name}: the top band must end at ${criterion.maxMarks}`);
+    }
+  });
+  return errors;
+}
+
+function clampScore(criterion: SpeakingRubricCriterion, scores: SpeakingCriterionScore[]): number {
+  const marks = scores.find((score) => score.criterion === criterion.key)?.marks ?? 0;
+  return Math.min(criterion.maxMarks, Math.max(0, Math.round(marks)));
+}
+
+/**
+ * Totals the criterion scores and scales them to the question's marks, so a
+ * 30-mark rubric can mark a 20-mark oral question.
+ */
+export function scoreRubric(
+  criteria: SpeakingRubricCriterion[],
+  scores: SpeakingCriterionScore[],
+  questionMaxMarks: number
+): RubricScoreSummary {
+  const rawMax = rubricMaxMarks(criteria);
+  const rawTotal = criteria.reduce((sum, criterion) => sum + clampScore(criterion, scores), 0);
+  const marks = rawMax > 0 && questionMaxMarks > 0 ? Math.round((rawTotal / rawMax) * questionMaxMarks) : rawTotal;
+  return { rawTotal, rawMax, marks };
+}
+
+/**
+ * Expresses rubric marking as a ManualMarkResult with one `rubric_<key>`
+ * point per criterion, so it is stored and reported like any teacher mark.
+ */
+export function buildRubricMarking(
+  criteria: SpeakingRubricCriterion[],
+  scores: SpeakingCriterionScore[],
+  questionMaxMarks: number,
+  context: RubricMarkingContext
+): ManualMarkResult {
+  const summary = scoreRubric(criteria, scores, questionMaxMarks);
+  const scale = summary.rawMax > 0 && questionMaxMarks > 0 ? questionMaxMarks / summary.rawMax : 1;
+  const awarded: AutoMarkPointAward[] = [];
+  const denied: AutoMarkPointDenied[] = [];
+
+  criteria.forEach((criterion) => {
+    const marks = clampScore(criterion, scores);
+    const band = bandForMarks(criterion, marks);
+    const detail = `${criterion.label}: ${marks}/${criterion.maxMarks}${band ? ` (${band.descriptor})` : ''}`;
+    if (marks > 0) {
+      awarded.push({ pointId: `rubric_${criterion.key}`, marks: Math.round(marks * scale * 100) / 100, notes: detail });
+    } else {
+      denied.push({ pointId: `rubric_${criterion.key}`, reason: detail });
+    }
+  });
+
+  const comment = context.comment.trim();
+  return {
+    awarded,
+    denied,
+    ecf: false,
+    notes: [`speaking rubric ${summary.rawTotal}/${summary.rawMax}`, ...(comment ? [`teacher comment: ${comment}`] : [])],
+    totalAwarded: summary.marks,
+    totalAvailable: questionMaxMarks > 0 ? questionMaxMarks : summary.rawMax,
+    comment,
+    overrides: [],
+    overriddenBy: context.reviewerId,
+    overriddenAt: context.reviewedAt ?? dayjs().toISOString()
+  };
+}
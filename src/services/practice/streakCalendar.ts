@@ -0,0 +1,120 @@
+import dayjs from 'dayjs';
+import { StreakCalendarDay, StudentActivityDay } from '@/types/practice';
+
+export const DEFAULT_STREAK_TIMEZONE = 'UTC';
+// Enforced by purchase_streak_freeze() in the database; keep in sync
+export const STREAK_FREEZE_COST_XP = 200;
+export const MAX_STREAK_FREEZES = 2;
+
+export interface StreakState {
+  currentStreak: number;
+  longestStreak: number;
+  lastStreakDay: string | null;
+  freezesAvailable: number;
+}
+
+export interface StreakUpdate extends StreakState {
+  streakDelta: number;
+  /** Missed days bridged by spending freeze tokens */
+  frozenDays: string[];
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given IANA timezone. Falls
+ * back to UTC when the timezone is unknown to the runtime.
+ */
+export function resolveCalendarDay(at: string | Date, timeZone: string | null | undefined): string {
+  const instant = typeof at === 'string' ? new Date(at) : at;
+  try {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: timeZone || DEFAULT_STREAK_TIMEZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).format(instant);
+  } catch {
+    return instant.toISOString().slice(0, 10);
+  }
+}
+
+export function addCalendarDays(day: string, amount: number): string {
+  return dayjs(day).add(amount, 'day').format('YYYY-MM-DD');
+}
+
+function daysBetween(from: string, to: string): number {
+  return dayjs(to).diff(dayjs(from), 'day');
+}
+
+/**
+ * Applies a qualifying activity on `today` (a calendar day in the school's
+ * timezone). Any activity keeps the streak alive; the first activity of a
+ * day extends it. Missed days are bridged with freeze tokens when the
+ * student holds enough of them, otherwise the streak restarts at 1.
+ */
+export function applyStreakActivity(state: StreakState, today: string): StreakUpdate {
+  const unchanged: StreakUpdate = { ...state, streakDelta: 0, frozenDays: [] };
+
+  if (!state.lastStreakDay) {
+    return {
+      ...state,
+      currentStreak: 1,
+      longestStreak: Math.max(state.longestStreak, 1),
+      lastStreakDay: today,
+      streakDelta: 1,
+      frozenDays: []
+    };
+  }
+
+  const gap = daysBetween(state.lastStreakDay, today);
+  if (gap <= 0) {
+    return unchanged;
+  }
+
+  const missedDays = gap - 1;
+  const canBridge = missedDays === 0 || missedDays <= state.freezesAvailable;
+  const frozenDays = canBridge
+    ? Array.from({ length: missedDays }, (_, index) => addCalendarDays(state.lastStreakDay as string, index + 1))
+    : [];
+  const currentStreak = canBridge ? state.currentStreak + 1 : 1;
+
+  return {
+    currentStreak,
+    longestStreak: Math.max(state.longestStreak, currentStreak),
+    lastStreakDay: today,
+    freezesAvailable: state.freezesAvailable - frozenDays.length,
+    streakDelta: currentStreak - state.currentStreak,
+    frozenDays
+  };
+}
+
+/**
+ * The streak as it stands on `today` without new activity: still alive if
+ * yesterday (or today) was active, or the gap can still be bridged by the
+ * freezes held.
+ */
+export function resolveDisplayedStreak(state: StreakState, today: string): number {
+  if (!state.lastStreakDay) {
+    return 0;
+  }
+  const missedDays = daysBetween(state.lastStreakDay, today) - 1;
+  return missedDays <= state.freezesAvailable ? state.currentStreak : 0;
+}
+
+export function buildStreakCalendar(activity: StudentActivityDay[], from: string, to: string): StreakCalendarDay[] {
+  const byDate = new Map(activity.map((day) => [day.activity_date, day]));
+  const length = Math.max(0, daysBetween(from, to) + 1);
+
+  return Array.from({ length }, (_, index) => {
+    const date = addCalendarDays(from, index);
+    const entry = byDate.get(date);
+    if (!entry) {
+      return { date, status: 'missed', sessionsCompleted: 0, xpEarned: 0 };
+    }
+    return {
+      date,
+      status: entry.freeze_used && entry.sessions_completed === 0 ? 'frozen' : 'active',
+      sessionsCompleted: entry.sessions_completed,
+      xpEarned: entry.xp_earned
+    };
+  });
+}
@@ -1,13 +1,32 @@
 import dayjs from 'dayjs';
 import { supabase } from '@/lib/supabase';
-import { PracticeSet, PracticeSetItem, PracticeAnswer, PracticeSessionCreationResponse, PracticeAnswerRequest, PracticeAnswerResponse, PracticeReportOverview, PracticeAnswerReview, TaxonomyBreakdown, RecommendationItem, SessionSummary } from '@/types/practice';
-import { QuestionMasterAdmin } from '@/types/questions';
-import { autoMarkQuestion, detectBoard, detectSubjectArea, RawCorrectAnswerRow, RawAnswerComponentRow, RawQuestionOptionRow, calculateSpeedBonus } from './practice/autoMarkingEngine';
-import { applyGamificationRewards } from './gamificationService';
+import { PracticeSet, PracticeSetItem, PracticeAnswer, PracticeSession, PracticeSessionCreationResponse, PracticeAnswerRequest, PracticeAnswerResponse, PracticeReportOverview, PracticeAnswerReview, TaxonomyBreakdown, RecommendationItem, SessionSummary, AdaptiveSessionRequest, AdaptiveSessionState } from '@/types/practice';
+import { DifficultyLevel, QuestionMasterAdmin } from '@/types/questions';
+import { autoMarkCodeQuestion, autoMarkQuestion, detectBoard, detectSubjectArea, RawCorrectAnswerRow, RawAnswerComponentRow, RawQuestionOptionRow, calculateSpeedBonus } from './practice/autoMarkingEngine';
+import { applyGamificationRewards, awardSessionAchievements } from './gamificationService';
 import { updateLeaderboards } from './leaderboardService';
-import { AnswerSubmissionPayload, AutoMarkResult } from '@/types/practice';
+import { fetchDueReviews, getDueReviewCount, recordReviewOutcome } from './reviewQueueService';
+import { AnswerSubmissionPayload, AutoMarkResult, PracticeAnswerFlag } from '@/types/practice';
 import { v4 as uuidv4 } from 'uuid';
 import { computeComprehensiveAnalytics } from './practice/resultsAnalyticsService';
+import { resolveEffectiveMarking } from './practice/markingOverride';
+import { accumulateActiveTime, hasViewEvents, ItemTimingEventType, ITEM_TIMING_EVENTS } from './practice/itemTiming';
+import {
+  applyAdaptiveOutcome,
+  calculateMastery,
+  createAdaptiveState,
+  difficultyFallbackOrder,
+  isAdaptiveSessionComplete,
+  MasteryAggregate
+} from './practice/adaptivePracticeEngine';
+import { enqueuePracticeSpeakingAnswer } from './speakingAssessmentService';
+
+const ADAPTIVE_CANDIDATE_POOL_SIZE = 25;
+
+type SubmissionSessionRow = Pick<
+  PracticeSession,
+  'id' | 'student_id' | 'mode' | 'adaptive_state' | 'practice_set_id' | 'total_marks_available' | 'difficulty_mix'
+>;
 
 interface QuestionWithMarkScheme extends QuestionMasterAdmin {
   paper_code?: string | null;
@@ -17,7 +36,7 @@ interface QuestionWithMarkScheme extends QuestionMasterAdmin {
   options: RawQuestionOptionRow[];
 }
 
-async function getCurrentStudentId(): Promise<string> {
+async function getCurrentStudentContext(): Promise<{ userId: string; studentId: string }> {
   const { data: { user }, error } = await supabase.auth.getUser();
   if (error || !user) {
     throw new Error('Unable to resolve authenticated user for practice session');
@@ -33,7 +52,12 @@ async function getCurrentStudentId(): Promise<string> {
     throw new Error('Student profile not found for current user');
   }
 
-  return student.id;
+  return { userId: user.id, studentId: student.id };
+}
+
+export async function getCurrentStudentId(): Promise<string> {
+  const { studentId } = await getCurrentStudentContext();
+  return studentId;
 }
 
 async function fetchPracticeSet(practiceSetId: string): Promise<PracticeSet> {
@@ -140,6 +164,306 @@ export async function createSession(practiceSetId: string): Promise<PracticeSess
   };
 }
 
+export async function createAdaptiveSession(request: AdaptiveSessionRequest): Promise<PracticeSessionCreationResponse> {
+  const { userId, studentId } = await getCurrentStudentContext();
+  const mastery = await loadMastery(studentId, request);
+  const initialState = createAdaptiveState(request, mastery);
+
+  const { data: practiceSet, error: setError } = await supabase
+    .from('practice_sets')
+    .insert({
+      title: 'Adaptive drill',
+      description: 'Questions selected from your recent performance on this topic.',
+      subject_id: request.subjectId,
+      topic_id: request.topicId,
+      subtopic_id: request.subtopicId,
+      source: 'adaptive',
+      created_by: userId
+    })
+    .select('*')
+    .maybeSingle();
+
+  if (setError || !practiceSet) {
+    throw new Error(`Failed to create adaptive practice set: ${setError?.message ?? 'Unknown error'}`);
+  }
+
+  const firstItem = await appendAdaptiveItem(practiceSet.id, initialState);
+  if (!firstItem) {
+    throw new Error('No active questions with correct answers are available for this topic yet.');
+  }
+
+  const state: AdaptiveSessionState = {
+    ...initialState,
+    servedQuestionIds: [firstItem.question_id]
+  };
+  const difficulty = firstItem.question?.difficulty ?? 'Unknown';
+
+  const { data, error } = await supabase
+    .from('practice_sessions')
+    .insert({
+      student_id: studentId,
+      practice_set_id: practiceSet.id,
+      total_marks_available: firstItem.question?.marks ?? 0,
+      difficulty_mix: { [difficulty]: 1 },
+      mode: 'adaptive',
+      adaptive_state: state
+    })
+    .select('*')
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error(`Failed to create practice session: ${error?.message ?? 'Unknown error'}`);
+  }
+
+  return {
+    sessionId: data.id,
+    itemsSnapshot: [firstItem],
+    adaptiveState: state
+  };
+}
+
+async function loadMastery(studentId: string, request: AdaptiveSessionRequest): Promise<number | null> {
+  if (request.subtopicId) {
+    const { data } = await supabase
+      .from('practice_answers')
+      .select('marks_earned, auto_mark_json, question:questions_master_admin!inner(subtopic_id, marks), session:practice_sessions!inner(student_id)')
+      .eq('session.student_id', studentId)
+      .eq('question.subtopic_id', request.subtopicId);
+
+    const mastery = calculateMastery(
+      (data ?? []).map((row) => {
+        const typedRow = row as unknown as Pick<PracticeAnswer, 'marks_earned' | 'auto_mark_json'> & { question?: { marks?: number | null } | null };
+        return {
+          marksEarned: typedRow.marks_earned ?? 0,
+          marksAvailable: typedRow.auto_mark_json?.totalAvailable ?? typedRow.question?.marks ?? 0
+        };
+      })
+    );
+    if (mastery !== null) {
+      return mastery;
+    }
+  }
+
+  // Fall back to the monthly subject/topic aggregates when there is no subtopic history yet
+  let cacheQuery = supabase
+    .from('reports_cache_student')
+    .select('aggregates_json')
+    .eq('student_id', studentId);
+
+  cacheQuery = request.subjectId ? cacheQuery.eq('subject_id', request.subjectId) : cacheQuery.is('subject_id', null);
+  if (request.topicId) {
+    cacheQuery = cacheQuery.eq('topic_id', request.topicId);
+  }
+
+  const { data: cacheRows } = await cacheQuery;
+
+  return calculateMastery(
+    (cacheRows ?? []).map((row) => (row.aggregates_json ?? {}) as MasteryAggregate)
+  );
+}
+
+async function selectAdaptiveQuestion(state: AdaptiveSessionState): Promise<QuestionMasterAdmin | null> {
+  for (const difficulty of difficultyFallbackOrder(state.currentDifficulty)) {
+    const candidates = await fetchAdaptiveCandidates(state, difficulty);
+    if (candidates.length > 0) {
+      return candidates[Math.floor(Math.random() * candidates.length)];
+    }
+  }
+  return null;
+}
+
+async function fetchAdaptiveCandidates(state: AdaptiveSessionState, difficulty: DifficultyLevel): Promise<QuestionMasterAdmin[]> {
+  let query = supabase
+    .from('questions_master_admin')
+    .select('*, paper:papers_setup(paper_code), subject:edu_subjects(name)')
+    .eq('status', 'active')
+    .eq('difficulty', difficulty)
+    .limit(ADAPTIVE_CANDIDATE_POOL_SIZE);
+
+  if (state.subtopicId) {
+    query = query.eq('subtopic_id', state.subtopicId);
+  } else if (state.topicId) {
+    query = query.eq('topic_id', state.topicId);
+  } else if (state.subjectId) {
+    query = query.eq('subject_id', state.subjectId);
+  }
+
+  if (state.servedQuestionIds.length > 0) {
+    query = query.not('id', 'in', `(${state.servedQuestionIds.join(',')})`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Unable to load adaptive questions: ${error.message}`);
+  }
+
+  const questions = (data ?? []) as QuestionMasterAdmin[];
+  if (questions.length === 0) {
+    return [];
+  }
+
+  const { data: answersData } = await supabase
+    .from('question_correct_answers')
+    .select('question_id')
+    .in('question_id', questions.map((question) => question.id));
+
+  const questionsWithAnswers = new Set((answersData ?? []).map((row) => row.question_id));
+  return questions.filter((question) => questionsWithAnswers.has(question.id));
+}
+
+async function appendAdaptiveItem(practiceSetId: string, state: AdaptiveSessionState): Promise<PracticeSetItem | null> {
+  const question = await selectAdaptiveQuestion(state);
+  if (!question) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('practice_set_items')
+    .insert({
+      practice_set_id: practiceSetId,
+      question_id: question.id,
+      weight: 1,
+      order_index: state.servedQuestionIds.length
+    })
+    .select('*')
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error(`Failed to add adaptive question: ${error?.message ?? 'Unknown error'}`);
+  }
+
+  return { ...(data as PracticeSetItem), question };
+}
+
+/**
+ * Records the outcome of an adaptive item, moves the difficulty ladder and
+ * appends the next question. Returns null for standard sessions, for
+ * re-submissions of an item already scored, and once the target length is met.
+ */
+async function advanceAdaptiveSession(
+  session: SubmissionSessionRow,
+  questionId: string,
+  autoMarkResult: AutoMarkResult
+): Promise<PracticeSetItem | null> {
+  if (session.mode !== 'adaptive' || !session.adaptive_state) {
+    return null;
+  }
+
+  const currentState = session.adaptive_state as AdaptiveSessionState;
+  if (currentState.history.some((entry) => entry.questionId === questionId)) {
+    return null;
+  }
+
+  let state = applyAdaptiveOutcome(currentState, questionId, autoMarkResult);
+  let nextItem: PracticeSetItem | null = null;
+
+  if (!isAdaptiveSessionComplete(state)) {
+    nextItem = await appendAdaptiveItem(session.practice_set_id, state);
+    if (nextItem) {
+      state = { ...state, servedQuestionIds: [...state.servedQuestionIds, nextItem.question_id] };
+    }
+  }
+
+  const difficultyMix = { ...((session.difficulty_mix as Record<string, number> | null) ?? {}) };
+  if (nextItem) {
+    const difficulty = nextItem.question?.difficulty ?? 'Unknown';
+    difficultyMix[difficulty] = (difficultyMix[difficulty] ?? 0) + 1;
+  }
+
+  const { error: updateError } = await supabase
+    .from('practice_sessions')
+    .update({
+      adaptive_state: state,
+      difficulty_mix: difficultyMix,
+      total_marks_available: (session.total_marks_available ?? 0) + (nextItem?.question?.marks ?? 0)
+    })
+    .eq('id', session.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update adaptive session: ${updateError.message}`);
+  }
+
+  return nextItem;
+}
+
+export async function createReviewSession(): Promise<PracticeSessionCreationResponse> {
+  const { userId, studentId } = await getCurrentStudentContext();
+  const dueEntries = await fetchDueReviews(studentId);
+
+  if (dueEntries.length === 0) {
+    throw new Error('No review questions are due today.');
+  }
+
+  const { data: practiceSet, error: setError } = await supabase
+    .from('practice_sets')
+    .insert({
+      title: 'Review due today',
+      description: 'Questions you missed earlier, scheduled for spaced review.',
+      source: 'review',
+      created_by: userId
+    })
+    .select('*')
+    .maybeSingle();
+
+  if (setError || !practiceSet) {
+    throw new Error(`Failed to create review practice set: ${setError?.message ?? 'Unknown error'}`);
+  }
+
+  const { data: itemRows, error: itemsError } = await supabase
+    .from('practice_set_items')
+    .insert(
+      dueEntries.map((entry, index) => ({
+        practice_set_id: practiceSet.id,
+        question_id: entry.question_id,
+        weight: 1,
+        order_index: index
+      }))
+    )
+    .select('*');
+
+  if (itemsError || !itemRows) {
+    throw new Error(`Failed to add review questions: ${itemsError?.message ?? 'Unknown error'}`);
+  }
+
+  const questionsById = new Map(dueEntries.map((entry) => [entry.question_id, entry.question]));
+  const items: PracticeSetItem[] = (itemRows as PracticeSetItem[])
+    .map((row) => ({ ...row, question: questionsById.get(row.question_id) }))
+    .sort((a, b) => a.order_index - b.order_index);
+
+  const totalMarks = items.reduce((sum, item) => sum + (item.question?.marks ?? 0), 0);
+  const difficultyMix = items.reduce<Record<string, number>>((acc, item) => {
+    const difficulty = item.question?.difficulty ?? 'Unknown';
+    acc[difficulty] = (acc[difficulty] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  const { data, error } = await supabase
+    .from('practice_sessions')
+    .insert({
+      student_id: studentId,
+      practice_set_id: practiceSet.id,
+      total_marks_available: totalMarks,
+      difficulty_mix: difficultyMix,
+      mode: 'review'
+    })
+    .select('*')
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error(`Failed to create practice session: ${error?.message ?? 'Unknown error'}`);
+  }
+
+  return {
+    sessionId: data.id,
+    itemsSnapshot: items
+  };
+}
+
+export async function countDueReviews(): Promise<number> {
+  const studentId = await getCurrentStudentId();
+  return getDueReviewCount(studentId);
+}
+
 export async function fetchQuestionWithMarkScheme(questionId: string): Promise<QuestionWithMarkScheme> {
   const { data, error } = await supabase
     .from('questions_master_admin')
@@ -166,6 +490,11 @@ export async function fetchQuestionWithMarkScheme(questionId: string): Promise<Q
   return questionWithDefaults;
 }
 
+/**
+ * Stores a submission. A teacher's re-mark of an earlier submission stands:
+ * the new answer and its auto-marking are kept alongside it, but the marks
+ * returned (and stored) remain the teacher's.
+ */
 async function upsertPracticeAnswer(
   sessionId: string,
   itemId: string,
@@ -173,11 +502,13 @@ async function upsertPracticeAnswer(
   rawPayload: AnswerSubmissionPayload,
   autoMarkResult: AutoMarkResult,
   marksAwarded: number,
-  isCorrect: boolean
-): Promise<void> {
+  isCorrect: boolean,
+  activeSeconds: number | null,
+  speedBonusXp: number
+): Promise<{ marksEarned: number; isCorrect: boolean }> {
   const { data: existing, error: fetchError } = await supabase
     .from('practice_answers')
-    .select('id')
+    .select('id, manual_mark_json, marks_earned, is_correct')
     .eq('session_id', sessionId)
     .eq('item_id', itemId)
     .maybeSingle();
@@ -187,13 +518,15 @@ async function upsertPracticeAnswer(
   }
 
   if (existing) {
+    const keepsManualMark = !!existing.manual_mark_json;
     const { error: updateError } = await supabase
       .from('practice_answers')
       .update({
         raw_answer_json: rawPayload,
         auto_mark_json: autoMarkResult,
-        marks_earned: marksAwarded,
-        is_correct: isCorrect,
+        ...(keepsManualMark ? {} : { marks_earned: marksAwarded, is_correct: isCorrect }),
+        active_time_sec: activeSeconds,
+        speed_bonus_xp: speedBonusXp,
         submitted_at: dayjs().toISOString()
       })
       .eq('id', existing.id);
@@ -201,23 +534,31 @@ async function upsertPracticeAnswer(
     if (updateError) {
       throw new Error(`Failed to update practice answer: ${updateError.message}`);
     }
-  } else {
-    const { error: insertError } = await supabase
-      .from('practice_answers')
-      .insert({
-        session_id: sessionId,
-        item_id: itemId,
-        question_id: questionId,
-        raw_answer_json: rawPayload,
-        auto_mark_json: autoMarkResult,
-        marks_earned: marksAwarded,
-        is_correct: isCorrect
-      });
 
-    if (insertError) {
-      throw new Error(`Failed to save practice answer: ${insertError.message}`);
-    }
+    return keepsManualMark
+      ? { marksEarned: existing.marks_earned ?? 0, isCorrect: !!existing.is_correct }
+      : { marksEarned: marksAwarded, isCorrect };
+  }
+
+  const { error: insertError } = await supabase
+    .from('practice_answers')
+    .insert({
+      session_id: sessionId,
+      item_id: itemId,
+      question_id: questionId,
+      raw_answer_json: rawPayload,
+      auto_mark_json: autoMarkResult,
+      marks_earned: marksAwarded,
+      is_correct: isCorrect,
+      active_time_sec: activeSeconds,
+      speed_bonus_xp: speedBonusXp
+    });
+
+  if (insertError) {
+    throw new Error(`Failed to save practice answer: ${insertError.message}`);
   }
+
+  return { marksEarned: marksAwarded, isCorrect };
 }
 
 async function recordSessionEvent(
@@ -236,6 +577,65 @@ async function recordSessionEvent(
     });
 }
 
+/**
+ * Called by the practice player when an item is shown, and when the tab is
+ * hidden or shown again while it is on screen. Submission time is derived
+ * from these events.
+ */
+export async function recordItemActivity(
+  sessionId: string,
+  itemId: string,
+  eventType: Exclude<ItemTimingEventType, 'answer_submitted'>
+): Promise<void> {
+  await recordSessionEvent(sessionId, itemId, eventType, {});
+}
+
+/**
+ * Writes the submission event before the answer is marked so that its
+ * server-side created_at closes the item's timing segment. Active time is
+ * then replayed from server timestamps only.
+ */
+async function recordSubmissionEvent(sessionId: string, itemId: string): Promise<{ id: string; created_at: string }> {
+  const { data, error } = await supabase
+    .from('practice_session_events')
+    .insert({
+      session_id: sessionId,
+      item_id: itemId,
+      event_type: 'answer_submitted',
+      payload: {}
+    })
+    .select('id, created_at')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to record submission: ${error?.message ?? 'no event returned'}`);
+  }
+
+  return data as { id: string; created_at: string };
+}
+
+async function resolveActiveSeconds(sessionId: string, itemId: string, submittedAt: string): Promise<number | null> {
+  const { data: events, error } = await supabase
+    .from('practice_session_events')
+    .select('item_id, event_type, created_at')
+    .eq('session_id', sessionId)
+    .in('event_type', ITEM_TIMING_EVENTS)
+    .lte('created_at', submittedAt);
+
+  if (error) {
+    console.error('Unable to load timing events:', error);
+    return null;
+  }
+
+  // Sessions started by an older client have no view events; leave the time
+  // unknown rather than guessing.
+  if (!hasViewEvents(events ?? [], itemId)) {
+    return null;
+  }
+
+  return accumulateActiveTime(events ?? []).get(itemId) ?? 0;
+}
+
 export async function submitAnswer(request: PracticeAnswerRequest): Promise<PracticeAnswerResponse> {
   const { sessionId, itemId, rawAnswer } = request;
 
@@ -250,11 +650,13 @@ export async function submitAnswer(request: PracticeAnswerRequest): Promise<Prac
     throw new Error('Practice set item not found for submission');
   }
 
+  const submission = await recordSubmissionEvent(sessionId, itemId);
+
   const question = await fetchQuestionWithMarkScheme(item.question_id);
   const board = detectBoard(question.paper?.paper_code ?? null);
   const subjectArea = detectSubjectArea(question.subject?.name ?? null);
 
-  const autoMarkResult = autoMarkQuestion({
+  const markingContext = {
     question,
     correctAnswers: question.correct_answers,
     answerComponents: question.answer_components,
@@ -262,27 +664,81 @@ export async function submitAnswer(request: PracticeAnswerRequest): Promise<Prac
     rawAnswer,
     board,
     subjectArea
-  });
+  };
+  const autoMarkResult = (await autoMarkCodeQuestion(markingContext)) ?? autoMarkQuestion(markingContext);
 
-  const marksAwarded = Math.min(autoMarkResult.totalAwarded, question.marks ?? autoMarkResult.totalAvailable);
-  const isCorrect = marksAwarded >= (question.marks ?? autoMarkResult.totalAvailable);
+  const autoMarks = Math.min(autoMarkResult.totalAwarded, question.marks ?? autoMarkResult.totalAvailable);
+  const autoCorrect = autoMarks >= (question.marks ?? autoMarkResult.totalAvailable);
 
-  await upsertPracticeAnswer(sessionId, itemId, question.id, rawAnswer, autoMarkResult, marksAwarded, isCorrect);
+  const activeSeconds = await resolveActiveSeconds(sessionId, itemId, submission.created_at);
+  // Only answers that earn marks are rewarded for speed
+  const speedBonus = autoMarks > 0 ? calculateSpeedBonus(activeSeconds, item.time_limit_sec ?? 90) : 0;
 
-  const sessionStart = item.session?.started_at ?? dayjs().toISOString();
-  const speedBonus = calculateSpeedBonus(sessionStart, dayjs().toISOString(), item.time_limit_sec ?? 90);
+  const { marksEarned: marksAwarded, isCorrect } = await upsertPracticeAnswer(
+    sessionId,
+    itemId,
+    question.id,
+    rawAnswer,
+    autoMarkResult,
+    autoMarks,
+    autoCorrect,
+    activeSeconds,
+    speedBonus
+  );
 
-  await recordSessionEvent(sessionId, itemId, 'answer_submitted', {
-    marksAwarded,
-    isCorrect,
-    speedBonus,
-    autoMark: autoMarkResult
-  });
+  await supabase
+    .from('practice_session_events')
+    .update({
+      payload: {
+        marksAwarded,
+        isCorrect,
+        activeSeconds,
+        speedBonus,
+        autoMark: autoMarkResult
+      }
+    })
+    .eq('id', submission.id);
+
+  const { data: session, error: sessionError } = await supabase
+    .from('practice_sessions')
+    .select('id, student_id, mode, adaptive_state, practice_set_id, total_marks_available, difficulty_mix')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (sessionError || !session) {
+    throw new Error('Practice session not found for submission');
+  }
+
+  try {
+    await recordReviewOutcome({ studentId: session.student_id, questionId: question.id, autoMarkResult });
+  } catch (error) {
+    console.error('Failed to update review schedule:', error);
+  }
+
+  // Recorded speaking answers are marked by a teacher against a rubric
+  if (question.answer_format === 'audio') {
+    try {
+      await enqueuePracticeSpeakingAnswer({
+        sessionId,
+        itemId,
+        studentId: session.student_id,
+        questionId: question.id,
+        subjectId: question.subject_id ?? null,
+        maxMarks: question.marks ?? 1,
+        rawAnswer: rawAnswer.value
+      });
+    } catch (error) {
+      console.error('Failed to queue speaking answer for marking:', error);
+    }
+  }
+
+  const nextItem = await advanceAdaptiveSession(session as SubmissionSessionRow, question.id, autoMarkResult);
 
   return {
     marksEarned: marksAwarded,
     isCorrect,
-    autoMarkJson: autoMarkResult
+    autoMarkJson: autoMarkResult,
+    nextItem
   };
 }
 
@@ -303,6 +759,7 @@ export async function finishSession(sessionId: string): Promise<SessionSummary>
   const totalEarned = answers.reduce((sum, answer) => sum + (answer.marks_earned ?? 0), 0);
   const totalAvailable = session.total_marks_available || answers.reduce((sum, answer) => sum + (answer.auto_mark_json?.totalAvailable ?? 0), 0);
   const accuracy = totalAvailable > 0 ? totalEarned / totalAvailable : 0;
+  const speedBonusXp = answers.reduce((sum, answer) => sum + (answer.speed_bonus_xp ?? 0), 0);
 
   const completionPayload = await applyGamificationRewards({
     sessionId,
@@ -310,7 +767,8 @@ export async function finishSession(sessionId: string): Promise<SessionSummary>
     practiceSetId: session.practice_set_id,
     marksEarned: totalEarned,
     marksAvailable: totalAvailable,
-    accuracy
+    accuracy,
+    speedBonusXp
   });
 
   await supabase
@@ -324,13 +782,10 @@ export async function finishSession(sessionId: string): Promise<SessionSummary>
     })
     .eq('id', sessionId);
 
+  const achievements = await awardSessionAchievements(completionPayload.progress);
+
   await updateLeaderboards({
     studentId: session.student_id,
-    sessionId,
-    marksEarned: totalEarned,
-    marksAvailable: totalAvailable,
-    accuracy,
-    xpAwarded: completionPayload.xpAwarded,
     subjectId: session.practice_set?.subject_id ?? null
   });
 
@@ -357,8 +812,8 @@ export async function finishSession(sessionId: string): Promise<SessionSummary>
       xpEarned: completionPayload.xpAwarded,
       streakDelta: completionPayload.streakDelta
     },
-    xp: completionPayload.progress,
-    badges: completionPayload.newBadges,
+    xp: achievements.progress,
+    badges: achievements.newBadges,
     leaderboard: completionPayload.leaderboardSnapshot ?? null
   };
 }
@@ -367,7 +822,7 @@ export async function getReport(sessionId: string): Promise<PracticeReportOvervi
   const { data: session, error } = await supabase
     .from('practice_sessions')
     .select(
-      `*, practice_set:practice_sets(*), answers:practice_answers(*, item:practice_set_items(*, question:questions_master_admin(*, subject:edu_subjects(name)))), items:practice_set_items(*, question:questions_master_admin(*, subject:edu_subjects(name)))`
+      `*, practice_set:practice_sets(*), answers:practice_answers(*, flags:practice_answer_flags(*), item:practice_set_items(*, question:questions_master_admin(*, subject:edu_subjects(name)))), items:practice_set_items(*, question:questions_master_admin(*, subject:edu_subjects(name)))`
     )
     .eq('id', sessionId)
     .maybeSingle();
@@ -405,6 +860,7 @@ export async function getReport(sessionId: string): Promise<PracticeReportOvervi
 
 function buildTaxonomyBreakdown(answers: PracticeAnswer[], items: PracticeSetItem[]): TaxonomyBreakdown[] {
   const map = new Map<string, TaxonomyBreakdown>();
+  const timings = new Map<string, { total: number; count: number }>();
 
   answers.forEach((answer) => {
     const item = items.find((entry) => entry.id === answer.item_id);
@@ -428,6 +884,15 @@ function buildTaxonomyBreakdown(answers: PracticeAnswer[], items: PracticeSetIte
     aggregate.marksAvailable += answer.auto_mark_json?.totalAvailable ?? item.question.marks ?? 0;
     aggregate.accuracy = aggregate.marksAvailable > 0 ? aggregate.marksEarned / aggregate.marksAvailable : 0;
 
+    // Answers without recorded timing are left out of the average rather than counted as zero
+    if (answer.active_time_sec !== null && answer.active_time_sec !== undefined) {
+      const timing = timings.get(key) ?? { total: 0, count: 0 };
+      timing.total += answer.active_time_sec;
+      timing.count += 1;
+      timings.set(key, timing);
+      aggregate.avgTimeSeconds = Math.round(timing.total / timing.count);
+    }
+
     map.set(key, aggregate);
   });
 
@@ -442,7 +907,7 @@ function buildRecommendations(breakdown: TaxonomyBreakdown[]): RecommendationIte
       title: 'Targeted practice recommended',
       description: `Focus on ${entry.subtopicId ?? entry.topicId ?? 'this topic'} to improve mastery.`,
       actionLabel: 'Start drill',
-      actionUrl: `/app/student-module/practice?subject=${entry.subjectId ?? ''}&topic=${entry.topicId ?? ''}`
+      actionUrl: `/app/student-module/practice?mode=adaptive&subject=${entry.subjectId ?? ''}&topic=${entry.topicId ?? ''}&subtopic=${entry.subtopicId ?? ''}`
     }));
 }
 
@@ -454,15 +919,20 @@ function buildAnswerReviews(answers: PracticeAnswer[], items: PracticeSetItem[])
         return null;
       }
 
-      const acceptedAlternatives = (answer.auto_mark_json?.awarded ?? [])
+      const marking = resolveEffectiveMarking(answer);
+      const acceptedAlternatives = (marking?.awarded ?? [])
         .map((award) => award.pointId);
+      const flags = ((answer as PracticeAnswer & { flags?: PracticeAnswerFlag[] }).flags ?? [])
+        .slice()
+        .sort((a, b) => dayjs(b.flagged_at).valueOf() - dayjs(a.flagged_at).valueOf());
 
       return {
         item,
         answer,
-        marking: answer.auto_mark_json,
+        marking,
         acceptedAlternatives,
-        explanation: item.question?.explanation ?? null
+        explanation: item.question?.explanation ?? null,
+        flag: flags[0] ?? null
       } as PracticeAnswerReview;
     })
     .filter((entry): entry is PracticeAnswerReview => Boolean(entry));
@@ -0,0 +1,90 @@
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import { AutoMarkResult, ReviewQueueEntry } from '@/types/practice';
+import { scheduleReview, scoreToQuality, shouldEnqueueForReview } from './practice/spacedRepetitionScheduler';
+
+interface ReviewOutcomeRequest {
+  studentId: string;
+  questionId: string;
+  autoMarkResult: AutoMarkResult;
+}
+
+const MAX_REVIEW_SESSION_ITEMS = 20;
+
+/**
+ * Updates the SM-2 schedule for a question the student has just answered.
+ * Questions already in the queue are rescheduled on every re-attempt; new
+ * questions are only enqueued when they were answered incorrectly or partially.
+ */
+export async function recordReviewOutcome(request: ReviewOutcomeRequest): Promise<ReviewQueueEntry | null> {
+  const { studentId, questionId, autoMarkResult } = request;
+
+  const { data: existing, error } = await supabase
+    .from('practice_review_queue')
+    .select('*')
+    .eq('student_id', studentId)
+    .eq('question_id', questionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Unable to load review schedule: ${error.message}`);
+  }
+
+  if (!existing && !shouldEnqueueForReview(autoMarkResult)) {
+    return null;
+  }
+
+  const schedule = scheduleReview(existing as ReviewQueueEntry | null, scoreToQuality(autoMarkResult));
+
+  const { data, error: upsertError } = await supabase
+    .from('practice_review_queue')
+    .upsert(
+      {
+        student_id: studentId,
+        question_id: questionId,
+        ...schedule,
+        updated_at: dayjs().toISOString()
+      },
+      { onConflict: 'student_id,question_id' }
+    )
+    .select('*')
+    .maybeSingle();
+
+  if (upsertError) {
+    throw new Error(`Failed to update review schedule: ${upsertError.message}`);
+  }
+
+  return data as ReviewQueueEntry | null;
+}
+
+export async function fetchDueReviews(studentId: string, limit = MAX_REVIEW_SESSION_ITEMS): Promise<ReviewQueueEntry[]> {
+  const { data, error } = await supabase
+    .from('practice_review_queue')
+    .select('*, question:questions_master_admin!inner(*, paper:papers_setup(paper_code), subject:edu_subjects(name))')
+    .eq('student_id', studentId)
+    .eq('question.status', 'active')
+    .lte('due_date', dayjs().format('YYYY-MM-DD'))
+    .order('due_date', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Unable to load review queue: ${error.message}`);
+  }
+
+  return (data ?? []) as ReviewQueueEntry[];
+}
+
+export async function getDueReviewCount(studentId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('practice_review_queue')
+    .select('id, question:questions_master_admin!inner(id)', { count: 'exact', head: true })
+    .eq('student_id', studentId)
+    .eq('question.status', 'active')
+    .lte('due_date', dayjs().format('YYYY-MM-DD'));
+
+  if (error) {
+    throw new Error(`Unable to count due reviews: ${error.message}`);
+  }
+
+  return count ?? 0;
+}
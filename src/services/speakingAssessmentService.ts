@@ -0,0 +1,359 @@
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import {
+  SpeakingAssessment,
+  SpeakingModerationRequest,
+  SpeakingMarkRequest,
+  SpeakingRecording,
+  SpeakingRubric,
+  SpeakingRubricCriterion
+} from '@/types/practice';
+import { DEFAULT_SPEAKING_CRITERIA, buildRubricMarking, validateRubricCriteria } from './practice/speakingRubric';
+import { DEFAULT_MODERATION_RATE, selectModerationSample } from './moderationSampling';
+
+/** Queue tabs: marked scripts split by whether they were drawn for moderation */
+export type SpeakingQueueView = 'pending' | 'marked' | 'moderation' | 'moderated';
+
+interface PracticeSpeakingSubmission {
+  sessionId: string;
+  itemId: string;
+  studentId: string;
+  questionId: string;
+  subjectId: string | null;
+  maxMarks: number;
+  rawAnswer: unknown;
+}
+
+const ASSESSMENT_QUEUE_SELECT =
+  '*, rubric:speaking_rubrics(*), question:questions_master_admin(id, question_number, question_description, marks, subject:edu_subjects(name)), student:students(id, user:users(name, email))';
+
+async function getCurrentUserId(): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) {
+    throw new Error('Unable to resolve authenticated user');
+  }
+  return user.id;
+}
+
+/**
+ * Reads the AudioRecorder value from a stored answer. Practice answers hold
+ * it as an object or JSON string; mock exam responses as JSON text.
+ */
+export function parseSpeakingRecording(raw: unknown): SpeakingRecording | null {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  const recording = value as Partial<SpeakingRecording> | null;
+  if (!recording || typeof recording !== 'object' || typeof recording.url !== 'string' || !recording.url) {
+    return null;
+  }
+  return {
+    url: recording.url,
+    path: typeof recording.path === 'string' ? recording.path : '',
+    duration: Number(recording.duration ?? 0),
+    waveformData: Array.isArray(recording.waveformData) ? recording.waveformData : undefined
+  };
+}
+
+export function rubricCriteriaFor(assessment: Pick<SpeakingAssessment, 'rubric'>): SpeakingRubricCriterion[] {
+  return assessment.rubric?.criteria?.length ? assessment.rubric.criteria : DEFAULT_SPEAKING_CRITERIA;
+}
+
+async function findRubricForSubject(subjectId: string | null): Promise<string | null> {
+  if (!subjectId) {
+    return null;
+  }
+  const { data } = await supabase
+    .from('speaking_rubrics')
+    .select('id')
+    .eq('subject_id', subjectId)
+    .eq('is_active', true)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data?.id ?? null;
+}
+
+export async function fetchSpeakingRubrics(): Promise<SpeakingRubric[]> {
+  const { data, error } = await supabase
+    .from('speaking_rubrics')
+    .select('*')
+    .eq('is_active', true)
+    .order('name');
+
+  if (error) {
+    throw new Error(`Unable to load speaking rubrics: ${error.message}`);
+  }
+
+  return (data ?? []) as SpeakingRubric[];
+}
+
+export async function saveSpeakingRubric(
+  rubric: Pick<SpeakingRubric, 'name' | 'subject_id' | 'criteria'> & { id?: string }
+): Promise<SpeakingRubric> {
+  const errors = validateRubricCriteria(rubric.criteria);
+  if (errors.length) {
+    throw new Error(errors[0]);
+  }
+
+  const payload = {
+    name: rubric.name.trim(),
+    subject_id: rubric.subject_id,
+    criteria: rubric.criteria,
+    updated_at: dayjs().toISOString()
+  };
+  const query = rubric.id
+    ? supabase.from('speaking_rubrics').update(payload).eq('id', rubric.id)
+    : supabase.from('speaking_rubrics').insert({ ...payload, created_by: await getCurrentUserId() });
+
+  const { data, error } = await query.select('*').single();
+  if (error) {
+    throw new Error(`Failed to save speaking rubric: ${error.message}`);
+  }
+
+  return data as SpeakingRubric;
+}
+
+/**
+ * Called when a practice audio answer is submitted. A resubmitted answer
+ * only replaces the queued recording: the status and any teacher marks are
+ * left for the teacher to change.
+ */
+export async function enqueuePracticeSpeakingAnswer(submission: PracticeSpeakingSubmission): Promise<void> {
+  const recording = parseSpeakingRecording(submission.rawAnswer);
+  if (!recording) {
+    return;
+  }
+
+  const { data: answer, error } = await supabase
+    .from('practice_answers')
+    .select('id')
+    .eq('session_id', submission.sessionId)
+    .eq('item_id', submission.itemId)
+    .maybeSingle();
+
+  if (error || !answer) {
+    throw new Error('Practice answer not found for speaking assessment');
+  }
+
+  const { data: queued } = await supabase
+    .from('speaking_assessments')
+    .select('id')
+    .eq('practice_answer_id', answer.id)
+    .maybeSingle();
+
+  const { error: queueError } = queued
+    ? await supabase
+        .from('speaking_assessments')
+        .update({ recording, updated_at: dayjs().toISOString() })
+        .eq('id', queued.id)
+    : await supabase.from('speaking_assessments').insert({
+        source: 'practice',
+        practice_answer_id: answer.id,
+        student_id: submission.studentId,
+        question_id: submission.questionId,
+        rubric_id: await findRubricForSubject(submission.subjectId),
+        recording,
+        max_marks: submission.maxMarks > 0 ? submission.maxMarks : 1
+      });
+
+  if (queueError) {
+    throw new Error(`Failed to queue speaking answer: ${queueError.message}`);
+  }
+}
+
+/**
+ * Queues every recorded response in a mock exam that is not queued yet.
+ * Returns the number of responses added.
+ */
+export async function syncMockExamSpeakingResponses(mockExamId: string, subjectId: string | null = null): Promise<number> {
+  const { data: responses, error } = await supabase
+    .from('mock_exam_responses')
+    .select('id, student_id, student_answer, max_marks')
+    .eq('mock_exam_id', mockExamId);
+
+  if (error) {
+    throw new Error(`Unable to load mock exam responses: ${error.message}`);
+  }
+
+  const { data: queued } = await supabase
+    .from('speaking_assessments')
+    .select('mock_exam_response_id')
+    .eq('mock_exam_id', mockExamId);
+  const queuedIds = new Set((queued ?? []).map((row) => row.mock_exam_response_id));
+  const rubricId = await findRubricForSubject(subjectId);
+
+  const rows = (responses ?? []).flatMap((response) => {
+    const recording = queuedIds.has(response.id) ? null : parseSpeakingRecording(response.student_answer);
+    return recording
+      ? [{
+          source: 'mock_exam',
+          mock_exam_response_id: response.id,
+          mock_exam_id: mockExamId,
+          student_id: response.student_id,
+          rubric_id: rubricId,
+          recording,
+          max_marks: Number(response.max_marks)
+        }]
+      : [];
+  });
+
+  if (!rows.length) {
+    return 0;
+  }
+
+  const { error: insertError } = await supabase.from('speaking_assessments').insert(rows);
+  if (insertError) {
+    throw new Error(`Failed to queue mock exam recordings: ${insertError.message}`);
+  }
+
+  return rows.length;
+}
+
+/**
+ * Teacher queue. Row level security limits the result to students in the
+ * teacher's class sections (or everything for system admins).
+ */
+export async function fetchSpeakingAssessmentQueue(view: SpeakingQueueView = 'pending'): Promise<SpeakingAssessment[]> {
+  let query = supabase.from('speaking_assessments').select(ASSESSMENT_QUEUE_SELECT);
+
+  if (view === 'marked' || view === 'moderation') {
+    query = query.eq('status', 'marked').eq('moderation_selected', view === 'moderation');
+  } else {
+    query = query.eq('status', view);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: view === 'pending' });
+  if (error) {
+    throw new Error(`Unable to load speaking assessments: ${error.message}`);
+  }
+
+  return (data ?? []) as SpeakingAssessment[];
+}
+
+async function loadAssessment(assessmentId: string): Promise<SpeakingAssessment> {
+  const { data, error } = await supabase
+    .from('speaking_assessments')
+    .select('*, rubric:speaking_rubrics(*)')
+    .eq('id', assessmentId)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error('Speaking assessment not found');
+  }
+
+  return data as SpeakingAssessment;
+}
+
+/**
+ * Scores a recording against its rubric and writes the mark back to the
+ * practice answer (with session totals and XP) or the mock exam response
+ * and result.
+ */
+export async function markSpeakingAssessment(request: SpeakingMarkRequest): Promise<SpeakingAssessment> {
+  const reviewerId = await getCurrentUserId();
+  const assessment = await loadAssessment(request.assessmentId);
+  if (assessment.status === 'moderated') {
+    throw new Error('This recording has already been moderated');
+  }
+
+  const markedAt = dayjs().toISOString();
+  const marking = buildRubricMarking(rubricCriteriaFor(assessment), request.scores, Number(assessment.max_marks), {
+    comment: request.overallComment,
+    reviewerId,
+    reviewedAt: markedAt
+  });
+
+  const { data, error } = await supabase.rpc('mark_speaking_assessment', {
+    p_assessment_id: assessment.id,
+    p_marking: marking,
+    p_criterion_scores: request.scores,
+    // New comments are stamped with the marker here rather than in the browser
+    p_comments: request.comments.map((comment) => ({ ...comment, authorId: comment.authorId || reviewerId })),
+    p_overall_comment: request.overallComment
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to save speaking marks: ${error?.message ?? 'no result returned'}`);
+  }
+
+  return data as SpeakingAssessment;
+}
+
+/**
+ * Draws the moderation sample from marked scripts not yet sampled: a share
+ * of each marker's scripts spread across their mark range. Returns the
+ * number of scripts selected.
+ */
+export async function drawModerationSample(rate = DEFAULT_MODERATION_RATE): Promise<number> {
+  const { data, error } = await supabase
+    .from('speaking_assessments')
+    .select('id, marked_by, marks_awarded')
+    .eq('status', 'marked')
+    .eq('moderation_selected', false);
+
+  if (error) {
+    throw new Error(`Unable to load marked recordings: ${error.message}`);
+  }
+
+  const selected = selectModerationSample(
+    (data ?? []).map((row) => ({ id: row.id, markedBy: row.marked_by, marks: Number(row.marks_awarded ?? 0) })),
+    rate
+  );
+  if (!selected.length) {
+    return 0;
+  }
+
+  const { error: updateError } = await supabase
+    .from('speaking_assessments')
+    .update({ moderation_selected: true, updated_at: dayjs().toISOString() })
+    .in('id', selected);
+
+  if (updateError) {
+    throw new Error(`Failed to draw moderation sample: ${updateError.message}`);
+  }
+
+  return selected.length;
+}
+
+/**
+ * Records a moderator's re-score of a sampled script. The moderated mark
+ * replaces the original one wherever it was written back; the original
+ * marker's scores stay on the assessment for comparison.
+ */
+export async function moderateSpeakingAssessment(request: SpeakingModerationRequest): Promise<SpeakingAssessment> {
+  const moderatorId = await getCurrentUserId();
+  const assessment = await loadAssessment(request.assessmentId);
+  if (!assessment.moderation_selected || assessment.status !== 'marked') {
+    throw new Error('This recording is not awaiting moderation');
+  }
+  if (assessment.marked_by === moderatorId) {
+    throw new Error('Scripts must be moderated by someone other than the original marker');
+  }
+
+  const moderatedAt = dayjs().toISOString();
+  const marking = buildRubricMarking(rubricCriteriaFor(assessment), request.scores, Number(assessment.max_marks), {
+    comment: [assessment.overall_comment, request.notes.trim() && `Moderator: ${request.notes.trim()}`]
+      .filter(Boolean)
+      .join('\n'),
+    reviewerId: moderatorId,
+    reviewedAt: moderatedAt
+  });
+
+  const { data, error } = await supabase.rpc('moderate_speaking_assessment', {
+    p_assessment_id: assessment.id,
+    p_marking: marking,
+    p_notes: request.notes
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to save moderation: ${error?.message ?? 'no result returned'}`);
+  }
+
+  return data as SpeakingAssessment;
+}
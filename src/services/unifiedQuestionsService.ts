@@ -92,6 +92,7 @@ const QUESTION_SELECT_CLAUSE = `
     accepts_equivalent_phrasing,
     accepts_reverse_argument,
     error_carried_forward,
+    required_form,
     acceptable_variations,
     marking_criteria,
     working,
@@ -155,6 +156,7 @@ const QUESTION_SELECT_CLAUSE = `
       accepts_equivalent_phrasing,
       accepts_reverse_argument,
       error_carried_forward,
+      required_form,
       acceptable_variations,
       marking_criteria,
       working,
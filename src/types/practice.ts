@@ -1,8 +1,11 @@
-import { QuestionMasterAdmin } from './questions';
+import { DifficultyLevel, QuestionMasterAdmin } from './questions';
 
 export type PracticeSessionStatus = 'in_progress' | 'completed' | 'abandoned';
+export type PracticeSessionMode = 'standard' | 'adaptive' | 'review';
+export type PracticeAnswerFlagStatus = 'pending' | 'resolved' | 'dismissed';
 export type LeaderboardScope = 'class' | 'school' | 'global';
 export type LeaderboardPeriod = 'daily' | 'weekly' | 'monthly' | 'seasonal';
+export type LeaderboardPolicy = 'enabled' | 'anonymised' | 'class_only' | 'disabled';
 
 export interface PracticeSet {
   id: string;
@@ -40,6 +43,8 @@ export interface PracticeSession {
   streak_delta: number;
   board: string | null;
   difficulty_mix: Record<string, unknown> | null;
+  mode: PracticeSessionMode;
+  adaptive_state: AdaptiveSessionState | null;
   created_at: string;
   practice_set?: PracticeSet;
   items?: PracticeSetItem[];
@@ -52,8 +57,14 @@ export interface PracticeAnswer {
   question_id: string;
   raw_answer_json: Record<string, unknown>;
   auto_mark_json: AutoMarkResult | null;
+  manual_mark_json: ManualMarkResult | null;
+  marked_by: string | null;
+  marked_at: string | null;
   is_correct: boolean | null;
   marks_earned: number;
+  active_time_sec: number | null;
+  /** XP for answering within the item's time limit; added to the session's XP */
+  speed_bonus_xp: number;
   submitted_at: string;
 }
 
@@ -74,6 +85,38 @@ export interface GamificationProgress {
   current_streak_days: number;
   badges: GamificationBadge[];
   last_active_at: string | null;
+  /** Calendar day (school timezone) of the latest activity that counted towards the streak */
+  last_streak_day?: string | null;
+  streak_freezes_available?: number;
+  /** XP spent on freezes; the spendable balance is xp_total - xp_spent */
+  xp_spent?: number;
+}
+
+export interface StudentActivityDay {
+  student_id: string;
+  activity_date: string;
+  sessions_completed: number;
+  xp_earned: number;
+  freeze_used: boolean;
+}
+
+export type StreakCalendarDayStatus = 'active' | 'frozen' | 'missed';
+
+export interface StreakCalendarDay {
+  date: string;
+  status: StreakCalendarDayStatus;
+  sessionsCompleted: number;
+  xpEarned: number;
+}
+
+export interface StreakOverview {
+  timezone: string;
+  today: string;
+  currentStreak: number;
+  longestStreak: number;
+  freezesAvailable: number;
+  spendableXp: number;
+  days: StreakCalendarDay[];
 }
 
 export interface GamificationBadge {
@@ -84,8 +127,104 @@ export interface GamificationBadge {
   icon?: string;
 }
 
+export type AchievementMetric =
+  | 'xp_total'
+  | 'best_session_xp'
+  | 'current_streak_days'
+  | 'longest_streak_days'
+  | 'sessions_completed'
+  | 'sessions_at_accuracy'
+  | 'subjects_practised'
+  | 'topics_covered';
+
+export interface AchievementCriteria {
+  metric: AchievementMetric;
+  /** Only count sessions in this subject */
+  subjectId?: string | null;
+  /** Minimum session accuracy (0-1) for a session to count; required by sessions_at_accuracy */
+  minAccuracy?: number | null;
+}
+
+export interface AchievementTier {
+  tier: number;
+  label: string;
+  threshold: number;
+}
+
+export interface AchievementDefinition {
+  id: string;
+  code: string;
+  name: string;
+  description: string;
+  icon: string;
+  criteria: AchievementCriteria;
+  tiers: AchievementTier[];
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StudentAchievement {
+  id: string;
+  student_id: string;
+  achievement_id: string;
+  tier: number;
+  value_at_award: number;
+  earned_at: string;
+}
+
+export interface AchievementProgress {
+  definition: AchievementDefinition;
+  currentValue: number;
+  earnedTiers: StudentAchievement[];
+  nextTier: AchievementTier | null;
+  /** Progress from the last earned threshold towards nextTier, 0-1 (1 when every tier is earned) */
+  progressToNext: number;
+}
+
+export type ExamBoard = 'cambridge' | 'edexcel' | 'aqa' | 'ocr' | 'other';
+export type GradingScheme = 'a_star_g' | 'a_star_e' | 'nine_to_one';
+export type ExamSeries = 'feb_march' | 'may_june' | 'oct_nov' | 'january' | 'june' | 'november';
+
+export interface GradeThreshold {
+  grade: string;
+  /** Minimum raw mark (out of the table's max_mark) for this grade */
+  min_mark: number;
+}
+
+export interface GradeBoundaryTable {
+  id: string;
+  board: ExamBoard;
+  grading_scheme: GradingScheme;
+  /** Syllabus or specification code, e.g. 0620 or 4CH1 */
+  syllabus_code: string;
+  /** Paper/component within the syllabus (e.g. 42); null applies to every paper */
+  component_code: string | null;
+  exam_series: ExamSeries;
+  exam_year: number;
+  max_mark: number;
+  thresholds: GradeThreshold[];
+  subject_id: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GradePrediction {
+  grade: string;
+  nextGrade: string | null;
+  /** Further marks needed in this attempt to reach nextGrade; null at the top grade */
+  marksToNextGrade: number | null;
+  /** Boundary table used, or null when the generic percentage bands applied */
+  tableId: string | null;
+  tableLabel: string | null;
+}
+
 export interface LeaderboardRow {
-  studentId: string;
+  /** Omitted from aliased rows read through get_leaderboard_snapshot */
+  studentId?: string;
   studentName: string;
   avatarUrl?: string | null;
   xp: number;
@@ -93,17 +232,33 @@ export interface LeaderboardRow {
   medianTimeSec: number;
   rank: number;
   streak: number;
+  /** Set on rows read through get_leaderboard_snapshot for the viewing student */
+  isCurrentStudent?: boolean;
 }
 
 export interface LeaderboardSnapshot {
   id: string;
   scope: LeaderboardScope;
+  scope_key: string;
   period: LeaderboardPeriod;
   period_start: string;
   period_end: string;
   subject_id: string | null;
   rows: LeaderboardRow[];
   created_at: string;
+  updated_at: string;
+}
+
+export interface LeaderboardPrivacy {
+  policy: LeaderboardPolicy;
+  minAge: number;
+  /** Explicit choice; null when the age-based default applies */
+  optOut: boolean | null;
+  underMinAge: boolean;
+  classScopeKey: string | null;
+  /** School timezone that class and school board periods are counted in */
+  timeZone: string;
+  visibility: 'hidden' | 'alias' | 'named';
 }
 
 export interface PracticeReportOverview {
@@ -145,6 +300,7 @@ export interface PracticeAnswerReview {
   marking: AutoMarkResult | null;
   acceptedAlternatives: string[];
   explanation?: string | null;
+  flag: PracticeAnswerFlag | null;
 }
 
 export interface AutoMarkPointAward {
@@ -169,6 +325,135 @@ export interface AutoMarkResult {
   totalAvailable: number;
 }
 
+export interface MarkingPointOverride {
+  pointId: string;
+  action: 'award' | 'remove';
+  marks: number;
+}
+
+export interface ManualMarkResult extends AutoMarkResult {
+  comment: string;
+  overrides: MarkingPointOverride[];
+  overriddenBy: string;
+  overriddenAt: string;
+}
+
+export interface PracticeAnswerFlag {
+  id: string;
+  answer_id: string;
+  session_id: string;
+  student_id: string;
+  question_id: string;
+  status: PracticeAnswerFlagStatus;
+  student_comment: string | null;
+  flagged_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  teacher_comment: string | null;
+  marks_before: number | null;
+  marks_after: number | null;
+  point_overrides: MarkingPointOverride[];
+  answer?: PracticeAnswer;
+  question?: QuestionMasterAdmin;
+  student?: { id: string; user?: { name?: string | null; email?: string | null } | null } | null;
+}
+
+export interface MarkingOverrideRequest {
+  flagId: string;
+  overrides: MarkingPointOverride[];
+  comment: string;
+}
+
+export interface SpeakingRubricBand {
+  minMarks: number;
+  maxMarks: number;
+  descriptor: string;
+}
+
+export interface SpeakingRubricCriterion {
+  key: string;
+  label: string;
+  maxMarks: number;
+  bands: SpeakingRubricBand[];
+}
+
+export interface SpeakingRubric {
+  id: string;
+  name: string;
+  subject_id: string | null;
+  criteria: SpeakingRubricCriterion[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SpeakingAssessmentSource = 'practice' | 'mock_exam';
+
+export type SpeakingAssessmentStatus = 'pending' | 'marked' | 'moderated';
+
+export interface SpeakingRecording {
+  url: string;
+  path: string;
+  duration: number;
+  waveformData?: number[];
+}
+
+export interface SpeakingCriterionScore {
+  criterion: string;
+  marks: number;
+}
+
+export interface SpeakingTimestampComment {
+  id: string;
+  atSeconds: number;
+  text: string;
+  authorId: string;
+  createdAt: string;
+}
+
+export interface SpeakingAssessment {
+  id: string;
+  source: SpeakingAssessmentSource;
+  practice_answer_id: string | null;
+  mock_exam_response_id: string | null;
+  mock_exam_id: string | null;
+  student_id: string;
+  question_id: string | null;
+  rubric_id: string | null;
+  recording: SpeakingRecording;
+  status: SpeakingAssessmentStatus;
+  criterion_scores: SpeakingCriterionScore[];
+  comments: SpeakingTimestampComment[];
+  overall_comment: string | null;
+  marks_awarded: number | null;
+  max_marks: number;
+  marked_by: string | null;
+  marked_at: string | null;
+  moderation_selected: boolean;
+  moderated_by: string | null;
+  moderated_at: string | null;
+  moderation_marks: number | null;
+  moderation_notes: string | null;
+  created_at: string;
+  updated_at: string;
+  rubric?: SpeakingRubric | null;
+  question?: QuestionMasterAdmin | null;
+  student?: { id: string; user?: { name?: string | null; email?: string | null } | null } | null;
+}
+
+export interface SpeakingMarkRequest {
+  assessmentId: string;
+  scores: SpeakingCriterionScore[];
+  comments: SpeakingTimestampComment[];
+  overallComment: string;
+}
+
+export interface SpeakingModerationRequest {
+  assessmentId: string;
+  scores: SpeakingCriterionScore[];
+  notes: string;
+}
+
 export interface AnswerSubmissionPayload {
   value: string | string[] | number | Record<string, unknown>;
   working?: string;
@@ -186,6 +471,7 @@ export interface PracticeAnswerResponse {
   marksEarned: number;
   isCorrect: boolean;
   autoMarkJson: AutoMarkResult;
+  nextItem?: PracticeSetItem | null;
 }
 
 export interface SessionSummary {
@@ -199,4 +485,47 @@ export interface SessionSummary {
 export interface PracticeSessionCreationResponse {
   sessionId: string;
   itemsSnapshot: PracticeSetItem[];
+  adaptiveState?: AdaptiveSessionState | null;
+}
+
+export interface AdaptiveSessionRequest {
+  subjectId: string | null;
+  topicId: string | null;
+  subtopicId: string | null;
+  targetLength?: number;
+}
+
+export interface AdaptiveItemOutcome {
+  questionId: string;
+  difficulty: DifficultyLevel;
+  score: number;
+}
+
+export interface AdaptiveSessionState {
+  subjectId: string | null;
+  topicId: string | null;
+  subtopicId: string | null;
+  targetLength: number;
+  startingMastery: number | null;
+  currentDifficulty: DifficultyLevel;
+  correctStreak: number;
+  incorrectStreak: number;
+  servedQuestionIds: string[];
+  history: AdaptiveItemOutcome[];
+}
+
+export interface ReviewQueueEntry {
+  id: string;
+  student_id: string;
+  question_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_date: string;
+  last_quality: number | null;
+  last_reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  question?: QuestionMasterAdmin;
 }
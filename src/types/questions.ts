@@ -90,6 +90,8 @@ export type AlternativeType =
   | 'two_required'
   | 'three_required';
 
+export type RequiredAnswerForm = 'factorised' | 'expanded' | 'simplest_surd';
+
 // ==========================================
 // Context Types
 // ==========================================
@@ -299,6 +301,7 @@ export interface QuestionCorrectAnswer {
   accepts_equivalent_phrasing?: boolean;
   accepts_reverse_argument?: boolean;
   error_carried_forward?: boolean;
+  required_form?: RequiredAnswerForm | null;
   acceptable_variations?: string[];
   answer_text?: string; // For complex formats like table_completion template structure
   answer_type?: string; // Type identifier (e.g., 'table_template')
@@ -0,0 +1,42 @@
+/*
+  # Adaptive Practice Sessions
+
+  Adds the columns needed to run practice sessions in adaptive mode, where the
+  item list is generated on the fly from questions_master_admin instead of a
+  fixed practice_set_items list.
+
+  - practice_sessions.mode: 'standard' (fixed set) or 'adaptive'
+  - practice_sessions.adaptive_state: difficulty ladder state (current level,
+    streak counters, questions already served, per-item history)
+
+  Adaptive sessions are backed by a practice_sets row with source = 'adaptive'
+  owned by the student, so items can be appended under the existing
+  practice_set_items_manage_creators policy.
+*/
+
+ALTER TABLE practice_sessions
+  ADD COLUMN IF NOT EXISTS mode text NOT NULL DEFAULT 'standard';
+
+ALTER TABLE practice_sessions
+  ADD COLUMN IF NOT EXISTS adaptive_state jsonb;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'practice_sessions_mode_check'
+  ) THEN
+    ALTER TABLE practice_sessions
+      ADD CONSTRAINT practice_sessions_mode_check CHECK (mode IN ('standard', 'adaptive'));
+  END IF;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_practice_sessions_student_mode
+  ON practice_sessions(student_id, mode);
+
+CREATE INDEX IF NOT EXISTS idx_practice_sets_source
+  ON practice_sets(source)
+  WHERE source = 'adaptive';
+
+COMMENT ON COLUMN practice_sessions.mode IS 'standard = fixed practice set playback, adaptive = items generated from per-subtopic mastery';
+COMMENT ON COLUMN practice_sessions.adaptive_state IS 'Adaptive difficulty ladder state (AdaptiveSessionState) for adaptive sessions';
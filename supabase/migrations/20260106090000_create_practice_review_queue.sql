@@ -0,0 +1,51 @@
+/*
+  # Practice Review Queue (Spaced Repetition)
+
+  Questions a student answers incorrectly or only partially are enqueued here
+  and resurface on an SM-2 schedule. Each re-attempt updates the ease factor,
+  repetition count and interval from the AutoMarkResult of that attempt.
+
+  Also allows practice_sessions.mode = 'review' for "Review due today" sessions.
+*/
+
+CREATE TABLE IF NOT EXISTS practice_review_queue (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions_master_admin(id) ON DELETE CASCADE,
+  ease_factor numeric NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+  interval_days integer NOT NULL DEFAULT 1 CHECK (interval_days >= 1),
+  repetitions integer NOT NULL DEFAULT 0,
+  lapses integer NOT NULL DEFAULT 0,
+  due_date date NOT NULL,
+  last_quality integer CHECK (last_quality BETWEEN 0 AND 5),
+  last_reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  UNIQUE (student_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_review_queue_due
+  ON practice_review_queue(student_id, due_date);
+
+CREATE INDEX IF NOT EXISTS idx_practice_review_queue_question
+  ON practice_review_queue(question_id);
+
+ALTER TABLE practice_review_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "practice_review_queue_manage_own"
+  ON practice_review_queue FOR ALL TO authenticated
+  USING (
+    is_admin_user((select auth.uid())) OR
+    student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid()))
+  )
+  WITH CHECK (
+    is_admin_user((select auth.uid())) OR
+    student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid()))
+  );
+
+ALTER TABLE practice_sessions DROP CONSTRAINT IF EXISTS practice_sessions_mode_check;
+ALTER TABLE practice_sessions
+  ADD CONSTRAINT practice_sessions_mode_check CHECK (mode IN ('standard', 'adaptive', 'review'));
+
+COMMENT ON TABLE practice_review_queue IS 'Per-student spaced-repetition (SM-2) schedule for missed practice questions';
+COMMENT ON COLUMN practice_review_queue.last_quality IS 'SM-2 response quality (0-5) derived from the last AutoMarkResult';
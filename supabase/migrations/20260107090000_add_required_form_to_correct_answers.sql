@@ -0,0 +1,34 @@
+/*
+  # Add required_form to question_correct_answers
+
+  ## Summary
+  Lets a mathematics mark scheme require the answer in a specific algebraic
+  form. The auto-marking engine accepts any algebraically equivalent response,
+  then denies (or withholds the final mark of) a response that is equivalent
+  but not in the required form.
+
+  ## Changes
+  - `required_form` text column, NULL when any equivalent form is accepted
+  - Values: 'factorised', 'expanded', 'simplest_surd'
+
+  ## Security
+  - RLS policies inherited from existing table policies
+*/
+
+ALTER TABLE question_correct_answers
+ADD COLUMN IF NOT EXISTS required_form text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'question_correct_answers_required_form_check'
+  ) THEN
+    ALTER TABLE question_correct_answers
+      ADD CONSTRAINT question_correct_answers_required_form_check
+      CHECK (required_form IS NULL OR required_form IN ('factorised', 'expanded', 'simplest_surd'));
+  END IF;
+END;
+$$;
+
+COMMENT ON COLUMN question_correct_answers.required_form IS
+'Form the answer must be given in for full marks (factorised, expanded, simplest_surd). NULL accepts any algebraically equivalent form.';
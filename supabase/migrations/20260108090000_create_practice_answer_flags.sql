@@ -0,0 +1,354 @@
+/*
+  # Practice Answer Flags (Teacher Re-mark Workflow)
+
+  Students can flag an auto-marked practice answer they believe was mis-marked.
+  Teachers see pending flags for students in their class sections, award or
+  remove marking points with a comment, and the override is stored alongside
+  the original auto_mark_json in practice_answers.manual_mark_json.
+
+  ## Changes
+  - practice_answers: manual_mark_json, marked_by, marked_at
+  - practice_answer_flags: one row per flag with the teacher's resolution
+  - is_teacher_of_student(): SECURITY DEFINER helper used by the policies below
+  - Teacher SELECT policies on practice_sessions, practice_answers,
+    student_gamification and reports_cache_student
+  - apply_practice_answer_marking(): stores a manual marking for an answer,
+    recomputes the session total, session XP, the student's XP and level and
+    the monthly reports cache, records an 'answer_remarked' event and
+    resolves the flag (when one is given) in one transaction
+
+  ## Security
+  - Teachers never write the student's tables directly; only admins and
+    teachers of the student may apply a marking, and awarded marks must lie
+    between 0 and the marks available for the answer
+  - A flagged answer must belong to the student's own session
+*/
+
+ALTER TABLE practice_answers
+  ADD COLUMN IF NOT EXISTS manual_mark_json jsonb,
+  ADD COLUMN IF NOT EXISTS marked_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS marked_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS practice_answer_flags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  answer_id uuid NOT NULL REFERENCES practice_answers(id) ON DELETE CASCADE,
+  session_id uuid NOT NULL REFERENCES practice_sessions(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions_master_admin(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved', 'dismissed')),
+  student_comment text,
+  flagged_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  reviewed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  teacher_comment text,
+  marks_before numeric,
+  marks_after numeric,
+  point_overrides jsonb NOT NULL DEFAULT '[]'::jsonb
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_practice_answer_flags_one_pending
+  ON practice_answer_flags(answer_id) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_practice_answer_flags_status
+  ON practice_answer_flags(status, flagged_at);
+
+CREATE INDEX IF NOT EXISTS idx_practice_answer_flags_student
+  ON practice_answer_flags(student_id);
+
+CREATE INDEX IF NOT EXISTS idx_practice_answer_flags_session
+  ON practice_answer_flags(session_id);
+
+-- ============================================================================
+-- Helper: is the current user a teacher of this student's class section?
+-- ============================================================================
+CREATE OR REPLACE FUNCTION is_teacher_of_student(check_user_id uuid, check_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM teachers t
+    JOIN teacher_sections ts ON ts.teacher_id = t.id
+    WHERE t.user_id = check_user_id
+      AND (
+        ts.section_id = (SELECT s.class_section_id FROM students s WHERE s.id = check_student_id)
+        OR ts.section_id IN (
+          SELECT scs.class_section_id
+          FROM student_class_sections scs
+          WHERE scs.student_id = check_student_id AND scs.is_active = true
+        )
+      )
+  );
+$$;
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+ALTER TABLE practice_answer_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "practice_answer_flags_select"
+  ON practice_answer_flags FOR SELECT TO authenticated
+  USING (
+    is_admin_user((select auth.uid())) OR
+    student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid())) OR
+    is_teacher_of_student((select auth.uid()), student_id)
+  );
+
+CREATE POLICY "practice_answer_flags_insert_own"
+  ON practice_answer_flags FOR INSERT TO authenticated
+  WITH CHECK (
+    status = 'pending' AND
+    student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid())) AND
+    EXISTS (
+      SELECT 1
+      FROM practice_answers pa
+      JOIN practice_sessions ps ON ps.id = pa.session_id
+      WHERE pa.id = answer_id
+        AND pa.session_id = practice_answer_flags.session_id
+        AND pa.question_id = practice_answer_flags.question_id
+        AND ps.student_id = practice_answer_flags.student_id
+    )
+  );
+
+CREATE POLICY "practice_answer_flags_update_teachers"
+  ON practice_answer_flags FOR UPDATE TO authenticated
+  USING (
+    is_admin_user((select auth.uid())) OR
+    is_teacher_of_student((select auth.uid()), student_id)
+  )
+  WITH CHECK (
+    is_admin_user((select auth.uid())) OR
+    is_teacher_of_student((select auth.uid()), student_id)
+  );
+
+CREATE POLICY "practice_sessions_teachers_select"
+  ON practice_sessions FOR SELECT TO authenticated
+  USING (is_teacher_of_student((select auth.uid()), student_id));
+
+CREATE POLICY "practice_answers_teachers_select"
+  ON practice_answers FOR SELECT TO authenticated
+  USING (
+    session_id IN (
+      SELECT id FROM practice_sessions
+      WHERE is_teacher_of_student((select auth.uid()), student_id)
+    )
+  );
+
+CREATE POLICY "student_gamification_teachers_select"
+  ON student_gamification FOR SELECT TO authenticated
+  USING (is_teacher_of_student((select auth.uid()), student_id));
+
+CREATE POLICY "reports_cache_student_teachers_select"
+  ON reports_cache_student FOR SELECT TO authenticated
+  USING (is_teacher_of_student((select auth.uid()), student_id));
+
+-- ============================================================================
+-- Manual marking
+-- ============================================================================
+-- XP and level rules mirror calculateSessionXp / calculateLevel in
+-- gamificationService.ts; keep them in sync
+CREATE OR REPLACE FUNCTION practice_session_marks_xp(p_marks numeric, p_available numeric)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT round(p_marks * 10)::integer
+    + CASE WHEN p_available > 0 AND p_marks / p_available >= 0.8 THEN round(round(p_marks * 10) * 0.25)::integer ELSE 0 END
+    + CASE WHEN p_available > 0 AND p_marks / p_available >= 0.99 THEN round(round(p_marks * 10) * 0.5)::integer ELSE 0 END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_practice_answer_marking(
+  p_answer_id uuid,
+  p_marking jsonb,
+  p_flag_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_answer practice_answers;
+  v_session practice_sessions;
+  v_flag practice_answer_flags;
+  v_subject_id uuid;
+  v_topic_id uuid;
+  v_available numeric;
+  v_before numeric;
+  v_after numeric;
+  v_marking jsonb;
+  v_reviewed_at timestamptz := timezone('utc', now());
+  v_total numeric;
+  v_xp integer;
+  v_xp_total integer;
+  v_month date;
+  v_aggregate jsonb;
+  v_cached_marks numeric;
+BEGIN
+  SELECT * INTO v_answer FROM practice_answers WHERE id = p_answer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Practice answer not found';
+  END IF;
+
+  SELECT * INTO v_session FROM practice_sessions WHERE id = v_answer.session_id FOR UPDATE;
+
+  IF NOT (
+    is_admin_user(auth.uid()) OR
+    is_teacher_of_student(auth.uid(), v_session.student_id)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to mark answers for this student';
+  END IF;
+
+  IF p_flag_id IS NOT NULL THEN
+    SELECT * INTO v_flag FROM practice_answer_flags WHERE id = p_flag_id FOR UPDATE;
+    IF NOT FOUND OR v_flag.answer_id <> p_answer_id THEN
+      RAISE EXCEPTION 'Marking review flag not found';
+    END IF;
+    IF v_flag.status <> 'pending' THEN
+      RAISE EXCEPTION 'This flag has already been reviewed';
+    END IF;
+  END IF;
+
+  v_available := COALESCE(
+    (v_answer.auto_mark_json->>'totalAvailable')::numeric,
+    (SELECT q.marks FROM questions_master_admin q WHERE q.id = v_answer.question_id)
+  );
+  v_after := (p_marking->>'totalAwarded')::numeric;
+
+  IF v_after IS NULL OR v_after < 0 OR v_after > COALESCE(v_available, 0) THEN
+    RAISE EXCEPTION 'Awarded marks must be between 0 and %', COALESCE(v_available, 0);
+  END IF;
+
+  v_before := COALESCE(v_answer.marks_earned, 0);
+  v_marking := p_marking || jsonb_build_object(
+    'totalAvailable', v_available,
+    'overriddenBy', auth.uid(),
+    'overriddenAt', v_reviewed_at
+  );
+
+  UPDATE practice_answers
+  SET manual_mark_json = v_marking,
+      marks_earned = v_after,
+      is_correct = v_available > 0 AND v_after >= v_available,
+      marked_by = auth.uid(),
+      marked_at = v_reviewed_at
+  WHERE id = p_answer_id;
+
+  SELECT COALESCE(sum(marks_earned), 0) INTO v_total
+  FROM practice_answers
+  WHERE session_id = v_session.id;
+
+  SELECT ps.subject_id, ps.topic_id INTO v_subject_id, v_topic_id
+  FROM practice_sets ps
+  WHERE ps.id = v_session.practice_set_id;
+
+  -- In-progress sessions pick up the new marks when they are finished; only
+  -- completed sessions have already paid out XP.
+  IF v_session.status <> 'completed' THEN
+    UPDATE practice_sessions SET total_marks_earned = v_total WHERE id = v_session.id;
+  ELSE
+    -- Only the marks-based XP is recalculated; anything else the session
+    -- earned is kept
+    v_xp := GREATEST(0,
+      COALESCE(v_session.xp_earned, 0)
+      - practice_session_marks_xp(COALESCE(v_session.total_marks_earned, 0), COALESCE(v_session.total_marks_available, 0))
+      + practice_session_marks_xp(v_total, COALESCE(v_session.total_marks_available, 0))
+    );
+
+    UPDATE practice_sessions
+    SET total_marks_earned = v_total,
+        xp_earned = v_xp
+    WHERE id = v_session.id;
+
+    IF v_xp <> COALESCE(v_session.xp_earned, 0) THEN
+      SELECT GREATEST(0, xp_total + v_xp - COALESCE(v_session.xp_earned, 0)) INTO v_xp_total
+      FROM student_gamification
+      WHERE student_id = v_session.student_id
+      FOR UPDATE;
+
+      IF FOUND THEN
+        UPDATE student_gamification
+        SET xp_total = v_xp_total,
+            level = 1 + (
+              SELECT count(*)
+              FROM unnest(ARRAY[200, 500, 900, 1400, 2000, 2700, 3500, 4400, 5400]) AS t(threshold)
+              WHERE v_xp_total >= t.threshold
+            )
+        WHERE student_id = v_session.student_id;
+      END IF;
+    END IF;
+
+    IF v_after <> v_before THEN
+      v_month := date_trunc('month', COALESCE(v_session.ended_at, v_reviewed_at))::date;
+
+      SELECT aggregates_json INTO v_aggregate
+      FROM reports_cache_student
+      WHERE student_id = v_session.student_id
+        AND month = v_month
+        AND subject_id IS NOT DISTINCT FROM v_subject_id
+        AND topic_id IS NOT DISTINCT FROM v_topic_id
+      FOR UPDATE;
+
+      IF FOUND THEN
+        v_cached_marks := GREATEST(0, COALESCE((v_aggregate->>'marksEarned')::numeric, 0) + v_after - v_before);
+        UPDATE reports_cache_student
+        SET aggregates_json = v_aggregate || jsonb_build_object(
+              'marksEarned', v_cached_marks,
+              'accuracy', CASE
+                WHEN COALESCE((v_aggregate->>'marksAvailable')::numeric, 0) > 0
+                  THEN v_cached_marks / (v_aggregate->>'marksAvailable')::numeric
+                ELSE 0
+              END
+            )
+        WHERE student_id = v_session.student_id
+          AND month = v_month
+          AND subject_id IS NOT DISTINCT FROM v_subject_id
+          AND topic_id IS NOT DISTINCT FROM v_topic_id;
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO practice_session_events (session_id, item_id, event_type, payload)
+  VALUES (
+    v_session.id,
+    v_answer.item_id,
+    'answer_remarked',
+    jsonb_build_object(
+      'flagId', p_flag_id,
+      'marksBefore', v_before,
+      'marksAfter', v_after,
+      'overrides', COALESCE(p_marking->'overrides', '[]'::jsonb),
+      'reviewerId', auth.uid()
+    )
+  );
+
+  IF p_flag_id IS NOT NULL THEN
+    UPDATE practice_answer_flags
+    SET status = 'resolved',
+        reviewed_by = auth.uid(),
+        reviewed_at = v_reviewed_at,
+        teacher_comment = NULLIF(btrim(COALESCE(p_marking->>'comment', '')), ''),
+        marks_before = v_before,
+        marks_after = v_after,
+        point_overrides = COALESCE(p_marking->'overrides', '[]'::jsonb)
+    WHERE id = p_flag_id
+    RETURNING * INTO v_flag;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'marksBefore', v_before,
+    'marksAfter', v_after,
+    'flag', CASE WHEN p_flag_id IS NULL THEN NULL ELSE to_jsonb(v_flag) END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_practice_answer_marking(uuid, jsonb, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION apply_practice_answer_marking(uuid, jsonb, uuid) TO authenticated;
+
+COMMENT ON TABLE practice_answer_flags IS 'Student requests for a teacher to re-mark an auto-marked practice answer';
+COMMENT ON COLUMN practice_answers.manual_mark_json IS 'Teacher override of auto_mark_json; takes precedence when present';
+COMMENT ON FUNCTION apply_practice_answer_marking IS 'Stores a teacher marking for a practice answer and recomputes session totals, XP and the reports cache in one transaction';
@@ -0,0 +1,32 @@
+/*
+  # Per-item active time for practice answers
+
+  ## Summary
+  The practice player now records item_viewed / item_hidden / item_visible
+  events in practice_session_events. On submission the active (on-screen,
+  tab visible) seconds for the item are stored on the answer so reports and
+  leaderboards can use real timings instead of estimates. The speed bonus
+  earned from that time is stored with the answer and added to the session's
+  XP when it is finished.
+
+  ## Changes
+  - practice_answers.active_time_sec: NULL for answers submitted before
+    timing events were recorded
+  - practice_answers.speed_bonus_xp: XP for answering within the item's time
+    limit (0 for answers that earned no marks)
+  - Index on practice_session_events(session_id, event_type) for the timing
+    replay done on every submission
+
+  ## Security
+  - RLS policies inherited from existing table policies
+*/
+
+ALTER TABLE practice_answers
+ADD COLUMN IF NOT EXISTS active_time_sec integer CHECK (active_time_sec IS NULL OR active_time_sec >= 0),
+ADD COLUMN IF NOT EXISTS speed_bonus_xp integer NOT NULL DEFAULT 0 CHECK (speed_bonus_xp >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_practice_session_events_session_type
+ON practice_session_events(session_id, event_type);
+
+COMMENT ON COLUMN practice_answers.active_time_sec IS 'Seconds the item was on screen with the tab visible before this submission';
+COMMENT ON COLUMN practice_answers.speed_bonus_xp IS 'Speed bonus XP for this answer, added to the session XP on completion';
@@ -0,0 +1,229 @@
+/*
+  # Achievement Catalogue
+
+  ## Summary
+  Replaces the four hard-coded practice badges with a declarative catalogue
+  that system admins manage. Each achievement has a criteria object
+  (metric plus optional subject / accuracy filters) and one or more tiers.
+  Awards are stored per (student, achievement, tier), so awarding is
+  idempotent: a tier can only ever be earned once.
+
+  ## Changes
+  - achievement_definitions: catalogue, editable by system admins
+  - student_achievements: earned tiers, unique per student/achievement/tier
+  - Seeds the catalogue with tiered versions of the previous badges plus
+    session, subject and topic coverage achievements
+  - award_student_achievements(): evaluates every active definition against
+    the student's stored progress and completed sessions and returns the
+    newly inserted student_achievements rows
+
+  ## Security
+  - Authenticated users can read active definitions; admins manage them
+  - Students read their own awards; admins read all
+  - Awards are only inserted by award_student_achievements(), which the
+    student themselves or an admin can trigger; award values come from the
+    database, not from the caller
+*/
+
+CREATE TABLE IF NOT EXISTS achievement_definitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  icon text NOT NULL DEFAULT 'award',
+  criteria jsonb NOT NULL,
+  tiers jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CONSTRAINT achievement_definitions_criteria_metric CHECK (criteria ? 'metric'),
+  CONSTRAINT achievement_definitions_tiers_array CHECK (jsonb_typeof(tiers) = 'array')
+);
+
+CREATE TABLE IF NOT EXISTS student_achievements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  achievement_id uuid NOT NULL REFERENCES achievement_definitions(id) ON DELETE CASCADE,
+  tier integer NOT NULL DEFAULT 1,
+  value_at_award numeric NOT NULL DEFAULT 0,
+  earned_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  UNIQUE (student_id, achievement_id, tier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_achievements_student ON student_achievements(student_id);
+CREATE INDEX IF NOT EXISTS idx_student_achievements_achievement ON student_achievements(achievement_id);
+CREATE INDEX IF NOT EXISTS idx_achievement_definitions_active ON achievement_definitions(is_active, sort_order);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+ALTER TABLE achievement_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "achievement_definitions_select"
+  ON achievement_definitions FOR SELECT TO authenticated
+  USING (is_active = true OR is_admin_user((select auth.uid())));
+
+CREATE POLICY "achievement_definitions_admin_manage"
+  ON achievement_definitions FOR ALL TO authenticated
+  USING (is_admin_user((select auth.uid())))
+  WITH CHECK (is_admin_user((select auth.uid())));
+
+CREATE POLICY "student_achievements_select_own"
+  ON student_achievements FOR SELECT TO authenticated
+  USING (
+    is_admin_user((select auth.uid())) OR
+    student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid()))
+  );
+
+-- ============================================================================
+-- Seed catalogue
+-- ============================================================================
+INSERT INTO achievement_definitions (code, name, description, icon, criteria, tiers, sort_order)
+VALUES
+  (
+    'accuracy-master',
+    'Accuracy Master',
+    'Finish practice sessions with at least 95% accuracy.',
+    'target',
+    '{"metric": "sessions_at_accuracy", "minAccuracy": 0.95}',
+    '[{"tier": 1, "label": "Bronze", "threshold": 1}, {"tier": 2, "label": "Silver", "threshold": 5}, {"tier": 3, "label": "Gold", "threshold": 20}]',
+    10
+  ),
+  (
+    'streak',
+    'On a Roll',
+    'Keep a daily practice streak going.',
+    'flame',
+    '{"metric": "longest_streak_days"}',
+    '[{"tier": 1, "label": "5 days", "threshold": 5}, {"tier": 2, "label": "10 days", "threshold": 10}, {"tier": 3, "label": "30 days", "threshold": 30}]',
+    20
+  ),
+  (
+    'xp-surge',
+    'XP Surge',
+    'Earn a large amount of XP in a single session.',
+    'zap',
+    '{"metric": "best_session_xp"}',
+    '[{"tier": 1, "label": "1,000 XP", "threshold": 1000}]',
+    30
+  ),
+  (
+    'xp-collector',
+    'XP Collector',
+    'Build up your total XP.',
+    'trophy',
+    '{"metric": "xp_total"}',
+    '[{"tier": 1, "label": "Bronze", "threshold": 500}, {"tier": 2, "label": "Silver", "threshold": 2000}, {"tier": 3, "label": "Gold", "threshold": 5400}]',
+    40
+  ),
+  (
+    'dedicated-learner',
+    'Dedicated Learner',
+    'Complete practice sessions.',
+    'book-open',
+    '{"metric": "sessions_completed"}',
+    '[{"tier": 1, "label": "First session", "threshold": 1}, {"tier": 2, "label": "10 sessions", "threshold": 10}, {"tier": 3, "label": "50 sessions", "threshold": 50}]',
+    50
+  ),
+  (
+    'explorer',
+    'Explorer',
+    'Practise across different topics.',
+    'compass',
+    '{"metric": "topics_covered"}',
+    '[{"tier": 1, "label": "5 topics", "threshold": 5}, {"tier": 2, "label": "15 topics", "threshold": 15}]',
+    60
+  ),
+  (
+    'all-rounder',
+    'All-Rounder',
+    'Practise in several subjects.',
+    'layers',
+    '{"metric": "subjects_practised"}',
+    '[{"tier": 1, "label": "3 subjects", "threshold": 3}]',
+    70
+  )
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================================================
+-- Awarding
+-- ============================================================================
+-- Metric rules mirror evaluateAchievementMetric / resolveNewTiers in
+-- achievementRules.ts; keep them in sync
+CREATE OR REPLACE FUNCTION award_student_achievements(p_student_id uuid)
+RETURNS SETOF student_achievements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_progress student_gamification;
+  v_definition achievement_definitions;
+  v_subject_id uuid;
+  v_value numeric;
+BEGIN
+  IF NOT (
+    is_admin_user(auth.uid()) OR
+    EXISTS (SELECT 1 FROM students WHERE id = p_student_id AND user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to award achievements for this student';
+  END IF;
+
+  SELECT * INTO v_progress FROM student_gamification WHERE student_id = p_student_id;
+
+  FOR v_definition IN
+    SELECT * FROM achievement_definitions WHERE is_active = true ORDER BY sort_order
+  LOOP
+    v_subject_id := NULLIF(v_definition.criteria->>'subjectId', '')::uuid;
+
+    WITH sessions AS (
+      SELECT
+        ps.xp_earned,
+        CASE
+          WHEN COALESCE(ps.total_marks_available, 0) > 0
+            THEN COALESCE(ps.total_marks_earned, 0) / ps.total_marks_available
+          ELSE 0
+        END AS accuracy,
+        pset.subject_id,
+        pset.topic_id
+      FROM practice_sessions ps
+      JOIN practice_sets pset ON pset.id = ps.practice_set_id
+      WHERE ps.student_id = p_student_id
+        AND ps.status = 'completed'
+        AND (v_subject_id IS NULL OR pset.subject_id = v_subject_id)
+    )
+    SELECT CASE v_definition.criteria->>'metric'
+      WHEN 'xp_total' THEN
+        CASE WHEN v_subject_id IS NULL THEN COALESCE(v_progress.xp_total, 0) ELSE COALESCE(sum(xp_earned), 0) END
+      WHEN 'best_session_xp' THEN COALESCE(max(xp_earned), 0)
+      WHEN 'current_streak_days' THEN COALESCE(v_progress.current_streak_days, 0)
+      WHEN 'longest_streak_days' THEN COALESCE(v_progress.longest_streak_days, 0)
+      WHEN 'sessions_completed' THEN count(*)
+      WHEN 'sessions_at_accuracy' THEN
+        count(*) FILTER (WHERE accuracy >= COALESCE((v_definition.criteria->>'minAccuracy')::numeric, 0.95))
+      WHEN 'subjects_practised' THEN count(DISTINCT subject_id)
+      WHEN 'topics_covered' THEN count(DISTINCT topic_id)
+      ELSE 0
+    END
+    INTO v_value
+    FROM sessions;
+
+    RETURN QUERY
+    INSERT INTO student_achievements (student_id, achievement_id, tier, value_at_award)
+    SELECT p_student_id, v_definition.id, (tier->>'tier')::integer, v_value
+    FROM jsonb_array_elements(v_definition.tiers) AS tier
+    WHERE v_value >= (tier->>'threshold')::numeric
+    ON CONFLICT (student_id, achievement_id, tier) DO NOTHING
+    RETURNING *;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION award_student_achievements(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION award_student_achievements(uuid) TO authenticated;
+
+COMMENT ON TABLE achievement_definitions IS 'Declarative achievement catalogue evaluated when a practice session completes';
+COMMENT ON TABLE student_achievements IS 'Achievement tiers earned by students; one row per student, achievement and tier';
+COMMENT ON FUNCTION award_student_achievements IS 'Evaluates the active achievement catalogue for a student and inserts any newly reached tiers';
@@ -0,0 +1,161 @@
+/*
+  # Calendar-day practice streaks
+
+  ## Summary
+  Streaks are now counted in calendar days of the student's school timezone:
+  any completed practice session on a day keeps the streak, regardless of
+  accuracy. Students can spend XP on streak-freeze tokens that bridge missed
+  days. Daily activity is stored so students and teachers can see a streak
+  calendar.
+
+  ## Changes
+  - schools.timezone: IANA timezone used for streak days (default UTC)
+  - student_gamification: last_streak_day, streak_freezes_available, xp_spent
+    (freezes are paid from xp_total - xp_spent so levels and leaderboards are
+    unaffected)
+  - student_activity_days: one row per student per active (or frozen) day
+  - purchase_streak_freeze(): atomic XP spend with balance and cap checks
+  - guard_student_gamification_write(): students still save their own
+    progress after each session, but may only use up freezes; they cannot add
+    freezes or change xp_spent
+
+  ## Security
+  - Students read/write their own activity days; teachers read their
+    students' days via is_teacher_of_student(); admins read all
+  - Freezes are only added, and XP only spent, by purchase_streak_freeze()
+*/
+
+ALTER TABLE schools
+ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE student_gamification
+  ADD COLUMN IF NOT EXISTS last_streak_day date,
+  ADD COLUMN IF NOT EXISTS streak_freezes_available integer NOT NULL DEFAULT 0 CHECK (streak_freezes_available >= 0),
+  ADD COLUMN IF NOT EXISTS xp_spent integer NOT NULL DEFAULT 0 CHECK (xp_spent >= 0);
+
+-- Existing streaks continue from the last recorded activity
+UPDATE student_gamification
+SET last_streak_day = (last_active_at AT TIME ZONE 'UTC')::date
+WHERE last_streak_day IS NULL
+  AND last_active_at IS NOT NULL
+  AND current_streak_days > 0;
+
+CREATE TABLE IF NOT EXISTS student_activity_days (
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  activity_date date NOT NULL,
+  sessions_completed integer NOT NULL DEFAULT 0,
+  xp_earned integer NOT NULL DEFAULT 0,
+  freeze_used boolean NOT NULL DEFAULT false,
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  PRIMARY KEY (student_id, activity_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_activity_days_date ON student_activity_days(activity_date);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+ALTER TABLE student_activity_days ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "student_activity_days_select"
+  ON student_activity_days FOR SELECT TO authenticated
+  USING (
+    is_admin_user((select auth.uid())) OR
+    student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid())) OR
+    is_teacher_of_student((select auth.uid()), student_id)
+  );
+
+CREATE POLICY "student_activity_days_insert_own"
+  ON student_activity_days FOR INSERT TO authenticated
+  WITH CHECK (student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid())));
+
+CREATE POLICY "student_activity_days_update_own"
+  ON student_activity_days FOR UPDATE TO authenticated
+  USING (student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid())))
+  WITH CHECK (student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid())));
+
+-- ============================================================================
+-- Freeze purchase
+-- ============================================================================
+-- Cost and cap are fixed here (not taken from the caller); keep them in sync
+-- with STREAK_FREEZE_COST_XP / MAX_STREAK_FREEZES in streakCalendar.ts
+CREATE OR REPLACE FUNCTION purchase_streak_freeze(p_student_id uuid)
+RETURNS student_gamification
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  freeze_cost constant integer := 200;
+  max_freezes constant integer := 2;
+  result student_gamification;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM students WHERE id = p_student_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to purchase freezes for this student';
+  END IF;
+
+  UPDATE student_gamification
+  SET xp_spent = xp_spent + freeze_cost,
+      streak_freezes_available = streak_freezes_available + 1
+  WHERE student_id = p_student_id
+    AND xp_total - xp_spent >= freeze_cost
+    AND streak_freezes_available < max_freezes
+  RETURNING * INTO result;
+
+  IF result IS NULL THEN
+    RAISE EXCEPTION 'Not enough XP or freeze limit reached';
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION purchase_streak_freeze(uuid) TO authenticated;
+
+-- Row level security cannot limit columns, so direct writes by students are
+-- checked here. Not SECURITY DEFINER: writes made inside SECURITY DEFINER
+-- functions such as purchase_streak_freeze() run as the function owner and
+-- are let through.
+CREATE OR REPLACE FUNCTION guard_student_gamification_write()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_freezes integer := 0;
+  v_spent integer := 0;
+BEGIN
+  IF current_user <> 'authenticated' OR is_admin_user(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    v_freezes := OLD.streak_freezes_available;
+    v_spent := OLD.xp_spent;
+  ELSE
+    -- An upsert is checked as an insert first, so compare with any existing row
+    SELECT streak_freezes_available, xp_spent INTO v_freezes, v_spent
+    FROM student_gamification
+    WHERE student_id = NEW.student_id;
+    v_freezes := COALESCE(v_freezes, 0);
+    v_spent := COALESCE(v_spent, 0);
+  END IF;
+
+  IF NEW.streak_freezes_available > v_freezes OR NEW.xp_spent IS DISTINCT FROM v_spent THEN
+    RAISE EXCEPTION 'Streak freezes can only be bought with purchase_streak_freeze()';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_student_gamification_write ON student_gamification;
+CREATE TRIGGER guard_student_gamification_write
+  BEFORE INSERT OR UPDATE ON student_gamification
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_student_gamification_write();
+
+COMMENT ON TABLE student_activity_days IS 'Per-day practice activity in the school timezone; drives streaks and the streak calendar';
+COMMENT ON COLUMN schools.timezone IS 'IANA timezone (e.g. Asia/Dubai) used for calendar-day features such as streaks';
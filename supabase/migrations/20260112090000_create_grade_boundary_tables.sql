@@ -0,0 +1,74 @@
+/*
+  # Grade Boundary Tables
+
+  ## Summary
+  Grade predictions used fixed 10% bands for every subject. Boards publish
+  raw-mark thresholds per syllabus, component and exam series, so these are
+  now stored as admin-managed tables and used by practice analytics and mock
+  exam results to predict grades and show the marks needed for the next grade.
+
+  ## Changes
+  - grade_boundary_tables: thresholds per board / syllabus / component /
+    series / year, as raw marks out of max_mark
+  - mock_exams.grade_boundary_table_id: boundary table applied to a mock
+  - mock_exam_results: marks_to_next_grade and the table used
+  - practice_results_analytics: next grade, marks needed and the table used
+
+  ## Security
+  - Authenticated users can read active tables; admins manage them
+*/
+
+CREATE TABLE IF NOT EXISTS grade_boundary_tables (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  board text NOT NULL CHECK (board IN ('cambridge', 'edexcel', 'aqa', 'ocr', 'other')),
+  grading_scheme text NOT NULL CHECK (grading_scheme IN ('a_star_g', 'a_star_e', 'nine_to_one')),
+  syllabus_code text NOT NULL,
+  component_code text,
+  exam_series text NOT NULL CHECK (exam_series IN ('january', 'feb_march', 'may_june', 'june', 'oct_nov', 'november')),
+  exam_year integer NOT NULL CHECK (exam_year >= 2000),
+  max_mark numeric(6,2) NOT NULL CHECK (max_mark > 0),
+  thresholds jsonb NOT NULL DEFAULT '[]'::jsonb,
+  subject_id uuid REFERENCES edu_subjects(id) ON DELETE SET NULL,
+  notes text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CONSTRAINT grade_boundary_tables_thresholds_array CHECK (jsonb_typeof(thresholds) = 'array')
+);
+
+-- One table per paper and series; NULL component means syllabus-wide
+CREATE UNIQUE INDEX IF NOT EXISTS idx_grade_boundary_tables_unique
+  ON grade_boundary_tables(board, upper(syllabus_code), upper(coalesce(component_code, '')), exam_series, exam_year);
+
+CREATE INDEX IF NOT EXISTS idx_grade_boundary_tables_syllabus
+  ON grade_boundary_tables(upper(syllabus_code)) WHERE is_active = true;
+
+CREATE INDEX IF NOT EXISTS idx_grade_boundary_tables_subject ON grade_boundary_tables(subject_id);
+
+ALTER TABLE mock_exams
+  ADD COLUMN IF NOT EXISTS grade_boundary_table_id uuid REFERENCES grade_boundary_tables(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_mock_exams_grade_boundary_table ON mock_exams(grade_boundary_table_id);
+
+ALTER TABLE mock_exam_results
+  ADD COLUMN IF NOT EXISTS marks_to_next_grade numeric(8,2),
+  ADD COLUMN IF NOT EXISTS grade_boundary_table_id uuid REFERENCES grade_boundary_tables(id) ON DELETE SET NULL;
+
+ALTER TABLE practice_results_analytics
+  ADD COLUMN IF NOT EXISTS next_grade text,
+  ADD COLUMN IF NOT EXISTS marks_to_next_grade numeric(8,2),
+  ADD COLUMN IF NOT EXISTS grade_boundary_table_id uuid REFERENCES grade_boundary_tables(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+ALTER TABLE grade_boundary_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "grade_boundary_tables_select"
+  ON grade_boundary_tables FOR SELECT TO authenticated
+  USING (is_active = true OR is_admin_user((select auth.uid())));
+
+CREATE POLICY "grade_boundary_tables_admin_manage"
+  ON grade_boundary_tables FOR ALL TO authenticated
+  USING (is_admin_user((select auth.uid())))
+  WITH CHECK (is_admin_user((select auth.uid())));
@@ -0,0 +1,427 @@
+/*
+  # Speaking Assessments (Teacher Marking of Audio Answers)
+
+  Audio answers to language oral questions cannot be auto-marked. Each
+  submitted recording is queued here for a teacher, who scores it against a
+  rubric (e.g. pronunciation, fluency, content bands) and leaves comments
+  pinned to points in the recording. A sample of marked scripts is drawn for
+  moderation. The final mark is written back to the practice answer
+  (manual_mark_json) or the mock exam response and result.
+
+  ## Changes
+  - speaking_rubrics: reusable rubric definitions (criteria and bands as jsonb)
+  - speaking_assessments: one row per recorded answer, linked to exactly one
+    of practice_answers or mock_exam_responses
+  - mark_speaking_assessment(): stores rubric scores and comments and writes
+    the mark back to the practice answer or the mock exam response and result
+  - moderate_speaking_assessment(): records a moderator's re-score of a
+    sampled script and writes the moderated mark back when it differs
+  - guard_speaking_assessment_update(): students may only replace the
+    recording on their own rows
+
+  ## Security
+  - Teachers can create rubrics and edit or delete only the ones they created
+  - Students may only queue pending, unmarked rows for their own practice
+    answers
+  - Marks are written back only through mark_speaking_assessment() and
+    moderate_speaking_assessment(), so teachers need no write policies on
+    mock_exam_responses or mock_exam_results
+  - Only admins and teachers of the student can mark; awarded marks must lie
+    between 0 and both the assessment's and the item's maximum
+*/
+
+CREATE TABLE IF NOT EXISTS speaking_rubrics (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  subject_id uuid REFERENCES edu_subjects(id) ON DELETE SET NULL,
+  criteria jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+
+CREATE TABLE IF NOT EXISTS speaking_assessments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source text NOT NULL CHECK (source IN ('practice', 'mock_exam')),
+  practice_answer_id uuid REFERENCES practice_answers(id) ON DELETE CASCADE,
+  mock_exam_response_id uuid REFERENCES mock_exam_responses(id) ON DELETE CASCADE,
+  mock_exam_id uuid REFERENCES mock_exams(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  question_id uuid REFERENCES questions_master_admin(id) ON DELETE SET NULL,
+  rubric_id uuid REFERENCES speaking_rubrics(id) ON DELETE SET NULL,
+  recording jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'marked', 'moderated')),
+  criterion_scores jsonb NOT NULL DEFAULT '[]'::jsonb,
+  comments jsonb NOT NULL DEFAULT '[]'::jsonb,
+  overall_comment text,
+  marks_awarded numeric(6,2),
+  max_marks numeric(6,2) NOT NULL CHECK (max_marks > 0),
+  marked_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  marked_at timestamptz,
+  moderation_selected boolean NOT NULL DEFAULT false,
+  moderated_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  moderated_at timestamptz,
+  moderation_marks numeric(6,2),
+  moderation_notes text,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CONSTRAINT speaking_assessments_one_source CHECK (
+    (source = 'practice' AND practice_answer_id IS NOT NULL AND mock_exam_response_id IS NULL) OR
+    (source = 'mock_exam' AND mock_exam_response_id IS NOT NULL AND practice_answer_id IS NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_speaking_assessments_practice_answer
+  ON speaking_assessments(practice_answer_id) WHERE practice_answer_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_speaking_assessments_mock_response
+  ON speaking_assessments(mock_exam_response_id) WHERE mock_exam_response_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_speaking_assessments_status
+  ON speaking_assessments(status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_speaking_assessments_student
+  ON speaking_assessments(student_id);
+
+CREATE INDEX IF NOT EXISTS idx_speaking_assessments_moderation
+  ON speaking_assessments(moderation_selected) WHERE moderation_selected = true;
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+ALTER TABLE speaking_rubrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE speaking_assessments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "speaking_rubrics_select"
+  ON speaking_rubrics FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "speaking_rubrics_insert"
+  ON speaking_rubrics FOR INSERT TO authenticated
+  WITH CHECK (
+    is_admin_user((select auth.uid())) OR
+    (
+      created_by = (select auth.uid()) AND
+      EXISTS (SELECT 1 FROM teachers WHERE user_id = (select auth.uid()))
+    )
+  );
+
+CREATE POLICY "speaking_rubrics_update"
+  ON speaking_rubrics FOR UPDATE TO authenticated
+  USING (is_admin_user((select auth.uid())) OR created_by = (select auth.uid()))
+  WITH CHECK (is_admin_user((select auth.uid())) OR created_by = (select auth.uid()));
+
+CREATE POLICY "speaking_rubrics_delete"
+  ON speaking_rubrics FOR DELETE TO authenticated
+  USING (is_admin_user((select auth.uid())) OR created_by = (select auth.uid()));
+
+CREATE POLICY "speaking_assessments_select"
+  ON speaking_assessments FOR SELECT TO authenticated
+  USING (
+    is_admin_user((select auth.uid())) OR
+    student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid())) OR
+    is_teacher_of_student((select auth.uid()), student_id)
+  );
+
+-- Students queue their own recordings when they submit an answer
+CREATE POLICY "speaking_assessments_insert"
+  ON speaking_assessments FOR INSERT TO authenticated
+  WITH CHECK (
+    is_admin_user((select auth.uid())) OR
+    is_teacher_of_student((select auth.uid()), student_id) OR
+    (
+      source = 'practice' AND
+      status = 'pending' AND
+      marks_awarded IS NULL AND
+      criterion_scores = '[]'::jsonb AND
+      marked_by IS NULL AND
+      moderation_selected = false AND
+      moderation_marks IS NULL AND
+      student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid())) AND
+      EXISTS (
+        SELECT 1
+        FROM practice_answers pa
+        JOIN practice_sessions ps ON ps.id = pa.session_id
+        WHERE pa.id = practice_answer_id
+          AND ps.student_id = speaking_assessments.student_id
+      )
+    )
+  );
+
+-- A student resubmitting an answer replaces the recording; teachers draw the
+-- moderation sample
+CREATE POLICY "speaking_assessments_update"
+  ON speaking_assessments FOR UPDATE TO authenticated
+  USING (
+    is_admin_user((select auth.uid())) OR
+    student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid())) OR
+    is_teacher_of_student((select auth.uid()), student_id)
+  )
+  WITH CHECK (
+    is_admin_user((select auth.uid())) OR
+    student_id IN (SELECT id FROM students WHERE user_id = (select auth.uid())) OR
+    is_teacher_of_student((select auth.uid()), student_id)
+  );
+
+-- Row level security cannot limit columns, so a student's update is checked
+-- here: everything apart from the recording must stay as it was
+CREATE OR REPLACE FUNCTION guard_speaking_assessment_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR
+     is_admin_user(auth.uid()) OR
+     is_teacher_of_student(auth.uid(), OLD.student_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'recording' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'recording' - 'updated_at') THEN
+    RAISE EXCEPTION 'Only the recording of a speaking assessment can be replaced';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_speaking_assessment_update ON speaking_assessments;
+CREATE TRIGGER guard_speaking_assessment_update
+  BEFORE UPDATE ON speaking_assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_speaking_assessment_update();
+
+-- ============================================================================
+-- Marking
+-- ============================================================================
+CREATE OR REPLACE FUNCTION can_mark_speaking_assessment(p_assessment speaking_assessments)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    is_admin_user(auth.uid()) OR
+    is_teacher_of_student(auth.uid(), p_assessment.student_id);
+$$;
+
+-- Writes a rubric marking (ManualMarkResult) back to wherever the recording
+-- came from. Callers lock the assessment row first.
+CREATE OR REPLACE FUNCTION write_back_speaking_marks(p_assessment speaking_assessments, p_marking jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response mock_exam_responses;
+  v_awarded numeric;
+  v_marker_id uuid;
+  v_comments text;
+  v_scored numeric;
+  v_possible numeric;
+BEGIN
+  IF NOT can_mark_speaking_assessment(p_assessment) THEN
+    RAISE EXCEPTION 'Not allowed to mark this recording';
+  END IF;
+
+  v_awarded := (p_marking->>'totalAwarded')::numeric;
+  IF v_awarded IS NULL OR v_awarded < 0 OR v_awarded > p_assessment.max_marks THEN
+    RAISE EXCEPTION 'Awarded marks must be between 0 and %', p_assessment.max_marks;
+  END IF;
+
+  IF p_assessment.source = 'practice' THEN
+    -- Checks the answer's own maximum and recomputes session totals and XP
+    PERFORM apply_practice_answer_marking(p_assessment.practice_answer_id, p_marking, NULL);
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_response
+  FROM mock_exam_responses
+  WHERE id = p_assessment.mock_exam_response_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mock exam response not found';
+  END IF;
+
+  IF v_awarded > v_response.max_marks THEN
+    RAISE EXCEPTION 'Awarded marks must be between 0 and %', v_response.max_marks;
+  END IF;
+
+  -- Mock exam markers are recorded as entity users rather than auth users
+  SELECT eu.id INTO v_marker_id
+  FROM entity_users eu
+  JOIN mock_exams me ON me.company_id = eu.company_id
+  WHERE me.id = v_response.mock_exam_id AND eu.user_id = auth.uid()
+  LIMIT 1;
+
+  v_comments := array_to_string(
+    ARRAY(
+      SELECT NULLIF(trim(a->>'notes'), '')
+      FROM jsonb_array_elements(COALESCE(p_marking->'awarded', '[]'::jsonb)) AS a
+    ) ||
+    ARRAY(
+      SELECT NULLIF(trim(d->>'reason'), '')
+      FROM jsonb_array_elements(COALESCE(p_marking->'denied', '[]'::jsonb)) AS d
+    ) ||
+    ARRAY[NULLIF(trim(p_marking->>'comment'), '')],
+    E'\n'
+  );
+
+  UPDATE mock_exam_responses
+  SET marks_awarded = v_awarded,
+      is_correct = v_awarded >= v_response.max_marks,
+      marker_id = v_marker_id,
+      marker_comments = NULLIF(v_comments, ''),
+      marked_at = now(),
+      auto_marked = false,
+      updated_at = now()
+  WHERE id = v_response.id;
+
+  SELECT COALESCE(sum(marks_awarded), 0), COALESCE(sum(max_marks), 0)
+  INTO v_scored, v_possible
+  FROM mock_exam_responses
+  WHERE mock_exam_id = v_response.mock_exam_id
+    AND student_id = v_response.student_id;
+
+  IF v_possible <= 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO mock_exam_results (
+    mock_exam_id, student_id, total_marks_scored, total_marks_possible, percentage_score
+  )
+  VALUES (
+    v_response.mock_exam_id,
+    v_response.student_id,
+    v_scored,
+    v_possible,
+    round(v_scored / v_possible * 100, 2)
+  )
+  ON CONFLICT (mock_exam_id, student_id) DO UPDATE SET
+    total_marks_scored = EXCLUDED.total_marks_scored,
+    total_marks_possible = EXCLUDED.total_marks_possible,
+    percentage_score = EXCLUDED.percentage_score,
+    updated_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_speaking_assessment(
+  p_assessment_id uuid,
+  p_marking jsonb,
+  p_criterion_scores jsonb,
+  p_comments jsonb,
+  p_overall_comment text
+)
+RETURNS speaking_assessments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_assessment speaking_assessments;
+BEGIN
+  SELECT * INTO v_assessment FROM speaking_assessments WHERE id = p_assessment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Speaking assessment not found';
+  END IF;
+
+  IF NOT can_mark_speaking_assessment(v_assessment) THEN
+    RAISE EXCEPTION 'Not allowed to mark this recording';
+  END IF;
+
+  IF v_assessment.status = 'moderated' THEN
+    RAISE EXCEPTION 'This recording has already been moderated';
+  END IF;
+
+  PERFORM write_back_speaking_marks(v_assessment, p_marking);
+
+  UPDATE speaking_assessments
+  SET status = 'marked',
+      criterion_scores = COALESCE(p_criterion_scores, '[]'::jsonb),
+      comments = COALESCE(p_comments, '[]'::jsonb),
+      overall_comment = NULLIF(trim(p_overall_comment), ''),
+      marks_awarded = (p_marking->>'totalAwarded')::numeric,
+      marked_by = auth.uid(),
+      marked_at = timezone('utc', now()),
+      updated_at = timezone('utc', now())
+  WHERE id = p_assessment_id
+  RETURNING * INTO v_assessment;
+
+  RETURN v_assessment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION moderate_speaking_assessment(
+  p_assessment_id uuid,
+  p_marking jsonb,
+  p_notes text
+)
+RETURNS speaking_assessments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_assessment speaking_assessments;
+  v_awarded numeric;
+BEGIN
+  SELECT * INTO v_assessment FROM speaking_assessments WHERE id = p_assessment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Speaking assessment not found';
+  END IF;
+
+  IF NOT can_mark_speaking_assessment(v_assessment) THEN
+    RAISE EXCEPTION 'Not allowed to moderate this recording';
+  END IF;
+
+  IF NOT v_assessment.moderation_selected OR v_assessment.status <> 'marked' THEN
+    RAISE EXCEPTION 'This recording is not awaiting moderation';
+  END IF;
+
+  IF v_assessment.marked_by = auth.uid() THEN
+    RAISE EXCEPTION 'Scripts must be moderated by someone other than the original marker';
+  END IF;
+
+  v_awarded := (p_marking->>'totalAwarded')::numeric;
+  IF v_awarded IS DISTINCT FROM COALESCE(v_assessment.marks_awarded, 0) THEN
+    PERFORM write_back_speaking_marks(v_assessment, p_marking);
+  ELSIF v_awarded < 0 OR v_awarded > v_assessment.max_marks THEN
+    RAISE EXCEPTION 'Awarded marks must be between 0 and %', v_assessment.max_marks;
+  END IF;
+
+  UPDATE speaking_assessments
+  SET status = 'moderated',
+      moderated_by = auth.uid(),
+      moderated_at = timezone('utc', now()),
+      moderation_marks = v_awarded,
+      moderation_notes = NULLIF(trim(p_notes), ''),
+      updated_at = timezone('utc', now())
+  WHERE id = p_assessment_id
+  RETURNING * INTO v_assessment;
+
+  RETURN v_assessment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION can_mark_speaking_assessment(speaking_assessments) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION can_mark_speaking_assessment(speaking_assessments) FROM anon;
+REVOKE EXECUTE ON FUNCTION can_mark_speaking_assessment(speaking_assessments) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION write_back_speaking_marks(speaking_assessments, jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION write_back_speaking_marks(speaking_assessments, jsonb) FROM anon;
+REVOKE EXECUTE ON FUNCTION write_back_speaking_marks(speaking_assessments, jsonb) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION mark_speaking_assessment(uuid, jsonb, jsonb, jsonb, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION moderate_speaking_assessment(uuid, jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mark_speaking_assessment(uuid, jsonb, jsonb, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_speaking_assessment(uuid, jsonb, text) TO authenticated;
+
+COMMENT ON TABLE speaking_rubrics IS 'Rubrics (criteria with mark bands) for marking recorded speaking answers';
+COMMENT ON TABLE speaking_assessments IS 'Teacher marking queue for recorded speaking answers from practice and mock exams';
+COMMENT ON COLUMN speaking_assessments.comments IS 'Comments pinned to a point in the recording: [{id, atSeconds, text, authorId, createdAt}]';
+COMMENT ON COLUMN speaking_assessments.moderation_marks IS 'Moderator''s mark for a sampled script; replaces marks_awarded when moderated';
+COMMENT ON FUNCTION mark_speaking_assessment IS 'Stores a rubric marking for a recorded speaking answer and writes the mark back to the practice answer or mock exam response';
+COMMENT ON FUNCTION moderate_speaking_assessment IS 'Records a moderator''s re-score of a sampled speaking script and writes back the moderated mark';
@@ -0,0 +1,162 @@
+/*
+  # Grading rules for table completion templates
+
+  ## Summary
+  Table templates can now carry partial-credit rules: a rule covers a set of
+  rows or columns and scores them per cell, per fully correct row/column, or
+  one mark per N correct cells, optionally accepting answers in any order.
+  Cells can also be marked numeric with an absolute or percentage tolerance.
+
+  ## Changes
+  - table_templates.grading_rules / table_templates_import_review.grading_rules:
+    ordered JSON array of rules; the first rule covering a cell scores it
+  - table_template_cells / table_template_cells_import_review:
+    - answer_type: 'text' (default) or 'numeric'
+    - numeric_tolerance: accepted distance from the expected value
+    - tolerance_type: 'absolute' or 'percentage'
+  - migrate_review_templates_to_production copies the new columns when an
+    import is approved
+
+  ## Security
+  - RLS policies inherited from existing table policies
+*/
+
+ALTER TABLE table_templates
+ADD COLUMN IF NOT EXISTS grading_rules jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE table_templates_import_review
+ADD COLUMN IF NOT EXISTS grading_rules jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE table_template_cells
+ADD COLUMN IF NOT EXISTS answer_type text NOT NULL DEFAULT 'text' CHECK (answer_type IN ('text', 'numeric')),
+ADD COLUMN IF NOT EXISTS numeric_tolerance numeric CHECK (numeric_tolerance IS NULL OR numeric_tolerance >= 0),
+ADD COLUMN IF NOT EXISTS tolerance_type text CHECK (tolerance_type IS NULL OR tolerance_type IN ('absolute', 'percentage'));
+
+ALTER TABLE table_template_cells_import_review
+ADD COLUMN IF NOT EXISTS answer_type text NOT NULL DEFAULT 'text' CHECK (answer_type IN ('text', 'numeric')),
+ADD COLUMN IF NOT EXISTS numeric_tolerance numeric CHECK (numeric_tolerance IS NULL OR numeric_tolerance >= 0),
+ADD COLUMN IF NOT EXISTS tolerance_type text CHECK (tolerance_type IS NULL OR tolerance_type IN ('absolute', 'percentage'));
+
+CREATE OR REPLACE FUNCTION migrate_review_templates_to_production(
+  p_review_session_id uuid,
+  p_question_mapping jsonb  -- Maps question_identifier to actual question_id/sub_question_id
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_template RECORD;
+  v_cell RECORD;
+  v_new_template_id uuid;
+  v_question_id uuid;
+  v_sub_question_id uuid;
+  v_is_subquestion boolean;
+  v_migrated_count integer := 0;
+  v_result jsonb;
+BEGIN
+  -- Iterate through all templates for this review session
+  FOR v_template IN
+    SELECT * FROM table_templates_import_review
+    WHERE review_session_id = p_review_session_id
+  LOOP
+    -- Get the actual question ID from mapping
+    v_question_id := NULL;
+    v_sub_question_id := NULL;
+    v_is_subquestion := v_template.is_subquestion;
+
+    IF v_is_subquestion THEN
+      v_sub_question_id := (p_question_mapping->v_template.question_identifier->>'sub_question_id')::uuid;
+    ELSE
+      v_question_id := (p_question_mapping->v_template.question_identifier->>'question_id')::uuid;
+    END IF;
+
+    -- Skip if mapping not found
+    IF v_question_id IS NULL AND v_sub_question_id IS NULL THEN
+      RAISE NOTICE 'No mapping found for question_identifier: %', v_template.question_identifier;
+      CONTINUE;
+    END IF;
+
+    -- Insert template into production table
+    INSERT INTO table_templates (
+      question_id,
+      sub_question_id,
+      rows,
+      columns,
+      headers,
+      title,
+      description,
+      grading_rules
+    ) VALUES (
+      v_question_id,
+      v_sub_question_id,
+      v_template.rows,
+      v_template.columns,
+      v_template.headers,
+      v_template.title,
+      v_template.description,
+      v_template.grading_rules
+    )
+    RETURNING id INTO v_new_template_id;
+
+    -- Migrate all cells for this template
+    FOR v_cell IN
+      SELECT * FROM table_template_cells_import_review
+      WHERE template_id = v_template.id
+    LOOP
+      INSERT INTO table_template_cells (
+        template_id,
+        row_index,
+        col_index,
+        cell_type,
+        locked_value,
+        expected_answer,
+        marks,
+        accepts_equivalent_phrasing,
+        case_sensitive,
+        alternative_answers,
+        answer_type,
+        numeric_tolerance,
+        tolerance_type
+      ) VALUES (
+        v_new_template_id,
+        v_cell.row_index,
+        v_cell.col_index,
+        v_cell.cell_type,
+        v_cell.locked_value,
+        v_cell.expected_answer,
+        v_cell.marks,
+        v_cell.accepts_equivalent_phrasing,
+        v_cell.case_sensitive,
+        v_cell.alternative_answers,
+        v_cell.answer_type,
+        v_cell.numeric_tolerance,
+        v_cell.tolerance_type
+      );
+    END LOOP;
+
+    v_migrated_count := v_migrated_count + 1;
+  END LOOP;
+
+  -- Delete review templates (will cascade to cells)
+  DELETE FROM table_templates_import_review
+  WHERE review_session_id = p_review_session_id;
+
+  -- Return result
+  v_result := jsonb_build_object(
+    'success', true,
+    'migrated_count', v_migrated_count,
+    'message', format('Successfully migrated %s template(s) to production', v_migrated_count)
+  );
+
+  RETURN v_result;
+EXCEPTION
+  WHEN OTHERS THEN
+    v_result := jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to migrate templates to production'
+    );
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN table_templates.grading_rules IS 'Ordered partial-credit rules over rows/columns; the first rule covering a cell scores it';
+COMMENT ON COLUMN table_template_cells.numeric_tolerance IS 'Accepted distance from expected_answer when answer_type is numeric';
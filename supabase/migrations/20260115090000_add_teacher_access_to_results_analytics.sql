@@ -0,0 +1,24 @@
+/*
+  # Teacher access to practice results analytics
+
+  ## Summary
+  Per-session analytics in practice_results_analytics are now aggregated into
+  a longitudinal learning trends view for students and their teachers. The
+  view reads every analysed session for a student in date order.
+
+  ## Changes
+  - Index on practice_results_analytics(student_id, computed_at) for the
+    per-student history read
+
+  ## Security
+  - Teachers can read analytics for students in their class sections via
+    is_teacher_of_student()
+*/
+
+CREATE INDEX IF NOT EXISTS idx_practice_results_analytics_student_computed
+ON practice_results_analytics(student_id, computed_at);
+
+DROP POLICY IF EXISTS "practice_results_analytics_select_teachers" ON practice_results_analytics;
+CREATE POLICY "practice_results_analytics_select_teachers"
+  ON practice_results_analytics FOR SELECT TO authenticated
+  USING (is_teacher_of_student((select auth.uid()), student_id));
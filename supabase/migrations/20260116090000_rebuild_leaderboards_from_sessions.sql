@@ -0,0 +1,428 @@
+/*
+  # Leaderboards computed from practice sessions
+
+  ## Summary
+  Leaderboard rows were merged client-side: accuracy was averaged pairwise
+  with the previous value (so it depended on session order) and the `rows`
+  JSON was read, modified and written back without locking, losing updates
+  when sessions finished at the same time. Rows are now computed in the
+  database from completed practice_sessions, with accuracy weighted by marks
+  (sum earned / sum available), and the seasonal (quarterly) period is
+  populated alongside daily, weekly and monthly.
+
+  ## Changes
+  - leaderboards_periodic.scope_key: which school or class a board belongs to
+    ('' for global, the branch id for school, '<branch id>:<grade>-<section>'
+    for class); previously every school shared one school/class board
+  - leaderboards_periodic.updated_at
+  - Unique index on (scope, scope_key, period, period_start, subject) that
+    treats a NULL subject as one board, replacing the old unique constraint
+    under which NULL subjects never conflicted
+  - leaderboard_period_range(): period start/end for a date (weeks start on
+    Sunday to match the app)
+  - leaderboard_timezone(): school and class boards follow the school's
+    timezone; global boards use UTC
+  - leaderboard_rows(): ranked rows for one board, built from sessions that
+    ended within the period's days in the board's timezone
+  - record_leaderboard_student(): recomputes one student's row on every board
+    they belong to for the periods containing an instant, under a row lock
+  - rebuild_leaderboards(): recomputes every board with sessions in the
+    periods containing an instant; scheduled hourly when pg_cron is available
+  - refresh_leaderboards_after_remark trigger: a teacher re-mark that changes
+    a completed session's marks or XP updates the boards for the periods
+    containing the session's end
+
+  ## Security
+  - record_leaderboard_student() may be called for a student by that student,
+    their teachers or admins
+  - rebuild_leaderboards() is restricted to admins (and the cron job)
+  - leaderboard_timezone(), leaderboard_rows() and
+    refresh_leaderboard_student() are internal and not callable by clients
+*/
+
+ALTER TABLE leaderboards_periodic
+  ADD COLUMN IF NOT EXISTS scope_key text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT timezone('utc', now());
+
+ALTER TABLE leaderboards_periodic
+  DROP CONSTRAINT IF EXISTS leaderboards_periodic_scope_period_period_start_subject_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leaderboards_periodic_board
+ON leaderboards_periodic(scope, scope_key, period, period_start, COALESCE(subject_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+CREATE INDEX IF NOT EXISTS idx_practice_sessions_completed_ended
+ON practice_sessions(ended_at) WHERE status = 'completed';
+
+-- ============================================================================
+-- Period boundaries
+-- ============================================================================
+CREATE OR REPLACE FUNCTION leaderboard_period_range(p_period text, p_date date)
+RETURNS TABLE (period_start date, period_end date)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT s, e FROM (
+    SELECT
+      CASE p_period
+        WHEN 'daily' THEN p_date
+        WHEN 'weekly' THEN p_date - EXTRACT(DOW FROM p_date)::integer
+        WHEN 'monthly' THEN date_trunc('month', p_date)::date
+        ELSE date_trunc('quarter', p_date)::date
+      END AS s,
+      CASE p_period
+        WHEN 'daily' THEN p_date
+        WHEN 'weekly' THEN p_date - EXTRACT(DOW FROM p_date)::integer + 6
+        WHEN 'monthly' THEN (date_trunc('month', p_date) + interval '1 month - 1 day')::date
+        ELSE (date_trunc('quarter', p_date) + interval '3 months - 1 day')::date
+      END AS e
+  ) bounds;
+$$;
+
+-- ============================================================================
+-- Board timezone
+-- ============================================================================
+-- School and class boards count days in the school's timezone so a period
+-- matches the school day; global boards use UTC.
+CREATE OR REPLACE FUNCTION leaderboard_timezone(p_scope text, p_scope_key text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT NULLIF(sc.timezone, '')
+    FROM branches b
+    JOIN schools sc ON sc.id = b.school_id
+    WHERE p_scope IN ('school', 'class')
+      AND b.id::text = split_part(p_scope_key, ':', 1)
+  ), 'UTC');
+$$;
+
+-- ============================================================================
+-- Rows for one board
+-- ============================================================================
+CREATE OR REPLACE FUNCTION leaderboard_rows(
+  p_scope text,
+  p_scope_key text,
+  p_period_start date,
+  p_period_end date,
+  p_subject_id uuid,
+  p_student_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH board_zone AS (
+    SELECT leaderboard_timezone(p_scope, p_scope_key) AS tz
+  ),
+  members AS (
+    SELECT s.id, s.user_id
+    FROM students s
+    WHERE (p_student_id IS NULL OR s.id = p_student_id)
+      AND CASE p_scope
+        WHEN 'school' THEN s.branch_id::text = p_scope_key
+        WHEN 'class' THEN s.branch_id::text || ':' || s.grade_level || '-' || s.section = p_scope_key
+        ELSE true
+      END
+  ),
+  sessions AS (
+    SELECT ps.id, ps.student_id, ps.xp_earned, ps.total_marks_earned, ps.total_marks_available
+    FROM practice_sessions ps
+    JOIN members m ON m.id = ps.student_id
+    CROSS JOIN board_zone
+    LEFT JOIN practice_sets pset ON pset.id = ps.practice_set_id
+    WHERE ps.status = 'completed'
+      AND ps.ended_at >= p_period_start::timestamp AT TIME ZONE board_zone.tz
+      AND ps.ended_at < (p_period_end + 1)::timestamp AT TIME ZONE board_zone.tz
+      AND pset.subject_id IS NOT DISTINCT FROM p_subject_id
+  ),
+  totals AS (
+    SELECT
+      student_id,
+      SUM(COALESCE(xp_earned, 0)) AS xp,
+      SUM(COALESCE(total_marks_earned, 0)) AS earned,
+      SUM(COALESCE(total_marks_available, 0)) AS available
+    FROM sessions
+    GROUP BY student_id
+  ),
+  timings AS (
+    SELECT pa.session_id, pa.active_time_sec, s.student_id
+    FROM practice_answers pa
+    JOIN sessions s ON s.id = pa.session_id
+    WHERE pa.active_time_sec IS NOT NULL
+  ),
+  medians AS (
+    SELECT student_id, percentile_cont(0.5) WITHIN GROUP (ORDER BY active_time_sec) AS median_time
+    FROM timings
+    GROUP BY student_id
+  )
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'studentId', student_id,
+      'studentName', student_name,
+      'avatarUrl', avatar_url,
+      'xp', xp,
+      'accuracy', accuracy,
+      'medianTimeSec', median_time_sec,
+      'streak', streak,
+      'rank', rank
+    ) ORDER BY rank
+  ), '[]'::jsonb)
+  FROM (
+    SELECT
+      t.student_id,
+      COALESCE(u.name, u.raw_user_meta_data->>'name', 'Student') AS student_name,
+      COALESCE(u.avatar_url, u.raw_user_meta_data->>'avatar_url') AS avatar_url,
+      t.xp,
+      t.accuracy,
+      COALESCE(ROUND(md.median_time), 0) AS median_time_sec,
+      COALESCE(g.current_streak_days, 0) AS streak,
+      ROW_NUMBER() OVER (ORDER BY t.xp DESC, t.accuracy DESC, t.student_id) AS rank
+    FROM (
+      SELECT totals.*, CASE WHEN available > 0 THEN earned / available ELSE 0 END AS accuracy
+      FROM totals
+    ) t
+    JOIN members m ON m.id = t.student_id
+    LEFT JOIN users u ON u.id = m.user_id
+    LEFT JOIN student_gamification g ON g.student_id = t.student_id
+    LEFT JOIN medians md ON md.student_id = t.student_id
+  ) ranked;
+$$;
+
+-- ============================================================================
+-- Incremental update for one student
+-- ============================================================================
+-- Internal: callers check who may update the student's rows
+CREATE OR REPLACE FUNCTION refresh_leaderboard_student(
+  p_student_id uuid,
+  p_subject_id uuid,
+  p_reference_at timestamptz
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student students;
+  v_scope record;
+  v_period text;
+  v_range record;
+  v_board leaderboards_periodic;
+  v_student_row jsonb;
+  v_rows jsonb;
+BEGIN
+  SELECT * INTO v_student FROM students WHERE id = p_student_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR v_scope IN
+    SELECT 'global'::text AS scope, ''::text AS scope_key
+    UNION ALL
+    SELECT 'school', v_student.branch_id::text WHERE v_student.branch_id IS NOT NULL
+    UNION ALL
+    SELECT 'class', v_student.branch_id::text || ':' || v_student.grade_level || '-' || v_student.section
+    WHERE v_student.branch_id IS NOT NULL AND v_student.grade_level IS NOT NULL AND v_student.section IS NOT NULL
+  LOOP
+    FOREACH v_period IN ARRAY ARRAY['daily', 'weekly', 'monthly', 'seasonal'] LOOP
+      SELECT * INTO v_range
+      FROM leaderboard_period_range(
+        v_period,
+        (p_reference_at AT TIME ZONE leaderboard_timezone(v_scope.scope, v_scope.scope_key))::date
+      );
+
+      INSERT INTO leaderboards_periodic (scope, scope_key, period, period_start, period_end, subject_id, rows)
+      VALUES (v_scope.scope, v_scope.scope_key, v_period, v_range.period_start, v_range.period_end, p_subject_id, '[]'::jsonb)
+      ON CONFLICT DO NOTHING;
+
+      -- Lock the board so concurrent session completions apply one at a time
+      SELECT * INTO v_board
+      FROM leaderboards_periodic
+      WHERE scope = v_scope.scope
+        AND scope_key = v_scope.scope_key
+        AND period = v_period
+        AND period_start = v_range.period_start
+        AND subject_id IS NOT DISTINCT FROM p_subject_id
+      FOR UPDATE;
+
+      v_student_row := leaderboard_rows(
+        v_scope.scope, v_scope.scope_key, v_range.period_start, v_range.period_end, p_subject_id, p_student_id
+      ) -> 0;
+
+      SELECT COALESCE(jsonb_agg(entry), '[]'::jsonb) INTO v_rows
+      FROM (
+        SELECT entry FROM jsonb_array_elements(v_board.rows) entry
+        WHERE entry->>'studentId' <> p_student_id::text
+        UNION ALL
+        SELECT v_student_row WHERE v_student_row IS NOT NULL
+      ) merged;
+
+      -- Re-rank: XP first, then weighted accuracy
+      SELECT COALESCE(jsonb_agg(entry || jsonb_build_object('rank', position) ORDER BY position), '[]'::jsonb)
+      INTO v_rows
+      FROM (
+        SELECT entry, ROW_NUMBER() OVER (
+          ORDER BY (entry->>'xp')::numeric DESC, (entry->>'accuracy')::numeric DESC, entry->>'studentId'
+        ) AS position
+        FROM jsonb_array_elements(v_rows) entry
+      ) ranked;
+
+      UPDATE leaderboards_periodic
+      SET rows = v_rows,
+          updated_at = timezone('utc', now())
+      WHERE id = v_board.id;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_leaderboard_student(
+  p_student_id uuid,
+  p_subject_id uuid,
+  p_reference_at timestamptz DEFAULT now()
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    is_admin_user(auth.uid()) OR
+    EXISTS (SELECT 1 FROM students WHERE id = p_student_id AND user_id = auth.uid()) OR
+    is_teacher_of_student(auth.uid(), p_student_id)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to update leaderboards for this student';
+  END IF;
+
+  PERFORM refresh_leaderboard_student(p_student_id, p_subject_id, p_reference_at);
+END;
+$$;
+
+-- ============================================================================
+-- Re-marks
+-- ============================================================================
+-- A re-mark changes a finished session's totals after the student's own
+-- update, so the boards for the periods containing the session's end are
+-- refreshed here. Completing a session is handled by the client.
+CREATE OR REPLACE FUNCTION refresh_leaderboards_after_remark()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_leaderboard_student(
+    NEW.student_id,
+    (SELECT subject_id FROM practice_sets WHERE id = NEW.practice_set_id),
+    COALESCE(NEW.ended_at, now())
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_leaderboards_after_remark ON practice_sessions;
+CREATE TRIGGER refresh_leaderboards_after_remark
+  AFTER UPDATE OF total_marks_earned, total_marks_available, xp_earned ON practice_sessions
+  FOR EACH ROW
+  WHEN (
+    OLD.status = 'completed' AND NEW.status = 'completed' AND (
+      OLD.total_marks_earned IS DISTINCT FROM NEW.total_marks_earned OR
+      OLD.total_marks_available IS DISTINCT FROM NEW.total_marks_available OR
+      OLD.xp_earned IS DISTINCT FROM NEW.xp_earned
+    )
+  )
+  EXECUTE FUNCTION refresh_leaderboards_after_remark();
+
+-- ============================================================================
+-- Full rebuild
+-- ============================================================================
+CREATE OR REPLACE FUNCTION rebuild_leaderboards(p_reference_at timestamptz DEFAULT now())
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period text;
+  v_board record;
+  v_count integer := 0;
+BEGIN
+  -- auth.uid() is NULL for the cron job
+  IF auth.uid() IS NOT NULL AND NOT is_admin_user(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can rebuild leaderboards';
+  END IF;
+
+  FOREACH v_period IN ARRAY ARRAY['daily', 'weekly', 'monthly', 'seasonal'] LOOP
+    FOR v_board IN
+      SELECT DISTINCT boards.scope, boards.scope_key, pset.subject_id, bounds.period_start, bounds.period_end
+      FROM practice_sessions ps
+      JOIN students s ON s.id = ps.student_id
+      LEFT JOIN practice_sets pset ON pset.id = ps.practice_set_id
+      CROSS JOIN LATERAL (
+        SELECT 'global'::text AS scope, ''::text AS scope_key
+        UNION ALL
+        SELECT 'school', s.branch_id::text WHERE s.branch_id IS NOT NULL
+        UNION ALL
+        SELECT 'class', s.branch_id::text || ':' || s.grade_level || '-' || s.section
+        WHERE s.branch_id IS NOT NULL AND s.grade_level IS NOT NULL AND s.section IS NOT NULL
+      ) boards
+      CROSS JOIN LATERAL (SELECT leaderboard_timezone(boards.scope, boards.scope_key) AS tz) board_zone
+      CROSS JOIN LATERAL leaderboard_period_range(v_period, (p_reference_at AT TIME ZONE board_zone.tz)::date) bounds
+      WHERE ps.status = 'completed'
+        -- No period is longer than a quarter; a day either side covers every timezone
+        AND ps.ended_at >= p_reference_at - interval '3 months 2 days'
+        AND ps.ended_at >= bounds.period_start::timestamp AT TIME ZONE board_zone.tz
+        AND ps.ended_at < (bounds.period_end + 1)::timestamp AT TIME ZONE board_zone.tz
+    LOOP
+      INSERT INTO leaderboards_periodic (scope, scope_key, period, period_start, period_end, subject_id, rows, updated_at)
+      VALUES (
+        v_board.scope,
+        v_board.scope_key,
+        v_period,
+        v_board.period_start,
+        v_board.period_end,
+        v_board.subject_id,
+        leaderboard_rows(v_board.scope, v_board.scope_key, v_board.period_start, v_board.period_end, v_board.subject_id),
+        timezone('utc', now())
+      )
+      ON CONFLICT (scope, scope_key, period, period_start, COALESCE(subject_id, '00000000-0000-0000-0000-000000000000'::uuid))
+      DO UPDATE SET rows = EXCLUDED.rows, period_end = EXCLUDED.period_end, updated_at = EXCLUDED.updated_at;
+
+      v_count := v_count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION leaderboard_period_range(text, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_leaderboard_student(uuid, uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION rebuild_leaderboards(timestamptz) TO authenticated;
+REVOKE EXECUTE ON FUNCTION leaderboard_timezone(text, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION leaderboard_timezone(text, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION leaderboard_timezone(text, text) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION leaderboard_rows(text, text, date, date, uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION leaderboard_rows(text, text, date, date, uuid, uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION leaderboard_rows(text, text, date, date, uuid, uuid) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_leaderboard_student(uuid, uuid, timestamptz) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION refresh_leaderboard_student(uuid, uuid, timestamptz) FROM anon;
+REVOKE EXECUTE ON FUNCTION refresh_leaderboard_student(uuid, uuid, timestamptz) FROM authenticated;
+
+-- Hourly rebuild keeps boards consistent with late writes and class changes
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('rebuild-leaderboards', '15 * * * *', 'SELECT rebuild_leaderboards()');
+  END IF;
+END $$;
+
+COMMENT ON COLUMN leaderboards_periodic.scope_key IS 'Board owner within the scope: empty for global, branch id for school, <branch id>:<grade>-<section> for class';
+COMMENT ON FUNCTION record_leaderboard_student IS 'Recomputes one student''s leaderboard rows from completed sessions under a row lock';
+COMMENT ON FUNCTION rebuild_leaderboards IS 'Recomputes every leaderboard with sessions in the periods containing the given instant';
@@ -0,0 +1,435 @@
+/*
+  # Leaderboard privacy controls
+
+  ## Summary
+  Leaderboards published every student's name and avatar to the class, school
+  and global boards with no way to opt out. Schools now choose a leaderboard
+  policy, students can opt out, and students under the school's minimum age
+  are opted out unless staff or a parent opt them back in. The policy is
+  applied when rows are written and again when a board is read, so a change
+  takes effect immediately rather than at the next rebuild.
+
+  ## Changes
+  - schools.leaderboard_policy: 'enabled', 'anonymised' (aliases instead of
+    names, no avatars), 'class_only' (class boards only) or 'disabled'
+  - schools.leaderboard_min_age: students younger than this are opted out by
+    default (students without a birthday follow the school policy)
+  - student_gamification.leaderboard_opt_out: explicit choice; NULL means the
+    age-based default applies
+  - leaderboard_visibility(): 'hidden', 'alias' or 'named' for a student on a
+    board scope
+  - leaderboard_alias(): stable "Adjective Animal" alias for a student
+  - is_parent_of_student(): whether a user is linked to a student as a parent
+  - leaderboard_rows(): re-created to skip hidden students and alias names
+  - get_leaderboard_snapshot(): reads a board with the current policy applied
+    and flags the caller's own row; aliased rows keep only the ranking fields
+  - get_leaderboard_privacy() / set_leaderboard_opt_out(): read and change a
+    student's leaderboard settings; the settings include the school timezone
+    that class and school board periods are counted in
+
+  ## Security
+  - Direct SELECT on leaderboards_periodic is limited to admins (existing
+    manage policy); everyone else reads through get_leaderboard_snapshot()
+  - Aliased rows carry no student id or avatar, so an anonymised board cannot
+    be joined back to students; the viewer's own row is still flagged through
+    isCurrentStudent
+  - Students whose school has leaderboards disabled get no board back, and
+    class_only schools only see class boards
+  - Settings may be read and changed by the student, their teachers, their
+    parents or admins; a student under the minimum age can opt out but only
+    staff or a parent can opt them in
+  - leaderboard_visibility(), leaderboard_alias() and is_parent_of_student()
+    are internal and not callable by clients
+*/
+
+ALTER TABLE schools
+  ADD COLUMN IF NOT EXISTS leaderboard_policy text NOT NULL DEFAULT 'enabled',
+  ADD COLUMN IF NOT EXISTS leaderboard_min_age integer NOT NULL DEFAULT 13;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'schools_leaderboard_policy_check'
+  ) THEN
+    ALTER TABLE schools
+      ADD CONSTRAINT schools_leaderboard_policy_check
+      CHECK (leaderboard_policy IN ('enabled', 'anonymised', 'class_only', 'disabled'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'schools_leaderboard_min_age_check'
+  ) THEN
+    ALTER TABLE schools
+      ADD CONSTRAINT schools_leaderboard_min_age_check
+      CHECK (leaderboard_min_age BETWEEN 0 AND 25);
+  END IF;
+END $$;
+
+ALTER TABLE student_gamification
+  ADD COLUMN IF NOT EXISTS leaderboard_opt_out boolean;
+
+-- ============================================================================
+-- Visibility
+-- ============================================================================
+CREATE OR REPLACE FUNCTION leaderboard_visibility(p_student_id uuid, p_scope text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN COALESCE(sc.leaderboard_policy, 'enabled') = 'disabled' THEN 'hidden'
+      WHEN COALESCE(
+        g.leaderboard_opt_out,
+        s.birthday IS NOT NULL
+          AND s.birthday > CURRENT_DATE - make_interval(years => COALESCE(sc.leaderboard_min_age, 13))
+      ) THEN 'hidden'
+      WHEN sc.leaderboard_policy = 'class_only' AND p_scope <> 'class' THEN 'hidden'
+      WHEN sc.leaderboard_policy = 'anonymised' THEN 'alias'
+      ELSE 'named'
+    END
+    FROM students s
+    LEFT JOIN schools sc ON sc.id = s.school_id
+    LEFT JOIN student_gamification g ON g.student_id = s.id
+    WHERE s.id = p_student_id
+  ), 'hidden');
+$$;
+
+CREATE OR REPLACE FUNCTION leaderboard_alias(p_student_id uuid)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    (ARRAY['Swift', 'Bright', 'Clever', 'Bold', 'Calm', 'Keen', 'Lucky', 'Nimble', 'Quiet', 'Brave', 'Eager', 'Witty'])
+      [1 + abs(hashtext(p_student_id::text)) % 12]
+    || ' ' ||
+    (ARRAY['Otter', 'Falcon', 'Panda', 'Fox', 'Owl', 'Dolphin', 'Lynx', 'Heron', 'Koala', 'Tiger', 'Badger', 'Robin'])
+      [1 + abs(hashtext(reverse(p_student_id::text))) % 12];
+$$;
+
+CREATE OR REPLACE FUNCTION is_parent_of_student(p_user_id uuid, p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM parent_students ps
+    JOIN parents p ON p.id = ps.parent_id
+    WHERE ps.student_id = p_student_id AND p.user_id = p_user_id
+  );
+$$;
+
+-- ============================================================================
+-- Rows for one board (hidden students skipped, anonymised students aliased)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION leaderboard_rows(
+  p_scope text,
+  p_scope_key text,
+  p_period_start date,
+  p_period_end date,
+  p_subject_id uuid,
+  p_student_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH board_zone AS (
+    SELECT leaderboard_timezone(p_scope, p_scope_key) AS tz
+  ),
+  members AS (
+    SELECT id, user_id, visibility
+    FROM (
+      SELECT s.id, s.user_id, leaderboard_visibility(s.id, p_scope) AS visibility
+      FROM students s
+      WHERE (p_student_id IS NULL OR s.id = p_student_id)
+        AND CASE p_scope
+          WHEN 'school' THEN s.branch_id::text = p_scope_key
+          WHEN 'class' THEN s.branch_id::text || ':' || s.grade_level || '-' || s.section = p_scope_key
+          ELSE true
+        END
+    ) scoped
+    WHERE visibility <> 'hidden'
+  ),
+  sessions AS (
+    SELECT ps.id, ps.student_id, ps.xp_earned, ps.total_marks_earned, ps.total_marks_available
+    FROM practice_sessions ps
+    JOIN members m ON m.id = ps.student_id
+    CROSS JOIN board_zone
+    LEFT JOIN practice_sets pset ON pset.id = ps.practice_set_id
+    WHERE ps.status = 'completed'
+      AND ps.ended_at >= p_period_start::timestamp AT TIME ZONE board_zone.tz
+      AND ps.ended_at < (p_period_end + 1)::timestamp AT TIME ZONE board_zone.tz
+      AND pset.subject_id IS NOT DISTINCT FROM p_subject_id
+  ),
+  totals AS (
+    SELECT
+      student_id,
+      SUM(COALESCE(xp_earned, 0)) AS xp,
+      SUM(COALESCE(total_marks_earned, 0)) AS earned,
+      SUM(COALESCE(total_marks_available, 0)) AS available
+    FROM sessions
+    GROUP BY student_id
+  ),
+  timings AS (
+    SELECT pa.session_id, pa.active_time_sec, s.student_id
+    FROM practice_answers pa
+    JOIN sessions s ON s.id = pa.session_id
+    WHERE pa.active_time_sec IS NOT NULL
+  ),
+  medians AS (
+    SELECT student_id, percentile_cont(0.5) WITHIN GROUP (ORDER BY active_time_sec) AS median_time
+    FROM timings
+    GROUP BY student_id
+  )
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'studentId', student_id,
+      'studentName', student_name,
+      'avatarUrl', avatar_url,
+      'xp', xp,
+      'accuracy', accuracy,
+      'medianTimeSec', median_time_sec,
+      'streak', streak,
+      'rank', rank
+    ) ORDER BY rank
+  ), '[]'::jsonb)
+  FROM (
+    SELECT
+      t.student_id,
+      CASE WHEN m.visibility = 'alias' THEN leaderboard_alias(t.student_id)
+        ELSE COALESCE(u.name, u.raw_user_meta_data->>'name', 'Student')
+      END AS student_name,
+      CASE WHEN m.visibility = 'alias' THEN NULL
+        ELSE COALESCE(u.avatar_url, u.raw_user_meta_data->>'avatar_url')
+      END AS avatar_url,
+      t.xp,
+      t.accuracy,
+      COALESCE(ROUND(md.median_time), 0) AS median_time_sec,
+      COALESCE(g.current_streak_days, 0) AS streak,
+      ROW_NUMBER() OVER (ORDER BY t.xp DESC, t.accuracy DESC, t.student_id) AS rank
+    FROM (
+      SELECT totals.*, CASE WHEN available > 0 THEN earned / available ELSE 0 END AS accuracy
+      FROM totals
+    ) t
+    JOIN members m ON m.id = t.student_id
+    LEFT JOIN users u ON u.id = m.user_id
+    LEFT JOIN student_gamification g ON g.student_id = t.student_id
+    LEFT JOIN medians md ON md.student_id = t.student_id
+  ) ranked;
+$$;
+
+-- ============================================================================
+-- Reading a board
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_leaderboard_snapshot(
+  p_scope text,
+  p_scope_key text,
+  p_period text,
+  p_period_start date,
+  p_subject_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_viewer_student_id uuid;
+  v_viewer_policy text;
+  v_board leaderboards_periodic;
+  v_rows jsonb;
+BEGIN
+  SELECT s.id, COALESCE(sc.leaderboard_policy, 'enabled')
+  INTO v_viewer_student_id, v_viewer_policy
+  FROM students s
+  LEFT JOIN schools sc ON sc.id = s.school_id
+  WHERE s.user_id = auth.uid()
+  LIMIT 1;
+
+  IF v_viewer_policy = 'disabled' OR (v_viewer_policy = 'class_only' AND p_scope <> 'class') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_board
+  FROM leaderboards_periodic
+  WHERE scope = p_scope
+    AND scope_key = p_scope_key
+    AND period = p_period
+    AND period_start = p_period_start
+    AND subject_id IS NOT DISTINCT FROM p_subject_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Stored rows may predate a policy or opt-out change; apply the current one.
+  -- Aliased rows keep only the ranking fields so they cannot be traced back.
+  SELECT COALESCE(jsonb_agg(
+    CASE visibility
+      WHEN 'alias' THEN jsonb_build_object(
+        'studentName', leaderboard_alias(student_id),
+        'avatarUrl', NULL,
+        'xp', entry->'xp',
+        'accuracy', entry->'accuracy',
+        'medianTimeSec', entry->'medianTimeSec',
+        'streak', entry->'streak'
+      )
+      ELSE entry
+    END
+    || jsonb_build_object(
+      'rank', position,
+      'isCurrentStudent', student_id IS NOT DISTINCT FROM v_viewer_student_id
+    )
+    ORDER BY position
+  ), '[]'::jsonb)
+  INTO v_rows
+  FROM (
+    SELECT entry, student_id, visibility, ROW_NUMBER() OVER (ORDER BY (entry->>'rank')::integer) AS position
+    FROM (
+      SELECT entry, (entry->>'studentId')::uuid AS student_id,
+        leaderboard_visibility((entry->>'studentId')::uuid, p_scope) AS visibility
+      FROM jsonb_array_elements(v_board.rows) entry
+    ) checked
+    WHERE visibility <> 'hidden'
+  ) visible;
+
+  RETURN to_jsonb(v_board) || jsonb_build_object('rows', v_rows);
+END;
+$$;
+
+-- ============================================================================
+-- Student settings
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_leaderboard_privacy(p_student_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  IF NOT (
+    is_admin_user(auth.uid()) OR
+    EXISTS (SELECT 1 FROM students WHERE id = p_student_id AND user_id = auth.uid()) OR
+    is_teacher_of_student(auth.uid(), p_student_id) OR
+    is_parent_of_student(auth.uid(), p_student_id)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view leaderboard settings for this student';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'policy', COALESCE(sc.leaderboard_policy, 'enabled'),
+    'minAge', COALESCE(sc.leaderboard_min_age, 13),
+    'optOut', g.leaderboard_opt_out,
+    'underMinAge', s.birthday IS NOT NULL
+      AND s.birthday > CURRENT_DATE - make_interval(years => COALESCE(sc.leaderboard_min_age, 13)),
+    'classScopeKey', CASE
+      WHEN s.branch_id IS NOT NULL AND s.grade_level IS NOT NULL AND s.section IS NOT NULL
+        THEN s.branch_id::text || ':' || s.grade_level || '-' || s.section
+    END,
+    'timeZone', COALESCE(NULLIF(sc.timezone, ''), 'UTC'),
+    'visibility', leaderboard_visibility(s.id, 'class')
+  )
+  INTO v_result
+  FROM students s
+  LEFT JOIN schools sc ON sc.id = s.school_id
+  LEFT JOIN student_gamification g ON g.student_id = s.id
+  WHERE s.id = p_student_id;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_leaderboard_opt_out(p_student_id uuid, p_opt_out boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_board record;
+  v_is_guardian boolean;
+BEGIN
+  v_is_guardian :=
+    is_admin_user(auth.uid()) OR
+    is_teacher_of_student(auth.uid(), p_student_id) OR
+    is_parent_of_student(auth.uid(), p_student_id);
+
+  IF NOT (
+    v_is_guardian OR
+    EXISTS (SELECT 1 FROM students WHERE id = p_student_id AND user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change leaderboard settings for this student';
+  END IF;
+
+  IF NOT p_opt_out AND NOT v_is_guardian AND EXISTS (
+    SELECT 1
+    FROM students s
+    LEFT JOIN schools sc ON sc.id = s.school_id
+    WHERE s.id = p_student_id
+      AND s.birthday IS NOT NULL
+      AND s.birthday > CURRENT_DATE - make_interval(years => COALESCE(sc.leaderboard_min_age, 13))
+  ) THEN
+    RAISE EXCEPTION 'Students under the minimum age need a teacher or parent to join the leaderboard';
+  END IF;
+
+  INSERT INTO student_gamification (student_id, leaderboard_opt_out)
+  VALUES (p_student_id, p_opt_out)
+  ON CONFLICT (student_id) DO UPDATE SET leaderboard_opt_out = EXCLUDED.leaderboard_opt_out;
+
+  IF NOT p_opt_out THEN
+    RETURN;
+  END IF;
+
+  -- Remove the student's stored rows straight away rather than at the next rebuild
+  FOR v_board IN
+    SELECT id, rows FROM leaderboards_periodic
+    WHERE rows @> jsonb_build_array(jsonb_build_object('studentId', p_student_id))
+    FOR UPDATE
+  LOOP
+    UPDATE leaderboards_periodic
+    SET rows = (
+          SELECT COALESCE(jsonb_agg(entry || jsonb_build_object('rank', position) ORDER BY position), '[]'::jsonb)
+          FROM (
+            SELECT entry, ROW_NUMBER() OVER (ORDER BY (entry->>'rank')::integer) AS position
+            FROM jsonb_array_elements(v_board.rows) entry
+            WHERE entry->>'studentId' <> p_student_id::text
+          ) remaining
+        ),
+        updated_at = timezone('utc', now())
+    WHERE id = v_board.id;
+  END LOOP;
+END;
+$$;
+
+DROP POLICY IF EXISTS "leaderboards_periodic_select" ON leaderboards_periodic;
+
+GRANT EXECUTE ON FUNCTION get_leaderboard_snapshot(text, text, text, date, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_leaderboard_privacy(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_leaderboard_opt_out(uuid, boolean) TO authenticated;
+REVOKE EXECUTE ON FUNCTION leaderboard_visibility(uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION leaderboard_visibility(uuid, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION leaderboard_visibility(uuid, text) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION is_parent_of_student(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION is_parent_of_student(uuid, uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION is_parent_of_student(uuid, uuid) FROM authenticated;
+-- An alias must not be computable from a student id by clients
+REVOKE EXECUTE ON FUNCTION leaderboard_alias(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION leaderboard_alias(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION leaderboard_alias(uuid) FROM authenticated;
+
+COMMENT ON COLUMN schools.leaderboard_policy IS 'enabled, anonymised (aliases, no avatars), class_only (class boards only) or disabled';
+COMMENT ON COLUMN schools.leaderboard_min_age IS 'Students younger than this are left off leaderboards unless they opt in';
+COMMENT ON COLUMN student_gamification.leaderboard_opt_out IS 'Explicit leaderboard choice; NULL applies the school''s age-based default';
+COMMENT ON FUNCTION get_leaderboard_snapshot IS 'Reads a leaderboard with the current school policies and opt-outs applied';
+COMMENT ON FUNCTION set_leaderboard_opt_out IS 'Records an explicit leaderboard choice; students under the school''s minimum age can only opt out';
@@ -0,0 +1,478 @@
+/*
+  # Online delivery of mock exams
+
+  ## Summary
+  Mock exams with a digital delivery mode ('Digital (exam hall)' or 'Remote
+  proctored') can now be sat online while the exam is in_progress. The paper is
+  built from the exam's question selections (bank and custom questions), the
+  attempt window is enforced in the database, responses are autosaved into
+  mock_exam_responses, and submissions are recorded on mock_exam_students so
+  they are picked up by the grading stage.
+
+  ## Changes
+  - mock_exam_students: started_at, deadline_at, extra_time_minutes,
+    auto_submitted, last_saved_at
+  - mock_exam_responses.question_selection_id plus a unique index so a
+    response (or sub-question response) is saved once per attempt
+  - mock_exam_attempt_window(): when a student's attempt opens and closes. The
+    exam opens at scheduled_date + scheduled_time in the school's timezone and
+    closes after duration_minutes plus any extra time from the student's
+    special_arrangements (extra_time_percent and/or extra_time_minutes)
+  - get_student_mock_exams(): the calling student's online mock exams
+  - start_mock_exam_attempt(): starts (or resumes) an attempt inside the window
+  - get_mock_exam_paper(): questions, student instructions and saved responses
+    for a started attempt; answer keys are never included
+  - save_mock_exam_responses(): autosave, accepted until the deadline (plus a
+    short grace period for in-flight requests)
+  - submit_mock_exam_attempt(): submits; late submissions are marked automatic
+  - close_mock_exam_attempts(): staff submit every open attempt when the exam
+    moves to grading
+
+  ## Security
+  - Student functions only act on the caller's own registration
+  - The paper is only returned once the attempt has started and until it is
+    submitted or the deadline passes
+  - close_mock_exam_attempts() is limited to admins and users of the exam's
+    company
+  - mock_exam_attempt_window(), mock_exam_attempt_state() and
+    mock_exam_caller_registration() are internal and not callable by clients
+*/
+
+ALTER TABLE mock_exam_students
+  ADD COLUMN IF NOT EXISTS started_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deadline_at timestamptz,
+  ADD COLUMN IF NOT EXISTS extra_time_minutes integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS auto_submitted boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS last_saved_at timestamptz;
+
+ALTER TABLE mock_exam_responses
+  ADD COLUMN IF NOT EXISTS question_selection_id uuid REFERENCES mock_exam_questions(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mock_exam_responses_attempt_answer
+ON mock_exam_responses(
+  mock_exam_id,
+  student_id,
+  question_selection_id,
+  COALESCE(sub_question_id, '00000000-0000-0000-0000-000000000000'::uuid)
+)
+WHERE question_selection_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_mock_exam_students_open_attempts
+ON mock_exam_students(mock_exam_id) WHERE submission_status = 'in_progress';
+
+-- ============================================================================
+-- Attempt window
+-- ============================================================================
+CREATE OR REPLACE FUNCTION mock_exam_attempt_window(p_mock_exam_id uuid, p_student_id uuid)
+RETURNS TABLE (opens_at timestamptz, closes_at timestamptz, extra_minutes integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    opens.at,
+    opens.at + make_interval(mins => me.duration_minutes + extra.minutes),
+    extra.minutes
+  FROM mock_exams me
+  JOIN mock_exam_students mes ON mes.mock_exam_id = me.id AND mes.student_id = p_student_id
+  LEFT JOIN schools sc ON sc.id = mes.school_id
+  CROSS JOIN LATERAL (
+    SELECT (me.scheduled_date + COALESCE(me.scheduled_time, time '00:00')) AT TIME ZONE COALESCE(sc.timezone, 'UTC') AS at
+  ) opens
+  CROSS JOIN LATERAL (
+    SELECT (
+      CEIL(me.duration_minutes * COALESCE((mes.special_arrangements->>'extra_time_percent')::numeric, 0) / 100)
+      + COALESCE((mes.special_arrangements->>'extra_time_minutes')::integer, 0)
+    )::integer AS minutes
+  ) extra
+  WHERE me.id = p_mock_exam_id;
+$$;
+
+CREATE OR REPLACE FUNCTION mock_exam_attempt_state(p_mock_exam_id uuid, p_student_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'mockExamId', mes.mock_exam_id,
+    'studentId', mes.student_id,
+    'submissionStatus', mes.submission_status,
+    'opensAt', w.opens_at,
+    'closesAt', w.closes_at,
+    'startedAt', mes.started_at,
+    'deadlineAt', mes.deadline_at,
+    'submittedAt', mes.submitted_at,
+    'autoSubmitted', mes.auto_submitted,
+    'extraTimeMinutes', w.extra_minutes,
+    'lastSavedAt', mes.last_saved_at,
+    'serverNow', now()
+  )
+  FROM mock_exam_students mes
+  CROSS JOIN LATERAL mock_exam_attempt_window(mes.mock_exam_id, mes.student_id) w
+  WHERE mes.mock_exam_id = p_mock_exam_id AND mes.student_id = p_student_id;
+$$;
+
+-- The caller's registration for an exam; raises when they are not registered
+CREATE OR REPLACE FUNCTION mock_exam_caller_registration(p_mock_exam_id uuid)
+RETURNS mock_exam_students
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_registration mock_exam_students;
+BEGIN
+  SELECT mes.* INTO v_registration
+  FROM mock_exam_students mes
+  JOIN students s ON s.id = mes.student_id
+  WHERE mes.mock_exam_id = p_mock_exam_id
+    AND s.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not registered for this exam';
+  END IF;
+
+  RETURN v_registration;
+END;
+$$;
+
+-- ============================================================================
+-- Student functions
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_student_mock_exams()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', me.id,
+      'title', me.title,
+      'subject', me.subject,
+      'paperType', me.paper_type,
+      'status', me.status,
+      'deliveryMode', me.delivery_mode,
+      'durationMinutes', me.duration_minutes,
+      'totalMarks', me.total_marks,
+      'attempt', mock_exam_attempt_state(me.id, mes.student_id)
+    ) ORDER BY me.scheduled_date, me.scheduled_time
+  ), '[]'::jsonb)
+  FROM mock_exam_students mes
+  JOIN students s ON s.id = mes.student_id
+  JOIN mock_exams me ON me.id = mes.mock_exam_id
+  WHERE s.user_id = auth.uid()
+    AND mes.registration_status IN ('registered', 'confirmed')
+    AND me.delivery_mode <> 'In-person'
+    AND me.status IN ('scheduled', 'materials_ready', 'in_progress', 'grading');
+$$;
+
+CREATE OR REPLACE FUNCTION start_mock_exam_attempt(p_mock_exam_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_registration mock_exam_students;
+  v_exam mock_exams;
+  v_window record;
+BEGIN
+  v_registration := mock_exam_caller_registration(p_mock_exam_id);
+
+  IF v_registration.registration_status NOT IN ('registered', 'confirmed') THEN
+    RAISE EXCEPTION 'Your registration for this exam is %', v_registration.registration_status;
+  END IF;
+
+  -- Resuming after a refresh or reconnect
+  IF v_registration.started_at IS NOT NULL OR v_registration.submission_status IN ('submitted', 'graded') THEN
+    RETURN mock_exam_attempt_state(p_mock_exam_id, v_registration.student_id);
+  END IF;
+
+  SELECT * INTO v_exam FROM mock_exams WHERE id = p_mock_exam_id;
+
+  IF v_exam.delivery_mode = 'In-person' THEN
+    RAISE EXCEPTION 'This exam is sat on paper';
+  END IF;
+
+  IF v_exam.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This exam is not open';
+  END IF;
+
+  SELECT * INTO v_window FROM mock_exam_attempt_window(p_mock_exam_id, v_registration.student_id);
+
+  IF now() < v_window.opens_at THEN
+    RAISE EXCEPTION 'This exam opens at %', v_window.opens_at;
+  END IF;
+
+  IF now() >= v_window.closes_at THEN
+    RAISE EXCEPTION 'This exam closed at %', v_window.closes_at;
+  END IF;
+
+  UPDATE mock_exam_students
+  SET started_at = now(),
+      deadline_at = v_window.closes_at,
+      extra_time_minutes = v_window.extra_minutes,
+      submission_status = 'in_progress',
+      attendance_status = COALESCE(
+        attendance_status,
+        CASE WHEN now() > v_window.opens_at + interval '15 minutes' THEN 'late' ELSE 'present' END
+      ),
+      attended_at = COALESCE(attended_at, now()),
+      updated_at = now()
+  WHERE id = v_registration.id;
+
+  RETURN mock_exam_attempt_state(p_mock_exam_id, v_registration.student_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_mock_exam_paper(p_mock_exam_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_registration mock_exam_students;
+  v_questions jsonb;
+  v_instructions jsonb;
+  v_responses jsonb;
+BEGIN
+  v_registration := mock_exam_caller_registration(p_mock_exam_id);
+
+  IF v_registration.submission_status <> 'in_progress' OR now() >= v_registration.deadline_at THEN
+    RETURN jsonb_build_object('attempt', mock_exam_attempt_state(p_mock_exam_id, v_registration.student_id));
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'selectionId', meq.id,
+      'sequence', meq.sequence,
+      'sourceType', meq.source_type,
+      'isOptional', meq.is_optional,
+      'marks', COALESCE(meq.marks, q.marks, (meq.custom_question->>'marks')::numeric),
+      'questionType', COALESCE(q.type, meq.custom_question->>'questionType'),
+      'prompt', COALESCE(
+        q.question_description,
+        meq.custom_question->>'prompt',
+        meq.custom_question->>'question',
+        meq.custom_question->>'text'
+      ),
+      'options', CASE
+        WHEN meq.source_type = 'custom' THEN (
+          SELECT COALESCE(jsonb_agg(
+            jsonb_build_object('label', chr(64 + option.position::integer), 'text', option.value->>'text')
+            ORDER BY option.position
+          ), '[]'::jsonb)
+          FROM jsonb_array_elements(COALESCE(meq.custom_question->'options', '[]'::jsonb)) WITH ORDINALITY AS option(value, position)
+        )
+        ELSE (
+          SELECT COALESCE(jsonb_agg(
+            jsonb_build_object('label', COALESCE(qo.label, chr(65 + (qo."order")::integer)), 'text', qo.option_text)
+            ORDER BY qo."order"
+          ), '[]'::jsonb)
+          FROM question_options qo
+          WHERE qo.question_id = q.id AND qo.sub_question_id IS NULL
+        )
+      END,
+      'parts', (
+        SELECT COALESCE(jsonb_agg(
+          jsonb_build_object(
+            'subQuestionId', sq.id,
+            'label', sq.part_label,
+            'prompt', sq.description,
+            'marks', sq.marks,
+            'questionType', sq.type,
+            'level', sq.level,
+            'options', (
+              SELECT COALESCE(jsonb_agg(
+                jsonb_build_object('label', COALESCE(qo.label, chr(65 + (qo."order")::integer)), 'text', qo.option_text)
+                ORDER BY qo."order"
+              ), '[]'::jsonb)
+              FROM question_options qo
+              WHERE qo.sub_question_id = sq.id
+            )
+          ) ORDER BY sq.order_index
+        ), '[]'::jsonb)
+        FROM sub_questions sq
+        WHERE sq.question_id = q.id
+      )
+    ) ORDER BY meq.sequence
+  ), '[]'::jsonb)
+  INTO v_questions
+  FROM mock_exam_questions meq
+  LEFT JOIN questions_master_admin q ON q.id = meq.question_id
+  WHERE meq.mock_exam_id = p_mock_exam_id;
+
+  SELECT COALESCE(jsonb_agg(instructions ORDER BY created_at), '[]'::jsonb)
+  INTO v_instructions
+  FROM mock_exam_instructions
+  WHERE mock_exam_id = p_mock_exam_id AND audience = 'students';
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'questionSelectionId', question_selection_id,
+      'subQuestionId', sub_question_id,
+      'answer', student_answer,
+      'timeSpentSeconds', time_spent_seconds,
+      'updatedAt', updated_at
+    )
+  ), '[]'::jsonb)
+  INTO v_responses
+  FROM mock_exam_responses
+  WHERE mock_exam_id = p_mock_exam_id
+    AND student_id = v_registration.student_id
+    AND question_selection_id IS NOT NULL;
+
+  RETURN jsonb_build_object(
+    'attempt', mock_exam_attempt_state(p_mock_exam_id, v_registration.student_id),
+    'questions', v_questions,
+    'instructions', v_instructions,
+    'responses', v_responses
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_mock_exam_responses(p_mock_exam_id uuid, p_responses jsonb)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_registration mock_exam_students;
+BEGIN
+  v_registration := mock_exam_caller_registration(p_mock_exam_id);
+
+  IF v_registration.submission_status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt is not in progress';
+  END IF;
+
+  -- Allow requests that were in flight when the timer ran out
+  IF now() > v_registration.deadline_at + interval '30 seconds' THEN
+    RAISE EXCEPTION 'Time is up for this exam';
+  END IF;
+
+  INSERT INTO mock_exam_responses (
+    mock_exam_id, student_id, question_selection_id, sub_question_id, question_number,
+    student_answer, max_marks, time_spent_seconds
+  )
+  SELECT
+    p_mock_exam_id,
+    v_registration.student_id,
+    meq.id,
+    sq.id,
+    meq.sequence,
+    entry->>'answer',
+    COALESCE(
+      NULLIF(sq.marks, 0), NULLIF(meq.marks, 0), NULLIF(q.marks, 0),
+      NULLIF((meq.custom_question->>'marks')::numeric, 0), 1
+    ),
+    GREATEST(COALESCE((entry->>'timeSpentSeconds')::integer, 0), 0)
+  FROM jsonb_array_elements(p_responses) entry
+  JOIN mock_exam_questions meq
+    ON meq.id = (entry->>'questionSelectionId')::uuid AND meq.mock_exam_id = p_mock_exam_id
+  LEFT JOIN questions_master_admin q ON q.id = meq.question_id
+  LEFT JOIN sub_questions sq
+    ON sq.id = NULLIF(entry->>'subQuestionId', '')::uuid AND sq.question_id = meq.question_id
+  ON CONFLICT (mock_exam_id, student_id, question_selection_id, COALESCE(sub_question_id, '00000000-0000-0000-0000-000000000000'::uuid))
+    WHERE question_selection_id IS NOT NULL
+  DO UPDATE SET
+    student_answer = EXCLUDED.student_answer,
+    time_spent_seconds = EXCLUDED.time_spent_seconds,
+    updated_at = now();
+
+  UPDATE mock_exam_students
+  SET last_saved_at = now(),
+      updated_at = now()
+  WHERE id = v_registration.id;
+
+  RETURN now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_mock_exam_attempt(p_mock_exam_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_registration mock_exam_students;
+BEGIN
+  v_registration := mock_exam_caller_registration(p_mock_exam_id);
+
+  IF v_registration.submission_status = 'in_progress' THEN
+    UPDATE mock_exam_students
+    SET submission_status = 'submitted',
+        submitted_at = LEAST(now(), deadline_at),
+        auto_submitted = now() > deadline_at,
+        updated_at = now()
+    WHERE id = v_registration.id;
+  END IF;
+
+  RETURN mock_exam_attempt_state(p_mock_exam_id, v_registration.student_id);
+END;
+$$;
+
+-- ============================================================================
+-- Staff: close attempts when the exam moves to grading
+-- ============================================================================
+CREATE OR REPLACE FUNCTION close_mock_exam_attempts(p_mock_exam_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT (
+    is_admin_user(auth.uid()) OR
+    EXISTS (
+      SELECT 1 FROM mock_exams me
+      JOIN entity_users eu ON eu.company_id = me.company_id
+      WHERE me.id = p_mock_exam_id AND eu.user_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to close attempts for this exam';
+  END IF;
+
+  UPDATE mock_exam_students
+  SET submission_status = 'submitted',
+      submitted_at = LEAST(now(), COALESCE(deadline_at, now())),
+      auto_submitted = true,
+      updated_at = now()
+  WHERE mock_exam_id = p_mock_exam_id
+    AND submission_status = 'in_progress';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mock_exam_attempt_window(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION mock_exam_attempt_window(uuid, uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION mock_exam_attempt_window(uuid, uuid) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION mock_exam_attempt_state(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION mock_exam_attempt_state(uuid, uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION mock_exam_attempt_state(uuid, uuid) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION mock_exam_caller_registration(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION mock_exam_caller_registration(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION mock_exam_caller_registration(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION get_student_mock_exams() TO authenticated;
+GRANT EXECUTE ON FUNCTION start_mock_exam_attempt(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mock_exam_paper(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_mock_exam_responses(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_mock_exam_attempt(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION close_mock_exam_attempts(uuid) TO authenticated;
+
+COMMENT ON COLUMN mock_exam_students.deadline_at IS 'End of the online attempt: exam start + duration + extra time from special_arrangements';
+COMMENT ON COLUMN mock_exam_students.auto_submitted IS 'True when the attempt was submitted at or after the deadline rather than by the student';
+COMMENT ON COLUMN mock_exam_responses.question_selection_id IS 'mock_exam_questions row the response answers (online delivery)';
\ No newline at end of file
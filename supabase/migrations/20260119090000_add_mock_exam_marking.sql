@@ -0,0 +1,621 @@
+/*
+  # Script marking for mock exams
+
+  ## Summary
+  During the grading stage, markers enter marks per question (or per
+  sub-question part) for every registered student. Objective items (multiple
+  choice and true/false) with an answer key are auto-marked from the student's
+  online response, labelled diagrams are marked against each question's label
+  scheme, markers can be allocated whole questions or whole scripts, and every
+  saved mark is validated against the item's maximum before the student's
+  mock_exam_results row is recalculated.
+
+  ## Changes
+  - mock_exam_marker_allocations: which marker marks which question (across
+    every script) or which student's script (every question)
+  - mock_exam_responses.auto_marked, plus a check that marks_awarded never
+    exceeds max_marks
+  - mock_exam_marking_items(): the markable items of an exam. A bank question
+    whose sub-questions carry marks is marked part by part; every other
+    question is marked as a whole. Includes the answer key for objective items
+  - can_mark_mock_exam(): admins and users of the exam's company
+  - get_mock_exam_marking_items(): marking items for the console
+  - refresh_mock_exam_result(): recalculates a student's totals and flags the
+    registration as graded once every item is marked
+  - save_mock_exam_marks(): saves a batch of marks from the console
+  - auto_mark_mock_exam(): marks objective items that no marker has marked
+    yet, and stores the console's labelled-diagram marks (p_label_marks, one
+    entry per student and item: { studentId, questionSelectionId,
+    subQuestionId, marks, comment }); returns the number of students marked
+  - Speaking marking: the exam's markers can mark recorded speaking answers,
+    whose marks are only accepted while the exam is in grading and then
+    recalculate the result through refresh_mock_exam_result()
+
+  ## Security
+  - RLS on mock_exam_marker_allocations limits access to admins and users of
+    the exam's company
+  - Markers with allocations on an exam may only save marks inside their
+    allocation; users without allocations (lead teachers, admins) may mark
+    anything
+  - Answer keys are only returned to users who can mark the exam
+  - Marks, including speaking marks, are only accepted while the exam is in
+    grading; a response a marker has marked is never overwritten by
+    auto-marking
+  - mock_exam_marking_items() and refresh_mock_exam_result() are internal and
+    not callable by clients
+*/
+
+CREATE TABLE IF NOT EXISTS mock_exam_marker_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  mock_exam_id uuid NOT NULL REFERENCES mock_exams(id) ON DELETE CASCADE,
+  marker_id uuid NOT NULL REFERENCES entity_users(id) ON DELETE CASCADE,
+  allocation_type text NOT NULL CHECK (allocation_type IN ('question', 'script')),
+  question_selection_id uuid REFERENCES mock_exam_questions(id) ON DELETE CASCADE,
+  student_id uuid REFERENCES students(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT mock_exam_marker_allocations_target_check CHECK (
+    (allocation_type = 'question' AND question_selection_id IS NOT NULL AND student_id IS NULL) OR
+    (allocation_type = 'script' AND student_id IS NOT NULL AND question_selection_id IS NULL)
+  )
+);
+
+-- One marker per question and one marker per script
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mock_exam_marker_allocations_question
+ON mock_exam_marker_allocations(mock_exam_id, question_selection_id)
+WHERE allocation_type = 'question';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mock_exam_marker_allocations_script
+ON mock_exam_marker_allocations(mock_exam_id, student_id)
+WHERE allocation_type = 'script';
+
+CREATE INDEX IF NOT EXISTS idx_mock_exam_marker_allocations_marker
+ON mock_exam_marker_allocations(marker_id, mock_exam_id);
+
+ALTER TABLE mock_exam_marker_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company users manage marker allocations"
+  ON mock_exam_marker_allocations
+  FOR ALL
+  TO authenticated
+  USING (
+    is_admin_user(auth.uid()) OR
+    EXISTS (
+      SELECT 1 FROM mock_exams me
+      JOIN entity_users eu ON eu.company_id = me.company_id
+      WHERE me.id = mock_exam_marker_allocations.mock_exam_id
+        AND eu.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    is_admin_user(auth.uid()) OR
+    EXISTS (
+      SELECT 1 FROM mock_exams me
+      JOIN entity_users eu ON eu.company_id = me.company_id
+      WHERE me.id = mock_exam_marker_allocations.mock_exam_id
+        AND eu.user_id = auth.uid()
+    )
+  );
+
+ALTER TABLE mock_exam_responses
+  ADD COLUMN IF NOT EXISTS auto_marked boolean NOT NULL DEFAULT false;
+
+ALTER TABLE mock_exam_responses
+  ADD CONSTRAINT mock_exam_responses_marks_within_max
+  CHECK (marks_awarded <= max_marks) NOT VALID;
+
+CREATE OR REPLACE FUNCTION mock_exam_marking_items(p_mock_exam_id uuid)
+RETURNS TABLE (
+  question_selection_id uuid,
+  sub_question_id uuid,
+  question_number integer,
+  part_order integer,
+  label text,
+  prompt text,
+  max_marks numeric,
+  correct_answer text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    meq.id,
+    NULL::uuid,
+    meq.sequence,
+    0,
+    'Q' || meq.sequence,
+    COALESCE(
+      q.question_description,
+      meq.custom_question->>'prompt',
+      meq.custom_question->>'question',
+      meq.custom_question->>'text'
+    ),
+    COALESCE(
+      NULLIF(meq.marks, 0), NULLIF(q.marks, 0),
+      NULLIF((meq.custom_question->>'marks')::numeric, 0), 1
+    ),
+    CASE
+      WHEN meq.source_type = 'custom' THEN COALESCE(
+        (
+          SELECT chr(64 + option.position::integer)
+          FROM jsonb_array_elements(COALESCE(meq.custom_question->'options', '[]'::jsonb)) WITH ORDINALITY AS option(value, position)
+          WHERE (option.value->>'isCorrect')::boolean
+          ORDER BY option.position
+          LIMIT 1
+        ),
+        CASE WHEN meq.custom_question->>'questionType' = 'true_false'
+          THEN NULLIF(meq.custom_question->>'correctAnswer', '')
+        END
+      )
+      ELSE (
+        SELECT COALESCE(qo.label, chr(65 + (qo."order")::integer))
+        FROM question_options qo
+        WHERE qo.question_id = q.id AND qo.sub_question_id IS NULL AND qo.is_correct
+        ORDER BY qo."order"
+        LIMIT 1
+      )
+    END
+  FROM mock_exam_questions meq
+  LEFT JOIN questions_master_admin q ON q.id = meq.question_id
+  WHERE meq.mock_exam_id = p_mock_exam_id
+    AND NOT EXISTS (
+      SELECT 1 FROM sub_questions sq
+      WHERE sq.question_id = meq.question_id AND sq.marks > 0
+    )
+
+  UNION ALL
+
+  SELECT
+    meq.id,
+    sq.id,
+    meq.sequence,
+    (ROW_NUMBER() OVER (PARTITION BY meq.id ORDER BY sq.order_index))::integer,
+    'Q' || meq.sequence || COALESCE('(' || sq.part_label || ')', ''),
+    sq.description,
+    sq.marks,
+    (
+      SELECT COALESCE(qo.label, chr(65 + (qo."order")::integer))
+      FROM question_options qo
+      WHERE qo.sub_question_id = sq.id AND qo.is_correct
+      ORDER BY qo."order"
+      LIMIT 1
+    )
+  FROM mock_exam_questions meq
+  JOIN sub_questions sq ON sq.question_id = meq.question_id AND sq.marks > 0
+  WHERE meq.mock_exam_id = p_mock_exam_id;
+$$;
+
+CREATE OR REPLACE FUNCTION can_mark_mock_exam(p_mock_exam_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_admin_user(auth.uid()) OR EXISTS (
+    SELECT 1 FROM mock_exams me
+    JOIN entity_users eu ON eu.company_id = me.company_id
+    WHERE me.id = p_mock_exam_id AND eu.user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION get_mock_exam_marking_items(p_mock_exam_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_mark_mock_exam(p_mock_exam_id) THEN
+    RAISE EXCEPTION 'Not allowed to mark this exam';
+  END IF;
+
+  RETURN (
+    SELECT COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'questionSelectionId', i.question_selection_id,
+        'subQuestionId', i.sub_question_id,
+        'questionNumber', i.question_number,
+        'label', i.label,
+        'prompt', i.prompt,
+        'maxMarks', i.max_marks,
+        'correctAnswer', i.correct_answer
+      ) ORDER BY i.question_number, i.part_order
+    ), '[]'::jsonb)
+    FROM mock_exam_marking_items(p_mock_exam_id) i
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_mock_exam_result(p_mock_exam_id uuid, p_student_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item_count integer;
+  v_marked_count integer;
+  v_attempted_count integer;
+  v_possible numeric;
+  v_scored numeric;
+BEGIN
+  SELECT
+    count(*),
+    COALESCE(sum(i.max_marks), 0),
+    count(r.marked_at),
+    count(*) FILTER (WHERE r.marked_at IS NOT NULL OR NULLIF(trim(r.student_answer), '') IS NOT NULL),
+    COALESCE(sum(r.marks_awarded) FILTER (WHERE r.marked_at IS NOT NULL), 0)
+  INTO v_item_count, v_possible, v_marked_count, v_attempted_count, v_scored
+  FROM mock_exam_marking_items(p_mock_exam_id) i
+  LEFT JOIN mock_exam_responses r
+    ON r.mock_exam_id = p_mock_exam_id
+   AND r.student_id = p_student_id
+   AND r.question_selection_id = i.question_selection_id
+   AND r.sub_question_id IS NOT DISTINCT FROM i.sub_question_id;
+
+  IF v_item_count = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO mock_exam_results (
+    mock_exam_id, student_id, total_marks_scored, total_marks_possible,
+    percentage_score, completion_status
+  )
+  VALUES (
+    p_mock_exam_id,
+    p_student_id,
+    v_scored,
+    v_possible,
+    round(v_scored / v_possible * 100, 2),
+    CASE
+      WHEN v_attempted_count = 0 THEN 'not_attempted'
+      WHEN v_attempted_count < v_item_count THEN 'partial'
+      ELSE 'completed'
+    END
+  )
+  ON CONFLICT (mock_exam_id, student_id) DO UPDATE SET
+    total_marks_scored = EXCLUDED.total_marks_scored,
+    total_marks_possible = EXCLUDED.total_marks_possible,
+    percentage_score = EXCLUDED.percentage_score,
+    completion_status = EXCLUDED.completion_status,
+    updated_at = now();
+
+  IF v_marked_count = v_item_count THEN
+    UPDATE mock_exam_students
+    SET submission_status = 'graded',
+        updated_at = now()
+    WHERE mock_exam_id = p_mock_exam_id
+      AND student_id = p_student_id
+      AND submission_status <> 'in_progress';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_mock_exam_marks(p_mock_exam_id uuid, p_marks jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_marker_id uuid;
+  v_restricted boolean;
+  v_entry jsonb;
+  v_item record;
+  v_student_id uuid;
+  v_marks numeric;
+  v_students uuid[] := ARRAY[]::uuid[];
+  v_count integer := 0;
+BEGIN
+  IF NOT can_mark_mock_exam(p_mock_exam_id) THEN
+    RAISE EXCEPTION 'Not allowed to mark this exam';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM mock_exams WHERE id = p_mock_exam_id AND status = 'grading') THEN
+    RAISE EXCEPTION 'Marks can only be changed while the exam is in grading';
+  END IF;
+
+  SELECT eu.id INTO v_marker_id
+  FROM entity_users eu
+  JOIN mock_exams me ON me.company_id = eu.company_id
+  WHERE me.id = p_mock_exam_id AND eu.user_id = auth.uid()
+  LIMIT 1;
+
+  v_restricted := v_marker_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM mock_exam_marker_allocations
+    WHERE mock_exam_id = p_mock_exam_id AND marker_id = v_marker_id
+  );
+
+  FOR v_entry IN SELECT value FROM jsonb_array_elements(p_marks) LOOP
+    v_student_id := (v_entry->>'studentId')::uuid;
+
+    SELECT * INTO v_item
+    FROM mock_exam_marking_items(p_mock_exam_id) i
+    WHERE i.question_selection_id = (v_entry->>'questionSelectionId')::uuid
+      AND i.sub_question_id IS NOT DISTINCT FROM NULLIF(v_entry->>'subQuestionId', '')::uuid;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown question for this exam';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM mock_exam_students
+      WHERE mock_exam_id = p_mock_exam_id AND student_id = v_student_id
+    ) THEN
+      RAISE EXCEPTION 'Student is not registered for this exam';
+    END IF;
+
+    v_marks := (v_entry->>'marks')::numeric;
+    IF v_marks IS NULL OR v_marks < 0 OR v_marks > v_item.max_marks THEN
+      RAISE EXCEPTION '% must be between 0 and % marks', v_item.label, v_item.max_marks;
+    END IF;
+
+    IF v_restricted AND NOT EXISTS (
+      SELECT 1 FROM mock_exam_marker_allocations a
+      WHERE a.mock_exam_id = p_mock_exam_id
+        AND a.marker_id = v_marker_id
+        AND (a.question_selection_id = v_item.question_selection_id OR a.student_id = v_student_id)
+    ) THEN
+      RAISE EXCEPTION '% for this student is not allocated to you', v_item.label;
+    END IF;
+
+    INSERT INTO mock_exam_responses (
+      mock_exam_id, student_id, question_selection_id, sub_question_id, question_number,
+      marks_awarded, max_marks, is_correct, marker_id, marker_comments, marked_at, auto_marked
+    )
+    VALUES (
+      p_mock_exam_id, v_student_id, v_item.question_selection_id, v_item.sub_question_id,
+      v_item.question_number, v_marks, v_item.max_marks, v_marks >= v_item.max_marks,
+      v_marker_id, NULLIF(trim(v_entry->>'comment'), ''), now(), false
+    )
+    ON CONFLICT (mock_exam_id, student_id, question_selection_id, COALESCE(sub_question_id, '00000000-0000-0000-0000-000000000000'::uuid))
+      WHERE question_selection_id IS NOT NULL
+    DO UPDATE SET
+      marks_awarded = EXCLUDED.marks_awarded,
+      max_marks = EXCLUDED.max_marks,
+      is_correct = EXCLUDED.is_correct,
+      marker_id = EXCLUDED.marker_id,
+      marker_comments = EXCLUDED.marker_comments,
+      marked_at = EXCLUDED.marked_at,
+      auto_marked = false,
+      updated_at = now();
+
+    IF NOT v_student_id = ANY(v_students) THEN
+      v_students := array_append(v_students, v_student_id);
+    END IF;
+    v_count := v_count + 1;
+  END LOOP;
+
+  FOREACH v_student_id IN ARRAY v_students LOOP
+    PERFORM refresh_mock_exam_result(p_mock_exam_id, v_student_id);
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION auto_mark_mock_exam(
+  p_mock_exam_id uuid,
+  p_label_marks jsonb DEFAULT '[]'::jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_students uuid[];
+  v_student_id uuid;
+BEGIN
+  IF NOT can_mark_mock_exam(p_mock_exam_id) THEN
+    RAISE EXCEPTION 'Not allowed to mark this exam';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM mock_exams WHERE id = p_mock_exam_id AND status = 'grading') THEN
+    RAISE EXCEPTION 'Marks can only be changed while the exam is in grading';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_label_marks) AS m("questionSelectionId" uuid, "subQuestionId" uuid, marks numeric)
+    LEFT JOIN mock_exam_marking_items(p_mock_exam_id) i
+      ON i.question_selection_id = m."questionSelectionId"
+      AND i.sub_question_id IS NOT DISTINCT FROM m."subQuestionId"
+    WHERE i.question_selection_id IS NULL
+      OR m.marks IS NULL
+      OR m.marks < 0
+      OR m.marks > i.max_marks
+  ) THEN
+    RAISE EXCEPTION 'Label marks must belong to this exam and be within each item''s maximum marks';
+  END IF;
+
+  -- Never overwrite a mark entered by a marker
+  WITH objective AS (
+    UPDATE mock_exam_responses r
+    SET marks_awarded = CASE WHEN lower(trim(r.student_answer)) = lower(trim(i.correct_answer)) THEN i.max_marks ELSE 0 END,
+        max_marks = i.max_marks,
+        is_correct = lower(trim(r.student_answer)) = lower(trim(i.correct_answer)),
+        auto_marked = true,
+        marked_at = now(),
+        updated_at = now()
+    FROM mock_exam_marking_items(p_mock_exam_id) i
+    WHERE r.mock_exam_id = p_mock_exam_id
+      AND r.question_selection_id = i.question_selection_id
+      AND r.sub_question_id IS NOT DISTINCT FROM i.sub_question_id
+      AND i.correct_answer IS NOT NULL
+      AND NULLIF(trim(r.student_answer), '') IS NOT NULL
+      AND (r.marked_at IS NULL OR r.auto_marked)
+    RETURNING r.student_id
+  ),
+  labelled AS (
+    UPDATE mock_exam_responses r
+    SET marks_awarded = m.marks,
+        max_marks = i.max_marks,
+        is_correct = m.marks >= i.max_marks,
+        marker_comments = NULLIF(trim(m.comment), ''),
+        auto_marked = true,
+        marked_at = now(),
+        updated_at = now()
+    FROM jsonb_to_recordset(p_label_marks) AS m("studentId" uuid, "questionSelectionId" uuid, "subQuestionId" uuid, marks numeric, comment text)
+    JOIN mock_exam_marking_items(p_mock_exam_id) i
+      ON i.question_selection_id = m."questionSelectionId"
+      AND i.sub_question_id IS NOT DISTINCT FROM m."subQuestionId"
+    WHERE r.mock_exam_id = p_mock_exam_id
+      AND r.student_id = m."studentId"
+      AND r.question_selection_id = m."questionSelectionId"
+      AND r.sub_question_id IS NOT DISTINCT FROM m."subQuestionId"
+      AND i.correct_answer IS NULL
+      AND NULLIF(trim(r.student_answer), '') IS NOT NULL
+      AND (r.marked_at IS NULL OR r.auto_marked)
+    RETURNING r.student_id
+  )
+  SELECT COALESCE(array_agg(DISTINCT changed.student_id), ARRAY[]::uuid[]) INTO v_students
+  FROM (
+    SELECT student_id FROM objective
+    UNION ALL
+    SELECT student_id FROM labelled
+  ) changed;
+
+  FOREACH v_student_id IN ARRAY v_students LOOP
+    PERFORM refresh_mock_exam_result(p_mock_exam_id, v_student_id);
+  END LOOP;
+
+  RETURN cardinality(v_students);
+END;
+$$;
+
+
+-- ============================================================================
+-- Speaking assessments
+-- ============================================================================
+-- The exam's markers can now mark recorded speaking answers as well as the
+-- student's teachers. Student updates are still limited to the recording.
+CREATE OR REPLACE FUNCTION guard_speaking_assessment_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR
+     is_admin_user(auth.uid()) OR
+     is_teacher_of_student(auth.uid(), OLD.student_id) OR
+     (OLD.mock_exam_id IS NOT NULL AND can_mark_mock_exam(OLD.mock_exam_id)) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'recording' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'recording' - 'updated_at') THEN
+    RAISE EXCEPTION 'Only the recording of a speaking assessment can be replaced';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION can_mark_speaking_assessment(p_assessment speaking_assessments)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    is_admin_user(auth.uid()) OR
+    is_teacher_of_student(auth.uid(), p_assessment.student_id) OR
+    (p_assessment.mock_exam_id IS NOT NULL AND can_mark_mock_exam(p_assessment.mock_exam_id));
+$$;
+
+-- Mock exam speaking marks follow save_mock_exam_marks(): only accepted while
+-- the exam is in grading, and the result is recalculated item by item.
+CREATE OR REPLACE FUNCTION write_back_speaking_marks(p_assessment speaking_assessments, p_marking jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response mock_exam_responses;
+  v_awarded numeric;
+  v_marker_id uuid;
+  v_comments text;
+BEGIN
+  IF NOT can_mark_speaking_assessment(p_assessment) THEN
+    RAISE EXCEPTION 'Not allowed to mark this recording';
+  END IF;
+
+  v_awarded := (p_marking->>'totalAwarded')::numeric;
+  IF v_awarded IS NULL OR v_awarded < 0 OR v_awarded > p_assessment.max_marks THEN
+    RAISE EXCEPTION 'Awarded marks must be between 0 and %', p_assessment.max_marks;
+  END IF;
+
+  IF p_assessment.source = 'practice' THEN
+    -- Checks the answer's own maximum and recomputes session totals and XP
+    PERFORM apply_practice_answer_marking(p_assessment.practice_answer_id, p_marking, NULL);
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_response
+  FROM mock_exam_responses
+  WHERE id = p_assessment.mock_exam_response_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mock exam response not found';
+  END IF;
+
+  IF v_awarded > v_response.max_marks THEN
+    RAISE EXCEPTION 'Awarded marks must be between 0 and %', v_response.max_marks;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM mock_exams WHERE id = v_response.mock_exam_id AND status = 'grading') THEN
+    RAISE EXCEPTION 'Marks can only be changed while the exam is in grading';
+  END IF;
+
+  -- Mock exam markers are recorded as entity users rather than auth users
+  SELECT eu.id INTO v_marker_id
+  FROM entity_users eu
+  JOIN mock_exams me ON me.company_id = eu.company_id
+  WHERE me.id = v_response.mock_exam_id AND eu.user_id = auth.uid()
+  LIMIT 1;
+
+  v_comments := array_to_string(
+    ARRAY(
+      SELECT NULLIF(trim(a->>'notes'), '')
+      FROM jsonb_array_elements(COALESCE(p_marking->'awarded', '[]'::jsonb)) AS a
+    ) ||
+    ARRAY(
+      SELECT NULLIF(trim(d->>'reason'), '')
+      FROM jsonb_array_elements(COALESCE(p_marking->'denied', '[]'::jsonb)) AS d
+    ) ||
+    ARRAY[NULLIF(trim(p_marking->>'comment'), '')],
+    E'\n'
+  );
+
+  UPDATE mock_exam_responses
+  SET marks_awarded = v_awarded,
+      is_correct = v_awarded >= v_response.max_marks,
+      marker_id = v_marker_id,
+      marker_comments = NULLIF(v_comments, ''),
+      marked_at = now(),
+      auto_marked = false,
+      updated_at = now()
+  WHERE id = v_response.id;
+
+  PERFORM refresh_mock_exam_result(v_response.mock_exam_id, v_response.student_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mock_exam_marking_items(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION mock_exam_marking_items(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION mock_exam_marking_items(uuid) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_mock_exam_result(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION refresh_mock_exam_result(uuid, uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION refresh_mock_exam_result(uuid, uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION can_mark_mock_exam(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mock_exam_marking_items(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_mock_exam_marks(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION auto_mark_mock_exam(uuid, jsonb) TO authenticated;
@@ -0,0 +1,325 @@
+/*
+  # Moderation sampling and marker scaling for mock exams
+
+  ## Summary
+  The moderation stage can now draw a sample of marked scripts (a share of
+  each marker's scripts, spread across their mark range), have a moderator
+  re-mark the sampled items blind, and compare the two marks per marker. When
+  a marker is consistently severe or lenient, a scaling factor can be applied
+  to every item they marked before results are released.
+
+  ## Changes
+  - mock_exam_moderation_samples: one row per sampled (student, marker) pair,
+    the items that marker marked on that script. After moderation it holds the
+    original and moderated marks per item
+  - mock_exam_marker_scaling: the scaling factor applied to a marker's marks
+  - mock_exam_responses.unscaled_marks: the marker's own mark while a scaling
+    factor is applied, cleared whenever the item is re-marked
+  - get_mock_exam_moderation_script(): the sampled items with the student's
+    answers but without the original marks
+  - save_mock_exam_moderation(): records the moderator's marks
+  - apply_mock_exam_marker_scaling(): scales (or with a factor of 1 restores)
+    a marker's marks and recalculates the affected results
+
+  ## Security
+  - RLS limits samples and scaling records to admins and users of the exam's
+    company. Users may draw pending samples and remove pending ones directly;
+    moderated marks, moderator and status are only written by
+    save_mock_exam_moderation()
+  - Scripts must be moderated by someone other than the original marker
+  - Moderation and scaling are only accepted while the exam is in moderation
+*/
+
+CREATE TABLE IF NOT EXISTS mock_exam_moderation_samples (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  mock_exam_id uuid NOT NULL REFERENCES mock_exams(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  marker_id uuid NOT NULL REFERENCES entity_users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'moderated')),
+  original_marks numeric,
+  moderated_marks numeric,
+  max_marks numeric,
+  item_marks jsonb NOT NULL DEFAULT '[]'::jsonb,
+  moderator_id uuid REFERENCES entity_users(id) ON DELETE SET NULL,
+  moderated_at timestamptz,
+  notes text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT mock_exam_moderation_samples_unique UNIQUE (mock_exam_id, student_id, marker_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mock_exam_moderation_samples_exam
+ON mock_exam_moderation_samples(mock_exam_id, status);
+
+CREATE TABLE IF NOT EXISTS mock_exam_marker_scaling (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  mock_exam_id uuid NOT NULL REFERENCES mock_exams(id) ON DELETE CASCADE,
+  marker_id uuid NOT NULL REFERENCES entity_users(id) ON DELETE CASCADE,
+  factor numeric NOT NULL CHECK (factor > 0 AND factor <= 2),
+  applied_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  applied_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT mock_exam_marker_scaling_unique UNIQUE (mock_exam_id, marker_id)
+);
+
+ALTER TABLE mock_exam_moderation_samples ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mock_exam_marker_scaling ENABLE ROW LEVEL SECURITY;
+
+-- Samples are drawn and removed directly while pending; moderation results
+-- are only written by save_mock_exam_moderation()
+CREATE POLICY "Company users view moderation samples"
+  ON mock_exam_moderation_samples
+  FOR SELECT
+  TO authenticated
+  USING (can_mark_mock_exam(mock_exam_id));
+
+CREATE POLICY "Company users draw moderation samples"
+  ON mock_exam_moderation_samples
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    can_mark_mock_exam(mock_exam_id) AND
+    status = 'pending' AND
+    original_marks IS NULL AND
+    moderated_marks IS NULL AND
+    max_marks IS NULL AND
+    item_marks = '[]'::jsonb AND
+    moderator_id IS NULL AND
+    moderated_at IS NULL AND
+    notes IS NULL
+  );
+
+CREATE POLICY "Company users remove pending moderation samples"
+  ON mock_exam_moderation_samples
+  FOR DELETE
+  TO authenticated
+  USING (can_mark_mock_exam(mock_exam_id) AND status = 'pending');
+
+-- Scaling is only written by apply_mock_exam_marker_scaling()
+CREATE POLICY "Company users view marker scaling"
+  ON mock_exam_marker_scaling
+  FOR SELECT
+  TO authenticated
+  USING (can_mark_mock_exam(mock_exam_id));
+
+ALTER TABLE mock_exam_responses
+  ADD COLUMN IF NOT EXISTS unscaled_marks numeric;
+
+CREATE OR REPLACE FUNCTION clear_mock_exam_response_scaling()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- A fresh mark from a marker replaces any scaled mark
+  IF NEW.marked_at IS DISTINCT FROM OLD.marked_at THEN
+    NEW.unscaled_marks := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_mock_exam_response_scaling ON mock_exam_responses;
+CREATE TRIGGER clear_mock_exam_response_scaling
+  BEFORE UPDATE ON mock_exam_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_mock_exam_response_scaling();
+
+CREATE OR REPLACE FUNCTION get_mock_exam_moderation_script(p_sample_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sample mock_exam_moderation_samples;
+BEGIN
+  SELECT * INTO v_sample FROM mock_exam_moderation_samples WHERE id = p_sample_id;
+
+  IF NOT FOUND OR NOT can_mark_mock_exam(v_sample.mock_exam_id) THEN
+    RAISE EXCEPTION 'Moderation sample not found';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'sampleId', v_sample.id,
+    'status', v_sample.status,
+    'notes', v_sample.notes,
+    'items', (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'questionSelectionId', i.question_selection_id,
+          'subQuestionId', i.sub_question_id,
+          'label', i.label,
+          'prompt', i.prompt,
+          'maxMarks', i.max_marks,
+          'correctAnswer', i.correct_answer,
+          'studentAnswer', r.student_answer,
+          'moderatedMarks', (
+            SELECT (m->>'moderatedMarks')::numeric
+            FROM jsonb_array_elements(v_sample.item_marks) m
+            WHERE (m->>'questionSelectionId')::uuid = i.question_selection_id
+              AND NULLIF(m->>'subQuestionId', '')::uuid IS NOT DISTINCT FROM i.sub_question_id
+          )
+        ) ORDER BY i.question_number, i.part_order
+      ), '[]'::jsonb)
+      FROM mock_exam_marking_items(v_sample.mock_exam_id) i
+      JOIN mock_exam_responses r
+        ON r.mock_exam_id = v_sample.mock_exam_id
+       AND r.student_id = v_sample.student_id
+       AND r.question_selection_id = i.question_selection_id
+       AND r.sub_question_id IS NOT DISTINCT FROM i.sub_question_id
+      WHERE r.marker_id = v_sample.marker_id
+        AND r.marked_at IS NOT NULL
+        AND NOT r.auto_marked
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_mock_exam_moderation(p_sample_id uuid, p_marks jsonb, p_notes text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sample mock_exam_moderation_samples;
+  v_moderator_id uuid;
+  v_item record;
+  v_marks numeric;
+  v_item_marks jsonb := '[]'::jsonb;
+  v_original numeric := 0;
+  v_moderated numeric := 0;
+  v_max numeric := 0;
+BEGIN
+  SELECT * INTO v_sample FROM mock_exam_moderation_samples WHERE id = p_sample_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT can_mark_mock_exam(v_sample.mock_exam_id) THEN
+    RAISE EXCEPTION 'Moderation sample not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM mock_exams WHERE id = v_sample.mock_exam_id AND status = 'moderation') THEN
+    RAISE EXCEPTION 'Scripts can only be moderated while the exam is in moderation';
+  END IF;
+
+  SELECT eu.id INTO v_moderator_id
+  FROM entity_users eu
+  JOIN mock_exams me ON me.company_id = eu.company_id
+  WHERE me.id = v_sample.mock_exam_id AND eu.user_id = auth.uid()
+  LIMIT 1;
+
+  IF v_moderator_id = v_sample.marker_id THEN
+    RAISE EXCEPTION 'Scripts must be moderated by someone other than the original marker';
+  END IF;
+
+  FOR v_item IN
+    SELECT i.question_selection_id, i.sub_question_id, i.label, i.max_marks, r.marks_awarded,
+           COALESCE(r.unscaled_marks, r.marks_awarded) AS original_marks
+    FROM mock_exam_marking_items(v_sample.mock_exam_id) i
+    JOIN mock_exam_responses r
+      ON r.mock_exam_id = v_sample.mock_exam_id
+     AND r.student_id = v_sample.student_id
+     AND r.question_selection_id = i.question_selection_id
+     AND r.sub_question_id IS NOT DISTINCT FROM i.sub_question_id
+    WHERE r.marker_id = v_sample.marker_id
+      AND r.marked_at IS NOT NULL
+      AND NOT r.auto_marked
+  LOOP
+    SELECT (entry->>'marks')::numeric INTO v_marks
+    FROM jsonb_array_elements(p_marks) entry
+    WHERE (entry->>'questionSelectionId')::uuid = v_item.question_selection_id
+      AND NULLIF(entry->>'subQuestionId', '')::uuid IS NOT DISTINCT FROM v_item.sub_question_id;
+
+    IF v_marks IS NULL OR v_marks < 0 OR v_marks > v_item.max_marks THEN
+      RAISE EXCEPTION '% must be between 0 and % marks', v_item.label, v_item.max_marks;
+    END IF;
+
+    v_item_marks := v_item_marks || jsonb_build_object(
+      'questionSelectionId', v_item.question_selection_id,
+      'subQuestionId', v_item.sub_question_id,
+      'maxMarks', v_item.max_marks,
+      'originalMarks', v_item.original_marks,
+      'moderatedMarks', v_marks
+    );
+    v_original := v_original + v_item.original_marks;
+    v_moderated := v_moderated + v_marks;
+    v_max := v_max + v_item.max_marks;
+  END LOOP;
+
+  IF v_max = 0 THEN
+    RAISE EXCEPTION 'This script has no marks from the sampled marker';
+  END IF;
+
+  UPDATE mock_exam_moderation_samples
+  SET status = 'moderated',
+      original_marks = v_original,
+      moderated_marks = v_moderated,
+      max_marks = v_max,
+      item_marks = v_item_marks,
+      moderator_id = v_moderator_id,
+      moderated_at = now(),
+      notes = NULLIF(trim(p_notes), '')
+  WHERE id = p_sample_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_mock_exam_marker_scaling(p_mock_exam_id uuid, p_marker_id uuid, p_factor numeric)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student_id uuid;
+  v_count integer;
+BEGIN
+  IF NOT can_mark_mock_exam(p_mock_exam_id) THEN
+    RAISE EXCEPTION 'Not allowed to moderate this exam';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM mock_exams WHERE id = p_mock_exam_id AND status = 'moderation') THEN
+    RAISE EXCEPTION 'Scaling can only be applied while the exam is in moderation';
+  END IF;
+
+  IF p_factor IS NULL OR p_factor <= 0 OR p_factor > 2 THEN
+    RAISE EXCEPTION 'Scaling factor must be greater than 0 and at most 2';
+  END IF;
+
+  -- Always scale from the marker's own mark so re-applying does not compound
+  UPDATE mock_exam_responses
+  SET unscaled_marks = CASE WHEN p_factor = 1 THEN NULL ELSE COALESCE(unscaled_marks, marks_awarded) END,
+      marks_awarded = LEAST(max_marks, GREATEST(0, round(COALESCE(unscaled_marks, marks_awarded) * p_factor))),
+      is_correct = LEAST(max_marks, GREATEST(0, round(COALESCE(unscaled_marks, marks_awarded) * p_factor))) >= max_marks,
+      updated_at = now()
+  WHERE mock_exam_id = p_mock_exam_id
+    AND marker_id = p_marker_id
+    AND marked_at IS NOT NULL
+    AND NOT auto_marked;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF p_factor = 1 THEN
+    DELETE FROM mock_exam_marker_scaling
+    WHERE mock_exam_id = p_mock_exam_id AND marker_id = p_marker_id;
+  ELSE
+    INSERT INTO mock_exam_marker_scaling (mock_exam_id, marker_id, factor, applied_by, applied_at)
+    VALUES (p_mock_exam_id, p_marker_id, p_factor, auth.uid(), now())
+    ON CONFLICT (mock_exam_id, marker_id) DO UPDATE SET
+      factor = EXCLUDED.factor,
+      applied_by = EXCLUDED.applied_by,
+      applied_at = EXCLUDED.applied_at;
+  END IF;
+
+  FOR v_student_id IN
+    SELECT DISTINCT student_id FROM mock_exam_responses
+    WHERE mock_exam_id = p_mock_exam_id AND marker_id = p_marker_id
+  LOOP
+    PERFORM refresh_mock_exam_result(p_mock_exam_id, v_student_id);
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_mock_exam_moderation_script(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_mock_exam_moderation(uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_mock_exam_marker_scaling(uuid, uuid, numeric) TO authenticated;
@@ -0,0 +1,455 @@
+/*
+  # Mock exam results release
+
+  ## Summary
+  Moving a mock exam to analytics_released now publishes its results. Release
+  is refused while online attempts are still open or scripts still have
+  unmarked questions. Published results are available to the student and their
+  parents as a score report with a question-level breakdown and the topic of
+  each question. Staff get cohort results and an item analysis (facility and
+  discrimination), which is also stored in mock_exam_question_performance when
+  results are released.
+
+  ## Changes
+  - mock_exams.results_released_at / results_released_by
+  - mock_exam_results_released(): true once an exam in analytics_released or
+    completed has released its results
+  - mock_exam_item_analysis(): facility, discrimination (upper 27% minus lower
+    27% of the cohort) and difficulty for every marked item
+  - release_mock_exam_results(): checks every script is marked, stamps
+    result_published_at on each result and stores the item analysis
+  - get_mock_exam_report(): one student's score report
+  - get_student_released_mock_exams(): the calling student's released results
+  - get_mock_exam_results_analytics(): cohort results, item marks and item
+    analysis for staff
+  - "Students can view their own responses" now also requires the exam's
+    results to be released
+  - guard_released_mock_exam_marks(): refuses any change to
+    mock_exam_responses.marks_awarded once results are released, whichever
+    function or policy the write comes through, so stored item analysis and
+    published reports stay in step with the marks
+
+  ## Security
+  - Students see their own report, and parents their children's, only once the
+    exam's results are released
+  - Staff of the exam's company and the student's teachers can preview a report
+    before release
+  - Release and cohort analytics are limited to admins and users of the exam's
+    company
+  - Students cannot read their marks or marker comments directly before
+    release; in-progress answers still come from get_mock_exam_paper()
+  - mock_exam_item_analysis() is internal and not callable by clients
+*/
+
+ALTER TABLE mock_exams
+  ADD COLUMN IF NOT EXISTS results_released_at timestamptz,
+  ADD COLUMN IF NOT EXISTS results_released_by uuid REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION mock_exam_results_released(p_mock_exam_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM mock_exams
+    WHERE id = p_mock_exam_id
+      AND status IN ('analytics_released', 'completed')
+      AND results_released_at IS NOT NULL
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION mock_exam_item_analysis(p_mock_exam_id uuid)
+RETURNS TABLE (
+  question_selection_id uuid,
+  sub_question_id uuid,
+  question_number integer,
+  part_order integer,
+  label text,
+  max_marks numeric,
+  attempts integer,
+  full_marks integer,
+  average_marks numeric,
+  facility numeric,
+  discrimination numeric,
+  difficulty text,
+  average_time_seconds integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH ranked AS (
+    SELECT student_id, percent_rank() OVER (ORDER BY percentage_score) AS position
+    FROM mock_exam_results
+    WHERE mock_exam_id = p_mock_exam_id AND percentage_score IS NOT NULL
+  ),
+  scored AS (
+    SELECT
+      i.question_selection_id,
+      i.sub_question_id,
+      i.question_number,
+      i.part_order,
+      i.label,
+      i.max_marks,
+      r.marks_awarded,
+      r.time_spent_seconds,
+      r.marks_awarded / i.max_marks AS item_facility,
+      ranked.position
+    FROM mock_exam_marking_items(p_mock_exam_id) i
+    JOIN mock_exam_responses r
+      ON r.mock_exam_id = p_mock_exam_id
+     AND r.question_selection_id = i.question_selection_id
+     AND r.sub_question_id IS NOT DISTINCT FROM i.sub_question_id
+     AND r.marked_at IS NOT NULL
+    LEFT JOIN ranked ON ranked.student_id = r.student_id
+  ),
+  summary AS (
+    SELECT
+      question_selection_id,
+      sub_question_id,
+      question_number,
+      part_order,
+      label,
+      max_marks,
+      count(*)::integer AS attempts,
+      count(*) FILTER (WHERE marks_awarded >= max_marks)::integer AS full_marks,
+      round(avg(marks_awarded), 2) AS average_marks,
+      round(avg(item_facility), 3) AS facility,
+      round(
+        avg(item_facility) FILTER (WHERE position >= 0.73) - avg(item_facility) FILTER (WHERE position <= 0.27),
+        3
+      ) AS discrimination,
+      round(avg(time_spent_seconds))::integer AS average_time_seconds
+    FROM scored
+    GROUP BY question_selection_id, sub_question_id, question_number, part_order, label, max_marks
+  )
+  SELECT
+    question_selection_id,
+    sub_question_id,
+    question_number,
+    part_order,
+    label,
+    max_marks,
+    attempts,
+    full_marks,
+    average_marks,
+    facility,
+    discrimination,
+    CASE
+      WHEN facility >= 0.7 THEN 'easy'
+      WHEN facility >= 0.4 THEN 'medium'
+      WHEN facility >= 0.2 THEN 'hard'
+      ELSE 'very_hard'
+    END,
+    average_time_seconds
+  FROM summary;
+$$;
+
+CREATE OR REPLACE FUNCTION release_mock_exam_results(p_mock_exam_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_open integer;
+  v_unmarked integer;
+  v_count integer;
+BEGIN
+  IF NOT can_mark_mock_exam(p_mock_exam_id) THEN
+    RAISE EXCEPTION 'Not allowed to release results for this exam';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM mock_exams
+    WHERE id = p_mock_exam_id AND status IN ('grading', 'moderation', 'analytics_released')
+  ) THEN
+    RAISE EXCEPTION 'Results can only be released once the exam has been graded';
+  END IF;
+
+  SELECT count(*) INTO v_open
+  FROM mock_exam_students
+  WHERE mock_exam_id = p_mock_exam_id AND submission_status = 'in_progress';
+
+  IF v_open > 0 THEN
+    RAISE EXCEPTION '% online attempt(s) are still open', v_open;
+  END IF;
+
+  -- Everyone who sat the exam must be fully marked
+  SELECT count(*) INTO v_unmarked
+  FROM mock_exam_students
+  WHERE mock_exam_id = p_mock_exam_id
+    AND submission_status <> 'graded'
+    AND (submission_status = 'submitted' OR attendance_status IN ('present', 'late'));
+
+  IF v_unmarked > 0 THEN
+    RAISE EXCEPTION '% script(s) still have unmarked questions', v_unmarked;
+  END IF;
+
+  UPDATE mock_exam_results
+  SET result_published_at = COALESCE(result_published_at, now()),
+      updated_at = now()
+  WHERE mock_exam_id = p_mock_exam_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  DELETE FROM mock_exam_question_performance WHERE mock_exam_id = p_mock_exam_id;
+
+  INSERT INTO mock_exam_question_performance (
+    mock_exam_id, question_number, sub_question_id, total_attempts, correct_attempts,
+    average_marks, max_marks, difficulty_rating, discrimination_index, time_spent_average_seconds
+  )
+  SELECT
+    p_mock_exam_id, a.question_number, a.sub_question_id, a.attempts, a.full_marks,
+    a.average_marks, a.max_marks, a.difficulty, GREATEST(-1, LEAST(1, a.discrimination)), a.average_time_seconds
+  FROM mock_exam_item_analysis(p_mock_exam_id) a;
+
+  UPDATE mock_exams
+  SET results_released_at = COALESCE(results_released_at, now()),
+      results_released_by = COALESCE(results_released_by, auth.uid()),
+      updated_at = now()
+  WHERE id = p_mock_exam_id;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_mock_exam_report(p_mock_exam_id uuid, p_student_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exam record;
+  v_result mock_exam_results;
+  v_cohort jsonb;
+  v_items jsonb;
+BEGIN
+  IF NOT (
+    can_mark_mock_exam(p_mock_exam_id) OR
+    is_teacher_of_student(auth.uid(), p_student_id) OR
+    (
+      mock_exam_results_released(p_mock_exam_id) AND (
+        EXISTS (SELECT 1 FROM students WHERE id = p_student_id AND user_id = auth.uid()) OR
+        EXISTS (
+          SELECT 1 FROM parent_students ps
+          JOIN parents p ON p.id = ps.parent_id
+          WHERE ps.student_id = p_student_id AND p.user_id = auth.uid()
+        )
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Results for this exam are not available';
+  END IF;
+
+  SELECT me.id, me.title, me.paper_type, me.scheduled_date, me.total_marks, me.status,
+         me.results_released_at, s.name AS subject
+  INTO v_exam
+  FROM mock_exams me
+  LEFT JOIN data_structures ds ON ds.id = me.data_structure_id
+  LEFT JOIN edu_subjects s ON s.id = ds.subject_id
+  WHERE me.id = p_mock_exam_id;
+
+  SELECT * INTO v_result
+  FROM mock_exam_results
+  WHERE mock_exam_id = p_mock_exam_id AND student_id = p_student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No result recorded for this student';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'size', count(*),
+    'averagePercentage', round(avg(percentage_score), 1),
+    'rank', count(*) FILTER (WHERE percentage_score > v_result.percentage_score) + 1
+  )
+  INTO v_cohort
+  FROM mock_exam_results
+  WHERE mock_exam_id = p_mock_exam_id AND percentage_score IS NOT NULL;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'questionSelectionId', i.question_selection_id,
+      'subQuestionId', i.sub_question_id,
+      'label', i.label,
+      'maxMarks', i.max_marks,
+      'marksAwarded', CASE WHEN r.marked_at IS NOT NULL THEN r.marks_awarded END,
+      'markerComments', r.marker_comments,
+      'topicId', t.id,
+      'topicName', t.name,
+      'unitName', u.name
+    ) ORDER BY i.question_number, i.part_order
+  ), '[]'::jsonb)
+  INTO v_items
+  FROM mock_exam_marking_items(p_mock_exam_id) i
+  JOIN mock_exam_questions meq ON meq.id = i.question_selection_id
+  LEFT JOIN questions_master_admin q ON q.id = meq.question_id
+  LEFT JOIN edu_topics t ON t.id = q.topic_id
+  LEFT JOIN edu_units u ON u.id = t.unit_id
+  LEFT JOIN mock_exam_responses r
+    ON r.mock_exam_id = p_mock_exam_id
+   AND r.student_id = p_student_id
+   AND r.question_selection_id = i.question_selection_id
+   AND r.sub_question_id IS NOT DISTINCT FROM i.sub_question_id;
+
+  RETURN jsonb_build_object(
+    'exam', jsonb_build_object(
+      'id', v_exam.id,
+      'title', v_exam.title,
+      'subject', v_exam.subject,
+      'paperType', v_exam.paper_type,
+      'scheduledDate', v_exam.scheduled_date,
+      'releasedAt', v_exam.results_released_at
+    ),
+    'result', jsonb_build_object(
+      'studentId', p_student_id,
+      'totalMarksScored', v_result.total_marks_scored,
+      'totalMarksPossible', v_result.total_marks_possible,
+      'percentageScore', v_result.percentage_score,
+      'predictedGrade', v_result.predicted_grade,
+      'marksToNextGrade', v_result.marks_to_next_grade,
+      'completionStatus', v_result.completion_status,
+      'publishedAt', v_result.result_published_at
+    ),
+    'cohort', v_cohort,
+    'items', v_items
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_student_released_mock_exams()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'examId', me.id,
+      'studentId', res.student_id,
+      'title', me.title,
+      'releasedAt', me.results_released_at,
+      'percentageScore', res.percentage_score,
+      'predictedGrade', res.predicted_grade
+    ) ORDER BY me.results_released_at DESC
+  ), '[]'::jsonb)
+  FROM mock_exam_results res
+  JOIN students s ON s.id = res.student_id
+  JOIN mock_exams me ON me.id = res.mock_exam_id
+  WHERE s.user_id = auth.uid()
+    AND mock_exam_results_released(me.id);
+$$;
+
+CREATE OR REPLACE FUNCTION get_mock_exam_results_analytics(p_mock_exam_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_mark_mock_exam(p_mock_exam_id) THEN
+    RAISE EXCEPTION 'Not allowed to view results for this exam';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'releasedAt', (SELECT results_released_at FROM mock_exams WHERE id = p_mock_exam_id),
+    'results', (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'studentId', res.student_id,
+          'name', COALESCE(u.name, split_part(u.email, '@', 1)),
+          'totalMarksScored', res.total_marks_scored,
+          'totalMarksPossible', res.total_marks_possible,
+          'percentageScore', res.percentage_score,
+          'predictedGrade', res.predicted_grade,
+          'completionStatus', res.completion_status,
+          'publishedAt', res.result_published_at
+        ) ORDER BY res.percentage_score DESC NULLS LAST
+      ), '[]'::jsonb)
+      FROM mock_exam_results res
+      LEFT JOIN students s ON s.id = res.student_id
+      LEFT JOIN users u ON u.id = s.user_id
+      WHERE res.mock_exam_id = p_mock_exam_id
+    ),
+    'items', (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'questionSelectionId', a.question_selection_id,
+          'subQuestionId', a.sub_question_id,
+          'label', a.label,
+          'maxMarks', a.max_marks,
+          'attempts', a.attempts,
+          'averageMarks', a.average_marks,
+          'facility', a.facility,
+          'discrimination', a.discrimination,
+          'difficulty', a.difficulty
+        ) ORDER BY a.question_number, a.part_order
+      ), '[]'::jsonb)
+      FROM mock_exam_item_analysis(p_mock_exam_id) a
+    )
+  );
+END;
+$$;
+
+-- Marks and marker comments stay hidden from students until release
+DROP POLICY IF EXISTS "Students can view their own responses" ON mock_exam_responses;
+CREATE POLICY "Students can view their own responses"
+  ON mock_exam_responses
+  FOR SELECT
+  TO authenticated
+  USING (
+    student_id IN (
+      SELECT id FROM students WHERE user_id = (select auth.uid())
+    ) AND
+    mock_exam_results_released(mock_exam_id)
+  );
+
+-- Released results are final: stored item analysis and published reports
+-- must not drift from the marks
+CREATE OR REPLACE FUNCTION guard_released_mock_exam_marks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.marks_awarded IS NOT DISTINCT FROM OLD.marks_awarded THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.marks_awarded IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM mock_exams
+    WHERE id = NEW.mock_exam_id AND results_released_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Marks cannot be changed once results have been released';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_released_mock_exam_marks ON mock_exam_responses;
+CREATE TRIGGER guard_released_mock_exam_marks
+  BEFORE INSERT OR UPDATE ON mock_exam_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_released_mock_exam_marks();
+
+REVOKE EXECUTE ON FUNCTION mock_exam_item_analysis(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION mock_exam_item_analysis(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION mock_exam_item_analysis(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION mock_exam_results_released(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_mock_exam_results(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mock_exam_report(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_student_released_mock_exams() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mock_exam_results_analytics(uuid) TO authenticated;
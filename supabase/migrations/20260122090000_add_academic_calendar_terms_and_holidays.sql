@@ -0,0 +1,154 @@
+/*
+  # Academic calendar: terms, holidays, exam blackouts and working weeks
+
+  ## Summary
+  Mock exam conflict detection declared a holiday conflict but had nothing to
+  check it against, and assumed a Saturday/Sunday weekend. Academic years can
+  now carry dated terms, holidays and exam blackout periods, and each school
+  defines its own working week, so exams are checked against the school's real
+  teaching days.
+
+  ## Changes
+  - academic_terms: dated terms of an academic year; days inside the year but
+    outside every term are treated as term breaks
+  - academic_calendar_periods: 'holiday' (no teaching) and 'exam_blackout'
+    (teaching, but no exams) date ranges for an academic year, optionally
+    limited to one of the year's schools
+  - schools.working_days: teaching days of the week using the same 'Mon'-'Sun'
+    labels as branches_additional.working_days; defaults to Monday-Friday
+
+  ## Security
+  - RLS enabled on both tables
+  - Admins manage everything; company users manage the calendars of academic
+    years whose schools belong to their company. The check is written into
+    each policy rather than a helper function so no extra function is exposed
+    to clients
+*/
+
+ALTER TABLE schools
+  ADD COLUMN IF NOT EXISTS working_days text[] NOT NULL DEFAULT ARRAY['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'schools_working_days_check'
+  ) THEN
+    ALTER TABLE schools
+      ADD CONSTRAINT schools_working_days_check
+      CHECK (
+        cardinality(working_days) > 0
+        AND working_days <@ ARRAY['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+      );
+  END IF;
+END $$;
+
+-- ============================================================================
+-- Terms
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS academic_terms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  academic_year_id uuid NOT NULL REFERENCES academic_years(id) ON DELETE CASCADE,
+  term_number integer NOT NULL CHECK (term_number BETWEEN 1 AND 12),
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (academic_year_id, term_number),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_academic_terms_year_dates
+ON academic_terms(academic_year_id, start_date, end_date);
+
+-- ============================================================================
+-- Holidays and exam blackout periods
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS academic_calendar_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  academic_year_id uuid NOT NULL REFERENCES academic_years(id) ON DELETE CASCADE,
+  school_id uuid REFERENCES schools(id) ON DELETE CASCADE,
+  period_type text NOT NULL CHECK (period_type IN ('holiday', 'exam_blackout')),
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_academic_calendar_periods_year_dates
+ON academic_calendar_periods(academic_year_id, start_date, end_date);
+
+CREATE INDEX IF NOT EXISTS idx_academic_calendar_periods_school
+ON academic_calendar_periods(school_id)
+WHERE school_id IS NOT NULL;
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+ALTER TABLE academic_terms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE academic_calendar_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company users manage academic terms"
+  ON academic_terms
+  FOR ALL
+  TO authenticated
+  USING (
+    is_admin_user(auth.uid()) OR EXISTS (
+      SELECT 1
+      FROM academic_years ay
+      JOIN schools s ON s.id = ay.school_id
+        OR s.id IN (SELECT ays.school_id FROM academic_year_schools ays WHERE ays.academic_year_id = ay.id)
+      JOIN entity_users eu ON eu.company_id = s.company_id
+      WHERE ay.id = academic_terms.academic_year_id
+        AND eu.user_id = auth.uid()
+        AND eu.is_active = true
+    )
+  )
+  WITH CHECK (
+    is_admin_user(auth.uid()) OR EXISTS (
+      SELECT 1
+      FROM academic_years ay
+      JOIN schools s ON s.id = ay.school_id
+        OR s.id IN (SELECT ays.school_id FROM academic_year_schools ays WHERE ays.academic_year_id = ay.id)
+      JOIN entity_users eu ON eu.company_id = s.company_id
+      WHERE ay.id = academic_terms.academic_year_id
+        AND eu.user_id = auth.uid()
+        AND eu.is_active = true
+    )
+  );
+
+CREATE POLICY "Company users manage academic calendar periods"
+  ON academic_calendar_periods
+  FOR ALL
+  TO authenticated
+  USING (
+    is_admin_user(auth.uid()) OR EXISTS (
+      SELECT 1
+      FROM academic_years ay
+      JOIN schools s ON s.id = ay.school_id
+        OR s.id IN (SELECT ays.school_id FROM academic_year_schools ays WHERE ays.academic_year_id = ay.id)
+      JOIN entity_users eu ON eu.company_id = s.company_id
+      WHERE ay.id = academic_calendar_periods.academic_year_id
+        AND eu.user_id = auth.uid()
+        AND eu.is_active = true
+    )
+  )
+  WITH CHECK (
+    is_admin_user(auth.uid()) OR EXISTS (
+      SELECT 1
+      FROM academic_years ay
+      JOIN schools s ON s.id = ay.school_id
+        OR s.id IN (SELECT ays.school_id FROM academic_year_schools ays WHERE ays.academic_year_id = ay.id)
+      JOIN entity_users eu ON eu.company_id = s.company_id
+      WHERE ay.id = academic_calendar_periods.academic_year_id
+        AND eu.user_id = auth.uid()
+        AND eu.is_active = true
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_academic_terms_updated_at ON academic_terms;
+CREATE TRIGGER update_academic_terms_updated_at
+  BEFORE UPDATE ON academic_terms
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,63 @@
+'use strict';
+
+const Module = require('module');
+const path = require('path');
+const fs = require('fs');
+const ts = require('typescript');
+
+const rootDir = path.resolve(__dirname, '../..');
+
+const originalResolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, parent, isMain, options) {
+  if (request === '@/lib/supabase') {
+    return path.resolve(__dirname, '../mocks/supabase.ts');
+  }
+  if (request === '@/components/shared/Toast') {
+    return path.resolve(__dirname, '../mocks/toast.ts');
+  }
+  if (request.startsWith('@/')) {
+    // Resolved like a relative import so extensionless paths pick up .ts/.tsx
+    const absolutePath = path.resolve(rootDir, request.replace(/^@\//, 'src/'));
+    return originalResolveFilename.call(this, absolutePath, parent, isMain, options);
+  }
+  return originalResolveFilename.call(this, request, parent, isMain, options);
+};
+
+function compileTypeScript(module, filename) {
+  const source = fs.readFileSync(filename, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+      jsx: ts.JsxEmit.React,
+    },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+}
+
+Module._extensions['.ts'] = compileTypeScript;
+Module._extensions['.tsx'] = compileTypeScript;
+
+async function runTest(name, fn) {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+    return true;
+  } catch (error) {
+    console.error(`✗ ${name}`);
+    console.error(error);
+    return false;
+  }
+}
+
+function reportResults(results) {
+  const passed = results.filter(Boolean).length;
+  console.log(`\n${passed}/${results.length} tests passed`);
+  if (passed !== results.length) {
+    process.exitCode = 1;
+  }
+}
+
+module.exports = { runTest, reportResults };
@@ -1,5 +1,6 @@
 type SupabaseMock = {
   from?: (table: string) => unknown;
+  rpc?: (fn: string, args?: Record<string, unknown>) => unknown;
   storageFrom?: () => unknown;
 };
 
@@ -13,6 +14,13 @@ export const supabase = {
     }
     return mock.from(table);
   },
+  rpc(fn: string, args?: Record<string, unknown>) {
+    const mock = globalRef.__supabaseMock;
+    if (!mock || typeof mock.rpc !== 'function') {
+      throw new Error(`supabase mock not configured for rpc ${fn}`);
+    }
+    return mock.rpc(fn, args);
+  },
   storage: {
     from() {
       const mock = globalRef.__supabaseMock;
@@ -21,5 +29,13 @@ export const supabase = {
       }
       return mock.storageFrom();
     }
+  },
+  auth: {
+    async getSession() {
+      return { data: { session: null }, error: null };
+    },
+    async getUser() {
+      return { data: { user: null }, error: null };
+    }
   }
 };
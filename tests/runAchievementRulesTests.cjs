@@ -0,0 +1,123 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  buildAchievementProgress,
+  evaluateAchievementMetric,
+  resolveNewTiers,
+  toGamificationBadge,
+  validateAchievementDefinition,
+} = require('../src/services/practice/achievementRules.ts');
+
+const stats = {
+  progress: { xp_total: 500, current_streak_days: 3, longest_streak_days: 9 },
+  sessions: [
+    { sessionId: 's1', accuracy: 1, xpEarned: 120, subjectId: 'maths', topicId: 'algebra' },
+    { sessionId: 's2', accuracy: 0.8, xpEarned: 60, subjectId: 'maths', topicId: 'geometry' },
+    { sessionId: 's3', accuracy: 0.96, xpEarned: 200, subjectId: 'physics', topicId: null },
+  ],
+};
+
+const definition = {
+  id: 'a1',
+  code: 'sharp-shooter',
+  name: 'Sharp shooter',
+  description: 'Finish sessions with high accuracy',
+  icon: 'target',
+  criteria: { metric: 'sessions_at_accuracy', subjectId: null, minAccuracy: null },
+  tiers: [
+    { tier: 2, label: 'Silver', threshold: 5 },
+    { tier: 1, label: 'Bronze', threshold: 1 },
+    { tier: 3, label: 'Gold', threshold: 10 },
+  ],
+};
+
+const metric = (criteria) => evaluateAchievementMetric({ subjectId: null, minAccuracy: null, ...criteria }, stats);
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('evaluates each metric across all practice', () => {
+    assert.equal(metric({ metric: 'xp_total' }), 500);
+    assert.equal(metric({ metric: 'best_session_xp' }), 200);
+    assert.equal(metric({ metric: 'current_streak_days' }), 3);
+    assert.equal(metric({ metric: 'longest_streak_days' }), 9);
+    assert.equal(metric({ metric: 'sessions_completed' }), 3);
+    assert.equal(metric({ metric: 'sessions_at_accuracy' }), 2);
+    assert.equal(metric({ metric: 'sessions_at_accuracy', minAccuracy: 0.75 }), 3);
+    assert.equal(metric({ metric: 'subjects_practised' }), 2);
+    assert.equal(metric({ metric: 'topics_covered' }), 2);
+  }));
+
+  results.push(await runTest('a subject filter narrows session metrics and total XP but not streaks', () => {
+    assert.equal(metric({ metric: 'xp_total', subjectId: 'maths' }), 180);
+    assert.equal(metric({ metric: 'sessions_completed', subjectId: 'maths' }), 2);
+    assert.equal(metric({ metric: 'current_streak_days', subjectId: 'maths' }), 3);
+  }));
+
+  results.push(await runTest('only unearned tiers the value qualifies for are awarded', () => {
+    assert.deepEqual(resolveNewTiers(definition, 6, new Set()).map((tier) => tier.tier), [1, 2]);
+    assert.deepEqual(resolveNewTiers(definition, 6, new Set([1])).map((tier) => tier.tier), [2]);
+    assert.deepEqual(resolveNewTiers(definition, 0, new Set()), []);
+  }));
+
+  results.push(await runTest('progress runs from the last threshold to the next unearned tier', () => {
+    const earned = [{ achievement_id: 'a1', tier: 1 }, { achievement_id: 'other', tier: 2 }];
+    const progress = buildAchievementProgress(definition, 3, earned);
+    assert.equal(progress.nextTier.tier, 2);
+    assert.equal(progress.progressToNext, 0.5);
+    assert.deepEqual(progress.earnedTiers, [{ achievement_id: 'a1', tier: 1 }]);
+
+    const complete = buildAchievementProgress(
+      definition,
+      12,
+      [1, 2, 3].map((tier) => ({ achievement_id: 'a1', tier })),
+    );
+    assert.equal(complete.nextTier, null);
+    assert.equal(complete.progressToNext, 1);
+  }));
+
+  results.push(await runTest('badges name the tier only for multi-tier achievements', () => {
+    const badge = toGamificationBadge(definition, definition.tiers[0], '2026-01-10T00:00:00.000Z');
+    assert.equal(badge.id, 'sharp-shooter-2');
+    assert.equal(badge.name, 'Sharp shooter (Silver)');
+    const single = toGamificationBadge({ ...definition, tiers: [definition.tiers[1]] }, definition.tiers[1], '');
+    assert.equal(single.name, 'Sharp shooter');
+  }));
+
+  results.push(await runTest('the editor reports every problem with a definition', () => {
+    assert.deepEqual(validateAchievementDefinition(definition), []);
+    assert.deepEqual(
+      validateAchievementDefinition({
+        code: 'Sharp Shooter',
+        name: ' ',
+        criteria: { metric: 'unknown', minAccuracy: 1.5 },
+        tiers: [
+          { tier: 1, label: '', threshold: 0 },
+          { tier: 1, label: 'Again', threshold: 0 },
+        ],
+      }),
+      [
+        'Code must be lowercase letters, numbers and hyphens',
+        'Name is required',
+        'Choose a metric',
+        'Minimum accuracy must be between 0 and 100%',
+        'Tier 1 needs a label',
+        'Tier 1 needs a threshold above zero',
+        'Tier 1 needs a threshold above zero',
+        'Tier 1 is defined more than once',
+        'Tier thresholds must be different',
+      ],
+    );
+    assert.deepEqual(validateAchievementDefinition({ ...definition, tiers: [] }), ['At least one tier is required']);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
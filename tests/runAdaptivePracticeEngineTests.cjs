@@ -0,0 +1,94 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  applyAdaptiveOutcome,
+  calculateMastery,
+  createAdaptiveState,
+  difficultyFallbackOrder,
+  isAdaptiveSessionComplete,
+  resolveStartingDifficulty,
+} = require('../src/services/practice/adaptivePracticeEngine.ts');
+
+const request = { subjectId: 'subject', topicId: null, subtopicId: 'subtopic' };
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('mastery is earned over available marks, null without history', () => {
+    assert.equal(calculateMastery([]), null);
+    assert.equal(calculateMastery([{ marksEarned: 0, marksAvailable: 0 }]), null);
+    assert.equal(
+      calculateMastery([
+        { marksEarned: 3, marksAvailable: 4 },
+        { marksEarned: 1, marksAvailable: 4 },
+      ]),
+      0.5,
+    );
+  }));
+
+  results.push(await runTest('starting difficulty follows mastery bands', () => {
+    assert.equal(resolveStartingDifficulty(null), 'Medium');
+    assert.equal(resolveStartingDifficulty(0.49), 'Easy');
+    assert.equal(resolveStartingDifficulty(0.5), 'Medium');
+    assert.equal(resolveStartingDifficulty(0.8), 'Hard');
+  }));
+
+  results.push(await runTest('target length defaults to 10 and is clamped to 1..30', () => {
+    assert.equal(createAdaptiveState(request, null).targetLength, 10);
+    assert.equal(createAdaptiveState({ ...request, targetLength: 0 }, null).targetLength, 1);
+    assert.equal(createAdaptiveState({ ...request, targetLength: 99 }, null).targetLength, 30);
+  }));
+
+  results.push(await runTest('two full-credit answers promote, partial credit holds the level', () => {
+    let state = createAdaptiveState(request, 0.6);
+    state = applyAdaptiveOutcome(state, 'q1', { totalAwarded: 2, totalAvailable: 2 });
+    assert.equal(state.currentDifficulty, 'Medium');
+    assert.equal(state.correctStreak, 1);
+
+    state = applyAdaptiveOutcome(state, 'q2', { totalAwarded: 3, totalAvailable: 4 });
+    assert.equal(state.currentDifficulty, 'Medium');
+    assert.equal(state.correctStreak, 0);
+
+    state = applyAdaptiveOutcome(state, 'q3', { totalAwarded: 1, totalAvailable: 1 });
+    state = applyAdaptiveOutcome(state, 'q4', { totalAwarded: 1, totalAvailable: 1 });
+    assert.equal(state.currentDifficulty, 'Hard');
+    assert.equal(state.correctStreak, 0);
+    assert.deepEqual(
+      state.history.map((entry) => entry.difficulty),
+      ['Medium', 'Medium', 'Medium', 'Medium'],
+    );
+  }));
+
+  results.push(await runTest('a failed answer demotes, but never below Easy', () => {
+    let state = createAdaptiveState(request, 0.2);
+    assert.equal(state.currentDifficulty, 'Easy');
+    state = applyAdaptiveOutcome(state, 'q1', { totalAwarded: 0, totalAvailable: 3 });
+    assert.equal(state.currentDifficulty, 'Easy');
+
+    state = createAdaptiveState(request, 0.9);
+    state = applyAdaptiveOutcome(state, 'q2', { totalAwarded: 1, totalAvailable: 3 });
+    assert.equal(state.currentDifficulty, 'Medium');
+  }));
+
+  results.push(await runTest('session completes once the target number of questions is served', () => {
+    const state = createAdaptiveState({ ...request, targetLength: 2 }, null);
+    assert.equal(isAdaptiveSessionComplete(state), false);
+    assert.equal(isAdaptiveSessionComplete({ ...state, servedQuestionIds: ['a', 'b'] }), true);
+  }));
+
+  results.push(await runTest('fallback order tries the nearest difficulty first', () => {
+    assert.deepEqual(difficultyFallbackOrder('Easy'), ['Easy', 'Medium', 'Hard']);
+    assert.deepEqual(difficultyFallbackOrder('Hard'), ['Hard', 'Medium', 'Easy']);
+    assert.equal(difficultyFallbackOrder('Medium')[0], 'Medium');
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
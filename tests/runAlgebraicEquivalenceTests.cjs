@@ -0,0 +1,107 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  compareAlgebraic,
+  detectRequiredForm,
+  evaluateExpression,
+  parseExpression,
+  toPolynomial,
+} = require('../src/services/practice/algebraicEquivalence.ts');
+
+const status = (candidate, response, form = null) => compareAlgebraic(candidate, response, form).status;
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('detects required forms from mark-scheme wording', () => {
+    assert.equal(detectRequiredForm(['(x+2)(x+3) must be fully factorised']), 'factorised');
+    assert.equal(detectRequiredForm(['x^2+5x+6 expanded']), 'expanded');
+    assert.equal(detectRequiredForm(['2√3 in simplest surd form']), 'simplest_surd');
+    assert.equal(detectRequiredForm(['x = 4']), null);
+  }));
+
+  results.push(await runTest('parses implicit products, superscripts and unicode operators', () => {
+    const node = parseExpression('2x² − 3xy ÷ y');
+    assert.ok(node);
+    assert.equal(evaluateExpression(node, { x: 2, y: 5 }), 2);
+    assert.equal(parseExpression('the answer is x'), null);
+    assert.equal(parseExpression('2 + $'), null);
+  }));
+
+  results.push(await runTest('collects like terms into a canonical polynomial', () => {
+    const polynomial = toPolynomial(parseExpression('(x+1)^2 - x^2'));
+    assert.ok(polynomial);
+    assert.equal([...polynomial.values()].reduce((sum, value) => sum + value, 0), 3);
+  }));
+
+  results.push(await runTest('accepts rearranged and expanded equivalents', () => {
+    assert.equal(status('(x+2)(x+3)', 'x^2 + 5x + 6'), 'equivalent');
+    assert.equal(status('2(a+b)', '2b + 2a'), 'equivalent');
+    assert.equal(status('(x+2)(x+3)', 'x^2 + 6x + 5'), 'not_equivalent');
+  }));
+
+  results.push(await runTest('compares non-polynomial expressions numerically', () => {
+    assert.equal(status('sqrt(x^2)', 'abs(x)'), 'equivalent');
+    assert.equal(status('sin(x)/cos(x)', 'tan(x)'), 'equivalent');
+    assert.equal(status('ln(x)', 'log(x)'), 'not_equivalent');
+  }));
+
+  results.push(await runTest('samples negative and near-zero values, skipping points outside the domain', () => {
+    assert.equal(status('x', 'sqrt(x^2)'), 'not_equivalent');
+    assert.equal(status('x', 'abs(x)'), 'not_equivalent');
+    assert.equal(status('x', '(sqrt(x))^2'), 'equivalent');
+    assert.equal(status('ln(x) + ln(y)', 'ln(xy)'), 'equivalent');
+  }));
+
+  results.push(await runTest('equations are equivalent up to a non-zero multiple', () => {
+    assert.equal(status('y = 2x + 1', '2y = 4x + 2'), 'equivalent');
+    assert.equal(status('y = 2x + 1', 'y - 2x = 1'), 'equivalent');
+    assert.equal(status('y = 2x + 1', 'y = 2x - 1'), 'not_equivalent');
+    assert.equal(status('y = 2x + 1', '2x + 1'), 'not_equivalent');
+  }));
+
+  results.push(await runTest('unsimplified numerical working is the wrong form', () => {
+    assert.equal(status('7/8', '3/4 + 1/8'), 'wrong_form');
+    assert.equal(status('7/8', '7/8'), 'equivalent');
+  }));
+
+  results.push(await runTest('multiples of π and exact powers count as simplified', () => {
+    assert.equal(status('2π', '2π'), 'equivalent');
+    assert.equal(status('3π/4', '3π/4'), 'equivalent');
+    assert.equal(status('1000', '10^3'), 'equivalent');
+    assert.equal(status('300000000', '3×10^8'), 'equivalent');
+    assert.equal(status('8', '2×4'), 'wrong_form');
+  }));
+
+  results.push(await runTest('enforces factorised form, including common factors', () => {
+    assert.equal(status('2(x+2)(x+3)', '2(x+2)(x+3)', 'factorised'), 'equivalent');
+    assert.equal(status('2(x+2)(x+3)', '2x^2 + 10x + 12', 'factorised'), 'wrong_form');
+    assert.equal(status('2(x+2)(x+3)', '(2x+4)(x+3)', 'factorised'), 'wrong_form');
+  }));
+
+  results.push(await runTest('enforces expanded form with like terms collected', () => {
+    assert.equal(status('x^2+5x+6', 'x^2 + 5x + 6', 'expanded'), 'equivalent');
+    assert.equal(status('x^2+5x+6', '(x+2)(x+3)', 'expanded'), 'wrong_form');
+    assert.equal(status('x^2+5x+6', 'x^2 + 2x + 3x + 6', 'expanded'), 'wrong_form');
+  }));
+
+  results.push(await runTest('enforces simplest surd form', () => {
+    assert.equal(status('2√3', '2√3', 'simplest_surd'), 'equivalent');
+    assert.equal(status('2√3', '√12', 'simplest_surd'), 'wrong_form');
+    assert.equal(status('√3/3', '1/√3', 'simplest_surd'), 'wrong_form');
+  }));
+
+  results.push(await runTest('reports unparseable answers', () => {
+    assert.equal(status('x + 1', 'one more than x'), 'unparseable');
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,23 @@
+'use strict';
+
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+// Each suite runs in its own process so module mocks and globals do not leak
+const suites = fs
+  .readdirSync(__dirname)
+  .filter((file) => /^run.+Tests\.cjs$/.test(file) && file !== path.basename(__filename))
+  .sort();
+
+const failed = suites.filter((suite) => {
+  console.log(`\n▶ ${suite}`);
+  const { status } = spawnSync(process.execPath, [path.join(__dirname, suite)], { stdio: 'inherit' });
+  return status !== 0;
+});
+
+console.log(`\n${suites.length - failed.length}/${suites.length} suites passed`);
+if (failed.length) {
+  console.error(`Failed: ${failed.join(', ')}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,105 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  CalendarConflictService,
+  DEFAULT_WORKING_DAYS,
+  calendarDayReasons,
+  isExamDay,
+} = require('../src/services/calendarConflictService.ts');
+
+const northSchool = {
+  schoolId: 'north',
+  schoolName: 'North Campus',
+  workingDays: DEFAULT_WORKING_DAYS,
+  academicYears: [
+    {
+      id: 'y1',
+      name: '2025/26',
+      startDate: '2025-09-01',
+      endDate: '2026-07-15',
+      terms: [
+        { termNumber: 1, name: 'Autumn', startDate: '2025-09-03', endDate: '2025-12-12' },
+        { termNumber: 2, name: 'Spring', startDate: '2026-01-05', endDate: '2026-03-27' },
+        { termNumber: 3, name: 'Summer', startDate: '2026-04-13', endDate: '2026-07-15' },
+      ],
+      periods: [
+        { type: 'holiday', name: 'Eid', startDate: '2026-03-19', endDate: '2026-03-21', schoolId: null },
+        { type: 'exam_blackout', name: 'IGCSE window', startDate: '2026-05-01', endDate: '2026-06-10', schoolId: 'north' },
+        { type: 'holiday', name: 'Founders day', startDate: '2026-02-10', endDate: '2026-02-10', schoolId: 'south' },
+      ],
+    },
+  ],
+};
+
+const southSchool = {
+  schoolId: 'south',
+  schoolName: 'South Campus',
+  workingDays: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu'],
+  academicYears: [],
+};
+
+const kinds = (date, calendar = northSchool) => calendarDayReasons(calendar, date).map((reason) => reason.kind);
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('term days in the working week are free', () => {
+    assert.deepEqual(calendarDayReasons(northSchool, '2026-02-02'), []);
+    assert.equal(isExamDay([northSchool, southSchool], '2026-02-02'), true);
+  }));
+
+  results.push(await runTest('each school has its own working week', () => {
+    assert.deepEqual(calendarDayReasons(southSchool, '2026-02-06'), [{ kind: 'non_working_day', name: 'Friday' }]);
+    assert.deepEqual(kinds('2026-02-08', southSchool), []);
+    assert.equal(isExamDay([northSchool, southSchool], '2026-02-06'), false);
+  }));
+
+  results.push(await runTest('term breaks are named after the terms around them', () => {
+    const name = (date) => calendarDayReasons(northSchool, date).find((reason) => reason.kind === 'term_break')?.name;
+    assert.equal(name('2026-03-31'), 'between Spring and Summer');
+    assert.equal(name('2025-09-02'), 'before Autumn');
+    assert.deepEqual(kinds('2025-12-20'), ['non_working_day', 'term_break']);
+  }));
+
+  results.push(await runTest('dates outside every configured academic year are flagged', () => {
+    assert.deepEqual(kinds('2026-08-03'), ['outside_academic_year']);
+    assert.deepEqual(kinds('2026-08-03', southSchool), []);
+  }));
+
+  results.push(await runTest('holidays and blackouts apply to their own school or to every school', () => {
+    assert.deepEqual(calendarDayReasons(northSchool, '2026-03-19'), [
+      { kind: 'holiday', name: 'Eid', startDate: '2026-03-19', endDate: '2026-03-21' },
+    ]);
+    assert.deepEqual(kinds('2026-05-05'), ['exam_blackout']);
+    assert.deepEqual(kinds('2026-02-10'), []);
+  }));
+
+  results.push(await runTest('schools sharing a reason are reported together', async () => {
+    const westSchool = { ...northSchool, schoolId: 'west', schoolName: 'West Campus' };
+    const check = (date) =>
+      CalendarConflictService.checkAcademicCalendar(
+        { scheduledDate: date, durationMinutes: 90, schoolIds: [], gradeLevelIds: [] },
+        [northSchool, westSchool, southSchool],
+      );
+
+    const holiday = await check('2026-03-19');
+    assert.deepEqual(holiday.conflicts.map((conflict) => [conflict.type, conflict.severity, conflict.message]), [
+      ['holiday', 'critical', 'Holiday "Eid" at North Campus, West Campus'],
+    ]);
+    assert.equal(holiday.conflicts[0].details.periodEnd, '21 Mar 2026');
+
+    const friday = await check('2026-02-06');
+    assert.deepEqual(friday.conflicts, []);
+    assert.deepEqual(friday.warnings.map((warning) => warning.message), ['Friday is not a working day at South Campus']);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,124 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  checkEquationBalance,
+  compareChemicalEquations,
+  describeUnbalancedElement,
+  extractEquationAlternatives,
+  hasStateSymbols,
+  parseChemicalEquation,
+} = require('../src/services/practice/chemicalEquations.ts');
+
+const lenient = { requireStateSymbols: false, allowMultiples: false };
+const withStates = { requireStateSymbols: true, allowMultiples: false };
+
+const compare = (expected, response, options) =>
+  compareChemicalEquations(parseChemicalEquation(expected), parseChemicalEquation(response), options);
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('parses coefficients, elements and brackets', () => {
+    const equation = parseChemicalEquation('Fe3+ + 3OH- -> Fe(OH)3');
+    assert.equal(equation.reversible, false);
+    assert.equal(equation.reactants[1].coefficient, 3);
+    assert.equal(equation.reactants[1].charge, -1);
+    assert.deepEqual(equation.products[0].elements, { Fe: 1, O: 3, H: 3 });
+  }));
+
+  results.push(await runTest('reads charges, electrons and state symbols', () => {
+    const equation = parseChemicalEquation('Cu2+(aq) + 2e- -> Cu(s)');
+    assert.equal(equation.reactants[0].charge, 2);
+    assert.equal(equation.reactants[0].state, 'aq');
+    assert.deepEqual(equation.reactants[1].elements, {});
+    assert.equal(equation.products[0].state, 's');
+  }));
+
+  results.push(await runTest('normalises unicode subscripts, superscripts and hydrate dots', () => {
+    const ions = parseChemicalEquation('SO₄²⁻ + Ba²⁺ → BaSO4');
+    assert.equal(ions.reactants[0].formula, 'SO42-');
+    assert.equal(ions.reactants[0].charge, -2);
+    assert.equal(ions.reactants[1].charge, 2);
+
+    const hydrate = parseChemicalEquation('CuSO4·5H2O → CuSO4 + 5H2O');
+    assert.deepEqual(hydrate.reactants[0].elements, { Cu: 1, S: 1, O: 9, H: 10 });
+  }));
+
+  results.push(await runTest('needs exactly one arrow and flags reversible ones', () => {
+    assert.equal(parseChemicalEquation('N2 + 3H2 ⇌ 2NH3').reversible, true);
+    assert.equal(parseChemicalEquation('H2 + O2'), null);
+    assert.equal(parseChemicalEquation('H2 -> H -> H2'), null);
+  }));
+
+  results.push(await runTest('reports unbalanced elements and charge', () => {
+    assert.deepEqual(checkEquationBalance(parseChemicalEquation('H2 + O2 → H2O')), {
+      unbalancedElements: ['O'],
+      chargeBalanced: true,
+    });
+    assert.equal(checkEquationBalance(parseChemicalEquation('Cu2+ + e- -> Cu')).chargeBalanced, false);
+    assert.equal(describeUnbalancedElement('Na'), 'sodium');
+    assert.equal(describeUnbalancedElement('Xx'), 'Xx');
+  }));
+
+  results.push(await runTest('pulls equations out of mark-scheme text', () => {
+    assert.deepEqual(
+      extractEquationAlternatives(['2H2 + O2 → 2H2O (allow multiples) / 4H2 + 2O2 → 4H2O', 'ecf']),
+      ['2H2 + O2 → 2H2O', '4H2 + 2O2 → 4H2O'],
+    );
+  }));
+
+  results.push(await runTest('right species but unbalanced is partially correct', () => {
+    assert.equal(compare('2H2 + O2 → 2H2O', '2H2 + O2 → 2H2O', lenient).status, 'correct');
+    assert.deepEqual(compare('2H2 + O2 → 2H2O', 'H2 + O2 → H2O', lenient), {
+      status: 'partially_correct',
+      reasons: ['unbalanced oxygen'],
+    });
+  }));
+
+  results.push(await runTest('multiples are accepted only when the scheme allows them', () => {
+    assert.deepEqual(compare('2H2 + O2 → 2H2O', '4H2 + 2O2 → 4H2O', lenient).reasons, [
+      'coefficients are not in the lowest whole-number ratio',
+    ]);
+    const accepted = compare('2H2 + O2 → 2H2O', '4H2 + 2O2 → 4H2O', { ...lenient, allowMultiples: true });
+    assert.equal(accepted.status, 'correct');
+    assert.equal(accepted.note, 'accepted multiple of the balanced equation');
+  }));
+
+  results.push(await runTest('wrong species or sides are incorrect', () => {
+    assert.deepEqual(compare('2H2 + O2 → 2H2O', '2H2 + O2 → 2H2O2', lenient), {
+      status: 'incorrect',
+      reasons: ['missing H2O', 'incorrect species H2O2'],
+    });
+    assert.deepEqual(compare('2H2 + O2 → 2H2O', '2H2O → 2H2 + O2', lenient).reasons, [
+      'reactants and products on the wrong side',
+    ]);
+  }));
+
+  results.push(await runTest('reversible equations may be written either way round', () => {
+    assert.equal(compare('N2 + 3H2 ⇌ 2NH3', '2NH3 ⇌ N2 + 3H2', lenient).status, 'correct');
+  }));
+
+  results.push(await runTest('state symbols are checked only when required', () => {
+    const expected = '2H2(g) + O2(g) → 2H2O(l)';
+    assert.equal(hasStateSymbols(parseChemicalEquation(expected)), true);
+    assert.equal(hasStateSymbols(parseChemicalEquation('2H2 + O2 → 2H2O')), false);
+    assert.equal(compare(expected, '2H2 + O2 → 2H2O', lenient).status, 'correct');
+    assert.deepEqual(compare(expected, '2H2 + O2 → 2H2O', withStates).reasons, ['missing state symbols']);
+    assert.deepEqual(compare(expected, '2H2(g) + O2 → 2H2O(l)', withStates).reasons, [
+      'missing state symbols for O2',
+    ]);
+    assert.deepEqual(compare(expected, '2H2(g) + O2(g) → 2H2O(g)', withStates).reasons, [
+      'incorrect state symbol for H2O (expected (l))',
+    ]);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,78 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  markChemicalStructure,
+  parseChemicalStructureScheme,
+  parseStructureResponse,
+} = require('../src/services/practice/chemicalStructureMarking.ts');
+const { parseSmiles } = require('../src/services/practice/molecularStructure.ts');
+
+const scheme = parseChemicalStructureScheme(
+  JSON.stringify({ smiles: ['CCO'], formulaMarks: 1, functionalGroups: ['alcohol'], groupMarks: 1 }),
+);
+const reasons = (result) => Object.fromEntries(result.denied.map((entry) => [entry.pointId, entry.reason]));
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('reads schemes from SMILES or a model drawing', () => {
+    assert.deepEqual(scheme, {
+      smiles: ['CCO'],
+      molecules: [],
+      marks: 1,
+      formulaMarks: 1,
+      functionalGroups: ['alcohol'],
+      groupMarks: 1,
+    });
+    const drawn = parseChemicalStructureScheme(JSON.stringify({ molecule: parseSmiles('CCO') }));
+    assert.equal(drawn.molecules.length, 1);
+    assert.equal(parseChemicalStructureScheme('{"smiles":[]}'), null);
+  }));
+
+  results.push(await runTest('reads the drawing or SMILES from an editor answer', () => {
+    assert.equal(parseStructureResponse(JSON.stringify({ smiles: 'CCO' })).atoms.length, 3);
+    assert.equal(parseStructureResponse({ smiles: 'C(' }), null);
+    assert.equal(parseStructureResponse('ethanol'), null);
+  }));
+
+  results.push(await runTest('the same molecule drawn differently earns every mark', () => {
+    const result = markChemicalStructure({ smiles: 'OCC' }, scheme);
+    assert.equal(result.totalAwarded, 3);
+    assert.equal(result.totalAvailable, 3);
+    assert.deepEqual(result.notes, ['drawn formula C2H6O']);
+  }));
+
+  results.push(await runTest('a structural isomer keeps the formula mark only', () => {
+    const result = markChemicalStructure({ molecule: parseSmiles('COC') }, scheme);
+    assert.deepEqual(result.awarded, [{ pointId: 'formula', marks: 1 }]);
+    assert.deepEqual(reasons(result), {
+      structure: 'structural isomer: same formula C2H6O but the atoms are connected differently',
+      functional_groups: 'missing Alcohol (-OH)',
+    });
+  }));
+
+  results.push(await runTest('a different molecule, an impossible one and no drawing earn nothing', () => {
+    assert.equal(reasons(markChemicalStructure({ smiles: 'CC=O' }, scheme)).structure, 'different molecule (C2H4O)');
+    assert.equal(
+      reasons(markChemicalStructure({ smiles: 'C(C)(C)(C)(C)C' }, scheme)).structure,
+      'C has 5 bonds (maximum 4)',
+    );
+    const empty = markChemicalStructure('ethanol', scheme);
+    assert.deepEqual(reasons(empty), {
+      structure: 'no structure drawn',
+      formula: 'formula missing',
+      functional_groups: 'missing Alcohol (-OH)',
+    });
+    assert.equal(empty.totalAwarded, 0);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
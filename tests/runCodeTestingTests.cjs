@@ -0,0 +1,116 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  gradeTestOutcomes,
+  markTraceTable,
+  outputsMatch,
+  parseCodeMarkingScheme,
+  parseTraceTableResponse,
+} = require('../src/services/practice/codeTesting.ts');
+const { markCodeAnswer } = require('../src/services/practice/codeSandbox.ts');
+
+const completed = (stdout) => ({ status: 'completed', stdout, durationMs: 5 });
+
+const traceScheme = {
+  columns: ['Count', 'Num', 'Total'],
+  algorithm: [
+    'DECLARE Total : INTEGER',
+    'Total <- 0',
+    'FOR Count <- 1 TO 3',
+    '  INPUT Num',
+    '  Total <- Total + Num',
+    'NEXT Count',
+    'OUTPUT Total',
+  ].join('\n'),
+  input: ['4', '5', '6'],
+};
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('fills scheme defaults and skips tests without an expected output', () => {
+    const scheme = parseCodeMarkingScheme(
+      JSON.stringify({ language: 'ruby', tests: [{ input: '2\n3', expectedOutput: '5' }, { name: 'broken' }] }),
+    );
+    assert.equal(scheme.language, 'python');
+    assert.deepEqual(scheme.tests, [
+      { name: 'Test 1', input: ['2', '3'], expectedOutput: '5', marks: 1, hidden: false, comparison: 'trimmed' },
+    ]);
+    assert.equal(scheme.timeLimitMs, 3000);
+    assert.equal(scheme.memoryLimitMb, 64);
+    assert.equal(parseCodeMarkingScheme(JSON.stringify({ tests: [{ name: 'broken' }] })), null);
+    assert.equal(parseCodeMarkingScheme('print(1)'), null);
+  }));
+
+  results.push(await runTest('compares output line by line in each mode', () => {
+    assert.equal(outputsMatch('5  \r\n\n', '5'), true);
+    assert.equal(outputsMatch('5\n6', '5'), false);
+    assert.equal(outputsMatch('5\n', '5', 'exact'), false);
+    assert.equal(outputsMatch('HELLO', 'hello', 'case_insensitive'), true);
+    assert.equal(outputsMatch('0.3333333', '0.33333333', 'numeric'), true);
+    assert.equal(outputsMatch('0.34', '0.33', 'numeric'), false);
+  }));
+
+  results.push(await runTest('hidden tests never reveal their expected output', () => {
+    const result = gradeTestOutcomes([
+      { test: { name: 'Adds', expectedOutput: '5', marks: 2 }, passed: true, run: completed('5') },
+      { test: { name: 'Hidden', expectedOutput: '9', hidden: true }, passed: false, run: completed('8') },
+      {
+        test: { name: 'Loops', expectedOutput: '3' },
+        passed: false,
+        run: { status: 'timeout', stdout: '', durationMs: 3000 },
+      },
+    ]);
+    assert.equal(result.totalAwarded, 2);
+    assert.equal(result.totalAvailable, 4);
+    assert.deepEqual(result.denied, [
+      { pointId: 'test_2', reason: 'Hidden: output did not match', expected: undefined },
+      { pointId: 'test_3', reason: 'Loops: stopped after 3000 ms (time limit)', expected: '3' },
+    ]);
+  }));
+
+  results.push(await runTest('reads trace tables as rows or a TableCompletion answer map', () => {
+    assert.deepEqual(parseTraceTableResponse('[["1", 2]]', 2), [['1', '2']]);
+    assert.deepEqual(parseTraceTableResponse({ studentAnswers: { '1-0': 'a', '0-1': 'b', '0-5': 'x' } }, 2), [
+      ['', 'b'],
+      ['a', ''],
+    ]);
+    assert.deepEqual(parseTraceTableResponse('nonsense', 2), []);
+  }));
+
+  results.push(await runTest('a trace table column scores only when every row is right', () => {
+    const expected = [['1', '4'], ['2', '9']];
+    const result = markTraceTable([[' 1 ', '4.0'], ['2', '8'], ['', '']], { columns: ['Count', 'Total'] }, expected);
+    assert.deepEqual(result.awarded, [{ pointId: 'trace_Count', marks: 1 }]);
+    assert.deepEqual(result.denied, [
+      { pointId: 'trace_Total', reason: 'Total: row 2 should be "9"', expected: '4, 9' },
+    ]);
+    assert.equal(result.totalAvailable, 2);
+  }));
+
+  results.push(await runTest('trace table answers are marked against the algorithm\'s own table', async () => {
+    const answer = [['', '', '0'], ['1', '4', '4'], ['2', '5', '9'], ['3', '6', '15']];
+    const result = await markCodeAnswer(JSON.stringify(answer), { language: 'pseudocode', tests: [], traceTable: traceScheme });
+    assert.equal(result.totalAwarded, 3);
+  }));
+
+  results.push(await runTest('a blank program fails every test without running', async () => {
+    const scheme = parseCodeMarkingScheme(JSON.stringify({ tests: [{ expectedOutput: '1' }, { expectedOutput: '2' }] }));
+    const result = await markCodeAnswer('   ', scheme);
+    assert.equal(result.totalAwarded, 0);
+    assert.deepEqual(result.denied.map((entry) => entry.reason), [
+      'Test 1: error: no code submitted',
+      'Test 2: error: no code submitted',
+    ]);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
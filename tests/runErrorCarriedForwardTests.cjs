@@ -0,0 +1,79 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  evaluateArithmetic,
+  extractEcfFormula,
+  parseNumericValue,
+  resolveEcfExpectedValue,
+  stripEcfAnnotation,
+} = require('../src/services/practice/errorCarriedForward.ts');
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('reads the formula from an "ecf:" annotation', () => {
+    assert.equal(extractEcfFormula(['24 (ecf: 2 × B1)']), '2 × B1');
+    assert.equal(extractEcfFormula(['12', 'ecf = B1 + B2; accept 3sf']), 'B1 + B2');
+    assert.equal(extractEcfFormula(['24']), null);
+  }));
+
+  results.push(await runTest('keeps bracketed formulas whole', () => {
+    assert.equal(extractEcfFormula(['30 (ecf: 2*(B1+B2))']), '2*(B1+B2)');
+    assert.equal(stripEcfAnnotation('30 (ecf: 2*(B1+B2))'), '30');
+  }));
+
+  results.push(await runTest('strips the annotation and leaves other answers untouched', () => {
+    assert.equal(stripEcfAnnotation('24 (ecf: 2 × B1)'), '24');
+    assert.equal(stripEcfAnnotation('24 cm'), '24 cm');
+  }));
+
+  results.push(await runTest('ignores an annotation with unbalanced brackets', () => {
+    assert.equal(extractEcfFormula(['24 ecf: 2*(B1']), null);
+  }));
+
+  results.push(await runTest('parses numbers with thousands separators, unicode minus and exponents', () => {
+    assert.equal(parseNumericValue('1,250 m'), 1250);
+    assert.equal(parseNumericValue('−3.5'), -3.5);
+    assert.equal(parseNumericValue('6.02e23'), 6.02e23);
+    assert.equal(parseNumericValue('no value'), null);
+    assert.equal(parseNumericValue(''), null);
+  }));
+
+  results.push(await runTest('evaluates mark-scheme arithmetic with precedence and labels', () => {
+    assert.equal(evaluateArithmetic('2 + 3 × 4', {}), 14);
+    assert.equal(evaluateArithmetic('(2 + 3) * 4', {}), 20);
+    assert.equal(evaluateArithmetic('2 ^ 3 ^ 2', {}), 512);
+    assert.equal(evaluateArithmetic('-B1 + 10 ÷ 4', { B1: 1 }), 1.5);
+    assert.equal(evaluateArithmetic('b1 * 2', { B1: 4 }), 8);
+  }));
+
+  results.push(await runTest('rejects unknown labels, dangling operators and division by zero', () => {
+    assert.equal(evaluateArithmetic('B2 * 2', { B1: 4 }), null);
+    assert.equal(evaluateArithmetic('2 +', {}), null);
+    assert.equal(evaluateArithmetic('(2 + 3', {}), null);
+    assert.equal(evaluateArithmetic('1 / 0', {}), null);
+    assert.equal(evaluateArithmetic('2 $ 3', {}), null);
+  }));
+
+  results.push(await runTest('follows through from the student\'s earlier value', () => {
+    const dependencies = [{ label: 'b1', studentValue: 13, correctValue: 12 }];
+    assert.deepEqual(resolveEcfExpectedValue(dependencies, '2 × B1'), { expectedValue: 26, method: 'formula' });
+  }));
+
+  results.push(await runTest('gives no follow-through without a formula', () => {
+    const dependencies = [{ label: 'B1', studentValue: 13, correctValue: 12 }];
+    assert.equal(resolveEcfExpectedValue(dependencies, null), null);
+    assert.equal(resolveEcfExpectedValue(dependencies), null);
+    assert.equal(resolveEcfExpectedValue(dependencies, 'B2 + 1'), null);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,121 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  parsePaperCode,
+  predictGrade,
+  selectBoundaryTable,
+  validateBoundaryTable,
+} = require('../src/services/practice/gradePrediction.ts');
+
+const table = (overrides) => ({
+  id: 't1',
+  exam_board: 'cambridge',
+  grading_scheme: 'a_star_g',
+  syllabus_code: '0620',
+  component_code: null,
+  exam_series: 'may_june',
+  exam_year: 2024,
+  max_mark: 80,
+  thresholds: [
+    { grade: 'A*', min_mark: 64 },
+    { grade: 'A', min_mark: 56 },
+    { grade: 'B', min_mark: 48 },
+    { grade: 'C', min_mark: 40 },
+  ],
+  is_active: true,
+  ...overrides,
+});
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('splits paper codes into syllabus and component', () => {
+    assert.deepEqual(parsePaperCode(' 0620/42 '), { syllabusCode: '0620', componentCode: '42' });
+    assert.deepEqual(parsePaperCode('4ch1/1c'), { syllabusCode: '4CH1', componentCode: '1C' });
+    assert.deepEqual(parsePaperCode('0620'), { syllabusCode: '0620', componentCode: null });
+    assert.deepEqual(parsePaperCode(null), { syllabusCode: null, componentCode: null });
+  }));
+
+  results.push(await runTest('a component table beats a syllabus-wide one, then the latest series wins', () => {
+    const tables = [
+      table({ id: 'syllabus-2025', exam_year: 2025 }),
+      table({ id: 'component-mj', component_code: '42', exam_series: 'may_june' }),
+      table({ id: 'component-on', component_code: '42', exam_series: 'oct_nov' }),
+      table({ id: 'other-component', component_code: '41', exam_year: 2026 }),
+      table({ id: 'inactive', component_code: '42', exam_year: 2026, is_active: false }),
+    ];
+    assert.equal(selectBoundaryTable(tables, '0620/42').id, 'component-on');
+    assert.equal(selectBoundaryTable(tables, '0620/43').id, 'syllabus-2025');
+    assert.equal(selectBoundaryTable(tables, '0625/42'), null);
+    assert.equal(selectBoundaryTable(tables, ''), null);
+  }));
+
+  results.push(await runTest('scores are scaled onto the table\'s raw marks', () => {
+    const prediction = predictGrade(table(), 30, 40);
+    assert.equal(prediction.grade, 'A');
+    assert.equal(prediction.nextGrade, 'A*');
+    assert.equal(prediction.marksToNextGrade, 2);
+    assert.equal(prediction.tableId, 't1');
+    assert.equal(prediction.tableLabel, '0620 · May/June 2024');
+  }));
+
+  results.push(await runTest('below the lowest boundary is a U with marks to the lowest grade', () => {
+    const prediction = predictGrade(table(), 10, 40);
+    assert.equal(prediction.grade, 'U');
+    assert.equal(prediction.nextGrade, 'C');
+    assert.equal(prediction.marksToNextGrade, 10);
+  }));
+
+  results.push(await runTest('the top grade has nothing further to reach', () => {
+    const prediction = predictGrade(table(), 40, 40);
+    assert.equal(prediction.grade, 'A*');
+    assert.equal(prediction.nextGrade, null);
+    assert.equal(prediction.marksToNextGrade, null);
+  }));
+
+  results.push(await runTest('without a table the fixed percentage bands are used', () => {
+    const prediction = predictGrade(null, 17, 20);
+    assert.equal(prediction.grade, 'A');
+    assert.equal(prediction.marksToNextGrade, 1);
+    assert.equal(prediction.tableLabel, null);
+    assert.equal(predictGrade(null, 0, 0).grade, 'G');
+  }));
+
+  results.push(await runTest('boundary tables must descend through the scheme\'s grades', () => {
+    assert.deepEqual(validateBoundaryTable(table()), []);
+    assert.deepEqual(
+      validateBoundaryTable(
+        table({
+          syllabus_code: ' ',
+          exam_year: 1999,
+          thresholds: [
+            { grade: 'A', min_mark: 56 },
+            { grade: 'A*', min_mark: 90 },
+            { grade: '9', min_mark: 10 },
+          ],
+        }),
+      ),
+      [
+        'Syllabus code is required',
+        'Exam year must be a valid year',
+        'Grade A* threshold must be between 0 and 80',
+        'Grade A* must follow A with a lower threshold',
+        'Grade 9 is not part of this grading scheme',
+      ],
+    );
+    assert.deepEqual(validateBoundaryTable(table({ max_mark: 0, thresholds: [] })), [
+      'Maximum mark must be greater than zero',
+      'Add at least one grade threshold',
+    ]);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
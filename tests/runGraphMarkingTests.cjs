@@ -0,0 +1,93 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  markGraphAnswer,
+  parseGraphMarkingScheme,
+  parseGraphResponse,
+} = require('../src/services/practice/graphMarking.ts');
+
+const xAxis = { label: 'time / s', min: 0, max: 10, step: 1 };
+const yAxis = { label: 'distance / m', min: 0, max: 50, step: 5 };
+const points = [[0, 0], [2, 10], [4, 20], [6, 30], [8, 40]].map(([x, y]) => ({ x, y }));
+
+const scheme = parseGraphMarkingScheme(JSON.stringify({ xAxis, yAxis, dataPoints: points, graphType: 'line' }));
+const answer = (overrides) => ({ xAxis, yAxis, dataPoints: points, graphType: 'scatter', ...overrides });
+const denial = (result, pointId) => result.denied.find((entry) => entry.pointId === pointId);
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('reads a plotter answer from an object or JSON string', () => {
+    const parsed = parseGraphResponse(JSON.stringify(answer({ graphType: 'bar', dataPoints: [{ x: '1', y: 2 }, { x: 'a' }] })));
+    assert.deepEqual(parsed.dataPoints, [{ x: 1, y: 2, label: undefined }]);
+    assert.equal(parsed.graphType, 'scatter');
+    assert.equal(parseGraphResponse(answer({ xAxis: { ...xAxis, max: 0 } })), null);
+    assert.equal(parseGraphResponse('not json'), null);
+  }));
+
+  results.push(await runTest('a model graph becomes points, axis label terms and a scale check', () => {
+    assert.deepEqual(scheme.expectedPoints.map(({ x, y }) => ({ x, y })), points);
+    assert.deepEqual(scheme.axisLabels, { x: ['time', 's'], y: ['distance', 'm'] });
+    assert.deepEqual(scheme.scale, {});
+    assert.equal(parseGraphMarkingScheme(JSON.stringify({ expectedPoints: [] })), null);
+    assert.equal(parseGraphMarkingScheme(''), null);
+  }));
+
+  results.push(await runTest('a correct graph earns every criterion', () => {
+    const result = markGraphAnswer(answer(), scheme);
+    assert.equal(result.totalAwarded, 4);
+    assert.equal(result.totalAvailable, 4);
+    assert.deepEqual(result.denied, []);
+  }));
+
+  results.push(await runTest('points within half a grid square are accepted', () => {
+    const nudged = points.map((point) => ({ x: point.x + 0.5, y: point.y - 2.5 }));
+    assert.equal(markGraphAnswer(answer({ dataPoints: nudged }), scheme).awarded[0].marks, 2);
+  }));
+
+  results.push(await runTest('each plotting error costs one mark', () => {
+    const misplotted = points.map((point) => (point.x === 4 ? { x: 4, y: 24 } : point));
+    const result = markGraphAnswer(answer({ dataPoints: misplotted }), scheme);
+    assert.equal(result.awarded[0].marks, 1);
+    assert.equal(result.awarded[0].notes, '1 plotting error');
+    assert.match(denial(result, 'graph_points').reason, /not plotted within tolerance: \(4, 20\)/);
+
+    const missingTwo = markGraphAnswer(answer({ dataPoints: points.slice(0, 3) }), scheme);
+    assert.equal(denial(missingTwo, 'graph_points').reason, 'points not plotted within tolerance: (6, 30), (8, 40)');
+    assert.equal(missingTwo.awarded.some((entry) => entry.pointId === 'graph_points'), false);
+  }));
+
+  results.push(await runTest('axis labels must contain each term as a whole word', () => {
+    const result = markGraphAnswer(answer({ xAxis: { ...xAxis, label: 'time' }, yAxis: { ...yAxis, label: 'distance' } }), scheme);
+    assert.equal(denial(result, 'graph_axes').reason, 'x-axis label missing "s"; y-axis label missing "m"');
+
+    const alternatives = { ...scheme, axisLabels: { x: ['time|t', 's'], y: ['distance', 'm'] } };
+    const relabelled = answer({ xAxis: { ...xAxis, label: 't (s)' } });
+    assert.equal(denial(markGraphAnswer(relabelled, alternatives), 'graph_axes'), undefined);
+  }));
+
+  results.push(await runTest('scales must use 1-2-5 steps and cover enough of each axis', () => {
+    const awkward = markGraphAnswer(answer({ yAxis: { ...yAxis, step: 3 } }), scheme);
+    assert.equal(denial(awkward, 'graph_scale').reason, 'y-axis scale of 3 per square is awkward to read');
+
+    const cramped = markGraphAnswer(answer({ xAxis: { ...xAxis, max: 100, step: 10 } }), scheme);
+    assert.match(denial(cramped, 'graph_scale').reason, /less than 50% of the x-axis/);
+  }));
+
+  results.push(await runTest('no graph loses every mark', () => {
+    const result = markGraphAnswer(null, scheme);
+    assert.equal(result.totalAwarded, 0);
+    assert.equal(result.totalAvailable, 4);
+    assert.equal(result.denied[0].reason, 'no graph submitted');
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
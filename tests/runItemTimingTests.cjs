@@ -0,0 +1,82 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const { accumulateActiveTime, hasViewEvents, median } = require('../src/services/practice/itemTiming.ts');
+const { calculateSpeedBonus } = require('../src/services/practice/autoMarkingEngine.ts');
+
+const at = (seconds) => new Date(Date.UTC(2026, 0, 10, 9, 0, seconds)).toISOString();
+const event = (event_type, item_id, seconds) => ({ event_type, item_id, created_at: at(seconds) });
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('time accrues only while an item is on screen', () => {
+    const totals = accumulateActiveTime([
+      event('item_viewed', 'q1', 0),
+      event('item_viewed', 'q2', 30),
+      event('item_viewed', 'q1', 50),
+      event('answer_submitted', 'q1', 60),
+    ]);
+    assert.equal(totals.get('q1'), 40);
+    assert.equal(totals.get('q2'), 20);
+  }));
+
+  results.push(await runTest('a hidden tab pauses the clock until it is visible again', () => {
+    const totals = accumulateActiveTime([
+      event('item_visible', 'q1', 35),
+      event('item_viewed', 'q1', 0),
+      event('item_hidden', 'q1', 10),
+      event('answer_submitted', 'q1', 45),
+    ]);
+    assert.equal(totals.get('q1'), 20);
+  }));
+
+  results.push(await runTest('an open segment is closed at the given time, after submission nothing accrues', () => {
+    const open = [event('item_viewed', 'q1', 0)];
+    assert.equal(accumulateActiveTime(open, at(25)).get('q1'), 25);
+    assert.equal(accumulateActiveTime(open).size, 0);
+
+    const submitted = [...open, event('answer_submitted', 'q1', 10)];
+    assert.equal(accumulateActiveTime(submitted, at(50)).get('q1'), 10);
+  }));
+
+  results.push(await runTest('a single stretch is capped at twenty minutes', () => {
+    const totals = accumulateActiveTime([event('item_viewed', 'q1', 0), event('answer_submitted', 'q1', 3600)]);
+    assert.equal(totals.get('q1'), 20 * 60);
+  }));
+
+  results.push(await runTest('unrelated events are ignored', () => {
+    const totals = accumulateActiveTime([
+      event('item_viewed', 'q1', 0),
+      event('hint_opened', 'q1', 5),
+      event('answer_submitted', 'q2', 8),
+      event('answer_submitted', 'q1', 12),
+    ]);
+    assert.equal(totals.get('q1'), 12);
+    assert.equal(hasViewEvents([event('item_viewed', 'q1', 0)], 'q1'), true);
+    assert.equal(hasViewEvents([event('answer_submitted', 'q1', 0)], 'q1'), false);
+  }));
+
+  results.push(await runTest('median of odd, even and empty lists', () => {
+    assert.equal(median([30, 10, 20]), 20);
+    assert.equal(median([40, 10, 20, 30]), 25);
+    assert.equal(median([]), 0);
+  }));
+
+  results.push(await runTest('speed bonus uses active seconds and ignores unknown timings', () => {
+    assert.equal(calculateSpeedBonus(null), 0);
+    assert.equal(calculateSpeedBonus(0), 0);
+    assert.equal(calculateSpeedBonus(45), 5);
+    assert.equal(calculateSpeedBonus(90), 0);
+    assert.equal(calculateSpeedBonus(50, 60), 1);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
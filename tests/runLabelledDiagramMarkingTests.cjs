@@ -0,0 +1,108 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  buildSchemeFromRows,
+  markLabelledDiagram,
+  markLabelledDiagramAnswer,
+  normaliseLabel,
+  parseLabelledDiagramScheme,
+  parsePlacedLabels,
+} = require('../src/services/practice/labelledDiagramMarking.ts');
+
+const scheme = parseLabelledDiagramScheme(
+  JSON.stringify({
+    labels: [
+      { text: 'Nucleus', x: 20, y: 20 },
+      { text: 'Mitochondrion', x: 60, y: 60, acceptableAlternatives: ['mitochondria'] },
+      { text: 'Cell membrane', x: 90, y: 10, marks: 2 },
+    ],
+  }),
+);
+
+const mark = (labels, target = scheme) => markLabelledDiagram({ labels }, target);
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('normalises case, punctuation, hyphens and leading articles', () => {
+    assert.equal(normaliseLabel('The  Cell-Membrane!'), 'cell membrane');
+    assert.equal(normaliseLabel('an Ovary'), 'ovary');
+  }));
+
+  results.push(await runTest('a model diagram becomes targets centred on its labels', () => {
+    assert.deepEqual(scheme.labels[0], { text: 'Nucleus', marks: 1, acceptableAlternatives: [], region: { x: 20, y: 20 } });
+    assert.equal(scheme.labels[2].marks, 2);
+    assert.equal(parseLabelledDiagramScheme('{"labels":[]}'), null);
+    assert.equal(parseLabelledDiagramScheme('nucleus'), null);
+  }));
+
+  results.push(await runTest('plain answer rows split "/" alternatives into a text-only scheme', () => {
+    assert.deepEqual(
+      buildSchemeFromRows([
+        { text: 'xylem / vessel', marks: null, acceptableVariations: ['xylem vessel'] },
+        { text: ' ', marks: 1 },
+      ]),
+      { labels: [{ text: 'xylem', marks: 1, acceptableAlternatives: ['vessel', 'xylem vessel'], region: null }] },
+    );
+  }));
+
+  results.push(await runTest('drops placed labels without text or position', () => {
+    assert.deepEqual(
+      parsePlacedLabels(JSON.stringify({ labels: [{ text: 'A', x: 1, y: '2' }, { text: ' ', x: 1, y: 1 }, { text: 'B' }] })),
+      [{ id: undefined, text: 'A', x: 1, y: 2 }],
+    );
+    assert.equal(parsePlacedLabels('nucleus'), null);
+  }));
+
+  results.push(await runTest('correct labels in their regions earn every mark, with single-letter slips on long terms', () => {
+    const result = mark([
+      { text: 'the nucleus', x: 22, y: 18 },
+      { text: 'Mitochondira', x: 62, y: 61 },
+      { text: 'cell-membrane', x: 88, y: 12 },
+    ]);
+    assert.equal(result.totalAwarded, 4);
+    assert.equal(result.totalAvailable, 4);
+    assert.deepEqual(result.notes, ['accepted spelling "Mitochondira" for Mitochondrion']);
+  }));
+
+  results.push(await runTest('short terms get no spelling tolerance', () => {
+    const target = { labels: [{ text: 'vein', region: null }] };
+    assert.equal(mark([{ text: 'vien', x: 0, y: 0 }], target).totalAwarded, 0);
+  }));
+
+  results.push(await runTest('a label outside its region is not credited', () => {
+    const result = mark([{ text: 'nucleus', x: 60, y: 60 }]);
+    assert.equal(result.denied[0].reason, '"nucleus" is not placed on the correct part of the diagram');
+    assert.equal(result.denied[0].expected, 'Nucleus at (20%, 20%)');
+  }));
+
+  results.push(await runTest('a wrong label on the same part contradicts the right one', () => {
+    const result = mark([
+      { text: 'nucleus', x: 60, y: 60 },
+      { text: 'ribosome', x: 21, y: 21 },
+      { text: 'Nucleus', x: 21, y: 19 },
+    ]);
+    assert.deepEqual(result.denied[0], {
+      pointId: 'label_1',
+      reason: 'contradicted by "ribosome" on the same part',
+      expected: 'Nucleus',
+    });
+  }));
+
+  results.push(await runTest('typed answers are marked on text alone', () => {
+    const result = markLabelledDiagramAnswer('nucleus; mitochondria\ncell wall', scheme);
+    assert.deepEqual(result.awarded.map((entry) => entry.pointId), ['label_1', 'label_2']);
+    assert.equal(result.denied[0].reason, 'no label for Cell membrane');
+    assert.equal(result.totalAvailable, 4);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,185 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  fetchLeaderboardPrivacy,
+  getLeaderboardSnapshot,
+  resolvePeriodRange,
+  setLeaderboardOptOut,
+  updateLeaderboards,
+} = require('../src/services/leaderboardService.ts');
+
+function mockRpc(handler) {
+  const calls = [];
+  global.__supabaseMock = {
+    rpc: async (fn, args) => {
+      calls.push({ fn, args });
+      return handler(fn, args);
+    },
+  };
+  return calls;
+}
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('daily and weekly periods follow the board timezone', () => {
+    const lateSaturdayUtc = '2026-01-10T23:30:00.000Z';
+    assert.deepEqual(resolvePeriodRange('daily', lateSaturdayUtc, 'UTC'), { start: '2026-01-10', end: '2026-01-10' });
+    assert.deepEqual(resolvePeriodRange('daily', lateSaturdayUtc, 'Asia/Dubai'), { start: '2026-01-11', end: '2026-01-11' });
+    // Weeks start on Sunday: still last week in UTC, already the next one in Dubai
+    assert.deepEqual(resolvePeriodRange('weekly', lateSaturdayUtc, 'UTC'), { start: '2026-01-04', end: '2026-01-10' });
+    assert.deepEqual(resolvePeriodRange('weekly', lateSaturdayUtc, 'Asia/Dubai'), { start: '2026-01-11', end: '2026-01-17' });
+  }));
+
+  results.push(await runTest('monthly and seasonal periods roll over in the board timezone', () => {
+    assert.deepEqual(resolvePeriodRange('monthly', '2026-01-31T22:00:00.000Z', 'UTC'), { start: '2026-01-01', end: '2026-01-31' });
+    assert.deepEqual(resolvePeriodRange('monthly', '2026-01-31T22:00:00.000Z', 'Asia/Tokyo'), { start: '2026-02-01', end: '2026-02-28' });
+    assert.deepEqual(resolvePeriodRange('seasonal', '2026-03-31T23:00:00.000Z', 'UTC'), { start: '2026-01-01', end: '2026-03-31' });
+    assert.deepEqual(resolvePeriodRange('seasonal', '2026-03-31T23:00:00.000Z', 'Asia/Dubai'), { start: '2026-04-01', end: '2026-06-30' });
+    assert.deepEqual(resolvePeriodRange('seasonal', '2026-01-01T03:00:00.000Z', 'America/New_York'), { start: '2025-10-01', end: '2025-12-31' });
+  }));
+
+  results.push(await runTest('a missing or unknown timezone counts days in UTC', () => {
+    const at = '2026-01-10T23:30:00.000Z';
+    assert.deepEqual(resolvePeriodRange('daily', at), { start: '2026-01-10', end: '2026-01-10' });
+    assert.deepEqual(resolvePeriodRange('daily', at, null), { start: '2026-01-10', end: '2026-01-10' });
+    assert.deepEqual(resolvePeriodRange('daily', at, 'Not/AZone'), { start: '2026-01-10', end: '2026-01-10' });
+  }));
+
+  results.push(await runTest('a finished session sends the instant so the database picks each board period', async () => {
+    const calls = mockRpc(() => ({ data: null, error: null }));
+    const before = Date.now();
+    await updateLeaderboards({ studentId: 'student-1', subjectId: 'subject-1' });
+
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].fn, 'record_leaderboard_student');
+    assert.equal(calls[0].args.p_student_id, 'student-1');
+    assert.equal(calls[0].args.p_subject_id, 'subject-1');
+    const referenceAt = Date.parse(calls[0].args.p_reference_at);
+    assert.ok(referenceAt >= before && referenceAt <= Date.now());
+    assert.equal('p_reference_date' in calls[0].args, false);
+  }));
+
+  results.push(await runTest('leaderboard update failures are logged, not thrown', async () => {
+    mockRpc(() => ({ data: null, error: { message: 'Not allowed to update leaderboards for this student' } }));
+    const logged = [];
+    const originalError = console.error;
+    console.error = (...args) => logged.push(args);
+    try {
+      await updateLeaderboards({ studentId: 'student-1', subjectId: null });
+    } finally {
+      console.error = originalError;
+    }
+    assert.equal(logged.length, 1);
+    assert.match(String(logged[0][1]), /Not allowed to update leaderboards/);
+  }));
+
+  results.push(await runTest('class boards are read for the current period in the school timezone', async () => {
+    const calls = mockRpc(() => ({ data: null, error: null }));
+    await getLeaderboardSnapshot({
+      scope: 'class',
+      scopeKey: 'branch-1:10-A',
+      period: 'daily',
+      subjectId: null,
+      timeZone: 'Pacific/Kiritimati',
+    });
+
+    assert.equal(calls[0].fn, 'get_leaderboard_snapshot');
+    assert.deepEqual(calls[0].args, {
+      p_scope: 'class',
+      p_scope_key: 'branch-1:10-A',
+      p_period: 'daily',
+      p_period_start: resolvePeriodRange('daily', new Date(), 'Pacific/Kiritimati').start,
+      p_subject_id: null,
+    });
+  }));
+
+  results.push(await runTest('global boards ignore the school timezone', async () => {
+    const calls = mockRpc(() => ({ data: null, error: null }));
+    await getLeaderboardSnapshot({ scope: 'global', period: 'daily', timeZone: 'Pacific/Kiritimati' });
+
+    assert.equal(calls[0].args.p_scope_key, '');
+    assert.equal(calls[0].args.p_period_start, resolvePeriodRange('daily', new Date(), 'UTC').start);
+  }));
+
+  results.push(await runTest('aliased rows come back without student ids and the viewer row is flagged', async () => {
+    const board = {
+      id: 'board-1',
+      scope: 'global',
+      scope_key: '',
+      period: 'weekly',
+      period_start: '2026-01-04',
+      period_end: '2026-01-10',
+      subject_id: null,
+      rows: [
+        { studentName: 'Swift Otter', avatarUrl: null, xp: 120, accuracy: 0.9, medianTimeSec: 40, streak: 3, rank: 1, isCurrentStudent: false },
+        { studentId: 'student-1', studentName: 'Amira', avatarUrl: 'a.png', xp: 80, accuracy: 0.7, medianTimeSec: 55, streak: 1, rank: 2, isCurrentStudent: true },
+      ],
+      created_at: '2026-01-04T00:00:00.000Z',
+      updated_at: '2026-01-05T00:00:00.000Z',
+    };
+    mockRpc(() => ({ data: board, error: null }));
+    const snapshot = await getLeaderboardSnapshot({ scope: 'global', period: 'weekly' });
+
+    assert.deepEqual(snapshot.rows.map((row) => row.rank), [1, 2]);
+    assert.equal('studentId' in snapshot.rows[0], false);
+    assert.equal(snapshot.rows[0].avatarUrl, null);
+    assert.equal(snapshot.rows.find((row) => row.isCurrentStudent).studentId, 'student-1');
+  }));
+
+  results.push(await runTest('a hidden scope or missing board reads as no board', async () => {
+    mockRpc(() => ({ data: null, error: null }));
+    assert.equal(await getLeaderboardSnapshot({ scope: 'school', scopeKey: 'branch-1', period: 'monthly' }), null);
+  }));
+
+  results.push(await runTest('snapshot and settings errors are thrown with context', async () => {
+    mockRpc(() => ({ data: null, error: { message: 'permission denied' } }));
+    await assert.rejects(getLeaderboardSnapshot({ scope: 'global', period: 'weekly' }), /Unable to load leaderboard snapshot: permission denied/);
+    await assert.rejects(fetchLeaderboardPrivacy('student-1'), /Unable to load leaderboard settings: permission denied/);
+  }));
+
+  results.push(await runTest('privacy settings are returned as the database reports them', async () => {
+    const privacy = {
+      policy: 'class_only',
+      minAge: 13,
+      optOut: null,
+      underMinAge: true,
+      classScopeKey: 'branch-1:7-B',
+      timeZone: 'Asia/Dubai',
+      visibility: 'hidden',
+    };
+    const calls = mockRpc(() => ({ data: privacy, error: null }));
+
+    assert.deepEqual(await fetchLeaderboardPrivacy('student-1'), privacy);
+    assert.deepEqual(calls[0], { fn: 'get_leaderboard_privacy', args: { p_student_id: 'student-1' } });
+  }));
+
+  results.push(await runTest('opting out and back in goes through set_leaderboard_opt_out', async () => {
+    const calls = mockRpc(() => ({ data: null, error: null }));
+    await setLeaderboardOptOut('student-1', true);
+    await setLeaderboardOptOut('student-1', false);
+
+    assert.deepEqual(calls.map((call) => call.args), [
+      { p_student_id: 'student-1', p_opt_out: true },
+      { p_student_id: 'student-1', p_opt_out: false },
+    ]);
+  }));
+
+  results.push(await runTest('an under-age student opting in sees the database refusal', async () => {
+    mockRpc(() => ({
+      data: null,
+      error: { message: 'Students under the minimum age need a teacher or parent to join the leaderboard' },
+    }));
+    await assert.rejects(setLeaderboardOptOut('student-1', false), /need a teacher or parent/);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,120 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  buildGradeTrajectory,
+  buildLearningTrends,
+  masteryStatus,
+  weightedMastery,
+} = require('../src/services/practice/learningTrends.ts');
+
+const session = (sessionId, completedAt, percentage, topicPerformance, overrides = {}) => ({
+  sessionId,
+  subjectId: 'chemistry',
+  completedAt,
+  percentage,
+  gradePrediction: null,
+  totalTimeSeconds: 600,
+  averageTimePerQuestion: 60,
+  questionsAnswered: 10,
+  unitPerformance: [],
+  topicPerformance,
+  subtopicPerformance: [],
+  difficultyBreakdown: {},
+  ...overrides,
+});
+const topic = (topicId, marksEarned, marksAvailable) => ({ topicId, topicName: topicId, marksEarned, marksAvailable });
+
+const rows = [
+  session('s3', '2026-01-12T10:00:00.000Z', 60, [topic('t1', 4, 4)], {
+    gradePrediction: 'B',
+    difficultyBreakdown: { hard: { total: 2, marksEarned: 1, marksAvailable: 4 }, easy: { total: 0 } },
+  }),
+  session('s1', '2026-01-05T10:00:00.000Z', 40, [topic('t1', 2, 4), topic('t2', 1, 4), topic('t3', 0, 0)]),
+  session('s2', '2026-01-07T10:00:00.000Z', 50, [topic('t1', 3, 4)]),
+];
+
+const catalogue = {
+  units: [{ id: 'u1', name: 'Physical chemistry' }],
+  topics: [
+    { id: 't1', name: 'Rates', unit_id: 'u1' },
+    { id: 't2', name: 'Energetics', unit_id: 'u1' },
+    { id: 't3', name: 'Equilibria', unit_id: 'u1' },
+  ],
+  subtopics: [{ id: 'st1', name: 'Collision theory', topic_id: 't1' }],
+};
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('mastery thresholds', () => {
+    assert.equal(masteryStatus(0.8), 'mastered');
+    assert.equal(masteryStatus(0.6), 'progressing');
+    assert.equal(masteryStatus(0.59), 'needs_work');
+  }));
+
+  results.push(await runTest('recent sessions weigh more in mastery', () => {
+    const point = (marksEarned) => ({ sessionId: '', date: '', accuracy: 0, marksEarned, marksAvailable: 4 });
+    assert.ok(Math.abs(weightedMastery([point(2), point(3), point(4)]) - 7.68 / 9.76) < 1e-9);
+    assert.ok(weightedMastery([point(4), point(2)]) < weightedMastery([point(2), point(4)]));
+    assert.equal(weightedMastery([]), 0);
+  }));
+
+  results.push(await runTest('topic trends follow sessions in date order, weakest first', () => {
+    const trends = buildLearningTrends(rows, catalogue);
+    assert.equal(trends.sessionCount, 3);
+    const [weakest, rates] = trends.masteryTrends.topic;
+    assert.equal(weakest.id, 't2');
+    assert.equal(weakest.status, 'needs_work');
+    assert.deepEqual(rates.points.map((point) => point.sessionId), ['s1', 's2', 's3']);
+    assert.equal(rates.firstAccuracy, 0.5);
+    assert.equal(rates.latestAccuracy, 1);
+    assert.equal(rates.change, 0.5);
+    assert.equal(rates.status, 'progressing');
+    assert.equal(trends.masteryTrends.topic.length, 2);
+  }));
+
+  results.push(await runTest('difficulty bands without questions are left empty', () => {
+    const [, , latest] = buildLearningTrends(rows, catalogue).difficultyProgression;
+    assert.deepEqual(latest, { sessionId: 's3', date: '2026-01-12T10:00:00.000Z', easy: null, medium: null, hard: 0.25 });
+  }));
+
+  results.push(await runTest('time on task is grouped by week', () => {
+    assert.deepEqual(
+      buildLearningTrends(rows, catalogue).timeOnTask.map((week) => [week.weekStart, week.sessions, week.averageTimePerQuestion]),
+      [['2026-01-04', 2, 60], ['2026-01-11', 1, 60]],
+    );
+  }));
+
+  results.push(await runTest('the grade trajectory projects the trend and stays within 0-100', () => {
+    const trajectory = buildLearningTrends(rows, catalogue).gradeTrajectory;
+    assert.equal(trajectory.slopePerSession, 10);
+    assert.equal(trajectory.projectedPercentage, 90);
+    assert.equal(trajectory.latestGrade, 'B');
+
+    const steep = buildGradeTrajectory([session('a', '', 40, []), session('b', '', 90, [])]);
+    assert.equal(steep.projectedPercentage, 100);
+    const single = buildGradeTrajectory([session('a', '', 40, [], { gradePrediction: 'D' })]);
+    assert.deepEqual([single.slopePerSession, single.projectedPercentage, single.latestGrade], [0, null, 'D']);
+  }));
+
+  results.push(await runTest('the heatmap rolls unmeasured areas up from their children', () => {
+    const [unit] = buildLearningTrends(rows, catalogue).heatmap;
+    const [rates, energetics, equilibria] = unit.children;
+    assert.equal(rates.attempts, 3);
+    assert.equal(rates.children[0].mastery, null);
+    assert.equal(energetics.mastery, 0.25);
+    assert.deepEqual([equilibria.mastery, equilibria.attempts], [null, 0]);
+    assert.equal(unit.attempts, 4);
+    assert.ok(Math.abs(unit.mastery - (rates.mastery * 3 + 0.25) / 4) < 1e-9);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,73 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const { applyMarkingOverrides, resolveEffectiveMarking } = require('../src/services/practice/markingOverride.ts');
+
+const base = {
+  awarded: [{ pointId: 'p1', marks: 1, notes: 'method shown' }],
+  denied: [{ pointId: 'p2', reason: 'missing units', expected: '24 cm' }],
+  ecf: false,
+  notes: ['auto-marked'],
+  totalAwarded: 1,
+  totalAvailable: 2,
+};
+
+const context = { comment: ' units implied by the diagram ', reviewerId: 'teacher-1', reviewedAt: '2026-02-01T09:00:00.000Z' };
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('awarding a denied point moves it into awarded', () => {
+    const result = applyMarkingOverrides(base, [{ pointId: 'p2', action: 'award', marks: 1 }], context);
+    assert.deepEqual(result.awarded.map((entry) => entry.pointId), ['p1', 'p2']);
+    assert.deepEqual(result.denied, []);
+    assert.equal(result.awarded[1].notes, 'teacher override: units implied by the diagram');
+    assert.equal(result.totalAwarded, 2);
+  }));
+
+  results.push(await runTest('removing an awarded point keeps what it was awarded for', () => {
+    const result = applyMarkingOverrides(base, [{ pointId: 'p1', action: 'remove', marks: 0 }], { ...context, comment: '' });
+    assert.deepEqual(result.awarded, []);
+    assert.deepEqual(result.denied.find((entry) => entry.pointId === 'p1'), {
+      pointId: 'p1',
+      reason: 'removed by teacher',
+      expected: 'method shown',
+    });
+    assert.equal(result.totalAwarded, 0);
+    assert.deepEqual(result.notes, ['auto-marked', 'teacher override']);
+  }));
+
+  results.push(await runTest('total is capped at the marks available and negative awards are zeroed', () => {
+    const capped = applyMarkingOverrides(base, [{ pointId: 'p2', action: 'award', marks: 5 }], context);
+    assert.equal(capped.totalAwarded, 2);
+    const zeroed = applyMarkingOverrides(base, [{ pointId: 'p2', action: 'award', marks: -3 }], context);
+    assert.equal(zeroed.awarded[1].marks, 0);
+    assert.equal(zeroed.totalAwarded, 1);
+  }));
+
+  results.push(await runTest('records who overrode the marking, when and why', () => {
+    const overrides = [{ pointId: 'p2', action: 'award', marks: 1 }];
+    const result = applyMarkingOverrides(base, overrides, context);
+    assert.equal(result.comment, 'units implied by the diagram');
+    assert.equal(result.overriddenBy, 'teacher-1');
+    assert.equal(result.overriddenAt, '2026-02-01T09:00:00.000Z');
+    assert.deepEqual(result.overrides, overrides);
+    assert.equal(base.awarded.length, 1);
+  }));
+
+  results.push(await runTest('the manual mark takes precedence over the auto mark', () => {
+    const manual = applyMarkingOverrides(base, [], context);
+    assert.equal(resolveEffectiveMarking({ auto_mark_json: base, manual_mark_json: manual }), manual);
+    assert.equal(resolveEffectiveMarking({ auto_mark_json: base, manual_mark_json: null }), base);
+    assert.equal(resolveEffectiveMarking({ auto_mark_json: null }), null);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
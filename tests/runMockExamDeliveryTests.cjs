@@ -0,0 +1,42 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const { remainingSeconds, responseKey, serverClockOffsetMs } = require('../src/services/mockExamDeliveryService.ts');
+
+const receivedAt = Date.parse('2026-03-02T09:00:00.000Z');
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('responses to a part are keyed separately from the whole question', () => {
+    assert.equal(responseKey('sel-1', null), 'sel-1');
+    assert.equal(responseKey('sel-1', 'sub-a'), 'sel-1:sub-a');
+  }));
+
+  results.push(await runTest('the clock offset is how far the server is ahead of the device', () => {
+    assert.equal(serverClockOffsetMs('2026-03-02T09:00:30.000Z', receivedAt), 30000);
+    assert.equal(serverClockOffsetMs('2026-03-02T08:59:00.000Z', receivedAt), -60000);
+  }));
+
+  results.push(await runTest('the countdown follows the server deadline, not the device clock', () => {
+    const deadline = '2026-03-02T10:00:00.000Z';
+    assert.equal(remainingSeconds(deadline, 0, receivedAt), 3600);
+    // The device is five minutes slow
+    assert.equal(remainingSeconds(deadline, 5 * 60 * 1000, receivedAt), 3300);
+    assert.equal(remainingSeconds(deadline, 0, receivedAt + 1500), 3598);
+  }));
+
+  results.push(await runTest('the countdown stops at zero and without a deadline', () => {
+    assert.equal(remainingSeconds('2026-03-02T08:00:00.000Z', 0, receivedAt), 0);
+    assert.equal(remainingSeconds(null, 0, receivedAt), 0);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,92 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  allocatedMarkerFor,
+  markKey,
+  summariseMarkerProgress,
+  validateMark,
+} = require('../src/services/mockExamMarkingService.ts');
+
+const item = (questionSelectionId, subQuestionId = null) => ({
+  questionSelectionId,
+  subQuestionId,
+  questionNumber: 1,
+  label: subQuestionId ? `Q1 (${subQuestionId})` : 'Q2',
+  prompt: null,
+  maxMarks: 4,
+  correctAnswer: null,
+});
+const student = (studentId) => ({ studentId, name: studentId, email: '', submissionStatus: 'submitted', attendanceStatus: null });
+
+const allocations = [
+  { markerId: 'm1', allocationType: 'question', questionSelectionId: 'q1', studentId: null },
+  { markerId: 'm2', allocationType: 'script', questionSelectionId: null, studentId: 's2' },
+];
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('mark keys combine the student and the question part', () => {
+    assert.equal(markKey('s1', 'q1', null), 's1:q1');
+    assert.equal(markKey('s1', 'q1', 'a'), 's1:q1:a');
+  }));
+
+  results.push(await runTest('script allocations take precedence over question allocations', () => {
+    assert.equal(allocatedMarkerFor(allocations, 's1', 'q1'), 'm1');
+    assert.equal(allocatedMarkerFor(allocations, 's2', 'q1'), 'm2');
+    assert.equal(allocatedMarkerFor(allocations, 's1', 'q2'), null);
+  }));
+
+  results.push(await runTest('progress counts allocated and marked items per marker', () => {
+    const progress = summariseMarkerProgress({
+      items: [item('q1', 'a'), item('q2')],
+      students: [student('s1'), student('s2')],
+      markers: [
+        { entityUserId: 'm1', name: 'Ms Khan', role: 'marker' },
+        { entityUserId: 'm2', name: 'Mr Lee', role: 'examiner' },
+        { entityUserId: 'm3', name: 'Dr Osei', role: 'moderator' },
+      ],
+      allocations,
+      responses: {
+        's1:q1:a': { markedAt: '2026-03-03T10:00:00.000Z' },
+        's2:q2': { markedAt: '2026-03-03T10:00:00.000Z' },
+        's1:q2': { markedAt: null },
+      },
+      currentMarkerId: null,
+    });
+    assert.deepEqual(
+      progress.map((row) => [row.name, row.allocated, row.marked]),
+      [['Ms Khan', 1, 1], ['Mr Lee', 2, 1], ['Dr Osei', 0, 0], ['Unallocated', 1, 0]],
+    );
+  }));
+
+  results.push(await runTest('no Unallocated row when every item has a marker', () => {
+    const progress = summariseMarkerProgress({
+      items: [item('q1')],
+      students: [student('s1')],
+      markers: [{ entityUserId: 'm1', name: 'Ms Khan', role: 'marker' }],
+      allocations,
+      responses: {},
+      currentMarkerId: 'm1',
+    });
+    assert.deepEqual(progress.map((row) => row.name), ['Ms Khan']);
+  }));
+
+  results.push(await runTest('marks must be a number from 0 to the item maximum', () => {
+    assert.equal(validateMark(item('q2'), 4), null);
+    assert.equal(validateMark(item('q2'), 0), null);
+    assert.equal(validateMark(item('q2'), 5), 'Q2: marks must be between 0 and 4');
+    assert.equal(validateMark(item('q2'), -1), 'Q2: marks must be between 0 and 4');
+    assert.equal(validateMark(item('q2'), Number.NaN), 'Q2: enter a number');
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
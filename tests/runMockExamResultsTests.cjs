@@ -0,0 +1,95 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const { summariseCohort, summariseReportTopics } = require('../src/services/mockExamResultsService.ts');
+
+const result = (studentId, percentageScore, predictedGrade) => ({
+  studentId,
+  name: studentId,
+  totalMarksScored: 0,
+  totalMarksPossible: 100,
+  percentageScore,
+  predictedGrade,
+  completionStatus: 'completed',
+  publishedAt: null,
+});
+
+const item = (topicName, marksAwarded, maxMarks, topicId = topicName) => ({
+  questionSelectionId: 'q',
+  subQuestionId: null,
+  label: 'Q',
+  maxMarks,
+  marksAwarded,
+  markerComments: null,
+  topicId,
+  topicName,
+  unitName: null,
+});
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('cohort statistics skip students without a score', () => {
+    const summary = summariseCohort([
+      result('a', 72, 'B'),
+      result('b', 95, 'A*'),
+      result('c', null, null),
+      result('d', 40, 'E'),
+      result('e', 68, 'B'),
+    ]);
+    assert.equal(summary.count, 4);
+    assert.equal(summary.mean, 68.8);
+    assert.equal(summary.median, 70);
+    assert.equal(summary.standardDeviation, 19.5);
+  }));
+
+  results.push(await runTest('scores fall into 10% bands with 100% in the top band', () => {
+    const { scoreBands } = summariseCohort([result('a', 100, 'A*'), result('b', 90, 'A*'), result('c', 9.9, 'U')]);
+    assert.equal(scoreBands.length, 10);
+    assert.deepEqual(scoreBands[0], { label: '0–9%', count: 1 });
+    assert.deepEqual(scoreBands[9], { label: '90–100%', count: 2 });
+  }));
+
+  results.push(await runTest('grades are counted from the top score down', () => {
+    const { gradeCounts } = summariseCohort([
+      result('a', 72, 'B'),
+      result('b', 95, 'A*'),
+      result('c', null, null),
+      result('d', 68, 'B'),
+    ]);
+    assert.deepEqual(gradeCounts, [
+      { grade: 'A*', count: 1 },
+      { grade: 'B', count: 2 },
+      { grade: 'Ungraded', count: 1 },
+    ]);
+  }));
+
+  results.push(await runTest('an empty cohort summarises to zeros', () => {
+    const summary = summariseCohort([]);
+    assert.deepEqual([summary.count, summary.mean, summary.median, summary.standardDeviation], [0, 0, 0, 0]);
+    assert.deepEqual(summary.gradeCounts, []);
+  }));
+
+  results.push(await runTest('report topics split into strengths and weaknesses from marked items', () => {
+    const { strongAreas, weakAreas } = summariseReportTopics([
+      item('Rates', 4, 4),
+      item('Rates', 3, 4),
+      item('Bonding', 3, 4),
+      item('Energetics', 1, 6),
+      item('Energetics', null, 6),
+      item('Moles', 0, 2),
+      item(null, 0, 10, null),
+    ]);
+    assert.deepEqual(strongAreas.map((area) => [area.name, area.accuracy, area.questionsTotal]), [['Rates', 0.875, 2]]);
+    assert.deepEqual(weakAreas.map((area) => [area.name, area.improvementPotential]), [['Energetics', 5], ['Moles', 2]]);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
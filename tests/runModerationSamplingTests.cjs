@@ -0,0 +1,48 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const { selectModerationSample } = require('../src/services/moderationSampling.ts');
+
+const scripts = (markedBy, count, prefix = markedBy) =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `${prefix}-${String(index).padStart(2, '0')}`,
+    markedBy,
+    marks: index,
+  }));
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('draws a tenth of each marker\'s scripts spread across the mark range', () => {
+    assert.deepEqual(selectModerationSample(scripts('m1', 20)), ['m1-05', 'm1-15']);
+  }));
+
+  results.push(await runTest('every marker is sampled at least once', () => {
+    assert.deepEqual(selectModerationSample([...scripts('m1', 20), ...scripts('m2', 3)]), ['m1-05', 'm1-15', 'm2-01']);
+    assert.deepEqual(selectModerationSample(scripts('m1', 4), 0.1, 2), ['m1-01', 'm1-03']);
+  }));
+
+  results.push(await runTest('never draws more scripts than a marker has', () => {
+    assert.deepEqual(selectModerationSample(scripts('m1', 2), 1, 5).sort(), ['m1-00', 'm1-01']);
+  }));
+
+  results.push(await runTest('unmarked scripts are sampled as their own group', () => {
+    assert.deepEqual(selectModerationSample(scripts(null, 3, 'x')), ['x-01']);
+  }));
+
+  results.push(await runTest('the sample does not depend on input order', () => {
+    const candidates = [...scripts('m1', 20), ...scripts('m2', 7)];
+    const reversed = [...candidates].reverse();
+    assert.deepEqual(selectModerationSample(reversed).sort(), selectModerationSample(candidates).sort());
+    assert.deepEqual(selectModerationSample([]), []);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
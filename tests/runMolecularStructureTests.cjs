@@ -0,0 +1,91 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  detectFunctionalGroups,
+  findValenceProblems,
+  isSameMolecule,
+  layoutMolecule,
+  molecularFormula,
+  nextElementId,
+  parseMolfile,
+  parseSmiles,
+  toMolfile,
+  toSmiles,
+} = require('../src/services/practice/molecularStructure.ts');
+
+const atom = (id, element) => ({ id, element, x: 0, y: 0 });
+const bond = (id, from, to, order = 1) => ({ id, from, to, order });
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('skeletal drawings are filled with hydrogens for the formula', () => {
+    assert.equal(molecularFormula(parseSmiles('CCO')), 'C2H6O');
+    assert.equal(molecularFormula(parseSmiles('CC(=O)O')), 'C2H4O2');
+    assert.equal(molecularFormula(parseSmiles('CCCl')), 'C2H5Cl');
+    assert.equal(molecularFormula(parseSmiles('[NH4+]')), 'H4N+');
+  }));
+
+  results.push(await runTest('layout and atom order do not matter, connectivity does', () => {
+    assert.equal(isSameMolecule(parseSmiles('CCO'), parseSmiles('OCC')), true);
+    assert.equal(isSameMolecule(parseSmiles('CCO'), parseSmiles('COC')), false);
+    assert.equal(isSameMolecule(parseSmiles('c1ccccc1'), parseSmiles('C1=CC=CC=C1')), true);
+  }));
+
+  results.push(await runTest('writes canonical SMILES', () => {
+    assert.equal(toSmiles(parseSmiles('OCC')), 'CCO');
+    assert.equal(toSmiles(parseSmiles('C1=CC=CC=C1')), 'c1ccccc1');
+    assert.equal(toSmiles(parseSmiles('[Na+].[Cl-]')), '[Cl-].[Na+]');
+  }));
+
+  results.push(await runTest('detects functional groups', () => {
+    const groups = (smiles) => detectFunctionalGroups(parseSmiles(smiles));
+    assert.deepEqual(groups('CC=C'), ['alkene']);
+    assert.deepEqual(groups('CC=O'), ['aldehyde']);
+    assert.deepEqual(groups('CC(C)=O'), ['ketone']);
+    assert.deepEqual(groups('CC(=O)OC'), ['ester']);
+    assert.deepEqual(groups('CC(N)=O'), ['amide']);
+    assert.deepEqual(groups('CC#N'), ['nitrile']);
+    assert.deepEqual(groups('Oc1ccccc1'), ['arene', 'phenol']);
+  }));
+
+  results.push(await runTest('rejects malformed SMILES', () => {
+    assert.throws(() => parseSmiles('C1CC'), { name: 'SmilesError', message: 'Ring bond is never closed' });
+    assert.throws(() => parseSmiles('C(C'), { name: 'SmilesError' });
+  }));
+
+  results.push(await runTest('reports overbonded atoms and incomplete displayed formulas', () => {
+    assert.deepEqual(findValenceProblems(parseSmiles('C(C)(C)(C)(C)C')), [
+      { atomId: 'atom_1', message: 'C has 5 bonds (maximum 4)' },
+    ]);
+    const displayed = {
+      atoms: [atom('a1', 'C'), atom('a2', 'H'), atom('a3', 'H'), atom('a4', 'H')],
+      bonds: [bond('b1', 'a1', 'a2'), bond('b2', 'a1', 'a3'), bond('b3', 'a1', 'a4')],
+    };
+    assert.equal(molecularFormula(displayed), 'CH3');
+    assert.deepEqual(findValenceProblems(displayed), [
+      { atomId: 'a1', message: 'C has 3 bonds; a displayed formula shows every bond' },
+    ]);
+  }));
+
+  results.push(await runTest('round-trips through a molfile', () => {
+    const ethanol = parseSmiles('CCO');
+    const restored = parseMolfile(toMolfile(layoutMolecule(ethanol), 'ethanol'));
+    assert.equal(isSameMolecule(ethanol, restored), true);
+  }));
+
+  results.push(await runTest('new ids follow the highest existing one', () => {
+    assert.equal(nextElementId('atom', [{ id: 'atom_3' }, { id: 'atom_x' }, { id: 'atom_1' }]), 'atom_4');
+    assert.equal(nextElementId('bond', []), 'bond_1');
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,99 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  evaluateNumericResponse,
+  extractPrecisionRule,
+  parseNumberLiteral,
+  parseNumericRange,
+  roundToPrecision,
+} = require('../src/services/practice/numericPrecision.ts');
+
+const threeSf = { kind: 'significant_figures', value: 3 };
+const twoDp = { kind: 'decimal_places', value: 2 };
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('reads s.f. and d.p. rules from mark-scheme text', () => {
+    assert.deepEqual(extractPrecisionRule(['12.3 (3 s.f.)']), threeSf);
+    assert.deepEqual(extractPrecisionRule(['answer to 3 significant figures']), threeSf);
+    assert.deepEqual(extractPrecisionRule(['4.57', 'correct to 2 d.p.']), twoDp);
+    assert.equal(extractPrecisionRule(['12.3 cm']), null);
+  }));
+
+  results.push(await runTest('counts significant figures and decimal places', () => {
+    assert.deepEqual(parseNumberLiteral('0.00450').significantFigures, { min: 3, max: 3 });
+    assert.deepEqual(parseNumberLiteral('1200').significantFigures, { min: 2, max: 4 });
+    assert.equal(parseNumberLiteral('3.140').decimalPlaces, 3);
+    assert.equal(parseNumberLiteral('x = 2.5 cm').value, 2.5);
+    assert.equal(parseNumberLiteral('twelve'), null);
+  }));
+
+  results.push(await runTest('parses standard form written several ways', () => {
+    for (const text of ['3.4 × 10^3', '3.4 x 10³', '3.4e3', '3.4 × 10^(3)']) {
+      const parsed = parseNumberLiteral(text);
+      assert.equal(parsed.value, 3400, text);
+      assert.equal(parsed.standardForm, true, text);
+      assert.deepEqual(parsed.significantFigures, { min: 2, max: 2 }, text);
+    }
+    assert.ok(Math.abs(parseNumberLiteral('6.0 × 10⁻²').value - 0.06) < 1e-12);
+  }));
+
+  results.push(await runTest('parses accepted ranges and rejects inverted ones', () => {
+    assert.deepEqual(parseNumericRange('3.4–3.6'), { min: 3.4, max: 3.6 });
+    assert.deepEqual(parseNumericRange('3.4 to 3.6 cm'), { min: 3.4, max: 3.6 });
+    assert.equal(parseNumericRange('3.6–3.4'), null);
+    assert.equal(parseNumericRange('3.5'), null);
+  }));
+
+  results.push(await runTest('rounds to significant figures and decimal places', () => {
+    assert.equal(roundToPrecision(0.0045678, threeSf), 0.00457);
+    assert.equal(roundToPrecision(2.345, { kind: 'decimal_places', value: 1 }), 2.3);
+    assert.equal(roundToPrecision(0, threeSf), 0);
+  }));
+
+  results.push(await runTest('a correct value at the wrong precision is flagged, not marked wrong', () => {
+    assert.equal(evaluateNumericResponse('12.3', '12.3', threeSf).status, 'correct');
+    assert.equal(evaluateNumericResponse('12.3', '12.34', threeSf).status, 'wrong_precision');
+    assert.equal(evaluateNumericResponse('12.3', '12', threeSf).status, 'wrong_precision');
+    assert.equal(evaluateNumericResponse('12.3', '12.5', threeSf).status, 'incorrect');
+  }));
+
+  results.push(await runTest('decimal places are enforced exactly', () => {
+    assert.equal(evaluateNumericResponse('4.57', '4.57', twoDp).status, 'correct');
+    assert.equal(evaluateNumericResponse('4.57', '4.570', twoDp).status, 'wrong_precision');
+  }));
+
+  results.push(await runTest('standard form is accepted for an ordinary number', () => {
+    const evaluation = evaluateNumericResponse('3400', '3.40 × 10^3', threeSf);
+    assert.equal(evaluation.status, 'correct');
+    assert.equal(evaluation.note, 'accepted standard form equivalent');
+  }));
+
+  results.push(await runTest('range answers accept any value inside the range', () => {
+    assert.equal(evaluateNumericResponse('3.4–3.6', '3.55').status, 'correct');
+    assert.equal(evaluateNumericResponse('3.4–3.6', '3.7').status, 'incorrect');
+    assert.equal(evaluateNumericResponse('3.4–3.6', 'about three').status, 'not_numeric');
+    assert.equal(evaluateNumericResponse('3.4–3.6', '3.5', twoDp).status, 'wrong_precision');
+  }));
+
+  results.push(await runTest('awrt accepts answers which round to the given value', () => {
+    assert.equal(evaluateNumericResponse('awrt 0.385', '0.3847').status, 'correct');
+    assert.equal(evaluateNumericResponse('awrt 0.385', '0.3862').status, 'incorrect');
+  }));
+
+  results.push(await runTest('without a rule, values within 1% are accepted', () => {
+    assert.equal(evaluateNumericResponse('250', '251').status, 'correct');
+    assert.equal(evaluateNumericResponse('250', '255').status, 'incorrect');
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
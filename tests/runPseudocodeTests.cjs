@@ -0,0 +1,133 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  PseudocodeError,
+  generateTraceTable,
+  runPseudocode,
+  transpilePseudocode,
+} = require('../src/services/practice/pseudocode.ts');
+
+const program = (...lines) => lines.join('\n');
+
+function run(source, input = [], maxSteps) {
+  const queue = [...input];
+  const output = [];
+  runPseudocode(
+    source,
+    { input: () => queue.shift() ?? null, output: (text) => output.push(text), trace: () => undefined },
+    maxSteps,
+  );
+  return output;
+}
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('runs declarations, assignment and counted loops', () => {
+    const source = program(
+      'DECLARE Total : INTEGER',
+      'Total <- 0',
+      'FOR Count <- 1 TO 5',
+      '  Total <- Total + Count',
+      'NEXT Count',
+      'OUTPUT "Total: ", Total',
+    );
+    assert.deepEqual(run(source), ['Total: 15']);
+  }));
+
+  results.push(await runTest('reads typed INPUT and applies DIV and MOD', () => {
+    const source = program(
+      'DECLARE N : INTEGER',
+      'INPUT N',
+      'IF N MOD 2 = 0 THEN',
+      '  OUTPUT "even"',
+      'ELSE',
+      '  OUTPUT "odd"',
+      'ENDIF',
+      'OUTPUT N DIV 2',
+    );
+    assert.deepEqual(run(source, ['7']), ['odd', '3']);
+    assert.throws(() => run(source), /INPUT has no more data/);
+  }));
+
+  results.push(await runTest('supports functions, arrays, concatenation and library routines', () => {
+    const source = program(
+      'FUNCTION Square(X : INTEGER) RETURNS INTEGER',
+      '  RETURN X * X',
+      'ENDFUNCTION',
+      'OUTPUT Square(4)',
+      'DECLARE Names : ARRAY[1:3] OF STRING',
+      'Names[1] <- "Ada"',
+      'OUTPUT LENGTH(Names[1]) & "!", UCASE("ab")',
+    );
+    assert.deepEqual(run(source), ['16', '3!AB']);
+  }));
+
+  results.push(await runTest('supports REPEAT, WHILE and CASE', () => {
+    const source = program(
+      'DECLARE X : INTEGER',
+      'X <- 0',
+      'REPEAT',
+      '  X <- X + 1',
+      'UNTIL X = 3',
+      'WHILE X > 1 DO',
+      '  X <- X - 1',
+      'ENDWHILE',
+      'CASE OF X',
+      '  1 : OUTPUT "one"',
+      '  OTHERWISE : OUTPUT "other"',
+      'ENDCASE',
+    );
+    assert.deepEqual(run(source), ['one']);
+  }));
+
+  results.push(await runTest('syntax errors name the offending line', () => {
+    assert.throws(() => transpilePseudocode(program('IF 1 = 1 THEN', 'OUTPUT 1')), {
+      name: 'PseudocodeError',
+      message: 'Line 1: IF is never closed',
+    });
+    assert.throws(() => transpilePseudocode(program('OUTPUT 1', 'X <-')), (error) => {
+      assert.ok(error instanceof PseudocodeError);
+      assert.equal(error.line, 2);
+      return true;
+    });
+  }));
+
+  results.push(await runTest('a loop that never ends is stopped', () => {
+    assert.throws(() => run(program('WHILE TRUE DO', 'ENDWHILE'), [], 1000), /Too many steps/);
+  }));
+
+  results.push(await runTest('trace tables start a new row when a column repeats', () => {
+    const source = program(
+      'DECLARE Total : INTEGER',
+      'Total <- 0',
+      'FOR Count <- 1 TO 3',
+      '  INPUT Num',
+      '  Total <- Total + Num',
+      'NEXT Count',
+      'OUTPUT Total',
+    );
+    assert.deepEqual(generateTraceTable(source, ['4', '5', '6'], ['Count', 'Num', 'Total']), [
+      ['', '', '0'],
+      ['1', '4', '4'],
+      ['2', '5', '9'],
+      ['3', '6', '15'],
+    ]);
+  }));
+
+  results.push(await runTest('counting down with STEP stays within the limit', () => {
+    const source = program('FOR I <- 6 TO 2 STEP -2', '  OUTPUT I', 'NEXT I');
+    assert.deepEqual(run(source), ['6', '4', '2']);
+    assert.deepEqual(generateTraceTable(source, [], ['I']), [['6'], ['4'], ['2']]);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
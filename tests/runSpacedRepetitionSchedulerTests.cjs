@@ -0,0 +1,80 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  DEFAULT_EASE_FACTOR,
+  scheduleReview,
+  scoreToQuality,
+  shouldEnqueueForReview,
+} = require('../src/services/practice/spacedRepetitionScheduler.ts');
+
+const reviewedAt = '2026-01-10T12:00:00.000Z';
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('marks earned map onto the 0-5 quality scale', () => {
+    const quality = (totalAwarded, totalAvailable) => scoreToQuality({ totalAwarded, totalAvailable });
+    assert.equal(quality(4, 4), 5);
+    assert.equal(quality(3, 4), 4);
+    assert.equal(quality(2, 4), 3);
+    assert.equal(quality(1, 4), 2);
+    assert.equal(quality(1, 10), 1);
+    assert.equal(quality(0, 4), 0);
+    assert.equal(quality(0, 0), 0);
+  }));
+
+  results.push(await runTest('only answers short of full marks are queued for review', () => {
+    assert.equal(shouldEnqueueForReview({ totalAwarded: 2, totalAvailable: 2 }), false);
+    assert.equal(shouldEnqueueForReview({ totalAwarded: 1, totalAvailable: 2 }), true);
+  }));
+
+  results.push(await runTest('first successful reviews use the 1 and 6 day steps', () => {
+    const first = scheduleReview(null, 4, reviewedAt);
+    assert.equal(first.repetitions, 1);
+    assert.equal(first.interval_days, 1);
+    assert.equal(first.ease_factor, DEFAULT_EASE_FACTOR);
+    assert.equal(first.due_date, '2026-01-11');
+
+    const second = scheduleReview(first, 4, reviewedAt);
+    assert.equal(second.repetitions, 2);
+    assert.equal(second.interval_days, 6);
+    assert.equal(second.due_date, '2026-01-16');
+  }));
+
+  results.push(await runTest('later intervals grow by the updated ease factor', () => {
+    const third = scheduleReview({ ease_factor: 2.5, interval_days: 6, repetitions: 2, lapses: 0 }, 5, reviewedAt);
+    assert.equal(third.ease_factor, 2.6);
+    assert.equal(third.interval_days, 16);
+    assert.equal(third.repetitions, 3);
+  }));
+
+  results.push(await runTest('a failed recall resets repetitions, counts a lapse and is due tomorrow', () => {
+    const failed = scheduleReview({ ease_factor: 2.5, interval_days: 15, repetitions: 4, lapses: 1 }, 1, reviewedAt);
+    assert.equal(failed.repetitions, 0);
+    assert.equal(failed.interval_days, 1);
+    assert.equal(failed.lapses, 2);
+    assert.equal(failed.ease_factor, 1.96);
+    assert.equal(failed.due_date, '2026-01-11');
+    assert.equal(failed.last_quality, 1);
+    assert.equal(failed.last_reviewed_at, reviewedAt);
+  }));
+
+  results.push(await runTest('a first miss is not counted as a lapse', () => {
+    assert.equal(scheduleReview(null, 0, reviewedAt).lapses, 0);
+  }));
+
+  results.push(await runTest('ease factor never drops below 1.3', () => {
+    const schedule = scheduleReview({ ease_factor: 1.35, interval_days: 1, repetitions: 0, lapses: 3 }, 0, reviewedAt);
+    assert.equal(schedule.ease_factor, 1.3);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,98 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  DEFAULT_SPEAKING_CRITERIA,
+  bandForMarks,
+  buildRubricMarking,
+  rubricMaxMarks,
+  scoreRubric,
+  validateRubricCriteria,
+} = require('../src/services/practice/speakingRubric.ts');
+
+const [pronunciation] = DEFAULT_SPEAKING_CRITERIA;
+const scores = [
+  { criterion: 'pronunciation', marks: 7 },
+  { criterion: 'fluency', marks: 4.6 },
+  { criterion: 'content', marks: 12 },
+];
+const context = { comment: ' Good range of tenses ', reviewerId: 'teacher-1', reviewedAt: '2026-02-01T09:00:00.000Z' };
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('the default rubric is valid and worth 30 marks', () => {
+    assert.deepEqual(validateRubricCriteria(DEFAULT_SPEAKING_CRITERIA), []);
+    assert.equal(rubricMaxMarks(DEFAULT_SPEAKING_CRITERIA), 30);
+  }));
+
+  results.push(await runTest('finds the band a mark falls in', () => {
+    assert.equal(bandForMarks(pronunciation, 0).descriptor, 'No rewardable response');
+    assert.equal(bandForMarks(pronunciation, 7).descriptor, 'Consistently accurate with natural intonation');
+    assert.equal(bandForMarks(pronunciation, 11), null);
+  }));
+
+  results.push(await runTest('reports keys, maximums and band coverage problems', () => {
+    const criterion = (overrides) => ({ ...pronunciation, ...overrides });
+    assert.deepEqual(validateRubricCriteria([]), ['A rubric needs at least one criterion']);
+    assert.deepEqual(
+      validateRubricCriteria([
+        criterion({ key: ' ', label: '' }),
+        criterion({ key: 'pronunciation' }),
+        criterion({ key: 'pronunciation', label: 'Again', maxMarks: 0, bands: [] }),
+      ]),
+      ['Every criterion needs a key', 'Duplicate criterion key "pronunciation"', 'Again: maximum marks must be above zero'],
+    );
+    assert.deepEqual(
+      validateRubricCriteria([
+        criterion({
+          bands: [
+            { minMarks: 0, maxMarks: 4, descriptor: 'Low' },
+            { minMarks: 4, maxMarks: 3, descriptor: 'High' },
+          ],
+        }),
+      ]),
+      [
+        'Pronunciation and intonation: bands must cover every mark without gaps or overlaps',
+        'Pronunciation and intonation: band 4-3 is reversed',
+        'Pronunciation and intonation: the top band must end at 10',
+      ],
+    );
+  }));
+
+  results.push(await runTest('scores are rounded, clamped and scaled to the question', () => {
+    assert.deepEqual(scoreRubric(DEFAULT_SPEAKING_CRITERIA, scores, 20), { rawTotal: 22, rawMax: 30, marks: 15 });
+    assert.deepEqual(scoreRubric(DEFAULT_SPEAKING_CRITERIA, scores, 0), { rawTotal: 22, rawMax: 30, marks: 22 });
+    assert.equal(scoreRubric(DEFAULT_SPEAKING_CRITERIA, [], 20).marks, 0);
+  }));
+
+  results.push(await runTest('rubric marking reads like a teacher mark with one point per criterion', () => {
+    const marking = buildRubricMarking(DEFAULT_SPEAKING_CRITERIA, scores, 20, context);
+    assert.deepEqual(
+      marking.awarded.map((entry) => [entry.pointId, entry.marks]),
+      [['rubric_pronunciation', 4.67], ['rubric_fluency', 3.33], ['rubric_content', 6.67]],
+    );
+    assert.equal(marking.awarded[0].notes, 'Pronunciation and intonation: 7/10 (Consistently accurate with natural intonation)');
+    assert.equal(marking.totalAwarded, 15);
+    assert.equal(marking.totalAvailable, 20);
+    assert.deepEqual(marking.notes, ['speaking rubric 22/30', 'teacher comment: Good range of tenses']);
+    assert.equal(marking.overriddenBy, 'teacher-1');
+    assert.equal(marking.overriddenAt, '2026-02-01T09:00:00.000Z');
+  }));
+
+  results.push(await runTest('criteria scored zero are listed as denied', () => {
+    const marking = buildRubricMarking(DEFAULT_SPEAKING_CRITERIA, [], 20, { ...context, comment: '' });
+    assert.deepEqual(marking.awarded, []);
+    assert.equal(marking.denied[1].reason, 'Fluency and interaction: 0/10 (No rewardable response)');
+    assert.deepEqual(marking.notes, ['speaking rubric 0/30']);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
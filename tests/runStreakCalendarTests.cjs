@@ -0,0 +1,96 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const {
+  addCalendarDays,
+  applyStreakActivity,
+  buildStreakCalendar,
+  resolveCalendarDay,
+  resolveDisplayedStreak,
+} = require('../src/services/practice/streakCalendar.ts');
+
+const state = { currentStreak: 4, longestStreak: 6, lastStreakDay: '2026-01-10', freezesAvailable: 1 };
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('calendar days follow the school timezone', () => {
+    assert.equal(resolveCalendarDay('2026-01-10T23:30:00.000Z', 'UTC'), '2026-01-10');
+    assert.equal(resolveCalendarDay('2026-01-10T23:30:00.000Z', 'Asia/Dubai'), '2026-01-11');
+    assert.equal(resolveCalendarDay('2026-01-10T02:00:00.000Z', 'America/New_York'), '2026-01-09');
+    assert.equal(resolveCalendarDay('2026-01-10T23:30:00.000Z', 'Not/AZone'), '2026-01-10');
+    assert.equal(resolveCalendarDay('2026-01-10T23:30:00.000Z', null), '2026-01-10');
+  }));
+
+  results.push(await runTest('adds days across month ends', () => {
+    assert.equal(addCalendarDays('2026-01-31', 1), '2026-02-01');
+    assert.equal(addCalendarDays('2026-03-01', -1), '2026-02-28');
+  }));
+
+  results.push(await runTest('the first activity starts a streak', () => {
+    const update = applyStreakActivity({ ...state, currentStreak: 0, lastStreakDay: null }, '2026-01-10');
+    assert.equal(update.currentStreak, 1);
+    assert.equal(update.longestStreak, 6);
+    assert.equal(update.streakDelta, 1);
+  }));
+
+  results.push(await runTest('only the first activity of a day extends the streak', () => {
+    const sameDay = applyStreakActivity(state, '2026-01-10');
+    assert.equal(sameDay.currentStreak, 4);
+    assert.equal(sameDay.streakDelta, 0);
+
+    const nextDay = applyStreakActivity(state, '2026-01-11');
+    assert.equal(nextDay.currentStreak, 5);
+    assert.equal(nextDay.streakDelta, 1);
+    assert.deepEqual(nextDay.frozenDays, []);
+    assert.equal(nextDay.freezesAvailable, 1);
+  }));
+
+  results.push(await runTest('missed days are bridged with freezes when enough are held', () => {
+    const bridged = applyStreakActivity(state, '2026-01-12');
+    assert.equal(bridged.currentStreak, 5);
+    assert.deepEqual(bridged.frozenDays, ['2026-01-11']);
+    assert.equal(bridged.freezesAvailable, 0);
+
+    const broken = applyStreakActivity(state, '2026-01-13');
+    assert.equal(broken.currentStreak, 1);
+    assert.equal(broken.streakDelta, -3);
+    assert.deepEqual(broken.frozenDays, []);
+    assert.equal(broken.freezesAvailable, 1);
+  }));
+
+  results.push(await runTest('a new best updates the longest streak', () => {
+    const update = applyStreakActivity({ ...state, currentStreak: 6 }, '2026-01-11');
+    assert.equal(update.longestStreak, 7);
+  }));
+
+  results.push(await runTest('the displayed streak drops once the gap cannot be bridged', () => {
+    assert.equal(resolveDisplayedStreak(state, '2026-01-11'), 4);
+    assert.equal(resolveDisplayedStreak(state, '2026-01-12'), 4);
+    assert.equal(resolveDisplayedStreak(state, '2026-01-13'), 0);
+    assert.equal(resolveDisplayedStreak({ ...state, lastStreakDay: null }, '2026-01-11'), 0);
+  }));
+
+  results.push(await runTest('the calendar marks active, frozen and missed days', () => {
+    const calendar = buildStreakCalendar(
+      [
+        { activity_date: '2026-01-10', sessions_completed: 2, xp_earned: 80, freeze_used: false },
+        { activity_date: '2026-01-11', sessions_completed: 0, xp_earned: 0, freeze_used: true },
+      ],
+      '2026-01-10',
+      '2026-01-12',
+    );
+    assert.deepEqual(calendar.map((day) => day.status), ['active', 'frozen', 'missed']);
+    assert.equal(calendar[0].xpEarned, 80);
+    assert.deepEqual(buildStreakCalendar([], '2026-01-12', '2026-01-10'), []);
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
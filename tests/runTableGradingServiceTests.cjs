@@ -0,0 +1,130 @@
+'use strict';
+
+const assert = require('assert/strict');
+const { runTest, reportResults } = require('./helpers/tsRuntime.cjs');
+
+const { TableGradingService } = require('../src/services/TableGradingService.ts');
+const { TableTemplateService } = require('../src/services/TableTemplateService.ts');
+
+const cell = (rowIndex, colIndex, expectedAnswer, extra = {}) => ({
+  rowIndex,
+  colIndex,
+  cellType: 'editable',
+  expectedAnswer,
+  ...extra,
+});
+const template = (gradingRules = []) => ({
+  rows: 3,
+  columns: 2,
+  headers: [],
+  cells: [cell(0, 0, 'Na'), cell(0, 1, '11'), cell(1, 0, 'Mg'), cell(1, 1, '12'), cell(2, 0, 'Al'), cell(2, 1, '13')],
+  gradingRules,
+});
+const match = (overrides, answer) => TableTemplateService.matchCellAnswer(cell(0, 0, 'Oxygen', overrides), answer);
+
+async function main() {
+  const results = [];
+
+  results.push(await runTest('matches alternatives, case and equivalent phrasing', () => {
+    assert.deepEqual(match({ alternativeAnswers: ['O2'] }, 'o2'), { isCorrect: true, matchType: 'alternative' });
+    assert.deepEqual(match({ caseSensitive: true }, 'oxygen'), { isCorrect: false, matchType: 'none' });
+    assert.deepEqual(match({ acceptsEquivalentPhrasing: true }, 'Oxygne'), { isCorrect: false, matchType: 'none' });
+    assert.deepEqual(
+      match({ expectedAnswer: 'photosynthesis', acceptsEquivalentPhrasing: true }, 'photosynthesys'),
+      { isCorrect: true, matchType: 'fuzzy' },
+    );
+    assert.deepEqual(match({}, '  '), { isCorrect: false, matchType: 'none' });
+  }));
+
+  results.push(await runTest('numeric cells accept answers within an absolute or percentage tolerance', () => {
+    const percentage = { expectedAnswer: '20', answerType: 'numeric', numericTolerance: 5, toleranceType: 'percentage' };
+    assert.deepEqual(match(percentage, '20.8'), { isCorrect: true, matchType: 'numeric' });
+    assert.equal(match(percentage, '21.5').isCorrect, false);
+    assert.equal(match({ expectedAnswer: '0.1', answerType: 'numeric', numericTolerance: 0.1 }, '0.2').isCorrect, true);
+    assert.equal(match({ expectedAnswer: '1200', answerType: 'numeric' }, '1,200').isCorrect, true);
+  }));
+
+  results.push(await runTest('cells outside any rule are marked one by one', () => {
+    const result = TableGradingService.gradeTemplate({ '0-0': 'Na', '0-1': '11', '1-0': 'Mg' }, template());
+    assert.equal(result.totalMarks, 6);
+    assert.equal(result.achievedMarks, 3);
+    assert.equal(result.percentage, 50);
+    assert.equal(result.feedback['1-1'].feedback, 'No answer provided');
+  }));
+
+  results.push(await runTest('per-group rows score only when complete, and may be in any order', () => {
+    const rule = { id: 'rows', scope: 'rows', indices: [0, 1, 2], scoring: 'per_group', marksPerGroup: 1, orderIndependent: true };
+    const answers = { '0-0': 'Mg', '0-1': '12', '1-0': 'Na', '1-1': '11', '2-0': 'Al', '2-1': '14' };
+    const result = TableGradingService.gradeTemplate(answers, template([rule]));
+    assert.equal(result.totalMarks, 3);
+    assert.equal(result.achievedMarks, 2);
+    assert.equal(
+      result.feedback['0-0'].feedback,
+      'Correct! (any order accepted within this row) — row 1 complete (1 mark)',
+    );
+    assert.equal(result.feedback['2-0'].feedback, 'Correct! — row 3 earns marks only when every cell is correct');
+    assert.equal(result.feedback['2-0'].ruleId, 'rows');
+  }));
+
+  results.push(await runTest('order-free columns let each expected value be claimed once', () => {
+    const rule = { id: 'symbols', scope: 'columns', indices: [0], scoring: 'per_cell', orderIndependent: true };
+    const result = TableGradingService.gradeTemplate({ '0-0': 'Al', '1-0': 'Na', '2-0': 'Na' }, template([rule]));
+    assert.equal(result.feedback['0-0'].isCorrect, true);
+    assert.equal(result.feedback['1-0'].isCorrect, true);
+    assert.equal(result.feedback['2-0'].feedback, 'Incorrect. Expected one of: Mg');
+    assert.equal(result.achievedMarks, 2);
+  }));
+
+  results.push(await runTest('per-n-correct awards one mark for every n correct cells', () => {
+    const rule = { id: 'pairs', scope: 'columns', indices: [0, 1], scoring: 'per_n_correct', correctPerMark: 2 };
+    const answers = { '0-0': 'Na', '0-1': '11', '1-0': 'Mg', '1-1': 'x', '2-0': 'Al', '2-1': '13' };
+    const result = TableGradingService.gradeTemplate(answers, template([rule]));
+    assert.equal(result.totalMarks, 3);
+    assert.equal(result.achievedMarks, 2);
+    assert.match(result.feedback['1-1'].feedback, /5 of 6 correct: 1 mark per 2 correct cells \(2\/3\)$/);
+  }));
+
+  results.push(await runTest('the first rule covering a cell scores it', () => {
+    const rows = { id: 'first', scope: 'rows', indices: [0], scoring: 'per_group', marksPerGroup: 4 };
+    const columns = { id: 'second', scope: 'columns', indices: [0], scoring: 'per_cell' };
+    const result = TableGradingService.gradeTemplate({ '0-0': 'Na', '0-1': '11' }, template([rows, columns]));
+    assert.equal(result.feedback['0-0'].ruleId, 'first');
+    assert.equal(result.feedback['1-0'].ruleId, 'second');
+    assert.equal(result.feedback['1-1'].ruleId, undefined);
+    assert.equal(result.totalMarks, 8);
+    assert.equal(result.achievedMarks, 4);
+  }));
+
+  results.push(await runTest('grading rules are validated against the table', () => {
+    assert.deepEqual(
+      TableTemplateService.validateGradingRules(
+        [
+          { id: 'a', scope: 'rows', indices: [], scoring: 'per_n_correct' },
+          { id: 'b', label: 'Cols', scope: 'columns', indices: [5], scoring: 'per_group', marksPerGroup: 0 },
+        ],
+        template(),
+      ),
+      [
+        'Rule 1: select at least one row',
+        'Rule 1: set how many correct cells earn one mark',
+        'Cols: covers a column outside the table',
+        'Cols: marks per column must be positive',
+        'Cols: covers no editable cells',
+      ],
+    );
+  }));
+
+  results.push(await runTest('statistics ignore failed gradings', () => {
+    assert.deepEqual(
+      TableGradingService.calculateStatistics([{ success: true, percentage: 40 }, { success: true, percentage: 80 }, { success: false }]),
+      { totalStudents: 2, averageScore: 60, highestScore: 80, lowestScore: 40, passRate: 50 },
+    );
+  }));
+
+  reportResults(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});